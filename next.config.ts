@@ -299,6 +299,10 @@ const nextConfig: NextConfig = {
     imageSizes: [16, 32, 48, 64, 96, 128, 256],
   },
 
+  // Server-rendered PDFs (lib/documents) need jsPDF's Node build, not the
+  // browser bundle webpack would otherwise pick
+  serverExternalPackages: ["jspdf", "jspdf-autotable"],
+
   // optimizePackageImports only works with Turbopack — remove in webpack mode
   // to avoid it conflicting and slowing down compilation
   experimental: isDev
@@ -0,0 +1,161 @@
+#!/usr/bin/env node
+/* -------------------------------------------------------------------------- */
+/*  Local SMTP capture                                                          */
+/*                                                                              */
+/*  A tiny SMTP server for development: accepts every message and writes it */
+/*  to .email-capture/ as an .eml file (open it in any mail app) instead of  */
+/*  delivering it. Point the app at it with                                   */
+/*                                                                              */
+/*    SMTP_HOST=localhost SMTP_PORT=1025                                       */
+/*                                                                              */
+/*  and run `npm run smtp:capture`. Any AUTH credentials are accepted.        */
+/*  SMTP_CAPTURE_PORT / SMTP_CAPTURE_DIR override the port and folder.        */
+/* -------------------------------------------------------------------------- */
+
+import net from "node:net";
+import fs from "node:fs";
+import path from "node:path";
+
+const PORT = Number(process.env.SMTP_CAPTURE_PORT) || 1025;
+const DIR = path.resolve(process.env.SMTP_CAPTURE_DIR || ".email-capture");
+const MAX_BYTES = 10 * 1024 * 1024;
+
+fs.mkdirSync(DIR, { recursive: true });
+
+let counter = 0;
+
+function saveMessage(envelope, raw) {
+  counter += 1;
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const file = path.join(DIR, `${stamp}-${counter}.eml`);
+  fs.writeFileSync(file, raw);
+
+  const subject = raw.match(/^Subject: (.*)$/im)?.[1] ?? "(no subject)";
+  console.log(`✉️  ${envelope.from || "?"} → ${envelope.to.join(", ") || "?"}`);
+  console.log(`   ${subject}`);
+  console.log(`   saved ${path.relative(process.cwd(), file)}`);
+  return `${stamp}-${counter}`;
+}
+
+const server = net.createServer((socket) => {
+  let buffer = "";
+  let mode = "command"; // "command" | "data" | "auth-login-user" | "auth-login-pass" | "auth-plain"
+  let envelope = { from: "", to: [] };
+  let data = [];
+  let dataBytes = 0;
+
+  const reply = (line) => socket.write(`${line}\r\n`);
+
+  function handleCommand(line) {
+    const [verb, ...rest] = line.split(" ");
+    const arg = rest.join(" ");
+
+    switch (verb.toUpperCase()) {
+      case "EHLO":
+        reply("250-localhost");
+        reply("250-AUTH PLAIN LOGIN");
+        reply(`250-SIZE ${MAX_BYTES}`);
+        reply("250 8BITMIME");
+        return;
+      case "HELO":
+        reply("250 localhost");
+        return;
+      case "AUTH": {
+        const [method, initial] = arg.split(" ");
+        if (method?.toUpperCase() === "LOGIN") {
+          mode = "auth-login-user";
+          reply("334 VXNlcm5hbWU6");
+        } else if (method?.toUpperCase() === "PLAIN" && !initial) {
+          mode = "auth-plain";
+          reply("334 ");
+        } else {
+          reply("235 2.7.0 Authentication successful");
+        }
+        return;
+      }
+      case "MAIL":
+        envelope = { from: arg.replace(/^FROM:\s*/i, "").replace(/[<>]/g, "").split(" ")[0], to: [] };
+        reply("250 2.1.0 OK");
+        return;
+      case "RCPT":
+        envelope.to.push(arg.replace(/^TO:\s*/i, "").replace(/[<>]/g, "").split(" ")[0]);
+        reply("250 2.1.5 OK");
+        return;
+      case "DATA":
+        if (envelope.to.length === 0) {
+          reply("503 5.5.1 RCPT first");
+          return;
+        }
+        mode = "data";
+        data = [];
+        dataBytes = 0;
+        reply("354 End data with <CR><LF>.<CR><LF>");
+        return;
+      case "RSET":
+        envelope = { from: "", to: [] };
+        reply("250 2.0.0 OK");
+        return;
+      case "NOOP":
+        reply("250 2.0.0 OK");
+        return;
+      case "QUIT":
+        reply("221 2.0.0 Bye");
+        socket.end();
+        return;
+      default:
+        reply("502 5.5.2 Command not implemented");
+    }
+  }
+
+  function handleLine(line) {
+    if (mode === "data") {
+      if (line === ".") {
+        mode = "command";
+        if (dataBytes > MAX_BYTES) {
+          reply("552 5.3.4 Message too big");
+          return;
+        }
+        const id = saveMessage(envelope, data.join("\r\n") + "\r\n");
+        envelope = { from: "", to: [] };
+        reply(`250 2.0.0 OK queued as ${id}`);
+        return;
+      }
+      // Dot-stuffing: a leading ".." was a "." in the message
+      const content = line.startsWith("..") ? line.slice(1) : line;
+      dataBytes += content.length + 2;
+      if (dataBytes <= MAX_BYTES) data.push(content);
+      return;
+    }
+    if (mode === "auth-login-user") {
+      mode = "auth-login-pass";
+      reply("334 UGFzc3dvcmQ6");
+      return;
+    }
+    if (mode === "auth-login-pass" || mode === "auth-plain") {
+      mode = "command";
+      reply("235 2.7.0 Authentication successful");
+      return;
+    }
+    handleCommand(line);
+  }
+
+  socket.setEncoding("utf8");
+  socket.on("data", (chunk) => {
+    buffer += chunk;
+    let index;
+    while ((index = buffer.indexOf("\r\n")) !== -1) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      handleLine(line);
+    }
+  });
+  socket.on("error", () => { /* client hung up */ });
+
+  reply("220 localhost Stitcha SMTP capture");
+});
+
+server.listen(PORT, () => {
+  console.log(`📭 SMTP capture listening on localhost:${PORT}`);
+  console.log(`   Saving messages to ${path.relative(process.cwd(), DIR) || "."}/`);
+  console.log(`   Run the app with SMTP_HOST=localhost SMTP_PORT=${PORT}\n`);
+});
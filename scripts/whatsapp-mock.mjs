@@ -0,0 +1,204 @@
+#!/usr/bin/env node
+/* -------------------------------------------------------------------------- */
+/*  Local WhatsApp Cloud API mock                                               */
+/*                                                                              */
+/*  A tiny stand-in for Meta's Graph API for development: accepts every      */
+/*  /messages send, logs it and answers with a wamid, then posts signed      */
+/*  "sent" / "delivered" receipts back to the app's webhook like Meta does.  */
+/*  Recipients ending in 0000 get a "failed" receipt instead. Point the app  */
+/*  at it with                                                                 */
+/*                                                                              */
+/*    WHATSAPP_GRAPH_URL=http://localhost:4010                                 */
+/*    WHATSAPP_ACCESS_TOKEN=dev WHATSAPP_PHONE_NUMBER_ID=dev                   */
+/*                                                                              */
+/*  and run `npm run whatsapp:mock`. To play the customer, POST to /inbound */
+/*  and the mock delivers it to the app as a signed webhook:                 */
+/*                                                                              */
+/*    curl localhost:4010/inbound -d '{"from":"2348031234567","text":"hi"}'   */
+/*                                                                              */
+/*  Add "replyId" to send a button / list tap and "name" for the profile.    */
+/*  Webhooks are signed with WHATSAPP_APP_SECRET when it's set (the same     */
+/*  value the app checks). WHATSAPP_MOCK_PORT / WHATSAPP_MOCK_WEBHOOK        */
+/*  override the port and the app URL (default                               */
+/*  http://localhost:3000/api/whatsapp-bot).                                  */
+/* -------------------------------------------------------------------------- */
+
+import http from "node:http";
+import crypto from "node:crypto";
+
+const PORT = Number(process.env.WHATSAPP_MOCK_PORT) || 4010;
+const WEBHOOK = process.env.WHATSAPP_MOCK_WEBHOOK || "http://localhost:3000/api/whatsapp-bot";
+const SECRET = process.env.WHATSAPP_APP_SECRET || "";
+const RECEIPT_DELAY_MS = 500;
+const MAX_BYTES = 1024 * 1024;
+
+let counter = 0;
+
+function wamid() {
+  counter += 1;
+  return `wamid.MOCK${Date.now().toString(36).toUpperCase()}${counter}`;
+}
+
+const unixNow = () => String(Math.floor(Date.now() / 1000));
+
+/* ---- Webhooks to the app ---- */
+
+async function postWebhook(value) {
+  const body = JSON.stringify({
+    object: "whatsapp_business_account",
+    entry: [{
+      id: "MOCK_WABA",
+      changes: [{
+        field: "messages",
+        value: {
+          messaging_product: "whatsapp",
+          metadata: { display_phone_number: "2340000000000", phone_number_id: "mock" },
+          ...value,
+        },
+      }],
+    }],
+  });
+  const headers = { "Content-Type": "application/json" };
+  if (SECRET) {
+    headers["X-Hub-Signature-256"] =
+      "sha256=" + crypto.createHmac("sha256", SECRET).update(body, "utf8").digest("hex");
+  }
+
+  try {
+    const res = await fetch(WEBHOOK, { method: "POST", headers, body });
+    return res.status;
+  } catch (err) {
+    console.log(`   ⚠️  webhook failed: ${err.message}`);
+    return 502;
+  }
+}
+
+function sendReceipts(id, to) {
+  const failed = to.endsWith("0000");
+  const steps = failed ? ["failed"] : ["sent", "delivered"];
+  steps.forEach((status, i) => {
+    setTimeout(async () => {
+      const code = await postWebhook({
+        statuses: [{
+          id,
+          status,
+          timestamp: unixNow(),
+          recipient_id: to,
+          ...(failed
+            ? { errors: [{ code: 131026, title: "Message undeliverable", error_data: { details: "Mock failure for numbers ending in 0000" } }] }
+            : {}),
+        }],
+      });
+      console.log(`   ↩︎  ${status} receipt for ${id} → ${code}`);
+    }, RECEIPT_DELAY_MS * (i + 1));
+  });
+}
+
+/* ---- Request handlers ---- */
+
+function describe(payload) {
+  switch (payload.type) {
+    case "text":
+      return payload.text?.body ?? "";
+    case "template": {
+      const params = (payload.template?.components || [])
+        .flatMap((c) => c.parameters || [])
+        .map((p) => p.text ?? p.image?.link ?? "")
+        .filter(Boolean);
+      return `template ${payload.template?.name} (${payload.template?.language?.code})` +
+        (params.length ? ` [${params.join(" | ")}]` : "");
+    }
+    case "interactive":
+      return `interactive: ${payload.interactive?.body?.text ?? ""}`;
+    default:
+      return payload.type || "(unknown)";
+  }
+}
+
+function handleSend(req, payload, reply) {
+  if (!req.headers.authorization?.startsWith("Bearer ")) {
+    reply(401, { error: { message: "Missing access token", type: "OAuthException", code: 190 } });
+    return;
+  }
+  // Marking an inbound message read
+  if (payload.status === "read") {
+    reply(200, { success: true });
+    return;
+  }
+  if (!payload.to) {
+    reply(400, { error: { message: "(#100) The parameter to is required.", type: "OAuthException", code: 100 } });
+    return;
+  }
+
+  const id = wamid();
+  console.log(`💬 → ${payload.to}`);
+  console.log(`   ${describe(payload).replace(/\n/g, "\n   ")}`);
+  reply(200, {
+    messaging_product: "whatsapp",
+    contacts: [{ input: payload.to, wa_id: payload.to }],
+    messages: [{ id }],
+  });
+  sendReceipts(id, payload.to);
+}
+
+async function handleInbound(payload, reply) {
+  if (!payload.from || (!payload.text && !payload.replyId)) {
+    reply(400, { error: "Send { from, text } — or { from, replyId, text } for a button tap" });
+    return;
+  }
+
+  const from = String(payload.from).replace(/\D/g, "");
+  const id = wamid();
+  const message = payload.replyId
+    ? {
+        from, id, timestamp: unixNow(), type: "interactive",
+        interactive: { type: "button_reply", button_reply: { id: payload.replyId, title: payload.text || payload.replyId } },
+      }
+    : { from, id, timestamp: unixNow(), type: "text", text: { body: payload.text } };
+
+  console.log(`📲 ${from} → app: ${payload.text || payload.replyId}`);
+  const code = await postWebhook({
+    contacts: [{ profile: { name: payload.name || "Mock Customer" }, wa_id: from }],
+    messages: [message],
+  });
+  console.log(`   webhook → ${code}`);
+  reply(code >= 200 && code < 300 ? 200 : 502, { id, webhookStatus: code });
+}
+
+const server = http.createServer((req, res) => {
+  const reply = (status, json) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(json));
+  };
+
+  let raw = "";
+  let tooBig = false;
+  req.setEncoding("utf8");
+  req.on("data", (chunk) => {
+    raw += chunk;
+    if (raw.length > MAX_BYTES) tooBig = true;
+  });
+  req.on("end", () => {
+    if (tooBig) return reply(413, { error: { message: "Payload too large" } });
+    if (req.method !== "POST") return reply(405, { error: { message: "Only POST is mocked" } });
+
+    let payload;
+    try {
+      payload = raw ? JSON.parse(raw) : {};
+    } catch {
+      return reply(400, { error: { message: "Body isn't JSON" } });
+    }
+
+    const path = new URL(req.url, "http://localhost").pathname;
+    if (/^\/v[\d.]+\/[^/]+\/messages$/.test(path)) return handleSend(req, payload, reply);
+    if (path === "/inbound") return void handleInbound(payload, reply);
+    reply(404, { error: { message: `Unknown path ${path}` } });
+  });
+  req.on("error", () => { /* client hung up */ });
+});
+
+server.listen(PORT, () => {
+  console.log(`📡 WhatsApp mock listening on localhost:${PORT}`);
+  console.log(`   Webhooks go to ${WEBHOOK}${SECRET ? " (signed)" : " (unsigned — set WHATSAPP_APP_SECRET to sign)"}`);
+  console.log(`   Run the app with WHATSAPP_GRAPH_URL=http://localhost:${PORT}\n`);
+});
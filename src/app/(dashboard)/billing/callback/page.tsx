@@ -14,6 +14,7 @@ function BillingCallbackContent() {
     "verifying"
   );
   const [planName, setPlanName] = useState("");
+  const [renewal, setRenewal] = useState<{ interval: string; autoRenew: boolean } | null>(null);
 
   useEffect(() => {
     const reference = searchParams.get("reference");
@@ -31,6 +32,7 @@ function BillingCallbackContent() {
         if (json.success) {
           setStatus("success");
           setPlanName(json.data.planId);
+          setRenewal({ interval: json.data.interval, autoRenew: json.data.autoRenew });
         } else {
           setStatus("failed");
         }
@@ -68,8 +70,15 @@ function BillingCallbackContent() {
             You are now on the{" "}
             {planName === "pro" ? "Pro" : planName === "plus" ? "Plus" : planName} plan.
           </p>
-          <Button onClick={() => router.push("/settings")}>
-            Go to Settings
+          {renewal && (
+            <p className="-mt-3 text-xs text-[#1A1A2E]/45">
+              {renewal.autoRenew
+                ? `Renews automatically every ${renewal.interval === "annual" ? "year" : "month"} — manage it from Billing.`
+                : `Paid for one ${renewal.interval === "annual" ? "year" : "month"}. We'll remind you before it ends.`}
+            </p>
+          )}
+          <Button onClick={() => router.push("/billing")}>
+            Go to Billing
           </Button>
         </>
       )}
@@ -14,6 +14,8 @@ import {
   Send,
   Sparkles,
   Loader2,
+  CreditCard,
+  RefreshCw,
 } from "lucide-react";
 import { PaymentModal, type PaymentRequest } from "@/components/common/payment-modal";
 import { PendingPaymentsStrip } from "@/components/common/pending-payments-strip";
@@ -28,7 +30,10 @@ import {
   SCAN_CREDIT_PRICE,
   SMS_PACKS,
   STUDIO_ADDON,
+  SUBSCRIPTION_BILLING,
+  type BillingInterval,
 } from "@/lib/constants";
+import { getSubscriptionPrice } from "@/lib/subscription";
 import { cn, formatCurrency } from "@/lib/utils";
 import type { Designer } from "@/types";
 
@@ -37,6 +42,8 @@ export default function BillingPage() {
   const [loading,   setLoading]   = useState(true);
   const [paymentReq, setPaymentReq] = useState<PaymentRequest | null>(null);
   const [pendingCount, setPendingCount] = useState(0);
+  const [billingInterval, setBillingInterval] = useState<BillingInterval>("monthly");
+  const [checkingOut, setCheckingOut] = useState<string | null>(null);
 
   const fetchProfile = useCallback(async () => {
     try {
@@ -81,30 +88,62 @@ export default function BillingPage() {
     fetchPendingCount();
   }
 
-  function handleUpgrade(planId: string) {
+  function handleUpgrade(planId: string, period: BillingInterval = billingInterval) {
     const plan = SUBSCRIPTION_PLANS.find((p) => p.id === planId);
     if (!plan || plan.price === 0) return;
     startPayment({
       purpose: "subscription",
-      amount: plan.price,
-      payload: { planId: planId as "plus" | "pro" },
-      title: `${plan.name} plan — 30 days`,
+      amount: getSubscriptionPrice(plan.id, period),
+      payload: { planId: planId as "plus" | "pro", interval: period },
+      title: `${plan.name} plan — ${period === "annual" ? "12 months" : "30 days"}`,
       description: plan.description,
     });
   }
 
+  /* Card checkout — auto-renews where a Paystack plan is set up for it. */
+  async function payPlanByCard(planId: string, period: BillingInterval = billingInterval) {
+    setCheckingOut(planId);
+    try {
+      const res = await fetch("/api/billing/checkout", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ planId, interval: period, autoRenew: true }),
+      });
+      const json = await res.json();
+      if (json.success) {
+        window.location.href = json.data.authorizationUrl;
+        return;
+      }
+      if (json.needsConfig) {
+        toast.info("Card payments aren't available right now — pay by bank transfer instead.");
+        handleUpgrade(planId, period);
+      } else {
+        toast.error(json.error || "Couldn't start card payment");
+      }
+    } catch {
+      toast.error("Couldn't start card payment");
+    } finally {
+      setCheckingOut(null);
+    }
+  }
+
   if (loading) return <SectionLoader />;
 
   const currentSub = designer?.subscription || "free";
+  const autoRenew = !!designer?.subscriptionBilling?.autoRenew && designer.subscriptionBilling.status !== "cancelled";
 
   // Renewal-due window — surface a banner when the paid plan is within 7 days of expiry,
-  // and a stronger one if it has actually expired.
+  // an urgent one through the grace period, and a stronger one once it has lapsed.
   const renewalState = (() => {
     if (!designer || currentSub === "free" || !designer.subscriptionExpiry) return null;
     const exp = new Date(designer.subscriptionExpiry);
     if (isNaN(exp.getTime())) return null;
     const ms = exp.getTime() - Date.now();
     const days = Math.ceil(ms / 86_400_000);
+    const graceEnds = new Date(exp.getTime() + SUBSCRIPTION_BILLING.graceDays * 86_400_000);
+    if (ms < 0 && graceEnds.getTime() > Date.now()) {
+      return { kind: "grace" as const, days: Math.max(1, Math.abs(days)), date: graceEnds };
+    }
     if (ms < 0) return { kind: "expired" as const, days: Math.abs(days), date: exp };
     if (days <= 7) return { kind: "soon" as const, days, date: exp };
     return null;
@@ -130,7 +169,7 @@ export default function BillingPage() {
           </p>
           <p className="mt-2 inline-flex items-center gap-1.5 rounded-md bg-emerald-50/70 px-2 py-1 text-[11px] font-medium text-emerald-700">
             <span className="h-1.5 w-1.5 rounded-full bg-emerald-500" />
-            Bank transfer is the only payment method right now — admin verifies within minutes.
+            Pay by card (plans renew automatically) or bank transfer — admin verifies transfers within minutes.
           </p>
         </motion.div>
 
@@ -162,7 +201,9 @@ export default function BillingPage() {
                 >
                   {renewalState.kind === "expired"
                     ? `Your ${currentSub.toUpperCase()} plan expired ${renewalState.days} day${renewalState.days === 1 ? "" : "s"} ago`
-                    : `Your ${currentSub.toUpperCase()} plan renews in ${renewalState.days} day${renewalState.days === 1 ? "" : "s"}`}
+                    : renewalState.kind === "grace"
+                    ? `Your ${currentSub.toUpperCase()} renewal is overdue`
+                    : `Your ${currentSub.toUpperCase()} plan ${autoRenew ? "renews" : "expires"} in ${renewalState.days} day${renewalState.days === 1 ? "" : "s"}`}
                 </p>
                 <p
                   className={cn(
@@ -172,7 +213,11 @@ export default function BillingPage() {
                 >
                   {renewalState.kind === "expired"
                     ? "You're now on the Free plan. Renew to restore your scan quota and other paid features."
-                    : `Renews ${renewalState.date.toLocaleDateString("en-NG", { day: "numeric", month: "long", year: "numeric" })}.  Top up early to avoid interruption.`}
+                    : renewalState.kind === "grace"
+                    ? `You keep your ${currentSub.toUpperCase()} features until ${renewalState.date.toLocaleDateString("en-NG", { day: "numeric", month: "long" })}. Renew before then to avoid dropping to Free.`
+                    : autoRenew
+                    ? `We'll charge your saved card on ${renewalState.date.toLocaleDateString("en-NG", { day: "numeric", month: "long", year: "numeric" })}.`
+                    : `Expires ${renewalState.date.toLocaleDateString("en-NG", { day: "numeric", month: "long", year: "numeric" })}.  Renew early to avoid interruption — unused days carry over.`}
                 </p>
               </div>
             </div>
@@ -196,7 +241,7 @@ export default function BillingPage() {
                       {currentSub === "free"
                         ? "Free forever — no expiry"
                         : designer.subscriptionExpiry
-                        ? `Renews ${new Date(designer.subscriptionExpiry).toLocaleDateString("en-NG", { day: "numeric", month: "long", year: "numeric" })}`
+                        ? `${autoRenew ? "Renews" : "Expires"} ${new Date(designer.subscriptionExpiry).toLocaleDateString("en-NG", { day: "numeric", month: "long", year: "numeric" })}`
                         : "Active subscription"}
                     </p>
                   </div>
@@ -211,8 +256,39 @@ export default function BillingPage() {
           </motion.div>
         )}
 
+        {/* ---- Renewal settings (paid plans) ---- */}
+        {currentSub !== "free" && (
+          <motion.div initial={{ opacity: 0, y: 8 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.08 }}>
+            <RenewalCard
+              planId={currentSub}
+              onRenewByCard={(period) => payPlanByCard(currentSub, period)}
+              onRenewByTransfer={(period) => handleUpgrade(currentSub, period)}
+              onChanged={fetchProfile}
+            />
+          </motion.div>
+        )}
+
         {/* ---- Pricing grid ---- */}
         <motion.div initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.1 }}>
+          <div className="mb-4 flex justify-center">
+            <div className="inline-flex rounded-xl border border-[#1A1A2E]/8 bg-white/50 p-1">
+              {(["monthly", "annual"] as const).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setBillingInterval(option)}
+                  className={cn(
+                    "rounded-lg px-4 py-1.5 text-xs font-semibold transition-colors",
+                    billingInterval === option
+                      ? "bg-[#C75B39] text-white shadow-sm"
+                      : "text-[#1A1A2E]/55 hover:text-[#1A1A2E]",
+                  )}
+                >
+                  {option === "monthly" ? "Monthly" : `Annual · save ${SUBSCRIPTION_BILLING.annualDiscountPercent}%`}
+                </button>
+              ))}
+            </div>
+          </div>
           <div className="grid gap-4 sm:grid-cols-3">
             {SUBSCRIPTION_PLANS.map((plan) => {
               const planLevel   = planOrder[plan.id] ?? 0;
@@ -247,12 +323,20 @@ export default function BillingPage() {
                       ) : (
                         <>
                           <span className="text-3xl font-black text-[#1A1A2E]">
-                            {formatCurrency(plan.price)}
+                            {formatCurrency(getSubscriptionPrice(plan.id, billingInterval))}
+                          </span>
+                          <span className="text-sm text-[#1A1A2E]/40">
+                            {billingInterval === "annual" ? "/year" : "/month"}
                           </span>
-                          <span className="text-sm text-[#1A1A2E]/40">/month</span>
                         </>
                       )}
                     </div>
+                    {plan.price > 0 && billingInterval === "annual" && (
+                      <p className="mt-1 text-[11px] text-emerald-600">
+                        ≈ {formatCurrency(Math.round(getSubscriptionPrice(plan.id, "annual") / 12))}/month · save{" "}
+                        {formatCurrency(plan.price * 12 - getSubscriptionPrice(plan.id, "annual"))}
+                      </p>
+                    )}
                   </div>
 
                   <div className="mb-5 space-y-2">
@@ -270,13 +354,24 @@ export default function BillingPage() {
                       <span className="text-sm font-semibold text-[#C75B39]">Current Plan</span>
                     </div>
                   ) : isUpgrade ? (
-                    <Button
-                      className="w-full"
-                      onClick={() => handleUpgrade(plan.id)}
-                    >
-                      Upgrade to {plan.name}
-                      <ArrowRight className="h-4 w-4" />
-                    </Button>
+                    <>
+                      <Button
+                        className="w-full"
+                        onClick={() => payPlanByCard(plan.id)}
+                        loading={checkingOut === plan.id}
+                        disabled={checkingOut !== null}
+                      >
+                        Upgrade to {plan.name}
+                        <ArrowRight className="h-4 w-4" />
+                      </Button>
+                      <button
+                        type="button"
+                        onClick={() => handleUpgrade(plan.id)}
+                        className="mt-1.5 w-full text-center text-[11px] font-medium text-[#1A1A2E]/50 hover:text-[#C75B39]"
+                      >
+                        Pay by bank transfer instead
+                      </button>
+                    </>
                   ) : (
                     <Button variant="outline" className="w-full" disabled>
                       {isDowngrade ? "Downgrade" : "Select"}
@@ -290,47 +385,7 @@ export default function BillingPage() {
 
         {/* ---- Pay-per-scan section ---- */}
         <motion.div initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.15 }}>
-          <GlassCard padding="lg">
-            <div className="mb-4 flex items-center gap-3">
-              <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-[#D4A853]/10">
-                <ScanLine className="h-5 w-5 text-[#D4A853]" />
-              </div>
-              <div>
-                <h3 className="font-semibold text-[#1A1A2E]">Pay-per-scan</h3>
-                <p className="text-xs text-[#1A1A2E]/50">
-                  No subscription needed. Buy scan credits and use them whenever.
-                </p>
-              </div>
-              <div className="ml-auto text-right">
-                <p className="text-lg font-bold text-[#1A1A2E]">
-                  {formatCurrency(SCAN_CREDIT_PRICE)}
-                </p>
-                <p className="text-xs text-[#1A1A2E]/40">per scan</p>
-              </div>
-            </div>
-
-            <div className="grid grid-cols-3 gap-3">
-              {CREDIT_PACKS.map((pack) => (
-                <button
-                  key={pack.id}
-                  onClick={() => handleUpgrade("plus")}
-                  className="rounded-xl border border-[#1A1A2E]/8 bg-white/40 p-3 text-center transition-all hover:border-[#C75B39]/30 hover:bg-white/60"
-                  title="Pay-per-scan packs are routed to the Plus plan upgrade for now."
-                >
-                  <p className="text-lg font-bold text-[#1A1A2E]">{pack.scans}</p>
-                  <p className="text-[10px] text-[#1A1A2E]/40">scans</p>
-                  <p className="mt-1 text-sm font-semibold text-[#C75B39]">
-                    {formatCurrency(pack.price)}
-                  </p>
-                  {pack.badge && (
-                    <span className="mt-1 inline-block rounded-full bg-[#C75B39]/10 px-1.5 py-0.5 text-[9px] font-bold text-[#C75B39]">
-                      {pack.badge}
-                    </span>
-                  )}
-                </button>
-              ))}
-            </div>
-          </GlassCard>
+          <ScanCreditsCard onStartPayment={startPayment} />
         </motion.div>
 
         {/* ---- Why upgrade section ---- */}
@@ -378,7 +433,9 @@ export default function BillingPage() {
               <div className="mt-4">
                 <Button
                   className="w-full"
-                  onClick={() => handleUpgrade("plus")}
+                  onClick={() => payPlanByCard("plus")}
+                  loading={checkingOut === "plus"}
+                  disabled={checkingOut !== null}
                 >
                   Upgrade to Plus
                   <ArrowRight className="h-4 w-4" />
@@ -423,6 +480,264 @@ export default function BillingPage() {
   );
 }
 
+/* -------------------------------------------------------------------------- */
+/*  RenewalCard — how the paid plan renews: card auto-renew or pay-yourself   */
+/* -------------------------------------------------------------------------- */
+
+interface RenewalInfo {
+  expiresAt: string | null;
+  inGrace: boolean;
+  graceEndsAt: string | null;
+  interval: BillingInterval;
+  autoRenew: boolean;
+  status: "active" | "past_due" | "cancelled";
+  canUpdateCard: boolean;
+  nextPaymentDate: string | null;
+  lastFailureAt: string | null;
+  lastFailureReason: string | null;
+  autoRenewAvailable: Record<"plus" | "pro", Record<BillingInterval, boolean>>;
+}
+
+function RenewalCard({
+  planId,
+  onRenewByCard,
+  onRenewByTransfer,
+  onChanged,
+}: {
+  planId: string;
+  onRenewByCard: (period: BillingInterval) => void;
+  onRenewByTransfer: (period: BillingInterval) => void;
+  onChanged: () => void;
+}) {
+  const [info, setInfo] = useState<RenewalInfo | null>(null);
+  const [busy, setBusy] = useState<"cancel" | "update_card" | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch("/api/billing/subscription");
+      const json = await res.json();
+      if (json.success) setInfo(json.data);
+    } catch { /* ignore */ }
+  }, []);
+  useEffect(() => { refresh(); }, [refresh]);
+
+  async function act(action: "cancel" | "update_card") {
+    if (action === "cancel" && !confirm("Turn off auto-renew? Your plan stays active until it expires.")) return;
+    setBusy(action);
+    try {
+      const res = await fetch("/api/billing/subscription", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const json = await res.json();
+      if (!json.success) throw new Error(json.error || "Failed");
+      if (action === "update_card") {
+        window.location.href = json.data.link;
+        return;
+      }
+      toast.success(json.data.message);
+      refresh();
+      onChanged();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  if (!info) return null;
+
+  const fmt = (iso: string | null) =>
+    iso ? new Date(iso).toLocaleDateString("en-NG", { day: "numeric", month: "long", year: "numeric" }) : "—";
+  const period = info.interval;
+  const paid = planId === "plus" || planId === "pro" ? planId : "plus";
+  const cardRenewal = info.autoRenewAvailable[paid][period];
+
+  return (
+    <GlassCard padding="md">
+      <div className="flex items-start gap-3">
+        <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-xl bg-[#1A1A2E]/5">
+          <RefreshCw className="h-5 w-5 text-[#1A1A2E]/60" />
+        </div>
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-semibold text-[#1A1A2E]">
+            {info.autoRenew
+              ? `Auto-renews ${period === "annual" ? "yearly" : "monthly"} by card`
+              : "Auto-renew is off"}
+          </p>
+          <p className="text-xs text-[#1A1A2E]/50">
+            {info.autoRenew
+              ? `Next charge ${fmt(info.nextPaymentDate ?? info.expiresAt)} · ${formatCurrency(getSubscriptionPrice(paid, period))}`
+              : `Your plan ends ${fmt(info.expiresAt)} unless you renew. Early renewals add on to the days you have left.`}
+          </p>
+
+          {info.status === "past_due" && (
+            <div className="mt-2 rounded-lg border border-red-200 bg-red-50/70 px-3 py-2 text-xs text-red-700">
+              Last renewal failed{info.lastFailureReason ? ` — ${info.lastFailureReason}` : ""} ({fmt(info.lastFailureAt)}).
+              {info.graceEndsAt && ` You keep your plan until ${fmt(info.graceEndsAt)}.`}
+            </div>
+          )}
+
+          <div className="mt-3 flex flex-wrap gap-2">
+            {info.autoRenew ? (
+              <>
+                {info.canUpdateCard && (
+                  <Button size="sm" variant="outline" className="gap-1.5" loading={busy === "update_card"} disabled={busy !== null} onClick={() => act("update_card")}>
+                    <CreditCard className="h-3.5 w-3.5" />
+                    Update card
+                  </Button>
+                )}
+                <Button size="sm" variant="ghost" loading={busy === "cancel"} disabled={busy !== null} onClick={() => act("cancel")}>
+                  Turn off auto-renew
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button size="sm" className="gap-1.5" onClick={() => onRenewByCard(period)}>
+                  <CreditCard className="h-3.5 w-3.5" />
+                  {cardRenewal ? "Renew with auto-renew" : "Renew by card"}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => onRenewByTransfer(period)}>
+                  Renew by bank transfer
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </GlassCard>
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/*  ScanCreditsCard — pay-per-scan credits, spent once the plan quota is gone */
+/* -------------------------------------------------------------------------- */
+
+function ScanCreditsCard({ onStartPayment }: { onStartPayment: (req: PaymentRequest) => void }) {
+  const [balance, setBalance] = useState<number>(0);
+  const [lifetime, setLifetime] = useState<number>(0);
+  const [loading, setLoading] = useState(true);
+  const [paying, setPaying] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch("/api/scan/credits");
+      const json = await res.json();
+      if (json.success) {
+        setBalance(json.data.balance);
+        setLifetime(json.data.lifetimePurchased);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+  useEffect(() => { refresh(); }, [refresh]);
+
+  function payByTransfer(packId: string) {
+    const pack = CREDIT_PACKS.find((p) => p.id === packId);
+    if (!pack) return;
+    onStartPayment({
+      purpose: "scan_credits",
+      amount: pack.price,
+      payload: { packId: pack.id },
+      title: `${pack.scans} scan credits — ${pack.label}`,
+      description: `≈ ${formatCurrency(Math.round(pack.price / pack.scans))} per scan · added to your account on verification.`,
+    });
+  }
+
+  async function payByCard(packId: string) {
+    setPaying(packId);
+    try {
+      const res = await fetch("/api/scan/credits", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ packId }),
+      });
+      const json = await res.json();
+      if (json.success) {
+        window.location.href = json.data.authorizationUrl;
+        return;
+      }
+      if (json.needsConfig) {
+        toast.info("Card payments aren't available right now — pay by bank transfer instead.");
+        payByTransfer(packId);
+      } else {
+        toast.error(json.error || "Couldn't start card payment");
+      }
+    } catch {
+      toast.error("Couldn't start card payment");
+    } finally {
+      setPaying(null);
+    }
+  }
+
+  return (
+    <GlassCard padding="lg">
+      <div className="mb-4 flex items-center gap-3">
+        <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-[#D4A853]/10">
+          <ScanLine className="h-5 w-5 text-[#D4A853]" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-[#1A1A2E]">Pay-per-scan</h3>
+          <p className="text-xs text-[#1A1A2E]/50">
+            No subscription needed. About {formatCurrency(SCAN_CREDIT_PRICE)} a scan, less in bigger packs —
+            used only after your plan&apos;s scans run out.
+          </p>
+        </div>
+        <div className="ml-auto rounded-xl border border-[#1A1A2E]/8 bg-white/40 px-3 py-2 text-right">
+          <p className="text-[10px] font-semibold uppercase tracking-wide text-[#1A1A2E]/45">Credits</p>
+          <p className="text-lg font-bold text-[#1A1A2E]">
+            {loading ? <Loader2 className="inline h-4 w-4 animate-spin" /> : balance.toLocaleString("en-NG")}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {CREDIT_PACKS.map((pack) => (
+          <div
+            key={pack.id}
+            className="flex flex-col rounded-xl border border-[#1A1A2E]/8 bg-white/40 p-3 text-center"
+          >
+            <p className="text-lg font-bold text-[#1A1A2E]">{pack.scans}</p>
+            <p className="text-[10px] text-[#1A1A2E]/40">scans</p>
+            <p className="mt-1 text-sm font-semibold text-[#C75B39]">
+              {formatCurrency(pack.price)}
+            </p>
+            {pack.badge && (
+              <span className="mx-auto mt-1 inline-block rounded-full bg-[#C75B39]/10 px-1.5 py-0.5 text-[9px] font-bold text-[#C75B39]">
+                {pack.badge}
+              </span>
+            )}
+            <Button
+              onClick={() => payByCard(pack.id)}
+              loading={paying === pack.id}
+              disabled={paying !== null}
+              className="mt-3"
+              size="sm"
+            >
+              Pay with card
+            </Button>
+            <button
+              type="button"
+              onClick={() => payByTransfer(pack.id)}
+              className="mt-1.5 text-[11px] font-medium text-[#1A1A2E]/50 hover:text-[#C75B39]"
+            >
+              Bank transfer
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {lifetime > 0 && (
+        <p className="mt-3 text-[11px] text-[#1A1A2E]/40">
+          Lifetime purchased: {lifetime.toLocaleString("en-NG")} scans
+        </p>
+      )}
+    </GlassCard>
+  );
+}
+
 /* -------------------------------------------------------------------------- */
 /*  SmsPackCard — buy SMS credits (Termii passthrough)                        */
 /* -------------------------------------------------------------------------- */
@@ -5,7 +5,9 @@
 /*                                                                              */
 /*  Two stacked sections:                                                       */
 /*    1. Pending / scheduled broadcasts (from /api/broadcast/schedule)         */
-/*    2. Past broadcasts (from /api/broadcast/history)                         */
+/*    2. Past broadcasts (from /api/broadcast/history). WhatsApp Cloud API    */
+/*       broadcasts expand to each recipient's sent / delivered / read /      */
+/*       failed status (from /api/broadcast/schedule/[id]).                   */
 /* -------------------------------------------------------------------------- */
 
 import { useCallback, useEffect, useState } from "react";
@@ -55,9 +57,28 @@ interface HistoryRow {
   recipientCount: number;
   sentCount: number;
   failedCount: number;
+  delivery: "manual" | "cloud";
+  deliveredCount: number;
+  readCount: number;
   status: string;
 }
 
+interface RecipientStatusRow {
+  _id: string;
+  name: string;
+  phone: string;
+  status: "queued" | "sent" | "delivered" | "read" | "failed";
+  error: string | null;
+}
+
+const RECIPIENT_STATUS_STYLES: Record<RecipientStatusRow["status"], { label: string; className: string }> = {
+  queued: { label: "Queued", className: "bg-[#1A1A2E]/[0.06] text-[#1A1A2E]/55" },
+  sent: { label: "Sent", className: "bg-blue-100 text-blue-700" },
+  delivered: { label: "Delivered", className: "bg-emerald-100 text-emerald-700" },
+  read: { label: "Read", className: "bg-[#25D366]/15 text-[#128C7E]" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-700" },
+};
+
 const SEGMENT_LABELS: Record<string, string> = {
   all: "All clients",
   debtors: "Owe money",
@@ -212,7 +233,12 @@ export default function BroadcastHistoryPage() {
         ) : (
           <div className="space-y-2">
             {history.map((h) => (
-              <HistoryCard key={h.id} row={h} />
+              <HistoryCard
+                key={h.id}
+                row={h}
+                onStop={() => cancelScheduled(h.id)}
+                stopping={cancellingId === h.id}
+              />
             ))}
           </div>
         )}
@@ -359,11 +385,21 @@ function ScheduledCard({
   );
 }
 
-function HistoryCard({ row }: { row: HistoryRow }) {
+function HistoryCard({
+  row,
+  onStop,
+  stopping,
+}: {
+  row: HistoryRow;
+  onStop: () => void;
+  stopping: boolean;
+}) {
+  const [expanded, setExpanded] = useState(false);
   const fillPct =
     row.recipientCount > 0
       ? Math.round((row.sentCount / row.recipientCount) * 100)
       : 0;
+  const isCloud = row.delivery === "cloud";
   return (
     <motion.div
       initial={{ opacity: 0, y: 8 }}
@@ -387,7 +423,13 @@ function HistoryCard({ row }: { row: HistoryRow }) {
         <div className="mt-3 flex items-center gap-3">
           <div className="flex-1">
             <div className="flex items-center justify-between text-[10px] font-medium text-[#1A1A2E]/55">
-              <span>{row.sentCount} / {row.recipientCount} delivered</span>
+              {isCloud ? (
+                <span>
+                  {row.sentCount} / {row.recipientCount} sent · {row.deliveredCount} delivered · {row.readCount} read
+                </span>
+              ) : (
+                <span>{row.sentCount} / {row.recipientCount} delivered</span>
+              )}
               <span>{fillPct}%</span>
             </div>
             <div className="mt-1 h-1 overflow-hidden rounded-full bg-[#1A1A2E]/[0.06]">
@@ -401,7 +443,71 @@ function HistoryCard({ row }: { row: HistoryRow }) {
             {formatDateTime(row.completedAt || row.startedAt || row.createdAt)}
           </p>
         </div>
+        {isCloud && (
+          <div className="mt-3 flex items-center gap-2">
+            <button
+              onClick={() => setExpanded((v) => !v)}
+              className="text-[11px] font-semibold text-[#128C7E] hover:underline"
+            >
+              {expanded ? "Hide recipients" : "Show recipients"}
+            </button>
+            {row.status === "running" && (
+              <Button variant="outline" size="sm" onClick={onStop} disabled={stopping}>
+                {stopping ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : "Stop"}
+              </Button>
+            )}
+          </div>
+        )}
+        {expanded && <RecipientStatusList jobId={row.id} />}
       </GlassCard>
     </motion.div>
   );
 }
+
+function RecipientStatusList({ jobId }: { jobId: string }) {
+  const [rows, setRows] = useState<RecipientStatusRow[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function fetchRecipients() {
+      try {
+        const res = await fetch(`/api/broadcast/schedule/${jobId}`);
+        const json = await res.json();
+        if (!cancelled) setRows(json.success ? json.data.recipients : []);
+      } catch {
+        if (!cancelled) setRows([]);
+      }
+    }
+    fetchRecipients();
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId]);
+
+  if (!rows) {
+    return (
+      <div className="mt-3 flex items-center gap-2 text-xs text-[#1A1A2E]/50">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" /> Loading recipients…
+      </div>
+    );
+  }
+
+  return (
+    <ul className="mt-3 divide-y divide-[#1A1A2E]/5 rounded-xl bg-white/40">
+      {rows.map((r) => {
+        const style = RECIPIENT_STATUS_STYLES[r.status] || RECIPIENT_STATUS_STYLES.queued;
+        return (
+          <li key={r._id} className="flex items-center justify-between gap-3 px-3 py-2">
+            <div className="min-w-0">
+              <p className="truncate text-xs font-medium text-[#1A1A2E]">{r.name}</p>
+              {r.error && <p className="truncate text-[10px] text-red-600/80">{r.error}</p>}
+            </div>
+            <span className={`shrink-0 rounded-full px-2 py-0.5 text-[10px] font-semibold ${style.className}`}>
+              {style.label}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -9,7 +9,9 @@
 /*    3. Pick channel (WhatsApp manual queue OR Termii SMS batch)              */
 /*                                                                              */
 /*  The WhatsApp path opens wa.me links one at a time — designer taps Send    */
-/*  in WhatsApp, comes back, taps Next. Free, no API.                          */
+/*  in WhatsApp, comes back, taps Next. Free, no API. When the WhatsApp Cloud */
+/*  API is set up it can instead go out automatically from the business      */
+/*  number as an approved template (/api/broadcast/whatsapp-cloud).           */
 /*  The SMS path sends through the existing Termii integration via            */
 /*  /api/broadcast/sms — costs 1 credit per recipient.                         */
 /* -------------------------------------------------------------------------- */
@@ -53,6 +55,15 @@ type Segment = "all" | "debtors" | "dormant" | "no-measure" | "vip" | "loyal" |
 type Channel = "whatsapp" | "sms";
 type Timing = "now" | "later";
 type Step = "segment" | "compose" | "channel" | "send-wa" | "send-sms" | "scheduled" | "done";
+type WADelivery = "manual" | "cloud";
+
+interface CloudTemplate {
+  name: string;
+  label: string;
+  description: string;
+  usesMessage: boolean;
+  preview: string;
+}
 
 const SEGMENTS: { id: Segment; label: string; description: string; icon: React.ComponentType<{ className?: string }> }[] = [
   { id: "all",        label: "All clients",       description: "Everyone in your address book",         icon: Users },
@@ -139,6 +150,13 @@ export default function BroadcastPage() {
   const [waSentIds, setWaSentIds] = useState<Set<string>>(new Set());
   const [waJobId, setWaJobId] = useState<string | null>(null);
 
+  /* WA Cloud API state */
+  const [cloud, setCloud] = useState<{ enabled: boolean; dailyLimit: number | null; templates: CloudTemplate[] } | null>(null);
+  const [waDelivery, setWaDelivery] = useState<WADelivery>("manual");
+  const [waTemplate, setWaTemplate] = useState("");
+  const [cloudSending, setCloudSending] = useState(false);
+  const [cloudQueued, setCloudQueued] = useState<number | null>(null);
+
   /* SMS send state */
   const [smsSending, setSmsSending] = useState(false);
   const [smsResult, setSmsResult] = useState<{
@@ -188,6 +206,29 @@ export default function BroadcastPage() {
     return () => { cancelled = true; };
   }, [resumeJobId]);
 
+  /* ---- Is server-side WhatsApp sending available? ---- */
+  useEffect(() => {
+    let cancelled = false;
+    async function fetchCloud() {
+      try {
+        const res = await fetch("/api/broadcast/whatsapp-cloud");
+        const json = await res.json();
+        if (cancelled || !json.success) return;
+        setCloud(json.data);
+        if (json.data.enabled && json.data.templates.length > 0) {
+          setWaDelivery("cloud");
+          setWaTemplate(json.data.templates[0].name);
+        }
+      } catch {
+        /* stays on the manual queue */
+      }
+    }
+    fetchCloud();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   /* ---- Load recipients on segment change ---- */
   const loadRecipients = useCallback(async (seg: Segment) => {
     setLoading(true);
@@ -287,6 +328,34 @@ export default function BroadcastPage() {
     setStep("send-wa");
   }
 
+  async function startCloudSend() {
+    setCloudSending(true);
+    try {
+      const res = await fetch("/api/broadcast/whatsapp-cloud", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          recipientIds: recipients.map((r) => r._id),
+          template: waTemplate,
+          message,
+          segment,
+          language: lang,
+        }),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "WhatsApp broadcast failed");
+        return;
+      }
+      setCloudQueued(json.data.recipientCount);
+      setStep("done");
+    } catch {
+      toast.error("WhatsApp broadcast failed");
+    } finally {
+      setCloudSending(false);
+    }
+  }
+
   async function startSMSSend() {
     setSmsSending(true);
     try {
@@ -332,7 +401,8 @@ export default function BroadcastPage() {
     }
     setScheduling(true);
     try {
-      const res = await fetch("/api/broadcast/schedule", {
+      const viaCloud = channel === "whatsapp" && waDelivery === "cloud";
+      const res = await fetch(viaCloud ? "/api/broadcast/whatsapp-cloud" : "/api/broadcast/schedule", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -341,6 +411,7 @@ export default function BroadcastPage() {
           segment,
           language: lang,
           channel,
+          ...(viaCloud ? { template: waTemplate } : {}),
           scheduledFor: when.toISOString(),
         }),
       });
@@ -603,13 +674,24 @@ export default function BroadcastPage() {
               }`}
             >
               <MessageCircle className="h-7 w-7 text-[#25D366]" />
-              <p className="text-base font-semibold text-[#1A1A2E]">WhatsApp queue</p>
-              <p className="text-xs text-[#1A1A2E]/60">
-                Stitcha opens each message in your own WhatsApp. You tap Send → Next →
-                Send → Next.
+              <p className="text-base font-semibold text-[#1A1A2E]">
+                {cloud?.enabled ? "WhatsApp" : "WhatsApp queue"}
               </p>
+              {waDelivery === "cloud" ? (
+                <p className="text-xs text-[#1A1A2E]/60">
+                  Sent for you from Stitcha&apos;s WhatsApp Business number, with delivery and
+                  read receipts for every client.
+                </p>
+              ) : (
+                <p className="text-xs text-[#1A1A2E]/60">
+                  Stitcha opens each message in your own WhatsApp. You tap Send → Next →
+                  Send → Next.
+                </p>
+              )}
               <p className="mt-2 rounded-full bg-emerald-100 px-2 py-0.5 text-[10px] font-bold text-emerald-700">
-                FREE · {recipients.length} recipients · ~{Math.ceil(recipients.length * 5 / 60)} min
+                {waDelivery === "cloud"
+                  ? `FREE · ${recipients.length} recipients · automatic`
+                  : `FREE · ${recipients.length} recipients · ~${Math.ceil(recipients.length * 5 / 60)} min`}
               </p>
             </button>
 
@@ -655,6 +737,69 @@ export default function BroadcastPage() {
             </div>
           )}
 
+          {/* WhatsApp: business number vs own phone */}
+          {channel === "whatsapp" && cloud?.enabled && (
+            <div className="space-y-3 rounded-2xl border border-[#1A1A2E]/8 bg-white/30 p-4">
+              <div className="grid grid-cols-2 gap-1 rounded-xl bg-white/40 p-1">
+                {([
+                  ["cloud", "Send automatically"],
+                  ["manual", "Open in my WhatsApp"],
+                ] as const).map(([id, label]) => (
+                  <button
+                    key={id}
+                    onClick={() => setWaDelivery(id)}
+                    className={`rounded-lg py-2 text-xs font-semibold transition-colors ${
+                      waDelivery === id
+                        ? "bg-white text-[#1A1A2E] shadow-sm"
+                        : "text-[#1A1A2E]/55 hover:text-[#1A1A2E]"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              {waDelivery === "cloud" && (
+                <>
+                  <div className="flex flex-wrap gap-1.5">
+                    {cloud.templates.map((t) => (
+                      <button
+                        key={t.name}
+                        onClick={() => setWaTemplate(t.name)}
+                        title={t.description}
+                        className={`rounded-full border px-3 py-1 text-[11px] font-semibold transition-colors ${
+                          waTemplate === t.name
+                            ? "border-[#25D366] bg-[#25D366]/10 text-[#128C7E]"
+                            : "border-[#1A1A2E]/10 text-[#1A1A2E]/60 hover:border-[#25D366]/40"
+                        }`}
+                      >
+                        {t.label}
+                      </button>
+                    ))}
+                  </div>
+                  {(() => {
+                    const t = cloud.templates.find((x) => x.name === waTemplate);
+                    if (!t) return null;
+                    return (
+                      <div className="rounded-xl bg-[#25D366]/[0.06] p-3">
+                        <p className="whitespace-pre-line text-xs text-[#1A1A2E]/75">
+                          {t.usesMessage ? t.preview.replace("{{message}}", message) : t.preview}
+                        </p>
+                        <p className="mt-2 text-[10px] text-[#1A1A2E]/45">{t.description}.</p>
+                      </div>
+                    );
+                  })()}
+                  <p className="text-[11px] text-[#1A1A2E]/50">
+                    WhatsApp only allows approved templates for messages we start. {"{{balance}}"} and
+                    {" "}{"{{order_title}}"} in your message are filled in per client.
+                    {cloud.dailyLimit != null &&
+                      ` Up to ${cloud.dailyLimit.toLocaleString("en-NG")} people a day across Stitcha — anything over that goes out the next day.`}
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+
           {/* When-to-send toggle */}
           <div className="rounded-2xl border border-[#1A1A2E]/8 bg-white/30 p-1">
             <div className="grid grid-cols-2 gap-1">
@@ -700,7 +845,11 @@ export default function BroadcastPage() {
                 })()}
                 className="glass-input flex h-11 w-full rounded-lg px-3 text-sm focus-visible:outline-none"
               />
-              {channel === "whatsapp" ? (
+              {channel === "whatsapp" && waDelivery === "cloud" ? (
+                <p className="mt-2 text-[11px] text-[#1A1A2E]/50">
+                  We&apos;ll send the WhatsApp messages automatically at that time.
+                </p>
+              ) : channel === "whatsapp" ? (
                 <p className="mt-2 text-[11px] text-[#1A1A2E]/50">
                   At that time you&apos;ll get a notification. Open it and walk through the WhatsApp queue.
                 </p>
@@ -724,6 +873,11 @@ export default function BroadcastPage() {
                 {scheduling ? <Loader2 className="h-4 w-4 animate-spin" /> : <Calendar className="h-4 w-4" />}
                 Schedule
               </Button>
+            ) : channel === "whatsapp" && waDelivery === "cloud" ? (
+              <Button onClick={startCloudSend} disabled={cloudSending || !waTemplate}>
+                {cloudSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <MessageCircle className="h-4 w-4" />}
+                Send WhatsApp to {recipients.length}
+              </Button>
             ) : channel === "whatsapp" ? (
               <Button onClick={startWASend}>
                 Open WhatsApp queue <ChevronRight className="h-4 w-4" />
@@ -754,7 +908,7 @@ export default function BroadcastPage() {
               {scheduledFor && (
                 <p className="mt-1 text-sm text-[#1A1A2E]/60">
                   {recipients.length} recipient{recipients.length === 1 ? "" : "s"} ·
-                  {" "}{channel === "whatsapp" ? "WhatsApp queue" : "SMS"} ·
+                  {" "}{channel === "whatsapp" ? (waDelivery === "cloud" ? "WhatsApp" : "WhatsApp queue") : "SMS"} ·
                   {" "}{new Date(scheduledFor).toLocaleString("en-NG", {
                     weekday: "short", day: "numeric", month: "short",
                     hour: "numeric", minute: "2-digit",
@@ -762,7 +916,9 @@ export default function BroadcastPage() {
                 </p>
               )}
               <p className="mt-3 text-xs text-[#1A1A2E]/45">
-                {channel === "whatsapp"
+                {channel === "whatsapp" && waDelivery === "cloud"
+                  ? "We'll send the WhatsApp messages automatically at the scheduled time."
+                  : channel === "whatsapp"
                   ? "We'll notify you when it's time to walk through the queue."
                   : "We'll send the SMS automatically at the scheduled time."}
               </p>
@@ -808,12 +964,14 @@ export default function BroadcastPage() {
           channel={channel}
           waSentCount={waSentIds.size}
           waTotal={recipients.length}
+          waCloudQueued={cloudQueued}
           smsResult={smsResult}
           onStartOver={() => {
             setStep("segment");
             setMessage("");
             setWaIdx(0);
             setWaSentIds(new Set());
+            setCloudQueued(null);
             setSmsResult(null);
           }}
         />
@@ -936,12 +1094,15 @@ function DoneCard({
   channel,
   waSentCount,
   waTotal,
+  waCloudQueued,
   smsResult,
   onStartOver,
 }: {
   channel: Channel;
   waSentCount: number;
   waTotal: number;
+  /** Set when the broadcast went to the Cloud API instead of the queue */
+  waCloudQueued: number | null;
   smsResult: { sent: number; failed: number; remaining: number } | null;
   onStartOver: () => void;
 }) {
@@ -954,10 +1115,25 @@ function DoneCard({
         <div className="flex flex-col items-center text-center">
           <CheckCircle2 className="h-10 w-10 text-emerald-500" />
           <h2 className="mt-3 text-lg font-bold text-[#1A1A2E]">
-            {channel === "whatsapp" ? "WhatsApp broadcast finished" : "SMS broadcast complete"}
+            {channel === "whatsapp" && waCloudQueued != null
+              ? "WhatsApp broadcast queued"
+              : channel === "whatsapp"
+              ? "WhatsApp broadcast finished"
+              : "SMS broadcast complete"}
           </h2>
 
-          {channel === "whatsapp" && (
+          {channel === "whatsapp" && waCloudQueued != null && (
+            <>
+              <p className="mt-1 text-sm text-[#1A1A2E]/55">
+                <span className="font-semibold text-[#1A1A2E]">{waCloudQueued}</span> message
+                {waCloudQueued === 1 ? " is" : "s are"} on their way from Stitcha&apos;s WhatsApp number.
+              </p>
+              <Link href="/broadcast/history" className="mt-1 text-xs font-semibold text-[#128C7E] underline">
+                Track delivery and reads
+              </Link>
+            </>
+          )}
+          {channel === "whatsapp" && waCloudQueued == null && (
             <p className="mt-1 text-sm text-[#1A1A2E]/55">
               You sent <span className="font-semibold text-[#1A1A2E]">{waSentCount}</span>
               {" "}out of <span className="font-semibold">{waTotal}</span> messages.
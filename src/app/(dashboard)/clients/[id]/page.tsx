@@ -7,6 +7,7 @@ import {
   ArrowLeft,
   Edit,
   ExternalLink,
+  FileDown,
   Link2,
   Mail,
   Phone,
@@ -19,9 +20,6 @@ import {
   Trash2,
   TrendingUp,
   TrendingDown,
-  History,
-  ArrowUpRight,
-  ArrowDownRight,
   Minus,
   AlertTriangle,
   CheckCircle2,
@@ -47,6 +45,7 @@ import {
 import { MeasurementForm } from "@/components/clients/measurement-form";
 import { GuidedTapeMeasure } from "@/components/clients/guided-tape-measure";
 import { MeasurementDisplay } from "@/components/clients/measurement-display";
+import { MeasurementHistoryPanel } from "@/components/clients/measurement-history";
 import { ReScanFromPhotos } from "@/components/scan/rescan-from-photos";
 import { ClientInsights } from "@/components/clients/client-insights";
 import { EaseCalculator } from "@/components/common/ease-calculator";
@@ -104,6 +103,8 @@ export default function ClientDetailPage() {
   const [savingMeasurements, setSavingMeasurements] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [sharing, setSharing] = useState(false);
+  const [savingEmailUpdates, setSavingEmailUpdates] = useState(false);
+  const [downloadingCard, setDownloadingCard] = useState(false);
   const [reviewMode, setReviewMode] = useState(false);
   const [reviewAdjustments, setReviewAdjustments] = useState<Record<string, number>>({});
   const [approvingMeasurements, setApprovingMeasurements] = useState(false);
@@ -235,6 +236,34 @@ export default function ClientDetailPage() {
     }
   };
 
+  /* ---- Order emails on/off ---- */
+  const handleToggleEmailUpdates = async () => {
+    if (!client) return;
+    const emailUpdates = client.emailUpdates === false;
+    try {
+      setSavingEmailUpdates(true);
+      const res = await fetch(`/api/clients/${clientId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ emailUpdates }),
+      });
+      const json = await res.json();
+
+      if (!json.success) {
+        throw new Error(json.error || "Failed to update email settings");
+      }
+
+      setClient(json.data);
+      toast.success(emailUpdates ? "Order emails turned on" : "Order emails turned off");
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : "Failed to update email settings"
+      );
+    } finally {
+      setSavingEmailUpdates(false);
+    }
+  };
+
   /* ---- Generate scan link ---- */
   const handleGenerateScanLink = async () => {
     try {
@@ -302,6 +331,31 @@ export default function ClientDetailPage() {
     }
   };
 
+  /* ---- Measurement card PDF ---- */
+  const handleDownloadMeasurementCard = async () => {
+    try {
+      setDownloadingCard(true);
+      const res = await fetch("/api/documents", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type: "measurement_card", clientId }),
+      });
+      const json = await res.json();
+
+      if (!json.success) {
+        throw new Error(json.error || "Failed to generate measurement card");
+      }
+
+      window.open(json.data.url, "_blank");
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : "Failed to generate measurement card"
+      );
+    } finally {
+      setDownloadingCard(false);
+    }
+  };
+
   /* ---- Share client portal link ---- */
   const handleSharePortal = async () => {
     try {
@@ -439,6 +493,28 @@ export default function ClientDetailPage() {
                   <div className="flex items-center justify-center gap-2 text-sm text-[#1A1A2E]/60 sm:justify-start">
                     <Mail className="h-4 w-4" />
                     <span>{client.email}</span>
+                    <button
+                      type="button"
+                      onClick={handleToggleEmailUpdates}
+                      disabled={savingEmailUpdates}
+                      title={
+                        client.emailUnsubscribedAt
+                          ? `Unsubscribed themselves on ${formatDate(client.emailUnsubscribedAt)}`
+                          : "Order progress and payment emails"
+                      }
+                      className={cn(
+                        "rounded-full px-2 py-0.5 text-[10px] font-semibold transition-colors disabled:opacity-60",
+                        client.emailUpdates === false
+                          ? "bg-[#1A1A2E]/[0.06] text-[#1A1A2E]/45 hover:bg-[#1A1A2E]/10"
+                          : "bg-emerald-50 text-emerald-700 hover:bg-emerald-100"
+                      )}
+                    >
+                      {client.emailUpdates === false
+                        ? client.emailUnsubscribedAt
+                          ? "Unsubscribed"
+                          : "Emails off"
+                        : "Emails on"}
+                    </button>
                   </div>
                 )}
               </div>
@@ -535,6 +611,17 @@ export default function ClientDetailPage() {
                     <span className="hidden sm:inline">Share Card</span>
                   </Button>
                 )}
+                {measurements && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleDownloadMeasurementCard}
+                    loading={downloadingCard}
+                  >
+                    <FileDown className="h-3.5 w-3.5" />
+                    <span className="hidden sm:inline">PDF</span>
+                  </Button>
+                )}
                 <Button
                   variant="ghost"
                   size="sm"
@@ -784,81 +871,19 @@ export default function ClientDetailPage() {
           </GlassCard>
         </motion.div>
 
-        {/* Measurement Comparison */}
-        {measurements && measurementHistory.length > 1 && (
+        {/* Measurement History — diffs, trends and changes since the last order */}
+        {measurements && measurementHistory.length > 0 && (
           <motion.div
             initial={{ opacity: 0, y: 16 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.12 }}
           >
-            <GlassCard padding="lg">
-              <div className="mb-4 flex items-center gap-2">
-                <History className="h-5 w-5 text-[#C75B39]" />
-                <h2 className="text-lg font-semibold text-[#1A1A2E]">
-                  Measurement History
-                </h2>
-                <span className="rounded-full bg-[#C75B39]/10 px-2 py-0.5 text-xs font-medium text-[#C75B39]">
-                  {measurementHistory.length} records
-                </span>
-              </div>
-
-              {/* Compare latest vs previous */}
-              {(() => {
-                const latest = measurementHistory[measurementHistory.length - 1];
-                const previous = measurementHistory[measurementHistory.length - 2];
-                if (!latest || !previous) return null;
-
-                return (
-                  <div>
-                    <p className="mb-3 text-xs font-medium text-[#1A1A2E]/40">
-                      Comparing latest ({latest.measuredAt ? new Date(latest.measuredAt).toLocaleDateString("en-NG", { month: "short", day: "numeric" }) : "current"})
-                      {" vs "}
-                      previous ({previous.measuredAt ? new Date(previous.measuredAt).toLocaleDateString("en-NG", { month: "short", day: "numeric" }) : "older"})
-                    </p>
-                    <div className="grid grid-cols-2 gap-2 sm:grid-cols-3 lg:grid-cols-4">
-                      {MEASUREMENT_TYPES.map((type) => {
-                        const curr = latest[type.key] as number | undefined;
-                        const prev = previous[type.key] as number | undefined;
-                        if (!curr || !prev) return null;
-
-                        const diff = Math.round((curr - prev) * 10) / 10;
-                        if (diff === 0) return null;
-
-                        return (
-                          <div
-                            key={type.key}
-                            className="flex items-center justify-between rounded-lg border border-white/20 bg-white/30 px-2.5 py-2"
-                          >
-                            <div>
-                              <p className="text-[10px] text-[#1A1A2E]/40">{type.label}</p>
-                              <p className="text-sm font-semibold text-[#1A1A2E]">
-                                {curr} <span className="text-[10px] font-normal text-[#1A1A2E]/35">cm</span>
-                              </p>
-                            </div>
-                            <div
-                              className={cn(
-                                "flex items-center gap-0.5 rounded-full px-1.5 py-0.5 text-[10px] font-semibold",
-                                diff > 0
-                                  ? "bg-emerald-50 text-emerald-600"
-                                  : "bg-red-50 text-red-500"
-                              )}
-                            >
-                              {diff > 0 ? (
-                                <ArrowUpRight className="h-3 w-3" />
-                              ) : (
-                                <ArrowDownRight className="h-3 w-3" />
-                              )}
-                              {diff > 0 ? "+" : ""}
-                              {diff}
-                            </div>
-                          </div>
-                        );
-                      })}
-                    </div>
-                  </div>
-                );
-              })()}
-            </GlassCard>
+            <MeasurementHistoryPanel
+              clientId={clientId}
+              current={measurements}
+              history={measurementHistory}
+              onRemeasure={() => setMeasurementDialogOpen(true)}
+            />
           </motion.div>
         )}
 
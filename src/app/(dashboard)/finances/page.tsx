@@ -19,6 +19,7 @@ import {
   ChevronRight,
   Plus,
   Check,
+  Shirt,
 } from "lucide-react";
 import Link from "next/link";
 import { toast } from "sonner";
@@ -54,8 +55,11 @@ interface FinanceSummary {
     totalOutstanding: number;
     orderCount: number;
     collectionRate: number;
+    /** Stock consumed by orders, at cost (inventory) */
+    materialCost: number;
+    grossProfit: number;
   };
-  thisMonth: { revenue: number; collected: number; orders: number };
+  thisMonth: { revenue: number; collected: number; orders: number; materialCost: number; profit: number };
   monthlyGrowth: number;
   overdue: {
     _id: string;
@@ -68,7 +72,14 @@ interface FinanceSummary {
     client?: { name: string; phone: string };
   }[];
   paymentMethods: { _id: string; total: number; count: number }[];
-  monthlyTrend: { month: string; revenue: number; collected: number; orders: number }[];
+  monthlyTrend: {
+    month: string;
+    revenue: number;
+    collected: number;
+    orders: number;
+    materialCost: number;
+    profit: number;
+  }[];
   topDebtors: {
     _id: string;
     clientName: string;
@@ -76,6 +87,7 @@ interface FinanceSummary {
     totalOwed: number;
     orderCount: number;
   }[];
+  garmentBreakdown?: { garmentType: string; revenue: number; pieces: number; orders: number }[];
 }
 
 /* -------------------------------------------------------------------------- */
@@ -333,6 +345,15 @@ export default function FinancesPage() {
                   {data.thisMonth.orders} order{data.thisMonth.orders !== 1 ? "s" : ""} &middot;{" "}
                   {formatCurrency(data.thisMonth.collected)} collected
                 </p>
+                {data.totals.materialCost > 0 && (
+                  <p className="mt-0.5 text-xs text-[#1A1A2E]/50">
+                    {formatCurrency(data.thisMonth.materialCost)} materials &middot;{" "}
+                    <span className="font-semibold text-emerald-600">
+                      {formatCurrency(data.thisMonth.profit)} profit
+                    </span>
+                    {" "}&middot; {formatCurrency(data.totals.grossProfit)} all time
+                  </p>
+                )}
               </div>
               <div
                 className={cn(
@@ -545,6 +566,35 @@ export default function FinancesPage() {
           </motion.div>
         )}
 
+        {/* Revenue by Garment (per line item) */}
+        {data.garmentBreakdown && data.garmentBreakdown.length > 0 && (
+          <motion.div variants={itemVariants}>
+            <div className="mb-3 flex items-center gap-2">
+              <Shirt className="h-4.5 w-4.5 text-[#C75B39]" />
+              <h2 className="text-lg font-semibold text-[#1A1A2E]">
+                Revenue by Garment
+              </h2>
+            </div>
+            <GlassCard padding="lg">
+              <div className="space-y-2.5">
+                {data.garmentBreakdown.map((g) => (
+                  <div key={g.garmentType} className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-medium text-[#1A1A2E]">{g.garmentType}</p>
+                      <p className="text-[10px] text-[#1A1A2E]/40">
+                        {g.pieces} piece{g.pieces !== 1 ? "s" : ""} · {g.orders} line{g.orders !== 1 ? "s" : ""}
+                      </p>
+                    </div>
+                    <span className="text-sm font-semibold text-[#1A1A2E]">
+                      {formatCurrency(g.revenue)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </GlassCard>
+          </motion.div>
+        )}
+
         {/* Monthly Trend */}
         {data.monthlyTrend.length > 0 && (
           <motion.div variants={itemVariants}>
@@ -588,6 +638,11 @@ export default function FinancesPage() {
                             {formatCurrency(month.revenue)}
                           </span>
                         </div>
+                        {month.materialCost > 0 && (
+                          <p className="mt-0.5 text-right text-[10px] text-[#1A1A2E]/40">
+                            {formatCurrency(month.materialCost)} materials &middot; {formatCurrency(month.profit)} profit
+                          </p>
+                        )}
                       </div>
                       <Badge variant={pct >= 80 ? "success" : pct >= 50 ? "warning" : "outline"}>
                         {pct}% collected
@@ -0,0 +1,572 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { AlertTriangle, Archive, ClipboardCheck, History, PackagePlus, Plus, Warehouse } from "lucide-react";
+import { toast } from "sonner";
+import { PageTransition } from "@/components/common/page-transition";
+import { EmptyState } from "@/components/common/empty-state";
+import { GlassCard } from "@/components/common/glass-card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogClose,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { cn, formatCurrency } from "@/lib/utils";
+
+/* -------------------------------------------------------------------------- */
+/*  Inventory                                                                  */
+/*  Materials in stock (/api/inventory): stock-in receipts, stock-takes and  */
+/*  each material's movement history. Reserving and cutting for an order     */
+/*  happens on the order page.                                                */
+/* -------------------------------------------------------------------------- */
+
+const CATEGORIES = [
+  { value: "fabric", label: "Fabric" },
+  { value: "lace", label: "Lace" },
+  { value: "lining", label: "Lining" },
+  { value: "thread", label: "Thread" },
+  { value: "zip", label: "Zips" },
+  { value: "button", label: "Buttons" },
+  { value: "interfacing", label: "Interfacing" },
+  { value: "other", label: "Other" },
+];
+
+const MOVEMENT_LABELS: Record<string, string> = {
+  receipt: "Stock in",
+  reserve: "Reserved",
+  release: "Released",
+  consume: "Cut",
+  adjust: "Stock-take",
+};
+
+interface MaterialRow {
+  _id: string;
+  name: string;
+  category: string;
+  unit: "yards" | "pieces";
+  costPerUnit: number;
+  supplier?: string;
+  colour?: string;
+  onHand: number;
+  reserved: number;
+  available: number;
+  reorderLevel: number;
+  lowStock: boolean;
+}
+
+interface Movement {
+  _id: string;
+  kind: string;
+  quantity: number;
+  unitCost: number;
+  supplier?: string;
+  reference?: string;
+  note?: string;
+  orderId?: string;
+  orderTitle?: string;
+  createdAt: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Add material                                                               */
+/* -------------------------------------------------------------------------- */
+
+function AddMaterialDialog({
+  open,
+  onOpenChange,
+  onSaved,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}) {
+  const [form, setForm] = useState({
+    name: "",
+    category: "fabric",
+    unit: "yards",
+    costPerUnit: "",
+    supplier: "",
+    colour: "",
+    reorderLevel: "",
+    openingStock: "",
+  });
+  const [saving, setSaving] = useState(false);
+
+  const set = (key: keyof typeof form) => (e: { target: { value: string } }) =>
+    setForm((f) => ({ ...f, [key]: e.target.value }));
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      const res = await fetch("/api/inventory", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name,
+          category: form.category,
+          unit: form.unit,
+          costPerUnit: Number(form.costPerUnit) || 0,
+          supplier: form.supplier || undefined,
+          colour: form.colour || undefined,
+          reorderLevel: Number(form.reorderLevel) || 0,
+          openingStock: Number(form.openingStock) || undefined,
+        }),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to add material");
+        return;
+      }
+      toast.success(`${form.name} added`);
+      setForm({ name: "", category: "fabric", unit: "yards", costPerUnit: "", supplier: "", colour: "", reorderLevel: "", openingStock: "" });
+      onOpenChange(false);
+      onSaved();
+    } catch {
+      toast.error("Failed to add material");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogClose />
+        <DialogHeader>
+          <DialogTitle>Add material</DialogTitle>
+          <DialogDescription>Something you keep in stock and cut or use for orders.</DialogDescription>
+        </DialogHeader>
+        <div className="mt-4 grid grid-cols-2 gap-3">
+          <div className="col-span-2">
+            <Input label="Name" placeholder="e.g. Swiss voile lace" value={form.name} onChange={set("name")} />
+          </div>
+          <Select label="Category" value={form.category} onChange={set("category")} options={CATEGORIES} />
+          <Select
+            label="Counted in"
+            value={form.unit}
+            onChange={set("unit")}
+            options={[
+              { value: "yards", label: "Yards" },
+              { value: "pieces", label: "Pieces" },
+            ]}
+          />
+          <Input label="Colour / print" value={form.colour} onChange={set("colour")} />
+          <Input label="Supplier" value={form.supplier} onChange={set("supplier")} />
+          <Input label={`Cost per ${form.unit === "yards" ? "yard" : "piece"} (₦)`} type="number" min={0} value={form.costPerUnit} onChange={set("costPerUnit")} />
+          <Input label="In stock now" type="number" min={0} step="0.25" value={form.openingStock} onChange={set("openingStock")} />
+          <div className="col-span-2">
+            <Input
+              label="Alert me when available stock falls to"
+              type="number"
+              min={0}
+              step="0.25"
+              placeholder="0 = no alert"
+              value={form.reorderLevel}
+              onChange={set("reorderLevel")}
+            />
+          </div>
+        </div>
+        <DialogFooter className="mt-6">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} loading={saving} disabled={form.name.trim().length < 2}>
+            Add material
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Stock in / stock-take                                                      */
+/* -------------------------------------------------------------------------- */
+
+function StockDialog({
+  material,
+  kind,
+  onClose,
+  onSaved,
+}: {
+  material: MaterialRow | null;
+  kind: "receipt" | "adjust";
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const [quantity, setQuantity] = useState("");
+  const [unitCost, setUnitCost] = useState("");
+  const [supplier, setSupplier] = useState("");
+  const [reference, setReference] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  function close() {
+    setQuantity("");
+    setUnitCost("");
+    setSupplier("");
+    setReference("");
+    onClose();
+  }
+
+  async function handleSave() {
+    if (!material) return;
+    setSaving(true);
+    try {
+      const body =
+        kind === "receipt"
+          ? {
+              kind,
+              quantity: Number(quantity),
+              unitCost: unitCost ? Number(unitCost) : undefined,
+              supplier: supplier || undefined,
+              reference: reference || undefined,
+            }
+          : { kind, counted: Number(quantity) };
+      const res = await fetch(`/api/inventory/${material._id}/stock`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to update stock");
+        return;
+      }
+      toast.success(`${material.name}: ${json.data.onHand} ${material.unit} on hand`);
+      close();
+      onSaved();
+    } catch {
+      toast.error("Failed to update stock");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={!!material} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-md">
+        <DialogClose />
+        <DialogHeader>
+          <DialogTitle>{kind === "receipt" ? "Stock in" : "Stock-take"} — {material?.name}</DialogTitle>
+          <DialogDescription>
+            {kind === "receipt"
+              ? "Record a delivery. The cost updates the average cost of what's on the shelf."
+              : `Count what's on the shelf. The system has ${material?.onHand ?? 0} ${material?.unit}.`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="mt-4 grid grid-cols-2 gap-3">
+          <Input
+            label={kind === "receipt" ? `Received (${material?.unit})` : `Counted (${material?.unit})`}
+            type="number"
+            min={0}
+            step="0.25"
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+          />
+          {kind === "receipt" && (
+            <>
+              <Input
+                label="Cost per unit (₦)"
+                type="number"
+                min={0}
+                placeholder={material ? String(material.costPerUnit) : ""}
+                value={unitCost}
+                onChange={(e) => setUnitCost(e.target.value)}
+              />
+              <Input label="Supplier" placeholder={material?.supplier} value={supplier} onChange={(e) => setSupplier(e.target.value)} />
+              <Input label="Receipt no." value={reference} onChange={(e) => setReference(e.target.value)} />
+            </>
+          )}
+        </div>
+        <DialogFooter className="mt-6">
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          <Button
+            onClick={handleSave}
+            loading={saving}
+            disabled={quantity === "" || (kind === "receipt" && Number(quantity) <= 0)}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Movement history                                                           */
+/* -------------------------------------------------------------------------- */
+
+function MovementHistory({ materialId, unit }: { materialId: string; unit: string }) {
+  const [movements, setMovements] = useState<Movement[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function fetchHistory() {
+      try {
+        const res = await fetch(`/api/inventory/${materialId}`);
+        const json = await res.json();
+        if (!cancelled) setMovements(json.success ? json.data.movements : []);
+      } catch {
+        if (!cancelled) setMovements([]);
+      }
+    }
+    fetchHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [materialId]);
+
+  if (!movements) {
+    return <div className="mt-3 h-16 animate-pulse rounded-lg bg-[#1A1A2E]/5" />;
+  }
+  if (movements.length === 0) {
+    return <p className="mt-3 text-xs text-[#1A1A2E]/40">No stock movements yet.</p>;
+  }
+
+  return (
+    <div className="mt-3 divide-y divide-[#1A1A2E]/5 rounded-lg bg-white/40">
+      {movements.map((m) => (
+        <div key={m._id} className="flex items-center justify-between gap-3 px-3 py-2 text-xs">
+          <div className="min-w-0">
+            <p className="font-medium text-[#1A1A2E]/80">
+              {MOVEMENT_LABELS[m.kind] || m.kind}
+              {m.orderTitle && <span className="font-normal text-[#1A1A2E]/50"> · {m.orderTitle}</span>}
+              {m.supplier && m.kind === "receipt" && <span className="font-normal text-[#1A1A2E]/50"> · {m.supplier}</span>}
+            </p>
+            <p className="text-[10px] text-[#1A1A2E]/40">
+              {new Date(m.createdAt).toLocaleDateString("en-NG", { day: "numeric", month: "short", year: "numeric" })}
+              {m.reference && ` · #${m.reference}`}
+              {m.note && ` · ${m.note}`}
+            </p>
+          </div>
+          <span
+            className={cn(
+              "shrink-0 font-semibold",
+              m.kind === "receipt" || (m.kind === "adjust" && m.quantity > 0)
+                ? "text-emerald-600"
+                : m.kind === "consume" || m.kind === "adjust"
+                ? "text-red-500"
+                : "text-[#1A1A2E]/50"
+            )}
+          >
+            {m.kind === "consume" ? "−" : m.kind === "receipt" || (m.kind === "adjust" && m.quantity > 0) ? "+" : ""}
+            {m.quantity} {unit}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Page                                                                       */
+/* -------------------------------------------------------------------------- */
+
+export default function InventoryPage() {
+  const [data, setData] = useState<{ materials: MaterialRow[]; stockValue: number; lowStockCount: number } | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [category, setCategory] = useState("all");
+  const [addOpen, setAddOpen] = useState(false);
+  const [stockFor, setStockFor] = useState<{ material: MaterialRow; kind: "receipt" | "adjust" } | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  const reload = () => setReloadKey((k) => k + 1);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function fetchInventory() {
+      try {
+        const res = await fetch("/api/inventory");
+        const json = await res.json();
+        if (cancelled) return;
+        if (!json.success) throw new Error(json.error || "Failed to load inventory");
+        setData(json.data);
+      } catch (err) {
+        if (!cancelled) toast.error(err instanceof Error ? err.message : "Failed to load inventory");
+      }
+    }
+    fetchInventory();
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
+
+  async function handleArchive(material: MaterialRow) {
+    if (!confirm(`Remove ${material.name} from inventory? Its history stays on past orders.`)) return;
+    try {
+      const res = await fetch(`/api/inventory/${material._id}`, { method: "DELETE" });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to remove material");
+        return;
+      }
+      toast.success(`${material.name} removed`);
+      reload();
+    } catch {
+      toast.error("Failed to remove material");
+    }
+  }
+
+  const materials = (data?.materials || []).filter((m) => category === "all" || m.category === category);
+  const categoriesInUse = CATEGORIES.filter((c) => data?.materials.some((m) => m.category === c.value));
+
+  return (
+    <PageTransition>
+      <div className="mx-auto w-full max-w-5xl space-y-6 px-4 py-6 sm:px-6">
+        {/* Header */}
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-[#1A1A2E]">Inventory</h1>
+            <p className="mt-1 text-sm text-[#1A1A2E]/55">
+              Fabric, lace, lining and notions in your workshop
+            </p>
+          </div>
+          <Button onClick={() => setAddOpen(true)} size="lg">
+            <Plus className="h-4 w-4" />
+            Add Material
+          </Button>
+        </div>
+
+        {/* Summary */}
+        {data && data.materials.length > 0 && (
+          <div className="grid grid-cols-3 gap-3">
+            <GlassCard padding="sm">
+              <p className="text-[10px] font-semibold uppercase tracking-wider text-[#1A1A2E]/35">Materials</p>
+              <p className="mt-1 text-xl font-bold text-[#1A1A2E]">{data.materials.length}</p>
+            </GlassCard>
+            <GlassCard padding="sm">
+              <p className="text-[10px] font-semibold uppercase tracking-wider text-[#1A1A2E]/35">Stock value</p>
+              <p className="mt-1 text-xl font-bold text-[#1A1A2E]">{formatCurrency(data.stockValue)}</p>
+            </GlassCard>
+            <GlassCard padding="sm">
+              <p className="text-[10px] font-semibold uppercase tracking-wider text-[#1A1A2E]/35">Running low</p>
+              <p className={cn("mt-1 text-xl font-bold", data.lowStockCount > 0 ? "text-amber-600" : "text-[#1A1A2E]")}>
+                {data.lowStockCount}
+              </p>
+            </GlassCard>
+          </div>
+        )}
+
+        {/* Category tabs */}
+        {categoriesInUse.length > 1 && (
+          <div className="flex items-center gap-1 overflow-x-auto rounded-xl bg-white/30 p-1 backdrop-blur-sm scrollbar-hide">
+            {[{ value: "all", label: "All" }, ...categoriesInUse].map((c) => (
+              <button
+                key={c.value}
+                onClick={() => setCategory(c.value)}
+                className={cn(
+                  "flex-shrink-0 whitespace-nowrap rounded-lg px-4 py-2 text-sm font-medium transition-all duration-200",
+                  category === c.value
+                    ? "bg-white/80 text-[#1A1A2E] shadow-sm"
+                    : "text-[#1A1A2E]/50 hover:text-[#1A1A2E]/70"
+                )}
+              >
+                {c.label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Materials */}
+        {!data ? (
+          <div className="space-y-3">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <div key={i} className="h-20 animate-pulse rounded-2xl bg-white/40" />
+            ))}
+          </div>
+        ) : data.materials.length === 0 ? (
+          <EmptyState
+            icon={Warehouse}
+            title="No materials yet"
+            description="Add the fabric, lace and notions you keep in stock to reserve them for orders and see what each order really costs."
+            action={
+              <Button onClick={() => setAddOpen(true)}>
+                <Plus className="h-4 w-4" />
+                Add Material
+              </Button>
+            }
+          />
+        ) : (
+          <div className="space-y-3">
+            {materials.map((m, i) => (
+              <motion.div
+                key={m._id}
+                initial={{ opacity: 0, y: 8 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: Math.min(i, 10) * 0.03 }}
+              >
+                <GlassCard padding="sm">
+                  <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                    <div className="min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="font-semibold text-[#1A1A2E]">{m.name}</p>
+                        <Badge variant="outline" className="capitalize">{m.category}</Badge>
+                        {m.lowStock && (
+                          <Badge variant="warning" className="gap-1">
+                            <AlertTriangle className="h-3 w-3" />
+                            Low
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="mt-0.5 text-xs text-[#1A1A2E]/50">
+                        {[m.colour, m.supplier, `${formatCurrency(m.costPerUnit)}/${m.unit === "yards" ? "yd" : "pc"}`]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <div className="text-right">
+                        <p className="text-lg font-bold text-[#1A1A2E]">
+                          {m.available} <span className="text-xs font-medium text-[#1A1A2E]/50">{m.unit} free</span>
+                        </p>
+                        <p className="text-[10px] text-[#1A1A2E]/40">
+                          {m.onHand} on hand{m.reserved > 0 ? ` · ${m.reserved} reserved` : ""}
+                        </p>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button size="sm" variant="outline" onClick={() => setStockFor({ material: m, kind: "receipt" })} title="Stock in">
+                          <PackagePlus className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setStockFor({ material: m, kind: "adjust" })} title="Stock-take">
+                          <ClipboardCheck className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setHistoryId(historyId === m._id ? null : m._id)}
+                          title="History"
+                        >
+                          <History className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => handleArchive(m)} title="Remove">
+                          <Archive className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                  {historyId === m._id && <MovementHistory key={reloadKey} materialId={m._id} unit={m.unit} />}
+                </GlassCard>
+              </motion.div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <AddMaterialDialog open={addOpen} onOpenChange={setAddOpen} onSaved={reload} />
+      <StockDialog
+        material={stockFor?.material ?? null}
+        kind={stockFor?.kind ?? "receipt"}
+        onClose={() => setStockFor(null)}
+        onSaved={reload}
+      />
+    </PageTransition>
+  );
+}
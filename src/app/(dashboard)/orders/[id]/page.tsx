@@ -16,7 +16,7 @@ import {
   FileDown,
   Package,
   Plus,
-  Ruler,
+  Printer,
   Shirt,
   Smartphone,
   StickyNote,
@@ -33,9 +33,9 @@ import {
   Sparkles,
   Globe,
   Heart,
+  Users,
+  Star,
 } from "lucide-react";
-import { jsPDF } from "jspdf";
-import autoTable from "jspdf-autotable";
 import { toast } from "sonner";
 import { PageTransition } from "@/components/common/page-transition";
 import { GlassCard } from "@/components/common/glass-card";
@@ -54,11 +54,22 @@ import {
 } from "@/components/ui/dialog";
 import { StatusProgress } from "@/components/orders/status-progress";
 import { OrderTimeline } from "@/components/orders/order-timeline";
+import { OrderLineItems } from "@/components/orders/order-line-items";
+import { OrderMaterials } from "@/components/orders/order-materials";
+import { OrderMeasurements } from "@/components/orders/order-measurements";
 import { WhatsAppActions } from "@/components/common/whatsapp-actions";
-import { ORDER_STATUSES, MEASUREMENT_TYPES, BOOST_PRICE_NGN } from "@/lib/constants";
+import { ORDER_STATUSES, BOOST_PRICE_NGN } from "@/lib/constants";
 import { PaymentModal } from "@/components/common/payment-modal";
 import { cn, formatCurrency, formatDate } from "@/lib/utils";
 import { whatsapp, type MessageLanguage } from "@/lib/whatsapp";
+import { useOrderWorkflow } from "@/hooks/use-order-workflow";
+import { getOrderLines, summarizeGarments } from "@/lib/order-items";
+import { getCachedOrder, localChanges } from "@/lib/offline-store";
+import {
+  getNextStatuses,
+  getStatusLabel,
+  type OrderWorkflow,
+} from "@/lib/order-transitions";
 import type { Order, OrderStatus, Measurements, Payment, PaymentMethod } from "@/types";
 
 /* -------------------------------------------------------------------------- */
@@ -66,12 +77,15 @@ import type { Order, OrderStatus, Measurements, Payment, PaymentMethod } from "@
 /* -------------------------------------------------------------------------- */
 
 function getStatusBadgeVariant(
-  status: OrderStatus
+  status: OrderStatus,
+  workflow?: OrderWorkflow
 ): "default" | "secondary" | "outline" | "destructive" | "success" | "warning" {
-  const statusConfig = ORDER_STATUSES.find((s) => s.value === status);
-  if (!statusConfig) return "outline";
+  const color =
+    workflow?.stages.find((s) => s.key === status)?.color ||
+    ORDER_STATUSES.find((s) => s.value === status)?.color;
+  if (!color) return "outline";
 
-  switch (statusConfig.color) {
+  switch (color) {
     case "gold":
       return "warning";
     case "info":
@@ -138,8 +152,10 @@ export default function OrderDetailPage() {
   const [correctionReason, setCorrectionReason] = useState("");
   const [submittingCorrection, setSubmittingCorrection] = useState(false);
   const [newStatus, setNewStatus] = useState<string>("");
+  const { workflow } = useOrderWorkflow();
   const [updatingStatus, setUpdatingStatus] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [savingEmailUpdates, setSavingEmailUpdates] = useState(false);
   const [showPaymentForm, setShowPaymentForm] = useState(false);
   const [paymentAmount, setPaymentAmount] = useState("");
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("cash");
@@ -167,6 +183,7 @@ export default function OrderDetailPage() {
   const [newLinkAmount, setNewLinkAmount] = useState("");
   const [creatingLink, setCreatingLink] = useState(false);
   const [confirmingLinkId, setConfirmingLinkId] = useState<string | null>(null);
+  const [issuingDocument, setIssuingDocument] = useState<string | null>(null);
 
   /* ---- Fetch order ---- */
   const fetchOrder = useCallback(async () => {
@@ -181,7 +198,21 @@ export default function OrderDetailPage() {
 
       setOrder(json.data);
       setNewStatus(json.data.status);
+
+      // Scanned from a printed job card — go straight to the status update
+      if (new URLSearchParams(window.location.search).get("bump") === "1") {
+        window.history.replaceState(null, "", window.location.pathname);
+        setStatusDialogOpen(true);
+      }
     } catch (err) {
+      // Offline: fall back to the copy synced to this device
+      const cached = !navigator.onLine ? await getCachedOrder(orderId) : null;
+      if (cached) {
+        setOrder(cached as unknown as Order);
+        setNewStatus(String(cached.status));
+        toast.info("You're offline — showing the copy saved on this device");
+        return;
+      }
       toast.error(err instanceof Error ? err.message : "Failed to load order");
       router.push("/orders");
     } finally {
@@ -305,6 +336,19 @@ export default function OrderDetailPage() {
       return;
     }
 
+    // Offline: save on this device and let sync send it (and flag any clash)
+    if (!navigator.onLine) {
+      const saved = await localChanges.update("order", orderId, { status: newStatus });
+      if (!saved) {
+        toast.error("You're offline and this order isn't saved on this device yet");
+        return;
+      }
+      setOrder((prev) => (prev ? { ...prev, status: newStatus as OrderStatus } : prev));
+      toast.success(`Status set to ${getStatusLabel(newStatus, workflow)} — it will sync when you're back online`);
+      setStatusDialogOpen(false);
+      return;
+    }
+
     try {
       setUpdatingStatus(true);
       const res = await fetch(`/api/orders/${orderId}`, {
@@ -318,7 +362,7 @@ export default function OrderDetailPage() {
         throw new Error(json.error || "Failed to update status");
       }
 
-      toast.success(`Status updated to ${ORDER_STATUSES.find((s) => s.value === newStatus)?.label || newStatus}`, {
+      toast.success(`Status updated to ${getStatusLabel(newStatus, workflow)}`, {
         action: order?.client?.phone
           ? {
               label: "Notify on WhatsApp",
@@ -328,7 +372,10 @@ export default function OrderDetailPage() {
                   order.client!.name,
                   order.title,
                   newStatus,
-                  order.dueDate
+                  order.dueDate,
+                  undefined,
+                  undefined,
+                  workflow
                 );
                 window.open(url, "_blank");
               },
@@ -370,238 +417,25 @@ export default function OrderDetailPage() {
     }
   };
 
-  /* ---- Generate invoice ---- */
-  const generateInvoice = () => {
+  /* ---- Issue invoice / receipt / quotation (server-rendered PDF) ---- */
+  const issueDocument = async (type: "invoice" | "receipt" | "quotation") => {
     if (!order) return;
-
-    const doc = new jsPDF();
-    const pageWidth = doc.internal.pageSize.getWidth();
-
-    // Header
-    doc.setFontSize(28);
-    doc.setTextColor(199, 91, 57); // #C75B39
-    doc.text("INVOICE", 20, 30);
-
-    doc.setFontSize(10);
-    doc.setTextColor(26, 26, 46); // #1A1A2E
-    doc.text("Generated by Stitcha", 20, 38);
-
-    // Date
-    doc.setFontSize(9);
-    doc.setTextColor(100, 100, 100);
-    doc.text(`Date: ${new Date().toLocaleDateString("en-NG", { day: "numeric", month: "long", year: "numeric" })}`, pageWidth - 20, 30, { align: "right" });
-    doc.text(`Order ID: ${order._id}`, pageWidth - 20, 37, { align: "right" });
-
-    // Divider
-    doc.setDrawColor(199, 91, 57);
-    doc.setLineWidth(0.5);
-    doc.line(20, 44, pageWidth - 20, 44);
-
-    // Client details
-    let yPos = 56;
-    doc.setFontSize(11);
-    doc.setTextColor(26, 26, 46);
-    doc.setFont("helvetica", "bold");
-    doc.text("Client Details", 20, yPos);
-    yPos += 8;
-
-    doc.setFontSize(9);
-    doc.setFont("helvetica", "normal");
-    if (order.client?.name) {
-      doc.text(`Name: ${order.client.name}`, 20, yPos);
-      yPos += 6;
-    }
-    if (order.client?.phone) {
-      doc.text(`Phone: ${order.client.phone}`, 20, yPos);
-      yPos += 6;
-    }
-
-    // Order details
-    yPos += 6;
-    doc.setFontSize(11);
-    doc.setFont("helvetica", "bold");
-    doc.text("Order Details", 20, yPos);
-    yPos += 8;
-
-    doc.setFontSize(9);
-    doc.setFont("helvetica", "normal");
-    doc.text(`Title: ${order.title}`, 20, yPos);
-    yPos += 6;
-    doc.text(`Garment Type: ${order.garmentType}`, 20, yPos);
-    yPos += 6;
-    if (order.fabric) {
-      doc.text(`Fabric: ${order.fabric}`, 20, yPos);
-      yPos += 6;
-    }
-    if (order.dueDate) {
-      doc.text(`Due Date: ${new Date(order.dueDate).toLocaleDateString("en-NG", { day: "numeric", month: "long", year: "numeric" })}`, 20, yPos);
-      yPos += 6;
-    }
-
-    // Pricing table
-    yPos += 8;
-    autoTable(doc, {
-      startY: yPos,
-      head: [["Description", "Amount"]],
-      body: [
-        ["Total Price", formatCurrency(order.price)],
-        ["Deposit Paid", formatCurrency(order.depositPaid || 0)],
-        ["Balance Due", formatCurrency(order.price - (order.depositPaid || 0))],
-      ],
-      theme: "striped",
-      headStyles: {
-        fillColor: [199, 91, 57],
-        textColor: [255, 255, 255],
-        fontSize: 10,
-        fontStyle: "bold",
-      },
-      bodyStyles: {
-        fontSize: 9,
-        textColor: [26, 26, 46],
-      },
-      alternateRowStyles: {
-        fillColor: [250, 250, 248],
-      },
-      margin: { left: 20, right: 20 },
-      columnStyles: {
-        1: { halign: "right" },
-      },
-    });
-
-    // Notes
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const finalY = (doc as any).lastAutoTable?.finalY || yPos + 40;
-    if (order.notes) {
-      const notesY = finalY + 12;
-      doc.setFontSize(11);
-      doc.setFont("helvetica", "bold");
-      doc.setTextColor(26, 26, 46);
-      doc.text("Notes", 20, notesY);
-      doc.setFontSize(9);
-      doc.setFont("helvetica", "normal");
-      doc.setTextColor(100, 100, 100);
-      const splitNotes = doc.splitTextToSize(order.notes, pageWidth - 40);
-      doc.text(splitNotes, 20, notesY + 8);
-    }
-
-    // Footer
-    const pageHeight = doc.internal.pageSize.getHeight();
-    doc.setDrawColor(212, 168, 83); // #D4A853
-    doc.setLineWidth(0.3);
-    doc.line(20, pageHeight - 20, pageWidth - 20, pageHeight - 20);
-    doc.setFontSize(8);
-    doc.setTextColor(150, 150, 150);
-    doc.text("Generated by Stitcha", pageWidth / 2, pageHeight - 12, { align: "center" });
-
-    // Download
-    const fileName = `invoice-${order.title.replace(/\s+/g, "-").toLowerCase()}-${Date.now()}.pdf`;
-    doc.save(fileName);
-  };
-
-  /* ---- Generate payment receipt ---- */
-  const generateReceipt = () => {
-    if (!order || !order.payments?.length) {
-      toast.error("No payments recorded yet");
-      return;
-    }
-
-    const doc = new jsPDF();
-    const pageWidth = doc.internal.pageSize.getWidth();
-
-    // Header
-    doc.setFontSize(28);
-    doc.setTextColor(22, 163, 74); // Green
-    doc.text("RECEIPT", 20, 30);
-
-    doc.setFontSize(10);
-    doc.setTextColor(26, 26, 46);
-    doc.text("Payment Receipt — Stitcha", 20, 38);
-
-    doc.setFontSize(9);
-    doc.setTextColor(100, 100, 100);
-    doc.text(
-      `Date: ${new Date().toLocaleDateString("en-NG", { day: "numeric", month: "long", year: "numeric" })}`,
-      pageWidth - 20,
-      30,
-      { align: "right" }
-    );
-
-    doc.setDrawColor(22, 163, 74);
-    doc.setLineWidth(0.5);
-    doc.line(20, 44, pageWidth - 20, 44);
-
-    // Client
-    let yPos = 56;
-    doc.setFontSize(11);
-    doc.setTextColor(26, 26, 46);
-    doc.setFont("helvetica", "bold");
-    doc.text("Received From", 20, yPos);
-    yPos += 8;
-    doc.setFontSize(9);
-    doc.setFont("helvetica", "normal");
-    if (order.client?.name) {
-      doc.text(order.client.name, 20, yPos);
-      yPos += 6;
-    }
-    if (order.client?.phone) {
-      doc.text(order.client.phone, 20, yPos);
-      yPos += 6;
+    setIssuingDocument(type);
+    try {
+      const res = await fetch("/api/documents", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type, orderId }),
+      });
+      const json = await res.json();
+      if (!json.success) throw new Error(json.error || "Failed to generate document");
+      window.open(json.data.url, "_blank");
+      if (!json.data.reused) toast.success(`${json.data.number} issued`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to generate document");
+    } finally {
+      setIssuingDocument(null);
     }
-
-    // Order info
-    yPos += 6;
-    doc.setFontSize(9);
-    doc.text(`Order: ${order.title}`, 20, yPos);
-    yPos += 6;
-    doc.text(`Garment: ${order.garmentType}`, 20, yPos);
-    yPos += 10;
-
-    // Payment table
-    const paymentRows = order.payments.map(
-      (p: { amount: number; method: string; paidAt: string; note?: string }) => [
-        new Date(p.paidAt).toLocaleDateString("en-NG"),
-        formatCurrency(p.amount),
-        p.method.replace("_", " "),
-        p.note || "-",
-      ]
-    );
-
-    autoTable(doc, {
-      startY: yPos,
-      head: [["Date", "Amount", "Method", "Note"]],
-      body: paymentRows,
-      theme: "striped",
-      headStyles: {
-        fillColor: [22, 163, 74],
-        textColor: [255, 255, 255],
-        fontSize: 9,
-        fontStyle: "bold",
-      },
-      bodyStyles: { fontSize: 8, textColor: [26, 26, 46] },
-      margin: { left: 20, right: 20 },
-    });
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const finalY = (doc as any).lastAutoTable?.finalY || yPos + 40;
-
-    // Summary
-    const summaryY = finalY + 12;
-    doc.setFontSize(10);
-    doc.setFont("helvetica", "bold");
-    doc.text(`Total Paid: ${formatCurrency(order.depositPaid || 0)}`, 20, summaryY);
-    doc.text(
-      `Balance: ${formatCurrency(order.price - (order.depositPaid || 0))}`,
-      20,
-      summaryY + 7
-    );
-
-    // Footer
-    const pageHeight = doc.internal.pageSize.getHeight();
-    doc.setFontSize(8);
-    doc.setTextColor(150, 150, 150);
-    doc.text("Generated by Stitcha", pageWidth / 2, pageHeight - 12, { align: "center" });
-
-    doc.save(`receipt-${order.title.replace(/\s+/g, "-").toLowerCase()}-${Date.now()}.pdf`);
   };
 
   /* ---- Record payment ---- */
@@ -672,6 +506,32 @@ export default function OrderDetailPage() {
     }
   };
 
+  /* ---- This order's client emails on/off ---- */
+  const handleToggleEmailUpdates = async () => {
+    if (!order) return;
+    const emailUpdates = order.emailUpdates === false;
+    try {
+      setSavingEmailUpdates(true);
+      const res = await fetch(`/api/orders/${orderId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ emailUpdates }),
+      });
+      const json = await res.json();
+
+      if (!json.success) {
+        throw new Error(json.error || "Failed to update email settings");
+      }
+
+      setOrder(json.data);
+      toast.success(emailUpdates ? "Emails on for this order" : "Emails off for this order");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update email settings");
+    } finally {
+      setSavingEmailUpdates(false);
+    }
+  };
+
   /* ---- Request correction (staff only) ---- */
   const handleRequestCorrection = async () => {
     if (!correctionReason.trim()) {
@@ -710,33 +570,30 @@ export default function OrderDetailPage() {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    if (file.size > 500_000) {
-      toast.error("Image too large. Max 500KB.");
+    if (file.size > 8_000_000) {
+      toast.error("Image too large. Max 8MB.");
       return;
     }
 
-    const reader = new FileReader();
-    reader.onload = async () => {
-      try {
-        const res = await fetch(`/api/orders/${orderId}/gallery`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ image: reader.result }),
-        });
-        const json = await res.json();
-
-        if (!json.success) {
-          throw new Error(json.error);
-        }
+    e.target.value = "";
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      const res = await fetch(`/api/orders/${orderId}/gallery`, {
+        method: "POST",
+        body: form,
+      });
+      const json = await res.json();
 
-        toast.success("Photo added to gallery");
-        fetchOrder();
-      } catch (err) {
-        toast.error(err instanceof Error ? err.message : "Failed to upload");
+      if (!json.success) {
+        throw new Error(json.error);
       }
-    };
-    reader.readAsDataURL(file);
-    e.target.value = "";
+
+      toast.success("Photo added to gallery");
+      fetchOrder();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to upload");
+    }
   };
 
   const handleGalleryDelete = async (index: number) => {
@@ -775,6 +632,7 @@ export default function OrderDetailPage() {
 
   const dueDateInfo = getDueDateCountdown(order.dueDate);
   const balance = order.price - (order.depositPaid || 0);
+  const lines = getOrderLines(order);
   const clientMeasurements = order.client?.measurements as Measurements | undefined;
 
   return (
@@ -798,17 +656,16 @@ export default function OrderDetailPage() {
                   {order.title}
                 </h1>
                 <Badge
-                  variant={getStatusBadgeVariant(order.status)}
+                  variant={getStatusBadgeVariant(order.status, workflow)}
                   className="capitalize"
                 >
-                  {ORDER_STATUSES.find((s) => s.value === order.status)?.label ||
-                    order.status}
+                  {getStatusLabel(order.status, workflow)}
                 </Badge>
               </div>
               <div className="mt-2 flex flex-wrap items-center gap-3 text-sm text-[#1A1A2E]/55">
                 <span className="flex items-center gap-1.5">
                   <Shirt className="h-4 w-4" />
-                  {order.garmentType}
+                  {summarizeGarments(lines)}
                 </span>
                 {order.dueDate && (
                   <span className="flex items-center gap-1.5">
@@ -816,6 +673,15 @@ export default function OrderDetailPage() {
                     {formatDate(order.dueDate)}
                   </span>
                 )}
+                {order.groupOrderId && (
+                  <button
+                    onClick={() => router.push(`/orders/groups/${order.groupOrderId}`)}
+                    className="flex items-center gap-1.5 text-[#C75B39] hover:text-[#C75B39]/80"
+                  >
+                    <Users className="h-4 w-4" />
+                    Aso-ebi group
+                  </button>
+                )}
               </div>
             </div>
 
@@ -832,7 +698,8 @@ export default function OrderDetailPage() {
               <Button
                 variant="outline"
                 size="sm"
-                onClick={generateInvoice}
+                onClick={() => issueDocument("invoice")}
+                loading={issuingDocument === "invoice"}
               >
                 <FileDown className="h-3.5 w-3.5" />
                 Invoice
@@ -840,11 +707,30 @@ export default function OrderDetailPage() {
               <Button
                 variant="outline"
                 size="sm"
-                onClick={generateReceipt}
+                onClick={() => issueDocument("receipt")}
+                loading={issuingDocument === "receipt"}
+                disabled={!(order.payments || []).length}
               >
                 <FileDown className="h-3.5 w-3.5" />
                 Receipt
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => issueDocument("quotation")}
+                loading={issuingDocument === "quotation"}
+              >
+                <FileDown className="h-3.5 w-3.5" />
+                Quotation
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => window.open(`/api/orders/${order._id}/job-card`, "_blank")}
+              >
+                <Printer className="h-3.5 w-3.5" />
+                Job Card
+              </Button>
               <Button
                 variant="outline"
                 size="sm"
@@ -890,7 +776,7 @@ export default function OrderDetailPage() {
                 Order Progress
               </h2>
             </div>
-            <StatusProgress status={order.status} />
+            <StatusProgress status={order.status} stages={workflow.stages} />
 
             {/* Order Timeline */}
             {order.statusHistory && order.statusHistory.length > 0 && (
@@ -951,6 +837,34 @@ export default function OrderDetailPage() {
                         {order.client.phone}
                       </p>
                     )}
+                    {order.client.email && (
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleToggleEmailUpdates();
+                        }}
+                        disabled={savingEmailUpdates || order.client.emailUpdates === false}
+                        title={
+                          order.client.emailUpdates === false
+                            ? "Emails are off for this client — turn them on from their page"
+                            : `Progress and payment emails to ${order.client.email}`
+                        }
+                        className={cn(
+                          "mt-1 rounded-full px-2 py-0.5 text-[10px] font-semibold transition-colors disabled:cursor-not-allowed",
+                          order.client.emailUpdates !== false && order.emailUpdates !== false
+                            ? "bg-emerald-50 text-emerald-700 hover:bg-emerald-100"
+                            : "bg-[#1A1A2E]/[0.06] text-[#1A1A2E]/45 hover:bg-[#1A1A2E]/10",
+                          savingEmailUpdates && "opacity-60"
+                        )}
+                      >
+                        {order.client.emailUpdates === false
+                          ? "Client emails off"
+                          : order.emailUpdates === false
+                          ? "Order emails off"
+                          : "Order emails on"}
+                      </button>
+                    )}
                   </div>
                   {/* WhatsApp actions */}
                   {order.client.phone && (
@@ -966,6 +880,7 @@ export default function OrderDetailPage() {
                           totalPaid: order.depositPaid || 0,
                           totalPrice: order.price,
                         }}
+                        workflow={workflow}
                       />
                     </div>
                   )}
@@ -991,24 +906,13 @@ export default function OrderDetailPage() {
                 </h2>
               </div>
               <div className="space-y-3">
-                <div>
-                  <p className="text-xs font-medium text-[#1A1A2E]/45">
-                    Garment Type
-                  </p>
-                  <p className="mt-0.5 text-sm font-medium text-[#1A1A2E]">
-                    {order.garmentType}
-                  </p>
-                </div>
-                {order.fabric && (
-                  <div>
-                    <p className="text-xs font-medium text-[#1A1A2E]/45">
-                      Fabric
-                    </p>
-                    <p className="mt-0.5 text-sm font-medium text-[#1A1A2E]">
-                      {order.fabric}
-                    </p>
-                  </div>
-                )}
+                <OrderLineItems
+                  orderId={order._id}
+                  lines={lines}
+                  workflow={workflow}
+                  onUpdated={fetchOrder}
+                />
+                <OrderMaterials orderId={order._id} />
                 {order.description && (
                   <div>
                     <p className="text-xs font-medium text-[#1A1A2E]/45">
@@ -1366,48 +1270,21 @@ export default function OrderDetailPage() {
           </motion.div>
         )}
 
-        {/* Measurements section */}
-        {clientMeasurements && (
-          <motion.div
-            initial={{ opacity: 0, y: 16 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: 0.35 }}
-          >
-            <GlassCard padding="lg">
-              <div className="mb-4 flex items-center gap-2">
-                <Ruler className="h-5 w-5 text-[#C75B39]" />
-                <h2 className="text-lg font-semibold text-[#1A1A2E]">
-                  Client Measurements
-                </h2>
-              </div>
-              <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
-                {MEASUREMENT_TYPES.map((type) => {
-                  const value =
-                    clientMeasurements[type.key as keyof Measurements] as
-                      | number
-                      | undefined;
-                  if (!value) return null;
-                  return (
-                    <div
-                      key={type.key}
-                      className="rounded-xl border border-white/30 bg-white/30 px-3 py-2.5"
-                    >
-                      <p className="text-[11px] font-medium text-[#1A1A2E]/45">
-                        {type.label}
-                      </p>
-                      <p className="mt-0.5 text-base font-semibold text-[#1A1A2E]">
-                        {value}{" "}
-                        <span className="text-[10px] font-normal text-[#1A1A2E]/35">
-                          {type.unit}
-                        </span>
-                      </p>
-                    </div>
-                  );
-                })}
-              </div>
-            </GlassCard>
-          </motion.div>
-        )}
+        {/* Measurements section — the order's locked snapshot */}
+        <motion.div
+          initial={{ opacity: 0, y: 16 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.35 }}
+        >
+          <OrderMeasurements
+            orderId={order._id}
+            lines={lines}
+            lockedAt={order.measurementsLockedAt}
+            log={order.measurementLog}
+            clientMeasurements={clientMeasurements as Record<string, unknown> | undefined}
+            onRefreshed={fetchOrder}
+          />
+        </motion.div>
 
         {/* Gallery section */}
         <motion.div
@@ -1492,6 +1369,17 @@ export default function OrderDetailPage() {
           </motion.div>
         )}
 
+        {/* Client rating — left from the portal once delivered */}
+        {order.status === "delivered" && (
+          <motion.div
+            initial={{ opacity: 0, y: 16 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.395 }}
+          >
+            <ClientReviewCard orderId={order._id} />
+          </motion.div>
+        )}
+
         {/* Notes section */}
         {order.notes && (
           <motion.div
@@ -1518,7 +1406,7 @@ export default function OrderDetailPage() {
             <DialogHeader>
               <DialogTitle>Update Order Status</DialogTitle>
               <DialogDescription>
-                Change the current status of this order to reflect its progress.
+                Move this order to the next stage of your workflow.
               </DialogDescription>
             </DialogHeader>
             <div className="mt-4">
@@ -1526,9 +1414,11 @@ export default function OrderDetailPage() {
                 label="New Status"
                 value={newStatus}
                 onChange={(e) => setNewStatus(e.target.value)}
-                options={ORDER_STATUSES.map((s) => ({
-                  value: s.value,
-                  label: s.label,
+                options={[order.status, ...getNextStatuses(order.status, workflow)].map((s) => ({
+                  value: s,
+                  label: s === order.status
+                    ? `${getStatusLabel(s, workflow)} (current)`
+                    : getStatusLabel(s, workflow),
                 }))}
               />
             </div>
@@ -2055,3 +1945,108 @@ function FeatureOnFeedCard({
     </GlassCard>
   );
 }
+
+/* -------------------------------------------------------------------------- */
+/*  ClientReviewCard                                                           */
+/*  The client's portal rating for this order, if any. Shared comments show  */
+/*  on the public profile unless hidden here.                                 */
+/* -------------------------------------------------------------------------- */
+
+interface OrderReview {
+  _id: string;
+  rating: number;
+  comment?: string;
+  shareAsTestimonial: boolean;
+  hidden: boolean;
+  createdAt: string;
+}
+
+function ClientReviewCard({ orderId }: { orderId: string }) {
+  const [review, setReview] = useState<OrderReview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/reviews?orderId=${orderId}`)
+      .then((r) => r.json())
+      .then((json) => {
+        if (json.success) setReview(json.data.reviews[0] ?? null);
+      })
+      .catch(() => { /* card just stays empty */ })
+      .finally(() => setLoading(false));
+  }, [orderId]);
+
+  async function toggleHidden() {
+    if (!review) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/reviews/${review._id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ hidden: !review.hidden }),
+      });
+      const json = await res.json();
+      if (!json.success) throw new Error(json.error || "Failed to update");
+      setReview(json.data);
+      toast.success(json.data.hidden ? "Hidden from your profile" : "Showing on your profile");
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to update");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) return null;
+
+  return (
+    <GlassCard padding="lg">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-start gap-3">
+          <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-xl bg-[#D4A853]/15">
+            <Star className="h-4 w-4 text-[#D4A853]" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-[#1A1A2E]">Client rating</h2>
+            {review ? (
+              <>
+                <div className="mt-1 flex items-center gap-0.5" aria-label={`${review.rating} out of 5`}>
+                  {[1, 2, 3, 4, 5].map((v) => (
+                    <Star
+                      key={v}
+                      className={cn("h-4 w-4", v <= review.rating ? "text-[#D4A853]" : "text-[#1A1A2E]/10")}
+                      fill={v <= review.rating ? "currentColor" : "none"}
+                    />
+                  ))}
+                </div>
+                {review.comment && (
+                  <p className="mt-2 text-sm leading-relaxed text-[#1A1A2E]/65">
+                    &ldquo;{review.comment}&rdquo;
+                  </p>
+                )}
+              </>
+            ) : (
+              <p className="mt-0.5 text-xs text-[#1A1A2E]/55">
+                No rating yet. Your client can rate this order from their portal link.
+              </p>
+            )}
+          </div>
+        </div>
+        {review?.shareAsTestimonial && review.comment && (
+          <button
+            onClick={toggleHidden}
+            disabled={saving}
+            className={cn(
+              "shrink-0 rounded-xl px-3 py-1.5 text-xs font-semibold transition-all active:scale-95",
+              review.hidden
+                ? "bg-gradient-to-r from-[#C75B39] to-[#b14a2b] text-white shadow-md"
+                : "border border-emerald-300/60 bg-emerald-50/60 text-emerald-700",
+              saving && "opacity-60",
+            )}
+          >
+            {review.hidden ? "Show on profile" : "On your profile ✓"}
+          </button>
+        )}
+      </div>
+    </GlassCard>
+  );
+}
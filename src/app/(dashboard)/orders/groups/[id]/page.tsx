@@ -0,0 +1,661 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useSession } from "next-auth/react";
+import {
+  ArrowLeft,
+  CalendarDays,
+  Copy,
+  CreditCard,
+  ExternalLink,
+  Ruler,
+  Scissors,
+  Share2,
+  Trash2,
+  UserPlus,
+  Users,
+} from "lucide-react";
+import { toast } from "sonner";
+import { PageTransition } from "@/components/common/page-transition";
+import { GlassCard } from "@/components/common/glass-card";
+import { EmptyState } from "@/components/common/empty-state";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogClose,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { whatsapp } from "@/lib/whatsapp";
+import { cn, formatCurrency, formatDate } from "@/lib/utils";
+import type { GroupProgress, GroupMemberProgress } from "@/lib/group-orders";
+
+/* -------------------------------------------------------------------------- */
+/*  Aso-ebi group detail                                                      */
+/*  Guests, who's been measured, who's paid, and the fabric to buy.          */
+/* -------------------------------------------------------------------------- */
+
+interface GroupDetail {
+  _id: string;
+  title: string;
+  eventName?: string;
+  eventDate?: string;
+  coordinatorName?: string;
+  coordinatorPhone?: string;
+  defaultGarmentType: string;
+  pricePerGuest: number;
+  fabric: { name?: string; widthCm: number; pricePerYard?: number; purchasedYards?: number };
+  status: "open" | "closed" | "completed" | "cancelled";
+  coordinatorUrl: string;
+  progress: GroupProgress;
+}
+
+const MEASUREMENT_BADGE: Record<GroupMemberProgress["measurement"]["status"], { label: string; variant: "success" | "warning" | "secondary" | "outline" }> = {
+  received: { label: "Measured", variant: "success" },
+  on_file: { label: "On file", variant: "secondary" },
+  link_sent: { label: "Link sent", variant: "warning" },
+  missing: { label: "Not measured", variant: "outline" },
+};
+
+const PAYMENT_BADGE: Record<GroupMemberProgress["payment"]["status"], { label: string; variant: "success" | "warning" | "secondary" | "outline" }> = {
+  paid: { label: "Paid", variant: "success" },
+  awaiting_confirmation: { label: "Confirm payment", variant: "warning" },
+  partial: { label: "Part paid", variant: "secondary" },
+  unpaid: { label: "Unpaid", variant: "outline" },
+};
+
+/** "Ada Obi, 08031234567, f" — one guest per line; gender is optional */
+function parseGuestList(text: string, defaultGender: "male" | "female") {
+  return text
+    .split("\n")
+    .map((line) => line.split(/[,\t]/).map((p) => p.trim()))
+    .filter((parts) => parts[0] && parts[1])
+    .map(([name, phone, g]) => ({
+      name,
+      phone,
+      gender: (g?.toLowerCase().startsWith("m") ? "male" : g?.toLowerCase().startsWith("f") ? "female" : defaultGender) as "male" | "female",
+    }));
+}
+
+export default function GroupOrderDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const { data: session } = useSession();
+  const businessName = (session?.user as { name?: string } | undefined)?.name || "Your designer";
+
+  const [group, setGroup] = useState<GroupDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyMember, setBusyMember] = useState<string | null>(null);
+
+  const [addOpen, setAddOpen] = useState(false);
+  const [guestText, setGuestText] = useState("");
+  const [defaultGender, setDefaultGender] = useState<"male" | "female">("female");
+  const [guestGarment, setGuestGarment] = useState("");
+  const [adding, setAdding] = useState(false);
+
+  const [fabricOpen, setFabricOpen] = useState(false);
+  const [purchasedYards, setPurchasedYards] = useState("");
+  const [pricePerYard, setPricePerYard] = useState("");
+  const [savingFabric, setSavingFabric] = useState(false);
+
+  const fetchGroup = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/group-orders/${id}`);
+      const json = await res.json();
+      if (!json.success) throw new Error(json.error || "Failed to load group");
+      setGroup(json.data);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to load group");
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchGroup();
+  }, [fetchGroup]);
+
+  /* ---- Add guests ---- */
+  async function handleAddGuests() {
+    const guests = parseGuestList(guestText, defaultGender);
+    if (guests.length === 0) {
+      toast.error("Add at least one guest as: Name, phone");
+      return;
+    }
+    setAdding(true);
+    try {
+      const res = await fetch(`/api/group-orders/${id}/members`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ guests, garmentType: guestGarment.trim() || undefined }),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to add guests");
+        return;
+      }
+      toast.success(
+        json.data.skipped > 0
+          ? `${json.message} (${json.data.skipped} already in the group)`
+          : json.message
+      );
+      setAddOpen(false);
+      setGuestText("");
+      setGuestGarment("");
+      fetchGroup();
+    } catch {
+      toast.error("Failed to add guests");
+    } finally {
+      setAdding(false);
+    }
+  }
+
+  /* ---- Scan link → WhatsApp invite ---- */
+  async function handleSendScanLink(member: GroupMemberProgress) {
+    if (!group) return;
+    setBusyMember(member.memberId);
+    try {
+      let scanUrl = member.measurement.scanUrl;
+      if (!scanUrl) {
+        const res = await fetch("/api/scan/sessions", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ clientId: member.clientId }),
+        });
+        const json = await res.json();
+        if (!json.success) {
+          toast.error(json.error || "Couldn't create a scan link");
+          return;
+        }
+        scanUrl = json.data.scanUrl as string;
+      }
+      window.open(
+        whatsapp.groupInvite(
+          member.phone,
+          member.name,
+          group.eventName || group.title,
+          member.garmentType,
+          scanUrl,
+          member.payment.payUrl,
+          businessName
+        ),
+        "_blank"
+      );
+      fetchGroup();
+    } catch {
+      toast.error("Couldn't create a scan link");
+    } finally {
+      setBusyMember(null);
+    }
+  }
+
+  /* ---- Payment link → WhatsApp ---- */
+  async function handleRequestPayment(member: GroupMemberProgress) {
+    if (!group) return;
+    setBusyMember(member.memberId);
+    try {
+      let url = member.payment.payUrl;
+      if (!url) {
+        const res = await fetch(`/api/orders/${member.orderId}/payment-links`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ label: group.eventName || "Aso-ebi", amount: member.payment.balance }),
+        });
+        const json = await res.json();
+        if (!json.success) {
+          toast.error(json.error || "Couldn't create the payment link", { duration: 6000 });
+          return;
+        }
+        url = json.data.url as string;
+      }
+      window.open(
+        whatsapp.paymentRequest(
+          member.phone,
+          member.name,
+          group.eventName || "Aso-ebi",
+          member.payment.balance,
+          url,
+          businessName
+        ),
+        "_blank"
+      );
+      fetchGroup();
+    } catch {
+      toast.error("Couldn't create the payment link");
+    } finally {
+      setBusyMember(null);
+    }
+  }
+
+  async function handleRemove(member: GroupMemberProgress) {
+    if (!confirm(`Remove ${member.name} from this group? Their order is kept.`)) return;
+    setBusyMember(member.memberId);
+    try {
+      const res = await fetch(`/api/group-orders/${id}/members?memberId=${member.memberId}`, {
+        method: "DELETE",
+      });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to remove guest");
+        return;
+      }
+      toast.success(json.message);
+      fetchGroup();
+    } catch {
+      toast.error("Failed to remove guest");
+    } finally {
+      setBusyMember(null);
+    }
+  }
+
+  /* ---- Group updates ---- */
+  async function updateGroup(body: Record<string, unknown>, success: string) {
+    const res = await fetch(`/api/group-orders/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const json = await res.json();
+    if (!json.success) {
+      toast.error(json.error || "Failed to update group");
+      return false;
+    }
+    toast.success(success);
+    fetchGroup();
+    return true;
+  }
+
+  async function handleSaveFabric() {
+    setSavingFabric(true);
+    try {
+      const ok = await updateGroup(
+        {
+          fabric: {
+            purchasedYards: Number(purchasedYards) || 0,
+            ...(pricePerYard ? { pricePerYard: Number(pricePerYard) } : {}),
+          },
+        },
+        "Fabric purchase saved"
+      );
+      if (ok) setFabricOpen(false);
+    } finally {
+      setSavingFabric(false);
+    }
+  }
+
+  async function handleCopyCoordinatorLink() {
+    if (!group) return;
+    try {
+      await navigator.clipboard.writeText(group.coordinatorUrl);
+      toast.success("Coordinator link copied");
+    } catch {
+      toast.error("Couldn't copy the link");
+    }
+  }
+
+  function handleShareCoordinator() {
+    if (!group?.coordinatorPhone) return;
+    window.open(
+      whatsapp.groupCoordinator(
+        group.coordinatorPhone,
+        group.coordinatorName || "there",
+        group.eventName || group.title,
+        group.coordinatorUrl,
+        businessName
+      ),
+      "_blank"
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="mx-auto w-full max-w-5xl space-y-4 px-4 py-6 sm:px-6">
+        <div className="h-20 animate-pulse rounded-2xl bg-white/40" />
+        <div className="h-64 animate-pulse rounded-2xl bg-white/40" />
+      </div>
+    );
+  }
+
+  if (!group) {
+    return (
+      <EmptyState
+        icon={Users}
+        title="Group not found"
+        description="This group may have been removed."
+        action={
+          <Link href="/orders/groups">
+            <Button variant="outline">Back to groups</Button>
+          </Link>
+        }
+      />
+    );
+  }
+
+  const { totals, members } = group.progress;
+  const isOpen = group.status === "open";
+
+  return (
+    <PageTransition>
+      <div className="mx-auto w-full max-w-5xl space-y-6 px-4 py-6 sm:px-6">
+        {/* Header */}
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+          <div className="min-w-0">
+            <Link
+              href="/orders/groups"
+              className="mb-2 inline-flex items-center gap-1 text-xs font-medium text-[#1A1A2E]/50 hover:text-[#1A1A2E]"
+            >
+              <ArrowLeft className="h-3.5 w-3.5" />
+              Groups
+            </Link>
+            <div className="flex items-center gap-2">
+              <h1 className="truncate text-2xl font-bold text-[#1A1A2E]">{group.title}</h1>
+              <Badge variant={isOpen ? "success" : "secondary"} className="capitalize">
+                {group.status}
+              </Badge>
+            </div>
+            <p className="mt-1 flex flex-wrap items-center gap-x-3 text-sm text-[#1A1A2E]/55">
+              {group.eventName && <span>{group.eventName}</span>}
+              {group.eventDate && (
+                <span className="flex items-center gap-1">
+                  <CalendarDays className="h-3.5 w-3.5" />
+                  {formatDate(group.eventDate)}
+                </span>
+              )}
+              <span>
+                {group.defaultGarmentType} · {formatCurrency(group.pricePerGuest)} per guest
+              </span>
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={handleCopyCoordinatorLink}>
+              <Copy className="h-4 w-4" />
+              Coordinator Link
+            </Button>
+            {group.coordinatorPhone && (
+              <Button variant="outline" onClick={handleShareCoordinator}>
+                <Share2 className="h-4 w-4" />
+                Send to {group.coordinatorName || "Coordinator"}
+              </Button>
+            )}
+            {isOpen && (
+              <Button onClick={() => setAddOpen(true)}>
+                <UserPlus className="h-4 w-4" />
+                Add Guests
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Totals */}
+        <div className="grid grid-cols-2 gap-3 lg:grid-cols-4">
+          <GlassCard padding="sm">
+            <p className="text-xs text-[#1A1A2E]/50">Guests</p>
+            <p className="mt-1 text-xl font-bold text-[#1A1A2E]">{totals.guests}</p>
+          </GlassCard>
+          <GlassCard padding="sm">
+            <p className="text-xs text-[#1A1A2E]/50">Measured</p>
+            <p className="mt-1 text-xl font-bold text-[#1A1A2E]">
+              {totals.measured}
+              <span className="text-sm font-medium text-[#1A1A2E]/40"> / {totals.guests}</span>
+            </p>
+          </GlassCard>
+          <GlassCard padding="sm">
+            <p className="text-xs text-[#1A1A2E]/50">Paid</p>
+            <p className="mt-1 text-xl font-bold text-[#1A1A2E]">
+              {totals.paid}
+              <span className="text-sm font-medium text-[#1A1A2E]/40"> / {totals.guests}</span>
+            </p>
+            <p className="text-[11px] text-[#1A1A2E]/45">
+              {formatCurrency(totals.collected)} of {formatCurrency(totals.expected)}
+            </p>
+          </GlassCard>
+          <GlassCard padding="sm">
+            <p className="flex items-center gap-1 text-xs text-[#1A1A2E]/50">
+              <Scissors className="h-3 w-3" />
+              Fabric{group.fabric.name ? ` — ${group.fabric.name}` : ""}
+            </p>
+            <p className="mt-1 text-xl font-bold text-[#1A1A2E]">~{totals.yardsNeeded} yds</p>
+            <p
+              className={cn(
+                "text-[11px]",
+                totals.yardsShort > 0 ? "text-[#C75B39]" : "text-[#1A1A2E]/45"
+              )}
+            >
+              {totals.yardsPurchased > 0
+                ? totals.yardsShort > 0
+                  ? `${totals.yardsShort} yds short of ${totals.yardsPurchased} bought`
+                  : `${totals.yardsPurchased} yds bought`
+                : "Nothing bought yet"}
+              {totals.fabricCost !== null && ` · ~${formatCurrency(totals.fabricCost)}`}
+            </p>
+            <button
+              type="button"
+              onClick={() => {
+                setPurchasedYards(String(group.fabric.purchasedYards || ""));
+                setPricePerYard(String(group.fabric.pricePerYard || ""));
+                setFabricOpen(true);
+              }}
+              className="mt-1 text-[11px] font-medium text-[#C75B39] hover:text-[#C75B39]/80"
+            >
+              Record purchase
+            </button>
+          </GlassCard>
+        </div>
+
+        {totals.unsupportedGarments.length > 0 && (
+          <p className="text-xs text-[#1A1A2E]/50">
+            No fabric formula for {totals.unsupportedGarments.join(", ")} — those guests aren&apos;t in the yardage total.
+          </p>
+        )}
+
+        {/* Guests */}
+        <GlassCard padding="none">
+          {members.length === 0 ? (
+            <EmptyState
+              icon={Users}
+              title="No guests yet"
+              description="Paste your guest list to create an order for each guest."
+              action={
+                isOpen ? (
+                  <Button onClick={() => setAddOpen(true)}>
+                    <UserPlus className="h-4 w-4" />
+                    Add Guests
+                  </Button>
+                ) : undefined
+              }
+            />
+          ) : (
+            <ul className="divide-y divide-[#1A1A2E]/6">
+              {members.map((m) => {
+                const mBadge = MEASUREMENT_BADGE[m.measurement.status];
+                const pBadge = PAYMENT_BADGE[m.payment.status];
+                const cancelled = m.orderStatus === "cancelled";
+                return (
+                  <li
+                    key={m.memberId}
+                    className={cn(
+                      "flex flex-col gap-2 px-4 py-3 sm:flex-row sm:items-center sm:justify-between",
+                      cancelled && "opacity-50"
+                    )}
+                  >
+                    <div className="min-w-0">
+                      <Link
+                        href={`/orders/${m.orderId}`}
+                        className="flex items-center gap-1 text-sm font-medium text-[#1A1A2E] hover:text-[#C75B39]"
+                      >
+                        {m.name}
+                        <ExternalLink className="h-3 w-3 opacity-40" />
+                      </Link>
+                      <p className="text-xs text-[#1A1A2E]/50">
+                        {m.garmentType}
+                        {m.fabric.yards !== null && (
+                          <>
+                            {" · "}~{m.fabric.yards} yds{m.fabric.estimated && " (standard size)"}
+                          </>
+                        )}
+                        {m.payment.balance > 0 && ` · ${formatCurrency(m.payment.balance)} due`}
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      <Badge variant={mBadge.variant} className="text-[10px]">
+                        {mBadge.label}
+                      </Badge>
+                      <Badge variant={pBadge.variant} className="text-[10px]">
+                        {pBadge.label}
+                      </Badge>
+                      {!cancelled && m.measurement.status !== "received" && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={busyMember === m.memberId}
+                          onClick={() => handleSendScanLink(m)}
+                          title="Send scan link on WhatsApp"
+                        >
+                          <Ruler className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                      {!cancelled && m.payment.balance > 0 && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={busyMember === m.memberId}
+                          onClick={() => handleRequestPayment(m)}
+                          title="Send payment link on WhatsApp"
+                        >
+                          <CreditCard className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={busyMember === m.memberId}
+                        onClick={() => handleRemove(m)}
+                        title="Remove from group"
+                      >
+                        <Trash2 className="h-3.5 w-3.5 text-red-500" />
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </GlassCard>
+
+        {/* Group status */}
+        <div className="flex justify-end gap-2">
+          {group.status === "open" && (
+            <Button variant="outline" onClick={() => updateGroup({ status: "closed" }, "Group closed to new guests")}>
+              Close Guest List
+            </Button>
+          )}
+          {group.status === "closed" && (
+            <>
+              <Button variant="outline" onClick={() => updateGroup({ status: "open" }, "Group reopened")}>
+                Reopen
+              </Button>
+              <Button variant="outline" onClick={() => updateGroup({ status: "completed" }, "Group marked complete")}>
+                Mark Complete
+              </Button>
+            </>
+          )}
+        </div>
+
+        {/* Add guests dialog */}
+        <Dialog open={addOpen} onOpenChange={setAddOpen}>
+          <DialogContent>
+            <DialogClose />
+            <DialogHeader>
+              <DialogTitle>Add Guests</DialogTitle>
+              <DialogDescription>
+                One guest per line: name, phone, and optionally m/f. Guests already in your clients are matched by phone.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="mt-4 space-y-3">
+              <Textarea
+                label="Guest list"
+                rows={8}
+                placeholder={"Ada Obi, 08031234567, f\nTunde Bakare, 08127654321, m"}
+                value={guestText}
+                onChange={(e) => setGuestText(e.target.value)}
+              />
+              <div className="grid grid-cols-2 gap-3">
+                <Select
+                  label="Default gender"
+                  value={defaultGender}
+                  onChange={(e) => setDefaultGender(e.target.value as "male" | "female")}
+                  options={[
+                    { value: "female", label: "Female" },
+                    { value: "male", label: "Male" },
+                  ]}
+                />
+                <Input
+                  label="Garment (optional)"
+                  placeholder={group.defaultGarmentType}
+                  value={guestGarment}
+                  onChange={(e) => setGuestGarment(e.target.value)}
+                />
+              </div>
+              <p className="text-xs text-[#1A1A2E]/50">
+                {parseGuestList(guestText, defaultGender).length} guest(s) · each gets an order at {formatCurrency(group.pricePerGuest)}
+              </p>
+            </div>
+            <DialogFooter className="mt-6">
+              <Button variant="outline" onClick={() => setAddOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleAddGuests} loading={adding}>
+                Add Guests
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Fabric purchase dialog */}
+        <Dialog open={fabricOpen} onOpenChange={setFabricOpen}>
+          <DialogContent>
+            <DialogClose />
+            <DialogHeader>
+              <DialogTitle>Fabric Purchase</DialogTitle>
+              <DialogDescription>
+                The group needs about {totals.yardsNeeded} yards. Record what has been bought so far.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="mt-4 grid grid-cols-2 gap-3">
+              <Input
+                label="Yards bought"
+                type="number"
+                min={0}
+                value={purchasedYards}
+                onChange={(e) => setPurchasedYards(e.target.value)}
+              />
+              <Input
+                label="Price per yard (₦)"
+                type="number"
+                min={0}
+                value={pricePerYard}
+                onChange={(e) => setPricePerYard(e.target.value)}
+              />
+            </div>
+            <DialogFooter className="mt-6">
+              <Button variant="outline" onClick={() => setFabricOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSaveFabric} loading={savingFabric}>
+                Save
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </PageTransition>
+  );
+}
@@ -0,0 +1,271 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, CalendarDays, Plus, Users } from "lucide-react";
+import { toast } from "sonner";
+import { PageTransition } from "@/components/common/page-transition";
+import { EmptyState } from "@/components/common/empty-state";
+import { GlassCard } from "@/components/common/glass-card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogClose,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { FABRIC_WIDTHS } from "@/lib/fabric-calculator";
+import { formatCurrency, formatDate } from "@/lib/utils";
+
+/* -------------------------------------------------------------------------- */
+/*  Aso-ebi groups                                                            */
+/*  One event, one fabric, many guests — each guest gets their own order.    */
+/* -------------------------------------------------------------------------- */
+
+const GARMENT_TYPES = [
+  { value: "Agbada", label: "Agbada" },
+  { value: "Kaftan", label: "Kaftan" },
+  { value: "Dress", label: "Dress" },
+  { value: "Gown", label: "Gown" },
+  { value: "Suit", label: "Suit" },
+  { value: "Shirt", label: "Shirt" },
+  { value: "Blouse", label: "Blouse" },
+  { value: "Skirt", label: "Skirt" },
+  { value: "Trousers", label: "Trousers" },
+  { value: "Jumpsuit", label: "Jumpsuit" },
+];
+
+interface GroupSummary {
+  _id: string;
+  title: string;
+  eventName?: string;
+  eventDate?: string;
+  defaultGarmentType: string;
+  pricePerGuest: number;
+  fabric?: { name?: string };
+  status: "open" | "closed" | "completed" | "cancelled";
+  memberCount: number;
+}
+
+const STATUS_BADGE: Record<GroupSummary["status"], "success" | "secondary" | "outline" | "destructive"> = {
+  open: "success",
+  closed: "secondary",
+  completed: "outline",
+  cancelled: "destructive",
+};
+
+const EMPTY_FORM = {
+  title: "",
+  eventName: "",
+  eventDate: "",
+  defaultGarmentType: "Agbada",
+  pricePerGuest: "",
+  fabricName: "",
+  fabricWidthCm: String(FABRIC_WIDTHS[0].value),
+  coordinatorName: "",
+  coordinatorPhone: "",
+};
+
+export default function GroupOrdersPage() {
+  const router = useRouter();
+  const [groups, setGroups] = useState<GroupSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const fetchGroups = useCallback(async () => {
+    try {
+      const res = await fetch("/api/group-orders");
+      const json = await res.json();
+      if (!json.success) throw new Error(json.error || "Failed to load groups");
+      setGroups(json.data);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to load groups");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchGroups();
+  }, [fetchGroups]);
+
+  const update = (key: keyof typeof EMPTY_FORM) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+      setForm((f) => ({ ...f, [key]: e.target.value }));
+
+  async function handleCreate() {
+    if (form.title.trim().length < 2) {
+      toast.error("Give the group a name");
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch("/api/group-orders", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title: form.title.trim(),
+          eventName: form.eventName.trim() || undefined,
+          eventDate: form.eventDate || undefined,
+          defaultGarmentType: form.defaultGarmentType,
+          pricePerGuest: Number(form.pricePerGuest) || 0,
+          coordinatorName: form.coordinatorName.trim() || undefined,
+          coordinatorPhone: form.coordinatorPhone.trim() || undefined,
+          fabric: {
+            name: form.fabricName.trim() || undefined,
+            widthCm: Number(form.fabricWidthCm),
+          },
+        }),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to create group");
+        return;
+      }
+      toast.success("Group created — now add your guests");
+      setDialogOpen(false);
+      setForm(EMPTY_FORM);
+      router.push(`/orders/groups/${json.data._id}`);
+    } catch {
+      toast.error("Failed to create group");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <PageTransition>
+      <div className="mx-auto w-full max-w-5xl space-y-6 px-4 py-6 sm:px-6">
+        {/* Header */}
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <Link
+              href="/orders"
+              className="mb-2 inline-flex items-center gap-1 text-xs font-medium text-[#1A1A2E]/50 hover:text-[#1A1A2E]"
+            >
+              <ArrowLeft className="h-3.5 w-3.5" />
+              Orders
+            </Link>
+            <h1 className="text-2xl font-bold text-[#1A1A2E]">Aso-ebi Groups</h1>
+            <p className="mt-1 text-sm text-[#1A1A2E]/55">
+              Weddings, birthdays and events — one fabric, many guests
+            </p>
+          </div>
+          <Button onClick={() => setDialogOpen(true)} size="lg">
+            <Plus className="h-4 w-4" />
+            New Group
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <div key={i} className="h-28 animate-pulse rounded-2xl bg-white/40" />
+            ))}
+          </div>
+        ) : groups.length === 0 ? (
+          <EmptyState
+            icon={Users}
+            title="No groups yet"
+            description="Create a group for an event, add the guests, and track who has been measured and who has paid in one place."
+            action={
+              <Button onClick={() => setDialogOpen(true)}>
+                <Plus className="h-4 w-4" />
+                Create Your First Group
+              </Button>
+            }
+          />
+        ) : (
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            {groups.map((g) => (
+              <Link key={g._id} href={`/orders/groups/${g._id}`}>
+                <GlassCard hover padding="md">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="truncate font-semibold text-[#1A1A2E]">{g.title}</p>
+                      {g.eventName && (
+                        <p className="truncate text-xs text-[#1A1A2E]/55">{g.eventName}</p>
+                      )}
+                    </div>
+                    <Badge variant={STATUS_BADGE[g.status]} className="capitalize">
+                      {g.status}
+                    </Badge>
+                  </div>
+                  <div className="mt-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-[#1A1A2E]/55">
+                    <span className="flex items-center gap-1">
+                      <Users className="h-3.5 w-3.5" />
+                      {g.memberCount} guest{g.memberCount === 1 ? "" : "s"}
+                    </span>
+                    {g.eventDate && (
+                      <span className="flex items-center gap-1">
+                        <CalendarDays className="h-3.5 w-3.5" />
+                        {formatDate(g.eventDate)}
+                      </span>
+                    )}
+                    <span>
+                      {g.defaultGarmentType} · {formatCurrency(g.pricePerGuest)} each
+                    </span>
+                  </div>
+                </GlassCard>
+              </Link>
+            ))}
+          </div>
+        )}
+
+        {/* Create dialog */}
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogContent>
+            <DialogClose />
+            <DialogHeader>
+              <DialogTitle>New Aso-ebi Group</DialogTitle>
+              <DialogDescription>
+                Set up the event once. You&apos;ll add guests on the next screen.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="mt-4 space-y-3">
+              <Input label="Group name" placeholder="Tolu & Femi wedding — groom's family" value={form.title} onChange={update("title")} />
+              <div className="grid grid-cols-2 gap-3">
+                <Input label="Event" placeholder="Traditional wedding" value={form.eventName} onChange={update("eventName")} />
+                <Input label="Event date" type="date" value={form.eventDate} onChange={update("eventDate")} />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <Select label="Garment" value={form.defaultGarmentType} onChange={update("defaultGarmentType")} options={GARMENT_TYPES} />
+                <Input label="Price per guest (₦)" type="number" min={0} value={form.pricePerGuest} onChange={update("pricePerGuest")} />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <Input label="Fabric" placeholder="Gold aso-oke" value={form.fabricName} onChange={update("fabricName")} />
+                <Select
+                  label="Fabric width"
+                  value={form.fabricWidthCm}
+                  onChange={update("fabricWidthCm")}
+                  options={FABRIC_WIDTHS.map((w) => ({ value: String(w.value), label: w.label }))}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <Input label="Coordinator" placeholder="Bride / celebrant" value={form.coordinatorName} onChange={update("coordinatorName")} />
+                <Input label="Coordinator phone" type="tel" value={form.coordinatorPhone} onChange={update("coordinatorPhone")} />
+              </div>
+            </div>
+            <DialogFooter className="mt-6">
+              <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleCreate} loading={saving}>
+                Create Group
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </PageTransition>
+  );
+}
@@ -3,9 +3,9 @@
 import { useState, useEffect, useCallback, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useSession } from "next-auth/react";
-import { useForm } from "react-hook-form";
+import { useFieldArray, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { ArrowLeft, Lock, Save, Scissors, ShoppingBag, Sparkles, MessageCircle } from "lucide-react";
+import { AlertTriangle, ArrowLeft, Lock, Save, Scissors, ShoppingBag, Sparkles, MessageCircle, Plus, Trash2 } from "lucide-react";
 import { toast } from "sonner";
 import { PageTransition } from "@/components/common/page-transition";
 import { GlassCard } from "@/components/common/glass-card";
@@ -25,6 +25,9 @@ import {
 import { FabricCalculator } from "@/components/common/fabric-calculator";
 import { whatsapp } from "@/lib/whatsapp";
 import { orderSchema, type OrderInput } from "@/lib/validations";
+import { getOrderLines, lineTotal, sumLines, summarizeGarments } from "@/lib/order-items";
+import { FIT_OPTIONS } from "@/lib/ease-allowance";
+import { formatCurrency } from "@/lib/utils";
 import type { Client, Measurements } from "@/types";
 
 /* -------------------------------------------------------------------------- */
@@ -71,7 +74,10 @@ function NewOrderForm() {
 
   const [selectedClientMeasurements, setSelectedClientMeasurements] =
     useState<Measurements | null>(null);
-  const [showFabricCalc, setShowFabricCalc] = useState(false);
+  // "Waist +2.5in since March" — big changes since the client's last order
+  const [measurementAlerts, setMeasurementAlerts] = useState<{ clientId: string; alerts: string[] } | null>(null);
+  // Index of the line whose fabric estimate is open (null = none)
+  const [fabricCalcLine, setFabricCalcLine] = useState<number | null>(null);
 
   // AI Price Suggestion
   const [aiSuggestion, setAiSuggestion] = useState<{
@@ -82,6 +88,7 @@ function NewOrderForm() {
     factors: string[];
     source: "ai" | "heuristic";
   } | null>(null);
+  const [aiSuggestionLine, setAiSuggestionLine] = useState(0);
   const [loadingAiPrice, setLoadingAiPrice] = useState(false);
   const [aiPriceError, setAiPriceError] = useState<string | null>(null);
 
@@ -101,6 +108,7 @@ function NewOrderForm() {
     reset,
     setValue,
     watch,
+    control,
     formState: { errors },
   } = useForm<OrderInput>({
     resolver: zodResolver(orderSchema),
@@ -108,15 +116,18 @@ function NewOrderForm() {
       clientId: preselectedClientId || "",
       title: "",
       description: "",
-      garmentType: "",
-      fabric: "",
-      price: 0,
+      items: [{ garmentType: "", fabric: "", quantity: 1, unitPrice: 0, fit: "standard" }],
       depositPaid: 0,
       dueDate: "",
       notes: "",
     },
   });
 
+  const { fields: itemFields, append: appendItem, remove: removeItem } = useFieldArray({
+    control,
+    name: "items",
+  });
+
   /* ---- Fetch clients ---- */
   const fetchClients = useCallback(async () => {
     try {
@@ -156,9 +167,14 @@ function NewOrderForm() {
         clientId: order.clientId,
         title: order.title,
         description: order.description || "",
-        garmentType: order.garmentType,
-        fabric: order.fabric || "",
-        price: order.price,
+        items: getOrderLines(order).map((l) => ({
+          _id: l._id,
+          garmentType: l.garmentType,
+          fabric: l.fabric || "",
+          quantity: l.quantity,
+          unitPrice: l.unitPrice,
+          fit: l.fit || "standard",
+        })),
         depositPaid: order.depositPaid || 0,
         dueDate: order.dueDate
           ? new Date(order.dueDate).toISOString().split("T")[0]
@@ -189,7 +205,9 @@ function NewOrderForm() {
 
   /* ---- Watch client selection to load measurements ---- */
   const watchedClientId = watch("clientId");
-  const watchedGarmentType = watch("garmentType");
+  const watchedItems = watch("items") || [];
+  const orderTotal = sumLines(watchedItems);
+  const hasGarment = watchedItems.some((i) => i.garmentType);
 
   useEffect(() => {
     if (!watchedClientId) {
@@ -200,6 +218,22 @@ function NewOrderForm() {
     setSelectedClientMeasurements(selected?.measurements || null);
   }, [watchedClientId, clients]);
 
+  /* ---- Flag measurements that moved a lot since the last order ---- */
+  const fetchMeasurementAlerts = useCallback(async () => {
+    if (!watchedClientId || isEditing) return;
+    try {
+      const res = await fetch(`/api/clients/${watchedClientId}/measurements/changes`);
+      const json = await res.json();
+      if (json.success) setMeasurementAlerts({ clientId: watchedClientId, alerts: json.data.alerts });
+    } catch {
+      // Supplementary — the order can still be created
+    }
+  }, [watchedClientId, isEditing]);
+
+  useEffect(() => { fetchMeasurementAlerts(); }, [fetchMeasurementAlerts]);
+  const activeMeasurementAlerts =
+    measurementAlerts?.clientId === watchedClientId ? measurementAlerts.alerts : [];
+
   /* ---- Owner Override PIN verification ---- */
   const handleVerifyPin = async () => {
     if (pinInput.length !== 4) {
@@ -232,9 +266,10 @@ function NewOrderForm() {
     }
   };
 
-  /* ---- AI Price Suggestion ---- */
-  const handleGetAiPrice = async () => {
-    const garmentType = watch("garmentType");
+  /* ---- AI Price Suggestion (per line) ---- */
+  const handleGetAiPrice = async (index: number) => {
+    const line = watchedItems[index];
+    const garmentType = line?.garmentType;
     if (!garmentType) {
       toast.error("Select a garment type first");
       return;
@@ -244,13 +279,14 @@ function NewOrderForm() {
       setLoadingAiPrice(true);
       setAiPriceError(null);
       setAiSuggestion(null);
+      setAiSuggestionLine(index);
 
       const res = await fetch("/api/ai/price-suggestion", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           garmentType,
-          fabric: watch("fabric"),
+          fabric: line.fabric,
           description: watch("description"),
           measurements: selectedClientMeasurements || undefined,
         }),
@@ -272,14 +308,14 @@ function NewOrderForm() {
 
   const applyAiSuggestion = () => {
     if (!aiSuggestion) return;
-    setValue("price", aiSuggestion.suggestedPrice);
+    setValue(`items.${aiSuggestionLine}.unitPrice`, aiSuggestion.suggestedPrice);
     toast.success("Applied AI-suggested price");
   };
 
   /* ---- AI Quotation Generator ---- */
   const handleGenerateQuote = async (lang: "english" | "pidgin" = quoteLang) => {
-    const garmentType = watch("garmentType");
-    const price = watch("price");
+    const garmentType = summarizeGarments(watchedItems.filter((i) => i.garmentType));
+    const price = orderTotal;
     const client = clients.find((c) => c._id === watch("clientId"));
 
     if (!client) {
@@ -302,7 +338,7 @@ function NewOrderForm() {
         body: JSON.stringify({
           clientName: client.name,
           garmentType,
-          fabric: watch("fabric"),
+          fabric: watchedItems.map((i) => i.fabric).filter(Boolean).join(", ") || undefined,
           description: watch("description"),
           price: Number(price),
           depositPercent: 50,
@@ -346,7 +382,11 @@ function NewOrderForm() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           ...data,
-          price: Number(data.price),
+          items: (data.items || []).map((i) => ({
+            ...i,
+            quantity: Number(i.quantity) || 1,
+            unitPrice: Number(i.unitPrice) || 0,
+          })),
           depositPaid: Number(data.depositPaid) || 0,
         }),
       });
@@ -432,6 +472,25 @@ function NewOrderForm() {
                 {...register("clientId")}
               />
 
+              {activeMeasurementAlerts.length > 0 && (
+                <div className="flex items-start gap-2 rounded-xl border border-amber-500/30 bg-amber-50/60 p-3">
+                  <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" />
+                  <div className="min-w-0 flex-1 text-xs text-amber-800">
+                    {activeMeasurementAlerts.map((a) => (
+                      <p key={a} className="font-medium">{a}, re-measure?</p>
+                    ))}
+                    <a
+                      href={`/clients/${watchedClientId}`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="mt-1 inline-block font-semibold text-[#C75B39] hover:underline"
+                    >
+                      Compare measurements
+                    </a>
+                  </div>
+                </div>
+              )}
+
               {/* Order title */}
               <Input
                 label="Order Title"
@@ -440,145 +499,221 @@ function NewOrderForm() {
                 {...register("title")}
               />
 
-              {/* Garment type */}
-              <Select
-                label="Garment Type"
-                placeholder="Select garment type"
-                error={errors.garmentType?.message}
-                options={GARMENT_TYPES.map((g) => ({
-                  value: g.value,
-                  label: g.label,
-                }))}
-                {...register("garmentType")}
-              />
+              {/* Line items — one per garment */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <label className="flex items-center gap-1.5 text-sm font-medium text-foreground">
+                    Garments
+                    {isPriceLocked && (
+                      <Lock className="h-3.5 w-3.5 text-amber-500" />
+                    )}
+                  </label>
+                  <span className="text-xs text-[#1A1A2E]/45">
+                    {itemFields.length} item{itemFields.length === 1 ? "" : "s"}
+                  </span>
+                </div>
 
-              {/* Description */}
-              <Textarea
-                label="Description (Optional)"
-                placeholder="Describe the garment details, style preferences..."
-                rows={3}
-                error={errors.description?.message}
-                {...register("description")}
-              />
+                {itemFields.map((field, index) => {
+                  const line = watchedItems[index];
+                  const lineErrors = errors.items?.[index];
+                  return (
+                    <div
+                      key={field.id}
+                      className="space-y-3 rounded-xl border border-[#1A1A2E]/8 bg-white/40 p-3"
+                    >
+                      <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+                        <Select
+                          label="Garment Type"
+                          placeholder="Select garment type"
+                          error={lineErrors?.garmentType?.message}
+                          options={GARMENT_TYPES.map((g) => ({
+                            value: g.value,
+                            label: g.label,
+                          }))}
+                          {...register(`items.${index}.garmentType`)}
+                        />
+                        <Input
+                          label="Fabric (Optional)"
+                          placeholder="e.g., Ankara, Lace, Guinea Brocade"
+                          {...register(`items.${index}.fabric`)}
+                        />
+                        <Select
+                          label="Fit"
+                          options={FIT_OPTIONS.map((f) => ({ value: f.value, label: f.label }))}
+                          {...register(`items.${index}.fit`)}
+                        />
+                      </div>
 
-              {/* Fabric */}
-              <Input
-                label="Fabric (Optional)"
-                placeholder="e.g., Ankara, Lace, Guinea Brocade"
-                error={errors.fabric?.message}
-                {...register("fabric")}
-              />
+                      <div className="grid grid-cols-[80px_1fr] gap-3">
+                        <div className="space-y-1.5">
+                          <label className="block text-sm font-medium text-foreground">Qty</label>
+                          <input
+                            type="number"
+                            min="1"
+                            step="1"
+                            disabled={isPriceLocked}
+                            className="glass-input flex h-10 w-full rounded-lg px-3 py-2 text-sm text-foreground focus-visible:outline-none disabled:cursor-not-allowed disabled:opacity-50"
+                            {...register(`items.${index}.quantity`, { valueAsNumber: true })}
+                          />
+                        </div>
+                        <div className="space-y-1.5">
+                          <label className="block text-sm font-medium text-foreground">
+                            Unit Price (NGN)
+                          </label>
+                          <div className="relative">
+                            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+                              NGN
+                            </span>
+                            <input
+                              type="number"
+                              min="0"
+                              step="100"
+                              placeholder="0"
+                              disabled={isPriceLocked}
+                              className="glass-input flex h-10 w-full rounded-lg pl-12 pr-3 py-2 text-sm text-foreground placeholder:text-muted-foreground focus-visible:outline-none disabled:cursor-not-allowed disabled:opacity-50"
+                              {...register(`items.${index}.unitPrice`, { valueAsNumber: true })}
+                            />
+                          </div>
+                          {lineErrors?.unitPrice && (
+                            <p className="text-xs text-destructive">
+                              {lineErrors.unitPrice.message}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+                        {line?.garmentType && !isPriceLocked && (
+                          <button
+                            type="button"
+                            onClick={() => handleGetAiPrice(index)}
+                            disabled={loadingAiPrice}
+                            className="flex items-center gap-1.5 text-xs font-medium text-[#C75B39] transition-colors hover:text-[#C75B39]/80 disabled:opacity-50"
+                          >
+                            <Sparkles className="h-3.5 w-3.5" />
+                            {loadingAiPrice && aiSuggestionLine === index ? "Thinking..." : "AI Price"}
+                          </button>
+                        )}
+                        {selectedClientMeasurements && line?.garmentType && (
+                          <button
+                            type="button"
+                            onClick={() => setFabricCalcLine(fabricCalcLine === index ? null : index)}
+                            className="flex items-center gap-1.5 text-xs font-medium text-[#C75B39] transition-colors hover:text-[#C75B39]/80"
+                          >
+                            <Scissors className="h-3.5 w-3.5" />
+                            {fabricCalcLine === index ? "Hide Fabric Estimate" : "Estimate Fabric"}
+                          </button>
+                        )}
+                        <span className="ml-auto text-xs font-semibold text-[#1A1A2E]/70">
+                          {formatCurrency(lineTotal(line || {}))}
+                        </span>
+                        {itemFields.length > 1 && !isPriceLocked && (
+                          <button
+                            type="button"
+                            onClick={() => {
+                              removeItem(index);
+                              setFabricCalcLine(null);
+                            }}
+                            className="rounded-lg p-1.5 text-red-500/70 transition-colors hover:bg-red-500/10"
+                            aria-label="Remove garment"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </button>
+                        )}
+                      </div>
+
+                      {fabricCalcLine === index && selectedClientMeasurements && line?.garmentType && (
+                        <FabricCalculator
+                          key={line.garmentType}
+                          measurements={selectedClientMeasurements}
+                          initialGarment={line.garmentType.toLowerCase()}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
 
-              {/* Fabric Calculator */}
-              {selectedClientMeasurements && watchedGarmentType && (
-                <div>
+                {errors.items?.message && (
+                  <p className="text-xs text-destructive">{errors.items.message}</p>
+                )}
+
+                {!isPriceLocked && itemFields.length < 20 && (
                   <button
                     type="button"
-                    onClick={() => setShowFabricCalc(!showFabricCalc)}
-                    className="flex items-center gap-2 text-xs font-medium text-[#C75B39] transition-colors hover:text-[#C75B39]/80"
+                    onClick={() => appendItem({ garmentType: "", fabric: "", quantity: 1, unitPrice: 0, fit: "standard" })}
+                    className="flex items-center gap-1.5 text-xs font-medium text-[#C75B39] transition-colors hover:text-[#C75B39]/80"
                   >
-                    <Scissors className="h-3.5 w-3.5" />
-                    {showFabricCalc
-                      ? "Hide Fabric Estimate"
-                      : "Estimate Fabric Needed"}
+                    <Plus className="h-3.5 w-3.5" />
+                    Add another garment
                   </button>
-                  {showFabricCalc && (
-                    <div className="mt-3">
-                      <FabricCalculator
-                        measurements={selectedClientMeasurements}
-                        initialGarment={watchedGarmentType.toLowerCase()}
-                      />
-                    </div>
-                  )}
-                </div>
-              )}
+                )}
 
-              {/* AI Price Suggestion */}
-              {watchedGarmentType && !isPriceLocked && (
-                <div className="space-y-2">
+                {isPriceLocked && (
                   <button
                     type="button"
-                    onClick={handleGetAiPrice}
-                    disabled={loadingAiPrice}
-                    className="flex items-center gap-2 text-xs font-medium text-[#C75B39] transition-colors hover:text-[#C75B39]/80 disabled:opacity-50"
+                    onClick={() => setShowPinDialog(true)}
+                    className="flex items-center gap-1.5 text-[11px] font-medium text-[#C75B39] transition-colors hover:text-[#C75B39]/80"
                   >
-                    <Sparkles className="h-3.5 w-3.5" />
-                    {loadingAiPrice ? "Thinking..." : "Get AI Price Suggestion"}
+                    <Lock className="h-3 w-3" />
+                    Request Owner Override (PIN)
                   </button>
+                )}
+              </div>
 
-                  {aiPriceError && (
-                    <p className="text-xs text-destructive">{aiPriceError}</p>
-                  )}
+              {/* AI Price Suggestion */}
+              {aiPriceError && (
+                <p className="text-xs text-destructive">{aiPriceError}</p>
+              )}
 
-                  {aiSuggestion && (
-                    <div className="rounded-xl border border-[#D4A853]/30 bg-gradient-to-br from-[#D4A853]/10 to-[#C75B39]/5 p-4">
-                      <div className="flex items-center justify-between gap-2">
-                        <div>
-                          <p className="text-xs text-[#1A1A2E]/55">Suggested price</p>
-                          <p className="text-lg font-bold text-[#1A1A2E]">
-                            ₦{aiSuggestion.suggestedPrice.toLocaleString()}
-                          </p>
-                          <p className="text-[11px] text-[#1A1A2E]/45">
-                            Range: ₦{aiSuggestion.priceRangeLow.toLocaleString()} – ₦{aiSuggestion.priceRangeHigh.toLocaleString()}
-                          </p>
-                        </div>
-                        <Button type="button" size="sm" onClick={applyAiSuggestion}>
-                          Use this price
-                        </Button>
-                      </div>
-                      {aiSuggestion.reasoning && (
-                        <p className="mt-3 text-xs text-[#1A1A2E]/65">{aiSuggestion.reasoning}</p>
-                      )}
-                      {aiSuggestion.factors.length > 0 && (
-                        <ul className="mt-2 space-y-1">
-                          {aiSuggestion.factors.map((f, i) => (
-                            <li key={i} className="text-[11px] text-[#1A1A2E]/50">• {f}</li>
-                          ))}
-                        </ul>
-                      )}
+              {aiSuggestion && !isPriceLocked && (
+                <div className="rounded-xl border border-[#D4A853]/30 bg-gradient-to-br from-[#D4A853]/10 to-[#C75B39]/5 p-4">
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <p className="text-xs text-[#1A1A2E]/55">
+                        Suggested price — {watchedItems[aiSuggestionLine]?.garmentType || "garment"}
+                      </p>
+                      <p className="text-lg font-bold text-[#1A1A2E]">
+                        ₦{aiSuggestion.suggestedPrice.toLocaleString()}
+                      </p>
+                      <p className="text-[11px] text-[#1A1A2E]/45">
+                        Range: ₦{aiSuggestion.priceRangeLow.toLocaleString()} – ₦{aiSuggestion.priceRangeHigh.toLocaleString()}
+                      </p>
                     </div>
+                    <Button type="button" size="sm" onClick={applyAiSuggestion}>
+                      Use this price
+                    </Button>
+                  </div>
+                  {aiSuggestion.reasoning && (
+                    <p className="mt-3 text-xs text-[#1A1A2E]/65">{aiSuggestion.reasoning}</p>
+                  )}
+                  {aiSuggestion.factors.length > 0 && (
+                    <ul className="mt-2 space-y-1">
+                      {aiSuggestion.factors.map((f, i) => (
+                        <li key={i} className="text-[11px] text-[#1A1A2E]/50">• {f}</li>
+                      ))}
+                    </ul>
                   )}
                 </div>
               )}
 
-              {/* Price and Deposit row */}
+              {/* Description */}
+              <Textarea
+                label="Description (Optional)"
+                placeholder="Describe the garment details, style preferences..."
+                rows={3}
+                error={errors.description?.message}
+                {...register("description")}
+              />
+
+              {/* Total and Deposit row */}
               <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
                 <div className="w-full space-y-1.5">
-                  <label className="flex items-center gap-1.5 text-sm font-medium text-foreground">
-                    Price (NGN)
-                    {isPriceLocked && (
-                      <Lock className="h-3.5 w-3.5 text-amber-500" />
-                    )}
+                  <label className="block text-sm font-medium text-foreground">
+                    Order Total
                   </label>
-                  <div className="relative">
-                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
-                      NGN
-                    </span>
-                    <input
-                      type="number"
-                      min="0"
-                      step="100"
-                      placeholder="0"
-                      disabled={isPriceLocked}
-                      className="glass-input flex h-10 w-full rounded-lg pl-12 pr-3 py-2 text-sm text-foreground placeholder:text-muted-foreground focus-visible:outline-none disabled:cursor-not-allowed disabled:opacity-50"
-                      {...register("price", { valueAsNumber: true })}
-                    />
+                  <div className="flex h-10 items-center rounded-lg bg-[#1A1A2E]/[0.03] px-3 text-sm font-semibold text-[#1A1A2E]">
+                    {formatCurrency(orderTotal)}
                   </div>
-                  {isPriceLocked && (
-                    <button
-                      type="button"
-                      onClick={() => setShowPinDialog(true)}
-                      className="flex items-center gap-1.5 text-[11px] font-medium text-[#C75B39] transition-colors hover:text-[#C75B39]/80"
-                    >
-                      <Lock className="h-3 w-3" />
-                      Request Owner Override (PIN)
-                    </button>
-                  )}
-                  {errors.price && (
-                    <p className="text-xs text-destructive">
-                      {errors.price.message}
-                    </p>
-                  )}
                 </div>
 
                 <div className="w-full space-y-1.5">
@@ -605,9 +740,8 @@ function NewOrderForm() {
                   )}
                 </div>
               </div>
-
               {/* AI Quotation Generator */}
-              {watchedClientId && watchedGarmentType && watch("price") > 0 && (
+              {watchedClientId && hasGarment && orderTotal > 0 && (
                 <div className="rounded-xl border border-[#1A1A2E]/8 bg-[#1A1A2E]/[0.02] p-3">
                   <div className="flex flex-wrap items-center justify-between gap-2">
                     <button
@@ -1,15 +1,18 @@
 "use client";
 
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { motion } from "framer-motion";
-import { Download, Plus, Search, ShoppingBag, Filter, CheckSquare, Square, ChevronDown } from "lucide-react";
+import { Download, Layers, Plus, Printer, Search, ShoppingBag, Filter, CheckSquare, Square, ChevronDown, Users } from "lucide-react";
 import { toast } from "sonner";
 import { PageTransition } from "@/components/common/page-transition";
 import { EmptyState } from "@/components/common/empty-state";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { OrderCard } from "@/components/orders/order-card";
+import { MarkerPlanner } from "@/components/orders/marker-planner";
+import { useOrderWorkflow } from "@/hooks/use-order-workflow";
+import { isInProduction } from "@/lib/order-transitions";
 import { cn } from "@/lib/utils";
 import type { Order } from "@/types";
 
@@ -20,11 +23,8 @@ import type { Order } from "@/types";
 const STATUS_TABS = [
   { key: "all", label: "All", statuses: "" },
   { key: "pending", label: "Pending", statuses: "pending" },
-  {
-    key: "in_progress",
-    label: "In Progress",
-    statuses: "cutting,sewing,fitting,finishing",
-  },
+  // Filled from the designer's workflow — every production stage before "ready"
+  { key: "in_progress", label: "In Progress", statuses: "" },
   { key: "ready", label: "Ready", statuses: "ready" },
   { key: "delivered", label: "Delivered", statuses: "delivered" },
 ] as const;
@@ -78,6 +78,18 @@ export default function OrdersPage() {
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [batchMenuOpen, setBatchMenuOpen] = useState(false);
   const [batchUpdating, setBatchUpdating] = useState(false);
+  const [markerOpen, setMarkerOpen] = useState(false);
+  const markerOrderIds = useMemo(() => Array.from(selectedIds), [selectedIds]);
+  const { workflow } = useOrderWorkflow();
+
+  const productionStatuses = useMemo(
+    () =>
+      workflow.stages
+        .map((s) => s.key)
+        .filter((k) => isInProduction(k) && k !== "ready" && k !== "delivered"),
+    [workflow]
+  );
+  const batchStages = workflow.stages.filter((s) => s.key !== "pending");
 
   /* ---- Fetch orders ---- */
   const fetchOrders = useCallback(async () => {
@@ -87,7 +99,9 @@ export default function OrdersPage() {
       if (search) params.set("search", search);
 
       const tab = STATUS_TABS.find((t) => t.key === statusFilter);
-      if (tab && tab.statuses) {
+      if (tab?.key === "in_progress") {
+        params.set("status", productionStatuses.join(","));
+      } else if (tab && tab.statuses) {
         params.set("status", tab.statuses);
       }
 
@@ -104,7 +118,7 @@ export default function OrdersPage() {
     } finally {
       setLoading(false);
     }
-  }, [search, statusFilter]);
+  }, [search, statusFilter, productionStatuses]);
 
   useEffect(() => {
     const debounce = setTimeout(fetchOrders, search ? 300 : 0);
@@ -142,7 +156,16 @@ export default function OrdersPage() {
       });
       const json = await res.json();
       if (json.success) {
-        toast.success(`Updated ${json.data.updated} orders to ${newStatus}`);
+        const label = workflow.stages.find((st) => st.key === newStatus)?.label || newStatus;
+        const skipped: { title: string; reason: string }[] = json.data.skipped || [];
+        if (json.data.updated > 0) {
+          toast.success(`Updated ${json.data.updated} orders to ${label}`);
+        }
+        if (skipped.length > 0) {
+          toast.warning(
+            `${skipped.length} order${skipped.length === 1 ? "" : "s"} skipped — ${skipped[0].title}: ${skipped[0].reason}`
+          );
+        }
         setSelectedIds(new Set());
         fetchOrders();
       } else {
@@ -167,6 +190,18 @@ export default function OrdersPage() {
             </p>
           </div>
           <div className="flex gap-2">
+            <Button variant="outline" onClick={() => router.push("/orders/groups")}>
+              <Users className="h-4 w-4" />
+              Groups
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => window.open("/api/orders/job-cards?status=cutting", "_blank")}
+              title="Job cards for every garment at the cutting stage"
+            >
+              <Printer className="h-4 w-4" />
+              Cutting Cards
+            </Button>
             <Button variant="outline" onClick={() => window.open("/api/orders/export", "_blank")}>
               <Download className="h-4 w-4" />
               Export
@@ -234,24 +269,36 @@ export default function OrdersPage() {
                 </button>
                 {batchMenuOpen && (
                   <div className="absolute left-0 top-full z-20 mt-1 w-40 rounded-xl border border-white/20 bg-white/90 p-1 shadow-lg backdrop-blur-xl">
-                    {["confirmed", "cutting", "sewing", "fitting", "finishing", "ready", "delivered", "cancelled"].map(
-                      (s) => (
-                        <button
-                          key={s}
-                          onClick={() => handleBatchUpdate(s)}
-                          className="w-full rounded-lg px-3 py-2 text-left text-xs font-medium capitalize text-[#1A1A2E]/70 transition-colors hover:bg-[#C75B39]/8 hover:text-[#C75B39]"
-                        >
-                          {s}
-                        </button>
-                      )
-                    )}
+                    {batchStages.map((s) => (
+                      <button
+                        key={s.key}
+                        onClick={() => handleBatchUpdate(s.key)}
+                        className="w-full rounded-lg px-3 py-2 text-left text-xs font-medium text-[#1A1A2E]/70 transition-colors hover:bg-[#C75B39]/8 hover:text-[#C75B39]"
+                      >
+                        {s.label}
+                      </button>
+                    ))}
                   </div>
                 )}
               </div>
             )}
+
+            {selectedIds.size > 0 && (
+              <button
+                onClick={() => setMarkerOpen(true)}
+                disabled={selectedIds.size > 10}
+                title={selectedIds.size > 10 ? "Plan up to 10 orders at a time" : "Lay the selected orders out on one bolt"}
+                className="flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs font-medium text-[#C75B39] transition-colors hover:bg-[#C75B39]/8 disabled:opacity-50"
+              >
+                <Layers className="h-3.5 w-3.5" />
+                Plan Marker
+              </button>
+            )}
           </div>
         )}
 
+        <MarkerPlanner open={markerOpen} onOpenChange={setMarkerOpen} orderIds={markerOrderIds} />
+
         {/* Order grid */}
         {loading ? (
           <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">
@@ -107,6 +107,7 @@ const XP_LABELS: Record<string, string> = {
   measurements: "Taking Measurements",
   onTime: "On-Time Deliveries",
   portfolio: "Portfolio Photos",
+  ratings: "Client Ratings",
   challenges: "Monthly Challenges",
 };
 
@@ -482,7 +483,8 @@ export default function RankPage() {
                     { action: "Add a new client", xp: 20 },
                     { action: "Take measurements", xp: 15 },
                     { action: "Add portfolio photo", xp: 5 },
-                    { action: "5+ deliveries in a month", xp: 100 },
+                    { action: "Get a 5-star client rating", xp: 20 },
+                    { action: "Five-star month (3+ ratings, 4.5★ avg)", xp: 100 },
                     { action: "Complete monthly challenge", xp: "100-250" },
                   ].map(({ action, xp }) => (
                     <div
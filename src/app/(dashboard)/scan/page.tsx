@@ -153,6 +153,8 @@ interface ScanQuota {
   monthlyAllowed?: number;
   monthlyUsed?: number;
   monthlyRemaining?: number;
+  /** Pay-per-scan balance, spent once the plan quota runs out. */
+  credits?: number;
 }
 
 export default function ScanManagementPage() {
@@ -249,7 +251,9 @@ export default function ScanManagementPage() {
       }
 
       setGeneratedSession(json.data);
-      toast.success(quickScan ? "Quick scan link generated!" : "Scan link generated!");
+      toast.success(quickScan ? "Quick scan link generated!" : "Scan link generated!", {
+        description: json.data.paidWithCredit ? "1 scan credit used" : undefined,
+      });
       fetchSessions();
       fetchQuota();
     } catch (err) {
@@ -756,7 +760,8 @@ export default function ScanManagementPage() {
 
 /* -------------------------------------------------------------------------- */
 /*  QuotaChip — pill that shows "X trial scans left" / "X / 20 this month"    */
-/*  / "Unlimited", with an Upgrade link when the trial is exhausted.          */
+/*  / "Unlimited", with an Upgrade link when the trial is exhausted. Once   */
+/*  the plan quota is gone it shows the pay-per-scan credit balance instead. */
 /* -------------------------------------------------------------------------- */
 
 function QuotaChip({ quota }: { quota: ScanQuota }) {
@@ -769,6 +774,22 @@ function QuotaChip({ quota }: { quota: ScanQuota }) {
     );
   }
 
+  const credits = quota.credits ?? 0;
+  const planRemaining =
+    quota.mode === "monthly" ? quota.monthlyRemaining ?? 0 : quota.trialRemaining ?? 0;
+  if (planRemaining === 0 && credits > 0) {
+    return (
+      <a
+        href="/billing"
+        className="inline-flex h-9 items-center gap-1.5 rounded-full border border-[#D4A853]/30 bg-[#D4A853]/[0.08] px-3 text-xs font-semibold text-[#1A1A2E]"
+        title="Your plan's scans are used up — each new scan link uses one credit"
+      >
+        <ScanLine className="h-3.5 w-3.5 text-[#D4A853]" />
+        {credits} scan credit{credits === 1 ? "" : "s"} left
+      </a>
+    );
+  }
+
   if (quota.mode === "monthly") {
     const used = quota.monthlyUsed ?? 0;
     const max = quota.monthlyAllowed ?? 0;
@@ -22,6 +22,9 @@ import {
   Camera,
   Zap,
   Wallet,
+  GitBranch,
+  Users,
+  Gift,
 } from "lucide-react";
 import { PageTransition } from "@/components/common/page-transition";
 import { GlassCard } from "@/components/common/glass-card";
@@ -35,6 +38,10 @@ import { NIGERIAN_STATES, SUBSCRIPTION_PLANS } from "@/lib/constants";
 import { cn, formatCurrency } from "@/lib/utils";
 import type { Designer } from "@/types";
 import { PaymentModal, type PaymentRequest } from "@/components/common/payment-modal";
+import { WorkflowEditor } from "@/components/orders/workflow-editor";
+import { TeamManager } from "@/components/common/team-manager";
+import { ReferralDashboard } from "@/components/common/referral-dashboard";
+import { ClientEmailSettings } from "@/components/common/client-email-settings";
 
 /* -------------------------------------------------------------------------- */
 /*  Validation Schemas                                                         */
@@ -95,6 +102,12 @@ export default function SettingsPage() {
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState("profile");
 
+  // Deep links like /settings?tab=team (from notifications)
+  useEffect(() => {
+    const tab = new URLSearchParams(window.location.search).get("tab");
+    if (tab) setActiveTab(tab);
+  }, []);
+
   // Fetch designer profile
   useEffect(() => {
     async function fetchProfile() {
@@ -152,6 +165,22 @@ export default function SettingsPage() {
                   <Building2 className="h-3.5 w-3.5" />
                   <span>Business</span>
                 </TabsTrigger>
+                <TabsTrigger value="workflow" className="gap-1.5">
+                  <GitBranch className="h-3.5 w-3.5" />
+                  <span>Workflow</span>
+                </TabsTrigger>
+                <TabsTrigger value="emails" className="gap-1.5">
+                  <Mail className="h-3.5 w-3.5" />
+                  <span>Emails</span>
+                </TabsTrigger>
+                <TabsTrigger value="team" className="gap-1.5">
+                  <Users className="h-3.5 w-3.5" />
+                  <span>Team</span>
+                </TabsTrigger>
+                <TabsTrigger value="referrals" className="gap-1.5">
+                  <Gift className="h-3.5 w-3.5" />
+                  <span>Referrals</span>
+                </TabsTrigger>
                 <TabsTrigger value="security" className="gap-1.5">
                   <Shield className="h-3.5 w-3.5" />
                   <span>Security</span>
@@ -166,6 +195,22 @@ export default function SettingsPage() {
                 <BusinessTab designer={designer} onUpdate={setDesigner} />
               </TabsContent>
 
+              <TabsContent value="workflow">
+                <WorkflowEditor />
+              </TabsContent>
+
+              <TabsContent value="emails">
+                <ClientEmailSettings />
+              </TabsContent>
+
+              <TabsContent value="team">
+                <TeamManager />
+              </TabsContent>
+
+              <TabsContent value="referrals">
+                <ReferralDashboard />
+              </TabsContent>
+
               <TabsContent value="security">
                 <SecurityTab />
               </TabsContent>
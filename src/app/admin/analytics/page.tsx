@@ -68,6 +68,7 @@ const PURPOSE_LABEL: Record<string, string> = {
   boost_post:   "Discover Boost",
   sms_pack:     "SMS Credits",
   studio_addon: "Studio Addon",
+  scan_credits: "Scan Credits",
 };
 
 const PIE_COLOURS = ["#C75B39", "#D4A853", "#7C3AED", "#10B981", "#F472B6"];
@@ -51,12 +51,21 @@ interface DesignerData {
   country?: string;
   subscription: "free" | "plus" | "pro";
   subscriptionExpiry?: string;
+  subscriptionBilling?: {
+    interval?: "monthly" | "annual";
+    autoRenew?: boolean;
+    status?: "active" | "past_due" | "cancelled";
+    failedAttempts?: number;
+    lastFailureReason?: string;
+  };
   publicProfile?: boolean;
   suspended?: boolean;
   suspendedAt?: string;
   suspendedReason?: string;
   smsBalance?: number;
   smsLifetimePurchased?: number;
+  scanCredits?: number;
+  scanCreditsLifetimePurchased?: number;
   studioAddon?: { expiresAt?: string; brandColor?: string; logoUrl?: string };
   isVerified?: boolean;
   isOnboarded?: boolean;
@@ -232,12 +241,37 @@ export default function AdminDesignerDetailPage() {
             tone={designer.subscription === "pro" ? "gold" : designer.subscription === "plus" ? "primary" : "neutral"}
             warning={subscriptionExpired}
           />
+          {designer.subscription !== "free" && designer.subscriptionBilling && (
+            <PlanRow
+              label="Renewal"
+              primary={
+                designer.subscriptionBilling.autoRenew
+                  ? `Card auto-renew · ${designer.subscriptionBilling.interval ?? "monthly"}`
+                  : `Manual · ${designer.subscriptionBilling.interval ?? "monthly"}`
+              }
+              secondary={
+                designer.subscriptionBilling.status === "past_due"
+                  ? `Past due — ${designer.subscriptionBilling.failedAttempts ?? 1} failed charge(s)${
+                      designer.subscriptionBilling.lastFailureReason ? `: ${designer.subscriptionBilling.lastFailureReason}` : ""
+                    }`
+                  : undefined
+              }
+              tone="neutral"
+              warning={designer.subscriptionBilling.status === "past_due"}
+            />
+          )}
           <PlanRow
             label="SMS balance"
             primary={`${designer.smsBalance ?? 0}`}
             secondary={`Lifetime: ${designer.smsLifetimePurchased ?? 0}`}
             tone="neutral"
           />
+          <PlanRow
+            label="Scan credits"
+            primary={`${designer.scanCredits ?? 0}`}
+            secondary={`Lifetime: ${designer.scanCreditsLifetimePurchased ?? 0}`}
+            tone="neutral"
+          />
           <PlanRow
             label="Studio addon"
             primary={studioActive ? "Active" : "Inactive"}
@@ -458,6 +492,7 @@ function GrantsPanel({
 }) {
   const [busy, setBusy] = useState<string | null>(null);
   const [smsCount, setSmsCount] = useState(50);
+  const [scanCount, setScanCount] = useState(5);
   const [studioDays, setStudioDays] = useState(30);
   const [trialDays, setTrialDays] = useState(7);
   const [planId, setPlanId] = useState<"plus" | "pro">("plus");
@@ -547,6 +582,28 @@ function GrantsPanel({
           </button>
         </GrantBlock>
 
+        {/* Scan credits */}
+        <GrantBlock title="Free scan credits">
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              max={500}
+              value={scanCount}
+              onChange={(e) => setScanCount(parseInt(e.target.value) || 5)}
+              className="w-20 rounded-md border border-white/8 bg-black/30 px-2 py-1 text-xs text-white focus-visible:outline-none"
+            />
+            <span className="text-[10px] text-white/45">scans</span>
+          </div>
+          <button
+            onClick={() => send({ type: "scan_credits", count: scanCount })}
+            disabled={!!busy}
+            className="mt-2 w-full rounded-md bg-sky-500/20 px-3 py-1.5 text-xs font-semibold text-sky-200 hover:bg-sky-500/30 disabled:opacity-50"
+          >
+            Grant {scanCount} scan credits
+          </button>
+        </GrantBlock>
+
         {/* Studio */}
         <GrantBlock title="Studio addon">
           <div className="flex items-center gap-2">
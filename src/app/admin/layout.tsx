@@ -17,6 +17,7 @@ import {
   Compass,
   Megaphone,
   TrendingUp,
+  Gift,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { AdminNotificationBell } from "@/components/admin/admin-notification-bell";
@@ -26,6 +27,7 @@ const adminNavItems = [
   { label: "Analytics",  href: "/admin/analytics",  icon: TrendingUp },
   { label: "Payments",   href: "/admin/payments",   icon: Banknote },
   { label: "Designers",  href: "/admin/designers",  icon: Users },
+  { label: "Referrals",  href: "/admin/referrals",  icon: Gift },
   { label: "Orders",     href: "/admin/orders",     icon: Package },
   { label: "Discover",   href: "/admin/discover",   icon: Compass },
   { label: "Announce",   href: "/admin/announce",   icon: Megaphone },
@@ -28,7 +28,7 @@ interface AdminStats {
   designers: { total: number; newLast30: number; suspended: number; plans: Record<string, number> };
   clients:   { total: number };
   orders:    { total: number; thisMonth: number; totalRevenue: number; totalCollected: number };
-  scans:     { total: number; completedLast30: number };
+  scans:     { total: number; completedLast30: number; creditsInFloat: number };
   discover:  { featuredPosts: number; activeBoosts: number };
   addons:    { activeStudio: number; totalSmsBalance: number };
   payments:  { pending: number; verifiedThisMonth: number; manualRevenue: number; platformRevenue: number };
@@ -244,7 +244,7 @@ export default function AdminOverviewPage() {
             icon={<ScanLine className="h-5 w-5" />}
             label="Scan sessions"
             value={stats.scans.total}
-            sub={`${stats.scans.completedLast30} completed last 30d`}
+            sub={`${stats.scans.completedLast30} completed last 30d · ${stats.scans.creditsInFloat.toLocaleString("en-NG")} credits in float`}
             tone="primary"
           />
           <Tile
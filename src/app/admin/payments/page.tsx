@@ -33,7 +33,7 @@ import {
 
 interface AdminPayment {
   id: string;
-  purpose: "subscription" | "boost_post" | "sms_pack" | "studio_addon";
+  purpose: "subscription" | "boost_post" | "sms_pack" | "studio_addon" | "scan_credits";
   amount: number;
   reference: string;
   status: "pending" | "verified" | "rejected" | "refunded";
@@ -56,6 +56,7 @@ interface AdminPayment {
     businessName: string;
     subscription: string;
     smsBalance: number;
+    scanCredits: number;
   } | null;
 }
 
@@ -64,6 +65,7 @@ const PURPOSE_LABELS: Record<string, string> = {
   boost_post:   "Discover Boost",
   sms_pack:     "SMS Credits",
   studio_addon: "Studio Addon",
+  scan_credits: "Scan Credits",
 };
 
 const PURPOSE_COLOURS: Record<string, string> = {
@@ -71,6 +73,7 @@ const PURPOSE_COLOURS: Record<string, string> = {
   boost_post:   "bg-amber-500/15 text-amber-300",
   sms_pack:     "bg-emerald-500/15 text-emerald-300",
   studio_addon: "bg-rose-500/15 text-rose-300",
+  scan_credits: "bg-sky-500/15 text-sky-300",
 };
 
 function formatNGN(n: number) {
@@ -388,6 +391,7 @@ function PaymentRow({
               <p className="text-[10px] font-semibold uppercase tracking-wider text-white/40">Payload</p>
               <p className="mt-1 font-mono text-[11px] text-white/65">
                 {p.payload.planId ? `plan: ${p.payload.planId}` : ""}
+                {p.payload.interval ? ` (${p.payload.interval})` : ""}
                 {p.payload.packId ? `pack: ${p.payload.packId}` : ""}
                 {p.payload.orderId ? `order: ${String(p.payload.orderId).slice(0, 8)}…` : ""}
               </p>
@@ -473,6 +477,7 @@ function PaymentRow({
               <p className="mt-2 inline-flex items-center gap-1 rounded bg-white/5 px-1.5 py-0.5 text-[10px] text-white/55">
                 Plan: <span className="font-semibold text-white/75">{p.designer.subscription}</span>
                 {" · "}SMS bal: {p.designer.smsBalance}
+                {" · "}Scan credits: {p.designer.scanCredits}
               </p>
             </div>
           ) : (
@@ -0,0 +1,273 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { toast } from "sonner";
+import { Gift, Loader2, RefreshCw, ExternalLink, CheckCircle2, XCircle, Flag } from "lucide-react";
+
+interface AdminReferralDesigner {
+  id: string;
+  name: string;
+  businessName: string;
+  email: string;
+  phone: string;
+}
+
+interface AdminReferral {
+  id: string;
+  code: string;
+  status: "pending" | "rewarded" | "flagged" | "rejected";
+  flagReason?: string;
+  trigger?: "onboarding" | "payment" | "admin";
+  referrerReward: number;
+  refereeReward: number;
+  createdAt: string;
+  rewardedAt?: string;
+  referrer: AdminReferralDesigner | null;
+  referee: AdminReferralDesigner | null;
+}
+
+interface ReferralReport {
+  totals: Record<string, number>;
+  creditsGranted: { referrer: number; referee: number };
+  topReferrers: { designer: AdminReferralDesigner | null; rewarded: number; credits: number }[];
+  referrals: AdminReferral[];
+}
+
+const STATUSES = ["", "flagged", "pending", "rewarded", "rejected"];
+
+const STATUS_COLORS: Record<string, string> = {
+  pending: "bg-white/[0.06] text-white/55",
+  rewarded: "bg-emerald-500/15 text-emerald-300",
+  flagged: "bg-amber-500/15 text-amber-300",
+  rejected: "bg-red-500/15 text-red-300",
+};
+
+function formatDate(iso: string | null | undefined) {
+  if (!iso) return "—";
+  return new Date(iso).toLocaleDateString("en-NG", { day: "numeric", month: "short", year: "numeric" });
+}
+
+function DesignerCell({ label, d }: { label: string; d: AdminReferralDesigner | null }) {
+  return (
+    <div className="min-w-0">
+      <p className="text-[10px] font-semibold uppercase tracking-wide text-white/35">{label}</p>
+      {d ? (
+        <>
+          <Link
+            href={`/admin/designers/${d.id}`}
+            className="flex items-center gap-1 truncate text-xs font-semibold text-white hover:text-[#C75B39]"
+          >
+            {d.businessName || d.name}
+            <ExternalLink className="h-3 w-3 shrink-0" />
+          </Link>
+          <p className="truncate text-[10px] text-white/40">{d.email} · {d.phone}</p>
+        </>
+      ) : (
+        <p className="text-xs text-white/40">Deleted account</p>
+      )}
+    </div>
+  );
+}
+
+export default function AdminReferralsPage() {
+  const [report, setReport] = useState<ReferralReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState("");
+  const [actingId, setActingId] = useState<string | null>(null);
+
+  // Deep link from the bell: /admin/referrals?status=flagged
+  useEffect(() => {
+    const s = new URLSearchParams(window.location.search).get("status");
+    if (s && STATUSES.includes(s)) setStatus(s);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: "100" });
+      if (status) params.set("status", status);
+      const res = await fetch(`/api/admin/referrals?${params}`);
+      const json = await res.json();
+      if (json.success) setReport(json.data);
+      else if (res.status === 401) window.location.href = "/admin/login";
+      else toast.error(json.error || "Failed");
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  async function review(id: string, action: "approve" | "reject") {
+    setActingId(id);
+    try {
+      const res = await fetch(`/api/admin/referrals/${id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const json = await res.json();
+      if (!json.success) throw new Error(json.error || "Failed");
+      toast.success(json.data.message);
+      refresh();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed");
+    } finally {
+      setActingId(null);
+    }
+  }
+
+  const totals = report?.totals ?? {};
+
+  return (
+    <div className="space-y-5">
+      <header className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <div className="flex items-center gap-2">
+            <Gift className="h-5 w-5 text-[#C75B39]" />
+            <h1 className="text-2xl font-bold text-white">Referrals</h1>
+          </div>
+          <p className="mt-1 text-sm text-white/55">
+            Who&apos;s bringing designers in, what it has cost in scan credits, and referrals held for review.
+          </p>
+        </div>
+        <button
+          onClick={refresh}
+          disabled={loading}
+          className="inline-flex h-9 items-center gap-1.5 rounded-lg border border-white/8 bg-white/[0.04] px-3 text-xs font-medium text-white/65 hover:bg-white/[0.08]"
+        >
+          <RefreshCw className={`h-3.5 w-3.5 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </button>
+      </header>
+
+      {/* Totals */}
+      {report && (
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+          {[
+            { label: "Pending", value: totals.pending ?? 0 },
+            { label: "Rewarded", value: totals.rewarded ?? 0 },
+            { label: "Flagged", value: totals.flagged ?? 0 },
+            { label: "Rejected", value: totals.rejected ?? 0 },
+            {
+              label: "Credits granted",
+              value: report.creditsGranted.referrer + report.creditsGranted.referee,
+            },
+          ].map(({ label, value }) => (
+            <div key={label} className="rounded-2xl border border-white/8 bg-white/[0.02] p-4">
+              <p className="text-[10px] font-semibold uppercase tracking-wide text-white/40">{label}</p>
+              <p className="mt-1 text-xl font-bold text-white">{value.toLocaleString("en-NG")}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Top referrers */}
+      {report && report.topReferrers.length > 0 && (
+        <div className="rounded-2xl border border-white/8 bg-white/[0.02] p-4">
+          <p className="mb-3 text-[10px] font-semibold uppercase tracking-wider text-white/40">Top referrers</p>
+          <div className="space-y-2">
+            {report.topReferrers.map((t, i) => (
+              <div key={t.designer?.id ?? i} className="flex items-center justify-between gap-3 text-xs">
+                <span className="truncate text-white/85">
+                  {i + 1}. {t.designer ? t.designer.businessName || t.designer.name : "Deleted account"}
+                </span>
+                <span className="shrink-0 text-white/55">
+                  {t.rewarded} rewarded · {t.credits} credits
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Filter */}
+      <div className="rounded-2xl border border-white/8 bg-white/[0.02] p-4">
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value)}
+          className="rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white focus:outline-none"
+        >
+          {STATUSES.map((s) => (
+            <option key={s} value={s}>{s ? s.charAt(0).toUpperCase() + s.slice(1) : "All statuses"}</option>
+          ))}
+        </select>
+        <p className="mt-2 text-[11px] text-white/40">
+          {loading ? "Loading…" : `${report?.referrals.length ?? 0} referral${report?.referrals.length === 1 ? "" : "s"} shown`}
+        </p>
+      </div>
+
+      {/* Referrals */}
+      {loading ? (
+        <div className="flex items-center gap-2 rounded-2xl border border-white/8 bg-white/[0.02] p-8 text-sm text-white/55">
+          <Loader2 className="h-5 w-5 animate-spin" /> Loading referrals…
+        </div>
+      ) : !report || report.referrals.length === 0 ? (
+        <div className="rounded-2xl border border-white/8 bg-white/[0.02] p-10 text-center">
+          <Gift className="mx-auto h-9 w-9 text-white/20" />
+          <p className="mt-3 text-sm font-medium text-white/65">No referrals match this filter.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {report.referrals.map((r) => (
+            <motion.div
+              key={r.id}
+              initial={{ opacity: 0, y: 6 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="rounded-2xl border border-white/8 bg-white/[0.02] p-4 transition-colors hover:bg-white/[0.04]"
+            >
+              <div className="grid gap-3 lg:grid-cols-[1fr_1fr_200px_auto]">
+                <DesignerCell label="Referrer" d={r.referrer} />
+                <DesignerCell label="Joined" d={r.referee} />
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className={`rounded-full px-2 py-0.5 text-[10px] font-semibold ${STATUS_COLORS[r.status]}`}>
+                      {r.status}
+                    </span>
+                    <span className="font-mono text-[10px] text-white/40">{r.code}</span>
+                  </div>
+                  <p className="mt-1 text-[10px] text-white/40">
+                    Joined {formatDate(r.createdAt)}
+                    {r.rewardedAt && ` · rewarded ${formatDate(r.rewardedAt)} (${r.trigger})`}
+                  </p>
+                  {r.status === "rewarded" && (
+                    <p className="text-[10px] text-emerald-400">
+                      +{r.referrerReward} / +{r.refereeReward} credits
+                    </p>
+                  )}
+                  {r.flagReason && (
+                    <p className="mt-1 inline-flex items-center gap-1 text-[10px] text-amber-300">
+                      <Flag className="h-3 w-3" /> {r.flagReason}
+                    </p>
+                  )}
+                </div>
+                {r.status === "flagged" && (
+                  <div className="flex items-start gap-2">
+                    <button
+                      onClick={() => review(r.id, "approve")}
+                      disabled={actingId !== null}
+                      className="inline-flex items-center gap-1 rounded-lg bg-emerald-600 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-50"
+                    >
+                      {actingId === r.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <CheckCircle2 className="h-3.5 w-3.5" />}
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => review(r.id, "reject")}
+                      disabled={actingId !== null}
+                      className="inline-flex items-center gap-1 rounded-lg border border-red-500/30 px-3 py-1.5 text-xs font-semibold text-red-300 hover:bg-red-500/10 disabled:opacity-50"
+                    >
+                      <XCircle className="h-3.5 w-3.5" />
+                      Reject
+                    </button>
+                  </div>
+                )}
+              </div>
+            </motion.div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
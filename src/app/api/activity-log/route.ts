@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import dbConnect from "@/lib/db";
 import { ActivityLog } from "@/lib/models/activity-log";
+import { getWorkspace } from "@/lib/workspace";
 
 export async function GET(request: NextRequest) {
   try {
@@ -11,7 +12,8 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
 
-    const designerId = session.user.id;
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
     const { searchParams } = new URL(request.url);
 
     const entity = searchParams.get("entity") || "";
@@ -18,6 +18,7 @@ import { SUBSCRIPTION_PLANS } from "@/lib/constants";
 /*                                                                              */
 /*  Body shapes (one of):                                                       */
 /*    { type: "sms",           count: number,      reason?: string }          */
+/*    { type: "scan_credits",  count: number,      reason?: string }          */
 /*    { type: "subscription",  planId: "plus|pro", days?: number, reason? }   */
 /*    { type: "studio",        days?: number,      reason?: string }          */
 /*    { type: "trial_scans",   count: number,      reason?: string }          */
@@ -26,7 +27,7 @@ import { SUBSCRIPTION_PLANS } from "@/lib/constants";
 /* -------------------------------------------------------------------------- */
 
 interface GrantBody {
-  type: "sms" | "subscription" | "studio" | "trial_scans";
+  type: "sms" | "scan_credits" | "subscription" | "studio" | "trial_scans";
   count?: number;
   planId?: "plus" | "pro";
   days?: number;
@@ -84,6 +85,35 @@ export async function POST(
       return NextResponse.json({ success: true, data: { type: "sms", count } });
     }
 
+    /* -------- Scan-credits grant ---------------------------------------- */
+    if (body.type === "scan_credits") {
+      const count = Math.floor(Number(body.count));
+      if (!isFinite(count) || count <= 0 || count > 500) {
+        return NextResponse.json(
+          { success: false, error: "Count must be between 1 and 500" },
+          { status: 400 },
+        );
+      }
+      await Designer.findByIdAndUpdate(id, {
+        $inc: { scanCredits: count, scanCreditsLifetimePurchased: count },
+      });
+      await ActivityLog.create({
+        designerId: id,
+        action: "admin_grant_scan_credits",
+        entity: "settings",
+        details: `Admin granted ${count} scan credits — ${reason}`,
+        metadata: { count, reason, source: "admin_grant" },
+      });
+      Notification.create({
+        designerId: id,
+        type: "system",
+        title: `🎁 ${count} free scan credits added`,
+        message: `An admin gifted you AI scan credits. ${reason}`,
+        link: "/billing",
+      }).catch(() => {});
+      return NextResponse.json({ success: true, data: { type: "scan_credits", count } });
+    }
+
     /* -------- Trial-scans grant ----------------------------------------- */
     if (body.type === "trial_scans") {
       // We don't store an explicit trial counter — Free plan computes from
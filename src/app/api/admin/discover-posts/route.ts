@@ -3,6 +3,7 @@ import { verifyAdminToken } from "@/lib/admin-auth";
 import connectDB from "@/lib/db";
 import { Order } from "@/lib/models/order";
 import { Designer } from "@/lib/models/designer";
+import { firstThumbnail } from "@/lib/media-storage";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/admin/discover-posts                                              */
@@ -60,8 +61,7 @@ export async function GET(request: Request) {
             title: rr.title,
             garmentType: rr.garmentType,
             caption: rr.feedCaption ?? null,
-            heroImage:
-              ((rr.gallery as string[] | undefined) ?? [])[0] ?? null,
+            heroImage: firstThumbnail(rr.gallery as string[] | undefined),
             featuredAt: rr.featuredAt,
             boostedUntil: rr.boostedUntil ?? null,
             boostActive,
@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { verifyAdminToken } from "@/lib/admin-auth";
+import connectDB from "@/lib/db";
+import { Job } from "@/lib/models/job";
+import { retryDeadJob } from "@/lib/job-queue";
+
+/* -------------------------------------------------------------------------- */
+/*  /api/admin/jobs                                                             */
+/*                                                                              */
+/*  GET  ?status=dead — background jobs, dead-letter list by default;         */
+/*       pass ?status=all (or pending / running / completed) to widen it.     */
+/*  POST { jobId }    — put a dead job back on the queue with fresh attempts. */
+/* -------------------------------------------------------------------------- */
+
+export async function GET(request: Request) {
+  if (!(await verifyAdminToken())) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    await connectDB();
+    const { searchParams } = new URL(request.url);
+    const statusFilter = searchParams.get("status") || "dead";
+    const type = searchParams.get("type");
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "50", 10), 1), 200);
+
+    const query: Record<string, unknown> = {};
+    if (statusFilter !== "all") query.status = statusFilter;
+    if (type) query.type = type;
+
+    const [rows, counts] = await Promise.all([
+      Job.find(query).sort({ updatedAt: -1 }).limit(limit).lean(),
+      Job.aggregate<{ _id: string; count: number }>([
+        { $group: { _id: "$status", count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        jobs: rows.map((j) => ({
+          id: String(j._id),
+          type: j.type,
+          status: j.status,
+          payload: j.payload,
+          designerId: j.designerId ? String(j.designerId) : null,
+          idempotencyKey: j.idempotencyKey ?? null,
+          attempts: j.attempts,
+          maxAttempts: j.maxAttempts,
+          runAt: j.runAt,
+          lastError: j.lastError ?? null,
+          result: j.result ?? null,
+          createdAt: j.createdAt,
+          completedAt: j.completedAt ?? null,
+        })),
+        counts: Object.fromEntries(counts.map((c) => [c._id, c.count])),
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/admin/jobs error:", error);
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  if (!(await verifyAdminToken())) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = (await request.json()) as { jobId?: string };
+    if (!body.jobId) {
+      return NextResponse.json({ success: false, error: "jobId is required" }, { status: 400 });
+    }
+
+    await connectDB();
+    const retried = await retryDeadJob(body.jobId);
+    if (!retried) {
+      return NextResponse.json(
+        { success: false, error: "Job not found or not in the dead-letter list" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ success: true, data: { jobId: body.jobId } });
+  } catch (error) {
+    console.error("POST /api/admin/jobs error:", error);
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -57,6 +57,7 @@ export async function POST(
       amountNGN: payment.amount,
       payload: {
         planId:       payment.payload?.planId,
+        interval:     payment.payload?.interval,
         orderId:      payment.payload?.orderId,
         packId:       payment.payload?.packId,
         durationDays: payment.payload?.durationDays,
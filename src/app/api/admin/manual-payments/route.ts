@@ -3,6 +3,7 @@ import { verifyAdminToken } from "@/lib/admin-auth";
 import connectDB from "@/lib/db";
 import { ManualPayment } from "@/lib/models/manual-payment";
 import { Designer } from "@/lib/models/designer";
+import { signedMediaUrl } from "@/lib/media-storage";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/admin/manual-payments?status=pending                              */
@@ -35,7 +36,7 @@ export async function GET(request: Request) {
       new Set(rows.map((r) => String((r as unknown as Record<string, unknown>).designerId))),
     );
     const designers = await Designer.find({ _id: { $in: designerIds } })
-      .select("name email phone businessName subscription smsBalance")
+      .select("name email phone businessName subscription smsBalance scanCredits")
       .lean();
     const designerMap = new Map(
       designers.map((d) => [
@@ -57,7 +58,7 @@ export async function GET(request: Request) {
             reference: rr.reference,
             status: rr.status,
             payload: rr.payload,
-            proofImage: rr.proofImage,
+            proofImage: rr.proofImage ? signedMediaUrl(rr.proofImage as string) : undefined,
             senderName: rr.senderName,
             senderBank: rr.senderBank,
             designerNote: rr.designerNote,
@@ -76,6 +77,7 @@ export async function GET(request: Request) {
                   businessName: designer.businessName,
                   subscription: designer.subscription,
                   smsBalance: designer.smsBalance ?? 0,
+                  scanCredits: designer.scanCredits ?? 0,
                 }
               : null,
           };
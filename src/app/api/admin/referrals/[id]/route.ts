@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { Types } from "mongoose";
+import { verifyAdminToken } from "@/lib/admin-auth";
+import connectDB from "@/lib/db";
+import { reviewReferral } from "@/lib/referrals";
+
+/* -------------------------------------------------------------------------- */
+/*  POST /api/admin/referrals/[id]                                             */
+/*  Body: { action: "approve" | "reject" }                                      */
+/*                                                                              */
+/*  Settles a referral the fraud guard held back. Approving grants both      */
+/*  sides their scan credits exactly as an automatic reward would.           */
+/* -------------------------------------------------------------------------- */
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  if (!(await verifyAdminToken())) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    if (!Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: "Invalid id" }, { status: 400 });
+    }
+
+    const { action } = (await request.json()) as { action?: string };
+    if (action !== "approve" && action !== "reject") {
+      return NextResponse.json({ success: false, error: "Invalid action" }, { status: 400 });
+    }
+
+    await connectDB();
+    const result = await reviewReferral(id, action);
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.message },
+        { status: result.status },
+      );
+    }
+    return NextResponse.json({ success: true, data: { message: result.message } });
+  } catch (err) {
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : "Failed" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextResponse } from "next/server";
+import { verifyAdminToken } from "@/lib/admin-auth";
+import connectDB from "@/lib/db";
+import { Referral } from "@/lib/models/referral";
+import { Designer } from "@/lib/models/designer";
+
+/* -------------------------------------------------------------------------- */
+/*  GET /api/admin/referrals                                                   */
+/*                                                                              */
+/*  Referral programme report:                                                 */
+/*    • totals by status + scan credits handed out                            */
+/*    • top referrers by rewarded referrals                                    */
+/*    • recent referrals, filterable with ?status=pending|rewarded|flagged|   */
+/*      rejected and ?limit= (max 200)                                         */
+/* -------------------------------------------------------------------------- */
+
+const STATUSES = ["pending", "rewarded", "flagged", "rejected"];
+
+export async function GET(request: Request) {
+  if (!(await verifyAdminToken())) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    await connectDB();
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status");
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "100", 10), 1), 200);
+
+    const filter: Record<string, unknown> = {};
+    if (status && STATUSES.includes(status)) filter.status = status;
+
+    const [byStatus, credits, topReferrers, rows] = await Promise.all([
+      Referral.aggregate([{ $group: { _id: "$status", count: { $sum: 1 } } }]),
+      Referral.aggregate([
+        { $match: { status: "rewarded" } },
+        {
+          $group: {
+            _id: null,
+            referrer: { $sum: "$referrerReward" },
+            referee: { $sum: "$refereeReward" },
+          },
+        },
+      ]),
+      Referral.aggregate([
+        { $match: { status: "rewarded" } },
+        {
+          $group: {
+            _id: "$referrerId",
+            rewarded: { $sum: 1 },
+            credits: { $sum: "$referrerReward" },
+          },
+        },
+        { $sort: { rewarded: -1 } },
+        { $limit: 10 },
+      ]),
+      Referral.find(filter).sort({ createdAt: -1 }).limit(limit).lean(),
+    ]);
+
+    /* Hydrate referrer + referee names in one round-trip */
+    const designerIds = Array.from(
+      new Set([
+        ...rows.flatMap((r) => [String(r.referrerId), String(r.refereeId)]),
+        ...topReferrers.map((t: { _id: unknown }) => String(t._id)),
+      ]),
+    );
+    const designers = await Designer.find({ _id: { $in: designerIds } })
+      .select("name businessName email phone")
+      .lean();
+    const dMap = new Map(
+      designers.map((d) => [
+        String((d as unknown as Record<string, unknown>)._id),
+        d as unknown as Record<string, unknown>,
+      ]),
+    );
+    const who = (id: unknown) => {
+      const d = dMap.get(String(id));
+      return d
+        ? {
+            id: String(d._id),
+            name: d.name,
+            businessName: d.businessName,
+            email: d.email,
+            phone: d.phone,
+          }
+        : null;
+    };
+
+    const totals: Record<string, number> = { pending: 0, rewarded: 0, flagged: 0, rejected: 0 };
+    byStatus.forEach((s: { _id: string; count: number }) => {
+      if (s._id) totals[s._id] = s.count;
+    });
+    const c = (credits[0] as { referrer?: number; referee?: number } | undefined) ?? {};
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        totals,
+        creditsGranted: { referrer: c.referrer ?? 0, referee: c.referee ?? 0 },
+        topReferrers: topReferrers.map((t: { _id: unknown; rewarded: number; credits: number }) => ({
+          designer: who(t._id),
+          rewarded: t.rewarded,
+          credits: t.credits,
+        })),
+        referrals: rows.map((r) => ({
+          id: String(r._id),
+          code: r.code,
+          status: r.status,
+          flagReason: r.flagReason,
+          trigger: r.trigger,
+          referrerReward: r.referrerReward,
+          refereeReward: r.refereeReward,
+          createdAt: r.createdAt,
+          rewardedAt: r.rewardedAt,
+          referrer: who(r.referrerId),
+          referee: who(r.refereeId),
+        })),
+      },
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : "Failed" },
+      { status: 500 },
+    );
+  }
+}
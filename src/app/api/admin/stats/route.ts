@@ -47,6 +47,7 @@ export async function GET() {
       activeBoosts,
       activeStudioCount,
       smsBalanceAgg,
+      scanCreditsAgg,
       broadcastsThisMonth,
       totalActivity,
     ] = await Promise.all([
@@ -108,6 +109,9 @@ export async function GET() {
       Designer.aggregate([
         { $group: { _id: null, total: { $sum: "$smsBalance" } } },
       ]),
+      Designer.aggregate([
+        { $group: { _id: null, total: { $sum: "$scanCredits" } } },
+      ]),
       BroadcastJob.countDocuments({ createdAt: { $gte: startOfMonth } }),
       ActivityLog.countDocuments(),
     ]);
@@ -120,6 +124,7 @@ export async function GET() {
     const orderRevenue = orderRevenueAgg[0] || { totalRevenue: 0, totalCollected: 0 };
     const manualRevenue = (manualRevenueAgg[0] as Record<string, unknown> | undefined)?.total ?? 0;
     const totalSmsBalance = (smsBalanceAgg[0] as Record<string, unknown> | undefined)?.total ?? 0;
+    const totalScanCredits = (scanCreditsAgg[0] as Record<string, unknown> | undefined)?.total ?? 0;
 
     return NextResponse.json({
       success: true,
@@ -142,6 +147,7 @@ export async function GET() {
         scans: {
           total: totalScanSessions,
           completedLast30: completedScans30,
+          creditsInFloat: totalScanCredits,
         },
         discover: {
           featuredPosts,
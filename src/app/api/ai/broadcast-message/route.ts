@@ -7,6 +7,7 @@ import { ActivityLog, logActivity } from "@/lib/models/activity-log";
 import { loadDesignerForAction, getEffectivePlan } from "@/lib/access-control";
 import { checkSubscriptionLimit, AI_ASSIST_ACTIONS } from "@/lib/subscription";
 import { generateBroadcastMessage } from "@/lib/ai-broadcast";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  POST /api/ai/broadcast-message                                            */
@@ -22,7 +23,11 @@ export async function POST(request: Request) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "use_ai_assist");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const body = await request.json();
     const { segment, segmentDescription, goal, lang } = body as {
       segment?: string;
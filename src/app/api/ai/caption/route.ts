@@ -8,6 +8,7 @@ import { ActivityLog, logActivity } from "@/lib/models/activity-log";
 import { loadDesignerForAction, getEffectivePlan } from "@/lib/access-control";
 import { checkSubscriptionLimit, AI_ASSIST_ACTIONS } from "@/lib/subscription";
 import { generateCaption } from "@/lib/ai-caption";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  POST /api/ai/caption                                                      */
@@ -23,7 +24,11 @@ export async function POST(request: Request) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "use_ai_assist");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const body = await request.json();
     const { orderId } = body as { orderId?: string };
 
@@ -7,6 +7,7 @@ import { ActivityLog, logActivity } from "@/lib/models/activity-log";
 import { loadDesignerForAction, getEffectivePlan } from "@/lib/access-control";
 import { checkSubscriptionLimit, AI_ASSIST_ACTIONS } from "@/lib/subscription";
 import { generateQuotation } from "@/lib/ai-quotation";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 import type { MessageLanguage } from "@/lib/whatsapp";
 
 /* -------------------------------------------------------------------------- */
@@ -24,7 +25,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "use_ai_assist");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const body = await request.json();
     const {
       clientName,
@@ -1,12 +1,14 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import bcrypt from "bcryptjs";
 import crypto from "crypto";
 import connectDB from "@/lib/db";
 import { Designer } from "@/lib/models/designer";
 import { registerSchema } from "@/lib/validations";
 import { sendVerificationEmail } from "@/lib/email";
+import { isDeviceId, normaliseReferralCode, recordReferralSignup } from "@/lib/referrals";
+import { DEVICE_COOKIE, REFERRAL_COOKIE } from "@/lib/constants";
 
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
 
@@ -22,6 +24,12 @@ export async function POST(request: Request) {
 
     const { name, email, phone, password, businessName } = parsed.data;
 
+    // Referral: explicit code from the form wins over the ?ref= cookie
+    const referralCode =
+      normaliseReferralCode(parsed.data.referralCode) ||
+      normaliseReferralCode(request.cookies.get(REFERRAL_COOKIE)?.value);
+    const deviceId = request.cookies.get(DEVICE_COOKIE)?.value;
+
     await connectDB();
 
     // Check if email already exists
@@ -46,15 +54,24 @@ export async function POST(request: Request) {
       phone: phone.trim(),
       password: hashedPassword,
       businessName: businessName.trim(),
+      ...(isDeviceId(deviceId) && { deviceIds: [deviceId] }),
     });
 
+    if (referralCode) {
+      await recordReferralSignup({
+        refereeId: designer._id.toString(),
+        code: referralCode,
+        deviceId,
+      }).catch((err) => console.error("Referral signup error:", err));
+    }
+
     // Generate verification token and send verification email
     const verificationToken = crypto.randomBytes(32).toString("hex");
     designer.verificationToken = verificationToken;
     await designer.save();
     await sendVerificationEmail(designer.email, designer.name, verificationToken);
 
-    return NextResponse.json(
+    const response = NextResponse.json(
       {
         success: true,
         message: "Account created successfully",
@@ -66,6 +83,8 @@ export async function POST(request: Request) {
       },
       { status: 201 }
     );
+    response.cookies.delete(REFERRAL_COOKIE);
+    return response;
   } catch (error) {
     console.error("Registration error:", error);
     return NextResponse.json(
@@ -4,6 +4,18 @@ import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Designer } from "@/lib/models/designer";
 import { SUBSCRIPTION_PLANS } from "@/lib/constants";
+import { getSubscriptionPrice } from "@/lib/subscription";
+import { paystackPlanCode } from "@/lib/subscription-billing";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  POST /api/billing/checkout                                                 */
+/*                                                                              */
+/*  Body: { planId, interval?: "monthly" | "annual", autoRenew?: boolean }    */
+/*  With auto-renew and a Paystack plan code configured for the plan ×       */
+/*  interval, the charge also starts a Paystack subscription (see            */
+/*  lib/subscription-billing); otherwise it's a one-off payment.             */
+/* -------------------------------------------------------------------------- */
 
 export async function POST(request: Request) {
   try {
@@ -29,6 +41,7 @@ export async function POST(request: Request) {
 
     const body = await request.json();
     const { planId } = body;
+    const interval = body.interval === "annual" ? "annual" : "monthly";
 
     const plan = SUBSCRIPTION_PLANS.find((p) => p.id === planId);
     if (!plan || plan.price === 0) {
@@ -40,7 +53,11 @@ export async function POST(request: Request) {
 
     await connectDB();
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_billing");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const designer = await Designer.findById(designerId);
     if (!designer) {
       return NextResponse.json(
@@ -49,6 +66,9 @@ export async function POST(request: Request) {
       );
     }
 
+    const amount = getSubscriptionPrice(plan.id, interval);
+    const planCode = body.autoRenew === false ? undefined : paystackPlanCode(plan.id, interval);
+
     // Initialize Paystack transaction
     const paystackRes = await fetch(
       "https://api.paystack.co/transaction/initialize",
@@ -60,13 +80,17 @@ export async function POST(request: Request) {
         },
         body: JSON.stringify({
           email: designer.email,
-          amount: plan.price * 100, // Paystack uses kobo (NGN * 100)
+          amount: amount * 100, // Paystack uses kobo (NGN * 100)
           currency: "NGN",
+          ...(planCode ? { plan: planCode } : {}),
           callback_url: `${process.env.NEXT_PUBLIC_APP_URL || process.env.NEXTAUTH_URL || "http://localhost:3000"}/billing/callback`,
           metadata: {
             designerId: designer._id.toString(),
+            purpose: "subscription",
             planId: plan.id,
             planName: plan.name,
+            interval,
+            autoRenew: !!planCode,
           },
         }),
       }
@@ -90,6 +114,7 @@ export async function POST(request: Request) {
         authorizationUrl: paystackData.data.authorization_url,
         reference: paystackData.data.reference,
         accessCode: paystackData.data.access_code,
+        autoRenew: !!planCode,
       },
     });
   } catch (error) {
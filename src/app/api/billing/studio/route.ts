@@ -4,6 +4,7 @@ import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Designer } from "@/lib/models/designer";
 import { STUDIO_ADDON } from "@/lib/constants";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  POST /api/billing/studio                                                   */
@@ -18,10 +19,14 @@ import { STUDIO_ADDON } from "@/lib/constants";
 export async function POST() {
   try {
     const session = await getServerSession(authOptions);
-    const userId = (session?.user as { id?: string } | undefined)?.id;
-    if (!userId) {
+    if (!session?.user) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_billing");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
 
     const PAYSTACK_SECRET = process.env.PAYSTACK_SECRET_KEY;
     if (!PAYSTACK_SECRET) {
@@ -32,7 +37,7 @@ export async function POST() {
     }
 
     await connectDB();
-    const designer = await Designer.findById(userId).select("email").lean();
+    const designer = await Designer.findById(designerId).select("email").lean();
     if (!designer) {
       return NextResponse.json({ success: false, error: "Designer not found" }, { status: 404 });
     }
@@ -55,7 +60,7 @@ export async function POST() {
         callback_url: `${callbackBase}/settings?studio=success`,
         metadata: {
           purpose: "studio_addon",
-          designerId: userId,
+          designerId,
           durationDays: STUDIO_ADDON.durationDays,
         },
       }),
@@ -89,12 +94,13 @@ export async function POST() {
 export async function GET() {
   try {
     const session = await getServerSession(authOptions);
-    const userId = (session?.user as { id?: string } | undefined)?.id;
-    if (!userId) {
+    if (!session?.user) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
     await connectDB();
-    const designer = await Designer.findById(userId).select("studioAddon").lean();
+    const designer = await Designer.findById(designerId).select("studioAddon").lean();
     const studio = (designer as Record<string, unknown> | null)?.studioAddon as
       | { expiresAt?: Date | string; brandColor?: string; logoUrl?: string; customSlug?: string }
       | undefined;
@@ -127,13 +133,17 @@ export async function GET() {
 export async function PUT(request: Request) {
   try {
     const session = await getServerSession(authOptions);
-    const userId = (session?.user as { id?: string } | undefined)?.id;
-    if (!userId) {
+    if (!session?.user) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_settings");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
 
     await connectDB();
-    const designer = await Designer.findById(userId).select("studioAddon").lean();
+    const designer = await Designer.findById(designerId).select("studioAddon").lean();
     const studio = (designer as Record<string, unknown> | null)?.studioAddon as
       | { expiresAt?: Date | string }
       | undefined;
@@ -161,7 +171,7 @@ export async function PUT(request: Request) {
       const slug = body.customSlug.trim().toLowerCase().replace(/[^a-z0-9-]+/g, "-").slice(0, 32);
       if (slug && slug.length >= 3) {
         // Ensure uniqueness
-        const taken = await Designer.findOne({ "studioAddon.customSlug": slug, _id: { $ne: userId } }).lean();
+        const taken = await Designer.findOne({ "studioAddon.customSlug": slug, _id: { $ne: designerId } }).lean();
         if (taken) {
           return NextResponse.json(
             { success: false, error: "That URL is taken. Try another." },
@@ -178,7 +188,7 @@ export async function PUT(request: Request) {
       return NextResponse.json({ success: false, error: "Nothing to update" }, { status: 400 });
     }
 
-    await Designer.updateOne({ _id: userId }, { $set: update });
+    await Designer.updateOne({ _id: designerId }, { $set: update });
     return NextResponse.json({ success: true });
   } catch (err) {
     return NextResponse.json(
@@ -0,0 +1,134 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { Designer } from "@/lib/models/designer";
+import { SUBSCRIPTION_BILLING } from "@/lib/constants";
+import {
+  daysUntilSubscriptionExpiry,
+  getEffectivePlan,
+  isInGracePeriod,
+  type Plan,
+} from "@/lib/access-control";
+import { cancelAutoRenew, cardUpdateLink, paystackPlanCode } from "@/lib/subscription-billing";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  /api/billing/subscription                                                  */
+/*                                                                              */
+/*  GET  — how the workspace's plan renews: interval, auto-renew, grace      */
+/*         period, last failed charge, and which intervals can auto-renew.   */
+/*  POST — { action: "cancel" }       turn off auto-renew                     */
+/*         { action: "update_card" }  Paystack link to swap the card on file */
+/* -------------------------------------------------------------------------- */
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectDB();
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_billing");
+    if (denied) return denied;
+
+    const designer = await Designer.findById(workspace.designerId)
+      .select("subscription subscriptionExpiry subscriptionBilling")
+      .lean();
+    if (!designer) {
+      return NextResponse.json({ success: false, error: "Designer not found" }, { status: 404 });
+    }
+
+    const d = designer as unknown as {
+      subscription?: Plan;
+      subscriptionExpiry?: Date;
+      subscriptionBilling?: {
+        interval?: "monthly" | "annual";
+        autoRenew?: boolean;
+        status?: "active" | "past_due" | "cancelled";
+        paystackSubscriptionCode?: string;
+        nextPaymentDate?: Date;
+        failedAttempts?: number;
+        lastFailureAt?: Date;
+        lastFailureReason?: string;
+      };
+    };
+    const billing = d.subscriptionBilling ?? {};
+    const inGrace = isInGracePeriod(d);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        plan: d.subscription || "free",
+        effectivePlan: getEffectivePlan(d),
+        expiresAt: d.subscriptionExpiry ?? null,
+        daysLeft: daysUntilSubscriptionExpiry(d),
+        inGrace,
+        graceEndsAt: inGrace && d.subscriptionExpiry
+          ? new Date(new Date(d.subscriptionExpiry).getTime() + SUBSCRIPTION_BILLING.graceDays * 86_400_000)
+          : null,
+        graceDays: SUBSCRIPTION_BILLING.graceDays,
+        interval: billing.interval || "monthly",
+        autoRenew: !!billing.autoRenew,
+        status: billing.status || "active",
+        canUpdateCard: !!billing.paystackSubscriptionCode,
+        nextPaymentDate: billing.nextPaymentDate ?? null,
+        failedAttempts: billing.failedAttempts ?? 0,
+        lastFailureAt: billing.lastFailureAt ?? null,
+        lastFailureReason: billing.lastFailureReason ?? null,
+        autoRenewAvailable: {
+          plus: { monthly: !!paystackPlanCode("plus", "monthly"), annual: !!paystackPlanCode("plus", "annual") },
+          pro:  { monthly: !!paystackPlanCode("pro", "monthly"),  annual: !!paystackPlanCode("pro", "annual") },
+        },
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/billing/subscription error:", error);
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const action = body?.action;
+    if (action !== "cancel" && action !== "update_card") {
+      return NextResponse.json({ success: false, error: "Invalid action" }, { status: 400 });
+    }
+
+    await connectDB();
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_billing");
+    if (denied) return denied;
+
+    if (action === "cancel") {
+      const result = await cancelAutoRenew(workspace.designerId);
+      if (!result.ok) {
+        return NextResponse.json({ success: false, error: result.message }, { status: 409 });
+      }
+      return NextResponse.json({ success: true, data: { message: result.message } });
+    }
+
+    const link = await cardUpdateLink(workspace.designerId);
+    if (!link) {
+      return NextResponse.json(
+        { success: false, error: "There's no card subscription to update." },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json({ success: true, data: { link } });
+  } catch (error) {
+    console.error("POST /api/billing/subscription error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
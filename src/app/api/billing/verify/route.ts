@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
-import { Designer } from "@/lib/models/designer";
+import { activatePurchase } from "@/lib/activate-purchase";
+import { getWorkspace } from "@/lib/workspace";
 
 export async function GET(request: NextRequest) {
   try {
@@ -48,11 +49,11 @@ export async function GET(request: NextRequest) {
     }
 
     const { metadata } = data.data;
-    const { designerId, planId } = metadata || {};
-    const sessionUserId = (session.user as { id: string }).id;
+    const { designerId, planId, interval, autoRenew } = metadata || {};
+    const workspace = await getWorkspace(session.user.id);
 
-    // Ensure the session user matches
-    if (designerId !== sessionUserId) {
+    // Ensure the payment was for this workspace
+    if (designerId !== workspace.designerId) {
       return NextResponse.json(
         { success: false, error: "Session mismatch" },
         { status: 403 }
@@ -61,20 +62,27 @@ export async function GET(request: NextRequest) {
 
     await connectDB();
 
-    // Update subscription (backup in case webhook hasn't fired yet)
-    const subscriptionExpiry = new Date();
-    subscriptionExpiry.setDate(subscriptionExpiry.getDate() + 30);
-
-    await Designer.findByIdAndUpdate(designerId, {
-      subscription: planId,
-      subscriptionExpiry,
-      paystackCustomerId: data.data.customer?.customer_code,
+    // Activate (backup in case webhook hasn't fired yet — activation is
+    // idempotent per reference, so whichever arrives second is a no-op)
+    await activatePurchase({
+      designerId,
+      purpose: "subscription",
+      source: "paystack",
+      reference: data.data.reference,
+      amountNGN: data.data.amount / 100,
+      payload: {
+        planId,
+        interval,
+        paystackCustomerCode: data.data.customer?.customer_code,
+      },
     });
 
     return NextResponse.json({
       success: true,
       data: {
         planId,
+        interval: interval === "annual" ? "annual" : "monthly",
+        autoRenew: !!autoRenew,
         amount: data.data.amount / 100,
         reference: data.data.reference,
       },
@@ -4,12 +4,24 @@ import connectDB from "@/lib/db";
 import { activatePurchase, type PurchasePurpose } from "@/lib/activate-purchase";
 import { notifyAdmin } from "@/lib/admin-notify";
 import { Designer } from "@/lib/models/designer";
+import {
+  findDesignerForPaystack,
+  notifyExpiringCards,
+  planForPaystackCode,
+  recordRenewalFailure,
+  recordSubscriptionCreated,
+  recordSubscriptionStopped,
+} from "@/lib/subscription-billing";
 
 /* -------------------------------------------------------------------------- */
 /*  Paystack webhook — thin wrapper that hands off to activatePurchase().      */
-/*  All actual side-effects (subscription update, boost extension, SMS top   */
-/*  up, Studio activation) live in lib/activate-purchase.ts and are shared   */
-/*  with the manual-payment admin verify path.                                 */
+/*  All actual side-effects (subscription update, boost extension, SMS and    */
+/*  scan-credit top ups, Studio activation) live in lib/activate-purchase.ts */
+/*  and are shared with the manual-payment admin verify path.                 */
+/*                                                                              */
+/*  Subscription lifecycle events (created, renewal failed, cancelled, card  */
+/*  expiring) go to lib/subscription-billing. Anything else is acknowledged  */
+/*  and ignored.                                                               */
 /* -------------------------------------------------------------------------- */
 
 export async function POST(request: Request) {
@@ -28,8 +40,31 @@ export async function POST(request: Request) {
     }
 
     const event = JSON.parse(body);
-    if (event.event !== "charge.success") {
-      return NextResponse.json({ received: true });
+
+    switch (event.event) {
+      case "charge.success":
+        break;
+      case "subscription.create":
+        await connectDB();
+        return NextResponse.json({ received: true, matched: await recordSubscriptionCreated(event.data) });
+      case "invoice.payment_failed":
+        await connectDB();
+        return NextResponse.json({ received: true, matched: await recordRenewalFailure(event.data) });
+      case "subscription.not_renew":
+      case "subscription.disable":
+        await connectDB();
+        return NextResponse.json({
+          received: true,
+          matched: await recordSubscriptionStopped(event.data, event.event),
+        });
+      case "subscription.expiring_cards":
+        await connectDB();
+        return NextResponse.json({
+          received: true,
+          notified: await notifyExpiringCards(Array.isArray(event.data) ? event.data : []),
+        });
+      default:
+        return NextResponse.json({ received: true });
     }
 
     await connectDB();
@@ -37,10 +72,20 @@ export async function POST(request: Request) {
     const data = event.data;
     const metadata = data.metadata || {};
     const purpose = (metadata.purpose || "subscription") as PurchasePurpose;
-    const designerId: string | undefined = metadata.designerId;
+    let designerId: string | undefined = metadata.designerId;
     const reference: string = data.reference;
     const amountNGN: number = (data.amount ?? 0) / 100;
 
+    // Subscription renewals are charged by Paystack itself, so there's no
+    // metadata — the plan code and customer identify them instead
+    const renewal = metadata.planId ? null : planForPaystackCode(data.plan?.plan_code);
+    if (!designerId && renewal) {
+      designerId = (await findDesignerForPaystack({
+        subscriptionCode: data.subscription?.subscription_code,
+        customer: data.customer,
+      })) ?? undefined;
+    }
+
     if (!designerId) {
       console.error("Paystack webhook missing designerId metadata", metadata);
       return NextResponse.json({ received: true });
@@ -53,7 +98,8 @@ export async function POST(request: Request) {
       reference,
       amountNGN,
       payload: {
-        planId: metadata.planId,
+        planId: metadata.planId ?? renewal?.planId,
+        interval: metadata.interval ?? renewal?.interval,
         orderId: metadata.orderId,
         packId: metadata.packId,
         durationDays: metadata.durationDays
@@ -3,21 +3,24 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { BroadcastJob } from "@/lib/models/broadcast-job";
+import { getWorkspace } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/broadcast/history                                                 */
 /*                                                                              */
 /*  Past + cancelled broadcasts for the current designer, newest first.       */
-/*  Returns aggregate counters across all jobs.                                */
+/*  Returns aggregate counters across all jobs, and delivered / read counts  */
+/*  from the receipts of WhatsApp Cloud API broadcasts.                       */
 /* -------------------------------------------------------------------------- */
 
 export async function GET(request: Request) {
   try {
     const session = await getServerSession(authOptions);
-    const userId = (session?.user as { id?: string } | undefined)?.id;
-    if (!userId) {
+    if (!session?.user) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
 
     const { searchParams } = new URL(request.url);
     const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "30", 10), 1), 100);
@@ -25,7 +28,7 @@ export async function GET(request: Request) {
     await connectDB();
 
     const jobs = await BroadcastJob.find({
-      designerId: userId,
+      designerId,
       status: { $in: ["complete", "cancelled", "running"] },
     })
       .sort({ createdAt: -1 })
@@ -52,6 +55,9 @@ export async function GET(request: Request) {
         totalWA,
         jobs: jobs.map((j) => {
           const jj = j as unknown as Record<string, unknown>;
+          const recipients = (jj.recipients as { status?: string }[]) || [];
+          const count = (...statuses: string[]) =>
+            recipients.filter((r) => statuses.includes(r.status || "")).length;
           return {
             id: String(jj._id),
             segment: jj.segment,
@@ -65,6 +71,9 @@ export async function GET(request: Request) {
             recipientCount: jj.recipientCount ?? 0,
             sentCount: jj.sentCount ?? 0,
             failedCount: jj.failedCount ?? 0,
+            delivery: jj.delivery ?? "manual",
+            deliveredCount: count("delivered", "read"),
+            readCount: count("read"),
             status: jj.status,
           };
         }),
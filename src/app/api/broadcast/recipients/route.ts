@@ -5,6 +5,7 @@ import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Client } from "@/lib/models/client";
 import { Order } from "@/lib/models/order";
+import { getWorkspace } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/broadcast/recipients?segment=...                                  */
@@ -39,10 +40,11 @@ function hasUsablePhone(p: unknown): boolean {
 export async function GET(request: Request) {
   try {
     const session = await getServerSession(authOptions);
-    const userId = (session?.user as { id?: string } | undefined)?.id;
-    if (!userId) {
+    if (!session?.user) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
 
     const { searchParams } = new URL(request.url);
     const segment = (searchParams.get("segment") || "all").toLowerCase();
@@ -56,13 +58,13 @@ export async function GET(request: Request) {
     if (segment === "debtors") {
       // Distinct client IDs that have at least one unpaid/partial order
       const debtorIds = await Order.distinct("clientId", {
-        designerId: userId,
+        designerId,
         paymentStatus: { $in: ["unpaid", "partial"] },
         isDeleted: { $ne: true },
         status: { $ne: "cancelled" },
       });
       const clients = await Client.find({
-        designerId: userId,
+        designerId,
         _id: { $in: debtorIds },
       })
         .select("name phone gender")
@@ -88,12 +90,12 @@ export async function GET(request: Request) {
       const since = new Date(Date.now() - NINETY_DAYS_MS);
       // Get clients with a recent order to EXCLUDE
       const recentClientIds = await Order.distinct("clientId", {
-        designerId: userId,
+        designerId,
         createdAt: { $gte: since },
         isDeleted: { $ne: true },
       });
       const clients = await Client.find({
-        designerId: userId,
+        designerId,
         _id: { $nin: recentClientIds },
       })
         .select("name phone gender")
@@ -119,7 +121,7 @@ export async function GET(request: Request) {
 
       const counts: { _id: Types.ObjectId; n: number }[] = await Order.aggregate([
         { $match: {
-          designerId: new Types.ObjectId(userId),
+          designerId: new Types.ObjectId(designerId),
           isDeleted: { $ne: true },
           status: { $ne: "cancelled" },
         } },
@@ -131,7 +133,7 @@ export async function GET(request: Request) {
         } },
       ]);
       const ids = counts.map((c) => c._id);
-      const clients = await Client.find({ designerId: userId, _id: { $in: ids } })
+      const clients = await Client.find({ designerId, _id: { $in: ids } })
         .select("name phone gender")
         .sort({ name: 1 })
         .lean();
@@ -150,7 +152,7 @@ export async function GET(request: Request) {
     }
 
     /* --- Plain client filters (no order join needed) --- */
-    const filter: Record<string, unknown> = { designerId: userId };
+    const filter: Record<string, unknown> = { designerId };
     if (segment === "no-measure") filter.lastMeasuredAt = { $exists: false };
     if (segment === "female") filter.gender = "female";
     if (segment === "male") filter.gender = "male";
@@ -4,9 +4,11 @@ import { Types } from "mongoose";
 import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { BroadcastJob } from "@/lib/models/broadcast-job";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
-/*  GET /api/broadcast/schedule/[id] — full job with recipients (for resume)   */
+/*  GET /api/broadcast/schedule/[id] — full job with recipients (for resume,  */
+/*  and per-recipient delivery status in history)                              */
 /* -------------------------------------------------------------------------- */
 
 export async function GET(
@@ -15,10 +17,11 @@ export async function GET(
 ) {
   try {
     const session = await getServerSession(authOptions);
-    const userId = (session?.user as { id?: string } | undefined)?.id;
-    if (!userId) {
+    if (!session?.user) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
 
     const { id } = await params;
     if (!Types.ObjectId.isValid(id)) {
@@ -27,7 +30,7 @@ export async function GET(
 
     await connectDB();
 
-    const job = await BroadcastJob.findOne({ _id: id, designerId: userId }).lean();
+    const job = await BroadcastJob.findOne({ _id: id, designerId }).lean();
     if (!job) {
       return NextResponse.json({ success: false, error: "Not found" }, { status: 404 });
     }
@@ -47,12 +50,15 @@ export async function GET(
         recipientCount: j.recipientCount ?? 0,
         sentCount: j.sentCount ?? 0,
         failedCount: j.failedCount ?? 0,
+        delivery: j.delivery ?? "manual",
         recipients: recipients.map((r) => ({
           _id: String(r.clientId),
           name: r.name as string,
           phone: r.phone as string,
           gender: "",
           sent: !!r.sent,
+          status: (r.status as string) || "queued",
+          error: (r.error as string) || null,
         })),
       },
     });
@@ -74,10 +80,14 @@ export async function DELETE(
 ) {
   try {
     const session = await getServerSession(authOptions);
-    const userId = (session?.user as { id?: string } | undefined)?.id;
-    if (!userId) {
+    if (!session?.user) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "message_clients");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
 
     const { id } = await params;
     if (!Types.ObjectId.isValid(id)) {
@@ -86,9 +96,15 @@ export async function DELETE(
 
     await connectDB();
 
-    // Only pending or ready jobs can be cancelled — running / complete are immutable.
+    // Only pending or ready jobs can be cancelled — running / complete are
+    // immutable, except a Cloud API broadcast between batches (e.g. waiting
+    // for the daily WhatsApp limit), which stops before its next batch.
     const job = await BroadcastJob.findOneAndUpdate(
-      { _id: id, designerId: userId, status: { $in: ["pending", "ready"] } },
+      {
+        _id: id,
+        designerId,
+        $or: [{ status: { $in: ["pending", "ready"] } }, { delivery: "cloud", status: "running" }],
+      },
       { $set: { status: "cancelled", completedAt: new Date() } },
       { new: true },
     );
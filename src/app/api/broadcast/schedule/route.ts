@@ -6,6 +6,8 @@ import connectDB from "@/lib/db";
 import { Client } from "@/lib/models/client";
 import { BroadcastJob } from "@/lib/models/broadcast-job";
 import { loadDesignerForAction } from "@/lib/access-control";
+import { enqueueBroadcastJob } from "@/lib/job-handlers";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  /api/broadcast/schedule                                                    */
@@ -23,10 +25,14 @@ const MAX_RECIPIENTS = 200;
 export async function POST(request: Request) {
   try {
     const session = await getServerSession(authOptions);
-    const userId = (session?.user as { id?: string } | undefined)?.id;
-    if (!userId) {
+    if (!session?.user) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "message_clients");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
 
     const body = (await request.json()) as {
       recipientIds?: string[];
@@ -74,7 +80,7 @@ export async function POST(request: Request) {
 
     await connectDB();
 
-    const gate = await loadDesignerForAction(userId);
+    const gate = await loadDesignerForAction(designerId);
     if (!gate.ok) {
       return NextResponse.json(
         { success: false, error: gate.message, suspended: gate.reason === "suspended" },
@@ -85,7 +91,7 @@ export async function POST(request: Request) {
     // Snapshot recipient names + phones so a renamed/deleted client later
     // doesn't break the scheduled send.
     const clients = await Client.find({
-      designerId: userId,
+      designerId,
       _id: { $in: recipientIds },
     })
       .select("name phone")
@@ -95,7 +101,7 @@ export async function POST(request: Request) {
     }
 
     const job = await BroadcastJob.create({
-      designerId: userId,
+      designerId,
       segment,
       message,
       language,
@@ -112,11 +118,13 @@ export async function POST(request: Request) {
       }),
       recipientCount: clients.length,
     });
+    const jobId = String((job as unknown as { _id: Types.ObjectId })._id);
+    await enqueueBroadcastJob(jobId, designerId, scheduledFor);
 
     return NextResponse.json({
       success: true,
       data: {
-        jobId: String((job as unknown as { _id: Types.ObjectId })._id),
+        jobId,
         scheduledFor: scheduledFor.toISOString(),
         recipientCount: clients.length,
         channel,
@@ -133,15 +141,16 @@ export async function POST(request: Request) {
 export async function GET() {
   try {
     const session = await getServerSession(authOptions);
-    const userId = (session?.user as { id?: string } | undefined)?.id;
-    if (!userId) {
+    if (!session?.user) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
 
     await connectDB();
 
     const jobs = await BroadcastJob.find({
-      designerId: userId,
+      designerId,
       status: { $in: ["pending", "ready"] },
     })
       .sort({ scheduledFor: 1 })
@@ -9,6 +9,7 @@ import { Outreach } from "@/lib/models/outreach";
 import { BroadcastJob } from "@/lib/models/broadcast-job";
 import { sendSMS } from "@/lib/sms";
 import { loadDesignerForAction } from "@/lib/access-control";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  POST /api/broadcast/sms                                                    */
@@ -29,10 +30,14 @@ const MAX_RECIPIENTS = 200; // safety cap on batch size
 export async function POST(request: Request) {
   try {
     const session = await getServerSession(authOptions);
-    const userId = (session?.user as { id?: string } | undefined)?.id;
-    if (!userId) {
+    if (!session?.user) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "message_clients");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
 
     const body = (await request.json()) as {
       recipientIds?: string[];
@@ -63,7 +68,7 @@ export async function POST(request: Request) {
 
     await connectDB();
 
-    const gate = await loadDesignerForAction(userId);
+    const gate = await loadDesignerForAction(designerId);
     if (!gate.ok) {
       return NextResponse.json(
         { success: false, error: gate.message, suspended: gate.reason === "suspended" },
@@ -73,7 +78,7 @@ export async function POST(request: Request) {
 
     const validIds = recipientIds.filter((id) => Types.ObjectId.isValid(id));
     const clients = await Client.find({
-      designerId: userId,
+      designerId,
       _id: { $in: validIds },
     })
       .select("name phone")
@@ -87,12 +92,12 @@ export async function POST(request: Request) {
 
     /* Atomic balance reservation — only proceeds if we have enough credits */
     const reserved = await Designer.findOneAndUpdate(
-      { _id: userId, smsBalance: { $gte: required } },
+      { _id: designerId, smsBalance: { $gte: required } },
       { $inc: { smsBalance: -required } },
       { new: false, projection: { smsBalance: 1 } },
     );
     if (!reserved) {
-      const designer = await Designer.findById(userId).select("smsBalance").lean();
+      const designer = await Designer.findById(designerId).select("smsBalance").lean();
       const balance = ((designer as Record<string, unknown> | null)?.smsBalance as number) ?? 0;
       return NextResponse.json(
         {
@@ -108,7 +113,7 @@ export async function POST(request: Request) {
 
     /* History row — created up front so the job lifecycle is observable */
     const job = await BroadcastJob.create({
-      designerId: userId,
+      designerId,
       segment,
       message,
       language,
@@ -147,9 +152,9 @@ export async function POST(request: Request) {
         sent++;
         // Log outreach (best-effort, don't fail the broadcast on log errors)
         Outreach.create({
-          designerId: userId,
+          designerId,
           clientId: cc._id,
-          type: "whatsapp", // existing enum doesn't have "sms"; use whatsapp as the engagement-tracking proxy
+          type: "sms",
           message: personal.slice(0, 280),
         }).catch(() => { /* ignore */ });
       } else {
@@ -163,7 +168,7 @@ export async function POST(request: Request) {
     /* Refund credits for any messages that failed to send */
     const failed = clients.length - sent;
     if (failed > 0) {
-      await Designer.updateOne({ _id: userId }, { $inc: { smsBalance: failed } });
+      await Designer.updateOne({ _id: designerId }, { $inc: { smsBalance: failed } });
     }
 
     /* Close out the history row */
@@ -175,7 +180,7 @@ export async function POST(request: Request) {
       completedAt: new Date(),
     });
 
-    const after = await Designer.findById(userId).select("smsBalance").lean();
+    const after = await Designer.findById(designerId).select("smsBalance").lean();
     const remaining = ((after as unknown as Record<string, unknown> | null)?.smsBalance as number) ?? 0;
 
     return NextResponse.json({
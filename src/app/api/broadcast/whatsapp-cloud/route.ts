@@ -0,0 +1,182 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { Types } from "mongoose";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { Client } from "@/lib/models/client";
+import { Designer } from "@/lib/models/designer";
+import { BroadcastJob } from "@/lib/models/broadcast-job";
+import { loadDesignerForAction } from "@/lib/access-control";
+import { enqueueBroadcastJob } from "@/lib/job-handlers";
+import { isCloudApiConfigured } from "@/lib/whatsapp-cloud";
+import {
+  WHATSAPP_BROADCAST_TEMPLATES,
+  findBroadcastTemplate,
+  messagingTierLimit,
+  templatePreview,
+} from "@/lib/whatsapp-broadcast";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  /api/broadcast/whatsapp-cloud                                              */
+/*                                                                              */
+/*  GET  — is server-side WhatsApp sending available, and which approved      */
+/*         templates can be used                                               */
+/*                                                                              */
+/*  POST — queue a WhatsApp broadcast sent from the business number          */
+/*    Body: { recipientIds, template, message, segment, language,            */
+/*            scheduledFor? }                                                  */
+/*    Without scheduledFor the broadcast.send job runs on the next tick.     */
+/*    Recipients are snapshotted now, like /api/broadcast/schedule.          */
+/* -------------------------------------------------------------------------- */
+
+const MAX_RECIPIENTS = 200;
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      enabled: isCloudApiConfigured(),
+      dailyLimit: Number.isFinite(messagingTierLimit()) ? messagingTierLimit() : null,
+      templates: WHATSAPP_BROADCAST_TEMPLATES.map((t) => ({
+        name: t.name,
+        label: t.label,
+        description: t.description,
+        usesMessage: t.params.includes("message"),
+        preview: templatePreview(t, {}),
+      })),
+    },
+  });
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "message_clients");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
+
+    if (!isCloudApiConfigured()) {
+      return NextResponse.json(
+        { success: false, error: "WhatsApp sending isn't set up. Use the WhatsApp queue instead." },
+        { status: 503 },
+      );
+    }
+
+    const body = (await request.json()) as {
+      recipientIds?: string[];
+      template?: string;
+      message?: string;
+      segment?: string;
+      language?: "english" | "pidgin";
+      scheduledFor?: string;
+    };
+
+    const recipientIds = Array.isArray(body.recipientIds)
+      ? body.recipientIds.filter((id) => Types.ObjectId.isValid(id))
+      : [];
+    const template = findBroadcastTemplate(body.template);
+    const message = (body.message || "").trim();
+    const language = body.language === "pidgin" ? "pidgin" : "english";
+    const segment = (body.segment || "all").trim();
+    const scheduledFor = body.scheduledFor ? new Date(body.scheduledFor) : null;
+
+    if (recipientIds.length === 0) {
+      return NextResponse.json({ success: false, error: "No recipients" }, { status: 400 });
+    }
+    if (recipientIds.length > MAX_RECIPIENTS) {
+      return NextResponse.json(
+        { success: false, error: `Maximum ${MAX_RECIPIENTS} recipients per broadcast.` },
+        { status: 400 },
+      );
+    }
+    if (!template) {
+      return NextResponse.json({ success: false, error: "Pick a WhatsApp template." }, { status: 400 });
+    }
+    if (template.params.includes("message") && (message.length < 5 || message.length > 480)) {
+      return NextResponse.json(
+        { success: false, error: "Message must be 5-480 characters." },
+        { status: 400 },
+      );
+    }
+    if (scheduledFor && (isNaN(scheduledFor.getTime()) || scheduledFor.getTime() < Date.now() + 5 * 60 * 1000)) {
+      return NextResponse.json(
+        { success: false, error: "Schedule at least 5 minutes from now." },
+        { status: 400 },
+      );
+    }
+
+    await connectDB();
+
+    const gate = await loadDesignerForAction(designerId);
+    if (!gate.ok) {
+      return NextResponse.json(
+        { success: false, error: gate.message, suspended: gate.reason === "suspended" },
+        { status: gate.status },
+      );
+    }
+
+    const clients = await Client.find({
+      designerId,
+      _id: { $in: recipientIds },
+      phone: { $nin: [null, ""] },
+    })
+      .select("name phone")
+      .lean();
+    if (clients.length === 0) {
+      return NextResponse.json({ success: false, error: "No valid recipients" }, { status: 400 });
+    }
+
+    // The template's own text is what history shows when the designer's
+    // message isn't part of it.
+    const designer = await Designer.findById(designerId).select("name businessName").lean();
+    const business = designer?.businessName || designer?.name;
+    const job = await BroadcastJob.create({
+      designerId,
+      segment,
+      message: template.params.includes("message") ? message : templatePreview(template, { business }),
+      language,
+      channel: "whatsapp",
+      delivery: "cloud",
+      template: template.name,
+      scheduledFor,
+      status: "pending",
+      recipients: clients.map((c) => {
+        const cc = c as unknown as { _id: Types.ObjectId; name?: string; phone?: string };
+        return {
+          clientId: cc._id,
+          name: cc.name || "",
+          phone: cc.phone || "",
+        };
+      }),
+      recipientCount: clients.length,
+    });
+    const jobId = String((job as unknown as { _id: Types.ObjectId })._id);
+    await enqueueBroadcastJob(jobId, designerId, scheduledFor || new Date());
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        jobId,
+        scheduledFor: scheduledFor ? scheduledFor.toISOString() : null,
+        recipientCount: clients.length,
+        channel: "whatsapp",
+      },
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : "Failed" },
+      { status: 500 },
+    );
+  }
+}
@@ -5,6 +5,7 @@ import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Outreach } from "@/lib/models/outreach";
 import { BroadcastJob } from "@/lib/models/broadcast-job";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  /api/broadcast/whatsapp-log                                                */
@@ -22,10 +23,14 @@ import { BroadcastJob } from "@/lib/models/broadcast-job";
 export async function POST(request: Request) {
   try {
     const session = await getServerSession(authOptions);
-    const userId = (session?.user as { id?: string } | undefined)?.id;
-    if (!userId) {
+    if (!session?.user) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "message_clients");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
 
     const body = (await request.json()) as {
       segment?: string;
@@ -45,7 +50,7 @@ export async function POST(request: Request) {
     await connectDB();
 
     const job = await BroadcastJob.create({
-      designerId: userId,
+      designerId,
       segment: (body.segment || "all").trim(),
       message: body.message.trim(),
       language: body.language === "pidgin" ? "pidgin" : "english",
@@ -76,10 +81,14 @@ export async function POST(request: Request) {
 export async function PUT(request: Request) {
   try {
     const session = await getServerSession(authOptions);
-    const userId = (session?.user as { id?: string } | undefined)?.id;
-    if (!userId) {
+    if (!session?.user) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "message_clients");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
 
     const body = (await request.json()) as {
       jobId?: string;
@@ -99,7 +108,7 @@ export async function PUT(request: Request) {
 
     const job = await BroadcastJob.findOne({
       _id: jobId,
-      designerId: userId,
+      designerId,
     });
     if (!job) {
       return NextResponse.json({ success: false, error: "Job not found" }, { status: 404 });
@@ -120,7 +129,7 @@ export async function PUT(request: Request) {
 
     // Engagement signal for Heartbeat (best-effort)
     Outreach.create({
-      designerId: userId,
+      designerId,
       clientId,
       type: "whatsapp",
       message: (body.message || "").slice(0, 280),
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { CalendarEvent } from "@/lib/models/calendar-event";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/calendar                                                          */
@@ -16,7 +17,8 @@ export async function GET(request: Request) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
     const { searchParams } = new URL(request.url);
 
     await connectDB();
@@ -64,7 +66,11 @@ export async function POST(request: Request) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "edit_order");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const body = await request.json();
     const { title, date, type, orderId, notes, color } = body;
 
@@ -116,7 +122,11 @@ export async function PUT(request: Request) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "edit_order");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const body = await request.json();
     const { id, title, date, notes, color } = body;
 
@@ -164,7 +174,11 @@ export async function DELETE(request: Request) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "edit_order");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const { searchParams } = new URL(request.url);
     const id = searchParams.get("id");
 
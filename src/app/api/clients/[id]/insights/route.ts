@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Order } from "@/lib/models/order";
+import { getWorkspace } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/clients/[id]/insights                                            */
@@ -22,7 +23,8 @@ export async function GET(
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
     const { id: clientId } = await params;
 
     await connectDB();
@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { Client } from "@/lib/models/client";
+import { Order } from "@/lib/models/order";
+import {
+  buildTimeline,
+  describeChange,
+  diffMeasurements,
+  snapshotAt,
+  type MeasurementSnapshot,
+} from "@/lib/measurement-history";
+import { getWorkspace } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  GET /api/clients/[id]/measurements/changes                                */
+/*  Large measurement changes since the client's last order — the new-order   */
+/*  form shows these as "Waist +2.5in since March — re-measure?".             */
+/*                                                                              */
+/*  The baseline is the snapshot the last order was cut from (its first line  */
+/*  carrying one); orders from before line snapshots fall back to whatever    */
+/*  was current when the order was created.                                   */
+/* -------------------------------------------------------------------------- */
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
+    const { id } = await params;
+
+    await connectDB();
+
+    const client = await Client.findOne(
+      { _id: id, designerId },
+      { measurements: 1, measurementHistory: 1 }
+    ).lean();
+    if (!client) {
+      return NextResponse.json(
+        { success: false, error: "Client not found" },
+        { status: 404 }
+      );
+    }
+
+    const empty = { lastOrder: null, baseline: null, current: null, changes: [], alerts: [] };
+    const timeline = buildTimeline(client.measurements, client.measurementHistory || []);
+    const current = timeline[timeline.length - 1];
+    if (!current) return NextResponse.json({ success: true, data: empty });
+
+    const lastOrder = await Order.findOne({
+      clientId: id,
+      designerId,
+      isDeleted: { $ne: true },
+      status: { $ne: "cancelled" },
+    })
+      .select("title createdAt items.measurements items.measuredAt")
+      .sort({ createdAt: -1 })
+      .lean();
+    if (!lastOrder) return NextResponse.json({ success: true, data: empty });
+
+    const order = lastOrder as unknown as {
+      _id: unknown;
+      title: string;
+      createdAt: Date;
+      items?: { measurements?: Record<string, unknown>; measuredAt?: Date }[];
+    };
+    const line = (order.items || []).find((i) => i.measurements);
+    const [lineSnapshot] = line?.measurements
+      ? buildTimeline({ ...line.measurements, measuredAt: line.measuredAt ?? line.measurements.measuredAt })
+      : [];
+    const baseline: MeasurementSnapshot | null = lineSnapshot ?? snapshotAt(timeline, order.createdAt);
+
+    const changes = baseline && baseline.measuredAt !== current.measuredAt
+      ? diffMeasurements(baseline.values, current.values).filter((c) => c.significant)
+      : [];
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        lastOrder: { _id: String(order._id), title: order.title, createdAt: order.createdAt },
+        baseline: baseline ? { measuredAt: baseline.measuredAt } : null,
+        current: { measuredAt: current.measuredAt, source: current.source },
+        changes,
+        alerts: baseline ? changes.map((c) => describeChange(c, baseline.measuredAt)) : [],
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/clients/[id]/measurements/changes error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { Client } from "@/lib/models/client";
+import { buildTimeline, diffMeasurements } from "@/lib/measurement-history";
+import { getWorkspace } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  GET /api/clients/[id]/measurements/diff?from=<id>&to=<id>                 */
+/*  Per-field differences (inches and cm) between two measurement snapshots. */
+/*  Snapshot ids are the ISO measuredAt values listed in `snapshots`.         */
+/*  Defaults: to = latest, from = the one before it.                          */
+/* -------------------------------------------------------------------------- */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const { id } = await params;
+
+    await connectDB();
+
+    const client = await Client.findOne(
+      { _id: id, designerId: workspace.designerId },
+      { measurements: 1, measurementHistory: 1 }
+    ).lean();
+    if (!client) {
+      return NextResponse.json(
+        { success: false, error: "Client not found" },
+        { status: 404 }
+      );
+    }
+
+    const timeline = buildTimeline(client.measurements, client.measurementHistory || []);
+    const snapshots = timeline.map(({ id: snapId, measuredAt, source }) => ({ id: snapId, measuredAt, source }));
+    if (timeline.length < 2) {
+      return NextResponse.json({
+        success: true,
+        data: { snapshots, from: null, to: null, changes: [] },
+      });
+    }
+
+    const find = (key: string | null) => (key ? timeline.find((s) => s.id === key) : undefined);
+    const fromKey = request.nextUrl.searchParams.get("from");
+    const toKey = request.nextUrl.searchParams.get("to");
+    if ((fromKey && !find(fromKey)) || (toKey && !find(toKey))) {
+      return NextResponse.json(
+        { success: false, error: "Snapshot not found" },
+        { status: 404 }
+      );
+    }
+    const to = find(toKey) ?? timeline[timeline.length - 1];
+    const from = find(fromKey) ?? timeline[Math.max(0, timeline.indexOf(to) - 1)];
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        snapshots,
+        from: { id: from.id, measuredAt: from.measuredAt, source: from.source },
+        to: { id: to.id, measuredAt: to.measuredAt, source: to.source },
+        changes: diffMeasurements(from.values, to.values),
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/clients/[id]/measurements/diff error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,7 @@ import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Client } from "@/lib/models/client";
 import { measurementSchema } from "@/lib/validations";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/clients/[id]/measurements                                        */
@@ -24,7 +25,8 @@ export async function GET(
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
     const { id } = await params;
 
     await connectDB();
@@ -77,7 +79,11 @@ export async function POST(
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "edit_client");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const { id } = await params;
     const body = await request.json();
 
@@ -169,7 +175,11 @@ export async function PUT(
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "edit_client");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const { id } = await params;
     const body = await request.json();
     const { adjustments, approve } = body;
@@ -3,9 +3,9 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Client } from "@/lib/models/client";
-import { Order } from "@/lib/models/order";
 import { clientSchema } from "@/lib/validations";
-import { logActivity } from "@/lib/models/activity-log";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+import { deleteClientRecord } from "@/lib/record-writes";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/clients/[id]                                                     */
@@ -26,7 +26,8 @@ export async function GET(
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
     const { id } = await params;
 
     await connectDB();
@@ -72,7 +73,11 @@ export async function PUT(
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "edit_client");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const { id } = await params;
     const body = await request.json();
 
@@ -107,6 +112,13 @@ export async function PUT(
       updateData.notes = body.notes;
     }
 
+    // Order emails on/off. Turning them back on clears a self-unsubscribe —
+    // the designer is acting on the client's say-so.
+    if (typeof body.emailUpdates === "boolean") {
+      updateData.emailUpdates = body.emailUpdates;
+      if (body.emailUpdates) updateData.emailUnsubscribedAt = null;
+    }
+
     if (Object.keys(updateData).length === 0) {
       return NextResponse.json(
         { success: false, error: "No valid fields to update" },
@@ -160,7 +172,11 @@ export async function DELETE(
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "delete_client");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const { id } = await params;
 
     await connectDB();
@@ -176,21 +192,7 @@ export async function DELETE(
     }
 
     // Soft-delete related orders, hard-delete the client
-    // NOTE: lifetime client counter is NOT decremented — this is intentional to prevent tier-gaming
-    await Promise.all([
-      Order.updateMany({ clientId: id }, { $set: { isDeleted: true, deletedAt: new Date() } }),
-      Client.deleteOne({ _id: id }),
-    ]);
-
-    // Audit log
-    logActivity({
-      designerId,
-      action: "delete_client",
-      entity: "client",
-      entityId: id,
-      details: `Deleted client "${client.name}" (lifetime counter unchanged)`,
-      metadata: { clientName: client.name, clientPhone: client.phone },
-    });
+    await deleteClientRecord(designerId, client);
 
     return NextResponse.json({
       success: true,
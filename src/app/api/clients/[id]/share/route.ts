@@ -3,8 +3,9 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Client } from "@/lib/models/client";
-import { generateScanLink } from "@/lib/utils";
 import { APP_URL } from "@/lib/constants";
+import { ensureShareCode } from "@/lib/client-portal";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  POST /api/clients/[id]/share                                              */
@@ -24,7 +25,11 @@ export async function POST(
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "edit_client");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const { id } = await params;
 
     await connectDB();
@@ -44,29 +49,8 @@ export async function POST(
       );
     }
 
-    // Return existing share code if one exists
-    if (client.shareCode) {
-      return NextResponse.json({
-        success: true,
-        data: {
-          shareCode: client.shareCode,
-          shareUrl: `${APP_URL}/measurements/${client.shareCode}`,
-        },
-      });
-    }
-
-    // Generate a new unique share code
-    let shareCode: string;
-    let attempts = 0;
-    do {
-      shareCode = `mc_${generateScanLink()}`;
-      const existing = await Client.findOne({ shareCode });
-      if (!existing) break;
-      attempts++;
-    } while (attempts < 5);
-
-    client.shareCode = shareCode;
-    await client.save();
+    // Existing share code, or a new unique one
+    const shareCode = await ensureShareCode(client._id);
 
     return NextResponse.json({
       success: true,
@@ -6,6 +6,7 @@ import connectDB from "@/lib/db";
 import { Order } from "@/lib/models/order";
 import { Client } from "@/lib/models/client";
 import { Outreach } from "@/lib/models/outreach";
+import { getWorkspace } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/clients/heartbeat                                                 */
@@ -41,7 +42,8 @@ export async function GET() {
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
     const designerObjectId = new mongoose.Types.ObjectId(designerId);
     const now = new Date();
 
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Client } from "@/lib/models/client";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  POST /api/clients/import                                                   */
@@ -27,7 +28,11 @@ export async function POST(request: Request) {
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "create_client");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const { rows } = (await request.json()) as { rows: CsvRow[] };
 
     if (!Array.isArray(rows) || rows.length === 0) {
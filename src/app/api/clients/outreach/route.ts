@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Outreach } from "@/lib/models/outreach";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/clients/outreach?clientId=xxx                                     */
@@ -16,7 +17,8 @@ export async function GET(request: Request) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
     const { searchParams } = new URL(request.url);
     const clientId = searchParams.get("clientId");
 
@@ -52,7 +54,11 @@ export async function POST(request: Request) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "edit_client");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const body = await request.json();
     const { clientId, type, message } = body;
 
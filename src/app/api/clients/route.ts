@@ -5,8 +5,9 @@ import connectDB from "@/lib/db";
 import { Client } from "@/lib/models/client";
 import { Designer } from "@/lib/models/designer";
 import { clientSchema } from "@/lib/validations";
-import { checkSubscriptionLimit } from "@/lib/subscription";
 import { SUBSCRIPTION_PLANS } from "@/lib/constants";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+import { createClientRecord } from "@/lib/record-writes";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/clients                                                          */
@@ -24,7 +25,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
     const { searchParams } = new URL(request.url);
 
     const search = searchParams.get("search") || "";
@@ -103,7 +105,11 @@ export async function POST(request: Request) {
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "create_client");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const body = await request.json();
 
     // Validate input
@@ -121,32 +127,14 @@ export async function POST(request: Request) {
 
     await connectDB();
 
-    // Check subscription limit using LIFETIME count (non-decreasing, prevents delete-and-recreate gaming)
-    const designer = await Designer.findById(designerId).select("subscription role lifetimeCounts").lean();
-    const lifetimeClients = designer?.lifetimeCounts?.totalClientsCreated ?? 0;
-    const currentCount = await Client.countDocuments({ designerId });
-    const check = checkSubscriptionLimit(
-      designer?.subscription || "free",
-      "create_client",
-      currentCount,
-      lifetimeClients
-    );
-    if (!check.allowed) {
+    const result = await createClientRecord(designerId, parsed.data);
+    if (!result.ok) {
       return NextResponse.json(
-        { success: false, error: check.message, lifetimeCount: lifetimeClients },
-        { status: 403 }
+        { success: false, error: result.message, ...result.extra },
+        { status: result.status }
       );
     }
-
-    // Atomically increment lifetime counter AND create client
-    await Designer.findByIdAndUpdate(designerId, {
-      $inc: { "lifetimeCounts.totalClientsCreated": 1 },
-    });
-
-    const client = await Client.create({
-      ...parsed.data,
-      designerId,
-    });
+    const client = result.doc;
 
     return NextResponse.json(
       {
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import connectDB from "@/lib/db";
+import { runDueJobs } from "@/lib/job-queue";
+import { JOB_HANDLERS, scheduleRecurringJobs } from "@/lib/job-handlers";
+
+/* -------------------------------------------------------------------------- */
+/*  GET /api/cron/tick                                                          */
+/*                                                                              */
+/*  The one scheduled entry point for background work. vercel.json runs it  */
+/*  once a day (all Vercel Hobby allows), which covers the daily sweeps;    */
+/*  for minute-level job latency have an external pinger call it every      */
+/*  minute with `x-cron-secret` (see README), or use `* * * * *` on Pro:    */
+/*                                                                              */
+/*    1. scheduleRecurringJobs() — enqueue today's daily sweeps and any due   */
+/*       scheduled broadcast (idempotent, so overlapping ticks are fine)     */
+/*    2. runDueJobs() — drain the queue within a time budget; failures back  */
+/*       off and land in the dead-letter list after maxAttempts               */
+/*                                                                              */
+/*  Auth: header `x-cron-secret: $CRON_SECRET` OR Vercel's auto-attached       */
+/*  Authorization header. If neither matches, returns 401.                    */
+/* -------------------------------------------------------------------------- */
+
+export const maxDuration = 60;
+
+const MAX_JOBS_PER_TICK = 25; // safety cap so a backlog doesn't take down the worker
+const TIME_BUDGET_MS = 45_000; // leave headroom under maxDuration
+
+export async function GET(request: Request) {
+  // Auth: support both Vercel's signed cron header and a manual secret.
+  const cronSecret = process.env.CRON_SECRET;
+  const headerSecret = request.headers.get("x-cron-secret");
+  const auth = request.headers.get("authorization") || "";
+  const looksLikeVercel = auth.startsWith("Bearer ") && cronSecret && auth.endsWith(cronSecret);
+  const matchesHeader = cronSecret && headerSecret === cronSecret;
+  if (cronSecret && !looksLikeVercel && !matchesHeader) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    await connectDB();
+
+    const enqueued = await scheduleRecurringJobs();
+    const summary = await runDueJobs(JOB_HANDLERS, {
+      maxJobs: MAX_JOBS_PER_TICK,
+      timeBudgetMs: TIME_BUDGET_MS,
+    });
+
+    return NextResponse.json({ success: true, data: { enqueued, ...summary } });
+  } catch (err) {
+    console.error("GET /api/cron/tick error:", err);
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : "Cron failed" },
+      { status: 500 },
+    );
+  }
+}
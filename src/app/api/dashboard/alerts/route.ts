@@ -5,6 +5,7 @@ import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Order } from "@/lib/models/order";
 import { Client } from "@/lib/models/client";
+import { getWorkspace } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/dashboard/alerts                                                  */
@@ -31,7 +32,8 @@ export async function GET() {
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
     const designerObjectId = new mongoose.Types.ObjectId(designerId);
     const now = new Date();
 
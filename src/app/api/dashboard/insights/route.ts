@@ -5,6 +5,8 @@ import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Order } from "@/lib/models/order";
 import { FeedLike } from "@/lib/models/feed-like";
+import { firstThumbnail } from "@/lib/media-storage";
+import { getWorkspace } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/dashboard/insights                                                */
@@ -22,16 +24,17 @@ import { FeedLike } from "@/lib/models/feed-like";
 export async function GET() {
   try {
     const session = await getServerSession(authOptions);
-    const userId = (session?.user as { id?: string } | undefined)?.id;
-    if (!userId) {
+    if (!session?.user) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
 
     await connectDB();
 
     // 1) All featured posts owned by the current designer
     const orders = await Order.find({
-      designerId: userId,
+      designerId,
       featuredInFeed: true,
       isDeleted: { $ne: true },
     })
@@ -61,7 +64,7 @@ export async function GET() {
         id,
         title: o.title as string,
         garmentType: o.garmentType as string,
-        heroImage: ((o.gallery as string[] | undefined) ?? [])[0] ?? null,
+        heroImage: firstThumbnail(o.gallery as string[] | undefined),
         caption: (o.feedCaption as string | undefined) ?? null,
         featuredAt: o.featuredAt ?? null,
         status: o.status as string,
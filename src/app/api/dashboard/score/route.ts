@@ -6,6 +6,8 @@ import connectDB from "@/lib/db";
 import { Order } from "@/lib/models/order";
 import { Client } from "@/lib/models/client";
 import { Designer } from "@/lib/models/designer";
+import { getRatingSummary } from "@/lib/reviews";
+import { getWorkspace } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/dashboard/score                                                   */
@@ -30,7 +32,8 @@ export async function GET() {
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
     const designerObjectId = new mongoose.Types.ObjectId(designerId);
     const now = new Date();
     const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
@@ -56,6 +59,7 @@ export async function GET() {
       ordersWithGallery,
       recentOrderCount,
       overdueOrders,
+      ratings,
     ] = await Promise.all([
       Designer.findById(designerId).select("bio specialties publicProfile businessName"),
       Order.countDocuments({ designerId }),
@@ -105,6 +109,7 @@ export async function GET() {
         dueDate: { $lt: now },
         status: { $nin: ["delivered", "cancelled"] },
       }),
+      getRatingSummary(designerId),
     ]);
 
     const revenue = totalRevenue[0]?.total || 0;
@@ -149,21 +154,21 @@ export async function GET() {
           : "Excellent punctuality! Clients trust you.",
     });
 
-    // 3. Client Retention (0-20 points)
+    // 3. Client Retention (0-15 points)
     const retentionBase = totalClients > 0 ? Math.min(1, recentClients / Math.max(1, totalClients * 0.3)) : 0;
     const hasRepeatClients = totalOrders > totalClients;
     const retentionScore = Math.round(
-      Math.min(20, (retentionBase * 10) + (hasRepeatClients ? 10 : 0))
+      Math.min(15, (retentionBase * 8) + (hasRepeatClients ? 7 : 0))
     );
     components.push({
       name: "Client Retention",
       score: retentionScore,
-      maxScore: 20,
+      maxScore: 15,
       description: `${recentClients} new clients in 90 days. ${
         hasRepeatClients ? "Repeat clients detected." : "Build repeat business."
       }`,
       tip:
-        retentionScore < 15
+        retentionScore < 11
           ? "Reach out to inactive clients. Use the Heartbeat feature."
           : "Strong client relationships! Keep nurturing them.",
     });
@@ -188,22 +193,41 @@ export async function GET() {
           : "Profile looks great!",
     });
 
-    // 5. Order Volume & Activity (0-20 points)
-    const volumeBase = Math.min(10, recentOrderCount * 2); // Up to 10 pts for recent orders
-    const activeBase = Math.min(5, activeOrders); // Up to 5 pts for active pipeline
-    const noOverdue = overdueOrders === 0 ? 5 : Math.max(0, 5 - overdueOrders * 2);
-    const volumeScore = Math.min(20, volumeBase + activeBase + noOverdue);
+    // 5. Order Volume & Activity (0-15 points)
+    const volumeBase = Math.min(8, recentOrderCount * 2); // Up to 8 pts for recent orders
+    const activeBase = Math.min(3, activeOrders); // Up to 3 pts for active pipeline
+    const noOverdue = overdueOrders === 0 ? 4 : Math.max(0, 4 - overdueOrders * 2);
+    const volumeScore = Math.min(15, volumeBase + activeBase + noOverdue);
     components.push({
       name: "Business Activity",
       score: volumeScore,
-      maxScore: 20,
+      maxScore: 15,
       description: `${recentOrderCount} orders in 30 days. ${activeOrders} active. ${overdueOrders} overdue.`,
       tip:
-        volumeScore < 15
+        volumeScore < 11
           ? "Increase visibility: share your portfolio, ask for referrals."
           : "Business is thriving!",
     });
 
+    // 6. Client Satisfaction (0-10 points) — portal ratings; neutral until rated
+    const satisfactionScore =
+      ratings.count > 0 ? Math.round(((ratings.average - 1) / 4) * 10) : 5;
+    components.push({
+      name: "Client Satisfaction",
+      score: satisfactionScore,
+      maxScore: 10,
+      description:
+        ratings.count > 0
+          ? `${ratings.average}★ average from ${ratings.count} rating${ratings.count === 1 ? "" : "s"}`
+          : "No client ratings yet",
+      tip:
+        ratings.count < 3
+          ? "Send clients their portal link after delivery — they can rate you there."
+          : satisfactionScore < 8
+          ? "Check in with clients who rated you low and put things right."
+          : "Clients love your work!",
+    });
+
     const totalScore = components.reduce((sum, c) => sum + c.score, 0);
 
     // Determine grade
@@ -245,6 +269,13 @@ export async function GET() {
         type: "activity",
       });
     }
+    if (ratings.count < 3 && deliveredOrders > 0) {
+      challenges.push({
+        title: "Get 3 clients to rate their orders",
+        reward: "+3 score boost",
+        type: "reviews",
+      });
+    }
     if (ordersWithGallery === 0) {
       challenges.push({
         title: "Add a photo to your portfolio",
@@ -268,6 +299,8 @@ export async function GET() {
           collected,
           collectionRate: Math.round(collectionRate),
           onTimeRate: Math.round(onTimeRate),
+          averageRating: ratings.average,
+          ratingCount: ratings.count,
         },
       },
     });
@@ -6,6 +6,7 @@ import connectDB from "@/lib/db";
 import { Client } from "@/lib/models/client";
 import { Order } from "@/lib/models/order";
 import { ScanSession } from "@/lib/models/scan-session";
+import { getWorkspace } from "@/lib/workspace";
 
 export async function GET() {
   try {
@@ -18,7 +19,8 @@ export async function GET() {
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
     const designerObjectId = new mongoose.Types.ObjectId(designerId);
 
     await connectDB();
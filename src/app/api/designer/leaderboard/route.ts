@@ -6,6 +6,8 @@ import connectDB from "@/lib/db";
 import { Order } from "@/lib/models/order";
 import { Client } from "@/lib/models/client";
 import { Designer } from "@/lib/models/designer";
+import { countFiveStarMonths, getRatingSummary } from "@/lib/reviews";
+import { getWorkspace } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/designer/leaderboard                                              */
@@ -21,6 +23,7 @@ const XP_VALUES = {
   measurementTaken: 15,
   onTimeDelivery: 25,
   fiveStarMonth: 100,
+  fiveStarReview: 20,
   portfolioPhoto: 5,
 };
 
@@ -49,7 +52,7 @@ export async function GET() {
       );
     }
 
-    const currentDesignerId = (session.user as { id: string }).id;
+    const currentDesignerId = (await getWorkspace(session.user.id)).designerId;
 
     await connectDB();
 
@@ -79,7 +82,8 @@ export async function GET() {
         partialPaidOrders,
         onTimeDeliveries,
         ordersWithGallery,
-        monthlyDeliveryData,
+        fiveStarMonths,
+        ratings,
       ] = await Promise.all([
         Order.countDocuments({ designerId: did }),
         Order.countDocuments({ designerId: did, status: "delivered" }),
@@ -94,19 +98,13 @@ export async function GET() {
           $expr: { $lte: ["$updatedAt", "$dueDate"] },
         }),
         Order.countDocuments({ designerId: did, "gallery.0": { $exists: true } }),
-        Order.aggregate([
-          { $match: { designerId: didObj, status: "delivered" } },
-          { $group: { _id: { year: { $year: "$updatedAt" }, month: { $month: "$updatedAt" } }, count: { $sum: 1 } } },
-          { $match: { count: { $gte: 5 } } },
-          { $count: "fiveStarMonths" },
-        ]),
+        countFiveStarMonths(String(did)),
+        getRatingSummary(String(did)),
       ]);
 
       // Skip designers with no orders at all
       if (totalOrders === 0) continue;
 
-      const fiveStarMonths = monthlyDeliveryData[0]?.fiveStarMonths || 0;
-
       let xp = 0;
       xp += totalOrders * XP_VALUES.orderCreated;
       xp += deliveredOrders * XP_VALUES.orderDelivered;
@@ -116,6 +114,7 @@ export async function GET() {
       xp += clientsWithMeasurements * XP_VALUES.measurementTaken;
       xp += onTimeDeliveries * XP_VALUES.onTimeDelivery;
       xp += fiveStarMonths * XP_VALUES.fiveStarMonth;
+      xp += ratings.fiveStar * XP_VALUES.fiveStarReview;
       xp += ordersWithGallery * XP_VALUES.portfolioPhoto;
 
       const tier = getTier(xp);
@@ -4,6 +4,7 @@ import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Designer } from "@/lib/models/designer";
 import { onboardingSchema } from "@/lib/validations";
+import { rewardReferral } from "@/lib/referrals";
 
 /* -------------------------------------------------------------------------- */
 /*  PUT /api/designer/onboarding                                               */
@@ -59,6 +60,11 @@ export async function PUT(request: Request) {
       );
     }
 
+    // Onboarding is one of the two moments a pending referral pays out
+    await rewardReferral(userId, "onboarding").catch((err) =>
+      console.error("Referral reward error:", err)
+    );
+
     return NextResponse.json({
       success: true,
       message: "Onboarding completed successfully",
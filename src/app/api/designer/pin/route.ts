@@ -4,6 +4,7 @@ import bcrypt from "bcryptjs";
 import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Designer } from "@/lib/models/designer";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  POST /api/designer/pin                                                     */
@@ -20,7 +21,11 @@ export async function POST(request: Request) {
       );
     }
 
-    const designerId = session.user.id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_team");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const body = await request.json();
     const { pin } = body;
 
@@ -33,15 +38,6 @@ export async function POST(request: Request) {
 
     await connectDB();
 
-    // Only owners can set a PIN
-    const designer = await Designer.findById(designerId).select("role").lean();
-    if (!designer || designer.role !== "owner") {
-      return NextResponse.json(
-        { success: false, error: "Only account owners can set an override PIN" },
-        { status: 403 }
-      );
-    }
-
     const hashedPin = await bcrypt.hash(pin, 10);
     await Designer.findByIdAndUpdate(designerId, { $set: { ownerPin: hashedPin } });
 
@@ -73,7 +69,7 @@ export async function PUT(request: Request) {
       );
     }
 
-    const designerId = session.user.id;
+    const designerId = (await getWorkspace(session.user.id)).designerId;
     const body = await request.json();
     const { pin } = body;
 
@@ -86,26 +82,8 @@ export async function PUT(request: Request) {
 
     await connectDB();
 
-    // Find the owner to verify against
-    const designer = await Designer.findById(designerId).select("role teamOwnerId").lean();
-    if (!designer) {
-      return NextResponse.json(
-        { success: false, error: "Account not found" },
-        { status: 404 }
-      );
-    }
-
-    // If the user IS the owner, verify against their own PIN
-    // If staff, verify against their team owner's PIN
-    const ownerId = designer.role === "owner" ? designerId : designer.teamOwnerId;
-    if (!ownerId) {
-      return NextResponse.json(
-        { success: false, error: "No team owner configured" },
-        { status: 400 }
-      );
-    }
-
-    const owner = await Designer.findById(ownerId).select("+ownerPin").lean();
+    // Staff verify against their workspace owner's PIN
+    const owner = await Designer.findById(designerId).select("+ownerPin").lean();
     if (!owner?.ownerPin) {
       return NextResponse.json(
         { success: false, error: "Owner has not set an override PIN" },
@@ -6,6 +6,8 @@ import connectDB from "@/lib/db";
 import { Order } from "@/lib/models/order";
 import { Client } from "@/lib/models/client";
 import { Designer } from "@/lib/models/designer";
+import { countFiveStarMonths, getRatingSummary } from "@/lib/reviews";
+import { getWorkspace } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/designer/rank                                                     */
@@ -38,7 +40,8 @@ const XP_VALUES = {
   clientAdded: 20,
   measurementTaken: 15,
   onTimeDelivery: 25,
-  fiveStarMonth: 100, // delivered 5+ orders in a month
+  fiveStarMonth: 100, // 3+ client ratings averaging 4.5+ in a month (lib/reviews)
+  fiveStarReview: 20,
   portfolioPhoto: 5,
 };
 
@@ -65,7 +68,8 @@ export async function GET() {
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
     const designerObjectId = new mongoose.Types.ObjectId(designerId);
     const now = new Date();
     const thisMonthStart = new Date(now.getFullYear(), now.getMonth(), 1);
@@ -86,7 +90,8 @@ export async function GET() {
       ordersWithGallery,
       deliveredThisMonth,
       deliveredLastMonth,
-      monthlyDeliveryData,
+      fiveStarMonths,
+      ratings,
     ] = await Promise.all([
       Designer.findById(designerId).select("name businessName createdAt specialties"),
       Order.countDocuments({ designerId }),
@@ -120,35 +125,11 @@ export async function GET() {
         status: "delivered",
         updatedAt: { $gte: lastMonthStart, $lt: thisMonthStart },
       }),
-      // Monthly delivery counts for "five star month" bonuses
-      Order.aggregate([
-        {
-          $match: {
-            designerId: designerObjectId,
-            status: "delivered",
-          },
-        },
-        {
-          $group: {
-            _id: {
-              year: { $year: "$updatedAt" },
-              month: { $month: "$updatedAt" },
-            },
-            count: { $sum: 1 },
-          },
-        },
-        {
-          $match: { count: { $gte: 5 } },
-        },
-        {
-          $count: "fiveStarMonths",
-        },
-      ]),
+      countFiveStarMonths(designerId),
+      getRatingSummary(designerId),
     ]);
 
     // Calculate XP
-    const fiveStarMonths = monthlyDeliveryData[0]?.fiveStarMonths || 0;
-
     let totalXP = 0;
     totalXP += totalOrders * XP_VALUES.orderCreated;
     totalXP += deliveredOrders * XP_VALUES.orderDelivered;
@@ -158,6 +139,7 @@ export async function GET() {
     totalXP += clientsWithMeasurements * XP_VALUES.measurementTaken;
     totalXP += onTimeDeliveries * XP_VALUES.onTimeDelivery;
     totalXP += fiveStarMonths * XP_VALUES.fiveStarMonth;
+    totalXP += ratings.fiveStar * XP_VALUES.fiveStarReview;
     totalXP += ordersWithGallery * XP_VALUES.portfolioPhoto;
 
     const currentTier = getTier(totalXP);
@@ -177,14 +159,14 @@ export async function GET() {
     if (totalClients >= 25) achievements.push({ label: "25 Clients", icon: "👥", earned: true });
     if (fullPaidOrders >= 5) achievements.push({ label: "Paid in Full x5", icon: "💰", earned: true });
     if (onTimeDeliveries >= 5) achievements.push({ label: "On-Time x5", icon: "⏰", earned: true });
-    if (fiveStarMonths >= 1) achievements.push({ label: "Power Month", icon: "🔥", earned: true });
+    if (fiveStarMonths >= 1) achievements.push({ label: "Five-Star Month", icon: "🌟", earned: true });
     if (ordersWithGallery >= 3) achievements.push({ label: "Portfolio Pro", icon: "📸", earned: true });
 
     // Add locked achievements
     if (deliveredOrders < 1) achievements.push({ label: "First Delivery", icon: "🎯", earned: false });
     if (deliveredOrders < 50 && deliveredOrders >= 1) achievements.push({ label: "50 Deliveries", icon: "⭐", earned: false });
     if (totalClients < 25 && totalClients >= 5) achievements.push({ label: "25 Clients", icon: "👥", earned: false });
-    if (fiveStarMonths < 1) achievements.push({ label: "Power Month", icon: "🔥", earned: false });
+    if (fiveStarMonths < 1) achievements.push({ label: "Five-Star Month", icon: "🌟", earned: false });
 
     // Monthly report card data
     const designerData = designer as Record<string, unknown> | null;
@@ -283,6 +265,8 @@ export async function GET() {
           deliveredLastMonth,
           monthsActive,
           avgOrdersPerMonth: monthsActive > 0 ? +(totalOrders / monthsActive).toFixed(1) : 0,
+          averageRating: ratings.average,
+          ratingCount: ratings.count,
         },
         achievements: achievements.slice(0, 12),
         xpBreakdown: {
@@ -293,6 +277,7 @@ export async function GET() {
           measurements: clientsWithMeasurements * XP_VALUES.measurementTaken,
           onTime: onTimeDeliveries * XP_VALUES.onTimeDelivery,
           portfolio: ordersWithGallery * XP_VALUES.portfolioPhoto,
+          ratings: fiveStarMonths * XP_VALUES.fiveStarMonth + ratings.fiveStar * XP_VALUES.fiveStarReview,
           challenges: challengeBonusXP,
         },
         challenges: {
@@ -0,0 +1,141 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { Designer } from "@/lib/models/designer";
+import { logActivity } from "@/lib/models/activity-log";
+import { loadWorkflow } from "@/lib/designer-workflow";
+import { DEFAULT_WORKFLOW, validateWorkflow } from "@/lib/order-transitions";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  /api/designer/workflow                                                      */
+/*                                                                              */
+/*  GET    — the designer's order workflow (default pipeline if never set)    */
+/*  PUT    — replace it. Body: { stages: WorkflowStage[] }                     */
+/*  DELETE — reset to the default pipeline                                      */
+/* -------------------------------------------------------------------------- */
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    await connectDB();
+    const workflow = await loadWorkflow(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...workflow,
+        isDefault: workflow === DEFAULT_WORKFLOW,
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/designer/workflow error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_settings");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
+    const body = await request.json();
+
+    const result = validateWorkflow(body);
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.errors[0], details: result.errors },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    await Designer.findByIdAndUpdate(designerId, {
+      $set: {
+        workflow: { stages: result.workflow.stages, updatedAt: new Date() },
+      },
+    });
+
+    logActivity({
+      designerId,
+      action: "update_workflow",
+      entity: "settings",
+      details: `Order workflow updated (${result.workflow.stages.length} stages)`,
+      metadata: { stages: result.workflow.stages.map((s) => s.key) },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Workflow saved",
+      data: { ...result.workflow, isDefault: false },
+    });
+  } catch (error) {
+    console.error("PUT /api/designer/workflow error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_settings");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
+    await connectDB();
+
+    await Designer.findByIdAndUpdate(designerId, { $unset: { workflow: "" } });
+
+    logActivity({
+      designerId,
+      action: "reset_workflow",
+      entity: "settings",
+      details: "Order workflow reset to default",
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Workflow reset to default",
+      data: { ...DEFAULT_WORKFLOW, isDefault: true },
+    });
+  } catch (error) {
+    console.error("DELETE /api/designer/workflow error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
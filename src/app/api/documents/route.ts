@@ -0,0 +1,258 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { Order } from "@/lib/models/order";
+import { Client } from "@/lib/models/client";
+import { Designer } from "@/lib/models/designer";
+import { BusinessDocument, type BusinessDocumentType } from "@/lib/models/business-document";
+import { ActivityLog, logActivity } from "@/lib/models/activity-log";
+import { loadDesignerForAction, getEffectivePlan } from "@/lib/access-control";
+import { checkSubscriptionLimit, AI_ASSIST_ACTIONS } from "@/lib/subscription";
+import { generateQuotation } from "@/lib/ai-quotation";
+import { summarizeGarments, getOrderLines } from "@/lib/order-items";
+import {
+  buildMeasurementCard,
+  buildOrderDocument,
+  documentUrl,
+  issueDocument,
+  DOCUMENT_TITLES,
+  type DocumentContent,
+} from "@/lib/documents";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+import type { MessageLanguage } from "@/lib/whatsapp";
+
+const DOCUMENT_TYPES: BusinessDocumentType[] = ["invoice", "quotation", "receipt", "measurement_card"];
+
+/* -------------------------------------------------------------------------- */
+/*  GET /api/documents?orderId=&clientId=                                      */
+/*  Documents issued by the designer, newest first.                           */
+/* -------------------------------------------------------------------------- */
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
+    const { searchParams } = new URL(request.url);
+    const orderId = searchParams.get("orderId");
+    const clientId = searchParams.get("clientId");
+
+    await connectDB();
+
+    const filter: Record<string, unknown> = { designerId };
+    if (orderId) filter.orderId = orderId;
+    if (clientId) filter.clientId = clientId;
+
+    const documents = await BusinessDocument.find(filter)
+      .select("type number code orderId clientId createdAt")
+      .sort({ createdAt: -1 })
+      .limit(50)
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: documents.map((d) => ({
+        _id: String(d._id),
+        type: d.type,
+        number: d.number,
+        url: documentUrl(d.code),
+        orderId: d.orderId ? String(d.orderId) : null,
+        clientId: d.clientId ? String(d.clientId) : null,
+        createdAt: d.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error("GET /api/documents error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*  POST /api/documents                                                        */
+/*  Issue a document and get its public PDF link.                             */
+/*  Body: { type, orderId?, clientId?, message?, depositPercent?, lang? }      */
+/*                                                                              */
+/*  invoice / receipt / quotation need an orderId; measurement_card needs a  */
+/*  clientId. A quotation uses `message` when the designer has already       */
+/*  generated (and maybe edited) one, otherwise generateQuotation() is run   */
+/*  against the shared AI-assist quota.                                        */
+/* -------------------------------------------------------------------------- */
+
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "export_data");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
+    const body = (await request.json()) as {
+      type?: BusinessDocumentType;
+      orderId?: string;
+      clientId?: string;
+      message?: string;
+      depositPercent?: number;
+      lang?: MessageLanguage;
+    };
+
+    if (!body.type || !DOCUMENT_TYPES.includes(body.type)) {
+      return NextResponse.json(
+        { success: false, error: `type must be one of: ${DOCUMENT_TYPES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (body.type === "measurement_card" ? !body.clientId : !body.orderId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: body.type === "measurement_card" ? "clientId is required" : "orderId is required",
+        },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const gate = await loadDesignerForAction(designerId);
+    if (!gate.ok) {
+      return NextResponse.json(
+        { success: false, error: gate.message, suspended: gate.reason === "suspended" },
+        { status: gate.status },
+      );
+    }
+    const designer = (await Designer.findById(designerId)
+      .select("name businessName phone email businessAddress city state bankAccount studioAddon")
+      .lean()) as unknown as Parameters<typeof buildOrderDocument>[3];
+
+    let content: DocumentContent;
+    let orderId: string | undefined;
+    let clientId: string | undefined;
+
+    if (body.type === "measurement_card") {
+      const client = await Client.findOne({ _id: body.clientId, designerId }).lean();
+      if (!client) {
+        return NextResponse.json(
+          { success: false, error: "Client not found" },
+          { status: 404 }
+        );
+      }
+      clientId = String(client._id);
+      content = buildMeasurementCard(JSON.parse(JSON.stringify(client)), designer);
+    } else {
+      const order = await Order.findOne({ _id: body.orderId, designerId, isDeleted: { $ne: true } }).lean();
+      if (!order) {
+        return NextResponse.json(
+          { success: false, error: "Order not found" },
+          { status: 404 }
+        );
+      }
+      const orderJson = JSON.parse(JSON.stringify(order));
+      const client = await Client.findById(order.clientId).select("name phone").lean();
+      const clientJson = client ? (client as unknown as { name: string; phone?: string }) : null;
+      orderId = String(order._id);
+      clientId = order.clientId ? String(order.clientId) : undefined;
+
+      if (body.type === "receipt" && !(orderJson.payments || []).length) {
+        return NextResponse.json(
+          { success: false, error: "No payments recorded yet" },
+          { status: 400 }
+        );
+      }
+
+      let message = body.message?.trim();
+      if (body.type === "quotation" && !message) {
+        const plan = getEffectivePlan(gate.designer);
+        const startOfMonth = new Date(new Date().getFullYear(), new Date().getMonth(), 1);
+        const monthlyCount = await ActivityLog.countDocuments({
+          designerId,
+          action: { $in: AI_ASSIST_ACTIONS },
+          createdAt: { $gte: startOfMonth },
+        });
+        const lifetimeCount = plan === "free"
+          ? await ActivityLog.countDocuments({ designerId, action: { $in: AI_ASSIST_ACTIONS } })
+          : 0;
+        const check = checkSubscriptionLimit(plan, "use_ai_quotation", monthlyCount, lifetimeCount);
+        if (!check.allowed) {
+          return NextResponse.json({ success: false, error: check.message }, { status: 403 });
+        }
+
+        const result = await generateQuotation({
+          clientName: clientJson?.name || "there",
+          garmentType: summarizeGarments(getOrderLines(orderJson)),
+          fabric: orderJson.fabric,
+          description: orderJson.description,
+          price: orderJson.price,
+          currency: orderJson.currency || "NGN",
+          depositPercent: body.depositPercent,
+          dueDate: orderJson.dueDate,
+          businessName: designer.businessName || "Your designer",
+          lang: body.lang === "pidgin" ? "pidgin" : "english",
+        });
+        message = result.message;
+
+        logActivity({
+          designerId,
+          action: "ai_quotation",
+          entity: "order",
+          entityId: orderId,
+          details: `AI quotation generated for "${orderJson.title}"`,
+          metadata: { source: result.source, document: true },
+        });
+      }
+
+      content = buildOrderDocument(body.type, orderJson, clientJson, designer, message);
+    }
+
+    const { document, reused } = await issueDocument({ designerId, orderId, clientId, content });
+
+    if (!reused) {
+      logActivity({
+        designerId,
+        action: "issue_document",
+        entity: body.type === "measurement_card" ? "measurement" : body.type === "receipt" ? "payment" : "order",
+        entityId: orderId || clientId,
+        details: `Issued ${DOCUMENT_TITLES[body.type].toLowerCase()} ${document.number}`,
+        metadata: { type: body.type, number: document.number },
+      });
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          _id: String(document._id),
+          type: document.type,
+          number: document.number,
+          url: documentUrl(document.code),
+          reused,
+          createdAt: document.createdAt,
+        },
+      },
+      { status: reused ? 200 : 201 }
+    );
+  } catch (error) {
+    console.error("POST /api/documents error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { EmailOutbox } from "@/lib/models/email-outbox";
+import { enqueueOutboxJob } from "@/lib/client-emails";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  POST /api/email-outbox/[id]/retry                                          */
+/*  Queue a failed client email for another round of delivery attempts.     */
+/* -------------------------------------------------------------------------- */
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_settings");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
+    const { id } = await params;
+    await connectDB();
+
+    const row = await EmailOutbox.findOneAndUpdate(
+      { _id: id, designerId, status: "failed" },
+      { $set: { status: "queued" } },
+      { new: true }
+    );
+    if (!row) {
+      return NextResponse.json(
+        { success: false, error: "Only failed emails can be retried" },
+        { status: 409 }
+      );
+    }
+
+    await enqueueOutboxJob(id, designerId, row.attempts);
+
+    return NextResponse.json({
+      success: true,
+      message: "Email queued to send again",
+      data: { _id: id, status: row.status },
+    });
+  } catch (error) {
+    console.error("POST /api/email-outbox/[id]/retry error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { EmailOutbox } from "@/lib/models/email-outbox";
+import { getWorkspace } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  GET /api/email-outbox                                                       */
+/*  The designer's most recent client emails and how delivery went.          */
+/*  Query: ?status=failed to list only those needing a retry.                 */
+/* -------------------------------------------------------------------------- */
+
+const STATUSES = ["queued", "sent", "failed", "cancelled"];
+
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    await connectDB();
+
+    const status = new URL(request.url).searchParams.get("status");
+    const filter: Record<string, unknown> = { designerId: workspace.designerId };
+    if (status && STATUSES.includes(status)) filter.status = status;
+
+    const emails = await EmailOutbox.find(filter)
+      .select("clientId orderId kind to subject status attempts lastError sentAt createdAt")
+      .populate("clientId", "name")
+      .sort({ createdAt: -1 })
+      .limit(30)
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: JSON.parse(JSON.stringify(emails)),
+    });
+  } catch (error) {
+    console.error("GET /api/email-outbox error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { Designer } from "@/lib/models/designer";
+import { SAMPLE_EMAIL_VARS } from "@/lib/email-templates";
+import { designerEmailBrand, renderClientEmail } from "@/lib/client-emails";
+import { getWorkspace } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  POST /api/email-templates/preview                                          */
+/*  Render unsaved template text with example values and the designer's     */
+/*  branding. Body: { subject, body }. Returns { subject, html }.            */
+/* -------------------------------------------------------------------------- */
+
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const subject = typeof body.subject === "string" ? body.subject.slice(0, 300) : "";
+    const text = typeof body.body === "string" ? body.body.slice(0, 4000) : "";
+    if (!subject.trim() || !text.trim()) {
+      return NextResponse.json(
+        { success: false, error: "Add a subject and a message to preview" },
+        { status: 400 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    await connectDB();
+
+    const designer = await Designer.findById(workspace.designerId)
+      .select("businessName studioAddon")
+      .lean();
+    if (!designer) {
+      return NextResponse.json(
+        { success: false, error: "Designer not found" },
+        { status: 404 }
+      );
+    }
+
+    const preview = renderClientEmail(
+      { subject, body: text },
+      { ...SAMPLE_EMAIL_VARS, business_name: designer.businessName },
+      designerEmailBrand(designer),
+      "#unsubscribe",
+    );
+
+    return NextResponse.json({ success: true, data: preview });
+  } catch (error) {
+    console.error("POST /api/email-templates/preview error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,164 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { Designer } from "@/lib/models/designer";
+import { logActivity } from "@/lib/models/activity-log";
+import { emailTemplatesSchema } from "@/lib/validations";
+import { resolveEmailTemplates } from "@/lib/email-templates";
+import { designerEmailBrand } from "@/lib/client-emails";
+import { checkSubscriptionLimit } from "@/lib/subscription";
+import { getEffectivePlan, isStudioActive } from "@/lib/access-control";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  /api/email-templates                                                        */
+/*                                                                              */
+/*  GET    — the client email templates (defaults where never edited), the   */
+/*           branding they're sent with and whether the plan allows email    */
+/*  PUT    — save them. Body: { templates: EmailTemplate[] }                  */
+/*  DELETE — back to the default wording                                       */
+/* -------------------------------------------------------------------------- */
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    await connectDB();
+
+    const designer = await Designer.findById(workspace.designerId)
+      .select("businessName subscription subscriptionExpiry studioAddon emailTemplates")
+      .lean();
+    if (!designer) {
+      return NextResponse.json(
+        { success: false, error: "Designer not found" },
+        { status: 404 }
+      );
+    }
+
+    const gate = checkSubscriptionLimit(getEffectivePlan(designer), "email_notification");
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        templates: resolveEmailTemplates(designer.emailTemplates),
+        isDefault: !designer.emailTemplates?.length,
+        allowed: gate.allowed,
+        upgradeMessage: gate.allowed ? undefined : gate.message,
+        brand: { ...designerEmailBrand(designer), studio: isStudioActive(designer) },
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/email-templates error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_settings");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
+    const body = await request.json();
+
+    const parsed = emailTemplatesSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || "Validation failed",
+          details: parsed.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const templates = parsed.data.templates;
+    await Designer.findByIdAndUpdate(designerId, { $set: { emailTemplates: templates } });
+
+    const off = templates.filter((t) => !t.enabled).map((t) => t.kind);
+    logActivity({
+      designerId,
+      action: "update_email_templates",
+      entity: "settings",
+      details: off.length
+        ? `Client email templates updated (off: ${off.join(", ")})`
+        : "Client email templates updated",
+      metadata: { kinds: templates.map((t) => t.kind), off },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Email templates saved",
+      data: { templates: resolveEmailTemplates(templates), isDefault: false },
+    });
+  } catch (error) {
+    console.error("PUT /api/email-templates error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_settings");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
+    await connectDB();
+
+    await Designer.findByIdAndUpdate(designerId, { $unset: { emailTemplates: "" } });
+
+    logActivity({
+      designerId,
+      action: "reset_email_templates",
+      entity: "settings",
+      details: "Client email templates reset to default",
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Email templates reset to default",
+      data: { templates: resolveEmailTemplates(), isDefault: true },
+    });
+  } catch (error) {
+    console.error("DELETE /api/email-templates error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,10 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import dbConnect from "@/lib/db";
+import mongoose from "mongoose";
 import { Order } from "@/lib/models/order";
+import { StockMovement } from "@/lib/models/stock-movement";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 export async function GET() {
   try {
@@ -12,15 +15,20 @@ export async function GET() {
     }
 
     await dbConnect();
-    const designerId = session.user.id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "view_finances");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
 
     const now = new Date();
     const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
     const startOfLastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
 
     // Single aggregation for all financial data
-    const [result] = await Order.aggregate([
-      { $match: { designerId } },
+    // Aggregations aren't cast by Mongoose — the id must be an ObjectId
+    const resultPromise = Order.aggregate([
+      { $match: { designerId: new mongoose.Types.ObjectId(designerId), isDeleted: { $ne: true } } },
       {
         $facet: {
           // Overall totals
@@ -138,6 +146,34 @@ export async function GET() {
             { $sort: { "_id.year": 1, "_id.month": 1 } },
           ],
 
+          // Revenue per garment type, counted per line item. Orders from
+          // before line items existed count as a single line.
+          garmentBreakdown: [
+            { $match: { status: { $ne: "cancelled" } } },
+            {
+              $project: {
+                lines: {
+                  $cond: [
+                    { $gt: [{ $size: { $ifNull: ["$items", []] } }, 0] },
+                    "$items",
+                    [{ garmentType: "$garmentType", quantity: 1, price: "$price" }],
+                  ],
+                },
+              },
+            },
+            { $unwind: "$lines" },
+            {
+              $group: {
+                _id: "$lines.garmentType",
+                revenue: { $sum: "$lines.price" },
+                pieces: { $sum: { $ifNull: ["$lines.quantity", 1] } },
+                orders: { $sum: 1 },
+              },
+            },
+            { $sort: { revenue: -1 } },
+            { $limit: 10 },
+          ],
+
           // Top debtors (clients with highest outstanding)
           topDebtors: [
             {
@@ -174,6 +210,35 @@ export async function GET() {
       },
     ]);
 
+    // Cost of the stock cut for each order (lib/inventory), counted in the
+    // order's month like its revenue — deleted orders drop out of both
+    const materialPromise = StockMovement.aggregate<{ cost: number; createdAt: Date }>([
+      { $match: { designerId: new mongoose.Types.ObjectId(designerId), kind: "consume", orderId: { $exists: true } } },
+      { $group: { _id: "$orderId", cost: { $sum: { $multiply: ["$quantity", "$unitCost"] } } } },
+      {
+        $lookup: {
+          from: "orders",
+          localField: "_id",
+          foreignField: "_id",
+          pipeline: [{ $match: { isDeleted: { $ne: true } } }, { $project: { createdAt: 1 } }],
+          as: "order",
+        },
+      },
+      { $unwind: "$order" },
+      { $project: { cost: 1, createdAt: "$order.createdAt" } },
+    ]);
+
+    const [[result], materialRows] = await Promise.all([resultPromise, materialPromise]);
+
+    const monthKey = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+    const materialByMonth = new Map<string, number>();
+    for (const row of materialRows) {
+      const key = monthKey(new Date(row.createdAt));
+      materialByMonth.set(key, (materialByMonth.get(key) || 0) + row.cost);
+    }
+    const materialCost = Math.round(materialRows.reduce((sum, row) => sum + row.cost, 0));
+    const materialCostThisMonth = Math.round(materialByMonth.get(monthKey(now)) || 0);
+
     const totals = result.totals[0] || {
       totalRevenue: 0,
       totalCollected: 0,
@@ -200,20 +265,40 @@ export async function GET() {
         totals: {
           ...totals,
           collectionRate,
+          materialCost,
+          grossProfit: totals.totalRevenue - materialCost,
+        },
+        thisMonth: {
+          ...thisMonth,
+          materialCost: materialCostThisMonth,
+          profit: thisMonth.revenue - materialCostThisMonth,
         },
-        thisMonth,
         monthlyGrowth,
         overdue: result.overdue,
         paymentMethods: result.paymentMethods,
         monthlyTrend: result.monthlyTrend.map(
-          (m: { _id: { year: number; month: number }; revenue: number; collected: number; orders: number }) => ({
-            month: `${m._id.year}-${String(m._id.month).padStart(2, "0")}`,
-            revenue: m.revenue,
-            collected: m.collected,
-            orders: m.orders,
-          })
+          (m: { _id: { year: number; month: number }; revenue: number; collected: number; orders: number }) => {
+            const month = `${m._id.year}-${String(m._id.month).padStart(2, "0")}`;
+            const cost = Math.round(materialByMonth.get(month) || 0);
+            return {
+              month,
+              revenue: m.revenue,
+              collected: m.collected,
+              orders: m.orders,
+              materialCost: cost,
+              profit: m.revenue - cost,
+            };
+          }
         ),
         topDebtors: result.topDebtors,
+        garmentBreakdown: result.garmentBreakdown.map(
+          (g: { _id: string; revenue: number; pieces: number; orders: number }) => ({
+            garmentType: g._id || "Other",
+            revenue: g.revenue,
+            pieces: g.pieces,
+            orders: g.orders,
+          })
+        ),
       },
     });
   } catch (error) {
@@ -0,0 +1,305 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import mongoose from "mongoose";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { GroupOrder, type IGroupMember } from "@/lib/models/group-order";
+import { Client } from "@/lib/models/client";
+import { Order } from "@/lib/models/order";
+import { Designer } from "@/lib/models/designer";
+import { logActivity } from "@/lib/models/activity-log";
+import { groupMembersSchema } from "@/lib/validations";
+import { loadDesignerForAction } from "@/lib/access-control";
+import { buildOrderLines, deriveOrderFields, derivePaymentStatus } from "@/lib/order-items";
+import { initialMeasurementLock } from "@/lib/order-measurements";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  POST /api/group-orders/[id]/members                                        */
+/*  Add guests to a group. Body: { clientIds?, guests?, garmentType? }        */
+/*                                                                              */
+/*  New guests are matched to existing clients by phone number before a new  */
+/*  client is created, so a returning customer keeps their measurements.     */
+/*  Each guest gets their own ordinary order at the group's per-guest price, */
+/*  due on the event date.                                                     */
+/* -------------------------------------------------------------------------- */
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "edit_order");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
+    const { id } = await params;
+    const body = await request.json();
+
+    const parsed = groupMembersSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Validation failed",
+          details: parsed.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const gate = await loadDesignerForAction(designerId);
+    if (!gate.ok) {
+      return NextResponse.json(
+        { success: false, error: gate.message, suspended: gate.reason === "suspended" },
+        { status: gate.status },
+      );
+    }
+
+    const group = await GroupOrder.findOne({ _id: id, designerId });
+    if (!group) {
+      return NextResponse.json(
+        { success: false, error: "Group not found" },
+        { status: 404 }
+      );
+    }
+    if (group.status !== "open") {
+      return NextResponse.json(
+        { success: false, error: "This group is closed to new guests" },
+        { status: 400 }
+      );
+    }
+
+    const { clientIds = [], guests = [], garmentType } = parsed.data;
+
+    // Resolve everyone to a client: existing ones by id, new guests by phone
+    const toAdd: { clientId: mongoose.Types.ObjectId; garmentType?: string }[] = [];
+
+    if (clientIds.length > 0) {
+      const existing = await Client.find({ _id: { $in: clientIds }, designerId })
+        .select("_id")
+        .lean();
+      if (existing.length !== new Set(clientIds).size) {
+        return NextResponse.json(
+          { success: false, error: "One or more clients not found" },
+          { status: 404 }
+        );
+      }
+      for (const c of existing) {
+        toAdd.push({ clientId: c._id as mongoose.Types.ObjectId, garmentType });
+      }
+    }
+
+    let clientsCreated = 0;
+    for (const guest of guests) {
+      const phone = guest.phone.trim();
+      let client = await Client.findOne({ designerId, phone }).select("_id").lean();
+      if (!client) {
+        client = await Client.create({
+          designerId,
+          name: guest.name.trim(),
+          phone,
+          gender: guest.gender,
+          notes: `Guest — ${group.title}`,
+        });
+        clientsCreated++;
+      }
+      toAdd.push({
+        clientId: client!._id as mongoose.Types.ObjectId,
+        garmentType: guest.garmentType || garmentType,
+      });
+    }
+
+    if (clientsCreated > 0) {
+      await Designer.findByIdAndUpdate(designerId, {
+        $inc: { "lifetimeCounts.totalClientsCreated": clientsCreated },
+      });
+    }
+
+    // Skip anyone already in the group (and duplicates within this request)
+    const present = new Set((group.members as IGroupMember[]).map((m) => String(m.clientId)));
+    const fresh = toAdd.filter((m) => {
+      const key = String(m.clientId);
+      if (present.has(key)) return false;
+      present.add(key);
+      return true;
+    });
+
+    const clients = await Client.find({ _id: { $in: fresh.map((m) => m.clientId) } })
+      .select("measurements")
+      .lean();
+    const measurementsById = new Map(
+      clients.map((c) => [
+        String(c._id),
+        c.measurements
+          ? (JSON.parse(JSON.stringify(c.measurements)) as Record<string, number>)
+          : undefined,
+      ])
+    );
+
+    const now = new Date();
+    const added: IGroupMember[] = [];
+    for (const member of fresh) {
+      const garment = member.garmentType || group.defaultGarmentType;
+      const items = buildOrderLines(
+        [{ garmentType: garment, fabric: group.fabric?.name, quantity: 1, unitPrice: group.pricePerGuest }],
+        [],
+        measurementsById.get(String(member.clientId))
+      );
+      const derived = deriveOrderFields(items);
+
+      const order = await Order.create({
+        ...derived,
+        items,
+        ...initialMeasurementLock(items),
+        designerId,
+        clientId: member.clientId,
+        title: group.eventName ? `${group.eventName} — ${garment}` : `${group.title} — ${garment}`,
+        status: "pending",
+        statusHistory: [{ status: "pending", changedAt: now }],
+        currency: "NGN",
+        depositPaid: 0,
+        payments: [],
+        paymentStatus: derivePaymentStatus(derived.price, 0),
+        dueDate: group.eventDate,
+        groupOrderId: group._id,
+      });
+
+      added.push({
+        clientId: member.clientId,
+        orderId: order._id,
+        garmentType: member.garmentType,
+        addedAt: now,
+      });
+    }
+
+    if (added.length > 0) {
+      group.members.push(...added);
+      await group.save();
+
+      await Designer.findByIdAndUpdate(designerId, {
+        $inc: { "lifetimeCounts.totalOrdersCreated": added.length },
+      });
+
+      logActivity({
+        designerId,
+        action: "add_group_members",
+        entity: "order",
+        entityId: id,
+        details: `Added ${added.length} guest${added.length === 1 ? "" : "s"} to "${group.title}"`,
+        metadata: { added: added.length, clientsCreated },
+      });
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: `${added.length} guest${added.length === 1 ? "" : "s"} added`,
+        data: {
+          added: added.length,
+          skipped: toAdd.length - added.length,
+          clientsCreated,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("POST /api/group-orders/[id]/members error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*  DELETE /api/group-orders/[id]/members?memberId=...                         */
+/*  Remove a guest from the group. Their order is unlinked, not deleted —    */
+/*  money already paid stays on record; cancel the order separately.        */
+/* -------------------------------------------------------------------------- */
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "edit_order");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
+    const { id } = await params;
+    const memberId = new URL(request.url).searchParams.get("memberId");
+    if (!memberId) {
+      return NextResponse.json(
+        { success: false, error: "memberId is required" },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const group = await GroupOrder.findOne({ _id: id, designerId });
+    if (!group) {
+      return NextResponse.json(
+        { success: false, error: "Group not found" },
+        { status: 404 }
+      );
+    }
+
+    const member = (group.members as IGroupMember[]).find((m) => String(m._id) === memberId);
+    if (!member) {
+      return NextResponse.json(
+        { success: false, error: "Guest not found in this group" },
+        { status: 404 }
+      );
+    }
+
+    group.members = (group.members as IGroupMember[]).filter((m) => String(m._id) !== memberId);
+    await group.save();
+
+    await Order.updateOne(
+      { _id: member.orderId, designerId },
+      { $unset: { groupOrderId: 1 } }
+    );
+
+    logActivity({
+      designerId,
+      action: "remove_group_member",
+      entity: "order",
+      entityId: id,
+      details: `Removed a guest from "${group.title}"`,
+      metadata: { clientId: String(member.clientId), orderId: String(member.orderId) },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Guest removed from group",
+    });
+  } catch (error) {
+    console.error("DELETE /api/group-orders/[id]/members error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,222 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { GroupOrder } from "@/lib/models/group-order";
+import { logActivity } from "@/lib/models/activity-log";
+import { groupOrderSchema } from "@/lib/validations";
+import { buildGroupProgress } from "@/lib/group-orders";
+import { APP_URL } from "@/lib/constants";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+
+const updateSchema = groupOrderSchema.partial().extend({
+  status: z.enum(["open", "closed", "completed", "cancelled"]).optional(),
+});
+
+/* -------------------------------------------------------------------------- */
+/*  GET /api/group-orders/[id]                                                 */
+/*  Group details with per-guest measurement / payment / fabric progress.    */
+/* -------------------------------------------------------------------------- */
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
+    const { id } = await params;
+
+    await connectDB();
+
+    const group = await GroupOrder.findOne({ _id: id, designerId }).lean();
+    if (!group) {
+      return NextResponse.json(
+        { success: false, error: "Group not found" },
+        { status: 404 }
+      );
+    }
+
+    const progress = await buildGroupProgress(group);
+
+    return NextResponse.json({
+      success: true,
+      data: JSON.parse(
+        JSON.stringify({
+          ...group,
+          coordinatorUrl: `${APP_URL}/group/${group.coordinatorCode}`,
+          progress,
+        })
+      ),
+    });
+  } catch (error) {
+    console.error("GET /api/group-orders/[id] error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*  PUT /api/group-orders/[id]                                                 */
+/*  Update group details, the shared fabric purchase, or the group status.   */
+/*  A new pricePerGuest applies to guests added afterwards — existing member */
+/*  orders keep the price their guests were quoted.                           */
+/* -------------------------------------------------------------------------- */
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "edit_order");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
+    const { id } = await params;
+    const body = await request.json();
+
+    const parsed = updateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Validation failed",
+          details: parsed.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const group = await GroupOrder.findOne({ _id: id, designerId });
+    if (!group) {
+      return NextResponse.json(
+        { success: false, error: "Group not found" },
+        { status: 404 }
+      );
+    }
+
+    const { eventDate, fabric, ...data } = parsed.data;
+    Object.assign(group, data);
+    if (eventDate !== undefined) {
+      group.eventDate = eventDate ? new Date(eventDate) : undefined;
+    }
+    if (fabric) {
+      const current = group.fabric || { widthCm: 114 };
+      const boughtMore =
+        fabric.purchasedYards !== undefined &&
+        fabric.purchasedYards !== (current.purchasedYards || 0);
+      group.fabric = {
+        ...JSON.parse(JSON.stringify(current)),
+        ...fabric,
+        ...(boughtMore ? { purchasedAt: new Date() } : {}),
+      };
+      group.markModified("fabric");
+    }
+
+    await group.save();
+
+    logActivity({
+      designerId,
+      action: "update_group_order",
+      entity: "order",
+      entityId: id,
+      details: `Updated group "${group.title}"`,
+      metadata: { fields: Object.keys(parsed.data) },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Group updated",
+      data: JSON.parse(JSON.stringify(group)),
+    });
+  } catch (error) {
+    console.error("PUT /api/group-orders/[id] error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*  DELETE /api/group-orders/[id]                                              */
+/*  Cancel a group. Member orders are left alone — a guest who has paid      */
+/*  still has a garment coming; cancel their orders individually if needed.  */
+/* -------------------------------------------------------------------------- */
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "delete_order");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
+    const { id } = await params;
+
+    await connectDB();
+
+    const group = await GroupOrder.findOneAndUpdate(
+      { _id: id, designerId },
+      { $set: { status: "cancelled" } },
+      { new: true }
+    );
+    if (!group) {
+      return NextResponse.json(
+        { success: false, error: "Group not found" },
+        { status: 404 }
+      );
+    }
+
+    logActivity({
+      designerId,
+      action: "cancel_group_order",
+      entity: "order",
+      entityId: id,
+      details: `Cancelled group "${group.title}"`,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Group cancelled",
+    });
+  } catch (error) {
+    console.error("DELETE /api/group-orders/[id] error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,145 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { nanoid } from "nanoid";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { GroupOrder } from "@/lib/models/group-order";
+import { logActivity } from "@/lib/models/activity-log";
+import { groupOrderSchema } from "@/lib/validations";
+import { loadDesignerForAction } from "@/lib/access-control";
+import { APP_URL } from "@/lib/constants";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  GET /api/group-orders                                                      */
+/*  List the designer's aso-ebi / event groups, newest first.                 */
+/* -------------------------------------------------------------------------- */
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
+
+    await connectDB();
+
+    const groups = await GroupOrder.find({ designerId })
+      .sort({ createdAt: -1 })
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: groups.map((g) => ({
+        _id: String(g._id),
+        title: g.title,
+        eventName: g.eventName,
+        eventDate: g.eventDate,
+        coordinatorName: g.coordinatorName,
+        defaultGarmentType: g.defaultGarmentType,
+        pricePerGuest: g.pricePerGuest,
+        fabric: g.fabric,
+        status: g.status,
+        memberCount: (g.members || []).length,
+        coordinatorUrl: `${APP_URL}/group/${g.coordinatorCode}`,
+        createdAt: g.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error("GET /api/group-orders error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*  POST /api/group-orders                                                     */
+/*  Create a group. Guests are added afterwards via ./[id]/members.           */
+/* -------------------------------------------------------------------------- */
+
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "create_order");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
+    const body = await request.json();
+
+    const parsed = groupOrderSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Validation failed",
+          details: parsed.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const gate = await loadDesignerForAction(designerId);
+    if (!gate.ok) {
+      return NextResponse.json(
+        { success: false, error: gate.message, suspended: gate.reason === "suspended" },
+        { status: gate.status },
+      );
+    }
+
+    const { eventDate, fabric, ...data } = parsed.data;
+    const group = await GroupOrder.create({
+      ...data,
+      designerId,
+      eventDate: eventDate ? new Date(eventDate) : undefined,
+      fabric: { widthCm: 114, ...fabric },
+      coordinatorCode: nanoid(10),
+      members: [],
+      status: "open",
+    });
+
+    logActivity({
+      designerId,
+      action: "create_group_order",
+      entity: "order",
+      entityId: String(group._id),
+      details: `Created group "${group.title}" (${group.defaultGarmentType}, ₦${group.pricePerGuest.toLocaleString()} per guest)`,
+      metadata: { title: group.title, eventDate: group.eventDate },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Group created",
+        data: {
+          ...JSON.parse(JSON.stringify(group)),
+          coordinatorUrl: `${APP_URL}/group/${group.coordinatorCode}`,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("POST /api/group-orders error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
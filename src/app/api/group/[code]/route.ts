@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import connectDB from "@/lib/db";
+import { buildCoordinatorView } from "@/lib/group-orders";
+
+/* -------------------------------------------------------------------------- */
+/*  GET /api/group/[code]                                                      */
+/*  Public — coordinator view of an aso-ebi group: who has been measured,    */
+/*  who has paid, and how much fabric the group needs.                        */
+/* -------------------------------------------------------------------------- */
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  try {
+    const { code } = await params;
+
+    await connectDB();
+
+    const view = await buildCoordinatorView(code);
+    if (!view) {
+      return NextResponse.json(
+        { success: false, error: "Group not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ success: true, data: view });
+  } catch (error) {
+    console.error("GET /api/group/[code] error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,202 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import mongoose from "mongoose";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { Material } from "@/lib/models/material";
+import { StockMovement } from "@/lib/models/stock-movement";
+import { Order } from "@/lib/models/order";
+import { availableOf } from "@/lib/inventory";
+import { materialSchema } from "@/lib/validations";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+
+/** Movements shown on the material page */
+const HISTORY_LIMIT = 50;
+
+/* -------------------------------------------------------------------------- */
+/*  GET /api/inventory/[id]                                                    */
+/*  A material with its recent stock movements (order titles attached).      */
+/* -------------------------------------------------------------------------- */
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
+    const { id } = await params;
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ success: false, error: "Material not found" }, { status: 404 });
+    }
+
+    await connectDB();
+
+    const material = await Material.findOne({ _id: id, designerId })
+      .lean<{ onHand: number; reserved: number }>();
+    if (!material) {
+      return NextResponse.json({ success: false, error: "Material not found" }, { status: 404 });
+    }
+
+    const movements = await StockMovement.find({ materialId: id, designerId })
+      .sort({ createdAt: -1 })
+      .limit(HISTORY_LIMIT)
+      .lean<{ orderId?: mongoose.Types.ObjectId }[]>();
+
+    const orderIds = [...new Set(movements.filter((m) => m.orderId).map((m) => String(m.orderId)))];
+    const orders = await Order.find({ _id: { $in: orderIds }, designerId })
+      .select("title")
+      .lean<{ _id: mongoose.Types.ObjectId; title: string }[]>();
+    const titles = new Map(orders.map((o) => [String(o._id), o.title]));
+
+    return NextResponse.json({
+      success: true,
+      data: JSON.parse(
+        JSON.stringify({
+          ...material,
+          available: availableOf(material),
+          movements: movements.map((m) => ({
+            ...m,
+            orderTitle: m.orderId ? titles.get(String(m.orderId)) : undefined,
+          })),
+        })
+      ),
+    });
+  } catch (error) {
+    console.error("GET /api/inventory/[id] error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*  PATCH /api/inventory/[id]                                                  */
+/*  Edit a material's details. Stock levels only move through                 */
+/*  /api/inventory/[id]/stock and order reservations.                         */
+/* -------------------------------------------------------------------------- */
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_inventory");
+    if (denied) return denied;
+    const designerId = workspace.designerId;
+    const { id } = await params;
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ success: false, error: "Material not found" }, { status: 404 });
+    }
+
+    const parsed = materialSchema.omit({ openingStock: true }).partial().safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || "Validation failed",
+          details: parsed.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const material = await Material.findOneAndUpdate(
+      { _id: id, designerId, archived: { $ne: true } },
+      { $set: parsed.data },
+      { new: true, runValidators: true }
+    );
+    if (!material) {
+      return NextResponse.json({ success: false, error: "Material not found" }, { status: 404 });
+    }
+
+    // A new reorder level re-arms the low-stock alert
+    if (parsed.data.reorderLevel !== undefined && material.lowStockAlertedAt) {
+      material.lowStockAlertedAt = null;
+      await material.save();
+    }
+
+    return NextResponse.json({ success: true, data: JSON.parse(JSON.stringify(material)) });
+  } catch (error) {
+    console.error("PATCH /api/inventory/[id] error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*  DELETE /api/inventory/[id]                                                 */
+/*  Archive a material — its movements stay, so order costs don't change.    */
+/*  Refused while orders still have some of it reserved.                      */
+/* -------------------------------------------------------------------------- */
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_inventory");
+    if (denied) return denied;
+    const designerId = workspace.designerId;
+    const { id } = await params;
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ success: false, error: "Material not found" }, { status: 404 });
+    }
+
+    await connectDB();
+
+    const material = await Material.findOneAndUpdate(
+      { _id: id, designerId, archived: { $ne: true }, reserved: { $lte: 0 } },
+      { $set: { archived: true } },
+      { new: true }
+    );
+    if (!material) {
+      const exists = await Material.exists({ _id: id, designerId, archived: { $ne: true } });
+      return exists
+        ? NextResponse.json(
+            { success: false, error: "Some of this material is reserved for orders — release it first" },
+            { status: 409 }
+          )
+        : NextResponse.json({ success: false, error: "Material not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: { archived: true } });
+  } catch (error) {
+    console.error("DELETE /api/inventory/[id] error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
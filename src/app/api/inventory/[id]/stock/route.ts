@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { adjustStock, availableOf, receiveStock } from "@/lib/inventory";
+import { stockMovementSchema } from "@/lib/validations";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  POST /api/inventory/[id]/stock                                             */
+/*  kind "receipt": stock in from a supplier (updates the average cost)      */
+/*  kind "adjust":  stock-take — set on-hand to what was counted             */
+/* -------------------------------------------------------------------------- */
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_inventory");
+    if (denied) return denied;
+    const designerId = workspace.designerId;
+    const { id } = await params;
+
+    const parsed = stockMovementSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || "Validation failed",
+          details: parsed.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const input = parsed.data;
+    const result = input.kind === "receipt"
+      ? await receiveStock(designerId, workspace.userId, id, input)
+      : await adjustStock(designerId, workspace.userId, id, input);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.message },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { ...JSON.parse(JSON.stringify(result.doc)), available: availableOf(result.doc) },
+    });
+  } catch (error) {
+    console.error("POST /api/inventory/[id]/stock error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { Material } from "@/lib/models/material";
+import { availableOf, receiveStock } from "@/lib/inventory";
+import { materialSchema } from "@/lib/validations";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  GET /api/inventory                                                         */
+/*  Materials in stock with what's available (on hand − reserved), and the   */
+/*  value of the shelf at moving-average cost.                                */
+/* -------------------------------------------------------------------------- */
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
+
+    await connectDB();
+
+    const materials = await Material.find({ designerId, archived: { $ne: true } })
+      .sort({ category: 1, name: 1 })
+      .lean<{ onHand: number; reserved: number; costPerUnit: number; reorderLevel: number }[]>();
+
+    const rows = materials.map((m) => {
+      const available = availableOf(m);
+      return { ...m, available, lowStock: m.reorderLevel > 0 && available <= m.reorderLevel };
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        materials: JSON.parse(JSON.stringify(rows)),
+        stockValue: Math.round(rows.reduce((sum, m) => sum + Math.max(0, m.onHand) * m.costPerUnit, 0)),
+        lowStockCount: rows.filter((m) => m.lowStock).length,
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/inventory error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*  POST /api/inventory                                                        */
+/*  Add a material. Opening stock is recorded as its first receipt.          */
+/* -------------------------------------------------------------------------- */
+
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_inventory");
+    if (denied) return denied;
+    const designerId = workspace.designerId;
+
+    const parsed = materialSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || "Validation failed",
+          details: parsed.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+    const { openingStock, ...fields } = parsed.data;
+
+    await connectDB();
+
+    let material = await Material.create({ ...fields, designerId });
+
+    if (openingStock) {
+      const result = await receiveStock(designerId, workspace.userId, String(material._id), {
+        quantity: openingStock,
+        unitCost: fields.costPerUnit,
+        supplier: fields.supplier,
+        note: "Opening stock",
+      });
+      if (result.ok) material = result.doc;
+    }
+
+    return NextResponse.json(
+      { success: true, data: JSON.parse(JSON.stringify(material)) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("POST /api/inventory error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -6,13 +6,17 @@ import { ManualPayment, type ManualPaymentPurpose } from "@/lib/models/manual-pa
 import { Designer } from "@/lib/models/designer";
 import { Notification } from "@/lib/models/notification";
 import { notifyAdmin } from "@/lib/admin-notify";
+import { decodeImageDataUrl, storeImage, InvalidImageError } from "@/lib/media-storage";
 import {
   SUBSCRIPTION_PLANS,
   SMS_PACKS,
+  CREDIT_PACKS,
   STUDIO_ADDON,
   BOOST_PRICE_NGN,
   BANK_DETAILS,
 } from "@/lib/constants";
+import { getSubscriptionPrice } from "@/lib/subscription";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  /api/manual-payments                                                       */
@@ -34,6 +38,7 @@ interface PostBody {
   amount?: number;
   payload?: {
     planId?: "free" | "plus" | "pro";
+    interval?: "monthly" | "annual";
     orderId?: string;
     packId?: string;
     durationDays?: number;
@@ -55,7 +60,7 @@ function expectedAmount(
 ): number | null {
   if (purpose === "subscription") {
     const plan = SUBSCRIPTION_PLANS.find((p) => p.id === payload?.planId);
-    return plan && plan.price > 0 ? plan.price : null;
+    return plan && plan.price > 0 ? getSubscriptionPrice(plan.id, payload?.interval) : null;
   }
   if (purpose === "boost_post") return BOOST_PRICE_NGN;
   if (purpose === "sms_pack") {
@@ -63,20 +68,28 @@ function expectedAmount(
     return pack ? pack.price : null;
   }
   if (purpose === "studio_addon") return STUDIO_ADDON.price;
+  if (purpose === "scan_credits") {
+    const pack = CREDIT_PACKS.find((p) => p.id === payload?.packId);
+    return pack ? pack.price : null;
+  }
   return null;
 }
 
 export async function POST(request: Request) {
   try {
     const session = await getServerSession(authOptions);
-    const userId = (session?.user as { id?: string } | undefined)?.id;
-    if (!userId) {
+    if (!session?.user) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_billing");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
 
     const body = (await request.json()) as PostBody;
     const purpose = body.purpose;
-    if (!purpose || !["subscription", "boost_post", "sms_pack", "studio_addon"].includes(purpose)) {
+    if (!purpose || !["subscription", "boost_post", "sms_pack", "studio_addon", "scan_credits"].includes(purpose)) {
       return NextResponse.json({ success: false, error: "Invalid purpose" }, { status: 400 });
     }
 
@@ -85,6 +98,10 @@ export async function POST(request: Request) {
       return NextResponse.json({ success: false, error: "Invalid amount" }, { status: 400 });
     }
 
+    if (body.payload?.interval && body.payload.interval !== "annual") {
+      body.payload.interval = "monthly";
+    }
+
     const expected = expectedAmount(purpose, body.payload);
     if (!expected) {
       return NextResponse.json(
@@ -108,12 +125,13 @@ export async function POST(request: Request) {
 
     // Block duplicate pending submissions for the same purpose+payload combo
     const dupQuery: Record<string, unknown> = {
-      designerId: userId,
+      designerId,
       status: "pending",
       purpose,
     };
     if (body.payload?.orderId) dupQuery["payload.orderId"] = body.payload.orderId;
     if (body.payload?.planId)  dupQuery["payload.planId"]  = body.payload.planId;
+    if (body.payload?.interval) dupQuery["payload.interval"] = body.payload.interval;
     if (body.payload?.packId)  dupQuery["payload.packId"]  = body.payload.packId;
     const dup = await ManualPayment.findOne(dupQuery).lean();
     if (dup) {
@@ -127,17 +145,41 @@ export async function POST(request: Request) {
       );
     }
 
-    const designer = await Designer.findById(userId).select("name businessName email").lean();
+    const designer = await Designer.findById(designerId).select("name businessName email").lean();
     const d = (designer as unknown as Record<string, unknown> | null) ?? null;
 
+    // Bank screenshots go to private media storage; only a signed link
+    // (minted by the admin list) can read them back.
+    let proofImage = body.proofImage;
+    const proofBytes = proofImage ? decodeImageDataUrl(proofImage) : null;
+    if (proofBytes) {
+      try {
+        const stored = await storeImage({
+          designerId,
+          folder: "payment-proofs",
+          input: proofBytes,
+          visibility: "private",
+        });
+        proofImage = stored.url;
+      } catch (err) {
+        if (err instanceof InvalidImageError) {
+          return NextResponse.json(
+            { success: false, error: "Proof image could not be read — try another screenshot." },
+            { status: 400 },
+          );
+        }
+        throw err;
+      }
+    }
+
     const reference = shortReference();
     const record = await ManualPayment.create({
-      designerId: userId,
+      designerId,
       purpose,
       amount,
       reference,
       payload: body.payload || {},
-      proofImage:   body.proofImage,
+      proofImage,
       senderName:   body.senderName,
       senderBank:   body.senderBank,
       designerNote: body.designerNote,
@@ -146,7 +188,7 @@ export async function POST(request: Request) {
 
     // Heads-up notification to the designer
     Notification.create({
-      designerId: userId,
+      designerId,
       type: "system",
       title: "📝 Payment submitted",
       message: `We've received your ${purpose.replace("_", " ")} payment for review. We'll activate it as soon as it's verified.`,
@@ -162,7 +204,7 @@ export async function POST(request: Request) {
       title: `💰 New ${purpose.replace("_", " ")} payment — ₦${amount.toLocaleString("en-NG")}`,
       message: `${designerLabel} submitted reference ${reference}. Verify to activate.`,
       link: "/admin/payments",
-      designerId: userId,
+      designerId,
       meta: {
         reference,
         amount,
@@ -196,13 +238,14 @@ export async function POST(request: Request) {
 export async function GET() {
   try {
     const session = await getServerSession(authOptions);
-    const userId = (session?.user as { id?: string } | undefined)?.id;
-    if (!userId) {
+    if (!session?.user) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
 
     await connectDB();
-    const rows = await ManualPayment.find({ designerId: userId })
+    const rows = await ManualPayment.find({ designerId })
       .sort({ createdAt: -1 })
       .limit(50)
       .lean();
@@ -4,8 +4,8 @@ import mongoose from "mongoose";
 import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Notification } from "@/lib/models/notification";
-import { Order } from "@/lib/models/order";
 import { CalendarEvent } from "@/lib/models/calendar-event";
+import { getWorkspace } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/notifications                                                     */
@@ -22,14 +22,15 @@ export async function GET() {
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
     const designerObjectId = new mongoose.Types.ObjectId(designerId);
     const now = new Date();
 
     await connectDB();
 
     // Auto-generate notifications for current conditions
-    await generateNotifications(designerId, designerObjectId, now);
+    await generateNotifications(designerObjectId, now);
 
     // Fetch recent notifications (unread first, then by date)
     const notifications = await Notification.find({ designerId: designerObjectId })
@@ -73,7 +74,8 @@ export async function PUT(request: Request) {
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
     const designerObjectId = new mongoose.Types.ObjectId(designerId);
     const body = await request.json();
 
@@ -103,22 +105,21 @@ export async function PUT(request: Request) {
 
 /* -------------------------------------------------------------------------- */
 /*  Auto-generate notifications                                                */
+/*  Due-date and outstanding-payment notices come from the daily jobs in      */
+/*  lib/job-handlers; only calendar events are still generated on read.       */
 /* -------------------------------------------------------------------------- */
 
 async function generateNotifications(
-  designerId: string,
   designerObjectId: mongoose.Types.ObjectId,
   now: Date
 ) {
   const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  const threeDaysFromNow = new Date(today.getTime() + 3 * 24 * 60 * 60 * 1000);
-  const todayKey = today.toISOString().split("T")[0];
 
   // Check if we already generated today (avoid duplicates)
   const existingToday = await Notification.findOne({
     designerId: designerObjectId,
     createdAt: { $gte: today },
-    type: { $in: ["overdue_payment", "deadline_approaching", "event_prep"] },
+    type: "event_prep",
   });
   if (existingToday) return;
 
@@ -130,53 +131,7 @@ async function generateNotifications(
     link?: string;
   }[] = [];
 
-  // 1. Overdue payments (orders delivered but not fully paid)
-  const overdueOrders = await Order.find({
-    designerId,
-    status: "delivered",
-    paymentStatus: { $in: ["unpaid", "partial"] },
-    isDeleted: { $ne: true },
-  })
-    .select("title price depositPaid clientId")
-    .limit(5)
-    .lean();
-
-  for (const order of overdueOrders) {
-    const owed = (order.price || 0) - (order.depositPaid || 0);
-    if (owed > 0) {
-      notifications.push({
-        designerId: designerObjectId,
-        type: "overdue_payment",
-        title: "Payment Outstanding",
-        message: `"${order.title}" has ₦${owed.toLocaleString()} outstanding. Follow up to collect.`,
-        link: `/orders/${order._id}`,
-      });
-    }
-  }
-
-  // 2. Approaching deadlines (orders due within 3 days)
-  const urgentOrders = await Order.find({
-    designerId,
-    status: { $nin: ["delivered", "cancelled"] },
-    dueDate: { $gte: today, $lte: threeDaysFromNow },
-    isDeleted: { $ne: true },
-  })
-    .select("title dueDate status")
-    .lean();
-
-  for (const order of urgentOrders) {
-    const dueDate = new Date(order.dueDate);
-    const daysLeft = Math.ceil((dueDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-    notifications.push({
-      designerId: designerObjectId,
-      type: "deadline_approaching",
-      title: daysLeft <= 0 ? "Deadline Today!" : `Due in ${daysLeft} day${daysLeft !== 1 ? "s" : ""}`,
-      message: `"${order.title}" is ${daysLeft <= 0 ? "due today" : `due in ${daysLeft} day${daysLeft !== 1 ? "s" : ""}`}. Current status: ${order.status}.`,
-      link: `/orders/${order._id}`,
-    });
-  }
-
-  // 3. Upcoming events within 5 days
+  // Upcoming events within 5 days
   const fiveDaysFromNow = new Date(today.getTime() + 5 * 24 * 60 * 60 * 1000);
   const upcomingEvents = await CalendarEvent.find({
     designerId: designerObjectId,
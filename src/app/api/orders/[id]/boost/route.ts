@@ -6,6 +6,7 @@ import connectDB from "@/lib/db";
 import { Designer } from "@/lib/models/designer";
 import { Order } from "@/lib/models/order";
 import { BOOST_PRICE_NGN, BOOST_DURATION_DAYS } from "@/lib/constants";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  POST /api/orders/[id]/boost                                                */
@@ -24,10 +25,14 @@ export async function POST(
 ) {
   try {
     const session = await getServerSession(authOptions);
-    const userId = (session?.user as { id?: string } | undefined)?.id;
-    if (!userId) {
+    if (!session?.user) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_billing");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
 
     const PAYSTACK_SECRET = process.env.PAYSTACK_SECRET_KEY;
     if (!PAYSTACK_SECRET) {
@@ -46,7 +51,7 @@ export async function POST(
 
     const order = await Order.findOne({
       _id: id,
-      designerId: userId,
+      designerId,
       isDeleted: { $ne: true },
     }).lean();
     if (!order) {
@@ -68,7 +73,7 @@ export async function POST(
       );
     }
 
-    const designer = await Designer.findById(userId).select("email").lean();
+    const designer = await Designer.findById(designerId).select("email").lean();
     if (!designer) {
       return NextResponse.json({ success: false, error: "Designer not found" }, { status: 404 });
     }
@@ -91,7 +96,7 @@ export async function POST(
         callback_url: `${callbackBase}/orders/${id}?boost=success`,
         metadata: {
           purpose: "boost_post",
-          designerId: userId,
+          designerId,
           orderId: id,
           durationDays: BOOST_DURATION_DAYS,
           orderTitle: o.title,
@@ -4,6 +4,7 @@ import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Order } from "@/lib/models/order";
 import { logActivity } from "@/lib/models/activity-log";
+import { getWorkspace } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  POST /api/orders/[id]/correction-request                                   */
@@ -23,7 +24,8 @@ export async function POST(
       );
     }
 
-    const designerId = session.user.id;
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
     const { id } = await params;
     const body = await request.json();
     const { reason, type } = body;
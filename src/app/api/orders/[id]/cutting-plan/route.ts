@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { Order } from "@/lib/models/order";
+import { Client } from "@/lib/models/client";
+import { getOrderLines, type OrderLine } from "@/lib/order-items";
+import { estimateFabricFromInches, FABRIC_WIDTHS } from "@/lib/fabric-calculator";
+import { generatePatternPlan } from "@/lib/pattern-panels";
+import { supportsDrafting } from "@/lib/pattern-drafting";
+import { cmToIn } from "@/lib/units";
+import { getWorkspace } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  GET /api/orders/[id]/cutting-plan                                          */
+/*  Fabric estimate + pattern panels for every line on an order, and the     */
+/*  yardage to buy for the whole order.                                       */
+/*                                                                              */
+/*  Each line uses its own locked measurement snapshot and fit. Only lines   */
+/*  not yet locked (legacy orders before they reach production) fall back to */
+/*  the client's current measurements — see lib/order-measurements.           */
+/*  `drafted` marks lines with block patterns (SVG / tiled PDF) available.    */
+/* -------------------------------------------------------------------------- */
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
+    const { id } = await params;
+
+    await connectDB();
+
+    const order = await Order.findOne({ _id: id, designerId, isDeleted: { $ne: true } }).lean();
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: "Order not found" },
+        { status: 404 }
+      );
+    }
+
+    const client = await Client.findById((order as { clientId: unknown }).clientId)
+      .select("measurements")
+      .lean();
+    const clientMeasurements =
+      ((client as { measurements?: Record<string, number> } | null)?.measurements) || {};
+
+    const lines = getOrderLines(JSON.parse(JSON.stringify(order)) as Parameters<typeof getOrderLines>[0]);
+
+    const plans = lines.map((line: OrderLine) => {
+      const measurements = line.measurements || clientMeasurements;
+      const widthCm = line.fabricWidthCm || FABRIC_WIDTHS[0].value;
+      const fabric = estimateFabricFromInches(line.garmentType, measurements, widthCm);
+      const fit = line.fit || "standard";
+      const pattern = generatePatternPlan(measurements, line.garmentType, fit, Math.round(cmToIn(widthCm)));
+
+      return {
+        itemId: line._id,
+        garmentType: line.garmentType,
+        quantity: line.quantity,
+        status: line.status,
+        fabricWidthCm: widthCm,
+        fit,
+        measurementSource: line.measurements ? "snapshot" : "client",
+        measuredAt: line.measurements ? line.measuredAt ?? null : null,
+        fabric: fabric
+          ? {
+              ...fabric,
+              totalYardsForQuantity: fabric.totalYards * line.quantity,
+            }
+          : null,
+        pattern,
+        // Shaped pieces from /api/orders/[id]/pattern
+        drafted: supportsDrafting(line.garmentType),
+      };
+    });
+
+    const totalYards = plans.reduce(
+      (sum, p) => sum + (p.fabric?.totalYardsForQuantity || 0),
+      0
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        lines: plans,
+        totalYards: Math.ceil(totalYards * 4) / 4,
+        unsupported: plans.filter((p) => !p.fabric).map((p) => p.garmentType),
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/orders/[id]/cutting-plan error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
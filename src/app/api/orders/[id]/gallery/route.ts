@@ -3,13 +3,23 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Order } from "@/lib/models/order";
+import {
+  decodeImageDataUrl,
+  deleteStoredImage,
+  storeImage,
+  InvalidImageError,
+} from "@/lib/media-storage";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 const MAX_IMAGES = 6;
-const MAX_SIZE_BYTES = 500_000; // ~500KB per image (base64)
+const MAX_FABRIC_IMAGES = 4;
+const MAX_SIZE_BYTES = 8_000_000; // raw upload; stored copy is resized to ≤1600px WebP
 
 /* -------------------------------------------------------------------------- */
 /*  POST /api/orders/[id]/gallery                                             */
-/*  Add an image to the order gallery (base64 data URL)                       */
+/*  Add an image to the order gallery or fabric images.                       */
+/*  Body: multipart { file, type? } or JSON { image: dataUrl, type? }        */
+/*  The image goes to media storage; the order keeps its /media/ path.        */
 /* -------------------------------------------------------------------------- */
 
 export async function POST(
@@ -25,22 +35,39 @@ export async function POST(
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "edit_order");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const { id } = await params;
-    const body = await request.json();
-    const { image, type = "gallery" } = body; // type: "gallery" | "fabric"
 
-    if (!image || typeof image !== "string" || !image.startsWith("data:image/")) {
+    let input: Buffer | null = null;
+    let type = "gallery"; // "gallery" | "fabric"
+
+    if ((request.headers.get("content-type") || "").startsWith("multipart/form-data")) {
+      const form = await request.formData();
+      const file = form.get("file");
+      type = String(form.get("type") || "gallery");
+      if (file instanceof File && file.type.startsWith("image/")) {
+        input = Buffer.from(await file.arrayBuffer());
+      }
+    } else {
+      const body = await request.json();
+      type = body.type || "gallery";
+      if (typeof body.image === "string") input = decodeImageDataUrl(body.image);
+    }
+
+    if (!input || input.length === 0) {
       return NextResponse.json(
         { success: false, error: "Invalid image data" },
         { status: 400 }
       );
     }
 
-    if (image.length > MAX_SIZE_BYTES * 1.37) {
-      // base64 is ~37% larger than raw
+    if (input.length > MAX_SIZE_BYTES) {
       return NextResponse.json(
-        { success: false, error: "Image too large. Max 500KB." },
+        { success: false, error: "Image too large. Max 8MB." },
         { status: 400 }
       );
     }
@@ -55,42 +82,53 @@ export async function POST(
       );
     }
 
-    if (type === "fabric") {
-      // Fabric images (up to 4)
-      if ((order.fabricImages || []).length >= 4) {
-        return NextResponse.json(
-          { success: false, error: "Maximum 4 fabric images allowed" },
-          { status: 400 }
-        );
-      }
-      order.fabricImages = order.fabricImages || [];
-      order.fabricImages.push(image);
+    const isFabric = type === "fabric";
+    const list: string[] = (isFabric ? order.fabricImages : order.gallery) || [];
+    const limit = isFabric ? MAX_FABRIC_IMAGES : MAX_IMAGES;
+
+    if (list.length >= limit) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: isFabric
+            ? `Maximum ${MAX_FABRIC_IMAGES} fabric images allowed`
+            : `Maximum ${MAX_IMAGES} images allowed`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const stored = await storeImage({
+      designerId,
+      folder: isFabric ? "fabric" : "gallery",
+      input,
+    });
+
+    if (isFabric) {
+      order.fabricImages = [...list, stored.url];
       await order.save();
       return NextResponse.json({
         success: true,
         message: "Fabric image added",
-        data: { count: order.fabricImages.length },
+        data: { count: order.fabricImages.length, url: stored.url, thumbUrl: stored.thumbUrl },
       });
     }
 
-    // Gallery images
-    if ((order.gallery || []).length >= MAX_IMAGES) {
-      return NextResponse.json(
-        { success: false, error: `Maximum ${MAX_IMAGES} images allowed` },
-        { status: 400 }
-      );
-    }
-
-    order.gallery = order.gallery || [];
-    order.gallery.push(image);
+    order.gallery = [...list, stored.url];
     await order.save();
 
     return NextResponse.json({
       success: true,
       message: "Image added to gallery",
-      data: { count: order.gallery.length },
+      data: { count: order.gallery.length, url: stored.url, thumbUrl: stored.thumbUrl },
     });
   } catch (error) {
+    if (error instanceof InvalidImageError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
     console.error("POST /api/orders/[id]/gallery error:", error);
     return NextResponse.json(
       { success: false, error: "Internal server error" },
@@ -117,7 +155,11 @@ export async function DELETE(
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "edit_order");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const { id } = await params;
     const { searchParams } = new URL(request.url);
     const index = parseInt(searchParams.get("index") || "-1", 10);
@@ -139,8 +181,9 @@ export async function DELETE(
       );
     }
 
-    order.gallery.splice(index, 1);
+    const [removed] = order.gallery.splice(index, 1);
     await order.save();
+    await deleteStoredImage(removed);
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,144 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { Order, type IOrderItem } from "@/lib/models/order";
+import { logActivity } from "@/lib/models/activity-log";
+import { loadWorkflow } from "@/lib/designer-workflow";
+import {
+  getNextStatuses,
+  getStatusLabel,
+  isInProduction,
+  isValidTransition,
+} from "@/lib/order-transitions";
+import { FIT_OPTIONS, type FitType } from "@/lib/ease-allowance";
+import { cuttingMeasurementsFor } from "@/lib/order-items";
+import { lockOrderMeasurements } from "@/lib/order-measurements";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  PATCH /api/orders/[id]/items/[itemId]                                      */
+/*  Update one line on a multi-garment order.                                 */
+/*  Body: { status?, fit?, fabricWidthCm?, notes? }                            */
+/*  Line status moves through the same workflow as the order itself, so the  */
+/*  cap can be "ready" while the agbada is still at "sewing".                 */
+/*  Changing `fit` re-eases the line's locked snapshot — it never re-reads   */
+/*  the client (see lib/order-measurements).                                  */
+/* -------------------------------------------------------------------------- */
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "edit_order");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
+    const { id, itemId } = await params;
+    const body = (await request.json()) as {
+      status?: string;
+      fit?: FitType;
+      fabricWidthCm?: number;
+      notes?: string;
+    };
+
+    await connectDB();
+
+    const order = await Order.findOne({ _id: id, designerId, isDeleted: { $ne: true } });
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: "Order not found" },
+        { status: 404 }
+      );
+    }
+
+    const item = (order.items as IOrderItem[]).find((i) => String(i._id) === itemId);
+    if (!item) {
+      return NextResponse.json(
+        { success: false, error: "Item not found" },
+        { status: 404 }
+      );
+    }
+
+    const previousStatus = item.status;
+    if (body.status && body.status !== item.status) {
+      const workflow = await loadWorkflow(designerId);
+      if (!isValidTransition(item.status, body.status, workflow)) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Cannot change "${item.garmentType}" from "${getStatusLabel(item.status, workflow)}" to "${getStatusLabel(body.status, workflow)}"`,
+            allowedTransitions: getNextStatuses(item.status, workflow),
+          },
+          { status: 400 }
+        );
+      }
+      item.status = body.status;
+    }
+
+    if (body.fit !== undefined) {
+      if (!FIT_OPTIONS.some((f) => f.value === body.fit)) {
+        return NextResponse.json(
+          { success: false, error: "Fit must be fitted, standard or loose" },
+          { status: 400 }
+        );
+      }
+      item.fit = body.fit;
+      item.cuttingMeasurements = cuttingMeasurementsFor(item.garmentType, body.fit, item.measurements);
+    }
+
+    if (body.fabricWidthCm !== undefined) {
+      const width = Number(body.fabricWidthCm);
+      if (!Number.isFinite(width) || width <= 0) {
+        return NextResponse.json(
+          { success: false, error: "Fabric width must be a positive number" },
+          { status: 400 }
+        );
+      }
+      item.fabricWidthCm = width;
+    }
+
+    if (body.notes !== undefined) {
+      item.notes = String(body.notes).trim() || undefined;
+    }
+
+    order.markModified("items");
+    await order.save();
+
+    if (item.status !== previousStatus) {
+      logActivity({
+        designerId,
+        action: "update_order_item_status",
+        entity: "order",
+        entityId: id,
+        details: `"${item.garmentType}" on "${order.title}" moved to "${item.status}"`,
+        metadata: { itemId, from: previousStatus, to: item.status },
+      });
+      if (isInProduction(item.status)) {
+        await lockOrderMeasurements(designerId, id);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Item updated",
+      data: JSON.parse(JSON.stringify(item)),
+    });
+  } catch (error) {
+    console.error("PATCH /api/orders/[id]/items/[itemId] error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { Order } from "@/lib/models/order";
+import { loadJobCards, renderJobCardsPdf } from "@/lib/job-cards";
+import { getWorkspace } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  GET /api/orders/[id]/job-card?size=a5|a6                                   */
+/*  Printable workshop job card for an order — one page per garment line.   */
+/* -------------------------------------------------------------------------- */
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
+    const { id } = await params;
+    const size = new URL(request.url).searchParams.get("size") === "a6" ? "a6" : "a5";
+
+    await connectDB();
+
+    const order = await Order.findOne({ _id: id, designerId, isDeleted: { $ne: true } }).lean();
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: "Order not found" },
+        { status: 404 }
+      );
+    }
+
+    const cards = await loadJobCards(designerId, [order]);
+    const pdf = await renderJobCardsPdf(cards, size);
+
+    return new NextResponse(pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="job-card-${id}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/orders/[id]/job-card error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
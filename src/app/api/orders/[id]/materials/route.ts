@@ -0,0 +1,173 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import mongoose from "mongoose";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { Order } from "@/lib/models/order";
+import { Material } from "@/lib/models/material";
+import {
+  availableOf,
+  consumeForOrder,
+  getOrderMaterials,
+  releaseForOrder,
+  reserveForOrder,
+  suggestedOrderYards,
+} from "@/lib/inventory";
+import { orderMaterialSchema } from "@/lib/validations";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  GET /api/orders/[id]/materials                                             */
+/*  Materials reserved for / consumed by the order, their cost, and the      */
+/*  yardage the cutting plan estimates for it (the default reservation).     */
+/* -------------------------------------------------------------------------- */
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
+    const { id } = await params;
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ success: false, error: "Order not found" }, { status: 404 });
+    }
+
+    await connectDB();
+
+    const exists = await Order.exists({ _id: id, designerId, isDeleted: { $ne: true } });
+    if (!exists) {
+      return NextResponse.json({ success: false, error: "Order not found" }, { status: 404 });
+    }
+
+    const [materials, suggestedYards] = await Promise.all([
+      getOrderMaterials(designerId, id),
+      suggestedOrderYards(designerId, id),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        materials,
+        suggestedYards,
+        totalCost: materials.reduce((sum, m) => sum + m.cost, 0),
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/orders/[id]/materials error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*  POST /api/orders/[id]/materials                                            */
+/*  Reserve, release or consume a material for the order. Without a          */
+/*  quantity, yard materials reserve / consume the order's estimated          */
+/*  yardage and a release hands back the whole reservation.                   */
+/* -------------------------------------------------------------------------- */
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_inventory");
+    if (denied) return denied;
+    const designerId = workspace.designerId;
+    const { id } = await params;
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ success: false, error: "Order not found" }, { status: 404 });
+    }
+
+    const parsed = orderMaterialSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || "Validation failed",
+          details: parsed.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+    const { materialId, action } = parsed.data;
+
+    await connectDB();
+
+    const order = await Order.findOne({ _id: id, designerId, isDeleted: { $ne: true } })
+      .select("status")
+      .lean<{ status: string }>();
+    if (!order) {
+      return NextResponse.json({ success: false, error: "Order not found" }, { status: 404 });
+    }
+    if (order.status === "cancelled" && action !== "release") {
+      return NextResponse.json(
+        { success: false, error: "This order is cancelled" },
+        { status: 409 }
+      );
+    }
+
+    let quantity = parsed.data.quantity;
+    if (quantity === undefined && action !== "release") {
+      const material = await Material.findOne({ _id: materialId, designerId }).select("unit").lean<{ unit: string }>();
+      quantity = material?.unit === "yards" ? await suggestedOrderYards(designerId, id) : undefined;
+      if (!quantity) {
+        return NextResponse.json(
+          { success: false, error: "Enter how much to use" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const result =
+      action === "reserve"
+        ? await reserveForOrder(designerId, workspace.userId, materialId, id, quantity!)
+        : action === "consume"
+        ? await consumeForOrder(designerId, workspace.userId, materialId, id, quantity!)
+        : await releaseForOrder(designerId, workspace.userId, materialId, id, quantity);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.message },
+        { status: result.status }
+      );
+    }
+
+    const materials = await getOrderMaterials(designerId, id);
+    return NextResponse.json({
+      success: true,
+      data: {
+        material: { ...JSON.parse(JSON.stringify(result.doc)), available: availableOf(result.doc) },
+        materials,
+        totalCost: materials.reduce((sum, m) => sum + m.cost, 0),
+      },
+    });
+  } catch (error) {
+    console.error("POST /api/orders/[id]/materials error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { refreshOrderMeasurements } from "@/lib/order-measurements";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  POST /api/orders/[id]/measurements                                         */
+/*  "Refresh from client" — replace the order's locked measurement snapshot   */
+/*  with the client's current measurements.                                    */
+/*  Body: { note } — required; kept on the order's measurementLog and in the */
+/*  activity log.                                                              */
+/* -------------------------------------------------------------------------- */
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "edit_order");
+    if (denied) return denied;
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const note = typeof body?.note === "string" ? body.note.slice(0, 500) : "";
+
+    await connectDB();
+
+    const result = await refreshOrderMeasurements(workspace.designerId, id, workspace.userId, note);
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.message },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Measurements refreshed from the client record",
+      data: {
+        items: JSON.parse(JSON.stringify(result.doc.items)),
+        measurementsLockedAt: result.doc.measurementsLockedAt,
+        measurementLog: JSON.parse(JSON.stringify(result.doc.measurementLog)),
+      },
+    });
+  } catch (error) {
+    console.error("POST /api/orders/[id]/measurements error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { Order } from "@/lib/models/order";
+import { Client } from "@/lib/models/client";
+import { getOrderLines } from "@/lib/order-items";
+import { draftPattern } from "@/lib/pattern-drafting";
+import { patternToSvg, renderPatternPdf } from "@/lib/pattern-export";
+import { getWorkspace } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  GET /api/orders/[id]/pattern?item=<lineId>&format=svg|pdf                  */
+/*  Drafted block pattern for one garment line — real-size SVG, or a tiled  */
+/*  A4 PDF for printing at home. Uses the line's locked measurements and fit, */
+/*  falling back to the client's current ones like the cutting plan does.   */
+/*  Without `item`, the first line is drafted.                                */
+/* -------------------------------------------------------------------------- */
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const itemId = searchParams.get("item");
+    const format = searchParams.get("format") === "svg" ? "svg" : "pdf";
+
+    await connectDB();
+
+    const order = await Order.findOne({ _id: id, designerId, isDeleted: { $ne: true } }).lean();
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: "Order not found" },
+        { status: 404 }
+      );
+    }
+
+    const lines = getOrderLines(JSON.parse(JSON.stringify(order)) as Parameters<typeof getOrderLines>[0]);
+    const line = itemId ? lines.find((l) => l._id === itemId) : lines[0];
+    if (!line) {
+      return NextResponse.json(
+        { success: false, error: "Item not found" },
+        { status: 404 }
+      );
+    }
+
+    const client = await Client.findById((order as { clientId: unknown }).clientId)
+      .select("name measurements")
+      .lean();
+    const clientDoc = client as { name?: string; measurements?: Record<string, number> } | null;
+    const measurements = line.measurements || clientDoc?.measurements;
+    if (!measurements) {
+      return NextResponse.json(
+        { success: false, error: "This client has no measurements to draft from" },
+        { status: 400 }
+      );
+    }
+
+    const pattern = draftPattern(measurements, line.garmentType, line.fit || "standard");
+    if (!pattern || pattern.pieces.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: pattern?.warnings[0] || `No drafted block for ${line.garmentType} yet — use the cutting plan panels`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const title = [clientDoc?.name, line.garmentType, (order as { title: string }).title]
+      .filter(Boolean)
+      .join(" · ");
+    const filename = `pattern-${line.garmentType.toLowerCase().replace(/[^a-z0-9]+/g, "-")}-${id}`;
+
+    if (format === "svg") {
+      return new NextResponse(patternToSvg(pattern, title), {
+        headers: {
+          "Content-Type": "image/svg+xml",
+          "Content-Disposition": `attachment; filename="${filename}.svg"`,
+        },
+      });
+    }
+
+    return new NextResponse(renderPatternPdf(pattern, title), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${filename}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/orders/[id]/pattern error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
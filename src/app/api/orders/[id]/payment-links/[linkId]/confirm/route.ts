@@ -5,12 +5,15 @@ import connectDB from "@/lib/db";
 import { Order } from "@/lib/models/order";
 import { PaymentLink } from "@/lib/models/payment-link";
 import { logActivity } from "@/lib/models/activity-log";
+import { queueClientEmail } from "@/lib/client-emails";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  POST /api/orders/[id]/payment-links/[linkId]/confirm                      */
 /*  Designer confirms money actually landed in their account. Applies the     */
 /*  link's amount to Order.payments[] using the same recalculation logic as   */
-/*  the manual "record payment" flow, then marks the link confirmed.          */
+/*  the manual "record payment" flow, then marks the link confirmed and      */
+/*  queues the client's "payment received" email.                            */
 /* -------------------------------------------------------------------------- */
 
 export async function POST(
@@ -23,7 +26,11 @@ export async function POST(
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "record_payment");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const { id, linkId } = await params;
 
     await connectDB();
@@ -77,6 +84,11 @@ export async function POST(
       metadata: { orderId: id, amount: link.amount, label: link.label, totalPaid },
     });
 
+    await queueClientEmail(designerId, "payment_received", id, {
+      ref: `link:${link._id}`,
+      amount: link.amount,
+    }).catch((err) => console.error("Payment email not queued:", err));
+
     return NextResponse.json({
       success: true,
       data: {
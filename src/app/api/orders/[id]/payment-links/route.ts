@@ -1,13 +1,11 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
-import { nanoid } from "nanoid";
 import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
-import { Order } from "@/lib/models/order";
-import { Designer } from "@/lib/models/designer";
 import { PaymentLink } from "@/lib/models/payment-link";
-import { logActivity } from "@/lib/models/activity-log";
+import { createPaymentLinkRecord } from "@/lib/record-writes";
 import { APP_URL } from "@/lib/constants";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  POST /api/orders/[id]/payment-links                                       */
@@ -29,7 +27,11 @@ export async function POST(
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "record_payment");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const { id } = await params;
     const body = await request.json();
     const { label, amount } = body as { label?: string; amount?: number };
@@ -46,47 +48,14 @@ export async function POST(
 
     await connectDB();
 
-    const [order, designer] = await Promise.all([
-      Order.findOne({ _id: id, designerId, isDeleted: { $ne: true } }),
-      Designer.findById(designerId).select("bankAccount businessName").lean(),
-    ]);
-
-    if (!order) {
-      return NextResponse.json({ success: false, error: "Order not found" }, { status: 404 });
-    }
-
-    const bank = (designer as { bankAccount?: { bankName?: string; accountNumber?: string; accountName?: string } } | null)
-      ?.bankAccount;
-    if (!bank?.bankName || !bank?.accountNumber || !bank?.accountName) {
+    const result = await createPaymentLinkRecord(designerId, id, { label, amount });
+    if (!result.ok) {
       return NextResponse.json(
-        {
-          success: false,
-          error: "Add your bank account details in Settings before creating a payment link — that's what your client will pay into.",
-          needsBankAccount: true,
-        },
-        { status: 400 }
+        { success: false, error: result.message, ...result.extra },
+        { status: result.status }
       );
     }
-
-    const code = nanoid(10);
-    const link = await PaymentLink.create({
-      designerId,
-      orderId: id,
-      code,
-      label: label.trim(),
-      amount,
-      currency: order.currency || "NGN",
-      status: "pending",
-    });
-
-    logActivity({
-      designerId,
-      action: "create_payment_link",
-      entity: "payment",
-      entityId: String(link._id),
-      details: `Created payment link "${label}" for ₦${amount.toLocaleString()} on "${order.title}"`,
-      metadata: { orderId: id, amount, label, code },
-    });
+    const link = result.doc;
 
     return NextResponse.json(
       {
@@ -119,7 +88,8 @@ export async function GET(
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
     const { id } = await params;
 
     await connectDB();
@@ -3,8 +3,9 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Order } from "@/lib/models/order";
-import { Designer } from "@/lib/models/designer";
 import { logActivity } from "@/lib/models/activity-log";
+import { recordOrderPayment } from "@/lib/record-writes";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  POST /api/orders/[id]/payments                                            */
@@ -24,7 +25,11 @@ export async function POST(
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "record_payment");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const { id } = await params;
     const body = await request.json();
 
@@ -47,56 +52,19 @@ export async function POST(
 
     await connectDB();
 
-    const order = await Order.findOne({ _id: id, designerId });
-    if (!order) {
+    const result = await recordOrderPayment(designerId, id, { amount, method, note });
+    if (!result.ok) {
       return NextResponse.json(
-        { success: false, error: "Order not found" },
-        { status: 404 }
+        { success: false, error: result.message },
+        { status: result.status }
       );
     }
-
-    // Add payment
-    const payment = {
-      amount,
-      method: method || "cash",
-      note: note || undefined,
-      paidAt: new Date(),
-    };
-
-    order.payments = order.payments || [];
-    order.payments.push(payment);
-
-    // Recalculate depositPaid from all payments
-    const totalPaid = order.payments.reduce(
-      (sum: number, p: { amount: number }) => sum + p.amount,
-      0
-    );
-    order.depositPaid = totalPaid;
-
-    // Update payment status
-    if (totalPaid >= order.price) {
-      order.paymentStatus = "paid";
-    } else if (totalPaid > 0) {
-      order.paymentStatus = "partial";
-    } else {
-      order.paymentStatus = "unpaid";
-    }
-
-    await order.save();
-
-    // Audit log
-    logActivity({
-      designerId,
-      action: "record_payment",
-      entity: "payment",
-      entityId: id,
-      details: `Recorded ${method || "cash"} payment of ${amount} for "${order.title}"`,
-      metadata: { amount, method: method || "cash", totalPaid, orderTitle: order.title },
-    });
+    const order = result.doc;
+    const payment = order.payments[order.payments.length - 1];
+    const totalPaid = order.depositPaid;
 
     // Blind Receipting: staff cannot see reconciled balance
-    const designer = await Designer.findById(designerId).select("role").lean();
-    const isOwner = !designer || designer.role === "owner";
+    const isOwner = workspace.role === "owner";
 
     return NextResponse.json({
       success: true,
@@ -136,7 +104,11 @@ export async function DELETE(
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "delete_payment");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const { id } = await params;
     const { searchParams } = new URL(request.url);
     const paymentId = searchParams.get("paymentId");
@@ -151,8 +123,7 @@ export async function DELETE(
     await connectDB();
 
     // Zero-delete policy: only owners can remove payments
-    const designer = await Designer.findById(designerId).select("role").lean();
-    if (designer && designer.role !== "owner") {
+    if (workspace.role !== "owner") {
       return NextResponse.json(
         { success: false, error: "Only the account owner can remove payments. Request a correction from your Oga." },
         { status: 403 }
@@ -5,10 +5,13 @@ import connectDB from "@/lib/db";
 import { Order } from "@/lib/models/order";
 import { Client } from "@/lib/models/client";
 import { Designer } from "@/lib/models/designer";
+import { getOrderLines } from "@/lib/order-items";
+import { getWorkspace } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/orders/[id]/receipt                                               */
 /*  Returns order receipt data for PDF generation on the client                */
+/*  `lines` is always populated — legacy single-garment orders get one line   */
 /* -------------------------------------------------------------------------- */
 
 export async function GET(
@@ -24,7 +27,8 @@ export async function GET(
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
     const { id } = await params;
 
     await connectDB();
@@ -42,10 +46,21 @@ export async function GET(
       Designer.findById(designerId).lean(),
     ]);
 
+    const orderJson = JSON.parse(JSON.stringify(order));
+    const lines = getOrderLines(orderJson).map((l) => ({
+      garmentType: l.garmentType,
+      description: l.description,
+      fabric: l.fabric,
+      quantity: l.quantity,
+      unitPrice: l.unitPrice,
+      price: l.price,
+    }));
+
     return NextResponse.json({
       success: true,
       data: {
-        order: JSON.parse(JSON.stringify(order)),
+        order: orderJson,
+        lines,
         client: client
           ? {
               name: (client as { name: string }).name,
@@ -3,10 +3,25 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Order } from "@/lib/models/order";
-import { Designer } from "@/lib/models/designer";
-import { logActivity } from "@/lib/models/activity-log";
+import { Client } from "@/lib/models/client";
 import { checkRolePermission } from "@/lib/subscription";
-import { isValidTransition, getNextStatuses } from "@/lib/order-transitions";
+import {
+  isValidTransition,
+  getNextStatuses,
+  getStatusLabel,
+  isInProduction,
+} from "@/lib/order-transitions";
+import { loadWorkflow } from "@/lib/designer-workflow";
+import {
+  buildOrderLines,
+  deriveOrderFields,
+  derivePaymentStatus,
+  type OrderLine,
+  type OrderLineInput,
+} from "@/lib/order-items";
+import { orderItemSchema } from "@/lib/validations";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+import { afterOrderStatusChange, deleteOrderRecord } from "@/lib/record-writes";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/orders/[id]                                                      */
@@ -27,13 +42,14 @@ export async function GET(
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
     const { id } = await params;
 
     await connectDB();
 
     const order = await Order.findOne({ _id: id, designerId, isDeleted: { $ne: true } })
-      .populate("clientId", "name phone email gender measurements lastMeasuredAt")
+      .populate("clientId", "name phone email emailUpdates gender measurements lastMeasuredAt")
       .lean();
 
     if (!order) {
@@ -87,7 +103,11 @@ export async function PUT(
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "edit_order");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const { id } = await params;
     const body = await request.json();
 
@@ -103,13 +123,14 @@ export async function PUT(
     }
 
     // Fields that are locked once an order is in-progress (cutting, sewing, etc.)
-    const IN_PROGRESS_STATUSES = ["cutting", "sewing", "fitting", "finishing", "ready", "delivered"];
-    const isInProgress = IN_PROGRESS_STATUSES.includes(existingOrder.status);
-    const LOCKED_AFTER_IN_PROGRESS = ["price", "garmentType", "fabric", "clientId"];
+    const isInProgress = isInProduction(existingOrder.status);
+    const LOCKED_AFTER_IN_PROGRESS = ["price", "garmentType", "fabric", "clientId", "items"];
+    // On multi-garment orders these are derived from the line items
+    const hasItems = (existingOrder.items?.length ?? 0) > 0;
+    const DERIVED_FROM_ITEMS = ["price", "garmentType", "fabric"];
 
     // Price Lock: non-owners can NEVER change the price (requires owner override PIN)
-    const designer = await Designer.findById(designerId).select("role").lean();
-    const isOwner = !designer || designer.role === "owner";
+    const isOwner = workspace.role === "owner";
     const OWNER_ONLY_FIELDS = ["price"];
 
     // Build update object - allow partial updates including status changes
@@ -126,16 +147,19 @@ export async function PUT(
       "receiptSent",
       "featuredInFeed",
       "feedCaption",
+      "emailUpdates",
     ];
 
-    // Validate status transition BEFORE building update
+    // Validate status transition BEFORE building update — against the
+    // designer's own workflow, not the default pipeline
     if (body.status && body.status !== existingOrder.status) {
-      if (!isValidTransition(existingOrder.status, body.status)) {
-        const allowed = getNextStatuses(existingOrder.status);
+      const workflow = await loadWorkflow(designerId);
+      if (!isValidTransition(existingOrder.status, body.status, workflow)) {
+        const allowed = getNextStatuses(existingOrder.status, workflow);
         return NextResponse.json(
           {
             success: false,
-            error: `Cannot change status from "${existingOrder.status}" to "${body.status}"`,
+            error: `Cannot change status from "${getStatusLabel(existingOrder.status, workflow)}" to "${getStatusLabel(body.status, workflow)}"`,
             allowedTransitions: allowed,
           },
           { status: 400 }
@@ -157,10 +181,52 @@ export async function PUT(
           warnings.push(`Only the account owner can modify "${field}"`);
           continue;
         }
+        if (hasItems && DERIVED_FROM_ITEMS.includes(field)) {
+          warnings.push(`"${field}" is set from the order's items`);
+          continue;
+        }
         update[field] = body[field];
       }
     }
 
+    // Line items: replace the list, keeping status + measurement snapshot on
+    // lines that already exist. Totals are recomputed from the lines.
+    if (body.items !== undefined) {
+      const parsedItems = orderItemSchema.array().min(1).max(20).safeParse(body.items);
+      if (!parsedItems.success) {
+        return NextResponse.json(
+          { success: false, error: "Invalid items", details: parsedItems.error.issues },
+          { status: 400 }
+        );
+      }
+      if (isInProgress) {
+        warnings.push(`"items" are locked once production has started`);
+      } else {
+        const existingLines = JSON.parse(JSON.stringify(existingOrder.items || [])) as OrderLine[];
+        const client = await Client.findById(existingOrder.clientId).select("measurements").lean();
+        const clientMeasurements = (client as { measurements?: Record<string, number> } | null)?.measurements;
+        const lines = buildOrderLines(
+          parsedItems.data as OrderLineInput[],
+          existingLines,
+          clientMeasurements ? JSON.parse(JSON.stringify(clientMeasurements)) : undefined
+        );
+        const derived = deriveOrderFields(lines);
+        if (!isOwner && derived.price !== existingOrder.price) {
+          warnings.push(`Only the account owner can modify "price"`);
+        } else {
+          update.items = lines;
+          Object.assign(update, derived);
+        }
+      }
+    }
+
+    if (update.price !== undefined) {
+      update.paymentStatus = derivePaymentStatus(
+        Number(update.price) || 0,
+        existingOrder.depositPaid || 0
+      );
+    }
+
     if (Object.keys(update).length === 0) {
       return NextResponse.json(
         { success: false, error: warnings.length > 0 ? warnings.join(". ") : "No valid fields to update" },
@@ -173,8 +239,17 @@ export async function PUT(
       update.featuredAt = new Date();
     }
 
+    // A new balance restarts automatic chasing from the first rule
+    const balanceChanged =
+      (update.price !== undefined && Number(update.price) !== existingOrder.price) ||
+      (update.depositPaid !== undefined && Number(update.depositPaid) !== existingOrder.depositPaid);
+    if (balanceChanged) update.autoChaseStep = 0;
+
     // If status is changing, also push to statusHistory
-    const updateOps: Record<string, unknown> = { $set: update };
+    const updateOps: Record<string, unknown> = {
+      $set: update,
+      ...(balanceChanged ? { $unset: { lastChaseTone: "" } } : {}),
+    };
     if (update.status) {
       if (existingOrder && existingOrder.status !== update.status) {
         updateOps.$push = {
@@ -191,7 +266,7 @@ export async function PUT(
       { _id: id, designerId, isDeleted: { $ne: true } },
       updateOps,
       { new: true, runValidators: true }
-    ).populate("clientId", "name phone email gender measurements lastMeasuredAt");
+    ).populate("clientId", "name phone email emailUpdates gender measurements lastMeasuredAt");
 
     if (!order) {
       return NextResponse.json(
@@ -200,55 +275,10 @@ export async function PUT(
       );
     }
 
-    // Audit log for status changes
+    // Audit log for status changes (+ "client is waiting" nudge)
     if (update.status) {
-      logActivity({
-        designerId,
-        action: "update_order_status",
-        entity: "order",
-        entityId: id,
-        details: `Status changed to "${update.status}"`,
-        metadata: { newStatus: update.status, title: order.title },
-      });
-
-      // If status transitions to "ready" or "delivered" AND the customer
-      // opted into a notification, fire a Notification to the designer
-      // with a one-tap wa.me deep link to message the customer.
-      const newStatus = update.status as string;
-      const isReadyish = newStatus === "ready" || newStatus === "delivered";
-      const orderDoc = order as unknown as Record<string, unknown>;
-      const optedIn = !!orderDoc.notifyWhenReady;
-      const alreadySent = !!orderDoc.notifyReadySentAt;
-      if (isReadyish && optedIn && !alreadySent) {
-        const NotifMod = (await import("@/lib/models/notification")).Notification;
-        const clientInfo = orderDoc.client as
-          | { name?: string; phone?: string }
-          | undefined;
-        const phoneClean = (clientInfo?.phone || "").replace(/\D/g, "");
-        const phone234 = phoneClean.startsWith("0")
-          ? "234" + phoneClean.slice(1)
-          : phoneClean.startsWith("234")
-          ? phoneClean
-          : "234" + phoneClean;
-        const waText =
-          newStatus === "ready"
-            ? `Hi ${clientInfo?.name?.split(" ")[0] || ""}! 🎉 Your *${order.title}* is READY for pickup. Let me know when you'd like to come.`
-            : `Hi ${clientInfo?.name?.split(" ")[0] || ""}! ✅ Your *${order.title}* has been delivered — enjoy! Please reach out if anything needs adjusting.`;
-        const waLink = phoneClean
-          ? `https://wa.me/${phone234}?text=${encodeURIComponent(waText)}`
-          : undefined;
-
-        await NotifMod.create({
-          designerId,
-          type: "system",
-          title: `📣 ${clientInfo?.name || "Your client"} is waiting for "${order.title}"`,
-          message: `They opted into a "tell-me-when-ready" notification on the client portal. Tap to message them now.`,
-          link: waLink || `/orders/${id}`,
-        }).catch(() => { /* non-fatal */ });
-
-        // Stamp so we don't fire it again on subsequent status flips
-        await Order.updateOne({ _id: id }, { $set: { notifyReadySentAt: new Date() } });
-      }
+      const populated = order.clientId as unknown as { name?: string; phone?: string } | null;
+      await afterOrderStatusChange(designerId, order, update.status as string, populated);
     }
 
     // Transform populated clientId to client field
@@ -298,44 +328,23 @@ export async function DELETE(
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "delete_order");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const { id } = await params;
 
     await connectDB();
 
-    // Zero-delete policy: ONLY owners can delete orders
-    const designer = await Designer.findById(designerId).select("role").lean();
-    if (designer && designer.role !== "owner") {
-      return NextResponse.json(
-        { success: false, error: "Only the account owner (Oga) can delete orders. Use 'Request Correction' instead." },
-        { status: 403 }
-      );
-    }
-
-    // Soft-delete: mark as deleted instead of removing from DB
-    const order = await Order.findOneAndUpdate(
-      { _id: id, designerId, isDeleted: { $ne: true } },
-      { $set: { isDeleted: true, deletedAt: new Date() } },
-      { new: true }
-    );
-
-    if (!order) {
+    const result = await deleteOrderRecord(designerId, id, workspace.role);
+    if (!result.ok) {
       return NextResponse.json(
-        { success: false, error: "Order not found" },
-        { status: 404 }
+        { success: false, error: result.message },
+        { status: result.status }
       );
     }
 
-    // Audit log
-    logActivity({
-      designerId,
-      action: "soft_delete_order",
-      entity: "order",
-      entityId: id,
-      details: `Soft-deleted order "${order.title}" (${order.price} ${order.currency})`,
-      metadata: { title: order.title, price: order.price, status: order.status },
-    });
-
     return NextResponse.json({
       success: true,
       message: "Order deleted successfully",
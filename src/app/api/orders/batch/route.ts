@@ -3,10 +3,20 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Order } from "@/lib/models/order";
+import { loadWorkflow } from "@/lib/designer-workflow";
+import {
+  isKnownStatus,
+  isValidTransition,
+  getStatusLabel,
+} from "@/lib/order-transitions";
+import { afterOrderStatusChange } from "@/lib/record-writes";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  PATCH /api/orders/batch                                                    */
 /*  Update status of multiple orders at once                                   */
+/*  Orders whose current stage can't move to `status` under the designer's   */
+/*  workflow are skipped and reported back, not force-moved.                   */
 /* -------------------------------------------------------------------------- */
 
 export async function PATCH(request: Request) {
@@ -19,7 +29,11 @@ export async function PATCH(request: Request) {
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "edit_order");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const { orderIds, status } = (await request.json()) as {
       orderIds: string[];
       status: string;
@@ -32,37 +46,76 @@ export async function PATCH(request: Request) {
       );
     }
 
-    const validStatuses = [
-      "pending", "confirmed", "cutting", "sewing",
-      "fitting", "finishing", "ready", "delivered", "cancelled",
-    ];
+    await connectDB();
 
-    if (!validStatuses.includes(status)) {
+    const workflow = await loadWorkflow(designerId);
+    if (!isKnownStatus(status, workflow)) {
       return NextResponse.json(
         { success: false, error: "Invalid status" },
         { status: 400 }
       );
     }
 
-    await connectDB();
+    const orders = await Order.find({
+      _id: { $in: orderIds },
+      designerId,
+      isDeleted: { $ne: true },
+    })
+      .select("status title")
+      .lean();
 
-    const result = await Order.updateMany(
-      { _id: { $in: orderIds }, designerId },
-      {
-        $set: { status },
-        $push: {
-          statusHistory: {
-            status,
-            changedAt: new Date(),
-            note: "Batch status update",
-          },
-        },
+    const movable: string[] = [];
+    const skipped: { id: string; title: string; reason: string }[] = [];
+    for (const o of orders as unknown as { _id: unknown; status: string; title: string }[]) {
+      if (o.status === status) continue;
+      if (isValidTransition(o.status, status, workflow)) {
+        movable.push(String(o._id));
+      } else {
+        skipped.push({
+          id: String(o._id),
+          title: o.title,
+          reason: `Can't move from ${getStatusLabel(o.status, workflow)} to ${getStatusLabel(status, workflow)}`,
+        });
       }
-    );
+    }
+
+    const result = movable.length > 0
+      ? await Order.updateMany(
+          { _id: { $in: movable }, designerId },
+          {
+            $set: { status },
+            $push: {
+              statusHistory: {
+                status,
+                changedAt: new Date(),
+                note: "Batch status update",
+              },
+            },
+          }
+        )
+      : { modifiedCount: 0 };
+
+    // Same follow-ups as a single status change: audit log, measurement
+    // lock, released materials, client email and the "client is waiting" nudge
+    if (movable.length > 0) {
+      const moved = await Order.find({ _id: { $in: movable }, designerId, status })
+        .select("title clientId notifyWhenReady notifyReadySentAt")
+        .populate("clientId", "name phone")
+        .lean();
+      for (const order of moved as unknown as {
+        _id: unknown;
+        title: string;
+        clientId: { name?: string; phone?: string } | null;
+        notifyWhenReady?: boolean;
+        notifyReadySentAt?: Date;
+      }[]) {
+        await afterOrderStatusChange(designerId, order, status, order.clientId);
+      }
+    }
 
     return NextResponse.json({
       success: true,
-      data: { updated: result.modifiedCount },
+      data: { updated: result.modifiedCount, skipped },
     });
   } catch (error) {
     console.error("PATCH /api/orders/batch error:", error);
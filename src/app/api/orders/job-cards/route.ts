@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { Order } from "@/lib/models/order";
+import { ORDER_STATUSES } from "@/lib/constants";
+import { loadJobCards, renderJobCardsPdf } from "@/lib/job-cards";
+import { getWorkspace } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  GET /api/orders/job-cards?status=cutting&size=a5|a6                        */
+/*  Batch job cards for the workshop: every garment line at `status`         */
+/*  (default "cutting") across the designer's open orders, in due-date order. */
+/* -------------------------------------------------------------------------- */
+
+/** Orders per batch — a morning's cutting, not the whole archive */
+const MAX_BATCH_ORDERS = 50;
+
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status") || "cutting";
+    const size = searchParams.get("size") === "a6" ? "a6" : "a5";
+
+    if (!ORDER_STATUSES.some((s) => s.value === status)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid status" },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    // Multi-garment orders can have a line at cutting while the order
+    // itself is further along (or behind)
+    const orders = await Order.find({
+      designerId,
+      isDeleted: { $ne: true },
+      $or: [{ status, "items.0": { $exists: false } }, { "items.status": status }],
+    })
+      .sort({ dueDate: 1, createdAt: 1 })
+      .limit(MAX_BATCH_ORDERS)
+      .lean();
+
+    const cards = await loadJobCards(designerId, orders, status);
+    if (cards.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "No orders at this stage to print" },
+        { status: 404 }
+      );
+    }
+
+    const pdf = await renderJobCardsPdf(cards, size);
+
+    return new NextResponse(pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="job-cards-${status}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/orders/job-cards error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { Order } from "@/lib/models/order";
+import { Client } from "@/lib/models/client";
+import { getOrderLines } from "@/lib/order-items";
+import { estimateFabricFromInches } from "@/lib/fabric-calculator";
+import { layoutMarker, markerPiecesFor, type MarkerPieceInput } from "@/lib/marker-layout";
+import { cmToIn } from "@/lib/units";
+import { markerSchema } from "@/lib/validations";
+import { getWorkspace } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  POST /api/orders/marker                                                    */
+/*  Nest every garment on the given orders onto one fabric width and return */
+/*  the shortest length to buy with the marker diagram. Several orders = one */
+/*  bolt. Also reports the flat-estimate yardage and the other layout's      */
+/*  length so the designer can see what the marker saves.                    */
+/* -------------------------------------------------------------------------- */
+
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
+
+    const parsed = markerSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || "Validation failed",
+          details: parsed.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+    const { orderIds, fabricWidthCm, nap, layout } = parsed.data;
+
+    await connectDB();
+
+    const orders = await Order.find({
+      _id: { $in: orderIds },
+      designerId,
+      isDeleted: { $ne: true },
+    }).lean();
+    if (orders.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Order not found" },
+        { status: 404 }
+      );
+    }
+
+    const clients = await Client.find({ _id: { $in: orders.map((o) => o.clientId) }, designerId })
+      .select("measurements")
+      .lean();
+    const clientMeasurements = new Map(
+      clients.map((c) => [String(c._id), JSON.parse(JSON.stringify(c.measurements || {})) as Record<string, number>])
+    );
+
+    const pieces: MarkerPieceInput[] = [];
+    const skipped: string[] = [];
+    let estimateYards = 0;
+
+    for (const order of orders) {
+      const lines = getOrderLines(JSON.parse(JSON.stringify(order)) as Parameters<typeof getOrderLines>[0]);
+      for (const line of lines) {
+        if (line.status === "cancelled") continue;
+        const measurements = line.measurements || clientMeasurements.get(String(order.clientId)) || {};
+        const group = orders.length > 1 ? `${order.title} · ${line.garmentType}` : line.garmentType;
+        const linePieces = markerPiecesFor(measurements, line.garmentType, line.fit || "standard", line.quantity, group);
+        if (linePieces.length === 0) {
+          skipped.push(group);
+          continue;
+        }
+        pieces.push(...linePieces);
+        const estimate = estimateFabricFromInches(line.garmentType, measurements, fabricWidthCm);
+        estimateYards += (estimate?.totalYards || 0) * line.quantity;
+      }
+    }
+
+    if (pieces.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "None of these garments have pattern pieces to lay out" },
+        { status: 400 }
+      );
+    }
+
+    const fabricWidthIn = Math.round(cmToIn(fabricWidthCm) * 4) / 4;
+    const marker = layoutMarker(pieces, { fabricWidthIn, nap, layout });
+    const other = layoutMarker(pieces, { fabricWidthIn, nap, layout: layout === "folded" ? "open" : "folded" });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...marker,
+        estimateYards,
+        otherLayout: { layout: other.layout, yards: other.yards, unplaced: other.unplaced.length },
+        skipped,
+      },
+    });
+  } catch (error) {
+    console.error("POST /api/orders/marker error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,12 +3,9 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Order } from "@/lib/models/order";
-import { Client } from "@/lib/models/client";
-import { Designer } from "@/lib/models/designer";
 import { orderSchema } from "@/lib/validations";
-import { loadDesignerForAction } from "@/lib/access-control";
-import { logActivity } from "@/lib/models/activity-log";
-import { CalendarEvent } from "@/lib/models/calendar-event";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+import { createOrderRecord } from "@/lib/record-writes";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/orders                                                           */
@@ -26,7 +23,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
     const { searchParams } = new URL(request.url);
 
     const search = searchParams.get("search") || "";
@@ -130,7 +128,11 @@ export async function POST(request: Request) {
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "create_order");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const body = await request.json();
 
     // Validate input
@@ -148,73 +150,14 @@ export async function POST(request: Request) {
 
     await connectDB();
 
-    const gate = await loadDesignerForAction(designerId);
-    if (!gate.ok) {
-      return NextResponse.json(
-        { success: false, error: gate.message, suspended: gate.reason === "suspended" },
-        { status: gate.status },
-      );
-    }
-
-    // Verify the client belongs to this designer
-    const client = await Client.findOne({
-      _id: parsed.data.clientId,
-      designerId,
-    });
-
-    if (!client) {
+    const result = await createOrderRecord(designerId, parsed.data);
+    if (!result.ok) {
       return NextResponse.json(
-        { success: false, error: "Client not found or does not belong to you" },
-        { status: 404 }
+        { success: false, error: result.message, ...result.extra },
+        { status: result.status }
       );
     }
-
-    const initialDeposit = parsed.data.depositPaid || 0;
-    const payments = initialDeposit > 0
-      ? [{ amount: initialDeposit, method: "cash", paidAt: new Date() }]
-      : [];
-
-    const order = await Order.create({
-      ...parsed.data,
-      designerId,
-      status: "pending",
-      statusHistory: [{ status: "pending", changedAt: new Date() }],
-      currency: "NGN",
-      depositPaid: initialDeposit,
-      payments,
-      paymentStatus: initialDeposit >= parsed.data.price
-        ? "paid"
-        : initialDeposit > 0
-        ? "partial"
-        : "unpaid",
-    });
-
-    // Increment lifetime order counter
-    await Designer.findByIdAndUpdate(designerId, {
-      $inc: { "lifetimeCounts.totalOrdersCreated": 1 },
-    });
-
-    // Auto-create calendar deadline event if order has a due date
-    if (parsed.data.dueDate) {
-      CalendarEvent.create({
-        designerId,
-        title: `Due: ${parsed.data.title}`,
-        date: new Date(parsed.data.dueDate),
-        type: "deadline",
-        orderId: order._id,
-        color: "#ef4444",
-      }).catch(() => {}); // fire-and-forget
-    }
-
-    // Audit log
-    logActivity({
-      designerId,
-      action: "create_order",
-      entity: "order",
-      entityId: order._id.toString(),
-      details: `Created order "${parsed.data.title}" for ${parsed.data.price} NGN`,
-      metadata: { title: parsed.data.title, price: parsed.data.price, clientId: parsed.data.clientId },
-    });
+    const order = result.doc;
 
     return NextResponse.json(
       {
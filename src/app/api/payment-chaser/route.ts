@@ -5,6 +5,14 @@ import connectDB from "@/lib/db";
 import { Order } from "@/lib/models/order";
 import { Client } from "@/lib/models/client";
 import { Designer } from "@/lib/models/designer";
+import {
+  buildChaseMessage,
+  calcBalance,
+  daysSince,
+  urgencyLevel,
+  type ChaseTone,
+} from "@/lib/payment-chaser";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /**
  * Payment Chaser API
@@ -21,33 +29,10 @@ import { Designer } from "@/lib/models/designer";
  *   Body: { orderId, tone: "gentle" | "firm" | "final" }
  *   Returns: { whatsappUrl: string }
  *
- * The cron job (Vercel cron or external) calls:
- *   POST /api/payment-chaser/auto
- * to trigger automatic reminders. Each designer can configure
- * their auto-chase preferences in settings.
+ * Automatic SMS reminders run from the payments.auto_chase job (see
+ * lib/payment-chaser); designers opt in via /api/payment-chaser/settings.
  */
 
-function formatNaira(n: number) {
-  return `₦${n.toLocaleString("en-NG")}`;
-}
-
-function calcBalance(order: any): number {
-  const payments = (order.payments || []).reduce((s: number, p: any) => s + (p.amount || 0), 0);
-  return Math.max(0, order.price - (order.depositPaid || 0) - payments);
-}
-
-function daysSince(date: Date | string): number {
-  return Math.floor((Date.now() - new Date(date).getTime()) / 86400000);
-}
-
-function urgencyLevel(order: any): "urgent" | "chase" | "remind" | "new" {
-  const days = daysSince(order.updatedAt || order.createdAt);
-  if (days >= 14) return "urgent";
-  if (days >= 7)  return "chase";
-  if (days >= 3)  return "remind";
-  return "new";
-}
-
 /* -------------------------------------------------------------------------- */
 /*  GET — list all chaseable orders                                            */
 /* -------------------------------------------------------------------------- */
@@ -57,7 +42,11 @@ export async function GET(_request: NextRequest) {
     const session = await getServerSession(authOptions);
     if (!session?.user) return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
 
-    const designerId = (session.user as any).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "view_finances");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     await connectDB();
 
     const orders = await Order.find({
@@ -115,7 +104,11 @@ export async function POST(request: NextRequest) {
     const session = await getServerSession(authOptions);
     if (!session?.user) return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
 
-    const designerId = (session.user as any).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "message_clients");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const body       = await request.json();
     const { orderId, tone = "gentle" } = body;
 
@@ -134,32 +127,13 @@ export async function POST(request: NextRequest) {
 
     if (balance <= 0) return NextResponse.json({ success: false, error: "No outstanding balance" }, { status: 400 });
 
-    // Build message based on tone
-    let message = "";
-    const biz = designer?.businessName || "Your Fashion Designer";
-
-    if (tone === "gentle") {
-      message =
-        `Hi ${client.name}! 😊\n\n` +
-        `Just a friendly reminder about your *${order.title}* order.\n\n` +
-        `Outstanding balance: *${formatNaira(balance)}*\n\n` +
-        `Whenever you're ready, you can pay via bank transfer or cash. Would you like my account details?\n\n` +
-        `Thank you so much! 🙏\n— ${biz}`;
-    } else if (tone === "firm") {
-      message =
-        `Hello ${client.name},\n\n` +
-        `This is a reminder that your *${order.title}* order has an outstanding balance of *${formatNaira(balance)}* that has been pending for ${days} days.\n\n` +
-        `Please arrange payment at your earliest convenience. The work has been completed and we would appreciate prompt settlement.\n\n` +
-        `Bank transfer or cash accepted. Please reply to confirm when payment will be made.\n\n` +
-        `Thank you.\n— ${biz}`;
-    } else {
-      // final
-      message =
-        `Dear ${client.name},\n\n` +
-        `We have reached out multiple times about the outstanding balance of *${formatNaira(balance)}* for your *${order.title}* order.\n\n` +
-        `This balance is now ${days} days overdue. We kindly request immediate payment to resolve this matter.\n\n` +
-        `Please contact us urgently to arrange payment. Thank you.\n— ${biz}`;
-    }
+    const message = buildChaseMessage(tone as ChaseTone, {
+      clientName: client.name,
+      orderTitle: order.title,
+      balance,
+      days,
+      business: designer?.businessName || "Your Fashion Designer",
+    });
 
     // Clean phone for WhatsApp link
     let phone = (client.phone || "").replace(/[\s\-().+]/g, "");
@@ -168,8 +142,12 @@ export async function POST(request: NextRequest) {
 
     const whatsappUrl = `https://wa.me/${phone}?text=${encodeURIComponent(message)}`;
 
-    // Mark order as chased
-    await Order.updateOne({ _id: orderId }, { $set: { lastChasedAt: new Date() } });
+    // Mark order as chased — without touching updatedAt, which the tiers use
+    await Order.updateOne(
+      { _id: orderId },
+      { $set: { lastChasedAt: new Date(), lastChaseTone: tone } },
+      { timestamps: false },
+    );
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,119 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { Designer } from "@/lib/models/designer";
+import { logActivity } from "@/lib/models/activity-log";
+import { autoChaseSettingsSchema } from "@/lib/validations";
+import { resolveAutoChase } from "@/lib/payment-chaser";
+import { enqueueAutoChaseJob } from "@/lib/job-handlers";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  /api/payment-chaser/settings                                                */
+/*                                                                              */
+/*  GET — automatic SMS chasing rules (defaults if never saved) + SMS balance */
+/*  PUT — replace them. Body: { enabled, rules[], quietHours }                */
+/* -------------------------------------------------------------------------- */
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    await connectDB();
+    const designer = await Designer.findById(session.user.id)
+      .select("autoChase smsBalance")
+      .lean();
+    if (!designer) {
+      return NextResponse.json(
+        { success: false, error: "Designer not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...resolveAutoChase(designer.autoChase),
+        smsBalance: designer.smsBalance ?? 0,
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/payment-chaser/settings error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_settings");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
+    const body = await request.json();
+
+    const parsed = autoChaseSettingsSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || "Validation failed",
+          details: parsed.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const settings = parsed.data;
+    await Designer.findByIdAndUpdate(designerId, {
+      $set: { autoChase: { ...settings, updatedAt: new Date() } },
+    });
+
+    // Switching on after today's sweep shouldn't mean waiting until tomorrow
+    if (settings.enabled) {
+      await enqueueAutoChaseJob(designerId, settings.quietHours);
+    }
+
+    logActivity({
+      designerId,
+      action: "update_auto_chase",
+      entity: "settings",
+      details: settings.enabled
+        ? `Automatic payment reminders on (${settings.rules.map((r) => `${r.tone} at ${r.afterDays}d`).join(", ")})`
+        : "Automatic payment reminders off",
+      metadata: { ...settings },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Auto-chase settings saved",
+      data: settings,
+    });
+  } catch (error) {
+    console.error("PUT /api/payment-chaser/settings error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
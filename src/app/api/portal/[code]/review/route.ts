@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import connectDB from "@/lib/db";
+import { Client } from "@/lib/models/client";
+import { Order } from "@/lib/models/order";
+import { Review } from "@/lib/models/review";
+import { Notification } from "@/lib/models/notification";
+import { reviewSchema } from "@/lib/validations";
+
+/* -------------------------------------------------------------------------- */
+/*  POST /api/portal/[code]/review                                             */
+/*  Public — the client rates one of their own delivered orders from their   */
+/*  portal. Gated by the shareCode like the rest of the portal. Rating the   */
+/*  same order again replaces the earlier rating.                             */
+/*                                                                              */
+/*  Body: { orderId, rating: 1-5, comment?, shareAsTestimonial? }             */
+/* -------------------------------------------------------------------------- */
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  try {
+    const { code } = await params;
+    const body = await request.json();
+    const parsed = reviewSchema.safeParse(body);
+    if (!parsed.success) {
+      const firstError = parsed.error.issues[0]?.message || "Invalid input";
+      return NextResponse.json(
+        { success: false, error: firstError },
+        { status: 400 },
+      );
+    }
+    const { orderId, rating, comment, shareAsTestimonial } = parsed.data;
+
+    await connectDB();
+
+    const client = await Client.findOne({ shareCode: code }).select("_id name designerId").lean();
+    if (!client) {
+      return NextResponse.json({ success: false, error: "Portal not found" }, { status: 404 });
+    }
+    const order = await Order.findOne({
+      _id: orderId,
+      clientId: client._id,
+      isDeleted: { $ne: true },
+    })
+      .select("title status designerId")
+      .lean();
+    if (!order) {
+      return NextResponse.json({ success: false, error: "Order not found" }, { status: 404 });
+    }
+    if (order.status !== "delivered") {
+      return NextResponse.json(
+        { success: false, error: "You can rate this order once it's been delivered" },
+        { status: 409 },
+      );
+    }
+
+    const existing = await Review.exists({ orderId });
+    const review = await Review.findOneAndUpdate(
+      { orderId },
+      {
+        $set: {
+          rating,
+          shareAsTestimonial: !!shareAsTestimonial,
+          ...(comment ? { comment } : {}),
+        },
+        ...(comment ? {} : { $unset: { comment: 1 } }),
+        $setOnInsert: {
+          designerId: order.designerId,
+          clientId: client._id,
+          clientName: String(client.name).split(" ")[0],
+        },
+      },
+      { upsert: true, new: true, runValidators: true },
+    );
+
+    if (!existing) {
+      Notification.create({
+        designerId: order.designerId,
+        type: "milestone",
+        title: `${"⭐".repeat(rating)} New review`,
+        message: `${client.name} rated "${order.title}" ${rating}/5${comment ? `: “${comment.slice(0, 120)}”` : "."}`,
+        link: `/orders/${orderId}`,
+      }).catch(() => { /* non-fatal */ });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        rating: review.rating,
+        comment: review.comment || "",
+        shareAsTestimonial: review.shareAsTestimonial,
+      },
+    });
+  } catch (error) {
+    console.error("POST /api/portal/[code]/review error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
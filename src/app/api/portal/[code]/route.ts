@@ -4,6 +4,8 @@ import connectDB from "@/lib/db";
 import { Client } from "@/lib/models/client";
 import { Designer } from "@/lib/models/designer";
 import { Order } from "@/lib/models/order";
+import { Review } from "@/lib/models/review";
+import { PORTAL_ORDER_FIELDS, portalOrderFilter, portalPaymentSummary } from "@/lib/client-portal";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/portal/[code]                                                    */
@@ -32,18 +34,21 @@ export async function GET(
       .select("businessName name phone city state")
       .lean();
 
-    const orders = await Order.find({
-      clientId: client._id,
-      status: { $ne: "cancelled" },
-      isDeleted: { $ne: true },
-    })
-      .select(
-        "title garmentType status statusHistory dueDate createdAt updatedAt " +
-          "price currency depositPaid payments paymentStatus notifyWhenReady",
-      )
+    const orders = await Order.find(portalOrderFilter(client._id))
+      .select(PORTAL_ORDER_FIELDS)
       .sort({ createdAt: -1 })
       .lean();
 
+    const reviews = await Review.find({ clientId: client._id })
+      .select("orderId rating comment shareAsTestimonial")
+      .lean();
+    const reviewByOrder = new Map(
+      reviews.map((r) => [
+        String(r.orderId),
+        { rating: r.rating, comment: r.comment || "", shareAsTestimonial: !!r.shareAsTestimonial },
+      ]),
+    );
+
     const d = designer as Record<string, unknown> | null;
 
     return NextResponse.json({
@@ -64,17 +69,9 @@ export async function GET(
           : null,
         orders: orders.map((o) => {
           const order = o as Record<string, unknown>;
-          const payments =
-            (order.payments as Array<Record<string, unknown>> | undefined) ?? [];
-          const paymentsTotal = payments.reduce(
-            (s, p) => s + ((p.amount as number) || 0),
-            0,
+          const summary = portalPaymentSummary(
+            order as { price?: number; currency?: string; depositPaid?: number; paymentStatus?: string },
           );
-          const depositPaid = (order.depositPaid as number) || 0;
-          // Total paid = deposit + sum of additional payments
-          const totalPaid = depositPaid + paymentsTotal;
-          const price = (order.price as number) || 0;
-          const balance = Math.max(0, price - totalPaid);
           return {
             _id: String(order._id),
             title: order.title,
@@ -98,13 +95,10 @@ export async function GET(
               : [],
             createdAt: new Date(order.createdAt as Date).toISOString(),
             updatedAt: new Date(order.updatedAt as Date).toISOString(),
-            // New: payment summary + notify-me toggle
-            price,
-            currency: (order.currency as string) || "NGN",
-            totalPaid,
-            balance,
-            paymentStatus: (order.paymentStatus as string) || "unpaid",
+            // Payment summary + notify-me toggle
+            ...summary,
             notifyWhenReady: !!order.notifyWhenReady,
+            review: reviewByOrder.get(String(order._id)) ?? null,
           };
         }),
       },
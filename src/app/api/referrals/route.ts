@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { Designer } from "@/lib/models/designer";
+import { Referral } from "@/lib/models/referral";
+import { ensureReferralCode, rememberDevice } from "@/lib/referrals";
+import { APP_URL, DEVICE_COOKIE, REFERRAL_CONFIG } from "@/lib/constants";
+
+/* -------------------------------------------------------------------------- */
+/*  GET /api/referrals                                                         */
+/*  The signed-in designer's referral code, share link and the people who   */
+/*  joined with it. Referrals belong to the person, not the workspace, so   */
+/*  staff see their own code here rather than their owner's.                 */
+/* -------------------------------------------------------------------------- */
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+
+    await connectDB();
+
+    const [code] = await Promise.all([
+      ensureReferralCode(userId),
+      rememberDevice(userId, request.cookies.get(DEVICE_COOKIE)?.value),
+    ]);
+
+    const referrals = await Referral.find({ referrerId: userId })
+      .sort({ createdAt: -1 })
+      .limit(100)
+      .lean();
+    const referees = await Designer.find({ _id: { $in: referrals.map((r) => r.refereeId) } })
+      .select("name businessName")
+      .lean();
+    const nameById = new Map(
+      referees.map((d) => [String(d._id), (d.businessName as string) || (d.name as string)])
+    );
+
+    const rewarded = referrals.filter((r) => r.status === "rewarded");
+    const creditsEarned = rewarded.reduce((sum, r) => sum + (r.referrerReward || 0), 0);
+    const paidReferrals = rewarded.filter((r) => r.referrerReward > 0).length;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        code,
+        link: `${APP_URL}/register?ref=${code}`,
+        shareMessage: REFERRAL_CONFIG.shareMessage,
+        rewards: {
+          referrer: REFERRAL_CONFIG.referrerReward,
+          referee: REFERRAL_CONFIG.refereeReward,
+          maxReferrals: REFERRAL_CONFIG.maxReferrals,
+        },
+        stats: {
+          total: referrals.length,
+          pending: referrals.filter((r) => r.status === "pending").length,
+          rewarded: rewarded.length,
+          inReview: referrals.filter((r) => r.status === "flagged").length,
+          creditsEarned,
+          remaining: Math.max(0, REFERRAL_CONFIG.maxReferrals - paidReferrals),
+        },
+        referrals: referrals.map((r) => ({
+          _id: String(r._id),
+          name: nameById.get(String(r.refereeId)) || "Deleted account",
+          status: r.status,
+          reward: r.referrerReward,
+          createdAt: r.createdAt,
+          rewardedAt: r.rewardedAt,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/referrals error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
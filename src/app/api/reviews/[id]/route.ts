@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { Review } from "@/lib/models/review";
+import { logActivity } from "@/lib/models/activity-log";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  PATCH /api/reviews/[id]                                                    */
+/*  Body: { hidden: boolean } — hide a shared review from the public profile */
+/*  (or show it again). The rating itself still counts towards the score.   */
+/* -------------------------------------------------------------------------- */
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_settings");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
+    const { id } = await params;
+    const { hidden } = (await request.json()) as { hidden?: unknown };
+    if (typeof hidden !== "boolean") {
+      return NextResponse.json(
+        { success: false, error: "hidden must be true or false" },
+        { status: 400 }
+      );
+    }
+
+    const review = await Review.findOneAndUpdate(
+      { _id: id, designerId },
+      { $set: { hidden } },
+      { new: true }
+    ).lean();
+
+    if (!review) {
+      return NextResponse.json(
+        { success: false, error: "Review not found" },
+        { status: 404 }
+      );
+    }
+
+    logActivity({
+      designerId,
+      action: hidden ? "hide_review" : "show_review",
+      entity: "settings",
+      entityId: id,
+      details: `${hidden ? "Hid" : "Showed"} ${review.clientName}'s review on the public profile`,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: JSON.parse(JSON.stringify(review)),
+    });
+  } catch (error) {
+    console.error("PATCH /api/reviews/[id] error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
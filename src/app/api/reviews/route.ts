@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import mongoose from "mongoose";
+import { authOptions } from "@/lib/auth";
+import { Review } from "@/lib/models/review";
+import { getRatingSummary } from "@/lib/reviews";
+import { getWorkspace } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  GET /api/reviews                                                           */
+/*  Client ratings for the workspace, newest first, with the overall average. */
+/*  Query: ?orderId= for a single order's review (order detail page).        */
+/* -------------------------------------------------------------------------- */
+
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
+    const { searchParams } = new URL(request.url);
+    const orderId = searchParams.get("orderId");
+    if (orderId && !mongoose.Types.ObjectId.isValid(orderId)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid orderId" },
+        { status: 400 }
+      );
+    }
+
+    const filter: Record<string, unknown> = { designerId };
+    if (orderId) filter.orderId = orderId;
+
+    const [reviews, summary] = await Promise.all([
+      Review.find(filter)
+        .populate("orderId", "title")
+        .sort({ createdAt: -1 })
+        .limit(orderId ? 1 : 50)
+        .lean(),
+      getRatingSummary(designerId),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        reviews: JSON.parse(JSON.stringify(reviews)),
+        summary,
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/reviews error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
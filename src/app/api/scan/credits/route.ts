@@ -0,0 +1,131 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { Designer } from "@/lib/models/designer";
+import { CREDIT_PACKS } from "@/lib/constants";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  POST /api/scan/credits                                                     */
+/*  Body: { packId: "pack-5" | "pack-15" | "pack-40" }                         */
+/*                                                                              */
+/*  Initialises a Paystack transaction. Webhook (purpose=scan_credits)         */
+/*  credits the designer's scanCredits after payment confirms. Credits are     */
+/*  spent by POST /api/scan/sessions once the plan's scan quota runs out.      */
+/* -------------------------------------------------------------------------- */
+
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_billing");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
+
+    const PAYSTACK_SECRET = process.env.PAYSTACK_SECRET_KEY;
+    if (!PAYSTACK_SECRET) {
+      return NextResponse.json(
+        { success: false, error: "Payment system not configured.", needsConfig: true },
+        { status: 503 },
+      );
+    }
+
+    const { packId } = (await request.json()) as { packId?: string };
+    const pack = CREDIT_PACKS.find((p) => p.id === packId);
+    if (!pack) {
+      return NextResponse.json({ success: false, error: "Unknown scan credit pack" }, { status: 400 });
+    }
+
+    await connectDB();
+    const designer = await Designer.findById(designerId).select("email").lean();
+    if (!designer) {
+      return NextResponse.json({ success: false, error: "Designer not found" }, { status: 404 });
+    }
+
+    const callbackBase =
+      process.env.NEXT_PUBLIC_APP_URL ||
+      process.env.NEXTAUTH_URL ||
+      "http://localhost:3000";
+
+    const paystackRes = await fetch("https://api.paystack.co/transaction/initialize", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${PAYSTACK_SECRET}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        email: (designer as Record<string, unknown>).email,
+        amount: pack.price * 100,
+        currency: "NGN",
+        callback_url: `${callbackBase}/billing?credits=success`,
+        metadata: {
+          purpose: "scan_credits",
+          designerId,
+          packId: pack.id,
+          scans: pack.scans,
+        },
+      }),
+    });
+    const json = await paystackRes.json();
+    if (!json.status) {
+      return NextResponse.json(
+        { success: false, error: json.message || "Failed to initialise payment" },
+        { status: 502 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        authorizationUrl: json.data.authorization_url,
+        reference: json.data.reference,
+        pack,
+      },
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : "Failed" },
+      { status: 500 },
+    );
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*  GET /api/scan/credits → the credit pack catalogue + the designer's balance */
+/* -------------------------------------------------------------------------- */
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
+
+    await connectDB();
+    const designer = await Designer.findById(designerId)
+      .select("scanCredits scanCreditsLifetimePurchased")
+      .lean();
+    const d = (designer as Record<string, unknown> | null) ?? {};
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        balance: (d.scanCredits as number) ?? 0,
+        lifetimePurchased: (d.scanCreditsLifetimePurchased as number) ?? 0,
+        packs: CREDIT_PACKS,
+      },
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : "Failed" },
+      { status: 500 },
+    );
+  }
+}
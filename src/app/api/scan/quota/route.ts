@@ -5,37 +5,41 @@ import connectDB from "@/lib/db";
 import { Designer } from "@/lib/models/designer";
 import { ScanSession } from "@/lib/models/scan-session";
 import { SUBSCRIPTION_PLANS } from "@/lib/constants";
+import { getWorkspace } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/scan/quota                                                        */
 /*                                                                              */
 /*  Returns the current designer's AI-scan budget so the UI can show           */
 /*  "X free trial scans remaining" / "X / 20 this month" without hitting the  */
-/*  enforcement endpoint and getting a 403.                                    */
+/*  enforcement endpoint and getting a 403. `credits` is the pay-per-scan     */
+/*  balance that takes over once the plan quota is used up.                    */
 /* -------------------------------------------------------------------------- */
 
 export async function GET() {
   try {
     const session = await getServerSession(authOptions);
-    const userId = (session?.user as { id?: string } | undefined)?.id;
-    if (!userId) {
+    if (!session?.user) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
 
     await connectDB();
 
-    const designer = await Designer.findById(userId).select("subscription").lean();
+    const designer = await Designer.findById(designerId).select("subscription scanCredits").lean();
     const subscription = (designer as Record<string, unknown> | null)?.subscription as
       | "free"
       | "plus"
       | "pro"
       | undefined;
     const planId = subscription || "free";
+    const credits = ((designer as Record<string, unknown> | null)?.scanCredits as number) ?? 0;
     const plan = SUBSCRIPTION_PLANS.find((p) => p.id === planId) || SUBSCRIPTION_PLANS[0];
 
     if (planId === "free") {
       const trialUsed = await ScanSession.countDocuments({
-        designerId: userId,
+        designerId,
         status: "completed",
       });
       const trialAllowed = plan.scanLimit; // 2
@@ -47,7 +51,8 @@ export async function GET() {
           trialAllowed,
           trialUsed,
           trialRemaining: Math.max(0, trialAllowed - trialUsed),
-          canScan: trialUsed < trialAllowed,
+          credits,
+          canScan: trialUsed < trialAllowed || credits > 0,
         },
       });
     }
@@ -58,6 +63,7 @@ export async function GET() {
         data: {
           plan: planId,
           mode: "unlimited",
+          credits,
           canScan: true,
         },
       });
@@ -66,7 +72,7 @@ export async function GET() {
     // Plus: monthly window
     const startOfMonth = new Date(new Date().getFullYear(), new Date().getMonth(), 1);
     const monthlyUsed = await ScanSession.countDocuments({
-      designerId: userId,
+      designerId,
       createdAt: { $gte: startOfMonth },
     });
     return NextResponse.json({
@@ -77,7 +83,8 @@ export async function GET() {
         monthlyAllowed: plan.scanLimit,
         monthlyUsed,
         monthlyRemaining: Math.max(0, plan.scanLimit - monthlyUsed),
-        canScan: monthlyUsed < plan.scanLimit,
+        credits,
+        canScan: monthlyUsed < plan.scanLimit || credits > 0,
       },
     });
   } catch (err) {
@@ -5,10 +5,9 @@ import connectDB from "@/lib/db";
 import { ScanSession } from "@/lib/models/scan-session";
 import { Client } from "@/lib/models/client";
 import { Designer } from "@/lib/models/designer";
-import { generateScanLink } from "@/lib/utils";
 import { APP_URL } from "@/lib/constants";
-import { checkSubscriptionLimit } from "@/lib/subscription";
-import { loadDesignerForAction, getEffectivePlan } from "@/lib/access-control";
+import { createScanSessionRecord } from "@/lib/record-writes";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  GET /api/scan/sessions                                                     */
@@ -26,7 +25,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
     const { searchParams } = new URL(request.url);
     const status = searchParams.get("status") || "";
 
@@ -129,116 +129,32 @@ export async function POST(request: Request) {
       );
     }
 
-    const designerId = (session.user as { id: string }).id;
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "use_ai_scan");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
     const body = await request.json();
     const { clientId } = body;
 
     await connectDB();
 
-    // Suspended / not-found gate (also gives us the loaded designer record)
-    const gate = await loadDesignerForAction(designerId);
-    if (!gate.ok) {
-      return NextResponse.json(
-        { success: false, error: gate.message, suspended: gate.reason === "suspended" },
-        { status: gate.status },
-      );
-    }
-
-    // Use the EFFECTIVE plan, not the stored field — expired Plus → free.
-    const subscription = getEffectivePlan(gate.designer);
-    const startOfMonth = new Date(new Date().getFullYear(), new Date().getMonth(), 1);
-
-    // Monthly count (used by Plus plan)
-    const scanCount = await ScanSession.countDocuments({
-      designerId,
-      createdAt: { $gte: startOfMonth },
-    });
-
-    // Lifetime completed scans (used by Free plan trial cap — only count
-    // sessions the client actually finished so a wasted link doesn't burn
-    // a trial slot).
-    let lifetimeCount = 0;
-    if (subscription === "free") {
-      lifetimeCount = await ScanSession.countDocuments({
-        designerId,
-        status: "completed",
-      });
-    }
-
-    const check = checkSubscriptionLimit(
-      subscription,
-      "create_scan",
-      scanCount,
-      lifetimeCount,
-    );
-    if (!check.allowed) {
-      return NextResponse.json(
-        { success: false, error: check.message },
-        { status: 403 }
-      );
-    }
-
-    // If a clientId is provided, verify it belongs to this designer
-    let client: { name: string; phone?: string } | null = null;
-    if (clientId) {
-      const clientDoc = await Client.findOne({ _id: clientId, designerId }).lean();
-      if (!clientDoc) {
-        return NextResponse.json(
-          { success: false, error: "Client not found" },
-          { status: 404 }
-        );
-      }
-      client = clientDoc as { name: string; phone?: string };
-    }
-
-    // Fetch designer info for the scan page
-    const designer = await Designer.findById(designerId).select("name businessName").lean();
-    if (!designer) {
+    const result = await createScanSessionRecord(designerId, clientId || undefined);
+    if (!result.ok) {
       return NextResponse.json(
-        { success: false, error: "Designer not found" },
-        { status: 404 }
-      );
-    }
-
-    // Generate a unique link code
-    let linkCode = generateScanLink();
-    let attempts = 0;
-    while (await ScanSession.findOne({ linkCode })) {
-      linkCode = generateScanLink();
-      attempts++;
-      if (attempts > 10) {
-        return NextResponse.json(
-          { success: false, error: "Failed to generate unique link code" },
-          { status: 500 }
-        );
-      }
-    }
-
-    // Expire any existing pending sessions for this client (only if client provided)
-    if (clientId) {
-      await ScanSession.updateMany(
-        { clientId, designerId, status: "pending" },
-        { $set: { status: "expired" } }
+        { success: false, error: result.message, ...result.extra },
+        { status: result.status }
       );
     }
+    const scanSession = result.doc;
 
-    // Create the scan session with 24-hour expiry
-    const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const sessionData: Record<string, any> = {
-      designerId,
-      linkCode,
-      status: "pending",
-      expiresAt,
-    };
-    if (clientId) {
-      sessionData.clientId = clientId;
-    }
-
-    const scanSession = await ScanSession.create(sessionData);
+    // Fetch client + designer info for the scan page
+    const [client, designer] = await Promise.all([
+      clientId ? Client.findById(clientId).select("name").lean() : null,
+      Designer.findById(designerId).select("name businessName").lean(),
+    ]);
 
-    const scanUrl = `${APP_URL}/scan/${linkCode}`;
+    const scanUrl = `${APP_URL}/scan/${scanSession.linkCode}`;
 
     return NextResponse.json(
       {
@@ -249,12 +165,13 @@ export async function POST(request: Request) {
           designerId,
           clientId: clientId || null,
           clientName: client?.name || "Quick Scan",
-          designerName: (designer as { name: string }).name,
-          businessName: (designer as { businessName: string }).businessName,
-          linkCode,
+          designerName: designer?.name,
+          businessName: designer?.businessName,
+          linkCode: scanSession.linkCode,
           status: "pending",
+          paidWithCredit: !!scanSession.paidWithCredit,
           scanUrl,
-          expiresAt: expiresAt.toISOString(),
+          expiresAt: scanSession.expiresAt.toISOString(),
           createdAt: scanSession.createdAt.toISOString(),
         },
       },
@@ -4,6 +4,7 @@ import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Designer } from "@/lib/models/designer";
 import { SMS_PACKS } from "@/lib/constants";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  POST /api/sms/buy                                                          */
@@ -16,10 +17,14 @@ import { SMS_PACKS } from "@/lib/constants";
 export async function POST(request: Request) {
   try {
     const session = await getServerSession(authOptions);
-    const userId = (session?.user as { id?: string } | undefined)?.id;
-    if (!userId) {
+    if (!session?.user) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_billing");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
 
     const PAYSTACK_SECRET = process.env.PAYSTACK_SECRET_KEY;
     if (!PAYSTACK_SECRET) {
@@ -36,7 +41,7 @@ export async function POST(request: Request) {
     }
 
     await connectDB();
-    const designer = await Designer.findById(userId).select("email").lean();
+    const designer = await Designer.findById(designerId).select("email").lean();
     if (!designer) {
       return NextResponse.json({ success: false, error: "Designer not found" }, { status: 404 });
     }
@@ -59,7 +64,7 @@ export async function POST(request: Request) {
         callback_url: `${callbackBase}/settings?sms=success`,
         metadata: {
           purpose: "sms_pack",
-          designerId: userId,
+          designerId,
           packId: pack.id,
           smsCount: pack.count,
         },
@@ -96,13 +101,14 @@ export async function POST(request: Request) {
 export async function GET() {
   try {
     const session = await getServerSession(authOptions);
-    const userId = (session?.user as { id?: string } | undefined)?.id;
-    if (!userId) {
+    if (!session?.user) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
+    const workspace = await getWorkspace(session.user.id);
+    const designerId = workspace.designerId;
 
     await connectDB();
-    const designer = await Designer.findById(userId)
+    const designer = await Designer.findById(designerId)
       .select("smsBalance smsLifetimePurchased")
       .lean();
     const d = (designer as Record<string, unknown> | null) ?? {};
@@ -4,6 +4,7 @@ import { authOptions } from "@/lib/auth";
 import connectDB from "@/lib/db";
 import { Designer } from "@/lib/models/designer";
 import { sendSMS } from "@/lib/sms";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
 
 /* -------------------------------------------------------------------------- */
 /*  POST /api/sms/send                                                         */
@@ -18,10 +19,14 @@ const MAX_LEN = 480; // ~3 SMS segments
 export async function POST(request: Request) {
   try {
     const session = await getServerSession(authOptions);
-    const userId = (session?.user as { id?: string } | undefined)?.id;
-    if (!userId) {
+    if (!session?.user) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
     }
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "message_clients");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
 
     const { phone, message } = (await request.json()) as {
       phone?: string;
@@ -44,7 +49,7 @@ export async function POST(request: Request) {
 
     // Atomic decrement — only succeeds if balance > 0.
     const before = await Designer.findOneAndUpdate(
-      { _id: userId, smsBalance: { $gt: 0 } },
+      { _id: designerId, smsBalance: { $gt: 0 } },
       { $inc: { smsBalance: -1 } },
       { new: false, projection: { smsBalance: 1 } },
     );
@@ -62,14 +67,14 @@ export async function POST(request: Request) {
     const result = await sendSMS(phone, message);
     if (!result.ok) {
       // Refund the credit on send failure
-      await Designer.updateOne({ _id: userId }, { $inc: { smsBalance: 1 } });
+      await Designer.updateOne({ _id: designerId }, { $inc: { smsBalance: 1 } });
       return NextResponse.json(
         { success: false, error: result.error || "SMS send failed" },
         { status: 502 },
       );
     }
 
-    const after = await Designer.findById(userId).select("smsBalance").lean();
+    const after = await Designer.findById(designerId).select("smsBalance").lean();
     return NextResponse.json({
       success: true,
       data: {
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { syncPushSchema } from "@/lib/validations";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+import { applyMutations, decodeCursor, pullChanges } from "@/lib/sync";
+
+/* -------------------------------------------------------------------------- */
+/*  GET /api/sync?since=<cursor>                                              */
+/*  Offline sync pull — clients and orders changed since the cursor (omit it */
+/*  for a full download). Keep calling with the returned cursor while        */
+/*  hasMore. See lib/sync for the protocol.                                   */
+/* -------------------------------------------------------------------------- */
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "view_clients");
+    if (denied) return denied;
+
+    const since = request.nextUrl.searchParams.get("since");
+    const cursor = since ? decodeCursor(since) : null;
+    if (since && !cursor) {
+      return NextResponse.json(
+        { success: false, error: "Invalid sync cursor" },
+        { status: 400 }
+      );
+    }
+
+    const data = await pullChanges(workspace.designerId, cursor);
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("GET /api/sync error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*  POST /api/sync                                                            */
+/*  Offline sync push — apply a batch of device changes in order. Always     */
+/*  200 with one result per mutation (applied / conflict / rejected / retry) */
+/*  so one bad change doesn't block the rest of the queue.                    */
+/*                                                                              */
+/*  Body: { mutations: [{ id, entity, op, recordId, baseVersion?, base?,     */
+/*          changes? }] }                                                      */
+/* -------------------------------------------------------------------------- */
+
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const body = await request.json();
+
+    const parsed = syncPushSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || "Validation failed",
+          details: parsed.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const results = await applyMutations(workspace, parsed.data.mutations);
+
+    return NextResponse.json({ success: true, data: { results } });
+  } catch (error) {
+    console.error("POST /api/sync error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
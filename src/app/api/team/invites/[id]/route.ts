@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { TeamInvite } from "@/lib/models/team-invite";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  DELETE /api/team/invites/[id]                                              */
+/*  Revoke a pending invite — the link stops working and the seat frees up. */
+/* -------------------------------------------------------------------------- */
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_team");
+    if (denied) return denied;
+
+    const { id } = await params;
+    const invite = await TeamInvite.findOneAndUpdate(
+      { _id: id, ownerId: workspace.designerId, status: "pending" },
+      { $set: { status: "revoked" } },
+      { new: true }
+    );
+
+    if (!invite) {
+      return NextResponse.json(
+        { success: false, error: "Invite not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: "Invite revoked" });
+  } catch (error) {
+    console.error("DELETE /api/team/invites/[id] error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
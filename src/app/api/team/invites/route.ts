@@ -0,0 +1,126 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { nanoid } from "nanoid";
+import { authOptions } from "@/lib/auth";
+import { APP_URL } from "@/lib/constants";
+import { Designer } from "@/lib/models/designer";
+import { TeamInvite } from "@/lib/models/team-invite";
+import { logActivity } from "@/lib/models/activity-log";
+import { sendTeamInviteEmail } from "@/lib/email";
+import { teamInviteSchema } from "@/lib/validations";
+import {
+  getTeamSeats,
+  getWorkspace,
+  permissionDenied,
+  TEAM_INVITE_TTL_DAYS,
+} from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  POST /api/team/invites                                                      */
+/*                                                                              */
+/*  Body: { role: "manager" | "apprentice", email? }                          */
+/*  Creates an invite link (/join/[token]) and emails it when an address is */
+/*  given. The invite holds a seat until accepted, revoked or expired.       */
+/* -------------------------------------------------------------------------- */
+
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_team");
+    if (denied) return denied;
+
+    const designerId = workspace.designerId;
+    if (workspace.teamOwnerId) {
+      return NextResponse.json(
+        { success: false, error: "Leave the team you're on before inviting staff of your own" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = teamInviteSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || "Validation failed",
+          details: parsed.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const seats = await getTeamSeats(designerId);
+    if (seats.limit === 0) {
+      return NextResponse.json(
+        { success: false, error: "Team accounts are available on the Pro plan. Upgrade to invite staff." },
+        { status: 403 }
+      );
+    }
+    if (seats.used >= seats.limit) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `All ${seats.limit} staff seats are in use. Remove a member or revoke an invite first.`,
+        },
+        { status: 403 }
+      );
+    }
+
+    const email = parsed.data.email ? parsed.data.email.toLowerCase() : undefined;
+    const invite = await TeamInvite.create({
+      ownerId: designerId,
+      token: nanoid(24),
+      role: parsed.data.role,
+      email,
+      expiresAt: new Date(Date.now() + TEAM_INVITE_TTL_DAYS * 24 * 60 * 60 * 1000),
+    });
+
+    if (email) {
+      const owner = await Designer.findById(designerId).select("businessName name").lean();
+      sendTeamInviteEmail(
+        email,
+        owner?.businessName || owner?.name || "A Stitcha designer",
+        parsed.data.role,
+        invite.token
+      ).catch((err) => console.error("Team invite email failed:", err));
+    }
+
+    logActivity({
+      designerId,
+      action: "invite_staff",
+      entity: "settings",
+      entityId: String(invite._id),
+      details: `Invited ${email || "a staff member"} as ${parsed.data.role}`,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          _id: String(invite._id),
+          role: invite.role,
+          email: invite.email || null,
+          token: invite.token,
+          url: `${APP_URL}/join/${invite.token}`,
+          expiresAt: invite.expiresAt,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("POST /api/team/invites error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
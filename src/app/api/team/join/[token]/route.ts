@@ -0,0 +1,186 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { Designer } from "@/lib/models/designer";
+import { TeamInvite } from "@/lib/models/team-invite";
+import { Notification } from "@/lib/models/notification";
+import { logActivity } from "@/lib/models/activity-log";
+import { getTeamSeats } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  /api/team/join/[token]                                                      */
+/*                                                                              */
+/*  GET  — public: who sent the invite and for what role (for /join/[token]) */
+/*  POST — accept it as the signed-in account, which becomes staff in the   */
+/*         owner's workspace                                                  */
+/* -------------------------------------------------------------------------- */
+
+async function findOpenInvite(token: string) {
+  const invite = await TeamInvite.findOne({ token, status: "pending" }).lean();
+  if (!invite || invite.expiresAt < new Date()) return null;
+  return invite;
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    await connectDB();
+
+    const invite = await findOpenInvite(token);
+    if (!invite) {
+      return NextResponse.json(
+        { success: false, error: "This invite link is invalid or has expired" },
+        { status: 404 }
+      );
+    }
+
+    const owner = await Designer.findById(invite.ownerId).select("businessName name avatar").lean();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        businessName: owner?.businessName || owner?.name || "A Stitcha designer",
+        avatar: owner?.avatar || null,
+        role: invite.role,
+        email: invite.email || null,
+        expiresAt: invite.expiresAt,
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/team/join/[token] error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Sign in to accept this invite" },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+    const { token } = await params;
+    await connectDB();
+
+    const invite = await findOpenInvite(token);
+    if (!invite) {
+      return NextResponse.json(
+        { success: false, error: "This invite link is invalid or has expired" },
+        { status: 404 }
+      );
+    }
+
+    const ownerId = String(invite.ownerId);
+    const [user, ownStaff] = await Promise.all([
+      Designer.findById(userId).select("email name teamOwnerId role").lean(),
+      Designer.countDocuments({ teamOwnerId: userId }),
+    ]);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Account not found" },
+        { status: 404 }
+      );
+    }
+
+    if (ownerId === userId) {
+      return NextResponse.json(
+        { success: false, error: "This is your own invite link — share it with your staff" },
+        { status: 400 }
+      );
+    }
+    if (invite.email && invite.email !== user.email) {
+      return NextResponse.json(
+        { success: false, error: `This invite is for ${invite.email}. Sign in with that account to accept it.` },
+        { status: 403 }
+      );
+    }
+    if (user.role === "admin") {
+      return NextResponse.json(
+        { success: false, error: "Admin accounts can't join a team" },
+        { status: 400 }
+      );
+    }
+    if (user.teamOwnerId && String(user.teamOwnerId) !== ownerId) {
+      return NextResponse.json(
+        { success: false, error: "You're already on another team. Leave it first from Settings → Team." },
+        { status: 400 }
+      );
+    }
+    if (ownStaff > 0) {
+      return NextResponse.json(
+        { success: false, error: "Remove your own staff before joining another team" },
+        { status: 400 }
+      );
+    }
+
+    // The invite already holds a seat, so only existing members count here
+    const seats = await getTeamSeats(ownerId);
+    if (!user.teamOwnerId && seats.members >= seats.limit) {
+      return NextResponse.json(
+        { success: false, error: "This team has no free seats. Ask the owner to upgrade or free one up." },
+        { status: 403 }
+      );
+    }
+
+    const claimed = await TeamInvite.findOneAndUpdate(
+      { _id: invite._id, status: "pending" },
+      { $set: { status: "accepted", acceptedBy: userId, acceptedAt: new Date() } }
+    );
+    if (!claimed) {
+      return NextResponse.json(
+        { success: false, error: "This invite has already been used" },
+        { status: 409 }
+      );
+    }
+
+    await Designer.updateOne(
+      { _id: userId },
+      {
+        $set: { teamOwnerId: ownerId, role: invite.role, isOnboarded: true },
+        $unset: { activeWorkspace: 1 },
+      }
+    );
+
+    Notification.create({
+      designerId: ownerId,
+      type: "system",
+      title: `${user.name} joined your team`,
+      message: `${user.name} accepted your invite and can now work in your shop as a ${invite.role}.`,
+      link: "/settings?tab=team",
+    }).catch(() => { /* non-fatal */ });
+
+    logActivity({
+      designerId: ownerId,
+      action: "staff_joined",
+      entity: "settings",
+      entityId: userId,
+      details: `${user.name} joined as ${invite.role}`,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Welcome to the team",
+      data: { teamOwnerId: ownerId, role: invite.role },
+    });
+  } catch (error) {
+    console.error("POST /api/team/join/[token] error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
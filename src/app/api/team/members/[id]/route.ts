@@ -0,0 +1,141 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { Designer } from "@/lib/models/designer";
+import { logActivity } from "@/lib/models/activity-log";
+import { getWorkspace, permissionDenied } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  /api/team/members/[id]                                                      */
+/*                                                                              */
+/*  PATCH  — change a staff member's role. Body: { role }                    */
+/*  DELETE — remove a staff member, or leave the team when [id] is yourself. */
+/*           They keep their account and fall back to their own workspace.  */
+/* -------------------------------------------------------------------------- */
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const denied = permissionDenied(workspace, "manage_team");
+    if (denied) return denied;
+
+    const { id } = await params;
+    const { role } = (await request.json()) as { role?: string };
+    if (role !== "manager" && role !== "apprentice") {
+      return NextResponse.json(
+        { success: false, error: "Role must be manager or apprentice" },
+        { status: 400 }
+      );
+    }
+
+    const member = await Designer.findOneAndUpdate(
+      { _id: id, teamOwnerId: workspace.designerId },
+      { $set: { role } },
+      { new: true }
+    ).select("name role");
+
+    if (!member) {
+      return NextResponse.json(
+        { success: false, error: "Team member not found" },
+        { status: 404 }
+      );
+    }
+
+    logActivity({
+      designerId: workspace.designerId,
+      action: "change_staff_role",
+      entity: "settings",
+      entityId: id,
+      details: `${member.name} is now a ${role}`,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { _id: id, role: member.role },
+    });
+  } catch (error) {
+    console.error("PATCH /api/team/members/[id] error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const workspace = await getWorkspace(session.user.id);
+    const leaving = id === workspace.userId;
+
+    let ownerId: string | undefined;
+    if (leaving) {
+      ownerId = workspace.teamOwnerId;
+    } else {
+      const denied = permissionDenied(workspace, "manage_team");
+      if (denied) return denied;
+      ownerId = workspace.designerId;
+    }
+
+    if (!ownerId) {
+      return NextResponse.json(
+        { success: false, error: "You're not on a team" },
+        { status: 400 }
+      );
+    }
+
+    const member = await Designer.findOneAndUpdate(
+      { _id: id, teamOwnerId: ownerId },
+      { $set: { role: "owner" }, $unset: { teamOwnerId: 1, activeWorkspace: 1 } },
+      { new: true }
+    ).select("name");
+
+    if (!member) {
+      return NextResponse.json(
+        { success: false, error: "Team member not found" },
+        { status: 404 }
+      );
+    }
+
+    logActivity({
+      designerId: ownerId,
+      action: leaving ? "staff_left" : "remove_staff",
+      entity: "settings",
+      entityId: id,
+      details: leaving ? `${member.name} left the team` : `Removed ${member.name} from the team`,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: leaving ? "You've left the team" : "Team member removed",
+    });
+  } catch (error) {
+    console.error("DELETE /api/team/members/[id] error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { Designer } from "@/lib/models/designer";
+import { TeamInvite } from "@/lib/models/team-invite";
+import { checkRolePermission } from "@/lib/subscription";
+import { getTeamSeats, getWorkspace } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  GET /api/team                                                               */
+/*                                                                              */
+/*  The caller's workspace (whose shop they're in, with what role) and, for  */
+/*  anyone who can manage the team, its members, open invites and seats.    */
+/* -------------------------------------------------------------------------- */
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await getWorkspace(session.user.id);
+    const teamOwner = workspace.teamOwnerId
+      ? await Designer.findById(workspace.teamOwnerId).select("businessName name").lean()
+      : null;
+
+    const data: Record<string, unknown> = {
+      workspace: {
+        ...workspace,
+        teamBusinessName: teamOwner?.businessName || teamOwner?.name || null,
+      },
+    };
+
+    if (checkRolePermission(workspace.role, "manage_team").allowed) {
+      const ownerId = workspace.designerId;
+      const [members, invites, seats] = await Promise.all([
+        Designer.find({ teamOwnerId: ownerId })
+          .select("name email avatar role activeWorkspace updatedAt")
+          .sort({ name: 1 })
+          .lean(),
+        TeamInvite.find({ ownerId, status: "pending", expiresAt: { $gt: new Date() } })
+          .sort({ createdAt: -1 })
+          .lean(),
+        getTeamSeats(ownerId),
+      ]);
+
+      data.members = members.map((m) => ({
+        _id: String(m._id),
+        name: m.name,
+        email: m.email,
+        avatar: m.avatar,
+        role: m.role,
+        away: m.activeWorkspace === "own",
+      }));
+      data.invites = invites.map((i) => ({
+        _id: String(i._id),
+        role: i.role,
+        email: i.email || null,
+        token: i.token,
+        expiresAt: i.expiresAt,
+        createdAt: i.createdAt,
+      }));
+      data.seats = seats;
+    }
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("GET /api/team error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
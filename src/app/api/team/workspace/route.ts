@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { Designer } from "@/lib/models/designer";
+import { getWorkspace } from "@/lib/workspace";
+
+/* -------------------------------------------------------------------------- */
+/*  PUT /api/team/workspace                                                     */
+/*  Body: { workspace: "team" | "own" }                                        */
+/*  Staff switch between their owner's shop and their own. The client should */
+/*  call next-auth's update() afterwards so the session role follows.        */
+/* -------------------------------------------------------------------------- */
+
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { workspace: target } = (await request.json()) as { workspace?: string };
+    if (target !== "team" && target !== "own") {
+      return NextResponse.json(
+        { success: false, error: "workspace must be team or own" },
+        { status: 400 }
+      );
+    }
+
+    const current = await getWorkspace(session.user.id);
+    if (!current.teamOwnerId) {
+      return NextResponse.json(
+        { success: false, error: "You're not on a team" },
+        { status: 400 }
+      );
+    }
+
+    await Designer.updateOne(
+      { _id: current.userId },
+      target === "own"
+        ? { $set: { activeWorkspace: "own" } }
+        : { $unset: { activeWorkspace: 1 } }
+    );
+
+    const workspace = await getWorkspace(session.user.id);
+    if (target === "team" && !workspace.isTeam) {
+      return NextResponse.json(
+        { success: false, error: "Your team's plan no longer includes staff seats" },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: workspace });
+  } catch (error) {
+    console.error("PUT /api/team/workspace error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
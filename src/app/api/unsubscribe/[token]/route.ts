@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import connectDB from "@/lib/db";
+import { Client } from "@/lib/models/client";
+import { Designer } from "@/lib/models/designer";
+import { Notification } from "@/lib/models/notification";
+import { verifyUnsubscribeToken } from "@/lib/client-emails";
+
+/* -------------------------------------------------------------------------- */
+/*  /api/unsubscribe/[token]                                                    */
+/*                                                                              */
+/*  Public — the signed token in every client email is the only key.         */
+/*    GET  — who the emails come from, and whether they're already off       */
+/*    POST — stop them. Also the List-Unsubscribe one-click target, so mail  */
+/*           apps can unsubscribe without opening the page.                   */
+/* -------------------------------------------------------------------------- */
+
+async function loadClient(token: string) {
+  const clientId = verifyUnsubscribeToken(token);
+  if (!clientId) return null;
+  await connectDB();
+  return Client.findById(clientId).select("designerId name emailUpdates emailUnsubscribedAt").lean();
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const client = await loadClient(token);
+    if (!client) {
+      return NextResponse.json(
+        { success: false, error: "This unsubscribe link isn't valid" },
+        { status: 404 }
+      );
+    }
+
+    const designer = await Designer.findById(client.designerId).select("businessName").lean();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        businessName: designer?.businessName || "your designer",
+        firstName: client.name.split(" ")[0] || client.name,
+        unsubscribed: client.emailUpdates === false || !!client.emailUnsubscribedAt,
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/unsubscribe/[token] error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const client = await loadClient(token);
+    if (!client) {
+      return NextResponse.json(
+        { success: false, error: "This unsubscribe link isn't valid" },
+        { status: 404 }
+      );
+    }
+
+    if (!client.emailUnsubscribedAt) {
+      await Client.updateOne(
+        { _id: client._id },
+        { $set: { emailUpdates: false, emailUnsubscribedAt: new Date() } }
+      );
+
+      await Notification.create({
+        designerId: client.designerId,
+        type: "system",
+        title: `${client.name} unsubscribed from order emails`,
+        message: "They won't get status or payment emails any more. You can still reach them on WhatsApp or SMS.",
+        link: `/clients/${client._id}`,
+      }).catch(() => { /* non-fatal */ });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "You've been unsubscribed",
+      data: { unsubscribed: true },
+    });
+  } catch (error) {
+    console.error("POST /api/unsubscribe/[token] error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,13 @@ import Link from "next/link";
 import connectDB from "@/lib/db";
 import { Designer } from "@/lib/models/designer";
 import { Order } from "@/lib/models/order";
+import { thumbnailUrl } from "@/lib/media-storage";
+import {
+  getRatingSummary,
+  getTestimonials,
+  type RatingSummary,
+  type Testimonial,
+} from "@/lib/reviews";
 
 /* -------------------------------------------------------------------------- */
 /*  Not found view                                                            */
@@ -56,14 +63,36 @@ interface PortfolioItem {
   image: string;
 }
 
+function Stars({ rating }: { rating: number }) {
+  return (
+    <span className="inline-flex items-center gap-0.5" aria-label={`${rating} out of 5`}>
+      {[1, 2, 3, 4, 5].map((v) => (
+        <svg
+          key={v}
+          className={`h-3.5 w-3.5 ${v <= Math.round(rating) ? "text-[#D4A853]" : "text-[#1A1A2E]/10"}`}
+          fill="currentColor"
+          viewBox="0 0 20 20"
+          aria-hidden
+        >
+          <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.286 3.957a1 1 0 00.95.69h4.162c.969 0 1.371 1.24.588 1.81l-3.367 2.446a1 1 0 00-.364 1.118l1.287 3.957c.3.921-.755 1.688-1.539 1.118l-3.366-2.445a1 1 0 00-1.176 0l-3.366 2.445c-.784.57-1.84-.197-1.54-1.118l1.287-3.957a1 1 0 00-.364-1.118L2.51 9.384c-.783-.57-.38-1.81.588-1.81h4.162a1 1 0 00.95-.69l1.286-3.957z" />
+        </svg>
+      ))}
+    </span>
+  );
+}
+
 function ProfileView({
   designer,
   portfolio,
   featuredCount,
+  ratings,
+  testimonials,
 }: {
   designer: DesignerData;
   portfolio: PortfolioItem[];
   featuredCount: number;
+  ratings: RatingSummary;
+  testimonials: Testimonial[];
 }) {
   const initials = designer.name
     .split(" ")
@@ -114,6 +143,17 @@ function ProfileView({
                 </p>
               )}
 
+              {/* Client rating */}
+              {ratings.count > 0 && (
+                <p className="mt-2 flex items-center gap-1.5 text-xs text-[#1A1A2E]/55">
+                  <Stars rating={ratings.average} />
+                  <span className="font-semibold text-[#1A1A2E]">{ratings.average.toFixed(1)}</span>
+                  <span>
+                    from {ratings.count} client rating{ratings.count === 1 ? "" : "s"}
+                  </span>
+                </p>
+              )}
+
               {/* Featured-on-Discover badge */}
               {featuredCount > 0 && (
                 <a
@@ -212,6 +252,32 @@ function ProfileView({
               </div>
             )}
 
+            {/* Testimonials — only reviews the client chose to share */}
+            {testimonials.length > 0 && (
+              <div className="mt-8">
+                <div className="my-8 h-px bg-[#1A1A2E]/8" />
+                <h2 className="mb-4 text-sm font-semibold uppercase tracking-wider text-[#1A1A2E]/40">
+                  What clients say
+                </h2>
+                <div className="space-y-3">
+                  {testimonials.map((t) => (
+                    <figure
+                      key={t._id}
+                      className="rounded-xl border border-white/30 bg-white/40 p-4"
+                    >
+                      <Stars rating={t.rating} />
+                      <blockquote className="mt-2 text-sm leading-relaxed text-[#1A1A2E]/70">
+                        &ldquo;{t.comment}&rdquo;
+                      </blockquote>
+                      <figcaption className="mt-2 text-xs text-[#1A1A2E]/40">
+                        — {t.clientName}
+                      </figcaption>
+                    </figure>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Portfolio */}
             {portfolio.length > 0 && (
               <div className="mt-8">
@@ -315,7 +381,7 @@ export default async function PublicDesignerProfile({
         portfolio.push({
           title: o.title as string,
           garmentType: o.garmentType as string,
-          image: images[0],
+          image: thumbnailUrl(images[0]),
         });
       }
     }
@@ -329,8 +395,19 @@ export default async function PublicDesignerProfile({
       "gallery.0": { $exists: true },
     });
 
+    const [ratings, testimonials] = await Promise.all([
+      getRatingSummary(id),
+      getTestimonials(id),
+    ]);
+
     return (
-      <ProfileView designer={d} portfolio={portfolio} featuredCount={featuredCount} />
+      <ProfileView
+        designer={d}
+        portfolio={portfolio}
+        featuredCount={featuredCount}
+        ratings={ratings}
+        testimonials={testimonials}
+      />
     );
   } catch {
     return <NotFoundView />;
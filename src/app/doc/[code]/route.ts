@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import connectDB from "@/lib/db";
+import { BusinessDocument } from "@/lib/models/business-document";
+import { renderDocumentPdf, type DocumentData } from "@/lib/documents";
+
+/* -------------------------------------------------------------------------- */
+/*  GET /doc/[code]                                                            */
+/*  Public — the PDF for an issued document. This is the link designers send */
+/*  over WhatsApp; it renders from the stored snapshot, so it shows the same */
+/*  document every time it's opened.                                          */
+/* -------------------------------------------------------------------------- */
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  try {
+    const { code } = await params;
+
+    await connectDB();
+
+    const document = await BusinessDocument.findOne({ code }).select("number data").lean();
+    if (!document) {
+      return NextResponse.json(
+        { success: false, error: "Document not found" },
+        { status: 404 },
+      );
+    }
+
+    const pdf = await renderDocumentPdf(document.data as unknown as DocumentData);
+
+    return new NextResponse(pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${document.number}.pdf"`,
+        "Cache-Control": "public, max-age=3600",
+      },
+    });
+  } catch (error) {
+    console.error("GET /doc/[code] error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,216 @@
+/* -------------------------------------------------------------------------- */
+/*  /group/[code]                                                               */
+/*                                                                              */
+/*  Public coordinator view for an aso-ebi group — shared with the bride,    */
+/*  celebrant or family rep so they can chase guests who haven't sent         */
+/*  measurements or paid. Server-rendered on every visit; no login.          */
+/* -------------------------------------------------------------------------- */
+
+import Link from "next/link";
+import { Metadata } from "next";
+import connectDB from "@/lib/db";
+import { buildCoordinatorView, type CoordinatorView } from "@/lib/group-orders";
+
+export const dynamic = "force-dynamic";
+
+async function getGroupView(code: string): Promise<CoordinatorView | null> {
+  try {
+    await connectDB();
+    return await buildCoordinatorView(code);
+  } catch {
+    return null;
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Metadata                                                                    */
+/* -------------------------------------------------------------------------- */
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ code: string }>;
+}): Promise<Metadata> {
+  const { code } = await params;
+  const data = await getGroupView(code);
+  if (!data) return { title: "Aso-ebi Group — Stitcha" };
+
+  const name = data.eventName || data.title;
+  return {
+    title: `${name} — Aso-ebi`,
+    description: `Measurement and payment progress for ${name}, by ${data.designer?.businessName || "your designer"}`,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Views                                                                       */
+/* -------------------------------------------------------------------------- */
+
+function NotFoundView() {
+  return (
+    <div className="relative min-h-screen bg-[#FAFAF8]">
+      <div className="relative z-10 mx-auto max-w-md px-6 py-20 text-center">
+        <div className="mx-auto flex h-16 w-16 items-center justify-center rounded-2xl border border-[#1A1A2E]/8 bg-white">
+          <span className="text-3xl">🔒</span>
+        </div>
+        <h1 className="mt-6 text-2xl font-bold text-[#1A1A2E]">Group not found</h1>
+        <p className="mx-auto mt-3 max-w-xs text-sm leading-relaxed text-[#1A1A2E]/55">
+          This group link is not valid. Please ask your designer for a new link.
+        </p>
+        <div className="mt-8">
+          <Link
+            href="/"
+            className="inline-flex items-center gap-2 rounded-xl bg-gradient-to-r from-[#C75B39] to-[#D4A853] px-6 py-3 text-sm font-semibold text-white shadow-lg hover:opacity-90"
+          >
+            Go to homepage
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function Stat({ label, value, total }: { label: string; value: number; total: number }) {
+  const pct = total > 0 ? Math.round((value / total) * 100) : 0;
+  return (
+    <div className="rounded-2xl border border-[#1A1A2E]/8 bg-white p-4">
+      <p className="text-xs font-medium text-[#1A1A2E]/50">{label}</p>
+      <p className="mt-1 text-2xl font-bold text-[#1A1A2E]">
+        {value}
+        <span className="text-sm font-medium text-[#1A1A2E]/40"> / {total}</span>
+      </p>
+      <div className="mt-2 h-1.5 w-full overflow-hidden rounded-full bg-[#1A1A2E]/6">
+        <div className="h-full rounded-full bg-[#C75B39]" style={{ width: `${pct}%` }} />
+      </div>
+    </div>
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Page                                                                        */
+/* -------------------------------------------------------------------------- */
+
+export default async function GroupCoordinatorPage({
+  params,
+}: {
+  params: Promise<{ code: string }>;
+}) {
+  const { code } = await params;
+  const data = await getGroupView(code);
+
+  if (!data) return <NotFoundView />;
+
+  const eventDate = data.eventDate
+    ? new Date(data.eventDate).toLocaleDateString("en-NG", {
+        weekday: "long",
+        day: "numeric",
+        month: "long",
+        year: "numeric",
+      })
+    : null;
+  const pending = data.guests.filter((g) => !g.measured || !g.paid);
+
+  return (
+    <div className="relative min-h-screen bg-[#FAFAF8]">
+      <div className="pointer-events-none fixed inset-0 z-0" aria-hidden>
+        <div className="absolute -top-32 -right-32 h-[500px] w-[500px] rounded-full bg-[#D4A853]/[0.08] blur-[120px]" />
+      </div>
+
+      <div className="relative z-10 mx-auto max-w-2xl space-y-6 px-4 py-10 sm:px-6">
+        {/* Header */}
+        <div className="text-center">
+          <p className="text-xs font-semibold uppercase tracking-wider text-[#C75B39]">Aso-ebi</p>
+          <h1 className="mt-2 text-2xl font-bold text-[#1A1A2E]">{data.eventName || data.title}</h1>
+          {eventDate && <p className="mt-1 text-sm text-[#1A1A2E]/55">{eventDate}</p>}
+          {data.designer && (
+            <p className="mt-3 text-xs text-[#1A1A2E]/45">
+              Made by <span className="font-semibold text-[#1A1A2E]/70">{data.designer.businessName}</span>
+              {data.designer.location && ` · ${data.designer.location}`}
+            </p>
+          )}
+        </div>
+
+        {/* Progress */}
+        <div className="grid grid-cols-2 gap-3">
+          <Stat label="Measured" value={data.totals.measured} total={data.totals.guests} />
+          <Stat label="Paid" value={data.totals.paid} total={data.totals.guests} />
+        </div>
+
+        {/* Fabric */}
+        <div className="rounded-2xl border border-[#1A1A2E]/8 bg-white p-4">
+          <p className="text-xs font-medium text-[#1A1A2E]/50">
+            Fabric{data.fabric.name ? ` — ${data.fabric.name}` : ""}
+          </p>
+          <p className="mt-1 text-lg font-bold text-[#1A1A2E]">~{data.fabric.yardsNeeded} yards needed</p>
+          <p className="mt-0.5 text-xs text-[#1A1A2E]/55">
+            {data.fabric.yardsPurchased > 0
+              ? data.fabric.yardsShort > 0
+                ? `${data.fabric.yardsPurchased} yards bought · ${data.fabric.yardsShort} yards still to buy`
+                : `${data.fabric.yardsPurchased} yards bought — enough for everyone`
+              : "No fabric bought yet"}
+          </p>
+          <p className="mt-2 text-[11px] text-[#1A1A2E]/40">
+            Estimated from each guest&apos;s measurements; guests not yet measured are counted at a standard size.
+          </p>
+        </div>
+
+        {/* Guests */}
+        <div className="rounded-2xl border border-[#1A1A2E]/8 bg-white">
+          <div className="flex items-center justify-between border-b border-[#1A1A2E]/6 px-4 py-3">
+            <p className="text-sm font-semibold text-[#1A1A2E]">Guests ({data.guests.length})</p>
+            {pending.length > 0 && (
+              <p className="text-xs text-[#C75B39]">{pending.length} still to follow up</p>
+            )}
+          </div>
+          {data.guests.length === 0 ? (
+            <p className="px-4 py-8 text-center text-sm text-[#1A1A2E]/45">No guests added yet.</p>
+          ) : (
+            <ul className="divide-y divide-[#1A1A2E]/6">
+              {data.guests.map((g, i) => (
+                <li key={i} className="flex items-center justify-between gap-3 px-4 py-3">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium text-[#1A1A2E]">{g.name}</p>
+                    <p className="text-xs text-[#1A1A2E]/45">
+                      {g.garmentType} · {g.stage}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-1.5 text-[11px] font-medium">
+                    <span
+                      className={
+                        g.measured
+                          ? "rounded-full bg-emerald-50 px-2 py-0.5 text-emerald-700"
+                          : g.linkSent
+                          ? "rounded-full bg-amber-50 px-2 py-0.5 text-amber-700"
+                          : "rounded-full bg-[#1A1A2E]/5 px-2 py-0.5 text-[#1A1A2E]/50"
+                      }
+                    >
+                      {g.measured ? "Measured" : g.linkSent ? "Link sent" : "Not measured"}
+                    </span>
+                    <span
+                      className={
+                        g.paid
+                          ? "rounded-full bg-emerald-50 px-2 py-0.5 text-emerald-700"
+                          : "rounded-full bg-[#1A1A2E]/5 px-2 py-0.5 text-[#1A1A2E]/50"
+                      }
+                    >
+                      {g.paid ? "Paid" : "Not paid"}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {data.designer?.phone && (
+          <p className="text-center text-xs text-[#1A1A2E]/45">
+            Questions? Contact {data.designer.name} on{" "}
+            <a href={`tel:${data.designer.phone}`} className="font-medium text-[#C75B39]">
+              {data.designer.phone}
+            </a>
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
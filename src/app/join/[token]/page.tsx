@@ -0,0 +1,156 @@
+"use client";
+
+/* -------------------------------------------------------------------------- */
+/*  /join/[token]                                                              */
+/*                                                                              */
+/*  Staff invite landing page. Anyone with the link can see whose shop it's  */
+/*  for; accepting needs a Stitcha account, so signed-out visitors go via    */
+/*  login (which brings them back here) or register first.                   */
+/* -------------------------------------------------------------------------- */
+
+import { useEffect, useState, use } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { motion } from "framer-motion";
+import { toast } from "sonner";
+import { Loader2, Users } from "lucide-react";
+
+interface InviteData {
+  businessName: string;
+  avatar: string | null;
+  role: "manager" | "apprentice";
+  email: string | null;
+  expiresAt: string;
+}
+
+const ROLE_BLURB: Record<InviteData["role"], string> = {
+  manager: "Managers can add and edit clients and orders, record payments and message clients — but not delete records, change billing or manage the team.",
+  apprentice: "Apprentices can look up clients, orders and measurements, but not change them.",
+};
+
+export default function JoinTeamPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = use(params);
+  const router = useRouter();
+  const { data: session, status, update } = useSession();
+  const [data, setData] = useState<InviteData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [joining, setJoining] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/team/join/${token}`)
+      .then((r) => r.json())
+      .then((json) => {
+        if (!json.success) {
+          setError(json.error || "Invite not found");
+        } else {
+          setData(json.data);
+        }
+      })
+      .catch(() => setError("Couldn't load this invite"))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const accept = async () => {
+    try {
+      setJoining(true);
+      const res = await fetch(`/api/team/join/${token}`, { method: "POST" });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Couldn't join the team");
+        return;
+      }
+      // Refresh the session so the new role shows straight away
+      await update();
+      toast.success(`You've joined ${data?.businessName}`);
+      router.push("/dashboard");
+      router.refresh();
+    } catch {
+      toast.error("Couldn't reach the server. Try again.");
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  if (loading || status === "loading") {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-[#FBF7F0]">
+        <Loader2 className="h-6 w-6 animate-spin text-[#C75B39]" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-[#FBF7F0] px-6">
+        <p className="text-center text-[#1A1A2E]/60">{error || "Invite not found"}</p>
+      </div>
+    );
+  }
+
+  const callbackUrl = encodeURIComponent(`/join/${token}`);
+
+  return (
+    <div className="min-h-screen bg-[#FBF7F0] px-4 py-10">
+      <motion.div
+        initial={{ opacity: 0, y: 12 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="mx-auto max-w-md"
+      >
+        <div className="mb-6 text-center">
+          <p className="text-xs uppercase tracking-wide text-[#1A1A2E]/40">You&apos;re invited to join</p>
+          <h1 className="mt-1 text-xl font-bold text-[#1A1A2E]">{data.businessName}</h1>
+        </div>
+
+        <div className="rounded-2xl border border-[#1A1A2E]/8 bg-white p-6 shadow-sm">
+          <div className="flex flex-col items-center text-center">
+            <div className="flex h-12 w-12 items-center justify-center rounded-full bg-[#C75B39]/10">
+              <Users className="h-6 w-6 text-[#C75B39]" />
+            </div>
+            <p className="mt-3 text-sm font-medium capitalize text-[#1A1A2E]">As {data.role}</p>
+            <p className="mt-1 text-xs text-[#1A1A2E]/50">{ROLE_BLURB[data.role]}</p>
+            {data.email && (
+              <p className="mt-3 text-xs text-[#1A1A2E]/40">This invite is for {data.email}</p>
+            )}
+          </div>
+
+          {session?.user ? (
+            <>
+              <button
+                onClick={accept}
+                disabled={joining}
+                className="mt-6 w-full rounded-xl bg-[#C75B39] py-3 text-sm font-medium text-white transition-opacity hover:opacity-90 disabled:opacity-50"
+              >
+                {joining ? "Please wait..." : "Join the team"}
+              </button>
+              <p className="mt-3 text-center text-xs text-[#1A1A2E]/40">
+                Signed in as {session.user.email}. Your own clients and orders stay yours — you can switch back any time from Settings.
+              </p>
+            </>
+          ) : (
+            <div className="mt-6 space-y-2">
+              <Link
+                href={`/login?callbackUrl=${callbackUrl}`}
+                className="block w-full rounded-xl bg-[#C75B39] py-3 text-center text-sm font-medium text-white transition-opacity hover:opacity-90"
+              >
+                Sign in to accept
+              </Link>
+              <Link
+                href="/register"
+                className="block w-full rounded-xl border border-[#1A1A2E]/10 py-3 text-center text-sm font-medium text-[#1A1A2E]/70 transition-colors hover:bg-[#1A1A2E]/5"
+              >
+                Create an account
+              </Link>
+              <p className="pt-1 text-center text-xs text-[#1A1A2E]/40">
+                New to Stitcha? Create your account, then open this link again to join.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <p className="mt-6 text-center text-[10px] text-[#1A1A2E]/30">Powered by Stitcha</p>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+/* -------------------------------------------------------------------------- */
+/*  GET /media/[...key]                                                         */
+/*                                                                              */
+/*  Resolves the stable `/media/<key>` paths stored on orders and manual       */
+/*  payments. S3 storage → redirect to a presigned URL; local storage →       */
+/*  bytes streamed from disk. `private/` keys need a valid ?exp=&sig= from    */
+/*  signedMediaUrl(). No login — gallery photos are shown on public pages.   */
+/* -------------------------------------------------------------------------- */
+
+import { NextResponse } from "next/server";
+import {
+  getMediaDriver,
+  isPrivateMediaKey,
+  isValidMediaKey,
+  verifyMediaSignature,
+} from "@/lib/media-storage";
+
+const PRESIGN_TTL_SECONDS = 60 * 60;
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  try {
+    const { key: segments } = await params;
+    const key = segments.join("/");
+
+    if (!isValidMediaKey(key)) {
+      return new NextResponse("Not found", { status: 404 });
+    }
+
+    const isPrivate = isPrivateMediaKey(key);
+    if (isPrivate) {
+      const { searchParams } = new URL(request.url);
+      if (!verifyMediaSignature(key, searchParams.get("exp"), searchParams.get("sig"))) {
+        return new NextResponse("Link expired", { status: 403 });
+      }
+    }
+
+    const driver = getMediaDriver();
+
+    const presigned = driver.presign(key, PRESIGN_TTL_SECONDS);
+    if (presigned) {
+      const res = NextResponse.redirect(presigned, 302);
+      // Let browsers/CDNs reuse the redirect for most of the presign lifetime.
+      res.headers.set(
+        "Cache-Control",
+        isPrivate ? "private, no-store" : `public, max-age=${PRESIGN_TTL_SECONDS - 300}`
+      );
+      return res;
+    }
+
+    const object = await driver.get(key);
+    if (!object) {
+      return new NextResponse("Not found", { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(object.body), {
+      headers: {
+        "Content-Type": object.contentType,
+        "Content-Length": String(object.body.length),
+        // Keys are random and never overwritten, so public media is immutable.
+        "Cache-Control": isPrivate ? "private, no-store" : "public, max-age=31536000, immutable",
+      },
+    });
+  } catch (error) {
+    console.error("GET /media/[...key] error:", error);
+    return new NextResponse("Internal server error", { status: 500 });
+  }
+}
@@ -15,6 +15,7 @@ import connectDB from "@/lib/db";
 import { Client } from "@/lib/models/client";
 import { Designer } from "@/lib/models/designer";
 import { Order } from "@/lib/models/order";
+import { Review } from "@/lib/models/review";
 import {
   PortalLive,
   type PortalData,
@@ -47,6 +48,16 @@ async function getPortalData(code: string): Promise<PortalData | null> {
       .sort({ createdAt: -1 })
       .lean();
 
+    const reviews = await Review.find({ clientId: client._id })
+      .select("orderId rating comment shareAsTestimonial")
+      .lean();
+    const reviewByOrder = new Map(
+      reviews.map((r) => [
+        String(r.orderId),
+        { rating: r.rating, comment: r.comment || "", shareAsTestimonial: !!r.shareAsTestimonial },
+      ]),
+    );
+
     const d = designer as Record<string, unknown> | null;
 
     return {
@@ -108,6 +119,7 @@ async function getPortalData(code: string): Promise<PortalData | null> {
           balance,
           paymentStatus: (order.paymentStatus as string) || "unpaid",
           notifyWhenReady: !!order.notifyWhenReady,
+          review: reviewByOrder.get(String(order._id)) ?? null,
         };
       }),
     };
@@ -0,0 +1,120 @@
+"use client";
+
+/* -------------------------------------------------------------------------- */
+/*  /unsubscribe/[token]                                                       */
+/*                                                                              */
+/*  Public page behind the "Unsubscribe" link in client emails. Asks before */
+/*  unsubscribing — link scanners in mail apps open every URL, so a plain    */
+/*  visit must not change anything.                                           */
+/* -------------------------------------------------------------------------- */
+
+import { useEffect, useState, use } from "react";
+import { motion } from "framer-motion";
+import { toast } from "sonner";
+import { CheckCircle2, Loader2, MailX } from "lucide-react";
+
+interface UnsubscribeData {
+  businessName: string;
+  firstName: string;
+  unsubscribed: boolean;
+}
+
+export default function UnsubscribePage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = use(params);
+  const [data, setData] = useState<UnsubscribeData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/unsubscribe/${token}`)
+      .then((r) => r.json())
+      .then((json) => {
+        if (!json.success) {
+          setError(json.error || "This unsubscribe link isn't valid");
+        } else {
+          setData(json.data);
+        }
+      })
+      .catch(() => setError("Couldn't load this page"))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const unsubscribe = async () => {
+    try {
+      setSubmitting(true);
+      const res = await fetch(`/api/unsubscribe/${token}`, { method: "POST" });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Something went wrong");
+        return;
+      }
+      setData((d) => (d ? { ...d, unsubscribed: true } : d));
+    } catch {
+      toast.error("Couldn't reach the server. Try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-[#FBF7F0]">
+        <Loader2 className="h-6 w-6 animate-spin text-[#C75B39]" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-[#FBF7F0] px-6">
+        <p className="text-center text-[#1A1A2E]/60">{error || "This unsubscribe link isn't valid"}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#FBF7F0] px-4 py-10">
+      <motion.div
+        initial={{ opacity: 0, y: 12 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="mx-auto max-w-md"
+      >
+        <div className="mb-6 text-center">
+          <p className="text-xs uppercase tracking-wide text-[#1A1A2E]/40">Emails from</p>
+          <h1 className="mt-1 text-xl font-bold text-[#1A1A2E]">{data.businessName}</h1>
+        </div>
+
+        <div className="rounded-2xl border border-[#1A1A2E]/8 bg-white p-6 text-center shadow-sm">
+          {data.unsubscribed ? (
+            <div className="flex flex-col items-center gap-2 py-4 text-emerald-700">
+              <CheckCircle2 className="h-8 w-8" />
+              <p className="font-medium">You&apos;re unsubscribed</p>
+              <p className="text-sm text-[#1A1A2E]/50">
+                {data.businessName} won&apos;t email you order updates any more. Ask them if you
+                change your mind.
+              </p>
+            </div>
+          ) : (
+            <>
+              <MailX className="mx-auto h-8 w-8 text-[#C75B39]" />
+              <p className="mt-3 text-sm text-[#1A1A2E]/70">
+                Hi {data.firstName}, stop getting order progress and payment emails from{" "}
+                {data.businessName}?
+              </p>
+              <button
+                onClick={unsubscribe}
+                disabled={submitting}
+                className="mt-5 w-full rounded-xl bg-[#C75B39] py-3 text-sm font-medium text-white transition-opacity hover:opacity-90 disabled:opacity-50"
+              >
+                {submitting ? "Please wait..." : "Unsubscribe"}
+              </button>
+            </>
+          )}
+        </div>
+
+        <p className="mt-6 text-center text-[10px] text-[#1A1A2E]/30">Powered by Stitcha</p>
+      </motion.div>
+    </div>
+  );
+}
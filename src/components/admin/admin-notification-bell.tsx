@@ -64,6 +64,7 @@ function severityClass(s: AdminNotif["severity"]) {
 function iconFor(kind: string) {
   if (kind === "manual_payment_submitted") return <Banknote className="h-3.5 w-3.5" />;
   if (kind === "paystack_payment_succeeded") return <CreditCard className="h-3.5 w-3.5" />;
+  if (kind === "subscription_payment_failed") return <CreditCard className="h-3.5 w-3.5" />;
   if (kind === "broadcast_failed") return <AlertTriangle className="h-3.5 w-3.5" />;
   return <Bell className="h-3.5 w-3.5" />;
 }
@@ -0,0 +1,277 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import dynamic from "next/dynamic";
+import {
+  AlertTriangle,
+  ArrowDownRight,
+  ArrowUpRight,
+  History,
+  Ruler,
+} from "lucide-react";
+import { GlassCard } from "@/components/common/glass-card";
+import { Button } from "@/components/ui/button";
+import { MEASUREMENT_TYPES } from "@/lib/constants";
+import {
+  buildTimeline,
+  trendSeries,
+  type MeasurementChange,
+} from "@/lib/measurement-history";
+import { inToCm } from "@/lib/units";
+import { cn, formatDate } from "@/lib/utils";
+
+const MeasurementTrendChart = dynamic(() => import("./measurement-trend-chart"), { ssr: false });
+
+/** Charted by default, in this order, when the client has them */
+const DEFAULT_TREND_KEYS = ["waist", "hips", "bust", "chest"];
+const MAX_TREND_KEYS = 4;
+
+interface ChangesSinceOrder {
+  lastOrder: { _id: string; title: string; createdAt: string } | null;
+  baseline: { measuredAt: string } | null;
+  changes: MeasurementChange[];
+  alerts: string[];
+}
+
+interface MeasurementHistoryPanelProps {
+  clientId: string;
+  current: unknown;
+  history: unknown[];
+  /** Opens the measurement dialog from the "re-measure" prompt */
+  onRemeasure?: () => void;
+}
+
+function shortDate(iso: string) {
+  return new Date(iso).toLocaleDateString("en-NG", { month: "short", day: "numeric", year: "numeric" });
+}
+
+export function MeasurementHistoryPanel({
+  clientId,
+  current,
+  history,
+  onRemeasure,
+}: MeasurementHistoryPanelProps) {
+  const timeline = useMemo(() => buildTimeline(current, history), [current, history]);
+  const [unit, setUnit] = useState<"in" | "cm">("in");
+  // null = default pair (latest vs the one before)
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  const [changes, setChanges] = useState<MeasurementChange[]>([]);
+  const [sinceOrder, setSinceOrder] = useState<ChangesSinceOrder | null>(null);
+  const [pickedKeys, setPickedKeys] = useState<string[] | null>(null);
+
+  const latestId = timeline[timeline.length - 1]?.id;
+  const effectiveTo = toId && timeline.some((s) => s.id === toId) ? toId : latestId;
+  const toIndex = timeline.findIndex((s) => s.id === effectiveTo);
+  const effectiveFrom = fromId && timeline.some((s) => s.id === fromId)
+    ? fromId
+    : timeline[Math.max(0, toIndex - 1)]?.id;
+
+  /* ---- Diff between the two selected snapshots ---- */
+  useEffect(() => {
+    if (!effectiveFrom || !effectiveTo) return;
+    async function fetchDiff(from: string, to: string) {
+      try {
+        const qs = new URLSearchParams({ from, to });
+        const res = await fetch(`/api/clients/${clientId}/measurements/diff?${qs}`);
+        const json = await res.json();
+        if (json.success) setChanges(json.data.changes);
+      } catch {
+        // Silently fail — the comparison is supplementary
+      }
+    }
+    fetchDiff(effectiveFrom, effectiveTo);
+  }, [clientId, effectiveFrom, effectiveTo]);
+
+  /* ---- Large changes since the last order (re-checked per new snapshot) ---- */
+  useEffect(() => {
+    async function fetchSinceOrder() {
+      try {
+        const res = await fetch(`/api/clients/${clientId}/measurements/changes`);
+        const json = await res.json();
+        if (json.success) setSinceOrder(json.data);
+      } catch {
+        // Silently fail
+      }
+    }
+    fetchSinceOrder();
+  }, [clientId, latestId]);
+
+  /* ---- Trend chart fields: only ones measured at least twice ---- */
+  const chartable = useMemo(
+    () => MEASUREMENT_TYPES
+      .map((t) => t.key as string)
+      .filter((k) => timeline.filter((s) => s.values[k] !== undefined).length >= 2),
+    [timeline]
+  );
+  const trendKeys = useMemo(
+    () => (pickedKeys ?? DEFAULT_TREND_KEYS).filter((k) => chartable.includes(k)).slice(0, MAX_TREND_KEYS),
+    [pickedKeys, chartable]
+  );
+  const series = useMemo(() => trendSeries(timeline, trendKeys), [timeline, trendKeys]);
+
+  function toggleTrendKey(key: string) {
+    const next = trendKeys.includes(key)
+      ? trendKeys.filter((k) => k !== key)
+      : [...trendKeys, key].slice(-MAX_TREND_KEYS);
+    setPickedKeys(next);
+  }
+
+  const fmt = (inches: number) =>
+    unit === "cm" ? `${Math.round(inToCm(inches) * 10) / 10}` : `${inches}`;
+  const changed = changes.filter((c) => c.deltaIn !== undefined && c.deltaIn !== 0);
+
+  if (timeline.length < 2) return null;
+
+  return (
+    <GlassCard padding="lg">
+      <div className="mb-4 flex flex-wrap items-center gap-2">
+        <History className="h-5 w-5 text-[#C75B39]" />
+        <h2 className="text-lg font-semibold text-[#1A1A2E]">
+          Measurement History
+        </h2>
+        <span className="rounded-full bg-[#C75B39]/10 px-2 py-0.5 text-xs font-medium text-[#C75B39]">
+          {timeline.length} records
+        </span>
+        <div className="ml-auto flex rounded-lg border border-[#1A1A2E]/10 bg-white/40 p-0.5">
+          {(["in", "cm"] as const).map((u) => (
+            <button
+              key={u}
+              onClick={() => setUnit(u)}
+              className={cn(
+                "rounded-md px-2.5 py-1 text-xs font-semibold transition-colors",
+                unit === u ? "bg-[#C75B39] text-white" : "text-[#1A1A2E]/50 hover:text-[#1A1A2E]"
+              )}
+            >
+              {u}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Changed since the last order */}
+      {sinceOrder && sinceOrder.alerts.length > 0 && sinceOrder.lastOrder && (
+        <div className="mb-4 rounded-xl border border-amber-500/30 bg-amber-50/60 p-3">
+          <div className="flex items-start gap-2">
+            <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" />
+            <div className="min-w-0 flex-1">
+              <p className="text-sm font-semibold text-amber-800">
+                Big changes since the last order
+              </p>
+              <p className="text-xs text-amber-700/80">
+                &ldquo;{sinceOrder.lastOrder.title}&rdquo; ({formatDate(sinceOrder.lastOrder.createdAt)}) was cut from
+                measurements taken {sinceOrder.baseline ? shortDate(sinceOrder.baseline.measuredAt) : "earlier"}.
+              </p>
+              <ul className="mt-1.5 space-y-0.5 text-xs text-amber-800">
+                {sinceOrder.alerts.map((a) => (
+                  <li key={a}>• {a}</li>
+                ))}
+              </ul>
+            </div>
+            {onRemeasure && (
+              <Button size="sm" variant="outline" onClick={onRemeasure}>
+                <Ruler className="h-3.5 w-3.5" />
+                Re-measure
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Pick two snapshots */}
+      <div className="mb-3 grid grid-cols-2 gap-2">
+        {[
+          { label: "From", value: effectiveFrom, set: setFromId },
+          { label: "To", value: effectiveTo, set: setToId },
+        ].map(({ label, value, set }) => (
+          <label key={label} className="text-[11px] font-medium text-[#1A1A2E]/45">
+            {label}
+            <select
+              value={value ?? ""}
+              onChange={(e) => set(e.target.value)}
+              className="mt-1 w-full rounded-lg border border-[#1A1A2E]/10 bg-white/50 px-2 py-1.5 text-xs text-[#1A1A2E] focus:outline-none"
+            >
+              {[...timeline].reverse().map((s) => (
+                <option key={s.id} value={s.id}>
+                  {shortDate(s.measuredAt)} · {s.source === "ai_scan" ? "AI scan" : "Manual"}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {changed.length === 0 ? (
+        <p className="rounded-lg bg-white/30 px-3 py-4 text-center text-xs text-[#1A1A2E]/45">
+          No differences between these two records.
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 gap-2 sm:grid-cols-3 lg:grid-cols-4">
+          {changed.map((c) => {
+            const delta = c.deltaIn as number;
+            const shown = unit === "cm" ? (c.deltaCm as number) : delta;
+            return (
+              <div
+                key={c.key}
+                className={cn(
+                  "flex items-center justify-between rounded-lg border px-2.5 py-2",
+                  c.significant
+                    ? "border-amber-500/30 bg-amber-50/50"
+                    : "border-white/20 bg-white/30"
+                )}
+              >
+                <div className="min-w-0">
+                  <p className="truncate text-[10px] text-[#1A1A2E]/40">{c.label}</p>
+                  <p className="text-sm font-semibold text-[#1A1A2E]">
+                    {fmt(c.from as number)} → {fmt(c.to as number)}{" "}
+                    <span className="text-[10px] font-normal text-[#1A1A2E]/35">{unit}</span>
+                  </p>
+                </div>
+                <div
+                  className={cn(
+                    "flex shrink-0 items-center gap-0.5 rounded-full px-1.5 py-0.5 text-[10px] font-semibold",
+                    delta > 0 ? "bg-emerald-50 text-emerald-600" : "bg-red-50 text-red-500"
+                  )}
+                >
+                  {delta > 0 ? (
+                    <ArrowUpRight className="h-3 w-3" />
+                  ) : (
+                    <ArrowDownRight className="h-3 w-3" />
+                  )}
+                  {delta > 0 ? "+" : ""}
+                  {shown}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Trend over time */}
+      {chartable.length > 0 && (
+        <div className="mt-5">
+          <p className="mb-2 text-xs font-medium text-[#1A1A2E]/40">Trend over time</p>
+          <div className="mb-3 flex flex-wrap gap-1.5">
+            {chartable.map((k) => (
+              <button
+                key={k}
+                onClick={() => toggleTrendKey(k)}
+                className={cn(
+                  "rounded-full border px-2 py-0.5 text-[10px] font-medium transition-colors",
+                  trendKeys.includes(k)
+                    ? "border-[#C75B39]/30 bg-[#C75B39]/10 text-[#C75B39]"
+                    : "border-[#1A1A2E]/10 text-[#1A1A2E]/45 hover:text-[#1A1A2E]"
+                )}
+              >
+                {MEASUREMENT_TYPES.find((t) => t.key === k)?.label ?? k}
+              </button>
+            ))}
+          </div>
+          {trendKeys.length > 0 && (
+            <MeasurementTrendChart data={series} keys={trendKeys} unit={unit} />
+          )}
+        </div>
+      )}
+    </GlassCard>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { MEASUREMENT_TYPES } from "@/lib/constants";
+import { inToCm } from "@/lib/units";
+
+const LINE_COLORS = ["#C75B39", "#D4A853", "#10b981", "#6366f1"];
+
+interface MeasurementTrendChartProps {
+  /** Rows from trendSeries — values in inches */
+  data: Array<{ date: string } & Record<string, number | string | undefined>>;
+  keys: string[];
+  unit: "in" | "cm";
+}
+
+function labelFor(key: string) {
+  return MEASUREMENT_TYPES.find((t) => t.key === key)?.label ?? key;
+}
+
+export default function MeasurementTrendChart({ data, keys, unit }: MeasurementTrendChartProps) {
+  const rows = data.map((row) => {
+    const out: Record<string, number | string | undefined> = {
+      date: new Date(row.date).toLocaleDateString("en-NG", { month: "short", day: "numeric" }),
+    };
+    for (const k of keys) {
+      const v = row[k];
+      out[k] = typeof v === "number" ? Math.round((unit === "cm" ? inToCm(v) : v) * 10) / 10 : undefined;
+    }
+    return out;
+  });
+
+  return (
+    <div className="h-[220px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={rows} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#1A1A2E10" />
+          <XAxis
+            dataKey="date"
+            tick={{ fontSize: 11, fill: "#1A1A2E60" }}
+            axisLine={false}
+            tickLine={false}
+          />
+          <YAxis
+            tick={{ fontSize: 10, fill: "#1A1A2E40" }}
+            axisLine={false}
+            tickLine={false}
+            domain={["dataMin - 1", "dataMax + 1"]}
+          />
+          <Tooltip
+            contentStyle={{
+              background: "rgba(255,255,255,0.95)",
+              border: "1px solid #1A1A2E15",
+              borderRadius: "12px",
+              fontSize: "12px",
+              boxShadow: "0 4px 20px rgba(0,0,0,0.08)",
+            }}
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            formatter={(value: any, name: any) => [`${value} ${unit}`, labelFor(String(name))]}
+          />
+          {keys.map((k, i) => (
+            <Line
+              key={k}
+              type="monotone"
+              dataKey={k}
+              stroke={LINE_COLORS[i % LINE_COLORS.length]}
+              strokeWidth={2}
+              dot={{ r: 3 }}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+      <div className="mt-2 flex flex-wrap items-center justify-center gap-4 text-[10px] text-[#1A1A2E]/40">
+        {keys.map((k, i) => (
+          <span key={k} className="flex items-center gap-1">
+            <span
+              className="h-2 w-2 rounded-full"
+              style={{ background: LINE_COLORS[i % LINE_COLORS.length] }}
+            />
+            {labelFor(k)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,370 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Check, Eye, Mail, RefreshCw, RotateCcw } from "lucide-react";
+import { GlassCard } from "@/components/common/glass-card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  CLIENT_EMAIL_KINDS,
+  EMAIL_BODY_MAX,
+  EMAIL_PLACEHOLDERS,
+  EMAIL_SUBJECT_MAX,
+  unknownPlaceholders,
+  type ClientEmailKind,
+  type EmailTemplate,
+} from "@/lib/email-templates";
+import { cn, formatDate } from "@/lib/utils";
+
+/* -------------------------------------------------------------------------- */
+/*  Client Email Settings                                                      */
+/*  Edit the order emails clients get (progress, ready, payment, overdue),  */
+/*  preview them in the designer's branding, and see how recent deliveries  */
+/*  went — retrying any that failed. Backed by /api/email-templates and      */
+/*  /api/email-outbox.                                                        */
+/* -------------------------------------------------------------------------- */
+
+interface EmailSettingsData {
+  templates: EmailTemplate[];
+  isDefault: boolean;
+  allowed: boolean;
+  upgradeMessage?: string;
+  brand: { name: string; color: string; logoUrl?: string; studio: boolean };
+}
+
+interface OutboxEntry {
+  _id: string;
+  clientId?: { _id: string; name: string } | null;
+  kind: ClientEmailKind;
+  to: string;
+  subject: string;
+  status: "queued" | "sent" | "failed" | "cancelled";
+  attempts: number;
+  lastError?: string;
+  sentAt?: string;
+  createdAt: string;
+}
+
+const STATUS_BADGE: Record<OutboxEntry["status"], "success" | "warning" | "destructive" | "outline"> = {
+  sent: "success",
+  queued: "warning",
+  failed: "destructive",
+  cancelled: "outline",
+};
+
+export function ClientEmailSettings() {
+  const [data, setData] = useState<EmailSettingsData | null>(null);
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isResetting, setIsResetting] = useState(false);
+  const [preview, setPreview] = useState<{ kind: ClientEmailKind; subject: string; html: string } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [settingsRes, outboxRes] = await Promise.all([
+        fetch("/api/email-templates"),
+        fetch("/api/email-outbox"),
+      ]);
+      const [settings, sent] = await Promise.all([settingsRes.json(), outboxRes.json()]);
+      if (settings.success) {
+        setData(settings.data);
+        setTemplates(settings.data.templates);
+      }
+      if (sent.success) setOutbox(sent.data);
+    } catch {
+      toast.error("Failed to load email settings");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const hasChanged = !!data && JSON.stringify(templates) !== JSON.stringify(data.templates);
+
+  function updateTemplate(kind: ClientEmailKind, patch: Partial<EmailTemplate>) {
+    setTemplates((prev) => prev.map((t) => (t.kind === kind ? { ...t, ...patch } : t)));
+    if (preview?.kind === kind) setPreview(null);
+  }
+
+  async function handlePreview(template: EmailTemplate) {
+    try {
+      const res = await fetch("/api/email-templates/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ subject: template.subject, body: template.body }),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Couldn't preview this email");
+        return;
+      }
+      setPreview({ kind: template.kind, ...json.data });
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    }
+  }
+
+  async function handleSave() {
+    setIsSaving(true);
+    try {
+      const res = await fetch("/api/email-templates", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ templates }),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to save templates");
+        return;
+      }
+      toast.success("Email templates saved");
+      await load();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleReset() {
+    setIsResetting(true);
+    try {
+      const res = await fetch("/api/email-templates", { method: "DELETE" });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to reset templates");
+        return;
+      }
+      toast.success("Email templates reset to default");
+      setPreview(null);
+      await load();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsResetting(false);
+    }
+  }
+
+  async function handleRetry(id: string) {
+    setBusyId(id);
+    try {
+      const res = await fetch(`/api/email-outbox/${id}/retry`, { method: "POST" });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Couldn't retry this email");
+        return;
+      }
+      toast.success("Email queued to send again");
+      setOutbox((prev) => prev.map((e) => (e._id === id ? { ...e, status: "queued" } : e)));
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <GlassCard padding="lg">
+        <div className="space-y-5">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <Mail className="h-5 w-5 text-[#C75B39]" strokeWidth={1.5} />
+              <div>
+                <h2 className="text-lg font-semibold text-[#1A1A2E]">Client Emails</h2>
+                <p className="mt-0.5 text-sm text-[#1A1A2E]/45">
+                  What your clients get in their inbox as their orders move along.
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              {data && !data.isDefault && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={handleReset}
+                  loading={isResetting}
+                  className="gap-1.5"
+                >
+                  <RotateCcw className="h-3.5 w-3.5" />
+                  Reset
+                </Button>
+              )}
+              {hasChanged && (
+                <Button size="sm" onClick={handleSave} loading={isSaving} className="gap-1.5">
+                  <Check className="h-3.5 w-3.5" />
+                  Save
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {isLoading || !data ? (
+            <p className="text-sm text-[#1A1A2E]/40">Loading email settings...</p>
+          ) : (
+            <div className="space-y-3">
+              {!data.allowed && (
+                <div className="rounded-xl border border-[#D4A853]/30 bg-[#D4A853]/10 p-3 text-xs text-[#1A1A2E]/70">
+                  {data.upgradeMessage} You can still set up your templates now.
+                </div>
+              )}
+
+              <div className="flex items-center gap-2 rounded-xl bg-[#1A1A2E]/[0.03] p-3 text-xs text-[#1A1A2E]/55">
+                <span
+                  className="h-3.5 w-3.5 shrink-0 rounded-full"
+                  style={{ backgroundColor: data.brand.color }}
+                />
+                {data.brand.studio
+                  ? `Sent as ${data.brand.name} in your Studio colour${data.brand.logoUrl ? " with your logo" : ""}. Replies come straight to you.`
+                  : `Sent as ${data.brand.name}. Add the Studio addon to use your own colour and logo. Replies come straight to you.`}
+              </div>
+
+              {templates.map((template) => {
+                const meta = CLIENT_EMAIL_KINDS.find((k) => k.kind === template.kind);
+                const unknown = unknownPlaceholders(`${template.subject} ${template.body}`);
+                return (
+                  <div
+                    key={template.kind}
+                    className="rounded-xl border border-[#1A1A2E]/8 bg-white/50 p-3"
+                  >
+                    <div className="flex flex-wrap items-start justify-between gap-2">
+                      <label className="flex items-start gap-2">
+                        <input
+                          type="checkbox"
+                          checked={template.enabled}
+                          onChange={(e) => updateTemplate(template.kind, { enabled: e.target.checked })}
+                          className="mt-1 accent-[#C75B39]"
+                        />
+                        <span>
+                          <span className="block text-sm font-semibold text-[#1A1A2E]">{meta?.label}</span>
+                          <span className="block text-xs text-[#1A1A2E]/45">{meta?.description}</span>
+                        </span>
+                      </label>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handlePreview(template)}
+                        className="gap-1.5"
+                      >
+                        <Eye className="h-3.5 w-3.5" />
+                        Preview
+                      </Button>
+                    </div>
+
+                    <div className={cn("mt-3 space-y-2", !template.enabled && "opacity-50")}>
+                      <Input
+                        label="Subject"
+                        value={template.subject}
+                        maxLength={EMAIL_SUBJECT_MAX}
+                        onChange={(e) => updateTemplate(template.kind, { subject: e.target.value })}
+                      />
+                      <Textarea
+                        label="Message"
+                        value={template.body}
+                        rows={6}
+                        maxLength={EMAIL_BODY_MAX}
+                        onChange={(e) => updateTemplate(template.kind, { body: e.target.value })}
+                      />
+                      {unknown.length > 0 && (
+                        <p className="text-xs text-red-600">
+                          Unknown placeholder{unknown.length > 1 ? "s" : ""}:{" "}
+                          {unknown.map((key) => `{{${key}}}`).join(", ")}
+                        </p>
+                      )}
+                    </div>
+
+                    {preview?.kind === template.kind && (
+                      <div className="mt-3 overflow-hidden rounded-xl border border-[#1A1A2E]/10 bg-white">
+                        <p className="border-b border-[#1A1A2E]/8 px-3 py-2 text-xs text-[#1A1A2E]/60">
+                          <span className="font-medium text-[#1A1A2E]">Subject:</span> {preview.subject}
+                        </p>
+                        <iframe
+                          title={`${meta?.label} preview`}
+                          srcDoc={preview.html}
+                          sandbox=""
+                          className="h-96 w-full"
+                        />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+
+              <div>
+                <p className="mb-1.5 text-[11px] font-medium uppercase tracking-wide text-[#1A1A2E]/40">
+                  Placeholders
+                </p>
+                <div className="flex flex-wrap gap-1.5">
+                  {EMAIL_PLACEHOLDERS.map((p) => (
+                    <span
+                      key={p.key}
+                      title={p.description}
+                      className="rounded-full border border-[#1A1A2E]/10 px-2.5 py-1 font-mono text-[11px] text-[#1A1A2E]/60"
+                    >
+                      {`{{${p.key}}}`}
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              <p className="text-xs text-[#1A1A2E]/40">
+                Clients only get emails if they have an email address on file. Every email has an
+                unsubscribe link, and you can turn emails off for a client or a single order from
+                their page.
+              </p>
+            </div>
+          )}
+        </div>
+      </GlassCard>
+
+      <GlassCard padding="lg">
+        <div className="mb-3 flex items-center justify-between gap-2">
+          <h2 className="text-lg font-semibold text-[#1A1A2E]">Recent emails</h2>
+          <Button size="sm" variant="outline" onClick={load} className="gap-1.5">
+            <RefreshCw className="h-3.5 w-3.5" />
+            Refresh
+          </Button>
+        </div>
+        {outbox.length === 0 ? (
+          <p className="text-sm text-[#1A1A2E]/40">No client emails sent yet.</p>
+        ) : (
+          <ul className="divide-y divide-[#1A1A2E]/5">
+            {outbox.map((email) => (
+              <li key={email._id} className="flex items-center gap-3 py-2.5">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium text-[#1A1A2E]">{email.subject}</p>
+                  <p className="truncate text-xs text-[#1A1A2E]/45">
+                    {email.clientId?.name || email.to} · {formatDate(email.sentAt || email.createdAt)}
+                    {email.status === "failed" && email.lastError ? ` · ${email.lastError}` : ""}
+                  </p>
+                </div>
+                <Badge variant={STATUS_BADGE[email.status]} className="capitalize">
+                  {email.status}
+                </Badge>
+                {email.status === "failed" && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleRetry(email._id)}
+                    loading={busyId === email._id}
+                  >
+                    Retry
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </GlassCard>
+    </div>
+  );
+}
@@ -15,6 +15,7 @@ import {
   Heart,
   Trophy,
   Sparkles,
+  Warehouse,
   X,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
@@ -35,6 +36,7 @@ const commands: CommandItem[] = [
   { id: "dashboard", label: "Go to Dashboard", icon: <LayoutDashboard className="h-4 w-4" />, href: "/dashboard", section: "Navigation", keywords: ["home"] },
   { id: "clients", label: "Go to Clients", icon: <Users className="h-4 w-4" />, href: "/clients", section: "Navigation" },
   { id: "orders", label: "Go to Orders", icon: <Package className="h-4 w-4" />, href: "/orders", section: "Navigation" },
+  { id: "inventory", label: "Go to Inventory", icon: <Warehouse className="h-4 w-4" />, href: "/inventory", section: "Navigation", keywords: ["stock", "fabric", "materials"] },
   { id: "finances", label: "Go to Finances", icon: <Wallet className="h-4 w-4" />, href: "/finances", section: "Navigation", keywords: ["money", "payment", "revenue"] },
   { id: "scan", label: "Go to Scan", icon: <ScanLine className="h-4 w-4" />, href: "/scan", section: "Navigation", keywords: ["measure"] },
   { id: "calendar", label: "Go to Calendar", icon: <Calendar className="h-4 w-4" />, href: "/calendar", section: "Navigation" },
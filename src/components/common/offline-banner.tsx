@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from "react";
 import { WifiOff, RefreshCw, Loader2 } from "lucide-react";
-import { syncQueue } from "@/lib/offline-store";
+import { getPendingCount, onSyncStatusChange, syncNow } from "@/lib/offline-store";
 
 export function OfflineBanner() {
   const [isOffline, setIsOffline] = useState(false);
@@ -10,37 +10,29 @@ export function OfflineBanner() {
   const [syncing, setSyncing] = useState(false);
 
   useEffect(() => {
-    const handleOnline = () => {
-      setIsOffline(false);
-      // Auto-flush sync queue when we come back online
-      syncQueue.flush().then(() => syncQueue.count().then(setPendingCount));
-    };
+    // initAutoSync (SyncIndicator) syncs on reconnect; just track the state
+    const handleOnline = () => setIsOffline(false);
     const handleOffline = () => setIsOffline(true);
 
     setIsOffline(!navigator.onLine);
     window.addEventListener("online", handleOnline);
     window.addEventListener("offline", handleOffline);
 
-    // Check pending sync count periodically
-    const interval = setInterval(() => {
-      syncQueue.count().then(setPendingCount);
-    }, 10000);
-
-    syncQueue.count().then(setPendingCount);
+    const unsub = onSyncStatusChange((_status, count) => setPendingCount(count));
+    getPendingCount().then(setPendingCount);
 
     return () => {
       window.removeEventListener("online", handleOnline);
       window.removeEventListener("offline", handleOffline);
-      clearInterval(interval);
+      unsub();
     };
   }, []);
 
   const handleSync = async () => {
     setSyncing(true);
     try {
-      await syncQueue.flush();
-      const count = await syncQueue.count();
-      setPendingCount(count);
+      await syncNow();
+      setPendingCount(await getPendingCount());
     } finally {
       setSyncing(false);
     }
@@ -95,19 +87,17 @@ export function SyncStatusDot() {
         setStatus("offline");
         return;
       }
-      const { count } = await import("@/lib/offline-store").then((m) =>
-        m.syncQueue.count().then((c) => ({ count: c }))
-      );
+      const count = await getPendingCount();
       setStatus(count > 0 ? "pending" : "synced");
     };
 
     update();
-    const interval = setInterval(update, 5000);
+    const unsub = onSyncStatusChange(() => { update(); });
     window.addEventListener("online", update);
     window.addEventListener("offline", update);
 
     return () => {
-      clearInterval(interval);
+      unsub();
       window.removeEventListener("online", update);
       window.removeEventListener("offline", update);
     };
@@ -2,10 +2,21 @@
 
 import { useCallback, useEffect, useState } from "react";
 import { motion } from "framer-motion";
-import { AlertTriangle, Clock, MessageCircle, CheckCircle2, RefreshCw, TrendingDown } from "lucide-react";
+import { AlertTriangle, Clock, MessageCircle, CheckCircle2, RefreshCw, TrendingDown, BellRing } from "lucide-react";
 import { toast } from "sonner";
 import { GlassCard } from "@/components/common/glass-card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogClose,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
 import { cn, formatCurrency } from "@/lib/utils";
 
 /* -------------------------------------------------------------------------- */
@@ -33,6 +44,13 @@ interface ChaserData {
 
 type ChaseTone = "gentle" | "firm" | "final";
 
+interface AutoChaseSettings {
+  enabled: boolean;
+  rules: { afterDays: number; tone: ChaseTone }[];
+  quietHours: { start: number; end: number };
+  smsBalance: number;
+}
+
 /* -------------------------------------------------------------------------- */
 /*  Urgency config                                                             */
 /* -------------------------------------------------------------------------- */
@@ -116,6 +134,179 @@ function ChaseRow({ order, tone, onSent }: { order: ChaseOrder; tone: ChaseTone;
   );
 }
 
+/* -------------------------------------------------------------------------- */
+/*  Auto-chase settings                                                        */
+/* -------------------------------------------------------------------------- */
+
+const TONES: { tone: ChaseTone; label: string; defaultDays: number }[] = [
+  { tone: "gentle", label: "Gentle reminder", defaultDays: 3 },
+  { tone: "firm",   label: "Firm reminder",   defaultDays: 7 },
+  { tone: "final",  label: "Final notice",    defaultDays: 14 },
+];
+
+const HOUR_OPTIONS = Array.from({ length: 24 }, (_, h) => ({
+  value: String(h),
+  label: `${String(h).padStart(2, "0")}:00`,
+}));
+
+type ToneDraft = Record<ChaseTone, { on: boolean; days: string }>;
+
+function AutoChaseDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const [loading, setLoading] = useState(true);
+  const [saving,  setSaving]  = useState(false);
+  const [enabled, setEnabled] = useState(false);
+  const [tones,   setTones]   = useState<ToneDraft>({
+    gentle: { on: true, days: "3" },
+    firm:   { on: true, days: "7" },
+    final:  { on: true, days: "14" },
+  });
+  const [quiet,      setQuiet]      = useState({ start: 20, end: 8 });
+  const [smsBalance, setSmsBalance] = useState(0);
+
+  useEffect(() => {
+    if (!open) return;
+    (async () => {
+      try {
+        setLoading(true);
+        const res  = await fetch("/api/payment-chaser/settings");
+        const json = await res.json();
+        if (!json.success) throw new Error(json.error);
+        const data = json.data as AutoChaseSettings;
+        setEnabled(data.enabled);
+        setQuiet(data.quietHours);
+        setSmsBalance(data.smsBalance);
+        setTones(
+          Object.fromEntries(
+            TONES.map(({ tone, defaultDays }) => {
+              const rule = data.rules.find((r) => r.tone === tone);
+              return [tone, { on: !!rule, days: String(rule?.afterDays ?? defaultDays) }];
+            })
+          ) as ToneDraft
+        );
+      } catch {
+        toast.error("Failed to load auto-chase settings");
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [open]);
+
+  const handleSave = async () => {
+    const rules = TONES
+      .filter(({ tone }) => tones[tone].on)
+      .map(({ tone }) => ({ tone, afterDays: parseInt(tones[tone].days, 10) }));
+    if (!rules.length) {
+      toast.error("Pick at least one reminder");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res  = await fetch("/api/payment-chaser/settings", {
+        method:  "PUT",
+        headers: { "Content-Type": "application/json" },
+        body:    JSON.stringify({ enabled, rules, quietHours: quiet }),
+      });
+      const json = await res.json();
+      if (!json.success) throw new Error(json.error);
+      toast.success(enabled ? "Auto-chase is on" : "Auto-chase is off");
+      onOpenChange(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogClose />
+        <DialogHeader>
+          <DialogTitle>Auto-chase</DialogTitle>
+          <DialogDescription>
+            Stitcha texts clients with an unpaid balance for you, one reminder at a time, and stops after the final notice.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center gap-2 py-6 text-[#1A1A2E]/40">
+            <RefreshCw className="h-4 w-4 animate-spin" />
+            <span className="text-sm">Loading settings...</span>
+          </div>
+        ) : (
+          <div className="mt-4 space-y-4">
+            <label className="flex items-center justify-between rounded-lg border border-[#1A1A2E]/10 px-3 py-2.5">
+              <span className="text-sm font-medium text-[#1A1A2E]">Send SMS reminders automatically</span>
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={(e) => setEnabled(e.target.checked)}
+                className="h-4 w-4 accent-[#C75B39]"
+              />
+            </label>
+
+            <div className="space-y-2">
+              {TONES.map(({ tone, label }) => (
+                <div key={tone} className="flex items-end gap-3">
+                  <label className="flex h-10 flex-1 items-center gap-2 text-sm text-[#1A1A2E]/70">
+                    <input
+                      type="checkbox"
+                      checked={tones[tone].on}
+                      onChange={(e) => setTones((t) => ({ ...t, [tone]: { ...t[tone], on: e.target.checked } }))}
+                      className="accent-[#C75B39]"
+                    />
+                    {label}
+                  </label>
+                  <div className="w-28">
+                    <Input
+                      type="number"
+                      min={1}
+                      max={90}
+                      label="After (days)"
+                      value={tones[tone].days}
+                      disabled={!tones[tone].on}
+                      onChange={(e) => setTones((t) => ({ ...t, [tone]: { ...t[tone], days: e.target.value } }))}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <Select
+                label="Quiet from"
+                value={String(quiet.start)}
+                onChange={(e) => setQuiet((q) => ({ ...q, start: parseInt(e.target.value, 10) }))}
+                options={HOUR_OPTIONS}
+              />
+              <Select
+                label="Until"
+                value={String(quiet.end)}
+                onChange={(e) => setQuiet((q) => ({ ...q, end: parseInt(e.target.value, 10) }))}
+                options={HOUR_OPTIONS}
+              />
+            </div>
+
+            <p className="text-xs text-[#1A1A2E]/50">
+              Each reminder uses 1 SMS credit — you have {smsBalance}. Days count from the order&apos;s last update; no texts go out during quiet hours (Lagos time).
+            </p>
+          </div>
+        )}
+
+        <DialogFooter className="mt-6">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={saving} disabled={loading}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 /* -------------------------------------------------------------------------- */
 /*  Main component                                                             */
 /* -------------------------------------------------------------------------- */
@@ -123,6 +314,7 @@ function ChaseRow({ order, tone, onSent }: { order: ChaseOrder; tone: ChaseTone;
 export function PaymentChaser() {
   const [data,    setData]    = useState<ChaserData | null>(null);
   const [loading, setLoading] = useState(true);
+  const [autoChaseOpen, setAutoChaseOpen] = useState(false);
 
   const fetchData = useCallback(async () => {
     try {
@@ -150,15 +342,28 @@ export function PaymentChaser() {
     );
   }
 
+  const autoChase = (
+    <>
+      <Button size="sm" variant="ghost" onClick={() => setAutoChaseOpen(true)}>
+        <BellRing className="h-3.5 w-3.5" />
+        Auto-chase
+      </Button>
+      <AutoChaseDialog open={autoChaseOpen} onOpenChange={setAutoChaseOpen} />
+    </>
+  );
+
   if (!data || data.count === 0) {
     return (
       <GlassCard padding="lg">
-        <div className="flex items-center gap-3">
-          <CheckCircle2 className="h-8 w-8 text-emerald-500" />
-          <div>
-            <p className="font-semibold text-[#1A1A2E]">All payments settled! 🎉</p>
-            <p className="text-sm text-[#1A1A2E]/50">No outstanding balances right now.</p>
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <CheckCircle2 className="h-8 w-8 text-emerald-500" />
+            <div>
+              <p className="font-semibold text-[#1A1A2E]">All payments settled! 🎉</p>
+              <p className="text-sm text-[#1A1A2E]/50">No outstanding balances right now.</p>
+            </div>
           </div>
+          {autoChase}
         </div>
       </GlassCard>
     );
@@ -177,11 +382,14 @@ export function PaymentChaser() {
             {data.count} unpaid
           </span>
         </div>
-        <div className="text-right">
-          <p className="text-xs text-[#1A1A2E]/40">Total owed</p>
-          <p className="text-lg font-bold text-red-600">
-            {formatCurrency(data.total)}
-          </p>
+        <div className="flex items-center gap-3">
+          {autoChase}
+          <div className="text-right">
+            <p className="text-xs text-[#1A1A2E]/40">Total owed</p>
+            <p className="text-lg font-bold text-red-600">
+              {formatCurrency(data.total)}
+            </p>
+          </div>
         </div>
       </div>
 
@@ -248,7 +456,7 @@ export function PaymentChaser() {
       </div>
 
       <p className="mt-3 text-center text-[10px] text-[#1A1A2E]/30">
-        Tap Chase to open a pre-written WhatsApp message. The message is sent by you — Stitcha never contacts your clients directly.
+        Tap Chase to open a pre-written WhatsApp message sent by you. Stitcha only texts your clients if you switch on Auto-chase.
       </p>
     </GlassCard>
   );
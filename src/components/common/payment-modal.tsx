@@ -11,8 +11,9 @@
 /*    4. Submits to /api/manual-payments → returns a unique STC- reference   */
 /*    5. Confirmation screen with the reference + "Notify admin on WhatsApp" */
 /*                                                                              */
-/*  Used by /billing (subscription, SMS pack, Studio addon) and the order    */
-/*  detail page (Boost). Single canonical paid-feature checkout in the app.  */
+/*  Used by /billing (subscription, scan credits, SMS pack, Studio addon)    */
+/*  and the order detail page (Boost). Single canonical paid-feature         */
+/*  checkout in the app.                                                       */
 /* -------------------------------------------------------------------------- */
 
 import { useEffect, useRef, useState } from "react";
@@ -35,6 +36,7 @@ import { formatCurrency } from "@/lib/utils";
 export type PaymentPurpose =
   | "subscription"
   | "sms_pack"
+  | "scan_credits"
   | "studio_addon"
   | "boost_post";
 
@@ -42,9 +44,10 @@ export interface PaymentRequest {
   purpose: PaymentPurpose;
   /** Expected amount in NGN — pre-fills the amount field. */
   amount: number;
-  /** Per-purpose payload (planId, packId, orderId, durationDays). */
+  /** Per-purpose payload (planId, interval, packId, orderId, durationDays). */
   payload: {
     planId?: "free" | "plus" | "pro";
+    interval?: "monthly" | "annual";
     orderId?: string;
     packId?: string;
     durationDays?: number;
@@ -66,6 +69,7 @@ interface PaymentModalProps {
 const PURPOSE_LABEL: Record<PaymentPurpose, string> = {
   subscription: "Subscription",
   sms_pack: "SMS pack",
+  scan_credits: "Scan credits",
   studio_addon: "Studio addon",
   boost_post: "Discover boost",
 };
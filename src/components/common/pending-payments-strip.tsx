@@ -39,6 +39,7 @@ const PURPOSE_LABEL: Record<string, string> = {
   subscription: "Subscription",
   boost_post: "Discover Boost",
   sms_pack: "SMS Credits",
+  scan_credits: "Scan Credits",
   studio_addon: "Studio Addon",
 };
 
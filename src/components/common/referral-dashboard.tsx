@@ -0,0 +1,182 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Copy, Gift, MessageCircle } from "lucide-react";
+import { GlassCard } from "@/components/common/glass-card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { formatDate } from "@/lib/utils";
+
+/* -------------------------------------------------------------------------- */
+/*  Referral Dashboard                                                         */
+/*  The designer's code and share link, what each side earns, and everyone  */
+/*  who joined with it. Rewards land once a friend finishes setting up or    */
+/*  makes a first payment — see lib/referrals and /api/referrals.            */
+/* -------------------------------------------------------------------------- */
+
+type ReferralStatus = "pending" | "rewarded" | "flagged" | "rejected";
+
+interface ReferralRow {
+  _id: string;
+  name: string;
+  status: ReferralStatus;
+  reward: number;
+  createdAt: string;
+  rewardedAt?: string;
+}
+
+interface ReferralData {
+  code: string;
+  link: string;
+  shareMessage: string;
+  rewards: { referrer: number; referee: number; maxReferrals: number };
+  stats: {
+    total: number;
+    pending: number;
+    rewarded: number;
+    inReview: number;
+    creditsEarned: number;
+    remaining: number;
+  };
+  referrals: ReferralRow[];
+}
+
+const STATUS_BADGE: Record<ReferralStatus, { label: string; variant: "success" | "warning" | "outline" | "destructive" }> = {
+  pending: { label: "Setting up", variant: "outline" },
+  rewarded: { label: "Rewarded", variant: "success" },
+  flagged: { label: "In review", variant: "warning" },
+  rejected: { label: "Not eligible", variant: "destructive" },
+};
+
+export function ReferralDashboard() {
+  const [data, setData] = useState<ReferralData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/referrals");
+      const json = await res.json();
+      if (json.success) setData(json.data);
+    } catch {
+      toast.error("Failed to load referrals");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function copy(value: string, label: string) {
+    await navigator.clipboard.writeText(value);
+    toast.success(`${label} copied`);
+  }
+
+  if (isLoading || !data) {
+    return (
+      <GlassCard padding="lg">
+        <p className="text-sm text-[#1A1A2E]/40">{isLoading ? "Loading referrals..." : "Unable to load referrals."}</p>
+      </GlassCard>
+    );
+  }
+
+  const { stats, rewards } = data;
+  const whatsAppUrl = `https://wa.me/?text=${encodeURIComponent(`${data.shareMessage} ${data.link}`)}`;
+
+  return (
+    <div className="space-y-4">
+      <GlassCard padding="lg">
+        <div className="space-y-5">
+          <div className="flex items-center gap-2">
+            <Gift className="h-5 w-5 text-[#C75B39]" strokeWidth={1.5} />
+            <div>
+              <h2 className="text-lg font-semibold text-[#1A1A2E]">Invite a designer</h2>
+              <p className="mt-0.5 text-sm text-[#1A1A2E]/45">
+                You get {rewards.referrer} free scan credits and they get {rewards.referee} once they finish setting up
+                their account.
+              </p>
+            </div>
+          </div>
+
+          <div className="rounded-xl border border-[#1A1A2E]/8 bg-white/50 p-4">
+            <p className="text-[11px] font-medium uppercase tracking-wide text-[#1A1A2E]/40">Your code</p>
+            <div className="mt-1 flex items-center justify-between gap-3">
+              <p className="font-mono text-2xl font-bold tracking-widest text-[#1A1A2E]">{data.code}</p>
+              <Button size="sm" variant="outline" onClick={() => copy(data.code, "Code")} className="gap-1.5">
+                <Copy className="h-3.5 w-3.5" />
+                Copy
+              </Button>
+            </div>
+            <p className="mt-3 truncate text-xs text-[#1A1A2E]/45">{data.link}</p>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" onClick={() => copy(data.link, "Link")} className="gap-1.5">
+              <Copy className="h-3.5 w-3.5" />
+              Copy link
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => window.open(whatsAppUrl, "_blank", "noopener,noreferrer")}
+              className="gap-1.5"
+            >
+              <MessageCircle className="h-3.5 w-3.5" />
+              Share on WhatsApp
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            {[
+              { label: "Joined", value: stats.total },
+              { label: "Rewarded", value: stats.rewarded },
+              { label: "Credits earned", value: stats.creditsEarned },
+            ].map(({ label, value }) => (
+              <div key={label} className="rounded-xl border border-[#1A1A2E]/8 bg-white/40 p-3 text-center">
+                <p className="text-lg font-bold text-[#1A1A2E]">{value}</p>
+                <p className="text-[10px] text-[#1A1A2E]/45">{label}</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-[#1A1A2E]/40">
+            {stats.remaining > 0
+              ? `You can earn rewards for ${stats.remaining} more referral${stats.remaining === 1 ? "" : "s"}.`
+              : `You've reached the ${rewards.maxReferrals}-referral limit — friends still get their welcome credits.`}
+          </p>
+        </div>
+      </GlassCard>
+
+      <GlassCard padding="lg">
+        <h3 className="text-sm font-semibold text-[#1A1A2E]">People you&apos;ve invited</h3>
+        {data.referrals.length === 0 ? (
+          <p className="mt-2 text-sm text-[#1A1A2E]/40">
+            No one yet. Share your link with designers you know.
+          </p>
+        ) : (
+          <div className="mt-3 space-y-2">
+            {data.referrals.map((r) => {
+              const badge = STATUS_BADGE[r.status];
+              return (
+                <div
+                  key={r._id}
+                  className="flex items-center gap-3 rounded-xl border border-[#1A1A2E]/8 bg-white/50 p-3"
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium text-[#1A1A2E]">{r.name}</p>
+                    <p className="text-xs text-[#1A1A2E]/45">
+                      Joined {formatDate(r.createdAt)}
+                      {r.status === "rewarded" && r.reward > 0 && ` · +${r.reward} credits`}
+                    </p>
+                  </div>
+                  <Badge variant={badge.variant}>{badge.label}</Badge>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </GlassCard>
+    </div>
+  );
+}
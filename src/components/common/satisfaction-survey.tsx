@@ -15,10 +15,20 @@ interface SatisfactionSurveyProps {
   contextId: string;
   /** Client name for personalization */
   clientName?: string;
-  /** Callback when survey is submitted */
-  onSubmit?: (data: { rating: number; feedback: string }) => void;
+  /** Callback when survey is submitted — throw (or reject) to keep the form open */
+  onSubmit?: (data: SatisfactionSurveyResult) => void | Promise<void>;
   /** Callback to dismiss */
   onDismiss?: () => void;
+  /** Ask whether the comment may be shown publicly (portal reviews) */
+  showTestimonialConsent?: boolean;
+  /** Line under the thank-you message */
+  thankYouNote?: string;
+}
+
+export interface SatisfactionSurveyResult {
+  rating: number;
+  feedback: string;
+  shareAsTestimonial: boolean;
 }
 
 export function SatisfactionSurvey({
@@ -27,16 +37,27 @@ export function SatisfactionSurvey({
   clientName,
   onSubmit,
   onDismiss,
+  showTestimonialConsent = false,
+  thankYouNote = "This helps us improve Stitcha for you",
 }: SatisfactionSurveyProps) {
   const [rating, setRating] = useState(0);
   const [hoveredRating, setHoveredRating] = useState(0);
   const [feedback, setFeedback] = useState("");
+  const [shareAsTestimonial, setShareAsTestimonial] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
 
-  const handleSubmit = () => {
+  const handleSubmit = async () => {
     if (rating === 0) return;
+    setSubmitting(true);
+    try {
+      await onSubmit?.({ rating, feedback, shareAsTestimonial });
+    } catch {
+      return;
+    } finally {
+      setSubmitting(false);
+    }
     haptics.success();
-    onSubmit?.({ rating, feedback });
     setSubmitted(true);
     // Auto-dismiss after 2 seconds
     setTimeout(() => onDismiss?.(), 2000);
@@ -59,7 +80,7 @@ export function SatisfactionSurvey({
         </motion.div>
         <p className="text-sm font-semibold text-emerald-700">Thank you for your feedback!</p>
         <p className="mt-1 text-xs text-emerald-600/70">
-          This helps us improve Stitcha for you
+          {thankYouNote}
         </p>
       </motion.div>
     );
@@ -159,9 +180,21 @@ export function SatisfactionSurvey({
                 "focus-visible:outline-none resize-none"
               )}
             />
+            {showTestimonialConsent && feedback.trim() && (
+              <label className="flex items-center gap-2 text-xs text-[#1A1A2E]/55">
+                <input
+                  type="checkbox"
+                  checked={shareAsTestimonial}
+                  onChange={(e) => setShareAsTestimonial(e.target.checked)}
+                  className="h-3.5 w-3.5 rounded accent-[#C75B39]"
+                />
+                Show my comment on the designer&apos;s public profile
+              </label>
+            )}
             <Button
               size="sm"
               onClick={handleSubmit}
+              loading={submitting}
               className="w-full gap-1.5"
             >
               <Send className="h-3 w-3" />
@@ -0,0 +1,206 @@
+"use client";
+
+/* -------------------------------------------------------------------------- */
+/*  Sync conflicts                                                              */
+/*                                                                              */
+/*  Changes made offline that the server couldn't take as-is — the same     */
+/*  field edited on another device, a record deleted elsewhere, or a change  */
+/*  this account isn't allowed to make. For each field the user picks which */
+/*  value wins; their pick is queued as a fresh change (lib/offline-store).  */
+/* -------------------------------------------------------------------------- */
+
+import { useCallback, useEffect, useState } from "react";
+import { AlertTriangle, Trash2, Ban } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogClose,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { syncConflicts, type SyncConflict } from "@/lib/offline-store";
+import { getStatusLabel } from "@/lib/order-transitions";
+import { cn } from "@/lib/utils";
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  phone: "Phone",
+  email: "Email",
+  gender: "Gender",
+  notes: "Notes",
+  title: "Title",
+  description: "Description",
+  status: "Status",
+  dueDate: "Due date",
+};
+
+function formatValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "dueDate") {
+    const date = new Date(String(value));
+    if (!Number.isNaN(date.getTime())) {
+      return date.toLocaleDateString("en-NG", { day: "numeric", month: "short", year: "numeric" });
+    }
+  }
+  if (field === "status") return getStatusLabel(String(value));
+  return String(value);
+}
+
+function ConflictCard({ conflict, onResolved }: { conflict: SyncConflict; onResolved: () => void }) {
+  // Default to the device's values — they're what the user last typed
+  const [keepMine, setKeepMine] = useState<string[]>(conflict.fields.map((f) => f.field));
+  const [saving, setSaving] = useState(false);
+  const noun = conflict.entity === "client" ? "client" : "order";
+
+  const resolve = async (fields: string[]) => {
+    setSaving(true);
+    try {
+      await syncConflicts.resolve(conflict.id, fields);
+      onResolved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const tried = Object.entries(conflict.changes ?? {}).filter(([field]) => field in FIELD_LABELS);
+
+  return (
+    <div className="rounded-xl border border-[#1A1A2E]/10 bg-white p-4">
+      <div className="flex items-start gap-2">
+        {conflict.kind === "rejected" ? (
+          <Ban className="mt-0.5 h-4 w-4 shrink-0 text-red-500" />
+        ) : conflict.kind === "deleted" ? (
+          <Trash2 className="mt-0.5 h-4 w-4 shrink-0 text-[#1A1A2E]/40" />
+        ) : (
+          <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-500" />
+        )}
+        <div className="min-w-0">
+          <p className="truncate text-sm font-semibold text-[#1A1A2E]">{conflict.label}</p>
+          <p className="text-xs text-[#1A1A2E]/50">
+            {conflict.kind === "rejected"
+              ? `This ${noun} change wasn't saved: ${conflict.error || "the server refused it"}.`
+              : conflict.kind === "deleted"
+              ? `This ${noun} was deleted on another device, so your changes couldn't be saved.`
+              : conflict.op === "delete"
+              ? `You deleted this ${noun}, but it was changed on another device first.`
+              : `Changed on another device while you were offline. Choose which version to keep.`}
+          </p>
+        </div>
+      </div>
+
+      {conflict.kind === "conflict" && conflict.op !== "delete" && conflict.fields.length > 0 && (
+        <div className="mt-3 space-y-3">
+          {conflict.fields.map((f) => {
+            const mine = keepMine.includes(f.field);
+            return (
+              <div key={f.field}>
+                <p className="mb-1 text-[11px] font-medium uppercase tracking-wide text-[#1A1A2E]/40">
+                  {FIELD_LABELS[f.field] || f.field}
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  {[
+                    { label: "Yours", value: f.mine, selected: mine, pick: () => setKeepMine((k) => [...k, f.field]) },
+                    { label: "Other device", value: f.theirs, selected: !mine, pick: () => setKeepMine((k) => k.filter((x) => x !== f.field)) },
+                  ].map((option) => (
+                    <button
+                      key={option.label}
+                      type="button"
+                      onClick={option.pick}
+                      className={cn(
+                        "rounded-lg border px-3 py-2 text-left transition-colors",
+                        option.selected
+                          ? "border-[#C75B39] bg-[#C75B39]/5"
+                          : "border-[#1A1A2E]/10 hover:bg-[#1A1A2E]/5"
+                      )}
+                    >
+                      <span className="block text-[10px] text-[#1A1A2E]/40">{option.label}</span>
+                      <span className="block break-words text-sm text-[#1A1A2E]">
+                        {formatValue(f.field, option.value)}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {conflict.kind !== "conflict" && tried.length > 0 && (
+        <div className="mt-3 rounded-lg bg-[#1A1A2E]/[0.03] px-3 py-2">
+          <p className="mb-1 text-[10px] text-[#1A1A2E]/40">What you tried to save</p>
+          {tried.map(([field, value]) => (
+            <p key={field} className="text-xs text-[#1A1A2E]/70">
+              {FIELD_LABELS[field]}: {formatValue(field, value)}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4 flex justify-end gap-2">
+        {conflict.kind === "conflict" && conflict.op === "delete" ? (
+          <>
+            <Button size="sm" variant="outline" disabled={saving} onClick={() => resolve([])}>
+              Keep it
+            </Button>
+            <Button size="sm" loading={saving} onClick={() => resolve(["delete"])}>
+              Delete anyway
+            </Button>
+          </>
+        ) : conflict.kind === "conflict" ? (
+          <Button size="sm" loading={saving} onClick={() => resolve(keepMine)}>
+            Save choice
+          </Button>
+        ) : (
+          <Button size="sm" variant="outline" loading={saving} onClick={() => resolve([])}>
+            Dismiss
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function SyncConflictsDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+
+  const load = useCallback(() => {
+    syncConflicts.getAll().then((all) => {
+      setConflicts(all);
+      if (all.length === 0) onOpenChange(false);
+    });
+  }, [onOpenChange]);
+
+  useEffect(() => {
+    if (!open) return;
+    syncConflicts.getAll().then(setConflicts);
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogClose />
+        <DialogHeader>
+          <DialogTitle>Changes that need you</DialogTitle>
+          <DialogDescription>
+            Some offline changes clashed with edits made elsewhere. Nothing has been thrown away — pick what to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="mt-4 space-y-3">
+          {conflicts.map((conflict) => (
+            <ConflictCard key={conflict.id} conflict={conflict} onResolved={load} />
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,27 +2,32 @@
 
 import { useEffect, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Cloud, CloudOff, Loader2, AlertTriangle, Check } from "lucide-react";
+import { CloudOff, Loader2, AlertTriangle, Check, GitMerge } from "lucide-react";
 import { cn } from "@/lib/utils";
 import {
   type SyncStatus,
   onSyncStatusChange,
   initAutoSync,
 } from "@/lib/offline-store";
+import { SyncConflictsDialog } from "@/components/common/sync-conflicts";
 
 export function SyncIndicator() {
   const [status, setStatus] = useState<SyncStatus>("synced");
   const [pendingCount, setPendingCount] = useState(0);
+  const [conflictCount, setConflictCount] = useState(0);
+  const [conflictsOpen, setConflictsOpen] = useState(false);
   const [visible, setVisible] = useState(false);
 
   useEffect(() => {
-    initAutoSync();
-
-    const unsub = onSyncStatusChange((newStatus, count) => {
+    // Subscribe first so the initial sync's status isn't missed
+    const unsub = onSyncStatusChange((newStatus, count, conflicts) => {
       setStatus(newStatus);
       setPendingCount(count);
+      setConflictCount(conflicts);
     });
 
+    initAutoSync();
+
     return unsub;
   }, []);
 
@@ -67,32 +72,49 @@ export function SyncIndicator() {
   const Icon = c.icon;
 
   return (
-    <AnimatePresence>
-      {visible && (
-        <motion.div
-          initial={{ opacity: 0, y: 20, scale: 0.9 }}
-          animate={{ opacity: 1, y: 0, scale: 1 }}
-          exit={{ opacity: 0, y: 20, scale: 0.9 }}
-          transition={{ duration: 0.2 }}
-          className="fixed bottom-20 left-4 z-50 lg:bottom-6"
-        >
-          <div
-            className={cn(
-              "flex items-center gap-1.5 rounded-full px-3 py-1.5 shadow-lg backdrop-blur-sm",
-              c.bg,
-              c.text
-            )}
+    <>
+      <AnimatePresence>
+        {(visible || conflictCount > 0) && (
+          <motion.div
+            initial={{ opacity: 0, y: 20, scale: 0.9 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: 20, scale: 0.9 }}
+            transition={{ duration: 0.2 }}
+            className="fixed bottom-20 left-4 z-50 flex items-center gap-2 lg:bottom-6"
           >
-            <Icon
-              className={cn(
-                "h-3.5 w-3.5",
-                status === "pending" && "animate-spin"
-              )}
-            />
-            <span className="text-xs font-medium">{c.label}</span>
-          </div>
-        </motion.div>
-      )}
-    </AnimatePresence>
+            {visible && (
+              <div
+                className={cn(
+                  "flex items-center gap-1.5 rounded-full px-3 py-1.5 shadow-lg backdrop-blur-sm",
+                  c.bg,
+                  c.text
+                )}
+              >
+                <Icon
+                  className={cn(
+                    "h-3.5 w-3.5",
+                    status === "pending" && "animate-spin"
+                  )}
+                />
+                <span className="text-xs font-medium">{c.label}</span>
+              </div>
+            )}
+            {conflictCount > 0 && (
+              <button
+                onClick={() => setConflictsOpen(true)}
+                className="flex items-center gap-1.5 rounded-full bg-[#C75B39]/90 px-3 py-1.5 text-white shadow-lg backdrop-blur-sm"
+              >
+                <GitMerge className="h-3.5 w-3.5" />
+                <span className="text-xs font-medium">
+                  {conflictCount} to review
+                </span>
+              </button>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <SyncConflictsDialog open={conflictsOpen} onOpenChange={setConflictsOpen} />
+    </>
   );
 }
@@ -0,0 +1,435 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { toast } from "sonner";
+import { Copy, LogOut, Repeat, Trash2, UserPlus, Users } from "lucide-react";
+import { GlassCard } from "@/components/common/glass-card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import type { DesignerRole } from "@/types";
+
+/* -------------------------------------------------------------------------- */
+/*  Team Manager                                                               */
+/*  Owners invite staff by link or email, change roles and remove members.   */
+/*  Staff see whose shop they're working in, switch back to their own, or    */
+/*  leave. Backed by /api/team — the server decides what each role sees.    */
+/* -------------------------------------------------------------------------- */
+
+type StaffRole = "manager" | "apprentice";
+
+interface TeamWorkspace {
+  designerId: string;
+  userId: string;
+  role: DesignerRole;
+  isTeam: boolean;
+  teamOwnerId?: string;
+  teamBusinessName: string | null;
+}
+
+interface TeamMember {
+  _id: string;
+  name: string;
+  email: string;
+  avatar?: string;
+  role: StaffRole;
+  away: boolean;
+}
+
+interface TeamInvite {
+  _id: string;
+  role: StaffRole;
+  email: string | null;
+  token: string;
+  expiresAt: string;
+}
+
+interface TeamData {
+  workspace: TeamWorkspace;
+  members?: TeamMember[];
+  invites?: TeamInvite[];
+  seats?: { limit: number; members: number; pendingInvites: number; used: number };
+}
+
+const ROLE_OPTIONS = [
+  { value: "manager", label: "Manager" },
+  { value: "apprentice", label: "Apprentice" },
+];
+
+function inviteUrl(token: string) {
+  return `${window.location.origin}/join/${token}`;
+}
+
+export function TeamManager() {
+  const router = useRouter();
+  const { update } = useSession();
+  const [team, setTeam] = useState<TeamData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [inviteRole, setInviteRole] = useState<StaffRole>("apprentice");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [isInviting, setIsInviting] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/team");
+      const json = await res.json();
+      if (json.success) setTeam(json.data);
+    } catch {
+      toast.error("Failed to load team");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  /** After anything that changes the caller's own role or workspace. */
+  async function refreshSession() {
+    await update();
+    await load();
+    router.refresh();
+  }
+
+  async function copyLink(token: string) {
+    await navigator.clipboard.writeText(inviteUrl(token));
+    toast.success("Invite link copied");
+  }
+
+  async function handleInvite() {
+    setIsInviting(true);
+    try {
+      const res = await fetch("/api/team/invites", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role: inviteRole, email: inviteEmail.trim() }),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to create invite");
+        return;
+      }
+      await navigator.clipboard.writeText(json.data.url).catch(() => {});
+      toast.success(inviteEmail ? "Invite sent — link copied too" : "Invite link copied");
+      setInviteEmail("");
+      await load();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsInviting(false);
+    }
+  }
+
+  async function handleRevoke(id: string) {
+    setBusyId(id);
+    try {
+      const res = await fetch(`/api/team/invites/${id}`, { method: "DELETE" });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to revoke invite");
+        return;
+      }
+      toast.success("Invite revoked");
+      await load();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleRoleChange(id: string, role: string) {
+    setBusyId(id);
+    try {
+      const res = await fetch(`/api/team/members/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to change role");
+        return;
+      }
+      toast.success("Role updated");
+      await load();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleRemove(member: TeamMember) {
+    if (!confirm(`Remove ${member.name} from your team? They keep their own account.`)) return;
+    setBusyId(member._id);
+    try {
+      const res = await fetch(`/api/team/members/${member._id}`, { method: "DELETE" });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to remove member");
+        return;
+      }
+      toast.success("Team member removed");
+      await load();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleSwitch(target: "team" | "own") {
+    setBusyId("switch");
+    try {
+      const res = await fetch("/api/team/workspace", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ workspace: target }),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to switch workspace");
+        return;
+      }
+      toast.success(target === "team" ? "Switched to your team's shop" : "Switched to your own shop");
+      await refreshSession();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleLeave() {
+    if (!team || !confirm("Leave this team? You'll need a new invite to rejoin.")) return;
+    setBusyId("leave");
+    try {
+      const res = await fetch(`/api/team/members/${team.workspace.userId}`, { method: "DELETE" });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to leave team");
+        return;
+      }
+      toast.success("You've left the team");
+      await refreshSession();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  if (isLoading || !team) {
+    return (
+      <GlassCard padding="lg">
+        <p className="text-sm text-[#1A1A2E]/40">{isLoading ? "Loading team..." : "Unable to load team."}</p>
+      </GlassCard>
+    );
+  }
+
+  const { workspace, members, invites, seats } = team;
+  const seatsFull = seats ? seats.used >= seats.limit : true;
+
+  return (
+    <div className="space-y-4">
+      {/* Staff: whose shop you're in */}
+      {workspace.teamOwnerId && (
+        <GlassCard padding="lg">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <h2 className="text-lg font-semibold text-[#1A1A2E]">
+                {workspace.isTeam ? `Working in ${workspace.teamBusinessName}` : "Working in your own shop"}
+              </h2>
+              <p className="mt-0.5 text-sm text-[#1A1A2E]/45">
+                {workspace.isTeam
+                  ? `You're a ${workspace.role} on ${workspace.teamBusinessName}'s team. Clients and orders you see belong to them.`
+                  : `You're on ${workspace.teamBusinessName}'s team. Switch over to work on their clients and orders.`}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleSwitch(workspace.isTeam ? "own" : "team")}
+                loading={busyId === "switch"}
+                className="gap-1.5"
+              >
+                <Repeat className="h-3.5 w-3.5" />
+                {workspace.isTeam ? "Switch to my shop" : "Switch to team"}
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={handleLeave}
+                loading={busyId === "leave"}
+                className="gap-1.5 text-red-600"
+              >
+                <LogOut className="h-3.5 w-3.5" />
+                Leave
+              </Button>
+            </div>
+          </div>
+        </GlassCard>
+      )}
+
+      {/* Owner: members, invites, seats */}
+      {seats && (
+        <GlassCard padding="lg">
+          <div className="space-y-5">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div className="flex items-center gap-2">
+                <Users className="h-5 w-5 text-[#C75B39]" strokeWidth={1.5} />
+                <div>
+                  <h2 className="text-lg font-semibold text-[#1A1A2E]">Team</h2>
+                  <p className="mt-0.5 text-sm text-[#1A1A2E]/45">
+                    Give your staff their own login to your clients and orders.
+                  </p>
+                </div>
+              </div>
+              <Badge variant={seatsFull ? "warning" : "outline"}>
+                {seats.used}/{seats.limit} seats
+              </Badge>
+            </div>
+
+            {seats.limit === 0 ? (
+              <div className="rounded-xl border border-[#D4A853]/30 bg-[#D4A853]/5 p-4">
+                <p className="text-sm text-[#1A1A2E]/70">
+                  Staff accounts come with the Pro plan.
+                </p>
+                <Button size="sm" className="mt-3" onClick={() => router.push("/billing")}>
+                  See plans
+                </Button>
+              </div>
+            ) : (
+              <>
+                {/* Members */}
+                <div className="space-y-2">
+                  {members && members.length > 0 ? (
+                    members.map((m) => (
+                      <div
+                        key={m._id}
+                        className="flex flex-wrap items-center gap-3 rounded-xl border border-[#1A1A2E]/8 bg-white/50 p-3"
+                      >
+                        <div className="min-w-0 flex-1">
+                          <p className="truncate text-sm font-medium text-[#1A1A2E]">
+                            {m.name}
+                            {m.away && (
+                              <span className="ml-2 text-xs font-normal text-[#1A1A2E]/40">
+                                in their own shop
+                              </span>
+                            )}
+                          </p>
+                          <p className="truncate text-xs text-[#1A1A2E]/45">{m.email}</p>
+                        </div>
+                        <div className="w-36">
+                          <Select
+                            value={m.role}
+                            options={ROLE_OPTIONS}
+                            disabled={busyId === m._id}
+                            onChange={(e) => handleRoleChange(m._id, e.target.value)}
+                          />
+                        </div>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => handleRemove(m)}
+                          disabled={busyId === m._id}
+                          aria-label={`Remove ${m.name}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    ))
+                  ) : (
+                    <p className="text-sm text-[#1A1A2E]/40">No staff yet.</p>
+                  )}
+                </div>
+
+                {/* Pending invites */}
+                {invites && invites.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-xs font-medium uppercase tracking-wide text-[#1A1A2E]/40">
+                      Pending invites
+                    </p>
+                    {invites.map((inv) => (
+                      <div
+                        key={inv._id}
+                        className="flex flex-wrap items-center gap-3 rounded-xl border border-dashed border-[#1A1A2E]/12 p-3"
+                      >
+                        <div className="min-w-0 flex-1">
+                          <p className="truncate text-sm text-[#1A1A2E]">
+                            {inv.email || "Anyone with the link"}
+                          </p>
+                          <p className="text-xs capitalize text-[#1A1A2E]/45">
+                            {inv.role} · expires {new Date(inv.expiresAt).toLocaleDateString()}
+                          </p>
+                        </div>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => copyLink(inv.token)}
+                          className="gap-1.5"
+                        >
+                          <Copy className="h-3.5 w-3.5" />
+                          Copy link
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleRevoke(inv._id)}
+                          loading={busyId === inv._id}
+                        >
+                          Revoke
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {/* New invite */}
+                <div className="space-y-3 rounded-xl bg-[#1A1A2E]/[0.03] p-4">
+                  <p className="text-sm font-medium text-[#1A1A2E]">Invite staff</p>
+                  <div className="grid gap-3 sm:grid-cols-[10rem_1fr_auto] sm:items-end">
+                    <Select
+                      label="Role"
+                      value={inviteRole}
+                      options={ROLE_OPTIONS}
+                      onChange={(e) => setInviteRole(e.target.value as StaffRole)}
+                    />
+                    <Input
+                      label="Email (optional)"
+                      type="email"
+                      placeholder="Leave blank to share a link"
+                      value={inviteEmail}
+                      onChange={(e) => setInviteEmail(e.target.value)}
+                    />
+                    <Button
+                      onClick={handleInvite}
+                      loading={isInviting}
+                      disabled={seatsFull}
+                      className="gap-1.5"
+                    >
+                      <UserPlus className="h-4 w-4" />
+                      Invite
+                    </Button>
+                  </div>
+                  <p className="text-xs text-[#1A1A2E]/45">
+                    {seatsFull
+                      ? "All seats are in use. Revoke an invite or remove someone to free one up."
+                      : "Managers can add and edit clients, orders and payments. Apprentices can only look things up. Links expire after 7 days."}
+                  </p>
+                </div>
+              </>
+            )}
+          </div>
+        </GlassCard>
+      )}
+    </div>
+  );
+}
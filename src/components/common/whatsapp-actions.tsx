@@ -3,6 +3,7 @@
 import { useState } from "react";
 import { MessageCircle, Send, CreditCard, Scissors, Shirt, Share2, X, Receipt, Globe } from "lucide-react";
 import { whatsapp, type MessageLanguage } from "@/lib/whatsapp";
+import type { OrderWorkflow } from "@/lib/order-transitions";
 import { cn } from "@/lib/utils";
 
 interface WhatsAppAction {
@@ -31,6 +32,8 @@ interface WhatsAppActionsProps {
   portalUrl?: string;
   /** Designer/business name for branded messages */
   businessName?: string;
+  /** Designer's order workflow — supplies wording for custom stages */
+  workflow?: OrderWorkflow;
   /** Compact mode - just the button */
   compact?: boolean;
 }
@@ -43,6 +46,7 @@ export function WhatsAppActions({
   measurementUrl,
   portalUrl,
   businessName,
+  workflow,
   compact,
 }: WhatsAppActionsProps) {
   const [open, setOpen] = useState(false);
@@ -62,7 +66,7 @@ export function WhatsAppActions({
     actions.push({
       label: "Status Update",
       icon: <Shirt className="h-3.5 w-3.5" />,
-      url: whatsapp.statusUpdate(phone, clientName, order.title, order.status, order.dueDate, businessName, lang),
+      url: whatsapp.statusUpdate(phone, clientName, order.title, order.status, order.dueDate, businessName, lang, workflow),
     });
     if (["sewing", "finishing"].includes(order.status)) {
       actions.push({
@@ -138,7 +138,7 @@ export function StitchaScore() {
             </div>
             <p className="mt-0.5 text-[10px] text-[#1A1A2E]/45">
               Your business health score based on payments, delivery, retention,
-              and activity
+              activity and client ratings
             </p>
 
             {/* Mini component bars */}
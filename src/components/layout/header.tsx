@@ -61,6 +61,7 @@ const TYPE_ICONS: Record<string, string> = {
   deadline_approaching: "⏰",
   event_prep: "🎉",
   milestone: "🏆",
+  low_stock: "🧵",
   system: "📢",
 };
 
@@ -18,6 +18,7 @@ import {
   Compass,
   TrendingUp,
   Megaphone,
+  Warehouse,
 } from "lucide-react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
@@ -30,6 +31,7 @@ const navItems = [
   { label: "Dashboard", href: "/dashboard", icon: LayoutDashboard },
   { label: "Clients", href: "/clients", icon: Users },
   { label: "Orders", href: "/orders", icon: Package },
+  { label: "Inventory", href: "/inventory", icon: Warehouse },
   { label: "Finances", href: "/finances", icon: Wallet },
   { label: "Style Vault", href: "/style-vault", icon: Sparkles },
   { label: "Discover", href: "/discover", icon: Compass },
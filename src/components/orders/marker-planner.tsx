@@ -0,0 +1,240 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertTriangle, Layers } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogClose,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Select } from "@/components/ui/select";
+import { FABRIC_WIDTHS } from "@/lib/fabric-calculator";
+import type { MarkerLayout, MarkerLayoutMode } from "@/lib/marker-layout";
+import { cn } from "@/lib/utils";
+
+/* -------------------------------------------------------------------------- */
+/*  Marker planner                                                             */
+/*  Lays the pattern pieces of one or more orders onto a fabric width         */
+/*  (POST /api/orders/marker) and draws the marker: how much to buy, and how */
+/*  to lay the pieces to get away with it.                                    */
+/* -------------------------------------------------------------------------- */
+
+const GROUP_COLOURS = ["#C75B39", "#D4A853", "#5B8A72", "#7B6CA8", "#3E7CB1", "#1A1A2E"];
+
+interface MarkerResult extends MarkerLayout {
+  estimateYards: number;
+  otherLayout: { layout: MarkerLayoutMode; yards: number; unplaced: number };
+  skipped: string[];
+}
+
+interface MarkerPlannerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderIds: string[];
+  /** Starting fabric width (cm), e.g. the line's own */
+  defaultWidthCm?: number;
+}
+
+function centroid(points: { x: number; y: number }[]) {
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length };
+}
+
+export function MarkerPlanner({ open, onOpenChange, orderIds, defaultWidthCm }: MarkerPlannerProps) {
+  const [widthCm, setWidthCm] = useState<number>(defaultWidthCm || FABRIC_WIDTHS[0].value);
+  const [nap, setNap] = useState(false);
+  const [layout, setLayout] = useState<MarkerLayoutMode>("folded");
+  const [state, setState] = useState<{ key: string; data: MarkerResult | null; error: string | null }>({
+    key: "",
+    data: null,
+    error: null,
+  });
+
+  const widthOptions: { value: string; label: string }[] = FABRIC_WIDTHS.map((w) => ({ value: String(w.value), label: w.label }));
+  if (!FABRIC_WIDTHS.some((w) => w.value === widthCm)) {
+    widthOptions.push({ value: String(widthCm), label: `${Math.round(widthCm / 2.54)}" (this fabric)` });
+  }
+
+  const requestKey = JSON.stringify({ orderIds, widthCm, nap, layout });
+  const loading = open && state.key !== requestKey;
+
+  useEffect(() => {
+    if (!open || orderIds.length === 0) return;
+    let cancelled = false;
+    async function fetchMarker() {
+      try {
+        const res = await fetch("/api/orders/marker", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ orderIds, fabricWidthCm: widthCm, nap, layout }),
+        });
+        const json = await res.json();
+        if (cancelled) return;
+        setState({
+          key: requestKey,
+          data: json.success ? json.data : null,
+          error: json.success ? null : json.error || "Couldn't lay out the marker",
+        });
+      } catch {
+        if (!cancelled) setState({ key: requestKey, data: null, error: "Couldn't lay out the marker" });
+      }
+    }
+    fetchMarker();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, orderIds, widthCm, nap, layout, requestKey]);
+
+  const marker = state.key === requestKey ? state.data : null;
+  const saving = marker ? Math.round((marker.estimateYards - marker.yards) * 8) / 8 : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogClose />
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5 text-[#C75B39]" />
+            Marker layout
+          </DialogTitle>
+          <DialogDescription>
+            {orderIds.length > 1
+              ? `${orderIds.length} orders cut from the same bolt. `
+              : ""}
+            Pieces keep their grain along the selvedge.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="mt-4 grid grid-cols-1 gap-3 sm:grid-cols-3">
+          <Select
+            label="Fabric width"
+            value={String(widthCm)}
+            onChange={(e) => setWidthCm(Number(e.target.value))}
+            options={widthOptions}
+          />
+          <div className="space-y-1.5">
+            <p className="text-sm font-medium text-foreground">Lay</p>
+            <div className="flex rounded-lg border border-[#1A1A2E]/10 bg-white/40 p-0.5">
+              {(["folded", "open"] as const).map((mode) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setLayout(mode)}
+                  className={cn(
+                    "flex-1 rounded-md px-2.5 py-1.5 text-xs font-semibold transition-colors",
+                    layout === mode ? "bg-[#C75B39] text-white" : "text-[#1A1A2E]/50 hover:text-[#1A1A2E]"
+                  )}
+                >
+                  {mode === "folded" ? "Folded" : "Single layer"}
+                </button>
+              ))}
+            </div>
+          </div>
+          <label className="flex items-end gap-2 pb-2 text-sm text-[#1A1A2E]/70">
+            <input
+              type="checkbox"
+              checked={nap}
+              onChange={(e) => setNap(e.target.checked)}
+              className="h-4 w-4 accent-[#C75B39]"
+            />
+            One-way nap / print
+          </label>
+        </div>
+
+        {state.error && !loading && (
+          <p className="mt-4 rounded-lg bg-red-50 px-3 py-2 text-xs text-red-600">{state.error}</p>
+        )}
+
+        {loading && (
+          <div className="mt-4 h-40 animate-pulse rounded-xl bg-[#1A1A2E]/5" />
+        )}
+
+        {marker && !loading && (
+          <div className="mt-4 space-y-3">
+            <div className="flex flex-wrap items-end gap-x-6 gap-y-2">
+              <div>
+                <p className="text-[11px] font-medium text-[#1A1A2E]/45">Buy</p>
+                <p className="text-2xl font-bold text-[#1A1A2E]">{marker.yards} yards</p>
+              </div>
+              <div className="text-xs text-[#1A1A2E]/55">
+                <p>{Math.round(marker.efficiency * 100)}% of the marker used</p>
+                {marker.estimateYards > 0 && (
+                  <p>
+                    Flat estimate {marker.estimateYards} yards
+                    {saving > 0 && (
+                      <span className="font-semibold text-emerald-600"> · saves {saving} yards</span>
+                    )}
+                  </p>
+                )}
+                {marker.otherLayout.unplaced === 0 && marker.otherLayout.yards < marker.yards && (
+                  <p className="text-[#C75B39]">
+                    {marker.otherLayout.layout === "open" ? "Single layer" : "Folded"} needs only {marker.otherLayout.yards} yards
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {marker.unplaced.length > 0 && (
+              <p className="flex items-start gap-1.5 rounded-lg bg-amber-50/70 px-3 py-2 text-xs text-amber-700">
+                <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                Too wide for this fabric{layout === "folded" ? " when folded" : ""}: {marker.unplaced.join(", ")}
+              </p>
+            )}
+            {marker.skipped.length > 0 && (
+              <p className="text-xs text-[#1A1A2E]/45">No pattern pieces for: {marker.skipped.join(", ")}</p>
+            )}
+
+            {/* Marker diagram: length runs left to right */}
+            <div className="overflow-x-auto rounded-xl border border-[#1A1A2E]/8 bg-white/60 p-2">
+              <svg
+                viewBox={`-1 -2 ${marker.lengthIn + 2} ${marker.usableWidthIn + 4}`}
+                style={{ width: `max(100%, ${Math.round(marker.lengthIn * 7)}px)` }}
+                className="block"
+              >
+                <rect x={0} y={0} width={marker.lengthIn} height={marker.usableWidthIn} fill="#FAF7F2" stroke="#1A1A2E" strokeOpacity={0.2} strokeWidth={0.1} />
+                <text x={0} y={-0.6} fontSize={1.1} fill="#1A1A2E" fillOpacity={0.5}>
+                  {layout === "folded" ? "FOLD" : "SELVEDGE"}
+                </text>
+                <text x={0} y={marker.usableWidthIn + 1.5} fontSize={1.1} fill="#1A1A2E" fillOpacity={0.5}>
+                  SELVEDGE · {marker.lengthIn}&quot; long
+                </text>
+                {marker.placements.map((p, i) => {
+                  const colour = GROUP_COLOURS[marker.groups.indexOf(p.group) % GROUP_COLOURS.length];
+                  const c = centroid(p.points);
+                  return (
+                    <g key={i}>
+                      <polygon
+                        points={p.points.map((pt) => `${pt.x},${pt.y}`).join(" ")}
+                        fill={colour}
+                        fillOpacity={0.18}
+                        stroke={colour}
+                        strokeWidth={0.12}
+                      />
+                      <text x={c.x} y={c.y} fontSize={0.9} textAnchor="middle" fill="#1A1A2E" fillOpacity={0.7}>
+                        {p.label}
+                      </text>
+                    </g>
+                  );
+                })}
+              </svg>
+            </div>
+
+            {marker.groups.length > 1 && (
+              <div className="flex flex-wrap gap-3">
+                {marker.groups.map((g, i) => (
+                  <span key={g} className="flex items-center gap-1.5 text-[11px] text-[#1A1A2E]/60">
+                    <span className="h-2.5 w-2.5 rounded-sm" style={{ background: GROUP_COLOURS[i % GROUP_COLOURS.length] }} />
+                    {g}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,223 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import { FileDown, Layers, Ruler, Scissors } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { MarkerPlanner } from "@/components/orders/marker-planner";
+import {
+  getNextStatuses,
+  getStatusLabel,
+  type OrderWorkflow,
+} from "@/lib/order-transitions";
+import type { OrderLine } from "@/lib/order-items";
+import { cn, formatCurrency } from "@/lib/utils";
+
+/* -------------------------------------------------------------------------- */
+/*  Order line items                                                          */
+/*  Garments on an order with their own stage, plus the per-line cutting     */
+/*  plan (fabric yardage) from /api/orders/[id]/cutting-plan, with links to */
+/*  the drafted pattern (SVG / tiled A4 PDF) where the garment has one and   */
+/*  the marker planner for laying the pieces out on the fabric.              */
+/* -------------------------------------------------------------------------- */
+
+interface CuttingPlanLine {
+  itemId?: string;
+  garmentType: string;
+  quantity: number;
+  fabric: { totalYards: number; totalYardsForQuantity: number } | null;
+  pattern: { panels: unknown[] } | null;
+  drafted: boolean;
+}
+
+interface OrderLineItemsProps {
+  orderId: string;
+  lines: OrderLine[];
+  workflow: OrderWorkflow;
+  /** Called after a line's status changes so the page can refetch */
+  onUpdated: () => void;
+}
+
+export function OrderLineItems({ orderId, lines, workflow, onUpdated }: OrderLineItemsProps) {
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [plan, setPlan] = useState<{ lines: CuttingPlanLine[]; totalYards: number } | null>(null);
+  const [loadingPlan, setLoadingPlan] = useState(false);
+  const [markerOpen, setMarkerOpen] = useState(false);
+  const markerOrderIds = useMemo(() => [orderId], [orderId]);
+
+  // Per-line stages only make sense on real line items (legacy orders have one
+  // synthesised line without an _id — its status is the order's status)
+  const hasStoredLines = lines.some((l) => l._id);
+
+  async function handleLineStatus(itemId: string, status: string) {
+    setUpdatingId(itemId);
+    try {
+      const res = await fetch(`/api/orders/${orderId}/items/${itemId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to update item");
+        return;
+      }
+      toast.success(`${json.data.garmentType} moved to ${getStatusLabel(status, workflow)}`);
+      onUpdated();
+    } catch {
+      toast.error("Failed to update item");
+    } finally {
+      setUpdatingId(null);
+    }
+  }
+
+  async function loadCuttingPlan() {
+    if (plan) {
+      setPlan(null);
+      return;
+    }
+    setLoadingPlan(true);
+    try {
+      const res = await fetch(`/api/orders/${orderId}/cutting-plan`);
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Couldn't build a cutting plan");
+        return;
+      }
+      setPlan(json.data);
+    } catch {
+      toast.error("Couldn't build a cutting plan");
+    } finally {
+      setLoadingPlan(false);
+    }
+  }
+
+  return (
+    <div className="space-y-2.5">
+      {lines.map((line, index) => {
+        const next = line._id ? getNextStatuses(line.status, workflow) : [];
+        const planLine = plan?.lines.find((p) =>
+          line._id ? p.itemId === line._id : p.garmentType === line.garmentType
+        );
+        return (
+          <div
+            key={line._id || index}
+            className="rounded-xl border border-[#1A1A2E]/6 bg-white/40 px-3 py-2.5"
+          >
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-[#1A1A2E]">
+                  {line.quantity > 1 && (
+                    <span className="text-[#1A1A2E]/50">{line.quantity}× </span>
+                  )}
+                  {line.garmentType}
+                </p>
+                {line.fabric && (
+                  <p className="text-xs text-[#1A1A2E]/50">{line.fabric}</p>
+                )}
+                {line.quantity > 1 && (
+                  <p className="text-[11px] text-[#1A1A2E]/40">
+                    {formatCurrency(line.unitPrice)} each
+                  </p>
+                )}
+              </div>
+              <div className="shrink-0 text-right">
+                <p className="text-sm font-semibold text-[#1A1A2E]">
+                  {formatCurrency(line.price)}
+                </p>
+                {hasStoredLines && lines.length > 1 && (
+                  <Badge variant="outline" className="mt-1 text-[10px]">
+                    {getStatusLabel(line.status, workflow)}
+                  </Badge>
+                )}
+              </div>
+            </div>
+
+            {hasStoredLines && lines.length > 1 && line._id && next.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-1.5">
+                {next.map((status) => (
+                  <button
+                    key={status}
+                    type="button"
+                    disabled={updatingId === line._id}
+                    onClick={() => handleLineStatus(line._id!, status)}
+                    className={cn(
+                      "rounded-full border px-2.5 py-0.5 text-[11px] font-medium transition-colors disabled:opacity-50",
+                      status === "cancelled"
+                        ? "border-red-200 text-red-500 hover:bg-red-50"
+                        : "border-[#C75B39]/25 text-[#C75B39] hover:bg-[#C75B39]/8"
+                    )}
+                  >
+                    → {getStatusLabel(status, workflow)}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {planLine && (
+              <p className="mt-2 flex items-center gap-1.5 text-[11px] text-[#1A1A2E]/55">
+                <Ruler className="h-3 w-3" />
+                {planLine.fabric
+                  ? `~${planLine.fabric.totalYardsForQuantity} yards${line.quantity > 1 ? ` (${planLine.fabric.totalYards} each)` : ""}`
+                  : "No fabric estimate for this garment type"}
+                {planLine.pattern && ` · ${planLine.pattern.panels.length} panels`}
+              </p>
+            )}
+            {planLine?.drafted && (
+              <p className="mt-1 flex items-center gap-1.5 text-[11px] text-[#1A1A2E]/55">
+                <FileDown className="h-3 w-3" />
+                Pattern:
+                {(["pdf", "svg"] as const).map((format) => (
+                  <a
+                    key={format}
+                    href={`/api/orders/${orderId}/pattern?${new URLSearchParams({
+                      ...(line._id ? { item: line._id } : {}),
+                      format,
+                    })}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-medium text-[#C75B39] hover:underline"
+                  >
+                    {format === "pdf" ? "A4 tiles (PDF)" : "SVG"}
+                  </a>
+                ))}
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center gap-4 pt-1">
+        <button
+          type="button"
+          onClick={loadCuttingPlan}
+          disabled={loadingPlan}
+          className="flex items-center gap-1.5 text-xs font-medium text-[#C75B39] transition-colors hover:text-[#C75B39]/80 disabled:opacity-50"
+        >
+          <Scissors className="h-3.5 w-3.5" />
+          {loadingPlan ? "Calculating..." : plan ? "Hide Fabric Needed" : "Fabric Needed"}
+        </button>
+        <button
+          type="button"
+          onClick={() => setMarkerOpen(true)}
+          className="flex items-center gap-1.5 text-xs font-medium text-[#C75B39] transition-colors hover:text-[#C75B39]/80"
+        >
+          <Layers className="h-3.5 w-3.5" />
+          Marker Layout
+        </button>
+        {plan && (
+          <span className="ml-auto text-xs font-semibold text-[#1A1A2E]/70">
+            Total: ~{plan.totalYards} yards
+          </span>
+        )}
+      </div>
+
+      <MarkerPlanner
+        open={markerOpen}
+        onOpenChange={setMarkerOpen}
+        orderIds={markerOrderIds}
+        defaultWidthCm={lines.find((l) => l.fabricWidthCm)?.fabricWidthCm}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Scissors, Warehouse } from "lucide-react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import type { OrderMaterialUse } from "@/lib/inventory";
+import { formatCurrency } from "@/lib/utils";
+
+/* -------------------------------------------------------------------------- */
+/*  Order materials                                                            */
+/*  Stock set aside for (reserve) and cut for (consume) an order via         */
+/*  /api/orders/[id]/materials. Yard materials default to the cutting        */
+/*  plan's estimate; the cost of what's cut feeds the order's profit.        */
+/* -------------------------------------------------------------------------- */
+
+interface StockOption {
+  _id: string;
+  name: string;
+  unit: "yards" | "pieces";
+  available: number;
+}
+
+interface OrderMaterialsProps {
+  orderId: string;
+}
+
+export function OrderMaterials({ orderId }: OrderMaterialsProps) {
+  const [uses, setUses] = useState<{ materials: OrderMaterialUse[]; suggestedYards: number; totalCost: number } | null>(null);
+  const [stock, setStock] = useState<StockOption[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [materialId, setMaterialId] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function fetchMaterials() {
+      try {
+        const [usesRes, stockRes] = await Promise.all([
+          fetch(`/api/orders/${orderId}/materials`),
+          fetch("/api/inventory"),
+        ]);
+        const [usesJson, stockJson] = await Promise.all([usesRes.json(), stockRes.json()]);
+        if (cancelled) return;
+        if (usesJson.success) setUses(usesJson.data);
+        if (stockJson.success) setStock(stockJson.data.materials);
+      } catch {
+        /* section stays empty */
+      }
+    }
+    fetchMaterials();
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId, reloadKey]);
+
+  async function act(action: "reserve" | "release" | "consume", id: string, qty?: number) {
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/orders/${orderId}/materials`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ materialId: id, action, quantity: qty }),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to update materials");
+        return;
+      }
+      toast.success(
+        action === "reserve" ? "Reserved for this order" : action === "consume" ? "Marked as cut" : "Released back to stock"
+      );
+      setQuantity("");
+      setReloadKey((k) => k + 1);
+    } catch {
+      toast.error("Failed to update materials");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!uses) return null;
+
+  const selected = stock.find((s) => s._id === materialId);
+  const suggested = selected?.unit === "yards" && uses.suggestedYards > 0 ? uses.suggestedYards : undefined;
+  const qty = quantity ? Number(quantity) : suggested;
+
+  if (stock.length === 0 && uses.materials.length === 0) {
+    return (
+      <Link
+        href="/inventory"
+        className="flex items-center gap-1.5 text-xs font-medium text-[#1A1A2E]/45 transition-colors hover:text-[#C75B39]"
+      >
+        <Warehouse className="h-3.5 w-3.5" />
+        Track fabric and notions in Inventory to cost this order
+      </Link>
+    );
+  }
+
+  return (
+    <div className="space-y-2 border-t border-[#1A1A2E]/5 pt-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-[#1A1A2E]/45">Materials</p>
+        {uses.totalCost > 0 && (
+          <span className="text-xs font-semibold text-[#1A1A2E]/70">
+            Cost: {formatCurrency(uses.totalCost)}
+          </span>
+        )}
+      </div>
+
+      {uses.materials.map((m) => (
+        <div key={m.materialId} className="flex items-center justify-between gap-2 rounded-lg bg-white/40 px-3 py-2">
+          <div className="min-w-0">
+            <p className="truncate text-sm font-medium text-[#1A1A2E]">{m.name}</p>
+            <p className="text-[11px] text-[#1A1A2E]/50">
+              {[
+                m.reserved > 0 && `${m.reserved} ${m.unit} reserved`,
+                m.consumed > 0 && `${m.consumed} ${m.unit} cut (${formatCurrency(m.cost)})`,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </p>
+          </div>
+          {m.reserved > 0 && (
+            <div className="flex shrink-0 gap-1">
+              <Button size="sm" variant="outline" disabled={busy} onClick={() => act("consume", m.materialId, m.reserved)}>
+                <Scissors className="h-3.5 w-3.5" />
+                Cut
+              </Button>
+              <Button size="sm" variant="ghost" disabled={busy} onClick={() => act("release", m.materialId)}>
+                Release
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {stock.length > 0 && (
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="min-w-[10rem] flex-1">
+            <Select
+              value={materialId}
+              onChange={(e) => setMaterialId(e.target.value)}
+              placeholder="Add from stock…"
+              options={stock.map((s) => ({
+                value: s._id,
+                label: `${s.name} (${s.available} ${s.unit} free)`,
+              }))}
+            />
+          </div>
+          {selected && (
+            <>
+              <div className="w-24">
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.25"
+                  placeholder={suggested ? String(suggested) : selected.unit}
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                />
+              </div>
+              <Button size="sm" disabled={busy || !qty} onClick={() => act("reserve", selected._id, qty)}>
+                Reserve
+              </Button>
+              <Button size="sm" variant="outline" disabled={busy || !qty} onClick={() => act("consume", selected._id, qty)}>
+                Cut now
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
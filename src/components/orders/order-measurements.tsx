@@ -0,0 +1,249 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { AlertTriangle, Lock, RefreshCw, Ruler } from "lucide-react";
+import { GlassCard } from "@/components/common/glass-card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogClose,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { MEASUREMENT_TYPES } from "@/lib/constants";
+import { FIT_OPTIONS } from "@/lib/ease-allowance";
+import type { OrderLine } from "@/lib/order-items";
+import { formatDate } from "@/lib/utils";
+import type { MeasurementLogEntry } from "@/types";
+
+/* -------------------------------------------------------------------------- */
+/*  Order measurements                                                         */
+/*  The numbers this order is cut from: each line's locked snapshot with its */
+/*  ease-adjusted cutting values, the lock/refresh log, and the explicit     */
+/*  "refresh from client" action (note required).                             */
+/*  Unlocked orders (no snapshot yet) show the client's current measurements */
+/*  until they reach production.                                              */
+/* -------------------------------------------------------------------------- */
+
+const LOG_LABELS: Record<MeasurementLogEntry["event"], string> = {
+  created: "Locked when the order was created",
+  cutting: "Locked when production started",
+  refreshed: "Refreshed from the client record",
+};
+
+interface OrderMeasurementsProps {
+  orderId: string;
+  lines: OrderLine[];
+  lockedAt?: string;
+  log?: MeasurementLogEntry[];
+  /** Client's current measurements — shown only while nothing is locked */
+  clientMeasurements?: Record<string, unknown>;
+  onRefreshed: () => void;
+}
+
+function fitLabel(fit?: string) {
+  return FIT_OPTIONS.find((f) => f.value === fit)?.label || "Standard";
+}
+
+export function OrderMeasurements({
+  orderId,
+  lines,
+  lockedAt,
+  log = [],
+  clientMeasurements,
+  onRefreshed,
+}: OrderMeasurementsProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [note, setNote] = useState("");
+  const [refreshing, setRefreshing] = useState(false);
+
+  const snapshotLines = lines.filter((l) => l.measurements);
+  const unlocked = snapshotLines.length === 0;
+  if (unlocked && !clientMeasurements) return null;
+
+  async function handleRefresh() {
+    setRefreshing(true);
+    try {
+      const res = await fetch(`/api/orders/${orderId}/measurements`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ note }),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Couldn't refresh measurements");
+        return;
+      }
+      toast.success("Measurements refreshed from the client record");
+      setDialogOpen(false);
+      setNote("");
+      onRefreshed();
+    } catch {
+      toast.error("Couldn't refresh measurements");
+    } finally {
+      setRefreshing(false);
+    }
+  }
+
+  // Lines sharing a snapshot render together; a refresh or mid-order line
+  // addition can leave lines on different measurement sets
+  const groups = unlocked
+    ? [{ measuredAt: undefined, lines: [] as OrderLine[], values: clientMeasurements as Record<string, unknown> }]
+    : snapshotLines.reduce<{ measuredAt?: string; lines: OrderLine[]; values: Record<string, unknown> }[]>(
+        (acc, line) => {
+          const at = line.measuredAt ? String(line.measuredAt) : undefined;
+          const group = acc.find((g) => g.measuredAt === at);
+          if (group) group.lines.push(line);
+          else acc.push({ measuredAt: at, lines: [line], values: line.measurements as Record<string, unknown> });
+          return acc;
+        },
+        []
+      );
+
+  return (
+    <GlassCard padding="lg">
+      <div className="mb-4 flex flex-wrap items-center gap-2">
+        <Ruler className="h-5 w-5 text-[#C75B39]" />
+        <h2 className="text-lg font-semibold text-[#1A1A2E]">Measurements</h2>
+        {lockedAt ? (
+          <Badge variant="outline" className="gap-1 text-[10px]">
+            <Lock className="h-3 w-3" />
+            Locked {formatDate(lockedAt)}
+          </Badge>
+        ) : (
+          <Badge variant="warning" className="text-[10px]">
+            Not locked yet
+          </Badge>
+        )}
+        <Button
+          size="sm"
+          variant="outline"
+          className="ml-auto gap-1.5"
+          onClick={() => setDialogOpen(true)}
+        >
+          <RefreshCw className="h-3.5 w-3.5" />
+          Refresh from client
+        </Button>
+      </div>
+
+      {unlocked && (
+        <p className="mb-3 flex items-start gap-1.5 rounded-lg bg-amber-50/60 px-3 py-2 text-xs text-amber-700">
+          <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+          Showing the client&apos;s current measurements. They&apos;re locked onto this order when it moves into production.
+        </p>
+      )}
+
+      <div className="space-y-4">
+        {groups.map((group) => (
+          <div key={group.measuredAt ?? "current"}>
+            {(groups.length > 1 || group.measuredAt) && (
+              <p className="mb-2 text-xs font-medium text-[#1A1A2E]/45">
+                {group.lines.length > 0 && groups.length > 1 && `${group.lines.map((l) => l.garmentType).join(", ")} · `}
+                {group.measuredAt ? `Taken ${formatDate(group.measuredAt)}` : "Current"}
+              </p>
+            )}
+            <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+              {MEASUREMENT_TYPES.map((type) => {
+                const value = group.values[type.key];
+                if (typeof value !== "number" || !value) return null;
+                const cuts = group.lines
+                  .filter((l) => l.cuttingMeasurements?.[type.key] !== undefined)
+                  .map((l) => ({ line: l, cut: l.cuttingMeasurements![type.key] }));
+                return (
+                  <div
+                    key={type.key}
+                    className="rounded-xl border border-white/30 bg-white/30 px-3 py-2.5"
+                  >
+                    <p className="text-[11px] font-medium text-[#1A1A2E]/45">
+                      {type.label}
+                    </p>
+                    <p className="mt-0.5 text-base font-semibold text-[#1A1A2E]">
+                      {value}{" "}
+                      <span className="text-[10px] font-normal text-[#1A1A2E]/35">
+                        {type.unit}
+                      </span>
+                    </p>
+                    {cuts.map(({ line, cut }, i) => (
+                      <p key={line._id || i} className="text-[10px] text-[#C75B39]">
+                        Cut {cut}{" "}
+                        <span className="text-[#1A1A2E]/40">
+                          {group.lines.length > 1 ? `${line.garmentType}, ` : ""}
+                          {fitLabel(line.fit).toLowerCase()}
+                        </span>
+                      </p>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {log.length > 0 && (
+        <div className="mt-4 space-y-1 border-t border-[#1A1A2E]/6 pt-3">
+          {log.map((entry, i) => (
+            <p key={i} className="text-[11px] text-[#1A1A2E]/50">
+              <span className="font-medium text-[#1A1A2E]/65">{formatDate(entry.at)}</span>
+              {" — "}
+              {LOG_LABELS[entry.event]}
+              {entry.measuredAt && ` (taken ${formatDate(entry.measuredAt)})`}
+              {entry.note && `: “${entry.note}”`}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogClose />
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <RefreshCw className="h-5 w-5 text-[#C75B39]" />
+              Refresh from client
+            </DialogTitle>
+            <DialogDescription>
+              Replaces the measurements locked on this order with the client&apos;s
+              current ones and recalculates the cutting values. Anyone cutting
+              from the old numbers should be told.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="mt-4 space-y-4">
+            <div>
+              <label className="mb-1.5 block text-xs font-medium text-[#1A1A2E]/55">
+                Why are the measurements changing?
+              </label>
+              <textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="e.g., Re-measured at first fitting, waist was off"
+                rows={3}
+                maxLength={500}
+                className="w-full rounded-lg border border-[#1A1A2E]/10 bg-white/70 px-3 py-2 text-sm outline-none focus:border-[#D4A853]/40 focus:ring-1 focus:ring-[#D4A853]/20 placeholder:text-[#1A1A2E]/30"
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleRefresh}
+                loading={refreshing}
+                disabled={note.trim().length < 3}
+                className="gap-2"
+              >
+                <RefreshCw className="h-4 w-4" />
+                Refresh
+              </Button>
+            </DialogFooter>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </GlassCard>
+  );
+}
@@ -35,6 +35,17 @@ const STATUS_STEPS: StatusStep[] = [
   { value: "delivered", label: "Delivered", icon: Truck },
 ];
 
+const STEP_ICONS: Record<string, StatusStep["icon"]> = Object.fromEntries(
+  STATUS_STEPS.map((s) => [s.value, s.icon])
+);
+
+/** Build progress steps from a designer's workflow (cancelled is shown separately) */
+function toSteps(stages: { key: string; label: string }[]): StatusStep[] {
+  return stages
+    .filter((s) => s.key !== "cancelled")
+    .map((s) => ({ value: s.key, label: s.label, icon: STEP_ICONS[s.key] || CircleDot }));
+}
+
 /* -------------------------------------------------------------------------- */
 /*  Helpers                                                                   */
 /* -------------------------------------------------------------------------- */
@@ -54,11 +65,14 @@ function getStepState(
 
 interface StatusProgressProps {
   status: OrderStatus;
+  /** Workflow stages in display order — defaults to the built-in pipeline */
+  stages?: { key: string; label: string }[];
   className?: string;
 }
 
-export function StatusProgress({ status, className }: StatusProgressProps) {
-  const activeIndex = STATUS_STEPS.findIndex((s) => s.value === status);
+export function StatusProgress({ status, stages, className }: StatusProgressProps) {
+  const steps = stages?.length ? toSteps(stages) : STATUS_STEPS;
+  const activeIndex = steps.findIndex((s) => s.value === status);
   const isCancelled = status === "cancelled";
 
   if (isCancelled) {
@@ -79,10 +93,10 @@ export function StatusProgress({ status, className }: StatusProgressProps) {
       {/* Desktop: horizontal progress */}
       <div className="hidden md:block">
         <div className="flex items-center">
-          {STATUS_STEPS.map((step, index) => {
+          {steps.map((step, index) => {
             const state = getStepState(index, activeIndex);
             const Icon = step.icon;
-            const isLast = index === STATUS_STEPS.length - 1;
+            const isLast = index === steps.length - 1;
 
             return (
               <div
@@ -145,10 +159,10 @@ export function StatusProgress({ status, className }: StatusProgressProps) {
       {/* Mobile: vertical progress */}
       <div className="md:hidden">
         <div className="flex flex-col">
-          {STATUS_STEPS.map((step, index) => {
+          {steps.map((step, index) => {
             const state = getStepState(index, activeIndex);
             const Icon = step.icon;
-            const isLast = index === STATUS_STEPS.length - 1;
+            const isLast = index === steps.length - 1;
 
             return (
               <div key={step.value} className="flex">
@@ -0,0 +1,327 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { ArrowDown, ArrowUp, Check, GitBranch, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { GlassCard } from "@/components/common/glass-card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { useOrderWorkflow } from "@/hooks/use-order-workflow";
+import {
+  CORE_STATUSES,
+  TERMINAL_STATUSES,
+  slugifyStageKey,
+  validateWorkflow,
+  type StageColor,
+  type WorkflowStage,
+} from "@/lib/order-transitions";
+import { cn } from "@/lib/utils";
+
+/* -------------------------------------------------------------------------- */
+/*  Workflow Editor                                                            */
+/*  Lets a designer add their own stages (e.g. "Embroidery", "Beading") and   */
+/*  choose which stage can move to which. Saved via /api/designer/workflow.   */
+/* -------------------------------------------------------------------------- */
+
+const COLOR_OPTIONS: { value: StageColor; label: string }[] = [
+  { value: "gold", label: "Gold" },
+  { value: "info", label: "Blue" },
+  { value: "terracotta", label: "Terracotta" },
+  { value: "success", label: "Green" },
+  { value: "destructive", label: "Red" },
+];
+
+const isCore = (key: string) => (CORE_STATUSES as readonly string[]).includes(key);
+const isTerminal = (key: string) => (TERMINAL_STATUSES as readonly string[]).includes(key);
+
+export function WorkflowEditor() {
+  const { workflow, isDefault, isLoading, mutate } = useOrderWorkflow();
+  const [stages, setStages] = useState<WorkflowStage[]>(workflow.stages);
+  const [newLabel, setNewLabel] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isResetting, setIsResetting] = useState(false);
+
+  useEffect(() => {
+    setStages(workflow.stages);
+  }, [workflow]);
+
+  const hasChanged = JSON.stringify(stages) !== JSON.stringify(workflow.stages);
+  const validation = validateWorkflow({ stages });
+  const errors = validation.ok ? [] : validation.errors;
+
+  function updateStage(key: string, patch: Partial<WorkflowStage>) {
+    setStages((prev) => prev.map((s) => (s.key === key ? { ...s, ...patch } : s)));
+  }
+
+  function toggleNext(from: string, to: string) {
+    setStages((prev) =>
+      prev.map((s) =>
+        s.key !== from
+          ? s
+          : { ...s, next: s.next.includes(to) ? s.next.filter((n) => n !== to) : [...s.next, to] }
+      )
+    );
+  }
+
+  function moveStage(index: number, dir: -1 | 1) {
+    setStages((prev) => {
+      const target = index + dir;
+      if (target < 0 || target >= prev.length) return prev;
+      const copy = [...prev];
+      [copy[index], copy[target]] = [copy[target], copy[index]];
+      return copy;
+    });
+  }
+
+  function removeStage(key: string) {
+    setStages((prev) =>
+      prev
+        .filter((s) => s.key !== key)
+        .map((s) => ({ ...s, next: s.next.filter((n) => n !== key) }))
+    );
+  }
+
+  function addStage() {
+    const label = newLabel.trim();
+    const key = slugifyStageKey(label);
+    if (!key) {
+      toast.error("Give the stage a name");
+      return;
+    }
+    if (stages.some((s) => s.key === key)) {
+      toast.error(`"${label}" already exists`);
+      return;
+    }
+    // Slot it in just before "ready" — that's where custom production steps usually go
+    const readyIndex = stages.findIndex((s) => s.key === "ready");
+    const stage: WorkflowStage = { key, label, next: ["ready"], color: "terracotta" };
+    setStages((prev) => {
+      const copy = [...prev];
+      copy.splice(readyIndex === -1 ? copy.length : readyIndex, 0, stage);
+      return copy;
+    });
+    setNewLabel("");
+  }
+
+  async function handleSave() {
+    if (errors.length > 0) {
+      toast.error(errors[0]);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const res = await fetch("/api/designer/workflow", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ stages }),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to save workflow");
+        return;
+      }
+      toast.success("Workflow saved");
+      await mutate();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleReset() {
+    setIsResetting(true);
+    try {
+      const res = await fetch("/api/designer/workflow", { method: "DELETE" });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to reset workflow");
+        return;
+      }
+      toast.success("Workflow reset to default");
+      await mutate();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsResetting(false);
+    }
+  }
+
+  return (
+    <GlassCard padding="lg">
+      <div className="space-y-5">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <GitBranch className="h-5 w-5 text-[#C75B39]" strokeWidth={1.5} />
+            <div>
+              <h2 className="text-lg font-semibold text-[#1A1A2E]">Order Workflow</h2>
+              <p className="mt-0.5 text-sm text-[#1A1A2E]/45">
+                The stages your orders go through, and which stage can move to which.
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            {!isDefault && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleReset}
+                loading={isResetting}
+                className="gap-1.5"
+              >
+                <RotateCcw className="h-3.5 w-3.5" />
+                Reset
+              </Button>
+            )}
+            {hasChanged && (
+              <Button
+                size="sm"
+                onClick={handleSave}
+                loading={isSaving}
+                disabled={errors.length > 0}
+                className="gap-1.5"
+              >
+                <Check className="h-3.5 w-3.5" />
+                Save
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-[#1A1A2E]/40">Loading workflow...</p>
+        ) : (
+          <div className="space-y-3">
+            {stages.map((stage, index) => (
+              <div
+                key={stage.key}
+                className="rounded-xl border border-[#1A1A2E]/8 bg-white/50 p-3"
+              >
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="min-w-[160px] flex-1">
+                    <Input
+                      label={isCore(stage.key) ? `${stage.key} (required)` : stage.key}
+                      value={stage.label}
+                      onChange={(e) => updateStage(stage.key, { label: e.target.value })}
+                    />
+                  </div>
+                  <div className="w-32">
+                    <Select
+                      label="Colour"
+                      value={stage.color || "terracotta"}
+                      onChange={(e) => updateStage(stage.key, { color: e.target.value as StageColor })}
+                      options={COLOR_OPTIONS}
+                    />
+                  </div>
+                  {stage.key !== "pending" && !isTerminal(stage.key) && (
+                    <label className="flex h-10 items-center gap-1.5 text-xs text-[#1A1A2E]/60">
+                      <input
+                        type="checkbox"
+                        checked={!!stage.optional}
+                        onChange={(e) => updateStage(stage.key, { optional: e.target.checked || undefined })}
+                        className="accent-[#C75B39]"
+                      />
+                      Can be skipped
+                    </label>
+                  )}
+                  <div className="flex h-10 items-center gap-1">
+                    <button
+                      type="button"
+                      onClick={() => moveStage(index, -1)}
+                      disabled={index === 0}
+                      className="rounded-lg p-1.5 text-[#1A1A2E]/40 hover:bg-[#1A1A2E]/5 disabled:opacity-30"
+                      aria-label="Move up"
+                    >
+                      <ArrowUp className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveStage(index, 1)}
+                      disabled={index === stages.length - 1}
+                      className="rounded-lg p-1.5 text-[#1A1A2E]/40 hover:bg-[#1A1A2E]/5 disabled:opacity-30"
+                      aria-label="Move down"
+                    >
+                      <ArrowDown className="h-3.5 w-3.5" />
+                    </button>
+                    {!isCore(stage.key) && (
+                      <button
+                        type="button"
+                        onClick={() => removeStage(stage.key)}
+                        className="rounded-lg p-1.5 text-red-500/70 hover:bg-red-500/10"
+                        aria-label="Remove stage"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {!isTerminal(stage.key) && (
+                  <div className="mt-3">
+                    <p className="mb-1.5 text-[11px] font-medium uppercase tracking-wide text-[#1A1A2E]/40">
+                      Can move to
+                    </p>
+                    <div className="flex flex-wrap gap-1.5">
+                      {stages
+                        .filter((s) => s.key !== stage.key && s.key !== "pending" && s.key !== "cancelled")
+                        .map((s) => (
+                          <button
+                            key={s.key}
+                            type="button"
+                            onClick={() => toggleNext(stage.key, s.key)}
+                            className={cn(
+                              "rounded-full border px-2.5 py-1 text-xs font-medium transition-colors",
+                              stage.next.includes(s.key)
+                                ? "border-[#C75B39] bg-[#C75B39]/10 text-[#C75B39]"
+                                : "border-[#1A1A2E]/10 text-[#1A1A2E]/45 hover:border-[#1A1A2E]/25"
+                            )}
+                          >
+                            {s.label || s.key}
+                          </button>
+                        ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <Input
+                  label="Add a stage"
+                  placeholder="e.g. Embroidery, Beading, Pressing"
+                  value={newLabel}
+                  onChange={(e) => setNewLabel(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      addStage();
+                    }
+                  }}
+                />
+              </div>
+              <Button variant="outline" onClick={addStage} className="gap-1.5">
+                <Plus className="h-3.5 w-3.5" />
+                Add
+              </Button>
+            </div>
+
+            {errors.length > 0 && (
+              <ul className="space-y-1 rounded-xl bg-red-500/5 p-3 text-xs text-red-600">
+                {errors.map((err) => (
+                  <li key={err}>{err}</li>
+                ))}
+              </ul>
+            )}
+
+            <p className="text-xs text-[#1A1A2E]/40">
+              Any order that isn&apos;t finished can always be cancelled. Orders already in a stage
+              you remove keep that status until you move them on.
+            </p>
+          </div>
+        )}
+      </div>
+    </GlassCard>
+  );
+}
@@ -8,6 +8,7 @@
 /*    • Refreshes on tab focus                                                  */
 /*    • Toggles "Notify me on WhatsApp when ready" per order                   */
 /*    • Renders payment summary block per order                                */
+/*    • Lets the client rate delivered orders (POST /api/portal/[code]/review) */
 /*    • Surfaces the existing PWA install prompt (mounted globally already)    */
 /* -------------------------------------------------------------------------- */
 
@@ -25,8 +26,13 @@ import {
   RefreshCw,
   CheckCircle2,
   ChevronRight,
+  Star,
 } from "lucide-react";
 import { ORDER_STATUSES, MEASUREMENT_TYPES } from "@/lib/constants";
+import {
+  SatisfactionSurvey,
+  type SatisfactionSurveyResult,
+} from "@/components/common/satisfaction-survey";
 
 export interface PortalMeasurements {
   [key: string]: number | string | undefined;
@@ -50,6 +56,13 @@ export interface PortalOrder {
   balance: number;
   paymentStatus: string;
   notifyWhenReady: boolean;
+  review: PortalReview | null;
+}
+
+export interface PortalReview {
+  rating: number;
+  comment: string;
+  shareAsTestimonial: boolean;
 }
 
 export interface PortalData {
@@ -200,6 +213,31 @@ export function PortalLive({
     }
   }
 
+  async function submitReview(orderId: string, result: SatisfactionSurveyResult) {
+    const res = await fetch(`/api/portal/${code}/review`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        orderId,
+        rating: result.rating,
+        comment: result.feedback.trim() || undefined,
+        shareAsTestimonial: result.shareAsTestimonial,
+      }),
+    }).catch(() => null);
+    const json = res ? await res.json().catch(() => null) : null;
+    if (!json?.success) {
+      toast.error(json?.error || "Couldn't send your rating. Try again.");
+      // Keeps the survey open
+      throw new Error("review failed");
+    }
+    setData((d) => ({
+      ...d,
+      orders: d.orders.map((o) =>
+        o._id === orderId ? { ...o, review: json.data } : o,
+      ),
+    }));
+  }
+
   /* Time-ago string for the "Live · updated Xs ago" chip */
   const ago = (() => {
     const sec = Math.max(0, Math.floor((Date.now() - lastUpdated) / 1000));
@@ -331,6 +369,7 @@ export function PortalLive({
                       toggleNotify(order._id, order.notifyWhenReady)
                     }
                     toggling={togglingId === order._id}
+                    onReview={(result) => submitReview(order._id, result)}
                   />
                 </li>
               ))}
@@ -457,15 +496,18 @@ function OrderRow({
   order,
   onToggleNotify,
   toggling,
+  onReview,
 }: {
   order: PortalOrder;
   onToggleNotify: () => void;
   toggling: boolean;
+  onReview: (result: SatisfactionSurveyResult) => Promise<void>;
 }) {
   const statusConfig = getStatusConfig(order.status);
   const progress = getStatusProgress(order.status);
   const isReadyish = order.status === "ready" || order.status === "delivered";
   const showPayments = order.price > 0;
+  const review = order.review;
 
   const paymentColor =
     order.paymentStatus === "paid"
@@ -588,6 +630,33 @@ function OrderRow({
           )}
         </button>
       )}
+
+      {/* Rating — delivered orders only */}
+      {order.status === "delivered" &&
+        (review ? (
+          <div className="mt-3 flex items-center justify-between gap-2 rounded-xl bg-[#D4A853]/[0.08] px-3 py-2 text-xs text-[#1A1A2E]/60">
+            <span>Thanks for rating this order</span>
+            <span className="flex items-center gap-0.5" aria-label={`${review.rating} out of 5`}>
+              {[1, 2, 3, 4, 5].map((v) => (
+                <Star
+                  key={v}
+                  className={`h-3.5 w-3.5 ${v <= review.rating ? "text-[#D4A853]" : "text-[#1A1A2E]/10"}`}
+                  fill={v <= review.rating ? "currentColor" : "none"}
+                />
+              ))}
+            </span>
+          </div>
+        ) : (
+          <div className="mt-3">
+            <SatisfactionSurvey
+              context="order"
+              contextId={order._id}
+              onSubmit={onReview}
+              showTestimonialConsent
+              thankYouNote="Your designer will see your rating"
+            />
+          </div>
+        ))}
     </div>
   );
 }
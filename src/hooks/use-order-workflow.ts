@@ -0,0 +1,43 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { DEFAULT_WORKFLOW, type OrderWorkflow } from "@/lib/order-transitions";
+
+interface UseOrderWorkflowReturn {
+  workflow: OrderWorkflow;
+  isDefault: boolean;
+  isLoading: boolean;
+  mutate: () => Promise<void>;
+}
+
+/**
+ * The signed-in designer's order workflow. Starts out as the default pipeline
+ * so status menus render immediately, then swaps in the saved workflow.
+ */
+export function useOrderWorkflow(): UseOrderWorkflowReturn {
+  const [workflow, setWorkflow] = useState<OrderWorkflow>(DEFAULT_WORKFLOW);
+  const [isDefault, setIsDefault] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchWorkflow = useCallback(async () => {
+    try {
+      const response = await fetch("/api/designer/workflow");
+      if (!response.ok) return;
+      const data = await response.json();
+      if (data.success && Array.isArray(data.data?.stages)) {
+        setWorkflow({ stages: data.data.stages });
+        setIsDefault(!!data.data.isDefault);
+      }
+    } catch {
+      // Keep the default pipeline
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWorkflow();
+  }, [fetchWorkflow]);
+
+  return { workflow, isDefault, isLoading, mutate: fetchWorkflow };
+}
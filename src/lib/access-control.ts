@@ -13,6 +13,7 @@
 /* -------------------------------------------------------------------------- */
 
 import { Designer } from "@/lib/models/designer";
+import { SUBSCRIPTION_BILLING } from "@/lib/constants";
 
 export type Plan = "free" | "plus" | "pro";
 
@@ -29,10 +30,14 @@ interface DesignerLite {
 /*  Plan resolution                                                             */
 /* -------------------------------------------------------------------------- */
 
+const GRACE_MS = SUBSCRIPTION_BILLING.graceDays * 86_400_000;
+
 /**
  * The real plan a designer is on RIGHT NOW. If their stored subscription
- * has expired, they fall back to "free". Pro/Plus only count if the expiry
- * is in the future.
+ * has expired, they fall back to "free". Pro/Plus count until the expiry
+ * plus SUBSCRIPTION_BILLING.graceDays, so a renewal that's a day late (a
+ * retried card charge, a bank transfer awaiting verification) doesn't cut
+ * them off.
  */
 export function getEffectivePlan(designer: DesignerLite | null | undefined): Plan {
   const stored = designer?.subscription || "free";
@@ -44,7 +49,19 @@ export function getEffectivePlan(designer: DesignerLite | null | undefined): Pla
   }
   const exp = new Date(designer.subscriptionExpiry);
   if (isNaN(exp.getTime())) return "free";
-  return exp > new Date() ? stored : "free";
+  return exp.getTime() + GRACE_MS > Date.now() ? stored : "free";
+}
+
+/**
+ * True while a paid plan is past its expiry but still inside the grace
+ * period — the window in which renewal reminders turn urgent.
+ */
+export function isInGracePeriod(designer: DesignerLite | null | undefined): boolean {
+  if (!designer?.subscriptionExpiry || (designer.subscription || "free") === "free") return false;
+  const exp = new Date(designer.subscriptionExpiry).getTime();
+  if (isNaN(exp)) return false;
+  const now = Date.now();
+  return exp <= now && now < exp + GRACE_MS;
 }
 
 export function isStudioActive(designer: DesignerLite | null | undefined): boolean {
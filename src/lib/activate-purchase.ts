@@ -6,22 +6,36 @@
 /*    1. /api/billing/webhook on a successful Paystack charge                  */
 /*    2. /api/admin/manual-payments/[id]/verify when admin approves a manual */
 /*       bank-transfer payment                                                 */
+/*    3. /api/billing/verify, in case the callback page beats the webhook     */
 /*                                                                              */
 /*  Both callers feed in the same shape, so any future activation logic       */
-/*  changes apply uniformly across both payment paths.                         */
+/*  changes apply uniformly across both payment paths. A designer's first    */
+/*  real payment also settles their pending referral (lib/referrals).         */
 /* -------------------------------------------------------------------------- */
 
 import { Designer } from "@/lib/models/designer";
 import { Order } from "@/lib/models/order";
 import { logActivity } from "@/lib/models/activity-log";
 import { Notification } from "@/lib/models/notification";
-import { BOOST_DURATION_DAYS, SMS_PACKS, STUDIO_ADDON } from "@/lib/constants";
+import {
+  BOOST_DURATION_DAYS,
+  CREDIT_PACKS,
+  SMS_PACKS,
+  STUDIO_ADDON,
+  SUBSCRIPTION_BILLING,
+  type BillingInterval,
+} from "@/lib/constants";
+import { rewardReferral } from "@/lib/referrals";
+
+/** How many scan-pack references to remember for replay protection. */
+const MAX_SCAN_CREDIT_REFERENCES = 50;
 
 export type PurchasePurpose =
   | "subscription"
   | "boost_post"
   | "sms_pack"
-  | "studio_addon";
+  | "studio_addon"
+  | "scan_credits";
 
 export interface ActivatePurchaseInput {
   designerId: string;
@@ -34,6 +48,8 @@ export interface ActivatePurchaseInput {
   /** Per-purpose payload. */
   payload: {
     planId?: "free" | "plus" | "pro";
+    /** Subscription period — defaults to monthly. */
+    interval?: BillingInterval;
     orderId?: string;
     packId?: string;
     durationDays?: number;
@@ -48,6 +64,20 @@ export interface ActivatePurchaseResult {
 
 export async function activatePurchase(
   input: ActivatePurchaseInput,
+): Promise<ActivatePurchaseResult> {
+  const result = await applyPurchase(input);
+
+  // Admin grants run through here with amountNGN 0 — only money counts
+  if (result.ok && input.amountNGN > 0) {
+    await rewardReferral(input.designerId, "payment").catch((err) =>
+      console.error("Referral reward error:", err),
+    );
+  }
+  return result;
+}
+
+async function applyPurchase(
+  input: ActivatePurchaseInput,
 ): Promise<ActivatePurchaseResult> {
   const { designerId, purpose, source, reference, amountNGN, payload } = input;
 
@@ -56,34 +86,71 @@ export async function activatePurchase(
     case "subscription": {
       const planId = payload.planId;
       if (!planId) return { ok: false, detail: "missing planId" };
+      const interval: BillingInterval = payload.interval === "annual" ? "annual" : "monthly";
 
-      const expiry = new Date();
-      expiry.setDate(expiry.getDate() + 30);
+      const current = await Designer.findById(designerId)
+        .select("subscription subscriptionExpiry subscriptionBilling")
+        .lean();
+      const prev = current as unknown as {
+        subscription?: string;
+        subscriptionExpiry?: Date;
+        subscriptionBilling?: { lastReference?: string };
+      } | null;
+      if (!prev) return { ok: false, detail: "designer not found" };
+      // Webhook retries and the callback page's verify both land here
+      if (prev.subscriptionBilling?.lastReference === reference) {
+        return { ok: true, detail: "already applied" };
+      }
 
-      await Designer.findByIdAndUpdate(designerId, {
-        subscription: planId,
-        subscriptionExpiry: expiry,
-        ...(payload.paystackCustomerCode
-          ? { paystackCustomerId: payload.paystackCustomerCode }
-          : {}),
+      // Renewing the same plan early keeps the days already paid for
+      const now = new Date();
+      const isRenewal = prev.subscription === planId && !!prev.subscriptionExpiry;
+      const prevExpiry = prev.subscriptionExpiry ? new Date(prev.subscriptionExpiry) : null;
+      const expiry = isRenewal && prevExpiry && prevExpiry > now ? new Date(prevExpiry) : new Date(now);
+      expiry.setDate(expiry.getDate() + SUBSCRIPTION_BILLING.periodDays[interval]);
+
+      const applied = await Designer.findOneAndUpdate(
+        { _id: designerId, "subscriptionBilling.lastReference": { $ne: reference } },
+        {
+          $set: {
+            subscription: planId,
+            subscriptionExpiry: expiry,
+            "subscriptionBilling.interval": interval,
+            "subscriptionBilling.status": "active",
+            "subscriptionBilling.failedAttempts": 0,
+            "subscriptionBilling.lastReference": reference,
+            ...(payload.paystackCustomerCode
+              ? { paystackCustomerId: payload.paystackCustomerCode }
+              : {}),
+          },
+          $unset: {
+            "subscriptionBilling.lastFailureAt": "",
+            "subscriptionBilling.lastFailureReason": "",
+          },
+        },
+      );
+      if (!applied) return { ok: true, detail: "already applied" };
+
+      const until = expiry.toLocaleDateString("en-NG", {
+        day: "numeric", month: "short", year: "numeric",
       });
       await logActivity({
         designerId,
-        action: "upgrade_subscription",
+        action: isRenewal ? "renew_subscription" : "upgrade_subscription",
         entity: "settings",
-        details: `Upgraded to ${planId} via ${source}`,
-        metadata: { planId, reference, amount: amountNGN, source },
+        details: `${isRenewal ? "Renewed" : "Upgraded to"} ${planId} (${interval}) via ${source}`,
+        metadata: { planId, interval, reference, amount: amountNGN, source },
       });
       await Notification.create({
         designerId,
         type: "system",
-        title: `🎉 ${planId.toUpperCase()} plan active`,
-        message: `Your subscription is now active until ${expiry.toLocaleDateString("en-NG", {
-          day: "numeric", month: "short", year: "numeric",
-        })}.`,
+        title: isRenewal
+          ? `✅ ${planId.toUpperCase()} plan renewed`
+          : `🎉 ${planId.toUpperCase()} plan active`,
+        message: `Your subscription is now active until ${until}.`,
         link: "/billing",
       }).catch(() => { /* non-fatal */ });
-      return { ok: true, detail: `Subscription set to ${planId}` };
+      return { ok: true, detail: `Subscription set to ${planId} until ${until}` };
     }
 
     /* ----------------------- Discover-feed Boost -------------------------- */
@@ -152,6 +219,48 @@ export async function activatePurchase(
       return { ok: true, detail: `+${pack.count} SMS credits` };
     }
 
+    /* -------------------------- Scan credits ------------------------------ */
+    case "scan_credits": {
+      const packId = payload.packId;
+      const pack = CREDIT_PACKS.find((p) => p.id === packId);
+      if (!pack) return { ok: false, detail: "unknown pack" };
+      // Webhook retries and the callback page's verify both land here —
+      // only the first one to record the reference adds the credits
+      const credited = await Designer.updateOne(
+        { _id: designerId, scanCreditReferences: { $ne: reference } },
+        {
+          $inc: {
+            scanCredits: pack.scans,
+            scanCreditsLifetimePurchased: pack.scans,
+          },
+          $push: {
+            scanCreditReferences: { $each: [reference], $slice: -MAX_SCAN_CREDIT_REFERENCES },
+          },
+        },
+      );
+      if (credited.matchedCount === 0) {
+        const exists = await Designer.exists({ _id: designerId });
+        return exists
+          ? { ok: true, detail: "already applied" }
+          : { ok: false, detail: "designer not found" };
+      }
+      await logActivity({
+        designerId,
+        action: "buy_scan_credits",
+        entity: "settings",
+        details: `Bought ${pack.scans} scan credits (${pack.label}) via ${source}`,
+        metadata: { packId, reference, amount: amountNGN, source },
+      });
+      await Notification.create({
+        designerId,
+        type: "system",
+        title: `📸 ${pack.scans} scan credits added`,
+        message: `You can keep sending AI scan links after your plan's scans run out — one credit per scan.`,
+        link: "/billing",
+      }).catch(() => { /* non-fatal */ });
+      return { ok: true, detail: `+${pack.scans} scan credits` };
+    }
+
     /* -------------------------- Studio addon ------------------------------ */
     case "studio_addon": {
       const days = STUDIO_ADDON.durationDays;
@@ -92,6 +92,7 @@ import CredentialsProvider from "next-auth/providers/credentials";
 import bcrypt from "bcryptjs";
 import connectDB from "./db";
 import { Designer } from "./models/designer";
+import { getWorkspace } from "./workspace";
 
 export const authOptions: NextAuthOptions = {
   providers: [
@@ -149,13 +150,18 @@ export const authOptions: NextAuthOptions = {
     error: "/login",
   },
   callbacks: {
-    async jwt({ token, user }) {
+    async jwt({ token, user, trigger }) {
       if (user) {
         token.id = user.id;
         token.role = (
           ((user as { role?: string }).role as string) || "owner"
         ) as "owner" | "manager" | "apprentice" | "admin";
       }
+      // Role within the current workspace — refreshed at sign-in and when
+      // the client calls update() after joining, leaving or switching teams
+      if (token.id && (user || trigger === "update")) {
+        token.role = (await getWorkspace(token.id)).role;
+      }
       return token;
     },
     async session({ session, token }) {
@@ -0,0 +1,355 @@
+/* -------------------------------------------------------------------------- */
+/*  client-emails                                                               */
+/*                                                                              */
+/*  Emails to a designer's clients — order progress, ready for pickup,       */
+/*  payment received and balance overdue — sent from the designer's name    */
+/*  in their Studio colour and logo.                                          */
+/*                                                                              */
+/*    queueClientEmail()   — check plan, opt-ins and template, render, write */
+/*                           an EmailOutbox row, queue an "email.send" job   */
+/*    deliverOutboxEmail() — the job: SMTP send, retried with backoff by    */
+/*                           lib/job-queue until the last attempt            */
+/*    queueOverdueEmails() — the daily "emails.overdue" sweep                 */
+/*                                                                              */
+/*  Email is a Plus feature. A client gets nothing unless they have an email */
+/*  address, Client.emailUpdates and Order.emailUpdates are both on, and the */
+/*  template is enabled. Every email carries a signed unsubscribe link.      */
+/* -------------------------------------------------------------------------- */
+
+import crypto from "crypto";
+import { Designer } from "@/lib/models/designer";
+import { Client } from "@/lib/models/client";
+import { Order } from "@/lib/models/order";
+import { Notification } from "@/lib/models/notification";
+import { EmailOutbox } from "@/lib/models/email-outbox";
+import { enqueueJob } from "@/lib/job-queue";
+import { brandedEmail, escapeHtml, sendMail, type EmailBrand } from "@/lib/email";
+import { checkSubscriptionLimit } from "@/lib/subscription";
+import { getEffectivePlan, isStudioActive } from "@/lib/access-control";
+import { resolveWorkflow } from "@/lib/designer-workflow";
+import { getStatusLabel, type OrderWorkflow } from "@/lib/order-transitions";
+import { ensureShareCode, portalPaymentSummary, portalUrl } from "@/lib/client-portal";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import { APP_URL } from "@/lib/constants";
+import {
+  fillPlaceholders,
+  resolveEmailTemplates,
+  type ClientEmailKind,
+  type EmailTemplate,
+  type EmailVars,
+} from "@/lib/email-templates";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Delivered orders get their first overdue email after this many quiet days */
+const OVERDUE_AFTER_DAYS = 3;
+/** Cap per designer per sweep */
+const MAX_OVERDUE_PER_DESIGNER = 20;
+
+const UNSUBSCRIBE_SECRET =
+  process.env.EMAIL_SIGNING_SECRET ||
+  process.env.NEXTAUTH_SECRET ||
+  "stitcha-email-secret-key";
+
+export type QueueEmailResult =
+  | { queued: true; outboxId: string }
+  | { queued: false; reason: string };
+
+/* ---- Unsubscribe links ---- */
+
+function unsubscribeSignature(clientId: string): string {
+  return crypto
+    .createHmac("sha256", UNSUBSCRIBE_SECRET)
+    .update(`unsubscribe:${clientId}`)
+    .digest("hex")
+    .slice(0, 32);
+}
+
+/** `<clientId>.<signature>` — the key to /unsubscribe/[token] */
+export function unsubscribeToken(clientId: string): string {
+  return `${clientId}.${unsubscribeSignature(clientId)}`;
+}
+
+/** The client id a token was issued for, or null if it's been tampered with */
+export function verifyUnsubscribeToken(token: string): string | null {
+  const [clientId, sig] = token.split(".");
+  if (!clientId || !sig || !/^[a-f0-9]{24}$/i.test(clientId)) return null;
+  const expected = Buffer.from(unsubscribeSignature(clientId));
+  const given = Buffer.from(sig);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given)
+    ? clientId
+    : null;
+}
+
+/* ---- Rendering ---- */
+
+interface BrandSource {
+  businessName: string;
+  studioAddon?: { expiresAt?: Date; brandColor?: string; logoUrl?: string };
+}
+
+/** The designer's Studio colour and logo while the addon is active */
+export function designerEmailBrand(designer: BrandSource): EmailBrand {
+  const studio = isStudioActive(designer);
+  return {
+    name: designer.businessName,
+    color: (studio && designer.studioAddon?.brandColor) || "#C75B39",
+    logoUrl: (studio && designer.studioAddon?.logoUrl) || undefined,
+  };
+}
+
+const PARAGRAPH_STYLE = "font-size:15px;line-height:1.6;color:#1A1A2E99;margin:0 0 14px;";
+
+/**
+ * Fill a template and wrap it in the designer's branding. Placeholder
+ * values are HTML-escaped; bare URLs become links and blank lines
+ * separate paragraphs.
+ */
+export function renderClientEmail(
+  template: Pick<EmailTemplate, "subject" | "body">,
+  vars: EmailVars,
+  brand: EmailBrand,
+  unsubscribeUrl?: string,
+): { subject: string; html: string } {
+  const subject = fillPlaceholders(template.subject, vars).replace(/\s+/g, " ").trim();
+  const paragraphs = template.body
+    .split(/\n\s*\n/)
+    .map((para) => para.trim())
+    .filter(Boolean)
+    .map((para) => {
+      const text = fillPlaceholders(escapeHtml(para), vars, escapeHtml)
+        .replace(/https?:\/\/[^\s<]+/g, (url) => `<a href="${url}" style="color:${brand.color};">${url}</a>`)
+        .replace(/\n/g, "<br />");
+      return `<p style="${PARAGRAPH_STYLE}">${text}</p>`;
+    })
+    .join("\n");
+
+  const footerHtml = unsubscribeUrl
+    ? `Don't want these emails? <a href="${escapeHtml(unsubscribeUrl)}" style="color:#1A1A2E88;">Unsubscribe</a>`
+    : undefined;
+  const button = vars.portal_link ? { href: vars.portal_link, label: "View your order" } : undefined;
+
+  return { subject, html: brandedEmail(paragraphs, { ...brand, footerHtml }, button) };
+}
+
+function buildEmailVars(
+  designer: { businessName: string },
+  client: { name: string },
+  order: { title: string; status: string; price?: number; currency?: string; depositPaid?: number; dueDate?: Date },
+  workflow: OrderWorkflow,
+  extra: { amount?: number; portalLink?: string },
+): EmailVars {
+  const payment = portalPaymentSummary(order);
+  return {
+    client_name: client.name,
+    first_name: client.name.split(" ")[0] || client.name,
+    order_title: order.title,
+    status: getStatusLabel(order.status, workflow),
+    amount: extra.amount != null ? formatCurrency(extra.amount, payment.currency) : "",
+    balance: formatCurrency(payment.balance, payment.currency),
+    due_date: order.dueDate ? formatDate(order.dueDate) : "",
+    business_name: designer.businessName,
+    portal_link: extra.portalLink || "",
+  };
+}
+
+/* ---- Queueing ---- */
+
+/**
+ * Queue one client email about an order. `ref` identifies the event (the
+ * new status, a payment id…) — the same kind + order + ref is only ever
+ * sent once. Resolves with why nothing was queued rather than throwing for
+ * the expected skips (free plan, no email, opted out).
+ */
+export async function queueClientEmail(
+  designerId: string,
+  kind: ClientEmailKind,
+  orderId: string,
+  opts: { ref: string; amount?: number },
+): Promise<QueueEmailResult> {
+  const designer = await Designer.findById(designerId)
+    .select("businessName email subscription subscriptionExpiry studioAddon emailTemplates workflow")
+    .lean();
+  if (!designer) return { queued: false, reason: "designer not found" };
+  if (!checkSubscriptionLimit(getEffectivePlan(designer), "email_notification").allowed) {
+    return { queued: false, reason: "plan" };
+  }
+
+  const template = resolveEmailTemplates(designer.emailTemplates).find((t) => t.kind === kind);
+  if (!template?.enabled) return { queued: false, reason: "template disabled" };
+
+  const order = await Order.findOne({ _id: orderId, designerId, isDeleted: { $ne: true } })
+    .select("clientId title status price currency depositPaid dueDate emailUpdates")
+    .lean();
+  if (!order) return { queued: false, reason: "order not found" };
+  if (order.emailUpdates === false) return { queued: false, reason: "order opted out" };
+
+  const client = await Client.findOne({ _id: order.clientId, designerId })
+    .select("name email emailUpdates emailUnsubscribedAt")
+    .lean();
+  if (!client?.email) return { queued: false, reason: "no client email" };
+  if (client.emailUpdates === false || client.emailUnsubscribedAt) {
+    return { queued: false, reason: "client opted out" };
+  }
+
+  const dedupeKey = `${kind}:${orderId}:${opts.ref}`;
+  if (await EmailOutbox.exists({ dedupeKey })) return { queued: false, reason: "already sent" };
+
+  const clientId = String(client._id);
+  const shareCode = await ensureShareCode(clientId);
+  const vars = buildEmailVars(
+    designer,
+    client,
+    order,
+    resolveWorkflow(designer.workflow as OrderWorkflow | undefined),
+    { amount: opts.amount, portalLink: portalUrl(shareCode) },
+  );
+  const { subject, html } = renderClientEmail(
+    template,
+    vars,
+    designerEmailBrand(designer),
+    `${APP_URL}/unsubscribe/${unsubscribeToken(clientId)}`,
+  );
+
+  let outboxId: string;
+  try {
+    const row = await EmailOutbox.create({
+      designerId,
+      clientId,
+      orderId,
+      kind,
+      dedupeKey,
+      to: client.email,
+      fromName: designer.businessName,
+      replyTo: designer.email,
+      subject,
+      html,
+    });
+    outboxId = String(row._id);
+  } catch (err) {
+    // Two writers raced to the same event — the other one queued it
+    if ((err as { code?: number }).code === 11000) return { queued: false, reason: "already sent" };
+    throw err;
+  }
+
+  await enqueueOutboxJob(outboxId, designerId);
+  return { queued: true, outboxId };
+}
+
+/** Queue delivery of an outbox row; `attempt` distinguishes manual retries */
+export function enqueueOutboxJob(outboxId: string, designerId: string, attempt = 0) {
+  return enqueueJob({
+    type: "email.send",
+    payload: { outboxId },
+    designerId,
+    idempotencyKey: attempt ? `email.send:${outboxId}#${attempt}` : `email.send:${outboxId}`,
+    maxAttempts: 5,
+  });
+}
+
+/* ---- Delivery ---- */
+
+/**
+ * Send a queued outbox row. Throws on an SMTP failure so the job queue
+ * backs off and retries; on the final attempt the row is marked failed and
+ * the designer told. Re-checks the client's opt-in first, so unsubscribing
+ * stops anything still waiting to go out.
+ */
+export async function deliverOutboxEmail(
+  outboxId: string,
+  isFinalAttempt: boolean,
+): Promise<Record<string, unknown>> {
+  const row = await EmailOutbox.findById(outboxId);
+  if (!row) return { skipped: "outbox row not found" };
+  if (row.status === "sent" || row.status === "cancelled") return { skipped: `email is ${row.status}` };
+
+  const client = await Client.findById(row.clientId).select("name emailUpdates emailUnsubscribedAt").lean();
+  if (!client || client.emailUpdates === false || client.emailUnsubscribedAt) {
+    row.status = "cancelled";
+    row.lastError = "Client turned off email updates";
+    await row.save();
+    return { cancelled: "client opted out" };
+  }
+
+  const unsubscribeApi = `${APP_URL}/api/unsubscribe/${unsubscribeToken(String(row.clientId))}`;
+  const result = await sendMail({
+    to: row.to,
+    subject: row.subject,
+    html: row.html,
+    fromName: row.fromName,
+    replyTo: row.replyTo,
+    headers: {
+      "List-Unsubscribe": `<${unsubscribeApi}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    },
+  });
+
+  row.attempts += 1;
+  if (result.ok) {
+    row.status = "sent";
+    row.sentAt = new Date();
+    row.messageId = result.messageId;
+    row.lastError = undefined;
+    await row.save();
+    return { sent: true, to: row.to };
+  }
+
+  row.lastError = (result.error || "Send failed").slice(0, 2000);
+  if (isFinalAttempt) {
+    row.status = "failed";
+    await Notification.create({
+      designerId: row.designerId,
+      type: "system",
+      title: `Email to ${client.name} couldn't be sent`,
+      message: `"${row.subject}" failed after ${row.attempts} attempts (${row.lastError}). You can retry it from Settings → Emails.`,
+      link: "/settings?tab=emails",
+    }).catch(() => { /* non-fatal */ });
+  }
+  await row.save();
+  throw new Error(row.lastError);
+}
+
+/* ---- Overdue sweep ---- */
+
+/**
+ * Weekly "balance overdue" emails for delivered orders that still owe
+ * money and haven't been touched for OVERDUE_AFTER_DAYS. The ISO-ish week
+ * number is the dedupe ref, so re-running the sweep the same week is a
+ * no-op.
+ */
+export async function queueOverdueEmails(now = new Date()): Promise<Record<string, unknown>> {
+  const designers = await Designer.find({ subscription: { $in: ["plus", "pro"] } })
+    .select("_id subscription subscriptionExpiry")
+    .lean();
+  const eligible = designers
+    .filter((d) => checkSubscriptionLimit(getEffectivePlan(d), "email_notification").allowed)
+    .map((d) => d._id);
+  if (eligible.length === 0) return { designers: 0, orders: 0, queued: 0 };
+
+  const orders = await Order.find({
+    designerId: { $in: eligible },
+    status: "delivered",
+    paymentStatus: { $in: ["unpaid", "partial"] },
+    isDeleted: { $ne: true },
+    emailUpdates: { $ne: false },
+    updatedAt: { $lte: new Date(now.getTime() - OVERDUE_AFTER_DAYS * DAY_MS) },
+  })
+    .select("designerId price depositPaid")
+    .sort({ updatedAt: 1 })
+    .lean();
+
+  const week = `w${Math.floor(now.getTime() / (7 * DAY_MS))}`;
+  const perDesigner = new Map<string, number>();
+  let queued = 0;
+  for (const order of orders) {
+    const designerId = String(order.designerId);
+    if ((order.price || 0) - (order.depositPaid || 0) <= 0) continue;
+    if ((perDesigner.get(designerId) ?? 0) >= MAX_OVERDUE_PER_DESIGNER) continue;
+
+    const result = await queueClientEmail(designerId, "order_overdue", String(order._id), { ref: week });
+    if (result.queued) {
+      queued++;
+      perDesigner.set(designerId, (perDesigner.get(designerId) ?? 0) + 1);
+    }
+  }
+  return { designers: eligible.length, orders: orders.length, queued };
+}
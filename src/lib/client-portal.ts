@@ -0,0 +1,77 @@
+import type { Types } from "mongoose";
+import { Client } from "@/lib/models/client";
+import { generateScanLink } from "@/lib/utils";
+import { APP_URL } from "@/lib/constants";
+
+/* -------------------------------------------------------------------------- */
+/*  Client portal                                                               */
+/*  What a client may see about their own orders — shared by the public     */
+/*  portal (/api/portal/[code]) and the client side of the WhatsApp bot     */
+/*  (lib/whatsapp-client-bot), so both quote the same status and balance.   */
+/* -------------------------------------------------------------------------- */
+
+/** Orders shown to the client: everything but cancelled / deleted */
+export function portalOrderFilter(clientId: Types.ObjectId | string) {
+  return {
+    clientId,
+    status: { $ne: "cancelled" },
+    isDeleted: { $ne: true },
+  };
+}
+
+export const PORTAL_ORDER_FIELDS =
+  "title garmentType status statusHistory dueDate createdAt updatedAt " +
+  "price currency depositPaid payments paymentStatus notifyWhenReady";
+
+export interface PortalPaymentSummary {
+  price: number;
+  currency: string;
+  totalPaid: number;
+  balance: number;
+  paymentStatus: string;
+}
+
+export function portalPaymentSummary(order: {
+  price?: number;
+  currency?: string;
+  depositPaid?: number;
+  paymentStatus?: string;
+}): PortalPaymentSummary {
+  const price = order.price || 0;
+  // depositPaid is the running total of every recorded payment
+  const totalPaid = order.depositPaid || 0;
+  return {
+    price,
+    currency: order.currency || "NGN",
+    totalPaid,
+    balance: Math.max(0, price - totalPaid),
+    paymentStatus: order.paymentStatus || "unpaid",
+  };
+}
+
+/**
+ * The client's share code, created on first use. The same code opens the
+ * portal (/portal/[code]) and the measurement card (/measurements/[code]).
+ */
+export async function ensureShareCode(clientId: Types.ObjectId | string): Promise<string> {
+  const client = await Client.findById(clientId).select("shareCode");
+  if (!client) throw new Error("Client not found");
+  if (client.shareCode) return client.shareCode;
+
+  let shareCode: string;
+  let attempts = 0;
+  do {
+    shareCode = `mc_${generateScanLink()}`;
+    const existing = await Client.findOne({ shareCode });
+    if (!existing) break;
+    attempts++;
+  } while (attempts < 5);
+
+  client.shareCode = shareCode;
+  await client.save();
+  return shareCode;
+}
+
+export function portalUrl(shareCode: string): string {
+  return `${APP_URL}/portal/${shareCode}`;
+}
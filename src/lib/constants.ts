@@ -177,6 +177,8 @@ export const SUBSCRIPTION_PLANS = [
     scanLimit: 2,
     /** Lifetime trial AI price suggestions for the Free plan. */
     aiPricingLimit: 5,
+    /** Staff accounts the owner can invite (see lib/workspace). */
+    teamSeats: 0,
     trialDays: 0,
     badge: null,
     description: "Everything a tailor needs to run their business — plus 2 free AI scans to try. Free forever.",
@@ -200,6 +202,8 @@ export const SUBSCRIPTION_PLANS = [
     scanLimit: 20,
     /** AI price suggestions per calendar month on Plus. */
     aiPricingLimit: 50,
+    /** Staff accounts the owner can invite (see lib/workspace). */
+    teamSeats: 0,
     trialDays: 14,
     badge: "Most Popular",
     description: "For growing designers who want AI scanning and deeper insights.",
@@ -221,12 +225,47 @@ export const SUBSCRIPTION_PLANS = [
     scanLimit: -1,
     /** Unlimited AI price suggestions on Pro. */
     aiPricingLimit: -1,
+    /** Staff accounts the owner can invite (see lib/workspace). */
+    teamSeats: 2,
     trialDays: 14,
     badge: "Best Value",
     description: "For established studios and high-volume designers.",
   },
 ] as const;
 
+/* -------------------------------------------------------------------------- */
+/*  Subscription billing — intervals, renewal reminders and grace period.     */
+/*                                                                              */
+/*  Auto-renewal rides on Paystack subscriptions: create one Paystack plan    */
+/*  per paid plan × interval and put its code in the matching env var.       */
+/*  Without a code that combination falls back to one-off payments.          */
+/* -------------------------------------------------------------------------- */
+
+export type BillingInterval = "monthly" | "annual";
+
+export const SUBSCRIPTION_BILLING = {
+  /** Days a paid plan stays usable after its expiry while a renewal is
+   *  retried or a bank transfer is on its way. */
+  graceDays: Number(process.env.NEXT_PUBLIC_SUBSCRIPTION_GRACE_DAYS) || 3,
+  /** Days before expiry on which the renewal reminder goes out. */
+  reminderDays: [7, 3, 1],
+  /** Annual price = 12 months less this discount. */
+  annualDiscountPercent: 20,
+  periodDays: { monthly: 30, annual: 365 } as Record<BillingInterval, number>,
+} as const;
+
+/** Paystack plan codes, by plan then interval (server-side only). */
+export const PAYSTACK_PLAN_CODES: Record<"plus" | "pro", Record<BillingInterval, string | undefined>> = {
+  plus: {
+    monthly: process.env.PAYSTACK_PLAN_PLUS_MONTHLY,
+    annual:  process.env.PAYSTACK_PLAN_PLUS_ANNUAL,
+  },
+  pro: {
+    monthly: process.env.PAYSTACK_PLAN_PRO_MONTHLY,
+    annual:  process.env.PAYSTACK_PLAN_PRO_ANNUAL,
+  },
+};
+
 /** Pay-per-scan — no subscription needed. ₦150 per AI scan. */
 export const SCAN_CREDIT_PRICE = 150;
 
@@ -301,6 +340,12 @@ export const REFERRAL_CONFIG = {
   shareMessage: "Hey! I use Stitcha to take AI body measurements for my clients. Sign up with my link and we both get 5 free scans!",
 } as const;
 
+/** Cookie that carries a `?ref=` code from the landing page through signup. */
+export const REFERRAL_COOKIE = "stitcha_ref";
+/** Long-lived random browser id — lets the referral fraud guard spot one
+ *  phone signing up "friends" over and over. */
+export const DEVICE_COOKIE = "stitcha_did";
+
 export const NIGERIAN_STATES = [
   "Abia", "Adamawa", "Akwa Ibom", "Anambra", "Bauchi", "Bayelsa", "Benue",
   "Borno", "Cross River", "Delta", "Ebonyi", "Edo", "Ekiti", "Enugu",
@@ -0,0 +1,32 @@
+/* -------------------------------------------------------------------------- */
+/*  designer-workflow                                                           */
+/*                                                                              */
+/*  Server-side loader for a designer's order workflow. Kept out of           */
+/*  lib/order-transitions.ts so that module stays free of Mongoose and can be */
+/*  imported by client components.                                             */
+/* -------------------------------------------------------------------------- */
+
+import { Designer } from "@/lib/models/designer";
+import {
+  DEFAULT_WORKFLOW,
+  validateWorkflow,
+  type OrderWorkflow,
+} from "@/lib/order-transitions";
+
+/**
+ * The workflow this designer's orders run on. Falls back to the default
+ * pipeline when nothing is stored — or when what's stored no longer
+ * validates, so a bad save can't lock every order in place.
+ */
+export async function loadWorkflow(designerId: string): Promise<OrderWorkflow> {
+  const designer = (await Designer.findById(designerId)
+    .select("workflow")
+    .lean()) as unknown as { workflow?: OrderWorkflow } | null;
+  return resolveWorkflow(designer?.workflow);
+}
+
+export function resolveWorkflow(stored: OrderWorkflow | null | undefined): OrderWorkflow {
+  if (!stored?.stages?.length) return DEFAULT_WORKFLOW;
+  const result = validateWorkflow(stored);
+  return result.ok ? result.workflow : DEFAULT_WORKFLOW;
+}
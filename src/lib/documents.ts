@@ -0,0 +1,527 @@
+/* -------------------------------------------------------------------------- */
+/*  Documents                                                                  */
+/*                                                                              */
+/*  Server-side invoices, quotations, receipts and measurement cards.        */
+/*    1. build*Data() snapshots what goes on the document                     */
+/*    2. issueDocument() numbers it (INV-0001, RCT-0001, …) and stores it     */
+/*    3. renderDocumentPdf() draws the snapshot with jsPDF                    */
+/*                                                                              */
+/*  Studio designers get their brand colour and logo and no Stitcha footer;  */
+/*  everyone else gets the Stitcha look.                                       */
+/* -------------------------------------------------------------------------- */
+
+import { createHash } from "crypto";
+import { nanoid } from "nanoid";
+import { jsPDF } from "jspdf";
+import sharp from "sharp";
+import autoTable from "jspdf-autotable";
+import {
+  BusinessDocument,
+  type BusinessDocumentType,
+  type IBusinessDocument,
+} from "@/lib/models/business-document";
+import { nextSequence } from "@/lib/models/counter";
+import { isStudioActive } from "@/lib/access-control";
+import { APP_URL, MEASUREMENT_TYPES } from "@/lib/constants";
+import { getOrderLines, type OrderLine } from "@/lib/order-items";
+import { getMediaDriver, isPrivateMediaKey, mediaKeyFromUrl } from "@/lib/media-storage";
+
+export const DOCUMENT_PREFIX: Record<BusinessDocumentType, string> = {
+  invoice: "INV",
+  quotation: "QUO",
+  receipt: "RCT",
+  measurement_card: "MC",
+};
+
+export const DOCUMENT_TITLES: Record<BusinessDocumentType, string> = {
+  invoice: "Invoice",
+  quotation: "Quotation",
+  receipt: "Receipt",
+  measurement_card: "Measurement Card",
+};
+
+const DEFAULT_COLOR = "#C75B39";
+const INK: [number, number, number] = [26, 26, 46];
+const MUTED: [number, number, number] = [110, 110, 120];
+
+export interface DocumentData {
+  type: BusinessDocumentType;
+  number: string;
+  issuedAt: string;
+  currency: string;
+  business: {
+    name: string;
+    phone?: string;
+    email?: string;
+    address?: string;
+    bank?: { bankName?: string; accountNumber?: string; accountName?: string };
+  };
+  /** Null unless the designer's Studio add-on is active */
+  branding: { color: string; logoUrl?: string } | null;
+  client: { name: string; phone?: string } | null;
+  order?: { title: string; dueDate?: string };
+  lines?: { description: string; quantity: number; unitPrice: number; amount: number }[];
+  totals?: { total: number; paid: number; balance: number };
+  payments?: { date: string; amount: number; method: string; note?: string }[];
+  /** Quotation body (from generateQuotation) */
+  message?: string;
+  measurements?: { label: string; value: string }[];
+  notes?: string;
+}
+
+/** Everything except the number and issue date — what the fingerprint covers */
+export type DocumentContent = Omit<DocumentData, "number" | "issuedAt">;
+
+/* ---- Inputs (lean docs from the routes) ---- */
+
+interface DesignerLike {
+  name?: string;
+  businessName?: string;
+  phone?: string;
+  email?: string;
+  businessAddress?: string;
+  city?: string;
+  state?: string;
+  bankAccount?: { bankName?: string; accountNumber?: string; accountName?: string };
+  studioAddon?: { expiresAt?: Date; brandColor?: string; logoUrl?: string };
+}
+
+interface ClientLike {
+  name: string;
+  phone?: string;
+  measurements?: Record<string, unknown>;
+  lastMeasuredAt?: Date | string;
+}
+
+interface OrderLike {
+  title: string;
+  items?: OrderLine[];
+  garmentType?: string;
+  fabric?: string;
+  description?: string;
+  price?: number;
+  status?: string;
+  currency?: string;
+  depositPaid?: number;
+  payments?: { amount: number; method: string; paidAt: Date | string; note?: string }[];
+  dueDate?: Date | string;
+  notes?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Building                                                                   */
+/* -------------------------------------------------------------------------- */
+
+export function documentUrl(code: string): string {
+  return `${APP_URL}/doc/${code}`;
+}
+
+function businessFor(designer: DesignerLike): DocumentData["business"] {
+  const bank = designer.bankAccount;
+  return {
+    name: designer.businessName || designer.name || "Your designer",
+    phone: designer.phone,
+    email: designer.email,
+    address: [designer.businessAddress, designer.city, designer.state].filter(Boolean).join(", ") || undefined,
+    bank: bank?.bankName && bank?.accountNumber ? { ...bank } : undefined,
+  };
+}
+
+function brandingFor(designer: DesignerLike): DocumentData["branding"] {
+  if (!isStudioActive(designer)) return null;
+  return {
+    color: designer.studioAddon?.brandColor || DEFAULT_COLOR,
+    logoUrl: designer.studioAddon?.logoUrl || undefined,
+  };
+}
+
+function isoDate(d?: Date | string): string | undefined {
+  return d ? new Date(d).toISOString() : undefined;
+}
+
+/**
+ * Invoice, receipt or quotation for an order. Quotations pass the
+ * generateQuotation() text as `message`.
+ */
+export function buildOrderDocument(
+  type: "invoice" | "receipt" | "quotation",
+  order: OrderLike,
+  client: ClientLike | null,
+  designer: DesignerLike,
+  message?: string
+): DocumentContent {
+  const lines = getOrderLines(order);
+  const total = order.price || 0;
+  const paid = order.depositPaid || 0;
+
+  return {
+    type,
+    currency: order.currency || "NGN",
+    business: businessFor(designer),
+    branding: brandingFor(designer),
+    client: client ? { name: client.name, phone: client.phone } : null,
+    order: { title: order.title, dueDate: isoDate(order.dueDate) },
+    lines: lines.map((l) => ({
+      description: l.fabric ? `${l.garmentType} (${l.fabric})` : l.garmentType,
+      quantity: l.quantity,
+      unitPrice: l.unitPrice,
+      amount: l.price,
+    })),
+    totals: { total, paid, balance: Math.max(0, total - paid) },
+    payments:
+      type === "receipt"
+        ? (order.payments || []).map((p) => ({
+            date: new Date(p.paidAt).toISOString(),
+            amount: p.amount,
+            method: p.method,
+            note: p.note,
+          }))
+        : undefined,
+    message: type === "quotation" ? message : undefined,
+    notes: type === "invoice" ? order.notes : undefined,
+  };
+}
+
+export function buildMeasurementCard(client: ClientLike, designer: DesignerLike): DocumentContent {
+  const m = client.measurements || {};
+  return {
+    type: "measurement_card",
+    currency: "NGN",
+    business: businessFor(designer),
+    branding: brandingFor(designer),
+    client: { name: client.name },
+    measurements: MEASUREMENT_TYPES.filter((t) => typeof m[t.key] === "number").map((t) => ({
+      label: t.label,
+      value: `${m[t.key]} ${t.unit}`,
+    })),
+    notes: client.lastMeasuredAt
+      ? `Measured ${new Date(client.lastMeasuredAt).toLocaleDateString("en-NG", { day: "numeric", month: "long", year: "numeric" })}`
+      : undefined,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Issuing                                                                    */
+/* -------------------------------------------------------------------------- */
+
+function fingerprint(content: DocumentContent): string {
+  return createHash("sha256").update(JSON.stringify(content)).digest("hex");
+}
+
+/**
+ * Store a document and give it the next number in the designer's sequence —
+ * or return the existing one if identical content was already issued.
+ */
+export async function issueDocument(params: {
+  designerId: string;
+  orderId?: string;
+  clientId?: string;
+  content: DocumentContent;
+}): Promise<{ document: IBusinessDocument; reused: boolean }> {
+  const { designerId, orderId, clientId, content } = params;
+  const hash = fingerprint(content);
+
+  const existing = await BusinessDocument.findOne({
+    designerId,
+    type: content.type,
+    fingerprint: hash,
+    ...(orderId ? { orderId } : {}),
+    ...(clientId ? { clientId } : {}),
+  });
+  if (existing) return { document: existing, reused: true };
+
+  const seq = await nextSequence(designerId, `document:${content.type}`);
+  const number = `${DOCUMENT_PREFIX[content.type]}-${String(seq).padStart(4, "0")}`;
+  const data: DocumentData = { ...content, number, issuedAt: new Date().toISOString() };
+
+  const document = await BusinessDocument.create({
+    designerId,
+    type: content.type,
+    number,
+    code: nanoid(12),
+    orderId,
+    clientId,
+    fingerprint: hash,
+    data,
+  });
+  return { document, reused: false };
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Rendering                                                                  */
+/* -------------------------------------------------------------------------- */
+
+function hexToRgb(hex: string): [number, number, number] {
+  const clean = hex.replace("#", "");
+  const full = clean.length === 3 ? clean.split("").map((c) => c + c).join("") : clean;
+  const n = parseInt(full, 16);
+  if (Number.isNaN(n) || full.length !== 6) return hexToRgb(DEFAULT_COLOR);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+/** The built-in PDF fonts have no ₦ glyph, so amounts are written "NGN 25,000" */
+function money(amount: number, currency: string): string {
+  return `${currency} ${Math.round(amount).toLocaleString("en-NG")}`;
+}
+
+function longDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-NG", { day: "numeric", month: "long", year: "numeric" });
+}
+
+/* ---- Studio logo ---- */
+
+/** Hosts a Studio logo URL may point at besides our own /media/ uploads */
+const LOGO_HOSTS = (process.env.LOGO_URL_HOSTS ||
+  "res.cloudinary.com,i.imgur.com,lh3.googleusercontent.com,firebasestorage.googleapis.com")
+  .split(",")
+  .map((h) => h.trim().toLowerCase())
+  .filter(Boolean);
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+const LOGO_SIZE_PX = 300;
+
+function isAllowedLogoUrl(url: URL): boolean {
+  if (url.protocol !== "https:" || url.port || url.username || url.password) return false;
+  const host = url.hostname.toLowerCase();
+  return LOGO_HOSTS.some((h) => host === h || host.endsWith(`.${h}`));
+}
+
+/** Read a remote logo without following redirects, giving up past the size cap */
+async function fetchLogoBytes(url: URL): Promise<Buffer | null> {
+  const res = await fetch(url, { redirect: "error", signal: AbortSignal.timeout(5000) });
+  if (!res.ok || !res.body) return null;
+  if (Number(res.headers.get("content-length")) > MAX_LOGO_BYTES) return null;
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = res.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_LOGO_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Load the Studio logo for embedding — our own public /media/ upload, or an
+ * https image on LOGO_HOSTS. Anything else (other hosts, internal addresses,
+ * private media) is never fetched. Re-encoded as PNG, which jsPDF can draw
+ * whatever the source format. Any failure just leaves the logo off.
+ */
+async function loadLogo(logoUrl: string): Promise<{ data: Uint8Array; format: "PNG" } | null> {
+  try {
+    let bytes: Buffer | null = null;
+    const key = mediaKeyFromUrl(logoUrl);
+    if (key) {
+      if (isPrivateMediaKey(key)) return null;
+      const object = await getMediaDriver().get(key);
+      bytes = object && object.body.length <= MAX_LOGO_BYTES ? object.body : null;
+    } else {
+      const url = new URL(logoUrl);
+      if (!isAllowedLogoUrl(url)) return null;
+      bytes = await fetchLogoBytes(url);
+    }
+    if (!bytes) return null;
+
+    const png = await sharp(bytes)
+      .resize(LOGO_SIZE_PX, LOGO_SIZE_PX, { fit: "inside", withoutEnlargement: true })
+      .png()
+      .toBuffer();
+    return { data: new Uint8Array(png), format: "PNG" };
+  } catch {
+    return null;
+  }
+}
+
+export async function renderDocumentPdf(data: DocumentData): Promise<ArrayBuffer> {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const accent = hexToRgb(data.branding?.color || DEFAULT_COLOR);
+  const logo = data.branding?.logoUrl ? await loadLogo(data.branding.logoUrl) : null;
+
+  // Header — logo (Studio) or business name, then the document title
+  let headerX = 20;
+  if (logo) {
+    doc.addImage(logo.data, logo.format, 20, 16, 18, 18);
+    headerX = 42;
+  }
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(14);
+  doc.setTextColor(...INK);
+  doc.text(data.business.name, headerX, 23);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  doc.setTextColor(...MUTED);
+  const contact = [data.business.phone, data.business.email].filter(Boolean).join("  ·  ");
+  if (contact) doc.text(contact, headerX, 29);
+  if (data.business.address) doc.text(data.business.address, headerX, 34);
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(22);
+  doc.setTextColor(...accent);
+  doc.text(DOCUMENT_TITLES[data.type].toUpperCase(), pageWidth - 20, 24, { align: "right" });
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  doc.setTextColor(...MUTED);
+  doc.text(`No. ${data.number}`, pageWidth - 20, 31, { align: "right" });
+  doc.text(longDate(data.issuedAt), pageWidth - 20, 36, { align: "right" });
+
+  doc.setDrawColor(...accent);
+  doc.setLineWidth(0.5);
+  doc.line(20, 42, pageWidth - 20, 42);
+
+  // Client + order
+  let y = 54;
+  if (data.client) {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(10);
+    doc.setTextColor(...INK);
+    doc.text(data.type === "receipt" ? "Received From" : data.type === "measurement_card" ? "Client" : "Bill To", 20, y);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9);
+    doc.text(data.client.name, 20, y + 6);
+    if (data.client.phone) doc.text(data.client.phone, 20, y + 11);
+  }
+  if (data.order) {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(10);
+    doc.text("Order", pageWidth / 2 + 10, y);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9);
+    doc.text(data.order.title, pageWidth / 2 + 10, y + 6);
+    if (data.order.dueDate) doc.text(`Due: ${longDate(data.order.dueDate)}`, pageWidth / 2 + 10, y + 11);
+  }
+  y += 22;
+
+  const tableStyles = {
+    theme: "striped" as const,
+    headStyles: { fillColor: accent, textColor: [255, 255, 255] as [number, number, number], fontSize: 9, fontStyle: "bold" as const },
+    bodyStyles: { fontSize: 9, textColor: INK },
+    alternateRowStyles: { fillColor: [250, 250, 248] as [number, number, number] },
+    margin: { left: 20, right: 20 },
+  };
+  const tableEnd = () =>
+    (doc as unknown as { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY ?? y;
+
+  // Quotation message
+  if (data.message) {
+    doc.setFontSize(9);
+    doc.setTextColor(...INK);
+    // WhatsApp bold markers (*text*) mean nothing on paper
+    const text = doc.splitTextToSize(data.message.replace(/\*/g, ""), pageWidth - 40);
+    doc.text(text, 20, y);
+    y += text.length * 4.5 + 8;
+  }
+
+  // Line items + totals
+  if (data.lines && data.totals && data.type !== "receipt") {
+    autoTable(doc, {
+      ...tableStyles,
+      startY: y,
+      head: [["Item", "Qty", "Unit Price", "Amount"]],
+      body: data.lines.map((l) => [
+        l.description,
+        String(l.quantity),
+        money(l.unitPrice, data.currency),
+        money(l.amount, data.currency),
+      ]),
+      columnStyles: { 1: { halign: "center" }, 2: { halign: "right" }, 3: { halign: "right" } },
+    });
+    y = tableEnd() + 8;
+
+    const rows: [string, number][] = data.type === "quotation"
+      ? [["Total", data.totals.total]]
+      : [
+          ["Total", data.totals.total],
+          ["Paid", data.totals.paid],
+          ["Balance Due", data.totals.balance],
+        ];
+    doc.setFontSize(10);
+    for (const [label, value] of rows) {
+      doc.setFont("helvetica", label === "Balance Due" || rows.length === 1 ? "bold" : "normal");
+      doc.setTextColor(...INK);
+      doc.text(label, pageWidth - 80, y);
+      doc.text(money(value, data.currency), pageWidth - 20, y, { align: "right" });
+      y += 6;
+    }
+    y += 4;
+  }
+
+  // Receipt payments
+  if (data.payments && data.totals) {
+    autoTable(doc, {
+      ...tableStyles,
+      startY: y,
+      head: [["Date", "Amount", "Method", "Note"]],
+      body: data.payments.map((p) => [
+        new Date(p.date).toLocaleDateString("en-NG"),
+        money(p.amount, data.currency),
+        p.method.replace(/_/g, " "),
+        p.note || "-",
+      ]),
+      columnStyles: { 1: { halign: "right" } },
+    });
+    y = tableEnd() + 10;
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(10);
+    doc.setTextColor(...INK);
+    doc.text(`Total Paid: ${money(data.totals.paid, data.currency)}`, 20, y);
+    doc.text(`Balance: ${money(data.totals.balance, data.currency)}`, 20, y + 6);
+    y += 16;
+  }
+
+  // Measurements
+  if (data.measurements) {
+    autoTable(doc, {
+      ...tableStyles,
+      startY: y,
+      head: [["Measurement", "Value"]],
+      body: data.measurements.length > 0
+        ? data.measurements.map((m) => [m.label, m.value])
+        : [["No measurements recorded yet", ""]],
+      columnStyles: { 1: { halign: "right" } },
+    });
+    y = tableEnd() + 10;
+  }
+
+  // Bank details on invoices — the client pays the designer directly
+  if (data.type === "invoice" && data.business.bank && (data.totals?.balance ?? 0) > 0) {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(10);
+    doc.setTextColor(...INK);
+    doc.text("Payment Details", 20, y);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9);
+    const bank = data.business.bank;
+    doc.text(`${bank.bankName} · ${bank.accountNumber}${bank.accountName ? ` · ${bank.accountName}` : ""}`, 20, y + 6);
+    y += 16;
+  }
+
+  if (data.notes) {
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9);
+    doc.setTextColor(...MUTED);
+    doc.text(doc.splitTextToSize(data.notes, pageWidth - 40), 20, y);
+  }
+
+  // Footer
+  doc.setDrawColor(...accent);
+  doc.setLineWidth(0.3);
+  doc.line(20, pageHeight - 20, pageWidth - 20, pageHeight - 20);
+  doc.setFontSize(8);
+  doc.setTextColor(150, 150, 150);
+  doc.text(
+    data.branding ? `${data.business.name} · ${data.number}` : `${data.number} · Generated by Stitcha`,
+    pageWidth / 2,
+    pageHeight - 12,
+    { align: "center" }
+  );
+
+  return doc.output("arraybuffer");
+}
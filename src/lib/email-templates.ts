@@ -0,0 +1,150 @@
+/* -------------------------------------------------------------------------- */
+/*  email-templates                                                             */
+/*                                                                              */
+/*  The emails a designer's clients can receive, their default wording and   */
+/*  the {{placeholders}} they may use. Plain text with blank-line paragraphs */
+/*  — lib/client-emails turns a template into branded HTML. Kept free of     */
+/*  Mongoose so the settings editor can import it.                            */
+/* -------------------------------------------------------------------------- */
+
+export type ClientEmailKind = "order_status" | "order_ready" | "payment_received" | "order_overdue";
+
+export interface EmailTemplate {
+  kind: ClientEmailKind;
+  enabled: boolean;
+  subject: string;
+  body: string;
+}
+
+export const CLIENT_EMAIL_KINDS: { kind: ClientEmailKind; label: string; description: string }[] = [
+  {
+    kind: "order_status",
+    label: "Order progress",
+    description: "Sent when an order moves to a new stage (not for ready — see below).",
+  },
+  {
+    kind: "order_ready",
+    label: "Ready for pickup",
+    description: "Sent when an order reaches the Ready stage.",
+  },
+  {
+    kind: "payment_received",
+    label: "Payment received",
+    description: "Sent when you record a payment or confirm a payment link.",
+  },
+  {
+    kind: "order_overdue",
+    label: "Balance overdue",
+    description: "Sent at most weekly while a delivered order still has a balance.",
+  },
+];
+
+export const EMAIL_PLACEHOLDERS = [
+  { key: "client_name", description: "Client's full name" },
+  { key: "first_name", description: "Client's first name" },
+  { key: "order_title", description: "Order title" },
+  { key: "status", description: "Current stage, e.g. Sewing" },
+  { key: "amount", description: "Payment just received" },
+  { key: "balance", description: "Balance still owed" },
+  { key: "due_date", description: "Order due date" },
+  { key: "business_name", description: "Your business name" },
+  { key: "portal_link", description: "Link to the client's order page" },
+] as const;
+
+export type EmailPlaceholder = (typeof EMAIL_PLACEHOLDERS)[number]["key"];
+export type EmailVars = Partial<Record<EmailPlaceholder, string>>;
+
+export const EMAIL_SUBJECT_MAX = 150;
+export const EMAIL_BODY_MAX = 2000;
+
+export const DEFAULT_EMAIL_TEMPLATES: Record<ClientEmailKind, EmailTemplate> = {
+  order_status: {
+    kind: "order_status",
+    enabled: true,
+    subject: "Update on your {{order_title}}",
+    body:
+      "Hi {{first_name}},\n\n" +
+      "Your {{order_title}} has moved to the {{status}} stage. We'll let you know as soon as it's ready.\n\n" +
+      "{{business_name}}",
+  },
+  order_ready: {
+    kind: "order_ready",
+    enabled: true,
+    subject: "Your {{order_title}} is ready for pickup",
+    body:
+      "Hi {{first_name}},\n\n" +
+      "Good news — your {{order_title}} is ready! Reply to this email to arrange pickup or delivery.\n\n" +
+      "Balance due on collection: {{balance}}\n\n" +
+      "{{business_name}}",
+  },
+  payment_received: {
+    kind: "payment_received",
+    enabled: true,
+    subject: "Payment received — {{amount}}",
+    body:
+      "Hi {{first_name}},\n\n" +
+      "Thank you! We've received your payment of {{amount}} for {{order_title}}.\n\n" +
+      "Balance remaining: {{balance}}\n\n" +
+      "{{business_name}}",
+  },
+  order_overdue: {
+    kind: "order_overdue",
+    enabled: true,
+    subject: "Reminder: {{balance}} outstanding on {{order_title}}",
+    body:
+      "Hi {{first_name}},\n\n" +
+      "A friendly reminder that {{balance}} is still outstanding on your {{order_title}}.\n\n" +
+      "If you've already paid, please ignore this message — and thank you.\n\n" +
+      "{{business_name}}",
+  },
+};
+
+/** Example values for previews */
+export const SAMPLE_EMAIL_VARS: Required<EmailVars> = {
+  client_name: "Amaka Obi",
+  first_name: "Amaka",
+  order_title: "Aso-ebi gown",
+  status: "Sewing",
+  amount: "₦20,000",
+  balance: "₦25,000",
+  due_date: "14 Nov 2026",
+  business_name: "Your Business",
+  portal_link: "https://stitcha.app/portal/mc_example",
+};
+
+/** One template per kind, saved wording where there is some */
+export function resolveEmailTemplates(saved?: Partial<EmailTemplate>[] | null): EmailTemplate[] {
+  return CLIENT_EMAIL_KINDS.map(({ kind }) => {
+    const stored = saved?.find((t) => t.kind === kind);
+    const fallback = DEFAULT_EMAIL_TEMPLATES[kind];
+    return {
+      kind,
+      enabled: stored?.enabled ?? fallback.enabled,
+      subject: stored?.subject || fallback.subject,
+      body: stored?.body || fallback.body,
+    };
+  });
+}
+
+const PLACEHOLDER = /\{\{\s*([a-z_]+)\s*\}\}/gi;
+
+/** Placeholders in `text` that aren't in EMAIL_PLACEHOLDERS */
+export function unknownPlaceholders(text: string): string[] {
+  const known = new Set<string>(EMAIL_PLACEHOLDERS.map((p) => p.key));
+  const found = [...text.matchAll(PLACEHOLDER)].map((m) => m[1].toLowerCase());
+  return [...new Set(found.filter((key) => !known.has(key)))];
+}
+
+/**
+ * Replace {{placeholders}} with `vars`, passing each value through
+ * `transform` (e.g. HTML escaping). Missing values become empty.
+ */
+export function fillPlaceholders(
+  text: string,
+  vars: EmailVars,
+  transform: (value: string) => string = (value) => value,
+): string {
+  return text.replace(PLACEHOLDER, (_, key: string) =>
+    transform(vars[key.toLowerCase() as EmailPlaceholder] ?? "")
+  );
+}
@@ -3,7 +3,9 @@ import { APP_URL } from "@/lib/constants";
 
 /* -------------------------------------------------------------------------- */
 /*  Email service                                                              */
-/*  Uses SMTP when configured, falls back to console logging in development   */
+/*  Uses SMTP when configured, falls back to console logging in development.  */
+/*  SMTP_USER / SMTP_PASS are optional so a local capture server works too:   */
+/*  `npm run smtp:capture`, then SMTP_HOST=localhost SMTP_PORT=1025.          */
 /* -------------------------------------------------------------------------- */
 
 const SMTP_HOST = process.env.SMTP_HOST;
@@ -13,7 +15,7 @@ const SMTP_PASS = process.env.SMTP_PASS;
 const FROM_EMAIL = process.env.FROM_EMAIL || "noreply@stitcha.app";
 const FROM_NAME = process.env.FROM_NAME || "Stitcha";
 
-const isConfigured = Boolean(SMTP_HOST && SMTP_USER && SMTP_PASS);
+const isConfigured = Boolean(SMTP_HOST);
 
 function getTransport() {
   if (!isConfigured) return null;
@@ -22,28 +24,56 @@ function getTransport() {
     host: SMTP_HOST,
     port: SMTP_PORT,
     secure: SMTP_PORT === 465,
-    auth: { user: SMTP_USER, pass: SMTP_PASS },
+    ...(SMTP_USER ? { auth: { user: SMTP_USER, pass: SMTP_PASS } } : {}),
   });
 }
 
-async function sendEmail(to: string, subject: string, html: string) {
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  /** Shown as the sender name; the address is always FROM_EMAIL */
+  fromName?: string;
+  replyTo?: string;
+  headers?: Record<string, string>;
+}
+
+export interface MailResult {
+  ok: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+/** Send one message. Never throws — the outcome is in the result. */
+export async function sendMail(message: MailMessage): Promise<MailResult> {
   const transport = getTransport();
 
   if (!transport) {
     console.log(`\n📧 EMAIL (dev mode - no SMTP configured)`);
-    console.log(`   To: ${to}`);
-    console.log(`   Subject: ${subject}`);
-    console.log(`   Body preview: ${html.replace(/<[^>]*>/g, "").slice(0, 200)}...\n`);
-    return true;
+    console.log(`   To: ${message.to}`);
+    console.log(`   Subject: ${message.subject}`);
+    console.log(`   Body preview: ${message.html.replace(/<[^>]*>/g, "").slice(0, 200)}...\n`);
+    return { ok: true, messageId: "console" };
   }
 
-  await transport.sendMail({
-    from: `"${FROM_NAME}" <${FROM_EMAIL}>`,
-    to,
-    subject,
-    html,
-  });
+  try {
+    const info = await transport.sendMail({
+      from: `"${(message.fromName || FROM_NAME).replace(/"/g, "")}" <${FROM_EMAIL}>`,
+      to: message.to,
+      replyTo: message.replyTo,
+      subject: message.subject,
+      html: message.html,
+      headers: message.headers,
+    });
+    return { ok: true, messageId: info.messageId };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
 
+async function sendEmail(to: string, subject: string, html: string) {
+  const result = await sendMail({ to, subject, html });
+  if (!result.ok) throw new Error(result.error || "Email send failed");
   return true;
 }
 
@@ -63,20 +93,58 @@ const btnStyle = `
   color: #fff; text-decoration: none; font-weight: 600; font-size: 15px;
 `;
 
-function wrap(content: string) {
+/** Flat button in a designer's brand colour */
+function buttonStyle(color: string) {
+  return btnStyle.replace(/background: [^;]+;/, `background: ${color};`);
+}
+
+/** Whose name, colour and logo head an email — Stitcha's unless a designer's */
+export interface EmailBrand {
+  name: string;
+  color: string;
+  logoUrl?: string;
+  /** Extra footer line, e.g. the unsubscribe link */
+  footerHtml?: string;
+}
+
+const STITCHA_BRAND: EmailBrand = { name: "Stitcha", color: "#C75B39" };
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function wrap(content: string, brand: EmailBrand = STITCHA_BRAND) {
+  const name = escapeHtml(brand.name);
+  const header = brand.logoUrl
+    ? `<img src="${escapeHtml(brand.logoUrl)}" alt="${name}" style="max-height:56px;max-width:200px;" />`
+    : `<h1 style="font-size:24px;font-weight:800;color:${brand.color};margin:0;">${name}</h1>`;
   return `
     <div style="${baseStyle}">
       <div style="text-align:center;margin-bottom:32px;">
-        <h1 style="font-size:24px;font-weight:800;color:#C75B39;margin:0;">Stitcha</h1>
+        ${header}
       </div>
       ${content}
       <div style="margin-top:40px;padding-top:20px;border-top:1px solid #1A1A2E10;text-align:center;">
-        <p style="font-size:12px;color:#1A1A2E55;">&copy; ${new Date().getFullYear()} Stitcha. All rights reserved.</p>
+        <p style="font-size:12px;color:#1A1A2E55;">&copy; ${new Date().getFullYear()} ${name}. All rights reserved.</p>
+        ${brand.footerHtml ? `<p style="font-size:12px;color:#1A1A2E55;">${brand.footerHtml}</p>` : ""}
       </div>
     </div>
   `;
 }
 
+/** A designer-branded email: their header and colour around `content` */
+export function brandedEmail(content: string, brand: EmailBrand, button?: { href: string; label: string }) {
+  const cta = button
+    ? `<div style="text-align:center;margin:28px 0;"><a href="${escapeHtml(button.href)}" style="${buttonStyle(brand.color)}">${escapeHtml(button.label)}</a></div>`
+    : "";
+  return wrap(`${content}${cta}`, brand);
+}
+
 /* ---- Verification email ---- */
 export async function sendVerificationEmail(to: string, name: string, token: string) {
   const link = `${APP_URL}/verify-email?token=${token}`;
@@ -115,38 +183,27 @@ export async function sendPasswordResetEmail(to: string, name: string, token: st
   return sendEmail(to, "Reset your Stitcha password", html);
 }
 
-/* ---- Order status notification ---- */
-export async function sendOrderStatusEmail(
+/* ---- Team invitation ---- */
+export async function sendTeamInviteEmail(
   to: string,
-  clientName: string,
-  orderTitle: string,
-  status: string,
-  designerName: string
+  businessName: string,
+  role: string,
+  token: string
 ) {
-  const statusLabels: Record<string, string> = {
-    confirmed: "has been confirmed",
-    cutting: "is now being cut",
-    sewing: "is now being sewn",
-    fitting: "is ready for fitting",
-    finishing: "is in the finishing stage",
-    ready: "is ready for pickup!",
-    delivered: "has been delivered",
-  };
-
-  const statusText = statusLabels[status] || `status has been updated to: ${status}`;
+  const link = `${APP_URL}/join/${token}`;
   const html = wrap(`
-    <h2 style="font-size:20px;margin:0 0 12px;">Order Update</h2>
+    <h2 style="font-size:20px;margin:0 0 12px;">You're invited to join ${businessName}</h2>
     <p style="font-size:15px;line-height:1.6;color:#1A1A2E99;">
-      Hi ${clientName.split(" ")[0]}, your order <strong>"${orderTitle}"</strong> ${statusText}.
+      ${businessName} has invited you to their Stitcha workspace as a <strong>${role}</strong>.
+      Accept to see their clients and orders from your own account.
     </p>
-    <div style="margin:24px 0;padding:16px;background:#fff;border-radius:12px;border:1px solid #1A1A2E10;">
-      <p style="font-size:13px;color:#1A1A2E66;margin:0 0 4px;">Designer</p>
-      <p style="font-size:15px;font-weight:600;margin:0;">${designerName}</p>
+    <div style="text-align:center;margin:28px 0;">
+      <a href="${link}" style="${btnStyle}">Accept Invitation</a>
     </div>
     <p style="font-size:13px;color:#1A1A2E66;">
-      Contact your designer if you have any questions about your order.
+      This invitation expires in 7 days. If you weren't expecting it, you can ignore this email.
     </p>
   `);
 
-  return sendEmail(to, `Order Update: "${orderTitle}" ${statusText}`, html);
+  return sendEmail(to, `Join ${businessName} on Stitcha`, html);
 }
@@ -278,3 +278,21 @@ export function estimateFabric(
   if (!estimator) return null;
   return estimator(measurements, fabricWidthCm);
 }
+
+/**
+ * Same as estimateFabric, for stored measurements — those are inches, the
+ * estimators work in cm. Missing measurements fall back to each estimator's
+ * standard-size defaults.
+ */
+export function estimateFabricFromInches(
+  garmentType: string,
+  measurementsIn: Record<string, unknown>,
+  fabricWidthCm: number
+): FabricEstimate | null {
+  const cm: Measurements = {};
+  for (const [key, value] of Object.entries(measurementsIn || {})) {
+    if (typeof value !== "number") continue;
+    cm[key as keyof Measurements] = key === "weight" ? value : value * 2.54;
+  }
+  return estimateFabric(garmentType, cm, fabricWidthCm);
+}
@@ -0,0 +1,105 @@
+/* -------------------------------------------------------------------------- */
+/*  Fuzzy matching                                                              */
+/*                                                                              */
+/*  Forgiving name lookup for typed-on-a-phone input — "amaka obi",         */
+/*  "Amarka", "chioma n" all find "Amaka Obi" / "Chioma Nwosu". Each query  */
+/*  word is scored against the closest word of the candidate (typo-tolerant */
+/*  edit distance, with prefixes counting as near-matches), and the average */
+/*  is the candidate's score. Extra words on the candidate cost nothing, so */
+/*  "amaka" scores every Amaka equally and the caller asks which one.        */
+/* -------------------------------------------------------------------------- */
+
+export interface FuzzyMatch<T> {
+  item: T;
+  score: number;
+}
+
+/** Minimum score for a candidate to count as a match */
+export const FUZZY_THRESHOLD = 0.72;
+/** Candidates this close to the best are treated as a tie */
+const TIE_MARGIN = 0.05;
+
+export function normalizeForMatch(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Levenshtein distance, counting an adjacent swap as one edit */
+function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => [i, ...new Array(cols - 1).fill(0)]);
+  for (let j = 0; j < cols; j++) d[0][j] = j;
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[rows - 1][cols - 1];
+}
+
+function wordSimilarity(query: string, word: string): number {
+  if (query === word) return 1;
+  // "chi" → "chioma", "n" → "nwosu"
+  if (word.startsWith(query)) return query.length >= 3 || query.length === 1 ? 0.9 : 0.8;
+  const longest = Math.max(query.length, word.length);
+  return 1 - editDistance(query, word) / longest;
+}
+
+/** 0–1: how well `query` describes `candidate` */
+export function matchScore(query: string, candidate: string): number {
+  const q = normalizeForMatch(query);
+  const c = normalizeForMatch(candidate);
+  if (!q || !c) return 0;
+  if (q === c) return 1;
+
+  const candidateWords = c.split(" ");
+  const queryWords = q.split(" ");
+  const total = queryWords.reduce(
+    (sum, word) => sum + Math.max(...candidateWords.map((cw) => wordSimilarity(word, cw))),
+    0
+  );
+  return total / queryWords.length;
+}
+
+/** Candidates scoring at least FUZZY_THRESHOLD, best first */
+export function fuzzyRank<T>(
+  query: string,
+  items: T[],
+  labels: (item: T) => string[]
+): FuzzyMatch<T>[] {
+  return items
+    .map((item) => ({
+      item,
+      score: Math.max(0, ...labels(item).map((label) => matchScore(query, label))),
+    }))
+    .filter((m) => m.score >= FUZZY_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * The best match if it's unambiguous, otherwise every candidate tied with
+ * it. An exact (normalised) label match always wins outright.
+ */
+export function bestMatches<T>(
+  query: string,
+  items: T[],
+  labels: (item: T) => string[]
+): FuzzyMatch<T>[] {
+  const q = normalizeForMatch(query);
+  const exact = items.filter((item) => labels(item).some((label) => normalizeForMatch(label) === q));
+  if (exact.length === 1) return [{ item: exact[0], score: 1 }];
+
+  const ranked = fuzzyRank(query, items, labels);
+  if (ranked.length === 0) return [];
+  return ranked.filter((m) => m.score >= ranked[0].score - TIE_MARGIN);
+}
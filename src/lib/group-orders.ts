@@ -0,0 +1,309 @@
+/* -------------------------------------------------------------------------- */
+/*  group-orders                                                                */
+/*                                                                              */
+/*  Progress roll-up for an aso-ebi group: per guest, have they been measured */
+/*  (scan link or manual entry since joining), have they paid (order payments */
+/*  plus PaymentLinks the guest has marked as paid), and how much of the      */
+/*  shared fabric their garment needs. Totals feed the designer's group page  */
+/*  and the public coordinator view.                                           */
+/* -------------------------------------------------------------------------- */
+
+import { Client } from "@/lib/models/client";
+import { Designer } from "@/lib/models/designer";
+import { Order } from "@/lib/models/order";
+import { ScanSession } from "@/lib/models/scan-session";
+import { PaymentLink } from "@/lib/models/payment-link";
+import { GroupOrder, type IGroupOrder } from "@/lib/models/group-order";
+import { estimateFabricFromInches } from "@/lib/fabric-calculator";
+import { getStatusLabel } from "@/lib/order-transitions";
+import { resolveWorkflow } from "@/lib/designer-workflow";
+import { APP_URL } from "@/lib/constants";
+
+/**
+ * received  — measured (scan or manual) after joining the group
+ * link_sent — a scan link is out and hasn't expired
+ * on_file   — older measurements exist; usable, but may need refreshing
+ * missing   — nothing to cut from yet
+ */
+export type MemberMeasurementStatus = "received" | "link_sent" | "on_file" | "missing";
+
+/** awaiting_confirmation — guest tapped "I've paid" on a PaymentLink */
+export type MemberPaymentStatus = "paid" | "partial" | "awaiting_confirmation" | "unpaid";
+
+export interface GroupMemberProgress {
+  memberId: string;
+  clientId: string;
+  orderId: string;
+  name: string;
+  phone: string;
+  garmentType: string;
+  orderStatus: string;
+  measurement: {
+    status: MemberMeasurementStatus;
+    measuredAt?: Date;
+    /** Open scan link, if one is pending */
+    scanUrl?: string;
+  };
+  payment: {
+    status: MemberPaymentStatus;
+    price: number;
+    paid: number;
+    balance: number;
+    /** Most recent unpaid PaymentLink, if any */
+    payUrl?: string;
+  };
+  fabric: {
+    yards: number | null;
+    /** True when the guest hasn't been measured and standard sizes were used */
+    estimated: boolean;
+  };
+}
+
+export interface GroupProgress {
+  members: GroupMemberProgress[];
+  totals: {
+    guests: number;
+    measured: number;
+    paid: number;
+    expected: number;
+    collected: number;
+    outstanding: number;
+    yardsNeeded: number;
+    yardsPurchased: number;
+    /** Yards still to buy (0 when enough has been purchased) */
+    yardsShort: number;
+    /** yardsNeeded × fabric price per yard, when a price is set */
+    fabricCost: number | null;
+    /** Garment types estimateFabric has no formula for */
+    unsupportedGarments: string[];
+  };
+}
+
+type LeanDoc = Record<string, unknown> & { _id: { toString(): string } };
+
+function roundYards(yards: number): number {
+  return Math.ceil(yards * 4) / 4;
+}
+
+export async function buildGroupProgress(
+  group: Pick<IGroupOrder, "designerId" | "members" | "defaultGarmentType" | "fabric">
+): Promise<GroupProgress> {
+  const clientIds = group.members.map((m) => m.clientId);
+  const orderIds = group.members.map((m) => m.orderId);
+  const now = new Date();
+
+  const [clients, orders, pendingScans, links] = await Promise.all([
+    Client.find({ _id: { $in: clientIds }, designerId: group.designerId })
+      .select("name phone measurements lastMeasuredAt")
+      .lean() as Promise<LeanDoc[]>,
+    Order.find({ _id: { $in: orderIds }, designerId: group.designerId })
+      .select("status price depositPaid paymentStatus garmentType isDeleted")
+      .lean() as Promise<LeanDoc[]>,
+    ScanSession.find({
+      designerId: group.designerId,
+      clientId: { $in: clientIds },
+      status: "pending",
+      expiresAt: { $gt: now },
+    })
+      .select("clientId linkCode createdAt")
+      .sort({ createdAt: -1 })
+      .lean() as Promise<LeanDoc[]>,
+    PaymentLink.find({
+      designerId: group.designerId,
+      orderId: { $in: orderIds },
+      status: { $in: ["pending", "client_marked_paid"] },
+    })
+      .select("orderId code status createdAt")
+      .sort({ createdAt: -1 })
+      .lean() as Promise<LeanDoc[]>,
+  ]);
+
+  const clientById = new Map(clients.map((c) => [c._id.toString(), c]));
+  const orderById = new Map(orders.map((o) => [o._id.toString(), o]));
+  const scanByClient = new Map<string, LeanDoc>();
+  for (const s of pendingScans) {
+    const key = String(s.clientId);
+    if (!scanByClient.has(key)) scanByClient.set(key, s);
+  }
+  const linksByOrder = new Map<string, LeanDoc[]>();
+  for (const l of links) {
+    const key = String(l.orderId);
+    linksByOrder.set(key, [...(linksByOrder.get(key) || []), l]);
+  }
+
+  const widthCm = group.fabric?.widthCm || 114;
+  const unsupported = new Set<string>();
+
+  const members: GroupMemberProgress[] = group.members.map((member) => {
+    const clientId = String(member.clientId);
+    const orderId = String(member.orderId);
+    const client = clientById.get(clientId);
+    const order = orderById.get(orderId);
+    const garmentType = member.garmentType || (order?.garmentType as string) || group.defaultGarmentType;
+
+    // Measurements
+    const measurements = client?.measurements as Record<string, unknown> | undefined;
+    const lastMeasuredAt = client?.lastMeasuredAt as Date | undefined;
+    const scan = scanByClient.get(clientId);
+    let measurementStatus: MemberMeasurementStatus = "missing";
+    if (lastMeasuredAt && new Date(lastMeasuredAt) >= new Date(member.addedAt)) {
+      measurementStatus = "received";
+    } else if (scan) {
+      measurementStatus = "link_sent";
+    } else if (measurements) {
+      measurementStatus = "on_file";
+    }
+
+    // Payments — depositPaid is the running total of confirmed payments
+    const price = (order?.price as number) || 0;
+    const paid = (order?.depositPaid as number) || 0;
+    const balance = Math.max(0, price - paid);
+    const orderLinks = linksByOrder.get(orderId) || [];
+    let paymentStatus: MemberPaymentStatus = "unpaid";
+    if (balance <= 0) paymentStatus = "paid";
+    else if (orderLinks.some((l) => l.status === "client_marked_paid")) paymentStatus = "awaiting_confirmation";
+    else if (paid > 0) paymentStatus = "partial";
+    const openLink = orderLinks.find((l) => l.status === "pending");
+
+    // Fabric — unmeasured guests are estimated at standard size
+    const estimate = estimateFabricFromInches(garmentType, measurements || {}, widthCm);
+    if (!estimate) unsupported.add(garmentType);
+
+    return {
+      memberId: String(member._id),
+      clientId,
+      orderId,
+      name: (client?.name as string) || "Unknown guest",
+      phone: (client?.phone as string) || "",
+      garmentType,
+      // A deleted order drops the guest out of the totals like a cancellation
+      orderStatus: order && !order.isDeleted ? (order.status as string) : "cancelled",
+      measurement: {
+        status: measurementStatus,
+        measuredAt: lastMeasuredAt,
+        scanUrl: scan ? `${APP_URL}/scan/${scan.linkCode}` : undefined,
+      },
+      payment: {
+        status: paymentStatus,
+        price,
+        paid,
+        balance,
+        payUrl: openLink ? `${APP_URL}/pay/${openLink.code}` : undefined,
+      },
+      fabric: {
+        yards: estimate ? estimate.totalYards : null,
+        estimated: !measurements,
+      },
+    };
+  });
+
+  const active = members.filter((m) => m.orderStatus !== "cancelled");
+  const yardsNeeded = roundYards(active.reduce((sum, m) => sum + (m.fabric.yards || 0), 0));
+  const yardsPurchased = group.fabric?.purchasedYards || 0;
+  const expected = active.reduce((sum, m) => sum + m.payment.price, 0);
+  const collected = active.reduce((sum, m) => sum + m.payment.paid, 0);
+
+  return {
+    members,
+    totals: {
+      guests: active.length,
+      measured: active.filter((m) => m.measurement.status === "received" || m.measurement.status === "on_file").length,
+      paid: active.filter((m) => m.payment.status === "paid").length,
+      expected,
+      collected,
+      outstanding: Math.max(0, expected - collected),
+      yardsNeeded,
+      yardsPurchased,
+      yardsShort: Math.max(0, roundYards(yardsNeeded - yardsPurchased)),
+      fabricCost: group.fabric?.pricePerYard ? Math.round(yardsNeeded * group.fabric.pricePerYard) : null,
+      unsupportedGarments: [...unsupported],
+    },
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Coordinator view                                                           */
+/*  What the bride / celebrant sees at /group/[code]: names, measured, paid, */
+/*  stage, and the fabric total. No phone numbers, prices or balances — the  */
+/*  coordinator chases guests, the designer handles money.                    */
+/* -------------------------------------------------------------------------- */
+
+export interface CoordinatorView {
+  title: string;
+  eventName: string | null;
+  eventDate: string | null;
+  coordinatorName: string | null;
+  status: string;
+  designer: {
+    businessName: string;
+    name: string;
+    phone: string;
+    location: string;
+  } | null;
+  fabric: {
+    name: string | null;
+    yardsNeeded: number;
+    yardsPurchased: number;
+    yardsShort: number;
+  };
+  totals: { guests: number; measured: number; paid: number };
+  guests: {
+    name: string;
+    garmentType: string;
+    measured: boolean;
+    linkSent: boolean;
+    paid: boolean;
+    stage: string;
+  }[];
+}
+
+export async function buildCoordinatorView(code: string): Promise<CoordinatorView | null> {
+  const group = await GroupOrder.findOne({ coordinatorCode: code }).lean();
+  if (!group) return null;
+
+  const [designer, progress] = await Promise.all([
+    Designer.findById(group.designerId)
+      .select("businessName name phone city state workflow")
+      .lean(),
+    buildGroupProgress(group),
+  ]);
+
+  const d = designer as Record<string, unknown> | null;
+  const workflow = resolveWorkflow(d?.workflow as Parameters<typeof resolveWorkflow>[0]);
+  const guests = progress.members.filter((m) => m.orderStatus !== "cancelled");
+
+  return {
+    title: group.title,
+    eventName: group.eventName || null,
+    eventDate: group.eventDate ? new Date(group.eventDate).toISOString() : null,
+    coordinatorName: group.coordinatorName || null,
+    status: group.status,
+    designer: d
+      ? {
+          businessName: d.businessName as string,
+          name: d.name as string,
+          phone: d.phone as string,
+          location: [d.city, d.state].filter(Boolean).join(", "),
+        }
+      : null,
+    fabric: {
+      name: group.fabric?.name || null,
+      yardsNeeded: progress.totals.yardsNeeded,
+      yardsPurchased: progress.totals.yardsPurchased,
+      yardsShort: progress.totals.yardsShort,
+    },
+    totals: {
+      guests: progress.totals.guests,
+      measured: progress.totals.measured,
+      paid: progress.totals.paid,
+    },
+    guests: guests.map((m) => ({
+      name: m.name,
+      garmentType: m.garmentType,
+      measured: m.measurement.status === "received" || m.measurement.status === "on_file",
+      linkSent: m.measurement.status === "link_sent",
+      paid: m.payment.status === "paid",
+      stage: getStatusLabel(m.orderStatus, workflow),
+    })),
+  };
+}
@@ -0,0 +1,445 @@
+/* -------------------------------------------------------------------------- */
+/*  Inventory                                                                   */
+/*                                                                              */
+/*  Stock-in, stock-take and per-order reservation / consumption of          */
+/*  materials. Every change writes a StockMovement row and moves             */
+/*  Material.onHand / reserved with a conditional $inc, so two people        */
+/*  reserving the last yards of a lace at once can't both get them.          */
+/*  Releasing or consuming an order's reservation first works out what the  */
+/*  order holds from its movements, so those take a short per-material lease */
+/*  (withMaterialLock) until their own movement row is written.              */
+/*                                                                              */
+/*  Low stock (available ≤ reorderLevel) raises one Notification, re-armed   */
+/*  when a receipt lifts the material back above its level.                  */
+/*  Callers check auth, permissions and input shape; these assume a DB       */
+/*  connection.                                                               */
+/* -------------------------------------------------------------------------- */
+
+import mongoose from "mongoose";
+import { Material, type IMaterial } from "@/lib/models/material";
+import { StockMovement } from "@/lib/models/stock-movement";
+import { Notification } from "@/lib/models/notification";
+import { Order } from "@/lib/models/order";
+import { Client } from "@/lib/models/client";
+import { getOrderLines } from "@/lib/order-items";
+import { estimateFabricFromInches, FABRIC_WIDTHS } from "@/lib/fabric-calculator";
+import type { WriteResult } from "@/lib/record-writes";
+
+/** Quantities are kept to 2 dp — 1/8 yard is the smallest cut anyone buys */
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+export function availableOf(material: Pick<IMaterial, "onHand" | "reserved">): number {
+  return round2(material.onHand - material.reserved);
+}
+
+async function notifyIfLow(material: IMaterial): Promise<void> {
+  const available = availableOf(material);
+  if (material.reorderLevel <= 0 || available > material.reorderLevel || material.lowStockAlertedAt) return;
+
+  // Claim the alert so concurrent movements send it once
+  const claimed = await Material.findOneAndUpdate(
+    { _id: material._id, lowStockAlertedAt: null },
+    { $set: { lowStockAlertedAt: new Date() } }
+  );
+  if (!claimed) return;
+
+  await Notification.create({
+    designerId: material.designerId,
+    type: "low_stock",
+    title: `🧵 Running low on ${material.name}`,
+    message: `${available} ${material.unit} left to use (reorder level ${material.reorderLevel})${
+      material.supplier ? ` — reorder from ${material.supplier}` : ""
+    }.`,
+    link: "/inventory",
+  }).catch(() => { /* non-fatal */ });
+}
+
+async function findMaterial(designerId: string, materialId: string) {
+  if (!mongoose.isValidObjectId(materialId)) return null;
+  return Material.findOne({ _id: materialId, designerId, archived: { $ne: true } });
+}
+
+/* ---- Stock in / stock-take ---- */
+
+export async function receiveStock(
+  designerId: string,
+  userId: string,
+  materialId: string,
+  input: { quantity: number; unitCost?: number; supplier?: string; reference?: string; note?: string },
+): Promise<WriteResult<IMaterial>> {
+  const material = await findMaterial(designerId, materialId);
+  if (!material) return { ok: false, status: 404, message: "Material not found" };
+
+  const unitCost = input.unitCost ?? material.costPerUnit;
+  // Moving average over what's on the shelf (a negative balance counts as none)
+  const shelf = Math.max(0, material.onHand);
+  const costPerUnit = round2((shelf * material.costPerUnit + input.quantity * unitCost) / (shelf + input.quantity));
+
+  const updated = await Material.findOneAndUpdate(
+    { _id: material._id },
+    {
+      $inc: { onHand: input.quantity },
+      $set: {
+        costPerUnit,
+        ...(input.supplier ? { supplier: input.supplier } : {}),
+      },
+    },
+    { new: true }
+  );
+  if (!updated) return { ok: false, status: 404, message: "Material not found" };
+
+  await StockMovement.create({
+    designerId,
+    materialId: material._id,
+    kind: "receipt",
+    quantity: input.quantity,
+    unitCost,
+    supplier: input.supplier || material.supplier,
+    reference: input.reference,
+    note: input.note,
+    createdBy: userId,
+  });
+
+  // Back above the reorder level — the next dip alerts again
+  if (updated.lowStockAlertedAt && availableOf(updated) > updated.reorderLevel) {
+    updated.lowStockAlertedAt = null;
+    await Material.updateOne({ _id: updated._id }, { $set: { lowStockAlertedAt: null } });
+  }
+
+  return { ok: true, doc: updated };
+}
+
+/** Stock-take: set onHand to what was counted, recording the difference */
+export async function adjustStock(
+  designerId: string,
+  userId: string,
+  materialId: string,
+  input: { counted: number; note?: string },
+): Promise<WriteResult<IMaterial>> {
+  const material = await findMaterial(designerId, materialId);
+  if (!material) return { ok: false, status: 404, message: "Material not found" };
+
+  const difference = round2(input.counted - material.onHand);
+  if (difference === 0) return { ok: true, doc: material };
+
+  const updated = await Material.findOneAndUpdate(
+    { _id: material._id, onHand: material.onHand },
+    { $inc: { onHand: difference } },
+    { new: true }
+  );
+  if (!updated) {
+    return { ok: false, status: 409, message: "Stock changed while you were counting — refresh and try again" };
+  }
+
+  await StockMovement.create({
+    designerId,
+    materialId: material._id,
+    kind: "adjust",
+    quantity: difference,
+    unitCost: material.costPerUnit,
+    note: input.note,
+    createdBy: userId,
+  });
+
+  await notifyIfLow(updated);
+  return { ok: true, doc: updated };
+}
+
+/* ---- Orders ---- */
+
+export interface OrderMaterialUse {
+  materialId: string;
+  name: string;
+  unit: IMaterial["unit"];
+  category: IMaterial["category"];
+  /** Still set aside for this order */
+  reserved: number;
+  consumed: number;
+  /** NGN — consumed × the unit cost at the time */
+  cost: number;
+}
+
+/** What each material has reserved for / consumed by an order */
+export async function getOrderMaterials(designerId: string, orderId: string): Promise<OrderMaterialUse[]> {
+  const rows = await StockMovement.aggregate<{
+    _id: mongoose.Types.ObjectId;
+    reserved: number;
+    consumed: number;
+    cost: number;
+  }>([
+    {
+      $match: {
+        designerId: new mongoose.Types.ObjectId(designerId),
+        orderId: new mongoose.Types.ObjectId(orderId),
+      },
+    },
+    {
+      $group: {
+        _id: "$materialId",
+        reserved: {
+          $sum: {
+            $switch: {
+              branches: [
+                { case: { $eq: ["$kind", "reserve"] }, then: "$quantity" },
+                { case: { $eq: ["$kind", "release"] }, then: { $multiply: ["$quantity", -1] } },
+                { case: { $eq: ["$kind", "consume"] }, then: { $multiply: [{ $ifNull: ["$fromReserved", 0] }, -1] } },
+              ],
+              default: 0,
+            },
+          },
+        },
+        consumed: { $sum: { $cond: [{ $eq: ["$kind", "consume"] }, "$quantity", 0] } },
+        cost: {
+          $sum: { $cond: [{ $eq: ["$kind", "consume"] }, { $multiply: ["$quantity", "$unitCost"] }, 0] },
+        },
+      },
+    },
+  ]);
+  if (rows.length === 0) return [];
+
+  const materials = await Material.find({ _id: { $in: rows.map((r) => r._id) }, designerId })
+    .select("name unit category")
+    .lean<{ _id: mongoose.Types.ObjectId; name: string; unit: IMaterial["unit"]; category: IMaterial["category"] }[]>();
+  const byId = new Map(materials.map((m) => [String(m._id), m]));
+
+  return rows
+    .filter((r) => byId.has(String(r._id)))
+    .map((r) => {
+      const m = byId.get(String(r._id))!;
+      return {
+        materialId: String(r._id),
+        name: m.name,
+        unit: m.unit,
+        category: m.category,
+        reserved: round2(Math.max(0, r.reserved)),
+        consumed: round2(r.consumed),
+        cost: Math.round(r.cost),
+      };
+    });
+}
+
+/**
+ * Yards of main fabric the order needs — the same estimate as the cutting
+ * plan (each line's snapshot, or the client's current measurements).
+ */
+export async function suggestedOrderYards(designerId: string, orderId: string): Promise<number> {
+  const order = await Order.findOne({ _id: orderId, designerId, isDeleted: { $ne: true } }).lean();
+  if (!order) return 0;
+
+  const client = await Client.findById((order as { clientId: unknown }).clientId)
+    .select("measurements")
+    .lean();
+  const clientMeasurements =
+    ((client as { measurements?: Record<string, number> } | null)?.measurements) || {};
+
+  const lines = getOrderLines(JSON.parse(JSON.stringify(order)) as Parameters<typeof getOrderLines>[0]);
+  const yards = lines
+    .filter((line) => line.status !== "cancelled")
+    .reduce((sum, line) => {
+      const estimate = estimateFabricFromInches(
+        line.garmentType,
+        line.measurements || clientMeasurements,
+        line.fabricWidthCm || FABRIC_WIDTHS[0].value
+      );
+      return sum + (estimate ? estimate.totalYards * line.quantity : 0);
+    }, 0);
+  return Math.ceil(yards * 4) / 4;
+}
+
+/** How long a release / consume may hold a material before the lease lapses */
+const MATERIAL_LOCK_MS = 5000;
+const MATERIAL_LOCK_RETRY_MS = 200;
+
+/**
+ * Run `fn` holding the material's movement lease, waiting up to one lease
+ * length for it. Returns null when it stayed busy.
+ */
+async function withMaterialLock<T>(materialId: unknown, fn: () => Promise<T>): Promise<T | null> {
+  const deadline = Date.now() + MATERIAL_LOCK_MS;
+  for (;;) {
+    const now = new Date();
+    const claimed = await Material.findOneAndUpdate(
+      { _id: materialId, $or: [{ movementLockUntil: null }, { movementLockUntil: { $lt: now } }] },
+      { $set: { movementLockUntil: new Date(now.getTime() + MATERIAL_LOCK_MS) } }
+    );
+    if (claimed) break;
+    if (Date.now() >= deadline) return null;
+    await new Promise((r) => setTimeout(r, MATERIAL_LOCK_RETRY_MS));
+  }
+  try {
+    return await fn();
+  } finally {
+    await Material.updateOne({ _id: materialId }, { $set: { movementLockUntil: null } });
+  }
+}
+
+function materialBusy(material: IMaterial): WriteResult<IMaterial> {
+  return { ok: false, status: 409, message: `${material.name} is being updated — try again in a moment` };
+}
+
+async function heldFor(designerId: string, materialId: string, orderId: string): Promise<number> {
+  const uses = await getOrderMaterials(designerId, orderId);
+  return uses.find((u) => u.materialId === materialId)?.reserved ?? 0;
+}
+
+export async function reserveForOrder(
+  designerId: string,
+  userId: string,
+  materialId: string,
+  orderId: string,
+  quantity: number,
+): Promise<WriteResult<IMaterial>> {
+  const material = await findMaterial(designerId, materialId);
+  if (!material) return { ok: false, status: 404, message: "Material not found" };
+
+  const updated = await Material.findOneAndUpdate(
+    {
+      _id: material._id,
+      $expr: { $gte: [{ $subtract: ["$onHand", "$reserved"] }, quantity - 0.001] },
+    },
+    { $inc: { reserved: quantity } },
+    { new: true }
+  );
+  if (!updated) {
+    const fresh = await Material.findById(material._id).select("onHand reserved").lean<Pick<IMaterial, "onHand" | "reserved">>();
+    return {
+      ok: false,
+      status: 409,
+      message: `Only ${fresh ? Math.max(0, availableOf(fresh)) : 0} ${material.unit} of ${material.name} available`,
+    };
+  }
+
+  await StockMovement.create({
+    designerId,
+    materialId: material._id,
+    orderId,
+    kind: "reserve",
+    quantity,
+    unitCost: updated.costPerUnit,
+    createdBy: userId,
+  });
+
+  await notifyIfLow(updated);
+  return { ok: true, doc: updated };
+}
+
+/** Hand back an order's reservation — all of it unless `quantity` is given */
+export async function releaseForOrder(
+  designerId: string,
+  userId: string,
+  materialId: string,
+  orderId: string,
+  quantity?: number,
+): Promise<WriteResult<IMaterial>> {
+  const material = await findMaterial(designerId, materialId);
+  if (!material) return { ok: false, status: 404, message: "Material not found" };
+
+  const result = await withMaterialLock(material._id, async (): Promise<WriteResult<IMaterial>> => {
+    const held = await heldFor(designerId, materialId, orderId);
+    const release = round2(Math.min(quantity ?? held, held));
+    if (release <= 0) {
+      return { ok: false, status: 409, message: `Nothing of ${material.name} is reserved for this order` };
+    }
+
+    const updated = await Material.findOneAndUpdate(
+      { _id: material._id, reserved: { $gte: release - 0.001 } },
+      { $inc: { reserved: -release } },
+      { new: true }
+    );
+    if (!updated) {
+      return { ok: false, status: 409, message: `Less of ${material.name} is reserved than this order holds — refresh and try again` };
+    }
+
+    await StockMovement.create({
+      designerId,
+      materialId: material._id,
+      orderId,
+      kind: "release",
+      quantity: release,
+      unitCost: material.costPerUnit,
+      createdBy: userId,
+    });
+
+    return { ok: true, doc: updated };
+  });
+  return result ?? materialBusy(material);
+}
+
+/**
+ * Cut stock for an order. Uses the order's own reservation first; anything
+ * beyond it must come out of unreserved stock.
+ */
+export async function consumeForOrder(
+  designerId: string,
+  userId: string,
+  materialId: string,
+  orderId: string,
+  quantity: number,
+): Promise<WriteResult<IMaterial>> {
+  const material = await findMaterial(designerId, materialId);
+  if (!material) return { ok: false, status: 404, message: "Material not found" };
+
+  const result = await withMaterialLock(material._id, async (): Promise<WriteResult<IMaterial>> => {
+    const fromReserved = round2(Math.min(quantity, await heldFor(designerId, materialId, orderId)));
+    const extra = round2(quantity - fromReserved);
+
+    const updated = await Material.findOneAndUpdate(
+      {
+        _id: material._id,
+        reserved: { $gte: fromReserved - 0.001 },
+        $expr: { $gte: [{ $subtract: ["$onHand", "$reserved"] }, extra - 0.001] },
+      },
+      { $inc: { onHand: -quantity, reserved: -fromReserved } },
+      { new: true }
+    );
+    if (!updated) {
+      return {
+        ok: false,
+        status: 409,
+        message: `Not enough ${material.name} in stock — ${fromReserved} ${material.unit} reserved for this order, ${Math.max(0, availableOf(material))} more available`,
+      };
+    }
+
+    await StockMovement.create({
+      designerId,
+      materialId: material._id,
+      orderId,
+      kind: "consume",
+      quantity,
+      fromReserved,
+      unitCost: material.costPerUnit,
+      createdBy: userId,
+    });
+
+    await notifyIfLow(updated);
+    return { ok: true, doc: updated };
+  });
+  return result ?? materialBusy(material);
+}
+
+/** Cancelled or deleted order: everything it still holds goes back on the shelf */
+export async function releaseOrderReservations(designerId: string, orderId: string, note: string): Promise<void> {
+  const uses = await getOrderMaterials(designerId, orderId);
+  for (const use of uses) {
+    if (use.reserved <= 0) continue;
+    const done = await withMaterialLock(use.materialId, async () => {
+      const held = await heldFor(designerId, use.materialId, orderId);
+      if (held <= 0) return;
+      await Material.updateOne(
+        { _id: use.materialId, designerId, reserved: { $gte: held - 0.001 } },
+        { $inc: { reserved: -held } }
+      );
+      await StockMovement.create({
+        designerId,
+        materialId: use.materialId,
+        orderId,
+        kind: "release",
+        quantity: held,
+        note,
+      });
+    });
+    if (done === null) console.error(`Reservation of ${use.name} for order ${orderId} not released: material busy`);
+  }
+}
@@ -0,0 +1,380 @@
+/* -------------------------------------------------------------------------- */
+/*  Workshop job cards                                                         */
+/*                                                                              */
+/*  One printable card per garment line for the cutting table — apprentices  */
+/*  work from paper, not phones:                                               */
+/*    1. buildJobCards() picks what goes on each card: the line's locked      */
+/*       measurement snapshot (only the GARMENT_PRESETS fields for that       */
+/*       garment), the cut list from pattern-panels, swatches and due date   */
+/*    2. renderJobCardsPdf() draws them on A5 or A6, one card per page, with */
+/*       a QR code that opens the order's status dialog                       */
+/*  Batch printing is just more cards in the same PDF.                        */
+/* -------------------------------------------------------------------------- */
+
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import QRCode from "qrcode";
+import sharp from "sharp";
+import { APP_URL, GARMENT_PRESETS, MEASUREMENT_TYPES } from "@/lib/constants";
+import { Client } from "@/lib/models/client";
+import { Designer } from "@/lib/models/designer";
+import { FIT_OPTIONS } from "@/lib/ease-allowance";
+import { getOrderLines, type OrderLine } from "@/lib/order-items";
+import { formatCutList, generatePatternPlan } from "@/lib/pattern-panels";
+import { FABRIC_WIDTHS } from "@/lib/fabric-calculator";
+import { cmToIn } from "@/lib/units";
+import {
+  decodeImageDataUrl,
+  getMediaDriver,
+  mediaKeyFromUrl,
+  thumbnailUrl,
+} from "@/lib/media-storage";
+
+export type JobCardSize = "a5" | "a6";
+
+/** Most swatches printed per card — more just crowd the cut list */
+const MAX_SWATCHES = 3;
+
+const INK: [number, number, number] = [26, 26, 46];
+const MUTED: [number, number, number] = [110, 110, 120];
+const ACCENT: [number, number, number] = [199, 91, 57];
+
+export interface JobCard {
+  orderId: string;
+  orderTitle: string;
+  clientName: string;
+  businessName: string;
+  garment: string;
+  quantity: number;
+  fabric?: string;
+  fit: string;
+  status: string;
+  dueDate?: string;
+  /** "Line 2 of 3" on multi-garment orders */
+  lineLabel?: string;
+  /** False when the order isn't locked yet and the client's current numbers are shown */
+  locked: boolean;
+  measuredAt?: string;
+  measurements: { label: string; body: number; cutting?: number }[];
+  /** formatCutList output without WhatsApp markers, or null for garments without panels */
+  cutList: string | null;
+  swatches: string[];
+  notes?: string;
+  /** Opens the order with the status dialog up */
+  statusUrl: string;
+}
+
+/* ---- Inputs (lean docs from the routes) ---- */
+
+interface OrderLike {
+  _id: unknown;
+  title: string;
+  status: string;
+  items?: OrderLine[];
+  garmentType?: string;
+  fabric?: string;
+  description?: string;
+  price?: number;
+  dueDate?: Date | string;
+  notes?: string;
+  fabricImages?: string[];
+}
+
+const PRESET_ALIASES: Record<string, string> = {
+  shirt: "top", blouse: "top", top: "top",
+  dress: "dress", gown: "dress",
+  trousers: "trousers", pants: "trousers",
+  skirt: "skirt",
+  agbada: "agbada", kaftan: "agbada",
+  suit: "suit", blazer: "suit",
+  jumpsuit: "jumpsuit",
+};
+
+/** The measurement keys a cutter needs for a garment ("all" when unknown). */
+export function presetFieldsFor(garmentType: string): string[] {
+  const key = PRESET_ALIASES[garmentType.toLowerCase().trim()] || "all";
+  return GARMENT_PRESETS[key].fields;
+}
+
+export function jobCardStatusUrl(orderId: string): string {
+  return `${APP_URL}/orders/${orderId}?bump=1`;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Building                                                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * One card per line. Lines without a snapshot (order not locked yet) fall
+ * back to `clientMeasurements` and are marked as unlocked on the card.
+ */
+export function buildJobCards(
+  order: OrderLike,
+  clientName: string,
+  businessName: string,
+  clientMeasurements?: Record<string, unknown>
+): JobCard[] {
+  const lines = getOrderLines(order);
+  const orderId = String(order._id);
+
+  return lines.map((line, index) => {
+    const source = (line.measurements || clientMeasurements || {}) as Record<string, unknown>;
+    const fit = line.fit || "standard";
+    const measurements = presetFieldsFor(line.garmentType)
+      .map((key) => {
+        const body = source[key];
+        if (typeof body !== "number" || body <= 0) return null;
+        const label = MEASUREMENT_TYPES.find((t) => t.key === key)?.label ?? key;
+        return { label, body, cutting: line.cuttingMeasurements?.[key] };
+      })
+      .filter((m): m is NonNullable<typeof m> => m !== null);
+
+    const widthCm = line.fabricWidthCm || FABRIC_WIDTHS[0].value;
+    const plan = generatePatternPlan(
+      source as Record<string, number>,
+      line.garmentType,
+      fit,
+      Math.round(cmToIn(widthCm))
+    );
+
+    return {
+      orderId,
+      orderTitle: order.title,
+      clientName,
+      businessName,
+      garment: line.garmentType,
+      quantity: line.quantity,
+      fabric: line.fabric,
+      fit: FIT_OPTIONS.find((f) => f.value === fit)?.label || fit,
+      status: line.status,
+      dueDate: order.dueDate ? new Date(order.dueDate).toISOString() : undefined,
+      lineLabel: lines.length > 1 ? `Line ${index + 1} of ${lines.length}` : undefined,
+      locked: !!line.measurements,
+      measuredAt: line.measurements
+        ? (line.measuredAt ? new Date(line.measuredAt).toISOString() : undefined)
+        : (source.measuredAt ? new Date(source.measuredAt as string).toISOString() : undefined),
+      measurements,
+      cutList: plan && plan.panels.length > 0 ? formatCutList(plan).replace(/\*/g, "") : null,
+      swatches: (order.fabricImages || []).slice(0, MAX_SWATCHES),
+      notes: line.notes || order.notes || undefined,
+      statusUrl: jobCardStatusUrl(orderId),
+    };
+  });
+}
+
+/**
+ * Cards for a batch of lean orders, with client names and measurements
+ * loaded in one query. `lineStatus` keeps only the lines at that stage —
+ * the cutting-table batch shouldn't print the cap that's already sewn.
+ */
+export async function loadJobCards(
+  designerId: string,
+  orders: OrderLike[],
+  lineStatus?: string
+): Promise<JobCard[]> {
+  const clientIds = [...new Set(orders.map((o) => String((o as { clientId?: unknown }).clientId)))];
+  const [clients, designer] = await Promise.all([
+    Client.find({ _id: { $in: clientIds }, designerId }).select("name measurements").lean(),
+    Designer.findById(designerId).select("businessName name").lean(),
+  ]);
+  const byId = new Map(
+    (clients as { _id: unknown; name: string; measurements?: Record<string, unknown> }[])
+      .map((c) => [String(c._id), c])
+  );
+  const d = designer as { businessName?: string; name?: string } | null;
+  const businessName = d?.businessName || d?.name || "Stitcha";
+
+  return orders.flatMap((order) => {
+    const client = byId.get(String((order as { clientId?: unknown }).clientId));
+    const measurements = client?.measurements
+      ? (JSON.parse(JSON.stringify(client.measurements)) as Record<string, unknown>)
+      : undefined;
+    const plain = JSON.parse(JSON.stringify(order)) as OrderLike;
+    const cards = buildJobCards(plain, client?.name || "Client", businessName, measurements);
+    return lineStatus ? cards.filter((c) => c.status === lineStatus) : cards;
+  });
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Rendering                                                                  */
+/* -------------------------------------------------------------------------- */
+
+function shortDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-NG", { weekday: "short", day: "numeric", month: "short", year: "numeric" });
+}
+
+/**
+ * Swatch thumbnail as JPEG — stored media is WebP, which jsPDF can't embed.
+ * Any failure just leaves the swatch off.
+ */
+async function loadSwatch(url: string): Promise<Uint8Array | null> {
+  try {
+    let body: Buffer | null = decodeImageDataUrl(url);
+    if (!body) {
+      const key = mediaKeyFromUrl(thumbnailUrl(url));
+      if (!key) return null;
+      const object = await getMediaDriver().get(key);
+      body = object?.body ?? null;
+    }
+    if (!body) return null;
+    const jpeg = await sharp(body).resize(240, 240, { fit: "cover" }).jpeg({ quality: 70 }).toBuffer();
+    return new Uint8Array(jpeg);
+  } catch {
+    return null;
+  }
+}
+
+export async function renderJobCardsPdf(cards: JobCard[], size: JobCardSize = "a5"): Promise<ArrayBuffer> {
+  const doc = new jsPDF({ format: size });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const small = size === "a6";
+  const margin = small ? 7 : 10;
+  const qrSize = small ? 24 : 32;
+  const fs = (n: number) => (small ? n - 1.5 : n);
+
+  // Orders repeat across their lines — one QR per order
+  const qrCache = new Map<string, string>();
+  const swatchCache = new Map<string, Uint8Array | null>();
+
+  for (let i = 0; i < cards.length; i++) {
+    const card = cards[i];
+    if (i > 0) doc.addPage(size);
+
+    // Header — garment and client on the left, QR on the right
+    let qr = qrCache.get(card.orderId);
+    if (!qr) {
+      qr = await QRCode.toDataURL(card.statusUrl, { margin: 1, width: 256 });
+      qrCache.set(card.orderId, qr);
+    }
+    doc.addImage(qr, "PNG", pageWidth - margin - qrSize, margin, qrSize, qrSize);
+    doc.setFontSize(fs(6.5));
+    doc.setTextColor(...MUTED);
+    doc.text("Scan to update status", pageWidth - margin - qrSize / 2, margin + qrSize + 3, { align: "center" });
+
+    const textWidth = pageWidth - margin * 2 - qrSize - 4;
+    let y = margin + 4;
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(fs(8));
+    doc.setTextColor(...ACCENT);
+    doc.text(`JOB CARD · ${card.businessName}`.toUpperCase(), margin, y);
+    y += small ? 6 : 8;
+
+    doc.setFontSize(fs(16));
+    doc.setTextColor(...INK);
+    const garment = `${card.quantity > 1 ? `${card.quantity}× ` : ""}${card.garment}`;
+    doc.text(doc.splitTextToSize(garment, textWidth)[0], margin, y);
+    y += small ? 5 : 6;
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(fs(9));
+    const meta = [card.clientName, card.orderTitle, card.lineLabel].filter(Boolean).join(" · ");
+    for (const row of doc.splitTextToSize(meta, textWidth).slice(0, 2)) {
+      doc.text(row, margin, y);
+      y += 4;
+    }
+    doc.setTextColor(...MUTED);
+    doc.text(
+      [card.fabric, `${card.fit} fit`, `Stage: ${card.status}`].filter(Boolean).join(" · "),
+      margin,
+      y
+    );
+    y += small ? 5 : 6;
+
+    if (card.dueDate) {
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(fs(11));
+      doc.setTextColor(...ACCENT);
+      doc.text(`DUE ${shortDate(card.dueDate).toUpperCase()}`, margin, y);
+      y += 2;
+    }
+    y = Math.max(y, margin + qrSize + 5) + 2;
+
+    doc.setDrawColor(...ACCENT);
+    doc.setLineWidth(0.4);
+    doc.line(margin, y, pageWidth - margin, y);
+    y += small ? 4 : 5;
+
+    // Measurements — body and eased cutting values
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(fs(7.5));
+    doc.setTextColor(...(card.locked ? MUTED : ACCENT));
+    doc.text(
+      card.locked
+        ? `Locked measurements${card.measuredAt ? ` · taken ${shortDate(card.measuredAt)}` : ""} · inches`
+        : `NOT LOCKED — client's current measurements${card.measuredAt ? ` (${shortDate(card.measuredAt)})` : ""} · inches`,
+      margin,
+      y
+    );
+    y += 2;
+
+    const hasCutting = card.measurements.some((m) => m.cutting !== undefined);
+    autoTable(doc, {
+      theme: "grid",
+      startY: y,
+      margin: { left: margin, right: margin },
+      head: [hasCutting ? ["Measurement", "Body", "Cut"] : ["Measurement", "Body"]],
+      body: card.measurements.length > 0
+        ? card.measurements.map((m) =>
+            hasCutting
+              ? [m.label, `${m.body}"`, m.cutting !== undefined ? `${m.cutting}"` : "-"]
+              : [m.label, `${m.body}"`]
+          )
+        : [["No measurements recorded", ""]],
+      headStyles: { fillColor: ACCENT, textColor: [255, 255, 255], fontSize: fs(8), fontStyle: "bold", cellPadding: 1.2 },
+      bodyStyles: { fontSize: fs(9), textColor: INK, cellPadding: 1.2 },
+      columnStyles: { 1: { halign: "right" }, 2: { halign: "right", fontStyle: "bold" } },
+    });
+    y = ((doc as unknown as { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY ?? y) + 5;
+
+    // Cut list — continues onto a new page when it runs long
+    const writeLines = (rows: string[], lineHeight: number) => {
+      for (const row of rows) {
+        if (y > pageHeight - margin - 4) {
+          doc.addPage(size);
+          y = margin + 4;
+        }
+        doc.text(row, margin, y);
+        y += lineHeight;
+      }
+    };
+    if (card.cutList) {
+      doc.setFont("courier", "normal");
+      doc.setFontSize(fs(7.5));
+      doc.setTextColor(...INK);
+      writeLines(
+        card.cutList.split("\n").flatMap((row) => (row ? doc.splitTextToSize(row, pageWidth - margin * 2) : [" "])),
+        small ? 3 : 3.4
+      );
+      y += 3;
+    }
+
+    // Fabric swatches
+    const swatches: Uint8Array[] = [];
+    for (const url of card.swatches) {
+      if (!swatchCache.has(url)) swatchCache.set(url, await loadSwatch(url));
+      const swatch = swatchCache.get(url);
+      if (swatch) swatches.push(swatch);
+    }
+    if (swatches.length > 0) {
+      const swatchSize = small ? 16 : 22;
+      if (y + swatchSize > pageHeight - margin) {
+        doc.addPage(size);
+        y = margin + 4;
+      }
+      swatches.forEach((s, n) => {
+        doc.addImage(s, "JPEG", margin + n * (swatchSize + 3), y, swatchSize, swatchSize);
+      });
+      y += swatchSize + 5;
+    }
+
+    if (card.notes) {
+      doc.setFont("helvetica", "italic");
+      doc.setFontSize(fs(8));
+      doc.setTextColor(...MUTED);
+      writeLines(doc.splitTextToSize(`Notes: ${card.notes}`, pageWidth - margin * 2).slice(0, 6), 3.6);
+    }
+  }
+
+  return doc.output("arraybuffer");
+}
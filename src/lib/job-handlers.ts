@@ -0,0 +1,505 @@
+/* -------------------------------------------------------------------------- */
+/*  Job handlers                                                                */
+/*                                                                              */
+/*  Every background job type the tick knows how to run, plus the daily      */
+/*  sweeps that scheduleRecurringJobs() enqueues once per day:                */
+/*                                                                              */
+/*    broadcast.send          — dispatch one scheduled BroadcastJob            */
+/*    orders.due_reminders    — "due in N days" notifications                  */
+/*    payments.chase          — "payment outstanding" notifications, and    */
+/*                              queues today's auto-chase per opted-in designer */
+/*    payments.auto_chase     — one designer's automatic SMS reminders        */
+/*    subscriptions.expiry    — renewal reminders, grace-period dunning and  */
+/*                              "plan has expired" notices                    */
+/*    email.send              — deliver one client email from the outbox     */
+/*    emails.overdue          — weekly "balance overdue" client emails       */
+/*                                                                              */
+/*  Handlers are re-runnable (see lib/job-queue): notifications are written  */
+/*  with notifyOnceToday(), broadcasts skip recipients already sent, and     */
+/*  client emails are deduplicated by their outbox row.                       */
+/* -------------------------------------------------------------------------- */
+
+import mongoose from "mongoose";
+import { Designer } from "@/lib/models/designer";
+import { Order } from "@/lib/models/order";
+import { Outreach } from "@/lib/models/outreach";
+import { Notification, type INotification } from "@/lib/models/notification";
+import { BroadcastJob } from "@/lib/models/broadcast-job";
+import { sendSMS } from "@/lib/sms";
+import { isCloudApiConfigured } from "@/lib/whatsapp-cloud";
+import { runCloudBroadcast } from "@/lib/whatsapp-broadcast";
+import { isQuietHour, nextSendTime, resolveAutoChase, runAutoChase } from "@/lib/payment-chaser";
+import { enqueueJob, type JobHandler } from "@/lib/job-queue";
+import { daysUntilSubscriptionExpiry } from "@/lib/access-control";
+import { deliverOutboxEmail, queueOverdueEmails } from "@/lib/client-emails";
+import { SUBSCRIPTION_BILLING } from "@/lib/constants";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Daily sweeps become due at 08:00 WAT (07:00 UTC). */
+const DAILY_RUN_HOUR_UTC = 7;
+
+function startOfUtcDay(d: Date): Date {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+}
+
+/**
+ * Create a notification unless the same (designer, type, link, title) was
+ * already created today — keeps daily sweeps idempotent across retries.
+ */
+async function notifyOnceToday(n: {
+  designerId: mongoose.Types.ObjectId | string;
+  type: INotification["type"];
+  title: string;
+  message: string;
+  link?: string;
+}): Promise<boolean> {
+  const res = await Notification.updateOne(
+    {
+      designerId: n.designerId,
+      type: n.type,
+      link: n.link,
+      title: n.title,
+      createdAt: { $gte: startOfUtcDay(new Date()) },
+    },
+    { $setOnInsert: { message: n.message, read: false, createdAt: new Date() } },
+    { upsert: true },
+  );
+  return !!res.upsertedId;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  broadcast.send                                                              */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Payload: { broadcastJobId }.
+ *   SMS channel  → atomically deduct credits, dispatch to Termii, refund
+ *                  on failure, mark the broadcast complete.
+ *   WA cloud     → send the next batch of templates from the business
+ *                  number (lib/whatsapp-broadcast); queue another run while
+ *                  recipients remain.
+ *   WA channel   → flip to "ready" and notify the designer to open the
+ *                  in-app queue. (We can't send wa.me from a server.) Also
+ *                  the fallback for cloud broadcasts if the API is unset.
+ */
+const broadcastSend: JobHandler = async (payload, queued) => {
+  const job = await BroadcastJob.findById(payload.broadcastJobId);
+  if (!job) return { skipped: "broadcast not found" };
+  if (job.status !== "pending" && job.status !== "running") {
+    return { skipped: `broadcast is ${job.status}` };
+  }
+
+  if (job.channel === "whatsapp" && job.delivery === "cloud" && isCloudApiConfigured()) {
+    const run = await runCloudBroadcast(job);
+    if (run.resumeAt) {
+      await enqueueJob({
+        type: "broadcast.send",
+        payload: { broadcastJobId: String(job._id) },
+        runAt: run.resumeAt,
+        designerId: String(job.designerId),
+        idempotencyKey: nextBatchKey(queued.idempotencyKey || `broadcast.send:${job._id}`),
+      });
+      if (run.reason === "tier") {
+        await notifyOnceToday({
+          designerId: job.designerId,
+          type: "system",
+          title: "📣 Broadcast paused — daily WhatsApp limit reached",
+          message: `The rest of your broadcast will go out from ${run.resumeAt.toLocaleString("en-NG", { timeZone: "Africa/Lagos", hour: "numeric", minute: "2-digit", day: "numeric", month: "short" })}.`,
+          link: "/broadcast/history",
+        });
+      }
+      return { channel: "whatsapp", ...run, resumeAt: run.resumeAt.toISOString() };
+    }
+
+    if (run.complete) {
+      const done = await BroadcastJob.findById(job._id).select("sentCount failedCount recipientCount status").lean();
+      if (done?.status === "complete") {
+        await Notification.create({
+          designerId: job.designerId,
+          type: "system",
+          title: `✅ Broadcast sent — ${done.sentCount} of ${done.recipientCount}`,
+          message:
+            done.failedCount > 0
+              ? `${done.sentCount} WhatsApp messages sent, ${done.failedCount} failed. See who in broadcast history.`
+              : `${done.sentCount} WhatsApp messages sent. Delivery and read receipts appear in broadcast history.`,
+          link: "/broadcast/history",
+        }).catch(() => { /* non-fatal */ });
+      }
+    }
+    return { channel: "whatsapp", ...run };
+  }
+
+  if (job.channel === "whatsapp") {
+    job.status = "ready";
+    job.startedAt = new Date();
+    await job.save();
+
+    await Notification.create({
+      designerId: job.designerId,
+      type: "system",
+      title: `📣 Broadcast ready to send`,
+      message: `${job.recipientCount} WhatsApp message${job.recipientCount === 1 ? "" : "s"} are queued. Open the broadcast page to send them now.`,
+      link: `/broadcast?resume=${job._id}`,
+    }).catch(() => { /* non-fatal */ });
+    return { channel: "whatsapp", ready: true };
+  }
+
+  /* SMS path — credits are reserved once; a retried run resumes at the
+     first recipient not yet marked sent. */
+  const required = job.recipientCount;
+  if (job.status === "pending") {
+    const reserved = await Designer.findOneAndUpdate(
+      { _id: job.designerId, smsBalance: { $gte: required } },
+      { $inc: { smsBalance: -required } },
+    );
+    if (!reserved) {
+      job.status = "cancelled";
+      job.completedAt = new Date();
+      job.errorList = [
+        ...(job.errorList || []),
+        {
+          clientId: job.designerId,
+          error: `Insufficient SMS credits (need ${required}). Broadcast cancelled.`,
+        },
+      ];
+      await job.save();
+      await Notification.create({
+        designerId: job.designerId,
+        type: "system",
+        title: "Broadcast skipped — top up SMS credits",
+        message: `Your scheduled broadcast couldn't run because you don't have ${required} SMS credits. Buy a pack to retry.`,
+        link: "/billing",
+      }).catch(() => { /* non-fatal */ });
+      return { channel: "sms", cancelled: "insufficient credits" };
+    }
+
+    job.status = "running";
+    job.startedAt = new Date();
+    await job.save();
+  }
+
+  const errorList: typeof job.errorList = [];
+  for (const r of job.recipients) {
+    if (r.sent) continue;
+    const first = r.name.split(" ")[0] || r.name;
+    const personal = job.message
+      .replace(/\{\{\s*name\s*\}\}/gi, r.name)
+      .replace(/\{\{\s*first_name\s*\}\}/gi, first);
+    const result = await sendSMS(r.phone, personal);
+    if (result.ok) {
+      r.sent = true;
+      await job.save();
+      Outreach.create({
+        designerId: job.designerId,
+        clientId: r.clientId,
+        type: "sms",
+        message: personal.slice(0, 280),
+      }).catch(() => { /* non-fatal */ });
+    } else {
+      errorList.push({
+        clientId: r.clientId,
+        error: result.error || "Send failed",
+      });
+    }
+  }
+
+  const sent = job.recipients.filter((r) => r.sent).length;
+  const failed = job.recipientCount - sent;
+  if (failed > 0) {
+    await Designer.updateOne(
+      { _id: job.designerId },
+      { $inc: { smsBalance: failed } },
+    );
+  }
+
+  job.sentCount = sent;
+  job.failedCount = failed;
+  job.errorList = errorList;
+  job.status = "complete";
+  job.completedAt = new Date();
+  await job.save();
+
+  await Notification.create({
+    designerId: job.designerId,
+    type: "system",
+    title: `✅ Broadcast sent — ${sent} of ${job.recipientCount}`,
+    message:
+      failed > 0
+        ? `${sent} SMS delivered, ${failed} failed (credits refunded).`
+        : `${sent} SMS delivered. View details in broadcast history.`,
+    link: "/broadcast/history",
+  }).catch(() => { /* non-fatal */ });
+
+  return { channel: "sms", sent, failed };
+};
+
+/* -------------------------------------------------------------------------- */
+/*  orders.due_reminders                                                        */
+/* -------------------------------------------------------------------------- */
+
+const dueReminders: JobHandler = async () => {
+  const now = new Date();
+  const today = startOfUtcDay(now);
+  const orders = await Order.find({
+    status: { $nin: ["delivered", "cancelled"] },
+    dueDate: { $gte: today, $lte: new Date(today.getTime() + 3 * DAY_MS) },
+    isDeleted: { $ne: true },
+  })
+    .select("designerId title dueDate status")
+    .lean();
+
+  let created = 0;
+  for (const order of orders) {
+    const daysLeft = Math.ceil((new Date(order.dueDate as Date).getTime() - now.getTime()) / DAY_MS);
+    const inDays = `${daysLeft} day${daysLeft !== 1 ? "s" : ""}`;
+    const isNew = await notifyOnceToday({
+      designerId: order.designerId,
+      type: "deadline_approaching",
+      title: daysLeft <= 0 ? "Deadline Today!" : `Due in ${inDays}`,
+      message: `"${order.title}" is ${daysLeft <= 0 ? "due today" : `due in ${inDays}`}. Current status: ${order.status}.`,
+      link: `/orders/${order._id}`,
+    });
+    if (isNew) created++;
+  }
+  return { orders: orders.length, notifications: created };
+};
+
+/* -------------------------------------------------------------------------- */
+/*  payments.chase                                                              */
+/* -------------------------------------------------------------------------- */
+
+/** Delivered orders that still have a balance, at most 5 per designer. */
+const paymentsChase: JobHandler = async () => {
+  const orders = await Order.find({
+    status: "delivered",
+    paymentStatus: { $in: ["unpaid", "partial"] },
+    isDeleted: { $ne: true },
+  })
+    .select("designerId title price depositPaid")
+    .sort({ updatedAt: 1 })
+    .lean();
+
+  const perDesigner = new Map<string, number>();
+  let created = 0;
+  for (const order of orders) {
+    const owed = (order.price || 0) - (order.depositPaid || 0);
+    const key = String(order.designerId);
+    if (owed <= 0 || (perDesigner.get(key) ?? 0) >= 5) continue;
+    perDesigner.set(key, (perDesigner.get(key) ?? 0) + 1);
+
+    const isNew = await notifyOnceToday({
+      designerId: order.designerId,
+      type: "overdue_payment",
+      title: "Payment Outstanding",
+      message: `"${order.title}" has ₦${owed.toLocaleString()} outstanding. Follow up to collect.`,
+      link: `/orders/${order._id}`,
+    });
+    if (isNew) created++;
+  }
+
+  const optedIn = await Designer.find({ "autoChase.enabled": true }).select("_id autoChase").lean();
+  let autoChaseQueued = 0;
+  for (const d of optedIn) {
+    const { created: queued } = await enqueueAutoChaseJob(String(d._id), resolveAutoChase(d.autoChase).quietHours);
+    if (queued) autoChaseQueued++;
+  }
+
+  return { designers: perDesigner.size, notifications: created, autoChaseQueued };
+};
+
+/* -------------------------------------------------------------------------- */
+/*  payments.auto_chase                                                         */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Payload: { designerId }. If the designer's quiet hours have started
+ * since the job was queued (or they changed them), push it to when they
+ * end rather than texting clients at night.
+ */
+const paymentsAutoChase: JobHandler = async (payload, job) => {
+  const designerId = String(payload.designerId);
+  const designer = await Designer.findById(designerId).select("autoChase").lean();
+  if (!designer) return { skipped: "designer not found" };
+
+  const settings = resolveAutoChase(designer.autoChase);
+  const now = new Date();
+  if (settings.enabled && isQuietHour(now, settings.quietHours)) {
+    const runAt = nextSendTime(now, settings.quietHours);
+    await enqueueJob({
+      type: "payments.auto_chase",
+      payload: { designerId },
+      runAt,
+      designerId,
+      idempotencyKey: `${job.idempotencyKey}:deferred`,
+      maxAttempts: 3,
+    });
+    return { deferredTo: runAt.toISOString() };
+  }
+
+  return { ...(await runAutoChase(designerId, now)) };
+};
+
+/* -------------------------------------------------------------------------- */
+/*  subscriptions.expiry                                                        */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Renewal reminders SUBSCRIPTION_BILLING.reminderDays before a paid plan
+ * expires (worded for auto-renew vs pay-yourself), a daily "payment
+ * overdue" nudge through the grace period, and a notice once it has
+ * lapsed. Plan resolution itself stays read-time (getEffectivePlan).
+ */
+const subscriptionsExpiry: JobHandler = async () => {
+  const now = new Date();
+  const graceMs = SUBSCRIPTION_BILLING.graceDays * DAY_MS;
+  const maxReminder = Math.max(...SUBSCRIPTION_BILLING.reminderDays);
+  const designers = await Designer.find({
+    subscription: { $in: ["plus", "pro"] },
+    subscriptionExpiry: {
+      $gte: new Date(now.getTime() - graceMs - DAY_MS),
+      $lte: new Date(now.getTime() + maxReminder * DAY_MS),
+    },
+  })
+    .select("subscription subscriptionExpiry subscriptionBilling")
+    .lean();
+
+  let reminded = 0;
+  let overdue = 0;
+  let expired = 0;
+  for (const d of designers) {
+    const plan = d.subscription === "pro" ? "Pro" : "Plus";
+    const exp = new Date(d.subscriptionExpiry as Date);
+    const billing = d.subscriptionBilling as { autoRenew?: boolean; status?: string } | undefined;
+    const autoRenew = !!billing?.autoRenew && billing.status !== "cancelled";
+    const designerId = d._id as mongoose.Types.ObjectId;
+    const day = (date: Date) => date.toLocaleDateString("en-NG", { day: "numeric", month: "short" });
+
+    if (exp > now) {
+      const days = daysUntilSubscriptionExpiry(d);
+      if (!(SUBSCRIPTION_BILLING.reminderDays as readonly number[]).includes(days)) continue;
+      if (await notifyOnceToday({
+        designerId,
+        type: "system",
+        title: autoRenew
+          ? `${plan} plan renews in ${days} day${days !== 1 ? "s" : ""}`
+          : `${plan} plan expires in ${days} day${days !== 1 ? "s" : ""}`,
+        message: autoRenew
+          ? `We'll charge your saved card on ${day(exp)}. Make sure it has funds, or turn off auto-renew in Billing.`
+          : `Renew before ${day(exp)} to keep your ${plan} features.`,
+        link: "/billing",
+      })) reminded++;
+      continue;
+    }
+
+    const graceEnds = new Date(exp.getTime() + graceMs);
+    if (graceEnds > now) {
+      const left = Math.ceil((graceEnds.getTime() - now.getTime()) / DAY_MS);
+      if (await notifyOnceToday({
+        designerId,
+        type: "system",
+        title: `${plan} renewal overdue — ${left} day${left !== 1 ? "s" : ""} left`,
+        message: billing?.status === "past_due"
+          ? `Your card was declined. Update it or pay by bank transfer before ${day(graceEnds)} to keep ${plan}.`
+          : `Your ${plan} plan ended ${day(exp)}. Renew before ${day(graceEnds)} to keep your ${plan} features.`,
+        link: "/billing",
+      })) overdue++;
+    } else if (await notifyOnceToday({
+      designerId,
+      type: "system",
+      title: `Your ${plan} plan has expired`,
+      message: `You're now on the Free plan. Renew to get your ${plan} limits back.`,
+      link: "/billing",
+    })) expired++;
+  }
+  return { reminded, overdue, expired };
+};
+
+/* -------------------------------------------------------------------------- */
+/*  email.send / emails.overdue                                                 */
+/* -------------------------------------------------------------------------- */
+
+/** Payload: { outboxId }. Throws on SMTP failure so the queue retries. */
+const emailSend: JobHandler = (payload, job) =>
+  deliverOutboxEmail(String(payload.outboxId), job.attempts >= job.maxAttempts);
+
+const emailsOverdue: JobHandler = () => queueOverdueEmails();
+
+/* -------------------------------------------------------------------------- */
+/*  Registry + recurring schedule                                               */
+/* -------------------------------------------------------------------------- */
+
+export const JOB_HANDLERS: Record<string, JobHandler> = {
+  "broadcast.send": broadcastSend,
+  "orders.due_reminders": dueReminders,
+  "payments.chase": paymentsChase,
+  "payments.auto_chase": paymentsAutoChase,
+  "subscriptions.expiry": subscriptionsExpiry,
+  "email.send": emailSend,
+  "emails.overdue": emailsOverdue,
+};
+
+const DAILY_JOBS = ["orders.due_reminders", "payments.chase", "subscriptions.expiry", "emails.overdue"];
+
+/**
+ * Enqueue today's daily sweeps (idempotent per UTC day) and any due
+ * scheduled broadcast that has no job yet — e.g. ones created before the
+ * queue existed. Called by every tick; cheap when there's nothing to add.
+ */
+export async function scheduleRecurringJobs(now = new Date()): Promise<number> {
+  let enqueued = 0;
+  const day = startOfUtcDay(now);
+  const dayKey = day.toISOString().slice(0, 10);
+  const runAt = new Date(day.getTime() + DAILY_RUN_HOUR_UTC * 60 * 60 * 1000);
+
+  for (const type of DAILY_JOBS) {
+    const { created } = await enqueueJob({ type, runAt, idempotencyKey: `${type}:${dayKey}`, maxAttempts: 3 });
+    if (created) enqueued++;
+  }
+
+  const dueBroadcasts = await BroadcastJob.find({
+    status: "pending",
+    scheduledFor: { $ne: null, $lte: now },
+  })
+    .select("_id designerId scheduledFor")
+    .limit(100)
+    .lean();
+  for (const b of dueBroadcasts) {
+    const { created } = await enqueueBroadcastJob(String(b._id), String(b.designerId), b.scheduledFor as Date);
+    if (created) enqueued++;
+  }
+
+  return enqueued;
+}
+
+/** broadcast.send:ID → broadcast.send:ID#1 → #2… for a cloud broadcast's next batch */
+function nextBatchKey(key: string): string {
+  const match = key.match(/^(.*)#(\d+)$/);
+  return match ? `${match[1]}#${Number(match[2]) + 1}` : `${key}#1`;
+}
+
+/** Queue the send for a scheduled broadcast. Safe to call more than once. */
+export function enqueueBroadcastJob(broadcastJobId: string, designerId: string, runAt: Date) {
+  return enqueueJob({
+    type: "broadcast.send",
+    payload: { broadcastJobId },
+    runAt,
+    designerId,
+    idempotencyKey: `broadcast.send:${broadcastJobId}`,
+  });
+}
+
+/**
+ * Queue today's automatic chase for a designer, timed for the end of their
+ * quiet hours if it's currently quiet. At most one per designer per day.
+ */
+export function enqueueAutoChaseJob(designerId: string, quietHours: { start: number; end: number }, now = new Date()) {
+  const dayKey = startOfUtcDay(now).toISOString().slice(0, 10);
+  return enqueueJob({
+    type: "payments.auto_chase",
+    payload: { designerId },
+    runAt: nextSendTime(now, quietHours),
+    designerId,
+    idempotencyKey: `payments.auto_chase:${designerId}:${dayKey}`,
+    maxAttempts: 3,
+  });
+}
@@ -0,0 +1,182 @@
+/* -------------------------------------------------------------------------- */
+/*  Job queue                                                                   */
+/*                                                                              */
+/*  Mongo-backed background jobs, drained by /api/cron/tick.                   */
+/*                                                                              */
+/*    enqueueJob()  — add work; an idempotencyKey makes repeats a no-op        */
+/*    runDueJobs()  — claim due jobs one at a time (atomic findOneAndUpdate   */
+/*                    lock, so overlapping ticks never run the same job),     */
+/*                    run the handler, then complete / back off / dead-letter */
+/*                                                                              */
+/*  Handlers must be safe to re-run: a job whose worker dies mid-way is       */
+/*  reclaimed once its lock expires and runs again from the start.            */
+/* -------------------------------------------------------------------------- */
+
+import crypto from "crypto";
+import { Job, type IJob } from "@/lib/models/job";
+
+export type JobHandler = (
+  payload: Record<string, unknown>,
+  job: IJob,
+) => Promise<Record<string, unknown> | void>;
+
+export interface EnqueueJobInput {
+  type: string;
+  payload?: Record<string, unknown>;
+  runAt?: Date;
+  idempotencyKey?: string;
+  designerId?: string;
+  maxAttempts?: number;
+}
+
+export interface TickSummary {
+  claimed: number;
+  completed: number;
+  retried: number;
+  dead: number;
+  errors: { jobId: string; type: string; error: string }[];
+}
+
+/** How long a claimed job may run before another tick may reclaim it. */
+const LOCK_MS = 5 * 60_000;
+const BACKOFF_BASE_MS = 60_000;
+const BACKOFF_MAX_MS = 6 * 60 * 60_000;
+
+/**
+ * Delay before attempt `attempts + 1`: 1m, 2m, 4m … capped at 6h, with up
+ * to 20% jitter so a burst of failures doesn't retry in lockstep.
+ */
+export function backoffMs(attempts: number): number {
+  const base = Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_MS);
+  return Math.round(base * (1 + Math.random() * 0.2));
+}
+
+/**
+ * Add a job. With an idempotencyKey, enqueueing again returns the existing
+ * job instead of creating a second one.
+ */
+export async function enqueueJob(input: EnqueueJobInput): Promise<{ jobId: string; created: boolean }> {
+  const fields = {
+    type: input.type,
+    payload: input.payload ?? {},
+    status: "pending" as const,
+    runAt: input.runAt ?? new Date(),
+    attempts: 0,
+    maxAttempts: input.maxAttempts ?? 5,
+    ...(input.designerId ? { designerId: input.designerId } : {}),
+  };
+
+  if (!input.idempotencyKey) {
+    const job = await Job.create(fields);
+    return { jobId: String(job._id), created: true };
+  }
+
+  try {
+    const res = await Job.updateOne(
+      { idempotencyKey: input.idempotencyKey },
+      { $setOnInsert: { ...fields, idempotencyKey: input.idempotencyKey } },
+      { upsert: true },
+    );
+    if (res.upsertedId) return { jobId: String(res.upsertedId), created: true };
+  } catch (err) {
+    // Concurrent upsert of the same key — the other caller created it.
+    if ((err as { code?: number }).code !== 11000) throw err;
+  }
+  const existing = await Job.findOne({ idempotencyKey: input.idempotencyKey }).select("_id").lean();
+  return { jobId: String(existing?._id), created: false };
+}
+
+async function claimNextJob(workerId: string, types: string[]): Promise<IJob | null> {
+  const now = new Date();
+  return Job.findOneAndUpdate(
+    {
+      type: { $in: types },
+      $or: [
+        { status: "pending", runAt: { $lte: now } },
+        { status: "running", lockedUntil: { $lt: now } },
+      ],
+    },
+    {
+      $set: { status: "running", lockedBy: workerId, lockedUntil: new Date(now.getTime() + LOCK_MS) },
+      $inc: { attempts: 1 },
+    },
+    { sort: { runAt: 1 }, new: true },
+  );
+}
+
+/**
+ * Drain due jobs until `maxJobs` have been claimed or `timeBudgetMs` has
+ * elapsed. Job types without a handler are left untouched.
+ */
+export async function runDueJobs(
+  handlers: Record<string, JobHandler>,
+  { maxJobs = 25, timeBudgetMs = 45_000 }: { maxJobs?: number; timeBudgetMs?: number } = {},
+): Promise<TickSummary> {
+  const workerId = crypto.randomUUID();
+  const startedAt = Date.now();
+  const types = Object.keys(handlers);
+  const summary: TickSummary = { claimed: 0, completed: 0, retried: 0, dead: 0, errors: [] };
+
+  while (summary.claimed < maxJobs && Date.now() - startedAt < timeBudgetMs) {
+    const job = await claimNextJob(workerId, types);
+    if (!job) break;
+    summary.claimed++;
+
+    // Reclaimed after its worker died on the final attempt — don't run again.
+    if (job.attempts > job.maxAttempts) {
+      await Job.updateOne(
+        { _id: job._id, lockedBy: workerId },
+        {
+          $set: { status: "dead", lastError: job.lastError || "Worker lock expired on final attempt" },
+          $unset: { lockedBy: 1, lockedUntil: 1 },
+        },
+      );
+      summary.dead++;
+      continue;
+    }
+
+    try {
+      const result = await handlers[job.type](job.payload || {}, job);
+      await Job.updateOne(
+        { _id: job._id, lockedBy: workerId },
+        {
+          $set: { status: "completed", completedAt: new Date(), result: result ?? {} },
+          $unset: { lockedBy: 1, lockedUntil: 1, lastError: 1 },
+        },
+      );
+      summary.completed++;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      const isDead = job.attempts >= job.maxAttempts;
+      await Job.updateOne(
+        { _id: job._id, lockedBy: workerId },
+        {
+          $set: {
+            status: isDead ? "dead" : "pending",
+            runAt: new Date(Date.now() + (isDead ? 0 : backoffMs(job.attempts))),
+            lastError: message.slice(0, 2000),
+          },
+          $unset: { lockedBy: 1, lockedUntil: 1 },
+        },
+      );
+      if (isDead) summary.dead++;
+      else summary.retried++;
+      summary.errors.push({ jobId: String(job._id), type: job.type, error: message });
+      console.error(`Job ${job.type} ${job._id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, err);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Move a dead-lettered job back to pending with a fresh attempt budget.
+ * Returns false if the job isn't dead (already retried, or never failed).
+ */
+export async function retryDeadJob(jobId: string): Promise<boolean> {
+  const res = await Job.updateOne(
+    { _id: jobId, status: "dead" },
+    { $set: { status: "pending", runAt: new Date(), attempts: 0 } },
+  );
+  return res.modifiedCount > 0;
+}
@@ -0,0 +1,323 @@
+/* -------------------------------------------------------------------------- */
+/*  Marker making                                                              */
+/*  Nests pattern pieces onto a fabric width to find the shortest length to  */
+/*  buy — the flat waste factors in fabric-calculator and the row stacking   */
+/*  in pattern-panels over-buy badly on lace and aso-oke.                      */
+/*                                                                              */
+/*  Pieces are the drafted cutting lines where the garment has a block        */
+/*  (pattern-drafting), otherwise the pattern-panels rectangles. They're      */
+/*  rasterised at 1/4" and dropped one at a time against a skyline, so      */
+/*  shaped edges interlock (trouser fronts top-to-tail etc.):                  */
+/*    • grain — pieces only ever turn 180°, grain stays along the selvedge    */
+/*    • one-way nap/print — no turning at all, every piece points one way    */
+/*    • folded layout — fabric doubled lengthways, "on fold" pieces sit on   */
+/*      the fold, every other placement cuts a mirrored pair                  */
+/*    • open layout — single layer, fold pieces opened out, pairs are cut    */
+/*      as a left and a right                                                  */
+/*  Several orders cut from the same bolt are just more pieces in one run.   */
+/*  Pure module — safe to import from client components.                      */
+/* -------------------------------------------------------------------------- */
+
+import type { FitType } from "./ease-allowance";
+import { cuttingLine, draftPattern, supportsDrafting, type Point } from "./pattern-drafting";
+import { generatePatternPlan } from "./pattern-panels";
+
+export type MarkerLayoutMode = "folded" | "open";
+
+export interface MarkerPieceInput {
+  label: string;
+  /** Order/garment the piece belongs to — drives colour in the diagram */
+  group: string;
+  quantity: number;
+  onFold: boolean;
+  /** Cutting line, inches — grain along +y, fold edge (if any) on x = 0 */
+  polygon: Point[];
+}
+
+export interface MarkerOptions {
+  fabricWidthIn: number;
+  /** One-way nap or directional print */
+  nap: boolean;
+  layout: MarkerLayoutMode;
+}
+
+export interface MarkerPlacement {
+  label: string;
+  group: string;
+  /** Outline on the marker, inches: x along the length, y across the width */
+  points: Point[];
+}
+
+export interface MarkerLayout extends MarkerOptions {
+  /** Width pieces are laid across (half the fabric when folded, less selvedges) */
+  usableWidthIn: number;
+  lengthIn: number;
+  yards: number;
+  /** Share of the marker area covered by pieces */
+  efficiency: number;
+  groups: string[];
+  placements: MarkerPlacement[];
+  /** Pieces wider than the usable width */
+  unplaced: string[];
+}
+
+/** Cells per inch */
+const RES = 4;
+/** Lost at each selvedge */
+const SELVEDGE_IN = 0.5;
+
+/* -------------------------------------------------------------------------- */
+/*  Pieces from an order line                                                  */
+/* -------------------------------------------------------------------------- */
+
+export function markerPiecesFor(
+  measurements: Record<string, number>,
+  garmentType: string,
+  fit: FitType,
+  quantity: number,
+  group: string
+): MarkerPieceInput[] {
+  const drafted = supportsDrafting(garmentType) ? draftPattern(measurements, garmentType, fit) : null;
+  if (drafted && drafted.pieces.length > 0) {
+    return drafted.pieces.map((p) => {
+      const [g1, g2] = p.grainline;
+      const crossways = Math.abs(g2.x - g1.x) > Math.abs(g2.y - g1.y);
+      const polygon = cuttingLine(p);
+      return {
+        label: p.name,
+        group,
+        quantity: p.quantity * quantity,
+        onFold: !!p.onFold,
+        // Waistbands are drafted lying down — stand them on their grain line
+        polygon: crossways ? polygon.map((pt) => ({ x: -pt.y, y: pt.x })) : polygon,
+      };
+    });
+  }
+  const plan = generatePatternPlan(measurements, garmentType, fit);
+  return (plan?.panels || []).map((p) => ({
+    label: p.name,
+    group,
+    quantity: p.quantity * quantity,
+    onFold: !!p.onFold,
+    polygon: [{ x: 0, y: 0 }, { x: p.width, y: 0 }, { x: p.width, y: p.length }, { x: 0, y: p.length }],
+  }));
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Rasterising                                                                 */
+/* -------------------------------------------------------------------------- */
+
+interface Shape {
+  /** Outline normalised to start at (0, 0), marker coordinates */
+  points: Point[];
+  /** Per width-row [start, end) cells along the length, null for empty rows */
+  spans: ([number, number] | null)[];
+  end: number;
+  area: number;
+}
+
+function polygonArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+}
+
+function rasterise(points: Point[]): Shape {
+  const minX = Math.min(...points.map((p) => p.x));
+  const minY = Math.min(...points.map((p) => p.y));
+  const norm = points.map((p) => ({ x: p.x - minX, y: p.y - minY }));
+  const rows = Math.ceil(Math.max(...norm.map((p) => p.y)) * RES - 1e-6);
+  const spans: ([number, number] | null)[] = [];
+  let end = 0;
+
+  for (let r = 0; r < rows; r++) {
+    const y0 = r / RES;
+    const y1 = (r + 1) / RES;
+    let lo = Infinity;
+    let hi = -Infinity;
+    for (let i = 0; i < norm.length; i++) {
+      const a = norm[i];
+      const b = norm[(i + 1) % norm.length];
+      // Part of the edge inside this band
+      const top = Math.max(Math.min(a.y, b.y), y0);
+      const bottom = Math.min(Math.max(a.y, b.y), y1);
+      if (top > bottom) continue;
+      const xAt = (y: number) => (a.y === b.y ? a.x : a.x + ((y - a.y) / (b.y - a.y)) * (b.x - a.x));
+      const xs = a.y === b.y ? [a.x, b.x] : [xAt(top), xAt(bottom)];
+      lo = Math.min(lo, ...xs);
+      hi = Math.max(hi, ...xs);
+    }
+    if (lo === Infinity) {
+      spans.push(null);
+      continue;
+    }
+    const span: [number, number] = [Math.floor(lo * RES), Math.ceil(hi * RES)];
+    spans.push(span);
+    end = Math.max(end, span[1]);
+  }
+
+  return { points: norm, spans, end, area: polygonArea(norm) };
+}
+
+/**
+ * Piece coordinates → marker: the grain (piece y) runs along the length.
+ * `turn` is the 180° rotation, `flip` turns the piece over.
+ */
+function orient(polygon: Point[], turn: boolean, flip: boolean): Point[] {
+  return polygon.map((p) => ({ x: turn ? -p.y : p.y, y: flip !== turn ? -p.x : p.x }));
+}
+
+/** Fold piece opened out about its fold edge (the edge lying on x = 0) */
+function unfold(polygon: Point[]): Point[] {
+  const onFold = (p: Point) => Math.abs(p.x) < 0.01;
+  const n = polygon.length;
+  const foldAt = polygon.findIndex((p, i) => onFold(p) && onFold(polygon[(i + 1) % n]));
+  if (foldAt === -1) return polygon;
+  // Walk from the fold's far end round the outside, then back along the mirror
+  const half = [...polygon.slice(foldAt + 1), ...polygon.slice(0, foldAt + 1)];
+  return [...half, ...half.map((p) => ({ x: -p.x, y: p.y })).reverse()];
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Nesting                                                                     */
+/* -------------------------------------------------------------------------- */
+
+interface Placement {
+  label: string;
+  group: string;
+  /** Candidate shapes (orientations) this placement may use */
+  options: Shape[];
+  /** Fold pieces in a folded layout must sit on the fold row */
+  onFoldRow: boolean;
+}
+
+function expand(pieces: MarkerPieceInput[], opts: MarkerOptions): Placement[] {
+  const turns = opts.nap ? [false] : [false, true];
+  const result: Placement[] = [];
+
+  for (const piece of pieces) {
+    if (opts.layout === "folded") {
+      // One placement per cut on the fold; elsewhere each placement is a pair
+      const count = piece.onFold ? piece.quantity : Math.ceil(piece.quantity / 2);
+      const options = piece.onFold
+        ? turns.map((turn) => rasterise(orient(piece.polygon, turn, turn)))
+        : turns.flatMap((turn) => [false, true].map((flip) => rasterise(orient(piece.polygon, turn, flip))));
+      for (let i = 0; i < count; i++) {
+        result.push({ label: piece.label, group: piece.group, options, onFoldRow: piece.onFold });
+      }
+      continue;
+    }
+
+    if (piece.onFold) {
+      const options = turns.map((turn) => rasterise(orient(unfold(piece.polygon), turn, false)));
+      for (let i = 0; i < piece.quantity; i++) {
+        result.push({ label: piece.label, group: piece.group, options, onFoldRow: false });
+      }
+      continue;
+    }
+
+    // Single layer: alternate copies are turned over so pairs come out left + right
+    for (let i = 0; i < piece.quantity; i++) {
+      const flipped = i % 2 === 1;
+      const options = turns.map((turn) => rasterise(orient(piece.polygon, turn, flipped)));
+      result.push({ label: piece.label, group: piece.group, options, onFoldRow: false });
+    }
+  }
+  return result;
+}
+
+interface Nest {
+  length: number;
+  placements: MarkerPlacement[];
+  unplaced: string[];
+  area: number;
+}
+
+function nest(order: Placement[], widthCells: number): Nest {
+  const profile = new Array<number>(widthCells).fill(0);
+  const placements: MarkerPlacement[] = [];
+  const unplaced: string[] = [];
+  let area = 0;
+
+  for (const item of order) {
+    let best: { shape: Shape; x: number; y: number; score: number } | null = null;
+
+    for (const shape of item.options) {
+      const height = shape.spans.length;
+      if (height > widthCells) continue;
+      const lastRow = item.onFoldRow ? 0 : widthCells - height;
+      for (let y = 0; y <= lastRow; y++) {
+        let x = 0;
+        for (let r = 0; r < height; r++) {
+          const span = shape.spans[r];
+          if (span) x = Math.max(x, profile[y + r] - span[0]);
+        }
+        const score = x + shape.end;
+        if (!best || score < best.score || (score === best.score && x < best.x)) {
+          best = { shape, x, y, score };
+        }
+      }
+    }
+
+    if (!best) {
+      unplaced.push(`${item.group}: ${item.label}`);
+      continue;
+    }
+    best.shape.spans.forEach((span, r) => {
+      if (span) profile[best.y + r] = Math.max(profile[best.y + r], best.x + span[1]);
+    });
+    placements.push({
+      label: item.label,
+      group: item.group,
+      points: best.shape.points.map((p) => ({ x: p.x + best.x / RES, y: p.y + best.y / RES })),
+    });
+    area += best.shape.area;
+  }
+
+  return { length: Math.max(0, ...profile) / RES, placements, unplaced, area };
+}
+
+/* Orders tried — the shortest wins */
+const ORDERINGS: ((a: Placement, b: Placement) => number)[] = [
+  (a, b) => b.options[0].area - a.options[0].area,
+  (a, b) => b.options[0].end - a.options[0].end,
+  (a, b) => b.options[0].spans.length - a.options[0].spans.length,
+  (a, b) => Number(b.onFoldRow) - Number(a.onFoldRow) || b.options[0].area - a.options[0].area,
+];
+
+export function layoutMarker(pieces: MarkerPieceInput[], opts: MarkerOptions): MarkerLayout {
+  const usableWidthIn = opts.layout === "folded"
+    ? opts.fabricWidthIn / 2 - SELVEDGE_IN
+    : opts.fabricWidthIn - SELVEDGE_IN * 2;
+  const widthCells = Math.floor(usableWidthIn * RES);
+  const placements = expand(pieces, opts);
+
+  let best: Nest | null = null;
+  for (const compare of ORDERINGS) {
+    const result = nest([...placements].sort(compare), widthCells);
+    if (
+      !best ||
+      result.unplaced.length < best.unplaced.length ||
+      (result.unplaced.length === best.unplaced.length && result.length < best.length)
+    ) {
+      best = result;
+    }
+  }
+  const nested = best as Nest;
+
+  return {
+    ...opts,
+    usableWidthIn,
+    lengthIn: nested.length,
+    // Bought by the 1/8 yard
+    yards: Math.ceil((nested.length / 36) * 8) / 8,
+    efficiency: nested.length > 0 ? Math.round((nested.area / (nested.length * usableWidthIn)) * 100) / 100 : 0,
+    groups: [...new Set(pieces.map((p) => p.group))],
+    placements: nested.placements,
+    unplaced: nested.unplaced,
+  };
+}
@@ -0,0 +1,142 @@
+/* -------------------------------------------------------------------------- */
+/*  Measurement History — timelines, diffs and change alerts (inches)          */
+/*                                                                              */
+/*  A client's measurements live in two places: `measurements` (current) and  */
+/*  `measurementHistory`. Manual saves push the *previous* current into        */
+/*  history while scans push the *new* one, so history may or may not already  */
+/*  contain the current snapshot. buildTimeline merges both and de-duplicates  */
+/*  by measuredAt so callers never have to care.                                */
+/*  Pure module — safe to import from client components.                      */
+/* -------------------------------------------------------------------------- */
+
+import { MEASUREMENT_TYPES } from "./constants";
+import { inToCm } from "./units";
+
+export interface MeasurementSnapshot {
+  /** ISO measuredAt — doubles as the snapshot id in URLs */
+  id: string;
+  measuredAt: string;
+  source: "manual" | "ai_scan";
+  values: Record<string, number>;
+}
+
+export interface MeasurementChange {
+  key: string;
+  label: string;
+  group: string;
+  from?: number;
+  to?: number;
+  /** to − from, inches (undefined when the field is missing on one side) */
+  deltaIn?: number;
+  deltaCm?: number;
+  /** At or over the alert threshold for the field's group */
+  significant: boolean;
+}
+
+/**
+ * Smallest change (inches) worth flagging before cutting. Circumferences
+ * drift more between fittings than lengths, so lengths alert sooner.
+ */
+export const CHANGE_ALERT_THRESHOLDS: Record<string, number> = {
+  circumference: 1,
+  length: 0.75,
+  "point-to-point": 0.5,
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function toSnapshot(raw: unknown): MeasurementSnapshot | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const at = r.measuredAt ? new Date(r.measuredAt as string | Date) : null;
+  if (!at || isNaN(at.getTime())) return null;
+
+  const values: Record<string, number> = {};
+  for (const t of MEASUREMENT_TYPES) {
+    const v = r[t.key];
+    if (typeof v === "number" && isFinite(v) && v > 0) values[t.key] = v;
+  }
+  if (Object.keys(values).length === 0) return null;
+
+  return {
+    id: at.toISOString(),
+    measuredAt: at.toISOString(),
+    source: r.source === "ai_scan" ? "ai_scan" : "manual",
+    values,
+  };
+}
+
+/** Every distinct snapshot for a client, oldest first. */
+export function buildTimeline(current: unknown, history: unknown[] = []): MeasurementSnapshot[] {
+  const byId = new Map<string, MeasurementSnapshot>();
+  for (const raw of [...history, current]) {
+    const snap = toSnapshot(raw);
+    // Later entries win — the current record carries review adjustments
+    if (snap) byId.set(snap.id, snap);
+  }
+  return [...byId.values()].sort((a, b) => a.measuredAt.localeCompare(b.measuredAt));
+}
+
+/** The snapshot that was current at `date` (the last one taken on or before it). */
+export function snapshotAt(timeline: MeasurementSnapshot[], date: Date | string): MeasurementSnapshot | null {
+  const at = new Date(date).toISOString();
+  let found: MeasurementSnapshot | null = null;
+  for (const snap of timeline) {
+    if (snap.measuredAt <= at) found = snap;
+    else break;
+  }
+  return found;
+}
+
+/** Per-field differences between two sets of values, in measurement-type order. */
+export function diffMeasurements(
+  from: Record<string, number>,
+  to: Record<string, number>,
+): MeasurementChange[] {
+  const changes: MeasurementChange[] = [];
+  for (const t of MEASUREMENT_TYPES) {
+    const a = from[t.key];
+    const b = to[t.key];
+    if (a === undefined && b === undefined) continue;
+    const deltaIn = a !== undefined && b !== undefined ? round2(b - a) : undefined;
+    changes.push({
+      key: t.key,
+      label: t.label,
+      group: t.group,
+      from: a,
+      to: b,
+      deltaIn,
+      deltaCm: deltaIn !== undefined ? round2(inToCm(deltaIn)) : undefined,
+      significant:
+        deltaIn !== undefined && Math.abs(deltaIn) >= (CHANGE_ALERT_THRESHOLDS[t.group] ?? 1),
+    });
+  }
+  return changes;
+}
+
+/** Chart rows: one per snapshot, one column per requested field. */
+export function trendSeries(
+  timeline: MeasurementSnapshot[],
+  keys: string[],
+): Array<{ date: string } & Record<string, number | string | undefined>> {
+  return timeline.map((snap) => {
+    const row: { date: string } & Record<string, number | string | undefined> = { date: snap.measuredAt };
+    for (const k of keys) row[k] = snap.values[k];
+    return row;
+  });
+}
+
+/** Signed inches for alerts: +2.5in / −0.75in */
+export function formatDeltaIn(deltaIn: number): string {
+  return `${deltaIn > 0 ? "+" : "−"}${Math.abs(deltaIn)}in`;
+}
+
+/** "Waist +2.5in since March" (the year is added once it isn't this year's) */
+export function describeChange(change: MeasurementChange, since: Date | string): string {
+  const d = new Date(since);
+  const when = d.toLocaleDateString("en-NG", {
+    month: "long",
+    ...(d.getFullYear() !== new Date().getFullYear() ? { year: "numeric" } : {}),
+  });
+  return `${change.label} ${formatDeltaIn(change.deltaIn ?? 0)} since ${when}`;
+}
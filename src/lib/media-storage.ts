@@ -0,0 +1,416 @@
+/* -------------------------------------------------------------------------- */
+/*  Media storage                                                               */
+/*                                                                              */
+/*  Gallery, fabric and payment-proof images live in object storage, not in  */
+/*  MongoDB. Documents only hold a short, stable path — `/media/<key>` —     */
+/*  which the /media route resolves at request time:                          */
+/*                                                                              */
+/*    local  → bytes streamed from MEDIA_LOCAL_DIR (default ./.media)          */
+/*    s3     → 302 to a short-lived SigV4 presigned URL (AWS, R2, MinIO…)     */
+/*                                                                              */
+/*  Keys under `private/` (payment proofs) are only served with a signed      */
+/*  `?exp=&sig=` query — see signedMediaUrl(). Every upload is normalised     */
+/*  with sharp (EXIF-rotated, max 1600px, WebP) and gets a 400px thumbnail   */
+/*  at `<key>.thumb.webp`.                                                      */
+/* -------------------------------------------------------------------------- */
+
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import sharp from "sharp";
+import { nanoid } from "nanoid";
+
+export const MEDIA_PREFIX = "/media/";
+
+const FULL_SIZE_PX = 1600;
+const THUMB_SIZE_PX = 400;
+const DEFAULT_SIGNED_TTL_SECONDS = 10 * 60;
+
+const MEDIA_SIGNING_SECRET =
+  process.env.MEDIA_SIGNING_SECRET ||
+  process.env.NEXTAUTH_SECRET ||
+  "stitcha-media-secret-key";
+
+const SAFE_KEY = /^[a-z0-9][a-z0-9/_.-]*$/i;
+
+export type MediaFolder = "gallery" | "fabric" | "payment-proofs";
+export type MediaVisibility = "public" | "private";
+
+export interface MediaObject {
+  body: Buffer;
+  contentType: string;
+}
+
+interface MediaDriver {
+  name: "local" | "s3";
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<MediaObject | null>;
+  remove(key: string): Promise<void>;
+  /** Time-limited direct URL, or null when the app streams the bytes itself. */
+  presign(key: string, expiresInSeconds: number): string | null;
+}
+
+export interface StoredImage {
+  key: string;
+  /** Stable path to persist on the document. */
+  url: string;
+  thumbUrl: string;
+  width?: number;
+  height?: number;
+  bytes: number;
+}
+
+/** Thrown when the uploaded bytes are not a decodable image. */
+export class InvalidImageError extends Error {
+  constructor(message = "Invalid image data") {
+    super(message);
+    this.name = "InvalidImageError";
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Local-disk driver                                                           */
+/* -------------------------------------------------------------------------- */
+
+function localDriver(): MediaDriver {
+  const root = path.resolve(process.env.MEDIA_LOCAL_DIR || path.join(process.cwd(), ".media"));
+  const fileFor = (key: string) => path.join(root, ...key.split("/"));
+
+  return {
+    name: "local",
+    async put(key, body) {
+      const file = fileFor(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, body);
+    },
+    async get(key) {
+      try {
+        const body = await fs.readFile(fileFor(key));
+        return { body, contentType: contentTypeFor(key) };
+      } catch {
+        return null;
+      }
+    },
+    async remove(key) {
+      await fs.rm(fileFor(key), { force: true });
+    },
+    presign() {
+      return null;
+    },
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*  S3-compatible driver (AWS Signature V4, path-style addressing)             */
+/* -------------------------------------------------------------------------- */
+
+interface S3Config {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+function hmac(key: crypto.BinaryLike, data: string): Buffer {
+  return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+function sha256Hex(data: crypto.BinaryLike): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function amzDates(now: Date): { amzDate: string; dateStamp: string } {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  return { amzDate, dateStamp: amzDate.slice(0, 8) };
+}
+
+function s3Signature(cfg: S3Config, dateStamp: string, stringToSign: string): string {
+  const kDate = hmac(`AWS4${cfg.secretAccessKey}`, dateStamp);
+  const kRegion = hmac(kDate, cfg.region);
+  const kService = hmac(kRegion, "s3");
+  const kSigning = hmac(kService, "aws4_request");
+  return hmac(kSigning, stringToSign).toString("hex");
+}
+
+/** RFC 3986 encoding as SigV4 expects it (encodeURIComponent leaves !'()* alone). */
+function rfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function s3ObjectUrl(cfg: S3Config, key: string): URL {
+  const encodedKey = key.split("/").map(rfc3986).join("/");
+  return new URL(`${cfg.endpoint.replace(/\/+$/, "")}/${cfg.bucket}/${encodedKey}`);
+}
+
+/** Query-string presigned GET (X-Amz-SignedHeaders=host, UNSIGNED-PAYLOAD). */
+function presignS3Get(
+  cfg: S3Config,
+  url: URL,
+  expiresInSeconds: number,
+  now = new Date(),
+): string {
+  const { amzDate, dateStamp } = amzDates(now);
+  const scope = `${dateStamp}/${cfg.region}/s3/aws4_request`;
+  const params: Record<string, string> = {
+    "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+    "X-Amz-Credential": `${cfg.accessKeyId}/${scope}`,
+    "X-Amz-Date": amzDate,
+    "X-Amz-Expires": String(expiresInSeconds),
+    "X-Amz-SignedHeaders": "host",
+  };
+  const query = Object.keys(params)
+    .sort()
+    .map((k) => `${rfc3986(k)}=${rfc3986(params[k])}`)
+    .join("&");
+
+  const canonicalRequest = ["GET", url.pathname, query, `host:${url.host}\n`, "host", "UNSIGNED-PAYLOAD"].join("\n");
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+  const signature = s3Signature(cfg, dateStamp, stringToSign);
+
+  return `${url.origin}${url.pathname}?${query}&X-Amz-Signature=${signature}`;
+}
+
+async function s3Request(
+  cfg: S3Config,
+  method: "PUT" | "GET" | "DELETE",
+  key: string,
+  body?: Buffer,
+  contentType?: string,
+): Promise<Response> {
+  const url = s3ObjectUrl(cfg, key);
+  const { amzDate, dateStamp } = amzDates(new Date());
+  const payloadHash = sha256Hex(body ?? "");
+
+  const headers: Record<string, string> = {
+    host: url.host,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+  };
+  if (contentType) headers["content-type"] = contentType;
+
+  const names = Object.keys(headers).sort();
+  const canonicalHeaders = names.map((n) => `${n}:${headers[n]}\n`).join("");
+  const signedHeaders = names.join(";");
+  const canonicalRequest = [method, url.pathname, "", canonicalHeaders, signedHeaders, payloadHash].join("\n");
+  const scope = `${dateStamp}/${cfg.region}/s3/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+  const signature = s3Signature(cfg, dateStamp, stringToSign);
+
+  // Host is signed but not sent — fetch derives it from the URL.
+  const sent = Object.fromEntries(Object.entries(headers).filter(([n]) => n !== "host"));
+
+  return fetch(url, {
+    method,
+    headers: {
+      ...sent,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${cfg.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    },
+    body: body ? new Uint8Array(body) : undefined,
+  });
+}
+
+function s3Driver(cfg: S3Config): MediaDriver {
+  return {
+    name: "s3",
+    async put(key, body, contentType) {
+      const res = await s3Request(cfg, "PUT", key, body, contentType);
+      if (!res.ok) {
+        throw new Error(`S3 PUT ${key} failed: ${res.status} ${await res.text()}`);
+      }
+    },
+    async get(key) {
+      const res = await s3Request(cfg, "GET", key);
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(`S3 GET ${key} failed: ${res.status}`);
+      return {
+        body: Buffer.from(await res.arrayBuffer()),
+        contentType: res.headers.get("content-type") || contentTypeFor(key),
+      };
+    },
+    async remove(key) {
+      const res = await s3Request(cfg, "DELETE", key);
+      if (!res.ok && res.status !== 404) {
+        throw new Error(`S3 DELETE ${key} failed: ${res.status}`);
+      }
+    },
+    presign(key, expiresInSeconds) {
+      return presignS3Get(cfg, s3ObjectUrl(cfg, key), expiresInSeconds);
+    },
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Driver selection                                                            */
+/* -------------------------------------------------------------------------- */
+
+let cachedDriver: MediaDriver | null = null;
+
+/** MEDIA_STORAGE_DRIVER = "local" (default) | "s3". */
+export function getMediaDriver(): MediaDriver {
+  if (cachedDriver) return cachedDriver;
+
+  if ((process.env.MEDIA_STORAGE_DRIVER || "local") === "s3") {
+    const region = process.env.S3_REGION || "us-east-1";
+    const cfg: S3Config = {
+      endpoint: process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+      region,
+      bucket: process.env.S3_BUCKET || "",
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || "",
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
+    };
+    if (!cfg.bucket || !cfg.accessKeyId || !cfg.secretAccessKey) {
+      throw new Error("S3 media storage needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+    }
+    cachedDriver = s3Driver(cfg);
+  } else {
+    cachedDriver = localDriver();
+  }
+  return cachedDriver;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Keys and URLs                                                               */
+/* -------------------------------------------------------------------------- */
+
+function contentTypeFor(key: string): string {
+  if (key.endsWith(".webp")) return "image/webp";
+  if (key.endsWith(".png")) return "image/png";
+  if (key.endsWith(".jpg") || key.endsWith(".jpeg")) return "image/jpeg";
+  return "application/octet-stream";
+}
+
+export function isValidMediaKey(key: string): boolean {
+  return SAFE_KEY.test(key) && !key.split("/").some((seg) => seg === "" || seg === "." || seg === "..");
+}
+
+export function isPrivateMediaKey(key: string): boolean {
+  return key.startsWith("private/");
+}
+
+/** True for values written by storeImage(); legacy base64 data URLs return false. */
+export function isStoredMedia(url: string | undefined | null): url is string {
+  return !!url && url.startsWith(MEDIA_PREFIX);
+}
+
+export function mediaKeyFromUrl(url: string): string | null {
+  if (!isStoredMedia(url)) return null;
+  const key = url.slice(MEDIA_PREFIX.length).split("?")[0];
+  return isValidMediaKey(key) ? key : null;
+}
+
+function thumbKeyFor(key: string): string {
+  return key.replace(/\.webp$/, ".thumb.webp");
+}
+
+/**
+ * Thumbnail for a stored image. Legacy data URLs have no thumbnail and are
+ * returned unchanged so lists keep rendering during the migration.
+ */
+export function thumbnailUrl(url: string): string {
+  const key = mediaKeyFromUrl(url);
+  if (!key || key.endsWith(".thumb.webp")) return url;
+  return `${MEDIA_PREFIX}${thumbKeyFor(key)}`;
+}
+
+/** Thumbnail of the first image in a gallery, or null when it's empty. */
+export function firstThumbnail(images: string[] | undefined): string | null {
+  return images?.length ? thumbnailUrl(images[0]) : null;
+}
+
+function mediaSignature(key: string, exp: number): string {
+  return crypto
+    .createHmac("sha256", MEDIA_SIGNING_SECRET)
+    .update(`${key}:${exp}`)
+    .digest("hex");
+}
+
+/**
+ * Time-limited link to a stored image. Required for `private/` keys (payment
+ * proofs); harmless on public ones. Data URLs pass through untouched.
+ */
+export function signedMediaUrl(url: string, expiresInSeconds = DEFAULT_SIGNED_TTL_SECONDS): string {
+  const key = mediaKeyFromUrl(url);
+  if (!key) return url;
+  const exp = Math.floor(Date.now() / 1000) + expiresInSeconds;
+  return `${MEDIA_PREFIX}${key}?exp=${exp}&sig=${mediaSignature(key, exp)}`;
+}
+
+export function verifyMediaSignature(key: string, exp: string | null, sig: string | null): boolean {
+  if (!exp || !sig) return false;
+  const expiry = parseInt(exp, 10);
+  if (!expiry || expiry < Math.floor(Date.now() / 1000)) return false;
+  const expected = Buffer.from(mediaSignature(key, expiry));
+  const given = Buffer.from(sig);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Upload / delete                                                             */
+/* -------------------------------------------------------------------------- */
+
+/** Decode a `data:image/...;base64,` URL. Returns null if it isn't one. */
+export function decodeImageDataUrl(dataUrl: string): Buffer | null {
+  const match = /^data:image\/[a-z0-9.+-]+;base64,(.+)$/i.exec(dataUrl);
+  return match ? Buffer.from(match[1], "base64") : null;
+}
+
+/**
+ * Normalise, thumbnail and store an uploaded image. Throws InvalidImageError
+ * when sharp can't decode the input.
+ */
+export async function storeImage({
+  designerId,
+  folder,
+  input,
+  visibility = "public",
+}: {
+  designerId: string;
+  folder: MediaFolder;
+  input: Buffer;
+  visibility?: MediaVisibility;
+}): Promise<StoredImage> {
+  let full: { data: Buffer; info: sharp.OutputInfo };
+  let thumb: Buffer;
+  try {
+    const base = sharp(input, { failOn: "error" }).rotate();
+    full = await base
+      .clone()
+      .resize({ width: FULL_SIZE_PX, height: FULL_SIZE_PX, fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 82 })
+      .toBuffer({ resolveWithObject: true });
+    thumb = await base
+      .clone()
+      .resize({ width: THUMB_SIZE_PX, height: THUMB_SIZE_PX, fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 70 })
+      .toBuffer();
+  } catch {
+    throw new InvalidImageError();
+  }
+
+  const key = `${visibility === "private" ? "private/" : ""}${folder}/${designerId}/${nanoid(16)}.webp`;
+  const driver = getMediaDriver();
+  await driver.put(key, full.data, "image/webp");
+  await driver.put(thumbKeyFor(key), thumb, "image/webp");
+
+  return {
+    key,
+    url: `${MEDIA_PREFIX}${key}`,
+    thumbUrl: `${MEDIA_PREFIX}${thumbKeyFor(key)}`,
+    width: full.info.width,
+    height: full.info.height,
+    bytes: full.data.length,
+  };
+}
+
+/** Best-effort delete of a stored image and its thumbnail. No-op for data URLs. */
+export async function deleteStoredImage(url: string): Promise<void> {
+  const key = mediaKeyFromUrl(url);
+  if (!key) return;
+  const driver = getMediaDriver();
+  await Promise.all(
+    [key, thumbKeyFor(key)].map((k) =>
+      driver.remove(k).catch((err) => console.error(`Media delete ${k} failed:`, err)),
+    ),
+  );
+}
@@ -0,0 +1,70 @@
+/**
+ * Migration: add-client-phone-key
+ *
+ * Fills Client.phoneKey (the digits-only E.164 form of `phone`) on clients
+ * saved before the field existed. The WhatsApp client bot finds a sender by
+ * this key, so a client without one can't use the bot until it's set.
+ *
+ * New and edited clients get the key from the model's hooks. The key only
+ * lives on the server, so this writes it directly with no syncVersion bump:
+ * offline devices have nothing new to pull.
+ *
+ * Run once after deploying:
+ *   npx ts-node --project tsconfig.json src/lib/migrations/add-client-phone-key.ts
+ */
+
+import connectDB from "../db";
+import { Client } from "../models/client";
+import { phoneKey } from "../whatsapp";
+
+const BATCH_SIZE = 500;
+
+export async function runMigration() {
+  await connectDB();
+
+  console.log("Migration: add-client-phone-key — starting...");
+
+  const cursor = Client.find({ phoneKey: { $exists: false } })
+    .select("phone")
+    .lean()
+    .cursor();
+
+  let updated = 0;
+  let skipped = 0;
+  let batch: { updateOne: { filter: { _id: unknown }; update: { $set: { phoneKey: string } } } }[] = [];
+
+  const flush = async () => {
+    if (!batch.length) return;
+    const result = await Client.bulkWrite(batch, { ordered: false });
+    updated += result.modifiedCount;
+    batch = [];
+  };
+
+  for await (const client of cursor) {
+    const key = typeof client.phone === "string" ? phoneKey(client.phone) : undefined;
+    if (!key) {
+      skipped += 1;
+      continue;
+    }
+    batch.push({ updateOne: { filter: { _id: client._id }, update: { $set: { phoneKey: key } } } });
+    if (batch.length >= BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  console.log(`Set phoneKey on ${updated} clients.`);
+  if (skipped > 0) {
+    console.log(`Skipped ${skipped} clients whose phone has too few digits to be a number.`);
+  }
+
+  console.log("Migration: add-client-phone-key — complete ✓");
+}
+
+// Run directly if called as a script
+if (require.main === module) {
+  runMigration()
+    .then(() => process.exit(0))
+    .catch((err) => {
+      console.error("Migration failed:", err);
+      process.exit(1);
+    });
+}
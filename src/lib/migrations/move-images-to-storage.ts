@@ -0,0 +1,124 @@
+/**
+ * Migration: move-images-to-storage
+ *
+ * Moves base64 data-URL images embedded in MongoDB out to media storage
+ * (see lib/media-storage.ts) and replaces them with `/media/` paths:
+ *
+ *   Order.gallery, Order.fabricImages     → public  gallery/ and fabric/ keys
+ *   ManualPayment.proofImage              → private payment-proofs/ keys
+ *
+ * Safe to re-run: only values that are still data URLs are touched, and each
+ * document is saved as soon as its own images are uploaded. Images sharp
+ * can't decode are left in place and reported.
+ *
+ * Configure MEDIA_STORAGE_DRIVER (and the S3_* vars for s3) first, then run:
+ *   npx ts-node --project tsconfig.json src/lib/migrations/move-images-to-storage.ts
+ * Pass --dry-run to only count what would move.
+ */
+
+import connectDB from "../db";
+import { Order } from "../models/order";
+import { ManualPayment } from "../models/manual-payment";
+import {
+  decodeImageDataUrl,
+  storeImage,
+  type MediaFolder,
+  type MediaVisibility,
+} from "../media-storage";
+
+const DATA_URL_QUERY = { $regex: "^data:image/" };
+
+async function migrateOne(
+  value: string,
+  designerId: string,
+  folder: MediaFolder,
+  visibility: MediaVisibility,
+  failures: string[],
+  label: string,
+): Promise<string> {
+  const bytes = decodeImageDataUrl(value);
+  if (!bytes) return value;
+  try {
+    const stored = await storeImage({ designerId, folder, input: bytes, visibility });
+    return stored.url;
+  } catch (err) {
+    failures.push(`${label}: ${err instanceof Error ? err.message : String(err)}`);
+    return value;
+  }
+}
+
+export async function runMigration({ dryRun = false }: { dryRun?: boolean } = {}) {
+  await connectDB();
+
+  console.log(`Migration: move-images-to-storage — starting${dryRun ? " (dry run)" : ""}...`);
+
+  const orderFilter = { $or: [{ gallery: DATA_URL_QUERY }, { fabricImages: DATA_URL_QUERY }] };
+  const paymentFilter = { proofImage: DATA_URL_QUERY };
+
+  const [orderCount, paymentCount] = await Promise.all([
+    Order.countDocuments(orderFilter),
+    ManualPayment.countDocuments(paymentFilter),
+  ]);
+  console.log(`Found ${orderCount} orders and ${paymentCount} manual payments with embedded images.`);
+  if (dryRun) return;
+
+  const failures: string[] = [];
+  let imagesMoved = 0;
+
+  // Cursor + per-document save keeps memory flat — a single order can carry
+  // several MB of base64.
+  const orders = Order.find(orderFilter).select("designerId gallery fabricImages").cursor();
+  for await (const order of orders) {
+    const designerId = String(order.designerId);
+    const label = `order ${order._id}`;
+
+    const gallery: string[] = [];
+    for (const img of order.gallery || []) {
+      const next = await migrateOne(img, designerId, "gallery", "public", failures, label);
+      if (next !== img) imagesMoved++;
+      gallery.push(next);
+    }
+    const fabricImages: string[] = [];
+    for (const img of order.fabricImages || []) {
+      const next = await migrateOne(img, designerId, "fabric", "public", failures, label);
+      if (next !== img) imagesMoved++;
+      fabricImages.push(next);
+    }
+
+    // updateOne, not save(): leaves updatedAt and validators on old orders alone.
+    await Order.updateOne({ _id: order._id }, { $set: { gallery, fabricImages } }, { timestamps: false });
+  }
+
+  const payments = ManualPayment.find(paymentFilter).select("designerId proofImage").cursor();
+  for await (const payment of payments) {
+    const next = await migrateOne(
+      payment.proofImage as string,
+      String(payment.designerId),
+      "payment-proofs",
+      "private",
+      failures,
+      `manual payment ${payment._id}`,
+    );
+    if (next === payment.proofImage) continue;
+    imagesMoved++;
+    await ManualPayment.updateOne({ _id: payment._id }, { $set: { proofImage: next } }, { timestamps: false });
+  }
+
+  console.log(`Moved ${imagesMoved} images to media storage.`);
+  if (failures.length > 0) {
+    console.log(`${failures.length} images could not be decoded and were left in place:`);
+    failures.forEach((f) => console.log(`  - ${f}`));
+  }
+
+  console.log("Migration: move-images-to-storage — complete ✓");
+}
+
+// Run directly if called as a script
+if (require.main === module) {
+  runMigration({ dryRun: process.argv.includes("--dry-run") })
+    .then(() => process.exit(0))
+    .catch((err) => {
+      console.error("Migration failed:", err);
+      process.exit(1);
+    });
+}
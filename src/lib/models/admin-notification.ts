@@ -18,8 +18,10 @@ export type AdminNotificationSeverity = "action_required" | "info" | "warning";
 export type AdminNotificationKind =
   | "manual_payment_submitted"
   | "paystack_payment_succeeded"
+  | "subscription_payment_failed"
   | "designer_signup"
   | "broadcast_failed"
+  | "referral_flagged"
   | "system";
 
 export interface IAdminNotification extends Document {
@@ -44,8 +46,10 @@ const AdminNotificationSchema = new Schema<IAdminNotification>(
       enum: [
         "manual_payment_submitted",
         "paystack_payment_succeeded",
+        "subscription_payment_failed",
         "designer_signup",
         "broadcast_failed",
+        "referral_flagged",
         "system",
       ],
       required: true,
@@ -0,0 +1,70 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+/* -------------------------------------------------------------------------- */
+/*  BotSession                                                                  */
+/*                                                                              */
+/*  Per-phone conversation state for the WhatsApp bot — designers           */
+/*  (lib/whatsapp-bot) and their clients (lib/whatsapp-client-bot).          */
+/*  Holds the reply language and, between turns, the question the bot is    */
+/*  waiting on — "which Amaka? reply 1 or 2" — with the half-parsed command */
+/*  to finish once the answer arrives. A pending question lapses after       */
+/*  pendingExpiresAt; the language preference stays.                         */
+/* -------------------------------------------------------------------------- */
+
+export type BotLanguage = "english" | "pidgin";
+
+export interface IBotPendingOption {
+  id: string;
+  label: string;
+}
+
+export interface IBotPending {
+  /** Command to resume, e.g. "paid" */
+  action: string;
+  /** Arguments parsed so far */
+  args: Record<string, string | number>;
+  /** Which argument the picked option fills, e.g. "clientId" */
+  field?: string;
+  /** Numbered choices offered; empty for a MORE (next page) prompt */
+  options: IBotPendingOption[];
+}
+
+export interface IBotSession extends Document {
+  /** International format without "+" */
+  phone: string;
+  /** Set when the phone is a designer's */
+  designerId?: mongoose.Types.ObjectId;
+  language: BotLanguage;
+  pending?: IBotPending | null;
+  pendingExpiresAt?: Date | null;
+  lastMessageAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BotSessionSchema = new Schema<IBotSession>(
+  {
+    phone: { type: String, required: true, unique: true },
+    designerId: { type: Schema.Types.ObjectId, ref: "Designer", index: true },
+    language: { type: String, enum: ["english", "pidgin"], default: "english" },
+    pending: {
+      type: new Schema<IBotPending>(
+        {
+          action: { type: String, required: true },
+          args: { type: Schema.Types.Mixed, default: {} },
+          field: { type: String },
+          options: [{ _id: false, id: { type: String, required: true }, label: { type: String, required: true } }],
+        },
+        { _id: false }
+      ),
+      default: null,
+    },
+    pendingExpiresAt: { type: Date, default: null },
+    lastMessageAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+export const BotSession =
+  (mongoose.models.BotSession as mongoose.Model<IBotSession>) ||
+  mongoose.model<IBotSession>("BotSession", BotSessionSchema);
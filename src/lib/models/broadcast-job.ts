@@ -4,19 +4,23 @@ import mongoose, { Schema, type Document } from "mongoose";
 /*  BroadcastJob                                                                */
 /*                                                                              */
 /*  Single source of truth for every broadcast (scheduled OR immediate, SMS   */
-/*  OR WhatsApp queue). Powers /broadcast/history and the schedule cron.      */
+/*  OR WhatsApp queue). Powers /broadcast/history and the broadcast.send job. */
 /*                                                                              */
 /*  Lifecycle:                                                                  */
-/*    pending  → scheduled for the future, waiting for cron tick              */
-/*    ready    → cron has fired (WhatsApp only) — designer must complete the */
-/*               in-app queue                                                  */
-/*    running  → SMS path is mid-flight                                        */
+/*    pending  → scheduled for the future, waiting for its broadcast.send job */
+/*    ready    → cron has fired (WhatsApp queue only) — designer must        */
+/*               complete the in-app queue                                     */
+/*    running  → SMS path is mid-flight, or a WhatsApp Cloud API broadcast is */
+/*               sending in batches (lib/whatsapp-broadcast)                   */
 /*    complete → finished (success or partial failure)                         */
 /*    cancelled → designer cancelled before it fired                           */
 /* -------------------------------------------------------------------------- */
 
 export type BroadcastChannel = "sms" | "whatsapp";
 export type BroadcastStatus = "pending" | "ready" | "running" | "complete" | "cancelled";
+/** WhatsApp only: the designer's own app via wa.me, or server-side templates */
+export type BroadcastDelivery = "manual" | "cloud";
+export type BroadcastRecipientStatus = "queued" | "sent" | "delivered" | "read" | "failed";
 
 export interface IBroadcastJobError {
   clientId: mongoose.Types.ObjectId;
@@ -24,11 +28,16 @@ export interface IBroadcastJobError {
 }
 
 export interface IBroadcastJobRecipientSnapshot {
+  _id?: mongoose.Types.ObjectId;
   clientId: mongoose.Types.ObjectId;
   name: string;
   phone: string;
   /** WA-only: has the designer marked this recipient as sent in the queue? */
   sent?: boolean;
+  /** Cloud delivery: follows the template message's receipts */
+  status?: BroadcastRecipientStatus;
+  waMessageId?: string;
+  error?: string;
 }
 
 export interface IBroadcastJob extends Document {
@@ -37,6 +46,9 @@ export interface IBroadcastJob extends Document {
   message: string;
   language?: "english" | "pidgin";
   channel: BroadcastChannel;
+  delivery?: BroadcastDelivery;
+  /** Approved template name, for cloud delivery */
+  template?: string;
   /** null = immediate; Date in the future = scheduled */
   scheduledFor?: Date | null;
   status: BroadcastStatus;
@@ -62,6 +74,8 @@ const BroadcastJobSchema = new Schema<IBroadcastJob>(
     message:       { type: String, required: true, maxlength: 1000 },
     language:      { type: String, enum: ["english", "pidgin"] },
     channel:       { type: String, enum: ["sms", "whatsapp"], required: true },
+    delivery:      { type: String, enum: ["manual", "cloud"], default: "manual" },
+    template:      { type: String },
     scheduledFor:  { type: Date, default: null, index: true },
     status: {
       type: String,
@@ -75,6 +89,13 @@ const BroadcastJobSchema = new Schema<IBroadcastJob>(
         name:     { type: String, required: true },
         phone:    { type: String, required: true },
         sent:     { type: Boolean, default: false },
+        status: {
+          type: String,
+          enum: ["queued", "sent", "delivered", "read", "failed"],
+          default: "queued",
+        },
+        waMessageId: { type: String },
+        error:       { type: String },
       },
     ],
     recipientCount: { type: Number, default: 0, min: 0 },
@@ -96,6 +117,8 @@ const BroadcastJobSchema = new Schema<IBroadcastJob>(
 BroadcastJobSchema.index({ designerId: 1, createdAt: -1 });
 // Cron query: due-and-pending across all designers
 BroadcastJobSchema.index({ status: 1, scheduledFor: 1 });
+// Delivery receipts: find the recipient a template message went to
+BroadcastJobSchema.index({ "recipients.waMessageId": 1 }, { sparse: true });
 
 export const BroadcastJob =
   (mongoose.models.BroadcastJob as mongoose.Model<IBroadcastJob>) ||
@@ -0,0 +1,56 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+/* -------------------------------------------------------------------------- */
+/*  BusinessDocument                                                           */
+/*                                                                              */
+/*  An issued invoice, quotation, receipt or measurement card. The content   */
+/*  is snapshotted in `data` when the document is issued, so the public URL  */
+/*  (/doc/[code]) keeps rendering exactly what the client was sent even if   */
+/*  the order is edited later. Issuing again after a change gets a new       */
+/*  number; issuing again with nothing changed returns the same document     */
+/*  (matched on `fingerprint`), so repeat taps don't burn invoice numbers.   */
+/* -------------------------------------------------------------------------- */
+
+export type BusinessDocumentType = "invoice" | "quotation" | "receipt" | "measurement_card";
+
+export interface IBusinessDocument extends Document {
+  designerId: mongoose.Types.ObjectId;
+  type: BusinessDocumentType;
+  /** Human number shown on the document — "INV-0042" */
+  number: string;
+  /** Public share code used in /doc/[code] */
+  code: string;
+  orderId?: mongoose.Types.ObjectId;
+  clientId?: mongoose.Types.ObjectId;
+  /** Hash of the rendered content — see header note */
+  fingerprint: string;
+  /** Snapshot rendered to PDF (DocumentData from lib/documents) */
+  data: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BusinessDocumentSchema = new Schema<IBusinessDocument>(
+  {
+    designerId: { type: Schema.Types.ObjectId, ref: "Designer", required: true, index: true },
+    type: {
+      type: String,
+      enum: ["invoice", "quotation", "receipt", "measurement_card"],
+      required: true,
+    },
+    number: { type: String, required: true },
+    code: { type: String, required: true, unique: true },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", index: true, sparse: true },
+    clientId: { type: Schema.Types.ObjectId, ref: "Client", index: true, sparse: true },
+    fingerprint: { type: String, required: true },
+    data: { type: Schema.Types.Mixed, required: true },
+  },
+  { timestamps: true }
+);
+
+BusinessDocumentSchema.index({ designerId: 1, type: 1, fingerprint: 1 });
+BusinessDocumentSchema.index({ designerId: 1, createdAt: -1 });
+
+export const BusinessDocument =
+  mongoose.models.BusinessDocument ||
+  mongoose.model<IBusinessDocument>("BusinessDocument", BusinessDocumentSchema);
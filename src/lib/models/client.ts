@@ -1,4 +1,6 @@
-import mongoose, { Schema, type Document } from "mongoose";
+import mongoose, { Schema, type Document, type UpdateQuery } from "mongoose";
+import { phoneKey } from "@/lib/whatsapp";
+import { syncVersionPlugin } from "./sync-version";
 
 const MeasurementsSubSchema = new Schema(
   {
@@ -47,6 +49,9 @@ export interface IClient extends Document {
   name: string;
   email?: string;
   phone: string;
+  /** `phone` as digits-only E.164 (lib/whatsapp phoneKey) — kept in step by
+   *  the hooks below so the WhatsApp client bot can find a sender by index */
+  phoneKey?: string;
   gender: "male" | "female";
   notes?: string;
   measurements?: typeof MeasurementsSubSchema;
@@ -54,6 +59,13 @@ export interface IClient extends Document {
   lastMeasuredAt?: Date;
   scanLink?: string;
   shareCode?: string;
+  /** Order emails (lib/client-emails). Off when the designer turns them off
+   *  or the client follows an unsubscribe link. */
+  emailUpdates: boolean;
+  /** Set when the client unsubscribed themselves */
+  emailUnsubscribedAt?: Date;
+  /** Bumped on every write — see models/sync-version */
+  syncVersion: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -64,6 +76,7 @@ const ClientSchema = new Schema<IClient>(
     name: { type: String, required: true, trim: true },
     email: { type: String, lowercase: true, trim: true },
     phone: { type: String, required: true, trim: true },
+    phoneKey: { type: String, select: false },
     gender: { type: String, enum: ["male", "female"], required: true },
     notes: { type: String, maxlength: 1000 },
     measurements: MeasurementsSubSchema,
@@ -71,16 +84,43 @@ const ClientSchema = new Schema<IClient>(
     lastMeasuredAt: { type: Date },
     scanLink: { type: String, unique: true, sparse: true },
     shareCode: { type: String, unique: true, sparse: true },
+    emailUpdates: { type: Boolean, default: true },
+    emailUnsubscribedAt: { type: Date },
   },
   {
     timestamps: true,
   }
 );
 
+ClientSchema.plugin(syncVersionPlugin);
+
+ClientSchema.pre("save", function () {
+  if (this.isModified("phone")) this.phoneKey = phoneKey(this.phone);
+});
+
+ClientSchema.pre(["updateOne", "updateMany", "findOneAndUpdate"], function () {
+  const update = this.getUpdate();
+  if (!update || Array.isArray(update)) return;
+  const ops = update as UpdateQuery<IClient>;
+  const phone = ops.$set?.phone ?? ops.phone;
+  if (typeof phone !== "string") return;
+  const key = phoneKey(phone);
+  if (key) {
+    ops.$set = { ...(ops.$set || {}), phoneKey: key };
+  } else {
+    ops.$unset = { ...(ops.$unset || {}), phoneKey: "" };
+  }
+  this.setUpdate(ops);
+});
+
 ClientSchema.index({ designerId: 1, name: "text" });
 ClientSchema.index({ designerId: 1, createdAt: -1 });
 ClientSchema.index({ scanLink: 1 });
 ClientSchema.index({ shareCode: 1 });
+// WhatsApp client bot (lib/whatsapp-client-bot)
+ClientSchema.index({ phoneKey: 1 });
+// Offline sync change feed (lib/sync)
+ClientSchema.index({ designerId: 1, updatedAt: 1, _id: 1 });
 
 export const Client =
   mongoose.models.Client || mongoose.model<IClient>("Client", ClientSchema);
@@ -0,0 +1,37 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+/* -------------------------------------------------------------------------- */
+/*  Counter — per-designer sequences (invoice numbers, receipt numbers, …).   */
+/*                                                                              */
+/*  One document per (designer, key). nextSequence() bumps it atomically so  */
+/*  two documents issued at the same moment never share a number.            */
+/* -------------------------------------------------------------------------- */
+
+export interface ICounter extends Document {
+  designerId: mongoose.Types.ObjectId;
+  key: string;
+  seq: number;
+}
+
+const CounterSchema = new Schema<ICounter>({
+  designerId: { type: Schema.Types.ObjectId, ref: "Designer", required: true },
+  key:        { type: String, required: true },
+  seq:        { type: Number, default: 0 },
+});
+
+CounterSchema.index({ designerId: 1, key: 1 }, { unique: true });
+
+export const Counter =
+  mongoose.models.Counter || mongoose.model<ICounter>("Counter", CounterSchema);
+
+/**
+ * Next value in the designer's `key` sequence, starting at 1.
+ */
+export async function nextSequence(designerId: string, key: string): Promise<number> {
+  const counter = await Counter.findOneAndUpdate(
+    { designerId, key },
+    { $inc: { seq: 1 } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  ).lean<{ seq: number }>();
+  return counter!.seq;
+}
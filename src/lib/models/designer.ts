@@ -85,6 +85,7 @@
 
 
 import mongoose, { Schema, type Document } from "mongoose";
+import type { ClientEmailKind } from "@/lib/email-templates";
 
 export interface ILifetimeCounts {
   totalClientsCreated: number;
@@ -110,8 +111,26 @@ export interface IDesigner extends Document {
   subscription: "free" | "plus" | "pro";
   subscriptionExpiry?: Date;
   paystackCustomerId?: string;
+  /** How the paid plan renews (see lib/subscription-billing). */
+  subscriptionBilling?: {
+    interval: "monthly" | "annual";
+    autoRenew: boolean;
+    status: "active" | "past_due" | "cancelled";
+    paystackSubscriptionCode?: string;
+    paystackEmailToken?: string;
+    paystackPlanCode?: string;
+    nextPaymentDate?: Date;
+    failedAttempts: number;
+    lastFailureAt?: Date;
+    lastFailureReason?: string;
+    /** Reference of the last payment applied — makes activation idempotent. */
+    lastReference?: string;
+  };
   role: DesignerRole;
   teamOwnerId?: string;
+  /** Staff only: "own" while they've switched back to their personal
+   *  workspace; otherwise requests act on the team owner's data. */
+  activeWorkspace?: "team" | "own";
   ownerPin?: string;
   lifetimeCounts: ILifetimeCounts;
   isOnboarded: boolean;
@@ -128,6 +147,19 @@ export interface IDesigner extends Document {
   /** SMS credit balance (consumed per SMS sent via Termii). */
   smsBalance?: number;
   smsLifetimePurchased?: number;
+  /** Pay-per-scan credits — one is spent per scan link once the plan's
+   *  scan quota is used up. */
+  scanCredits?: number;
+  scanCreditsLifetimePurchased?: number;
+  /** Payment references already credited as scan packs — most recent last,
+   *  capped — so a replayed webhook or verify can't credit twice. */
+  scanCreditReferences?: string[];
+  /** Referral programme (see lib/referrals). */
+  referralCode?: string;
+  referredBy?: string;
+  /** Browser ids (DEVICE_COOKIE) seen at signup and on the referral
+   *  dashboard — most recent last, capped. */
+  deviceIds?: string[];
   /** Studio addon — branded PDFs, brand color, vanity URL. */
   studioAddon?: {
     expiresAt?: Date;
@@ -142,6 +174,35 @@ export interface IDesigner extends Document {
     accountNumber?: string;
     accountName?: string;
   };
+  /** Custom order workflow (stages + allowed transitions). Unset = the
+   *  DEFAULT_WORKFLOW in lib/order-transitions. */
+  workflow?: {
+    stages: {
+      key: string;
+      label: string;
+      next: string[];
+      optional?: boolean;
+      color?: string;
+      clientMessage?: { en?: string; pidgin?: string };
+    }[];
+    updatedAt?: Date;
+  };
+  /** Opt-in automatic SMS payment reminders (see lib/payment-chaser). */
+  autoChase?: {
+    enabled: boolean;
+    rules: { afterDays: number; tone: "gentle" | "firm" | "final" }[];
+    /** Lagos-time hours [start, end) during which no reminder is sent. */
+    quietHours: { start: number; end: number };
+    updatedAt?: Date;
+  };
+  /** Edited client email wording (see lib/email-templates). Kinds not
+   *  listed use the default template. */
+  emailTemplates?: {
+    kind: ClientEmailKind;
+    enabled: boolean;
+    subject: string;
+    body: string;
+  }[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -165,13 +226,27 @@ const DesignerSchema = new Schema<IDesigner>(
     specialties:     [{ type: String }],
     subscription:    { type: String, enum: ["free", "plus", "pro"], default: "free" },
     subscriptionExpiry:   { type: Date },
-    paystackCustomerId:   { type: String },
+    paystackCustomerId:   { type: String, index: true, sparse: true },
+    subscriptionBilling: {
+      interval:  { type: String, enum: ["monthly", "annual"], default: "monthly" },
+      autoRenew: { type: Boolean, default: false },
+      status:    { type: String, enum: ["active", "past_due", "cancelled"], default: "active" },
+      paystackSubscriptionCode: { type: String, index: true, sparse: true },
+      paystackEmailToken: { type: String, select: false },
+      paystackPlanCode:   { type: String },
+      nextPaymentDate:    { type: Date },
+      failedAttempts:     { type: Number, default: 0, min: 0 },
+      lastFailureAt:      { type: Date },
+      lastFailureReason:  { type: String, maxlength: 300 },
+      lastReference:      { type: String },
+    },
     role: {
       type: String,
       enum: ["owner", "manager", "apprentice", "admin"],
       default: "owner",
     },
-    teamOwnerId: { type: Schema.Types.ObjectId, ref: "Designer" },
+    teamOwnerId: { type: Schema.Types.ObjectId, ref: "Designer", index: true },
+    activeWorkspace: { type: String, enum: ["team", "own"] },
     ownerPin:    { type: String, select: false },
     lifetimeCounts: {
       totalClientsCreated: { type: Number, default: 0 },
@@ -189,6 +264,12 @@ const DesignerSchema = new Schema<IDesigner>(
     suspendedReason:      { type: String, maxlength: 500 },
     smsBalance:           { type: Number, default: 0, min: 0 },
     smsLifetimePurchased: { type: Number, default: 0, min: 0 },
+    scanCredits:          { type: Number, default: 0, min: 0 },
+    scanCreditsLifetimePurchased: { type: Number, default: 0, min: 0 },
+    scanCreditReferences: { type: [String], default: undefined, select: false },
+    referralCode:         { type: String, unique: true, sparse: true, uppercase: true, trim: true },
+    referredBy:           { type: Schema.Types.ObjectId, ref: "Designer", index: true },
+    deviceIds:            { type: [String], default: undefined, select: false },
     studioAddon: {
       expiresAt:  { type: Date },
       brandColor: { type: String, default: "#C75B39" },
@@ -200,6 +281,56 @@ const DesignerSchema = new Schema<IDesigner>(
       accountNumber: { type: String, trim: true },
       accountName:   { type: String, trim: true },
     },
+    workflow: {
+      stages: {
+        type: [
+          {
+            _id: false,
+            key:      { type: String, required: true, trim: true, maxlength: 30 },
+            label:    { type: String, required: true, trim: true, maxlength: 40 },
+            next:     { type: [String], default: [] },
+            optional: { type: Boolean, default: false },
+            color:    { type: String, enum: ["gold", "info", "terracotta", "success", "destructive"] },
+            clientMessage: {
+              en:     { type: String, maxlength: 120 },
+              pidgin: { type: String, maxlength: 120 },
+            },
+          },
+        ],
+        default: undefined,
+      },
+      updatedAt: { type: Date },
+    },
+    autoChase: {
+      enabled: { type: Boolean, default: false, index: true },
+      rules: {
+        type: [
+          {
+            _id: false,
+            afterDays: { type: Number, required: true, min: 1, max: 90 },
+            tone:      { type: String, enum: ["gentle", "firm", "final"], required: true },
+          },
+        ],
+        default: undefined,
+      },
+      quietHours: {
+        start: { type: Number, min: 0, max: 23 },
+        end:   { type: Number, min: 0, max: 23 },
+      },
+      updatedAt: { type: Date },
+    },
+    emailTemplates: {
+      type: [
+        {
+          _id: false,
+          kind:    { type: String, enum: ["order_status", "order_ready", "payment_received", "order_overdue"], required: true },
+          enabled: { type: Boolean, default: true },
+          subject: { type: String, required: true, maxlength: 150 },
+          body:    { type: String, required: true, maxlength: 2000 },
+        },
+      ],
+      default: undefined,
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,77 @@
+import mongoose, { Schema, type Document } from "mongoose";
+import type { ClientEmailKind } from "@/lib/email-templates";
+
+/* -------------------------------------------------------------------------- */
+/*  EmailOutbox                                                                 */
+/*                                                                              */
+/*  Every email sent to a designer's client (lib/client-emails). The row is  */
+/*  rendered when the event happens and delivered by an "email.send" job,    */
+/*  which retries with backoff:                                               */
+/*                                                                              */
+/*    queued    → waiting for (or between) delivery attempts                  */
+/*    sent      → accepted by the SMTP server                                 */
+/*    failed    → every attempt failed; the designer can retry it             */
+/*    cancelled → the client unsubscribed before it went out                 */
+/*                                                                              */
+/*  dedupeKey (kind:order:ref) stops the same event emailing twice.          */
+/* -------------------------------------------------------------------------- */
+
+export type EmailOutboxStatus = "queued" | "sent" | "failed" | "cancelled";
+
+export interface IEmailOutbox extends Document {
+  designerId: mongoose.Types.ObjectId;
+  clientId: mongoose.Types.ObjectId;
+  orderId?: mongoose.Types.ObjectId;
+  kind: ClientEmailKind;
+  dedupeKey: string;
+  to: string;
+  /** The designer's business name */
+  fromName: string;
+  /** The designer's own address, so client replies reach them */
+  replyTo?: string;
+  subject: string;
+  html: string;
+  status: EmailOutboxStatus;
+  attempts: number;
+  lastError?: string;
+  messageId?: string;
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EmailOutboxSchema = new Schema<IEmailOutbox>(
+  {
+    designerId: { type: Schema.Types.ObjectId, ref: "Designer", required: true },
+    clientId: { type: Schema.Types.ObjectId, ref: "Client", required: true },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order" },
+    kind: {
+      type: String,
+      enum: ["order_status", "order_ready", "payment_received", "order_overdue"],
+      required: true,
+    },
+    dedupeKey: { type: String, required: true, unique: true },
+    to: { type: String, required: true },
+    fromName: { type: String, required: true },
+    replyTo: { type: String },
+    subject: { type: String, required: true, maxlength: 300 },
+    html: { type: String, required: true },
+    status: {
+      type: String,
+      enum: ["queued", "sent", "failed", "cancelled"],
+      default: "queued",
+    },
+    attempts: { type: Number, default: 0, min: 0 },
+    lastError: { type: String, maxlength: 2000 },
+    messageId: { type: String },
+    sentAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+// Settings → Emails: a designer's recent deliveries
+EmailOutboxSchema.index({ designerId: 1, createdAt: -1 });
+
+export const EmailOutbox =
+  mongoose.models.EmailOutbox ||
+  mongoose.model<IEmailOutbox>("EmailOutbox", EmailOutboxSchema);
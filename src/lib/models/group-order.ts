@@ -0,0 +1,97 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+/* -------------------------------------------------------------------------- */
+/*  GroupOrder                                                                 */
+/*                                                                              */
+/*  An aso-ebi / event group: one celebration, one shared fabric purchase,    */
+/*  many guests. Each guest is an ordinary Client with an ordinary Order      */
+/*  (Order.groupOrderId points back here), so measurements, scan links,       */
+/*  payments and PaymentLinks all work exactly as they do for solo orders.    */
+/*                                                                              */
+/*  The coordinator (bride, celebrant, family rep) gets a read-only progress  */
+/*  page at /group/[coordinatorCode] showing who has been measured and who   */
+/*  has paid — no amounts owed by other guests, no phone numbers.             */
+/* -------------------------------------------------------------------------- */
+
+export type GroupOrderStatus = "open" | "closed" | "completed" | "cancelled";
+
+export interface IGroupMember {
+  _id?: mongoose.Types.ObjectId;
+  clientId: mongoose.Types.ObjectId;
+  orderId: mongoose.Types.ObjectId;
+  /** Overrides the group's default garment (e.g. men in agbada, women in iro & buba) */
+  garmentType?: string;
+  addedAt: Date;
+}
+
+export interface IGroupFabric {
+  name?: string;
+  /** Width of the bolt in cm (Nigerian fabric is 114–152cm) */
+  widthCm: number;
+  pricePerYard?: number;
+  /** Yards actually bought for the group so far */
+  purchasedYards?: number;
+  purchasedAt?: Date;
+}
+
+export interface IGroupOrder extends Document {
+  designerId: mongoose.Types.ObjectId;
+  title: string;
+  eventName?: string;
+  eventDate?: Date;
+  coordinatorName?: string;
+  coordinatorPhone?: string;
+  /** Public share code for the coordinator view */
+  coordinatorCode: string;
+  defaultGarmentType: string;
+  /** Package price per guest — becomes each member order's price */
+  pricePerGuest: number;
+  fabric: IGroupFabric;
+  members: IGroupMember[];
+  status: GroupOrderStatus;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GroupMemberSchema = new Schema<IGroupMember>({
+  clientId: { type: Schema.Types.ObjectId, ref: "Client", required: true },
+  orderId: { type: Schema.Types.ObjectId, ref: "Order", required: true },
+  garmentType: { type: String, trim: true },
+  addedAt: { type: Date, default: Date.now },
+});
+
+const GroupOrderSchema = new Schema<IGroupOrder>(
+  {
+    designerId: { type: Schema.Types.ObjectId, ref: "Designer", required: true, index: true },
+    title: { type: String, required: true, trim: true, maxlength: 120 },
+    eventName: { type: String, trim: true, maxlength: 120 },
+    eventDate: { type: Date },
+    coordinatorName: { type: String, trim: true },
+    coordinatorPhone: { type: String, trim: true },
+    coordinatorCode: { type: String, required: true, unique: true },
+    defaultGarmentType: { type: String, required: true, trim: true },
+    pricePerGuest: { type: Number, required: true, min: 0 },
+    fabric: {
+      name: { type: String, trim: true },
+      widthCm: { type: Number, default: 114, min: 1 },
+      pricePerYard: { type: Number, min: 0 },
+      purchasedYards: { type: Number, min: 0 },
+      purchasedAt: { type: Date },
+    },
+    members: { type: [GroupMemberSchema], default: [] },
+    status: {
+      type: String,
+      enum: ["open", "closed", "completed", "cancelled"],
+      default: "open",
+    },
+    notes: { type: String, maxlength: 2000 },
+  },
+  { timestamps: true }
+);
+
+GroupOrderSchema.index({ designerId: 1, createdAt: -1 });
+GroupOrderSchema.index({ designerId: 1, eventDate: 1 });
+
+export const GroupOrder =
+  mongoose.models.GroupOrder || mongoose.model<IGroupOrder>("GroupOrder", GroupOrderSchema);
@@ -0,0 +1,75 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+/* -------------------------------------------------------------------------- */
+/*  Job                                                                         */
+/*                                                                              */
+/*  One unit of background work for the queue in lib/job-queue.ts.             */
+/*                                                                              */
+/*  Lifecycle:                                                                  */
+/*    pending   → waiting for runAt (new, or backing off after a failure)     */
+/*    running   → claimed by a tick; lockedUntil guards against a crashed     */
+/*                worker — once it passes, another tick may reclaim the job   */
+/*    completed → handler returned; `result` holds its summary                */
+/*    dead      → failed maxAttempts times; parked in the dead-letter list    */
+/*                until an admin retries it                                    */
+/* -------------------------------------------------------------------------- */
+
+export type JobStatus = "pending" | "running" | "completed" | "dead";
+
+export interface IJob extends Document {
+  type: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  /** Enqueueing the same key twice is a no-op — the first job wins. */
+  idempotencyKey?: string;
+  /** Owning designer, when the job is about one (for admin filtering). */
+  designerId?: mongoose.Types.ObjectId;
+  runAt: Date;
+  attempts: number;
+  maxAttempts: number;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  lastError?: string;
+  result?: Record<string, unknown>;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const JobSchema = new Schema<IJob>(
+  {
+    type:           { type: String, required: true },
+    payload:        { type: Schema.Types.Mixed, default: {} },
+    status: {
+      type: String,
+      enum: ["pending", "running", "completed", "dead"],
+      default: "pending",
+    },
+    idempotencyKey: { type: String },
+    designerId:     { type: Schema.Types.ObjectId, ref: "Designer" },
+    runAt:          { type: Date, required: true, default: Date.now },
+    attempts:       { type: Number, default: 0, min: 0 },
+    maxAttempts:    { type: Number, default: 5, min: 1 },
+    lockedBy:       { type: String },
+    lockedUntil:    { type: Date },
+    lastError:      { type: String, maxlength: 2000 },
+    result:         { type: Schema.Types.Mixed },
+    completedAt:    { type: Date },
+  },
+  { timestamps: true, minimize: false },
+);
+
+// Claim query: due pending jobs, oldest first
+JobSchema.index({ status: 1, runAt: 1 });
+// Stale-lock recovery
+JobSchema.index({ status: 1, lockedUntil: 1 });
+JobSchema.index({ idempotencyKey: 1 }, { unique: true, sparse: true });
+// Finished jobs are kept for 30 days for debugging, then swept
+JobSchema.index(
+  { completedAt: 1 },
+  { expireAfterSeconds: 30 * 24 * 60 * 60, partialFilterExpression: { status: "completed" } },
+);
+
+export const Job =
+  (mongoose.models.Job as mongoose.Model<IJob>) ||
+  mongoose.model<IJob>("Job", JobSchema);
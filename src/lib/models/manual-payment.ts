@@ -9,14 +9,16 @@ import mongoose, { Schema, type Document } from "mongoose";
 /*                                                                              */
 /*  Every paid feature in the app routes through this when the designer       */
 /*  picks "Pay by bank transfer":                                              */
-/*    purpose = subscription | boost_post | sms_pack | studio_addon          */
+/*    purpose = subscription | boost_post | sms_pack | studio_addon |        */
+/*              scan_credits                                                   */
 /* -------------------------------------------------------------------------- */
 
 export type ManualPaymentPurpose =
   | "subscription"
   | "boost_post"
   | "sms_pack"
-  | "studio_addon";
+  | "studio_addon"
+  | "scan_credits";
 
 export type ManualPaymentStatus = "pending" | "verified" | "rejected" | "refunded";
 
@@ -32,12 +34,14 @@ export interface IManualPayment extends Document {
   /** Per-purpose payload the activation helper needs. */
   payload: {
     planId?: "free" | "plus" | "pro";
+    interval?: "monthly" | "annual";
     orderId?: string;
     packId?: string;
     durationDays?: number;
     smsCount?: number;
   };
-  /** Optional bank-receipt screenshot (base64 data-URL or hosted URL). */
+  /** Optional bank-receipt screenshot — a private `/media/` path (legacy
+   *  records may still hold a base64 data-URL). */
   proofImage?: string;
   /** Designer's account name on the sending side. */
   senderName?: string;
@@ -67,13 +71,14 @@ const ManualPaymentSchema = new Schema<IManualPayment>(
     designerId: { type: Schema.Types.ObjectId, ref: "Designer", required: true, index: true },
     purpose: {
       type: String,
-      enum: ["subscription", "boost_post", "sms_pack", "studio_addon"],
+      enum: ["subscription", "boost_post", "sms_pack", "studio_addon", "scan_credits"],
       required: true,
     },
     amount:    { type: Number, required: true, min: 0 },
     reference: { type: String, required: true, index: true, unique: true },
     payload: {
       planId:       { type: String, enum: ["free", "plus", "pro"] },
+      interval:     { type: String, enum: ["monthly", "annual"] },
       orderId:      { type: String },
       packId:       { type: String },
       durationDays: { type: Number },
@@ -0,0 +1,80 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+/* -------------------------------------------------------------------------- */
+/*  Material                                                                   */
+/*                                                                              */
+/*  Something the workshop keeps in stock — fabric, lace, lining, thread,    */
+/*  zips, buttons. `onHand` is what's physically on the shelf; `reserved` is */
+/*  the part of it already promised to orders (see StockMovement). What can  */
+/*  still be promised is onHand − reserved.                                   */
+/*                                                                              */
+/*  `costPerUnit` is a moving average over stock-in receipts, so consumption */
+/*  is costed at what the stock actually cost.                                */
+/* -------------------------------------------------------------------------- */
+
+export const MATERIAL_CATEGORIES = [
+  "fabric",
+  "lace",
+  "lining",
+  "thread",
+  "zip",
+  "button",
+  "interfacing",
+  "other",
+] as const;
+
+export type MaterialCategory = (typeof MATERIAL_CATEGORIES)[number];
+
+export const MATERIAL_UNITS = ["yards", "pieces"] as const;
+
+export type MaterialUnit = (typeof MATERIAL_UNITS)[number];
+
+export interface IMaterial extends Document {
+  designerId: mongoose.Types.ObjectId;
+  name: string;
+  category: MaterialCategory;
+  unit: MaterialUnit;
+  /** NGN per unit — moving average of receipts */
+  costPerUnit: number;
+  supplier?: string;
+  /** Colour / print, free text ("wine", "gold cord") */
+  colour?: string;
+  onHand: number;
+  reserved: number;
+  /** Alert when available stock falls to this; 0 = never */
+  reorderLevel: number;
+  /** Set when a low-stock notification went out; cleared on restock */
+  lowStockAlertedAt?: Date | null;
+  /** Lease held while an order's reservation is released or consumed
+   *  (lib/inventory) — expires on its own if the holder crashes */
+  movementLockUntil?: Date | null;
+  notes?: string;
+  archived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MaterialSchema = new Schema<IMaterial>(
+  {
+    designerId: { type: Schema.Types.ObjectId, ref: "Designer", required: true, index: true },
+    name: { type: String, required: true, trim: true, maxlength: 80 },
+    category: { type: String, enum: MATERIAL_CATEGORIES, default: "fabric" },
+    unit: { type: String, enum: MATERIAL_UNITS, default: "yards" },
+    costPerUnit: { type: Number, default: 0, min: 0 },
+    supplier: { type: String, trim: true, maxlength: 80 },
+    colour: { type: String, trim: true, maxlength: 40 },
+    onHand: { type: Number, default: 0 },
+    reserved: { type: Number, default: 0, min: 0 },
+    reorderLevel: { type: Number, default: 0, min: 0 },
+    lowStockAlertedAt: { type: Date, default: null },
+    movementLockUntil: { type: Date, default: null },
+    notes: { type: String, maxlength: 500 },
+    archived: { type: Boolean, default: false },
+  },
+  { timestamps: true }
+);
+
+MaterialSchema.index({ designerId: 1, archived: 1, name: 1 });
+
+export const Material =
+  mongoose.models.Material || mongoose.model<IMaterial>("Material", MaterialSchema);
@@ -2,7 +2,7 @@ import mongoose, { Schema, Document } from "mongoose";
 
 export interface INotification extends Document {
   designerId: mongoose.Types.ObjectId;
-  type: "overdue_payment" | "deadline_approaching" | "event_prep" | "milestone" | "system";
+  type: "overdue_payment" | "deadline_approaching" | "event_prep" | "milestone" | "low_stock" | "system";
   title: string;
   message: string;
   read: boolean;
@@ -15,7 +15,7 @@ const NotificationSchema = new Schema<INotification>(
     designerId: { type: Schema.Types.ObjectId, ref: "Designer", required: true, index: true },
     type: {
       type: String,
-      enum: ["overdue_payment", "deadline_approaching", "event_prep", "milestone", "system"],
+      enum: ["overdue_payment", "deadline_approaching", "event_prep", "milestone", "low_stock", "system"],
       required: true,
     },
     title: { type: String, required: true },
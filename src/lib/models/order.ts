@@ -1,4 +1,5 @@
 import mongoose, { Schema, type Document } from "mongoose";
+import { syncVersionPlugin } from "./sync-version";
 
 export interface IStatusHistoryEntry {
   status: string;
@@ -13,6 +14,42 @@ export interface IPayment {
   paidAt: Date;
 }
 
+/** One garment on an order — see lib/order-items.ts */
+export interface IOrderItem {
+  _id?: mongoose.Types.ObjectId;
+  garmentType: string;
+  description?: string;
+  fabric?: string;
+  quantity: number;
+  unitPrice: number;
+  /** quantity × unitPrice */
+  price: number;
+  /** Per-line stage, validated against the designer's workflow */
+  status: string;
+  /** Client measurements (inches) captured when the line was added */
+  measurements?: Record<string, number>;
+  /** When those measurements were taken (not when the line was added) */
+  measuredAt?: Date;
+  /** Fit the cutting values are eased for */
+  fit?: "fitted" | "standard" | "loose";
+  /** Body + ease (inches) — see lib/order-items cuttingMeasurementsFor */
+  cuttingMeasurements?: Record<string, number>;
+  fabricWidthCm?: number;
+  notes?: string;
+}
+
+/** Why an order's measurement snapshot was taken or replaced */
+export interface IMeasurementLogEntry {
+  event: "created" | "cutting" | "refreshed";
+  /** measuredAt of the client measurements that went onto the order */
+  measuredAt?: Date;
+  /** Required for "refreshed" — why the locked numbers were replaced */
+  note?: string;
+  /** Who did it (a team member on refresh) */
+  by?: mongoose.Types.ObjectId;
+  at: Date;
+}
+
 export interface IOrder extends Document {
   designerId: mongoose.Types.ObjectId;
   clientId: mongoose.Types.ObjectId;
@@ -20,14 +57,23 @@ export interface IOrder extends Document {
   description?: string;
   status: string;
   statusHistory: IStatusHistoryEntry[];
+  /** First line's garment (kept for list views / Discover / legacy orders) */
   garmentType: string;
   fabric?: string;
+  /** `/media/` paths (see lib/media-storage); legacy orders may hold data URLs */
   fabricImages: string[];
+  /** Line items. Empty on orders created before multi-garment support. */
+  items: IOrderItem[];
+  /** Set once every line carries a measurement snapshot — see lib/order-measurements */
+  measurementsLockedAt?: Date;
+  measurementLog: IMeasurementLogEntry[];
+  /** Order total — sum of item prices when the order has items */
   price: number;
   currency: string;
   depositPaid: number;
   payments: IPayment[];
   paymentStatus: "unpaid" | "partial" | "paid" | "overdue";
+  /** `/media/` paths (see lib/media-storage); legacy orders may hold data URLs */
   gallery: string[];
   dueDate?: Date;
   notes?: string;
@@ -35,6 +81,10 @@ export interface IOrder extends Document {
   deletedAt?: Date;
   receiptSent: boolean;
   lastChasedAt?: Date;
+  /** Tone of the most recent reminder; automatic chasing stops after "final". */
+  lastChaseTone?: "gentle" | "firm" | "final";
+  /** Index of the next automatic-chase rule to apply (see Designer.autoChase). */
+  autoChaseStep?: number;
   /** Designer has chosen to feature this order on the public discovery feed. */
   featuredInFeed?: boolean;
   /** Optional caption shown on the public feed alongside the order's images. */
@@ -53,27 +103,62 @@ export interface IOrder extends Document {
   /** Server-set once we've already fired the "ready"-stage notification, so
    *  cycling status doesn't spam the designer. */
   notifyReadySentAt?: Date;
+  /** Designer-side switch for this order's client emails (the client's own
+   *  Client.emailUpdates must be on too). */
+  emailUpdates: boolean;
   /** Paid Discover boost — pinned to the top until this date. */
   boostedUntil?: Date;
   /** Lifetime number of boosts purchased on this post (analytics). */
   boostCount?: number;
+  /** Set when this order belongs to an aso-ebi / event group */
+  groupOrderId?: mongoose.Types.ObjectId;
+  /** Bumped on every write — see models/sync-version */
+  syncVersion: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const OrderItemSchema = new Schema<IOrderItem>({
+  garmentType: { type: String, required: true, trim: true },
+  description: { type: String },
+  fabric: { type: String },
+  quantity: { type: Number, default: 1, min: 1 },
+  unitPrice: { type: Number, required: true, min: 0 },
+  price: { type: Number, required: true, min: 0 },
+  status: { type: String, required: true, trim: true, default: "pending" },
+  measurements: { type: Schema.Types.Mixed },
+  measuredAt: { type: Date },
+  fit: { type: String, enum: ["fitted", "standard", "loose"] },
+  cuttingMeasurements: { type: Schema.Types.Mixed },
+  fabricWidthCm: { type: Number, min: 0 },
+  notes: { type: String },
+});
+
 const OrderSchema = new Schema<IOrder>(
   {
     designerId: { type: Schema.Types.ObjectId, ref: "Designer", required: true, index: true },
     clientId: { type: Schema.Types.ObjectId, ref: "Client", required: true, index: true },
     title: { type: String, required: true, trim: true },
     description: { type: String },
-    status: {
-      type: String,
-      enum: ["pending", "confirmed", "cutting", "sewing", "fitting", "finishing", "ready", "delivered", "cancelled"],
-      default: "pending",
-    },
+    // No enum — designers define their own stages (Designer.workflow).
+    // Transitions are validated against that workflow in the API routes.
+    status: { type: String, required: true, trim: true, default: "pending" },
     garmentType: { type: String, required: true },
     fabric: { type: String },
+    items: { type: [OrderItemSchema], default: [] },
+    measurementsLockedAt: { type: Date },
+    measurementLog: {
+      type: [
+        {
+          event: { type: String, enum: ["created", "cutting", "refreshed"], required: true },
+          measuredAt: { type: Date },
+          note: { type: String, maxlength: 500 },
+          by: { type: Schema.Types.ObjectId, ref: "Designer" },
+          at: { type: Date, default: Date.now },
+        },
+      ],
+      default: [],
+    },
     price: { type: Number, required: true, min: 0 },
     currency: { type: String, default: "NGN" },
     depositPaid: { type: Number, default: 0, min: 0 },
@@ -102,6 +187,8 @@ const OrderSchema = new Schema<IOrder>(
     deletedAt: { type: Date },
     receiptSent: { type: Boolean, default: false },
     lastChasedAt: { type: Date },
+    lastChaseTone: { type: String, enum: ["gentle", "firm", "final"] },
+    autoChaseStep: { type: Number, default: 0, min: 0 },
     featuredInFeed: { type: Boolean, default: false, index: true },
     feedCaption: { type: String, maxlength: 280 },
     featuredAt: { type: Date },
@@ -110,8 +197,10 @@ const OrderSchema = new Schema<IOrder>(
     feedImpressions: { type: Number, default: 0, min: 0 },
     notifyWhenReady: { type: Boolean, default: false },
     notifyReadySentAt: { type: Date },
+    emailUpdates: { type: Boolean, default: true },
     boostedUntil: { type: Date, index: true },
     boostCount: { type: Number, default: 0, min: 0 },
+    groupOrderId: { type: Schema.Types.ObjectId, ref: "GroupOrder", index: true, sparse: true },
     statusHistory: [
       {
         status: { type: String, required: true },
@@ -125,12 +214,26 @@ const OrderSchema = new Schema<IOrder>(
   }
 );
 
+OrderSchema.plugin(syncVersionPlugin);
+
+// A payment (or a payment taken back) changes what's owed, so automatic
+// chasing starts again from the designer's first, gentlest rule. Query
+// updates that change price do the same (see PUT /api/orders/[id]).
+OrderSchema.pre("save", function () {
+  if (!this.isNew && (this.isModified("price") || this.isModified("depositPaid"))) {
+    this.set("autoChaseStep", 0);
+    this.set("lastChaseTone", undefined);
+  }
+});
+
 OrderSchema.index({ designerId: 1, status: 1 });
 OrderSchema.index({ designerId: 1, createdAt: -1 });
 OrderSchema.index({ clientId: 1 });
 OrderSchema.index({ dueDate: 1 });
 // Discovery feed: list public-profile delivered orders that designers featured
 OrderSchema.index({ featuredInFeed: 1, featuredAt: -1 });
+// Offline sync change feed (lib/sync) — includes soft-deleted orders
+OrderSchema.index({ designerId: 1, updatedAt: 1, _id: 1 });
 
 export const Order =
   mongoose.models.Order || mongoose.model<IOrder>("Order", OrderSchema);
@@ -3,7 +3,7 @@ import mongoose, { Schema, type Document } from "mongoose";
 export interface IOutreach extends Document {
   designerId: mongoose.Types.ObjectId;
   clientId: mongoose.Types.ObjectId;
-  type: "whatsapp" | "call" | "note";
+  type: "whatsapp" | "sms" | "call" | "note";
   message?: string;
   sentAt: Date;
 }
@@ -12,7 +12,7 @@ const OutreachSchema = new Schema<IOutreach>(
   {
     designerId: { type: Schema.Types.ObjectId, ref: "Designer", required: true, index: true },
     clientId: { type: Schema.Types.ObjectId, ref: "Client", required: true, index: true },
-    type: { type: String, enum: ["whatsapp", "call", "note"], required: true },
+    type: { type: String, enum: ["whatsapp", "sms", "call", "note"], required: true },
     message: { type: String },
     sentAt: { type: Date, default: Date.now },
   },
@@ -0,0 +1,29 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+/* -------------------------------------------------------------------------- */
+/*  RateLimitBucket — one fixed window of hits for one rate-limit key.        */
+/*                                                                              */
+/*  Shared by every server instance so limits survive cold starts. The TTL   */
+/*  index on expiresAt lets MongoDB sweep finished windows on its own.       */
+/* -------------------------------------------------------------------------- */
+
+export interface IRateLimitBucket extends Document {
+  key: string;
+  windowStart: Date;
+  count: number;
+  expiresAt: Date;
+}
+
+const RateLimitBucketSchema = new Schema<IRateLimitBucket>({
+  key:         { type: String, required: true },
+  windowStart: { type: Date, required: true },
+  count:       { type: Number, default: 0 },
+  expiresAt:   { type: Date, required: true },
+});
+
+RateLimitBucketSchema.index({ key: 1, windowStart: 1 }, { unique: true });
+RateLimitBucketSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RateLimitBucket =
+  mongoose.models.RateLimitBucket ||
+  mongoose.model<IRateLimitBucket>("RateLimitBucket", RateLimitBucketSchema);
@@ -0,0 +1,60 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+/* -------------------------------------------------------------------------- */
+/*  Referral                                                                    */
+/*                                                                              */
+/*  One row per account that signed up with someone's referral code. It      */
+/*  stays "pending" until the new designer finishes onboarding or makes a    */
+/*  first payment, then both sides get scan credits ("rewarded") — unless   */
+/*  the fraud guard spots a shared phone or device ("flagged", for an admin  */
+/*  to approve or reject). See lib/referrals.                                  */
+/* -------------------------------------------------------------------------- */
+
+export type ReferralStatus = "pending" | "rewarded" | "flagged" | "rejected";
+export type ReferralTrigger = "onboarding" | "payment" | "admin";
+
+export interface IReferral extends Document {
+  referrerId: mongoose.Types.ObjectId;
+  refereeId: mongoose.Types.ObjectId;
+  /** The code as it was used — survives the referrer changing theirs. */
+  code: string;
+  status: ReferralStatus;
+  /** Browser id (DEVICE_COOKIE) the referee signed up from. */
+  deviceId?: string;
+  flagReason?: string;
+  trigger?: ReferralTrigger;
+  /** Scan credits actually granted — the referrer's is 0 past the cap. */
+  referrerReward: number;
+  refereeReward: number;
+  rewardedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReferralSchema = new Schema<IReferral>(
+  {
+    referrerId: { type: Schema.Types.ObjectId, ref: "Designer", required: true },
+    refereeId:  { type: Schema.Types.ObjectId, ref: "Designer", required: true, unique: true },
+    code:       { type: String, required: true, uppercase: true, trim: true },
+    status: {
+      type: String,
+      enum: ["pending", "rewarded", "flagged", "rejected"],
+      default: "pending",
+    },
+    deviceId:   { type: String },
+    flagReason: { type: String, maxlength: 200 },
+    trigger:    { type: String, enum: ["onboarding", "payment", "admin"] },
+    referrerReward: { type: Number, default: 0, min: 0 },
+    refereeReward:  { type: Number, default: 0, min: 0 },
+    rewardedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+ReferralSchema.index({ referrerId: 1, status: 1 });
+ReferralSchema.index({ referrerId: 1, deviceId: 1 });
+ReferralSchema.index({ status: 1, createdAt: -1 });
+
+export const Referral =
+  (mongoose.models.Referral as mongoose.Model<IReferral>) ||
+  mongoose.model<IReferral>("Referral", ReferralSchema);
@@ -0,0 +1,47 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+/* -------------------------------------------------------------------------- */
+/*  Review                                                                      */
+/*                                                                              */
+/*  A client's star rating (and optional comment) for one delivered order,   */
+/*  left from their portal link. One per order — rating again updates it.    */
+/*                                                                              */
+/*  Feeds the Stitcha Score and rank XP (see lib/reviews). Shows as a        */
+/*  testimonial on the public /designer/[id] profile only when the client    */
+/*  ticked shareAsTestimonial AND the designer hasn't hidden it.             */
+/* -------------------------------------------------------------------------- */
+
+export interface IReview extends Document {
+  designerId: mongoose.Types.ObjectId;
+  clientId: mongoose.Types.ObjectId;
+  orderId: mongoose.Types.ObjectId;
+  rating: number;
+  comment?: string;
+  /** Client's first name, snapshotted for the public testimonial. */
+  clientName: string;
+  shareAsTestimonial: boolean;
+  hidden: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReviewSchema = new Schema<IReview>(
+  {
+    designerId: { type: Schema.Types.ObjectId, ref: "Designer", required: true, index: true },
+    clientId: { type: Schema.Types.ObjectId, ref: "Client", required: true, index: true },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", required: true, unique: true },
+    rating: { type: Number, required: true, min: 1, max: 5 },
+    comment: { type: String, trim: true, maxlength: 500 },
+    clientName: { type: String, required: true, trim: true },
+    shareAsTestimonial: { type: Boolean, default: false },
+    hidden: { type: Boolean, default: false },
+  },
+  { timestamps: true }
+);
+
+ReviewSchema.index({ designerId: 1, createdAt: -1 });
+// Public testimonials: shared, not hidden, newest first
+ReviewSchema.index({ designerId: 1, shareAsTestimonial: 1, hidden: 1, createdAt: -1 });
+
+export const Review =
+  mongoose.models.Review || mongoose.model<IReview>("Review", ReviewSchema);
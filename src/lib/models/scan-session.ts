@@ -9,6 +9,8 @@ export interface IScanSession extends Document {
   status: "pending" | "processing" | "completed" | "failed" | "expired";
   measurements?: Record<string, number>;
   expiresAt: Date;
+  /** Created with a pay-per-scan credit because the plan quota was used up. */
+  paidWithCredit?: boolean;
   createdAt: Date;
 }
 
@@ -26,6 +28,7 @@ const ScanSessionSchema = new Schema<IScanSession>(
     },
     measurements: { type: Schema.Types.Mixed },
     expiresAt: { type: Date, required: true },
+    paidWithCredit: { type: Boolean, default: false },
   },
   {
     timestamps: true,
@@ -0,0 +1,63 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+/* -------------------------------------------------------------------------- */
+/*  StockMovement                                                              */
+/*                                                                              */
+/*  Ledger behind Material.onHand / reserved — one row per change:           */
+/*    receipt  — stock in from a supplier          onHand   += quantity       */
+/*    reserve  — set aside for an order            reserved += quantity       */
+/*    release  — reservation handed back           reserved −= quantity       */
+/*    consume  — cut for an order                  onHand   −= quantity,      */
+/*               reserved −= fromReserved                                     */
+/*    adjust   — stock-take correction (signed)    onHand   += quantity       */
+/*  `unitCost` is fixed at the time of the movement, so an order's material  */
+/*  cost is Σ quantity × unitCost over its consume rows.                      */
+/* -------------------------------------------------------------------------- */
+
+export type StockMovementKind = "receipt" | "reserve" | "release" | "consume" | "adjust";
+
+export interface IStockMovement extends Document {
+  designerId: mongoose.Types.ObjectId;
+  materialId: mongoose.Types.ObjectId;
+  orderId?: mongoose.Types.ObjectId;
+  kind: StockMovementKind;
+  quantity: number;
+  /** Part of a consume that came out of the order's own reservation */
+  fromReserved?: number;
+  unitCost: number;
+  supplier?: string;
+  /** Supplier invoice / receipt number */
+  reference?: string;
+  note?: string;
+  /** User who recorded it (a staff member in a team workspace) */
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+const StockMovementSchema = new Schema<IStockMovement>(
+  {
+    designerId: { type: Schema.Types.ObjectId, ref: "Designer", required: true, index: true },
+    materialId: { type: Schema.Types.ObjectId, ref: "Material", required: true },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order" },
+    kind: {
+      type: String,
+      enum: ["receipt", "reserve", "release", "consume", "adjust"],
+      required: true,
+    },
+    quantity: { type: Number, required: true },
+    fromReserved: { type: Number, min: 0 },
+    unitCost: { type: Number, default: 0, min: 0 },
+    supplier: { type: String, trim: true, maxlength: 80 },
+    reference: { type: String, trim: true, maxlength: 60 },
+    note: { type: String, maxlength: 200 },
+    createdBy: { type: Schema.Types.ObjectId, ref: "Designer" },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+StockMovementSchema.index({ materialId: 1, createdAt: -1 });
+StockMovementSchema.index({ designerId: 1, orderId: 1, kind: 1 });
+
+export const StockMovement =
+  mongoose.models.StockMovement ||
+  mongoose.model<IStockMovement>("StockMovement", StockMovementSchema);
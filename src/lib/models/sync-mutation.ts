@@ -0,0 +1,57 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+/* -------------------------------------------------------------------------- */
+/*  SyncMutation                                                                */
+/*                                                                              */
+/*  One change pushed from an offline device to POST /api/sync, keyed by the */
+/*  id the device gave it. On flaky connections the same batch often arrives */
+/*  twice (the response was lost, not the request) — replaying the stored    */
+/*  result instead of re-applying stops a retried create from making a       */
+/*  second client. Also how a later push resolves a temporary id that an     */
+/*  earlier push already created ("tmp_…" → serverId).                        */
+/* -------------------------------------------------------------------------- */
+
+export type SyncMutationStatus = "processing" | "applied" | "conflict" | "rejected";
+
+export interface ISyncMutation extends Document {
+  designerId: mongoose.Types.ObjectId;
+  mutationId: string;
+  entity: "client" | "order";
+  op: "create" | "update" | "delete";
+  /** The id the device used — a "tmp_" id for creates */
+  recordId: string;
+  /** Real id once a create has been applied */
+  serverId?: string;
+  status: SyncMutationStatus;
+  /** The result sent back to the device, replayed on a retry */
+  result?: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SyncMutationSchema = new Schema<ISyncMutation>(
+  {
+    designerId: { type: Schema.Types.ObjectId, ref: "Designer", required: true },
+    mutationId: { type: String, required: true },
+    entity: { type: String, enum: ["client", "order"], required: true },
+    op: { type: String, enum: ["create", "update", "delete"], required: true },
+    recordId: { type: String, required: true },
+    serverId: { type: String },
+    status: {
+      type: String,
+      enum: ["processing", "applied", "conflict", "rejected"],
+      default: "processing",
+    },
+    result: { type: Schema.Types.Mixed },
+  },
+  { timestamps: true }
+);
+
+SyncMutationSchema.index({ designerId: 1, mutationId: 1 }, { unique: true });
+SyncMutationSchema.index({ designerId: 1, recordId: 1 });
+// Devices retry for days at most; keep a month for safety
+SyncMutationSchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export const SyncMutation =
+  (mongoose.models.SyncMutation as mongoose.Model<ISyncMutation>) ||
+  mongoose.model<ISyncMutation>("SyncMutation", SyncMutationSchema);
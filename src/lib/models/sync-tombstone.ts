@@ -0,0 +1,39 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+/* -------------------------------------------------------------------------- */
+/*  SyncTombstone                                                               */
+/*                                                                              */
+/*  Clients are hard-deleted, so the sync change feed (lib/sync) can't find  */
+/*  them by updatedAt. Deleting one leaves a tombstone here so offline        */
+/*  devices drop their copy on the next pull. Orders are soft-deleted and    */
+/*  travel through the feed with isDeleted instead.                           */
+/*                                                                              */
+/*  Tombstones expire; a device whose cursor is older than that does a full  */
+/*  re-download instead (see SYNC_TOMBSTONE_TTL_DAYS).                         */
+/* -------------------------------------------------------------------------- */
+
+export const SYNC_TOMBSTONE_TTL_DAYS = 90;
+
+export interface ISyncTombstone extends Document {
+  designerId: mongoose.Types.ObjectId;
+  entity: "client";
+  entityId: mongoose.Types.ObjectId;
+  deletedAt: Date;
+}
+
+const SyncTombstoneSchema = new Schema<ISyncTombstone>({
+  designerId: { type: Schema.Types.ObjectId, ref: "Designer", required: true },
+  entity: { type: String, enum: ["client"], required: true },
+  entityId: { type: Schema.Types.ObjectId, required: true },
+  deletedAt: { type: Date, required: true, default: Date.now },
+});
+
+SyncTombstoneSchema.index({ designerId: 1, deletedAt: 1, _id: 1 });
+SyncTombstoneSchema.index(
+  { deletedAt: 1 },
+  { expireAfterSeconds: SYNC_TOMBSTONE_TTL_DAYS * 24 * 60 * 60 },
+);
+
+export const SyncTombstone =
+  (mongoose.models.SyncTombstone as mongoose.Model<ISyncTombstone>) ||
+  mongoose.model<ISyncTombstone>("SyncTombstone", SyncTombstoneSchema);
@@ -0,0 +1,29 @@
+import type { Schema, UpdateQuery } from "mongoose";
+
+/* -------------------------------------------------------------------------- */
+/*  syncVersion plugin                                                          */
+/*                                                                              */
+/*  Adds a per-record `syncVersion` that goes up by one on every write, so   */
+/*  offline devices can tell whether the copy they edited is still current   */
+/*  (see lib/sync). Covers save() and the query updates the API routes use.  */
+/*  Records written before the plugin have no field — treat missing as 0.   */
+/* -------------------------------------------------------------------------- */
+
+export function syncVersionPlugin(schema: Schema): void {
+  schema.add({ syncVersion: { type: Number, default: 0, min: 0 } });
+
+  schema.pre("save", function () {
+    if (!this.isNew && this.isModified()) {
+      this.set("syncVersion", ((this.get("syncVersion") as number | undefined) || 0) + 1);
+    }
+  });
+
+  schema.pre(["updateOne", "updateMany", "findOneAndUpdate"], function () {
+    const update = this.getUpdate();
+    // Aggregation-pipeline updates can't take $inc; none of ours use them
+    if (!update || Array.isArray(update)) return;
+    const ops = update as UpdateQuery<{ syncVersion: number }>;
+    ops.$inc = { ...(ops.$inc || {}), syncVersion: 1 };
+    this.setUpdate(ops);
+  });
+}
@@ -0,0 +1,51 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+/* -------------------------------------------------------------------------- */
+/*  TeamInvite                                                                  */
+/*                                                                              */
+/*  An owner's invitation for a staff member to join their workspace. The    */
+/*  link (/join/[token]) can be shared over WhatsApp or emailed; whoever      */
+/*  accepts it while signed in becomes staff with the invited role. An        */
+/*  outstanding invite holds a seat until it is accepted, revoked or expires. */
+/* -------------------------------------------------------------------------- */
+
+export type TeamInviteStatus = "pending" | "accepted" | "revoked";
+export type StaffRole = "manager" | "apprentice";
+
+export interface ITeamInvite extends Document {
+  ownerId: mongoose.Types.ObjectId;
+  token: string;
+  role: StaffRole;
+  /** Optional — when set, only an account with this email can accept. */
+  email?: string;
+  status: TeamInviteStatus;
+  expiresAt: Date;
+  acceptedBy?: mongoose.Types.ObjectId;
+  acceptedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TeamInviteSchema = new Schema<ITeamInvite>(
+  {
+    ownerId: { type: Schema.Types.ObjectId, ref: "Designer", required: true, index: true },
+    token: { type: String, required: true, unique: true },
+    role: { type: String, enum: ["manager", "apprentice"], required: true },
+    email: { type: String, lowercase: true, trim: true },
+    status: {
+      type: String,
+      enum: ["pending", "accepted", "revoked"],
+      default: "pending",
+    },
+    expiresAt: { type: Date, required: true },
+    acceptedBy: { type: Schema.Types.ObjectId, ref: "Designer" },
+    acceptedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+TeamInviteSchema.index({ ownerId: 1, status: 1, expiresAt: 1 });
+
+export const TeamInvite =
+  (mongoose.models.TeamInvite as mongoose.Model<ITeamInvite>) ||
+  mongoose.model<ITeamInvite>("TeamInvite", TeamInviteSchema);
@@ -0,0 +1,64 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+/* -------------------------------------------------------------------------- */
+/*  WhatsAppMessage                                                            */
+/*                                                                              */
+/*  Every message that goes through the WhatsApp Cloud API number, in and    */
+/*  out (lib/whatsapp-cloud). Inbound rows double as the webhook's           */
+/*  idempotency key — Meta redelivers until it gets a 200, and the unique    */
+/*  waMessageId stops a command running twice. Outbound rows follow the     */
+/*  delivery receipts: sent → delivered → read, or failed.                   */
+/* -------------------------------------------------------------------------- */
+
+export type WhatsAppDirection = "in" | "out";
+
+export type WhatsAppMessageStatus = "received" | "sent" | "delivered" | "read" | "failed";
+
+export interface IWhatsAppMessage extends Document {
+  /** Set once the number is matched to a designer (or the send was theirs) */
+  designerId?: mongoose.Types.ObjectId;
+  direction: WhatsAppDirection;
+  /** Meta's message id (wamid.…) */
+  waMessageId: string;
+  /** The other party, international format without "+" */
+  phone: string;
+  kind: "text" | "template" | "interactive" | "other";
+  body?: string;
+  /** Template name, for kind "template" */
+  template?: string;
+  status: WhatsAppMessageStatus;
+  error?: string;
+  deliveredAt?: Date;
+  readAt?: Date;
+  failedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WhatsAppMessageSchema = new Schema<IWhatsAppMessage>(
+  {
+    designerId: { type: Schema.Types.ObjectId, ref: "Designer", index: true },
+    direction: { type: String, enum: ["in", "out"], required: true },
+    waMessageId: { type: String, required: true, unique: true },
+    phone: { type: String, required: true },
+    kind: { type: String, enum: ["text", "template", "interactive", "other"], default: "text" },
+    body: { type: String, maxlength: 4096 },
+    template: { type: String },
+    status: {
+      type: String,
+      enum: ["received", "sent", "delivered", "read", "failed"],
+      required: true,
+    },
+    error: { type: String },
+    deliveredAt: { type: Date },
+    readAt: { type: Date },
+    failedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+WhatsAppMessageSchema.index({ phone: 1, createdAt: -1 });
+
+export const WhatsAppMessage =
+  mongoose.models.WhatsAppMessage ||
+  mongoose.model<IWhatsAppMessage>("WhatsAppMessage", WhatsAppMessageSchema);
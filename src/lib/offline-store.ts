@@ -1,21 +1,88 @@
 /* -------------------------------------------------------------------------- */
 /*  Offline-First Data Store using IndexedDB                                   */
 /*  Uses the `idb` library for a Promise-based IndexedDB wrapper              */
-/*  All mutations write locally first, then sync to MongoDB in background     */
+/*                                                                              */
+/*  Local-first clients and orders: `localChanges` writes to IndexedDB        */
+/*  straight away and queues the change; `syncNow` pushes the queue to       */
+/*  POST /api/sync and pulls the server's change feed from GET /api/sync     */
+/*  (protocol in lib/sync). Nothing is ever dropped from the queue — a        */
+/*  change the server can't take becomes a SyncConflict the user settles.    */
 /* -------------------------------------------------------------------------- */
 
 import { openDB, type IDBPDatabase } from "idb";
 
 const DB_NAME = "stitcha-offline";
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 
-interface SyncQueueItem {
+/** Mirrors TEMP_ID_PREFIX in lib/sync */
+const TEMP_ID_PREFIX = "tmp_";
+/** Mirrors the syncPushSchema limit */
+const PUSH_BATCH_SIZE = 50;
+/** Stop one run from looping forever on a huge first download */
+const MAX_PULL_PAGES = 50;
+
+export type SyncEntity = "client" | "order";
+type SyncRecord = Record<string, unknown> & { _id: string };
+
+const STORE: Record<SyncEntity, "clients" | "orders"> = {
+  client: "clients",
+  order: "orders",
+};
+
+export interface PendingMutation {
+  id: string;
+  entity: SyncEntity;
+  op: "create" | "update" | "delete";
+  recordId: string;
+  baseVersion?: number;
+  /** Values of the changed fields before the first local edit */
+  base?: Record<string, unknown>;
+  changes?: Record<string, unknown>;
+  /** Workspace the change was made in (null before the first pull) */
+  workspaceId: string | null;
+  createdAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface SyncFieldConflict {
+  field: string;
+  mine: unknown;
+  theirs: unknown;
+}
+
+/**
+ * A queued change the server didn't fully take.
+ *   conflict — fields changed on another device too (see `fields`), or a
+ *              delete of something edited elsewhere
+ *   deleted  — the record was deleted on another device
+ *   rejected — not allowed or invalid (see `error`)
+ */
+export interface SyncConflict {
   id: string;
-  url: string;
-  method: string;
-  body?: string;
+  kind: "conflict" | "deleted" | "rejected";
+  entity: SyncEntity;
+  op: PendingMutation["op"];
+  recordId: string;
+  /** Client name / order title, for the list */
+  label: string;
+  fields: SyncFieldConflict[];
+  /** Everything the device tried to save */
+  changes?: Record<string, unknown>;
+  /** Server copy; null when it no longer exists */
+  record: SyncRecord | null;
+  error?: string;
   createdAt: number;
-  retries: number;
+}
+
+/** One entry of POST /api/sync's results — see SyncMutationResult in lib/sync */
+interface PushResult {
+  id: string;
+  status: "applied" | "conflict" | "rejected" | "retry";
+  serverId?: string;
+  record?: SyncRecord | null;
+  conflicts?: SyncFieldConflict[];
+  error?: string;
 }
 
 /* ---- Database schema ---- */
@@ -41,10 +108,18 @@ function getDB() {
         if (!db.objectStoreNames.contains("measurements")) {
           db.createObjectStore("measurements", { keyPath: "_id" });
         }
-        // Sync queue for pending API requests
-        if (!db.objectStoreNames.contains("syncQueue")) {
-          const syncStore = db.createObjectStore("syncQueue", { keyPath: "id" });
-          syncStore.createIndex("createdAt", "createdAt");
+        // v1 queued raw URL + body requests; nothing ever wrote to it
+        if (db.objectStoreNames.contains("syncQueue")) {
+          db.deleteObjectStore("syncQueue");
+        }
+        // Local changes waiting for POST /api/sync, oldest first
+        if (!db.objectStoreNames.contains("mutations")) {
+          const mutationStore = db.createObjectStore("mutations", { keyPath: "id" });
+          mutationStore.createIndex("createdAt", "createdAt");
+        }
+        // Changes the server didn't take, waiting for the user
+        if (!db.objectStoreNames.contains("conflicts")) {
+          db.createObjectStore("conflicts", { keyPath: "id" });
         }
         // Key-value store for metadata
         if (!db.objectStoreNames.contains("meta")) {
@@ -125,87 +200,436 @@ export const offlineStore = {
 };
 
 /* -------------------------------------------------------------------------- */
-/*  Sync Queue — queues failed API requests for retry                         */
+/*  Mutation queue                                                             */
 /* -------------------------------------------------------------------------- */
 
-export const syncQueue = {
-  /** Add a failed request to the retry queue */
-  async add(url: string, method: string, body?: string): Promise<void> {
-    const db = await getDB();
-    if (!db) return;
-    const item: SyncQueueItem = {
-      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-      url,
-      method,
-      body,
-      createdAt: Date.now(),
-      retries: 0,
-    };
-    await db.put("syncQueue", item);
-  },
+function newId(prefix = ""): string {
+  const random = typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+  return `${prefix}${random}`;
+}
+
+export function isTempId(id: string): boolean {
+  return id.startsWith(TEMP_ID_PREFIX);
+}
+
+/** Mutations in the push that's currently on the wire */
+const inFlight = new Set<string>();
 
-  /** Get all pending sync items */
-  async getAll(): Promise<SyncQueueItem[]> {
+/** Safe to fold more edits into, or cancel: the server has never seen it. */
+function isUnsent(m: PendingMutation): boolean {
+  return m.attempts === 0 && !inFlight.has(m.id);
+}
+
+const mutationQueue = {
+  /** Pending changes, oldest first */
+  async getAll(): Promise<PendingMutation[]> {
     const db = await getDB();
     if (!db) return [];
-    return db.getAll("syncQueue");
+    return db.getAllFromIndex("mutations", "createdAt");
+  },
+
+  async put(mutation: PendingMutation): Promise<void> {
+    await offlineStore.put("mutations", mutation);
   },
 
-  /** Remove a successfully synced item */
   async remove(id: string): Promise<void> {
+    await offlineStore.delete("mutations", id);
+  },
+
+  async count(): Promise<number> {
     const db = await getDB();
-    if (!db) return;
-    await db.delete("syncQueue", id);
+    if (!db) return 0;
+    return db.count("mutations");
+  },
+
+  /** Queued changes for one record (after any earlier temp-id remap) */
+  async forRecord(entity: SyncEntity, recordId: string): Promise<PendingMutation[]> {
+    const all = await this.getAll();
+    return all.filter((m) => m.entity === entity && m.recordId === recordId);
+  },
+};
+
+/** Overlay still-queued edits on a server copy so a pull doesn't hide them. */
+async function withPendingChanges(entity: SyncEntity, record: SyncRecord): Promise<SyncRecord> {
+  const pending = await mutationQueue.forRecord(entity, record._id);
+  return pending.reduce<SyncRecord>(
+    (acc, m) => (m.op === "update" ? { ...acc, ...m.changes } : acc),
+    record,
+  );
+}
+
+/**
+ * Local-first writes. Each updates IndexedDB immediately and queues the
+ * change for the next sync, so the UI never waits on the network.
+ * Consecutive edits to one record are folded into one queued change.
+ */
+export const localChanges = {
+  /** Create with a temporary id; it becomes a real id once synced. */
+  async create(entity: SyncEntity, data: Record<string, unknown>): Promise<SyncRecord> {
+    const now = Date.now();
+    const record: SyncRecord = {
+      ...data,
+      _id: newId(TEMP_ID_PREFIX),
+      syncVersion: 0,
+      createdAt: new Date(now).toISOString(),
+      updatedAt: new Date(now).toISOString(),
+    };
+    await offlineStore.put(STORE[entity], record);
+    await mutationQueue.put({
+      id: newId(),
+      entity,
+      op: "create",
+      recordId: record._id,
+      changes: data,
+      workspaceId: await offlineStore.getMeta("workspaceId") ?? null,
+      createdAt: now,
+      attempts: 0,
+    });
+    notifyChange();
+    return record;
   },
 
-  /** Process all pending sync items with exponential backoff */
-  async flush(): Promise<{ synced: number; failed: number }> {
-    const items = await this.getAll();
-    let synced = 0;
-    let failed = 0;
-
-    for (const item of items) {
-      // Max 5 retries
-      if (item.retries >= 5) {
-        await this.remove(item.id);
-        failed++;
-        continue;
+  async update(entity: SyncEntity, id: string, changes: Record<string, unknown>): Promise<SyncRecord | null> {
+    const current = (await offlineStore.get(STORE[entity], id)) as SyncRecord | undefined;
+    if (!current) return null;
+
+    const updated: SyncRecord = { ...current, ...changes, updatedAt: new Date().toISOString() };
+    await offlineStore.put(STORE[entity], updated);
+
+    // Fold into a still-queued create or update for the same record, keeping
+    // the earliest base — that's what the server copy is compared against.
+    const pending = (await mutationQueue.forRecord(entity, id)).at(-1);
+    if (pending && (pending.op === "create" || pending.op === "update") && isUnsent(pending)) {
+      const base = { ...pending.base };
+      for (const field of Object.keys(changes)) {
+        if (pending.op === "update" && !(field in base)) base[field] = current[field] ?? null;
       }
+      await mutationQueue.put({
+        ...pending,
+        changes: { ...pending.changes, ...changes },
+        ...(pending.op === "update" ? { base } : {}),
+      });
+    } else {
+      const base: Record<string, unknown> = {};
+      for (const field of Object.keys(changes)) base[field] = current[field] ?? null;
+      await mutationQueue.put({
+        id: newId(),
+        entity,
+        op: "update",
+        recordId: id,
+        baseVersion: typeof current.syncVersion === "number" ? current.syncVersion : undefined,
+        base,
+        changes,
+        workspaceId: await offlineStore.getMeta("workspaceId") ?? null,
+        createdAt: Date.now(),
+        attempts: 0,
+      });
+    }
+    notifyChange();
+    return updated;
+  },
 
-      try {
-        const res = await fetch(item.url, {
-          method: item.method,
-          headers: item.body ? { "Content-Type": "application/json" } : undefined,
-          body: item.body,
-        });
-
-        if (res.ok) {
-          await this.remove(item.id);
-          synced++;
-        } else {
-          // Increment retries for next attempt
-          const db = await getDB();
-          if (db) {
-            await db.put("syncQueue", { ...item, retries: item.retries + 1 });
-          }
-          failed++;
-        }
-      } catch {
-        const db = await getDB();
-        if (db) {
-          await db.put("syncQueue", { ...item, retries: item.retries + 1 });
+  async remove(entity: SyncEntity, id: string): Promise<void> {
+    const current = (await offlineStore.get(STORE[entity], id)) as SyncRecord | undefined;
+    await offlineStore.delete(STORE[entity], id);
+
+    // Never reached the server — just forget it ever existed
+    const pending = await mutationQueue.forRecord(entity, id);
+    if (isTempId(id) && pending.some((m) => m.op === "create" && isUnsent(m))) {
+      await Promise.all(pending.map((m) => mutationQueue.remove(m.id)));
+      notifyChange();
+      return;
+    }
+
+    await mutationQueue.put({
+      id: newId(),
+      entity,
+      op: "delete",
+      recordId: id,
+      baseVersion: typeof current?.syncVersion === "number" ? current.syncVersion : undefined,
+      workspaceId: await offlineStore.getMeta("workspaceId") ?? null,
+      createdAt: Date.now(),
+      attempts: 0,
+    });
+    notifyChange();
+  },
+};
+
+/** An order from this device's copy, with its client attached like GET /api/orders/[id]. */
+export async function getCachedOrder(id: string): Promise<SyncRecord | null> {
+  const order = (await offlineStore.get("orders", id)) as SyncRecord | undefined;
+  if (!order) return null;
+  const client = (await offlineStore.get("clients", String(order.clientId))) as SyncRecord | undefined;
+  return { ...order, client: client ?? undefined };
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Push / pull                                                                */
+/* -------------------------------------------------------------------------- */
+
+function recordLabel(entity: SyncEntity, record?: Record<string, unknown> | null, changes?: Record<string, unknown>): string {
+  const value = entity === "client"
+    ? record?.name ?? changes?.name
+    : record?.title ?? changes?.title;
+  return typeof value === "string" && value ? value : entity === "client" ? "A client" : "An order";
+}
+
+/** A create landed: swap the temporary id for the real one everywhere. */
+async function remapTempId(entity: SyncEntity, tempId: string, serverId: string): Promise<void> {
+  await offlineStore.delete(STORE[entity], tempId);
+
+  const queued = await mutationQueue.getAll();
+  for (const m of queued) {
+    const ownsRecord = m.entity === entity && m.recordId === tempId;
+    const refersToClient = entity === "client" && m.changes?.clientId === tempId;
+    if (!ownsRecord && !refersToClient) continue;
+    await mutationQueue.put({
+      ...m,
+      ...(ownsRecord ? { recordId: serverId } : {}),
+      ...(refersToClient ? { changes: { ...m.changes, clientId: serverId } } : {}),
+    });
+  }
+
+  if (entity === "client") {
+    const orders = (await offlineStore.getAll("orders")) as SyncRecord[];
+    const affected = orders.filter((o) => o.clientId === tempId);
+    await offlineStore.putMany("orders", affected.map((o) => ({ ...o, clientId: serverId })));
+  }
+  await offlineStore.setMeta(`remap:${tempId}`, serverId);
+}
+
+/** Where a temporary id ended up, once its create has synced. */
+export async function resolveTempId(id: string): Promise<string | null> {
+  if (!isTempId(id)) return id;
+  return (await offlineStore.getMeta(`remap:${id}`)) ?? null;
+}
+
+async function applyPushResult(mutation: PendingMutation, result: PushResult): Promise<void> {
+  const { entity } = mutation;
+  const recordId = result.serverId ?? mutation.recordId;
+
+  if (mutation.op === "create" && result.serverId && result.serverId !== mutation.recordId) {
+    await remapTempId(entity, mutation.recordId, result.serverId);
+  }
+  await mutationQueue.remove(mutation.id);
+
+  if (result.record) {
+    await offlineStore.put(STORE[entity], await withPendingChanges(entity, result.record));
+  } else if (result.record === null) {
+    await offlineStore.delete(STORE[entity], recordId);
+  } else if (result.status === "rejected" && mutation.op === "create") {
+    await offlineStore.delete(STORE[entity], mutation.recordId);
+  }
+
+  if (result.status === "applied") return;
+
+  const conflict: SyncConflict = {
+    id: mutation.id,
+    kind: result.status === "rejected" ? "rejected" : result.record === null ? "deleted" : "conflict",
+    entity,
+    op: mutation.op,
+    recordId,
+    label: recordLabel(entity, result.record, mutation.changes),
+    fields: result.conflicts ?? [],
+    changes: mutation.changes,
+    record: result.record ?? null,
+    error: result.error,
+    createdAt: Date.now(),
+  };
+  await offlineStore.put("conflicts", conflict);
+}
+
+/** Push queued changes for the current workspace. Returns false on a network/server failure. */
+async function pushMutations(workspaceId: string | null): Promise<boolean> {
+  const queued = (await mutationQueue.getAll()).filter(
+    (m) => m.workspaceId === null || m.workspaceId === workspaceId
+  );
+
+  for (let i = 0; i < queued.length; i += PUSH_BATCH_SIZE) {
+    const batch = queued.slice(i, i + PUSH_BATCH_SIZE);
+    let results: PushResult[];
+    batch.forEach((m) => inFlight.add(m.id));
+    try {
+      const res = await fetch("/api/sync", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          mutations: batch.map((m) => ({
+            id: m.id,
+            entity: m.entity,
+            op: m.op,
+            recordId: m.recordId,
+            baseVersion: m.baseVersion,
+            base: m.base,
+            changes: m.changes,
+          })),
+        }),
+      });
+      const json = await res.json();
+      if (!json.success) throw new Error(json.error || `Sync failed (${res.status})`);
+      results = json.data.results;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Sync failed";
+      await Promise.all(
+        batch.map((m) => mutationQueue.put({ ...m, attempts: m.attempts + 1, lastError: message }))
+      );
+      return false;
+    } finally {
+      batch.forEach((m) => inFlight.delete(m.id));
+    }
+
+    // Re-read each one: an earlier result may have remapped its ids
+    for (const result of results) {
+      const mutation = (await offlineStore.get("mutations", result.id)) as PendingMutation | undefined;
+      if (!mutation) continue;
+      if (result.status === "retry") {
+        await mutationQueue.put({ ...mutation, attempts: mutation.attempts + 1, lastError: result.error });
+        return false;
+      }
+      await applyPushResult(mutation, result);
+    }
+  }
+  return true;
+}
+
+/** Drop cached records, keeping anything with changes still to push. */
+async function clearSyncedRecords(): Promise<void> {
+  const queued = await mutationQueue.getAll();
+  for (const entity of ["client", "order"] as const) {
+    const keep = new Set(queued.filter((m) => m.entity === entity).map((m) => m.recordId));
+    const records = (await offlineStore.getAll(STORE[entity])) as SyncRecord[];
+    await Promise.all(
+      records.filter((r) => !keep.has(r._id)).map((r) => offlineStore.delete(STORE[entity], r._id))
+    );
+  }
+}
+
+/** Pull the change feed until caught up. Returns false on failure. */
+async function pullChanges(): Promise<boolean> {
+  let cursor: string | null = await offlineStore.getMeta("syncCursor");
+  if (!cursor) await clearSyncedRecords();
+
+  for (let page = 0; page < MAX_PULL_PAGES; page++) {
+    let data: {
+      designerId: string;
+      clients: SyncRecord[];
+      orders: SyncRecord[];
+      deleted: { clients: string[]; orders: string[] };
+      cursor: string;
+      hasMore: boolean;
+      reset: boolean;
+    };
+    try {
+      const res = await fetch(`/api/sync${cursor ? `?since=${encodeURIComponent(cursor)}` : ""}`);
+      const json = await res.json();
+      if (!json.success) {
+        // A cursor from an older protocol or another deployment — start over
+        if (res.status === 400 && cursor) {
+          await offlineStore.setMeta("syncCursor", null);
+          cursor = null;
+          await clearSyncedRecords();
+          continue;
         }
-        failed++;
+        return false;
       }
+      data = json.data;
+    } catch {
+      return false;
     }
 
-    return { synced, failed };
+    // Switched workspace (staff ↔ own shop): the cached records are someone else's
+    const workspaceId = await offlineStore.getMeta("workspaceId");
+    if (data.reset || (workspaceId && workspaceId !== data.designerId)) {
+      await clearSyncedRecords();
+    }
+    await offlineStore.setMeta("workspaceId", data.designerId);
+
+    const clients = await Promise.all(data.clients.map((c) => withPendingChanges("client", c)));
+    const orders = await Promise.all(data.orders.map((o) => withPendingChanges("order", o)));
+    await offlineStore.putMany("clients", clients);
+    await offlineStore.putMany("orders", orders);
+    await Promise.all([
+      ...data.deleted.clients.map((id) => offlineStore.delete("clients", id)),
+      ...data.deleted.orders.map((id) => offlineStore.delete("orders", id)),
+    ]);
+
+    cursor = data.cursor;
+    await offlineStore.setMeta("syncCursor", cursor);
+    await offlineStore.setMeta("lastSyncTimestamp", Date.now());
+    if (!data.hasMore) break;
+  }
+  return true;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Conflicts                                                                  */
+/* -------------------------------------------------------------------------- */
+
+export const syncConflicts = {
+  async getAll(): Promise<SyncConflict[]> {
+    const all = (await offlineStore.getAll("conflicts")) as SyncConflict[];
+    return all.sort((a, b) => a.createdAt - b.createdAt);
   },
 
-  /** Get count of pending items */
   async count(): Promise<number> {
-    const items = await this.getAll();
-    return items.length;
+    const db = await getDB();
+    if (!db) return 0;
+    return db.count("conflicts");
+  },
+
+  /**
+   * Settle a conflict. `keepMine` lists the conflicting fields where the
+   * device's value should win (for a delete conflict, any entry means
+   * "delete anyway"); everything else keeps the server's value. Rejected
+   * and deleted ones can only be dismissed — call with no fields.
+   */
+  async resolve(id: string, keepMine: string[] = []): Promise<void> {
+    const conflict = (await offlineStore.get("conflicts", id)) as SyncConflict | undefined;
+    if (!conflict) return;
+    await offlineStore.delete("conflicts", id);
+
+    const record = conflict.record;
+    if (conflict.kind !== "conflict" || !record || keepMine.length === 0) {
+      notifyChange();
+      return;
+    }
+
+    const workspaceId = await offlineStore.getMeta("workspaceId") ?? null;
+    const baseVersion = typeof record.syncVersion === "number" ? record.syncVersion : undefined;
+
+    if (conflict.op === "delete") {
+      await offlineStore.delete(STORE[conflict.entity], record._id);
+      await mutationQueue.put({
+        id: newId(),
+        entity: conflict.entity,
+        op: "delete",
+        recordId: record._id,
+        baseVersion,
+        workspaceId,
+        createdAt: Date.now(),
+        attempts: 0,
+      });
+    } else {
+      const chosen = conflict.fields.filter((f) => keepMine.includes(f.field));
+      const changes = Object.fromEntries(chosen.map((f) => [f.field, f.mine]));
+      const base = Object.fromEntries(chosen.map((f) => [f.field, f.theirs]));
+      await offlineStore.put(STORE[conflict.entity], { ...record, ...changes });
+      await mutationQueue.put({
+        id: newId(),
+        entity: conflict.entity,
+        op: "update",
+        recordId: record._id,
+        baseVersion,
+        base,
+        changes,
+        workspaceId,
+        createdAt: Date.now(),
+        attempts: 0,
+      });
+    }
+    notifyChange();
   },
 };
 
@@ -217,116 +641,121 @@ export type SyncStatus = "synced" | "pending" | "failed" | "offline";
 
 export async function getSyncStatus(): Promise<SyncStatus> {
   if (!navigator.onLine) return "offline";
-  const count = await syncQueue.count();
+  const count = await mutationQueue.count();
   if (count > 0) return "pending";
   return "synced";
 }
 
-/* -------------------------------------------------------------------------- */
-/*  Auto-Sync on Reconnect                                                     */
-/*  Listens for 'online' event and flushes queue with exponential backoff     */
-/* -------------------------------------------------------------------------- */
+export async function getPendingCount(): Promise<number> {
+  return mutationQueue.count();
+}
 
-type SyncListener = (status: SyncStatus, pendingCount: number) => void;
+type SyncListener = (status: SyncStatus, pendingCount: number, conflictCount: number) => void;
 const syncListeners = new Set<SyncListener>();
+let lastStatus: SyncStatus = "synced";
 
 export function onSyncStatusChange(fn: SyncListener): () => void {
   syncListeners.add(fn);
   return () => { syncListeners.delete(fn); };
 }
 
-function notifyListeners(status: SyncStatus, count: number) {
-  syncListeners.forEach((fn) => fn(status, count));
+async function notifyListeners(status: SyncStatus) {
+  lastStatus = status;
+  const [pending, conflicts] = await Promise.all([mutationQueue.count(), syncConflicts.count()]);
+  syncListeners.forEach((fn) => fn(status, pending, conflicts));
 }
 
-let autoSyncInitialized = false;
-
-export function initAutoSync(): void {
-  if (typeof window === "undefined" || autoSyncInitialized) return;
-  autoSyncInitialized = true;
+/** A local change was queued or settled — refresh counts, sync soon. */
+function notifyChange() {
+  void notifyListeners(typeof navigator !== "undefined" && !navigator.onLine ? "offline" : lastStatus === "synced" ? "pending" : lastStatus);
+  scheduleSync(0);
+}
 
-  let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+/* -------------------------------------------------------------------------- */
+/*  Sync runs                                                                  */
+/* -------------------------------------------------------------------------- */
 
-  async function attemptSync(attempt = 0): Promise<void> {
+let running: Promise<boolean> | null = null;
+let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+let failures = 0;
+
+/**
+ * Pull, push, and pull again if anything was pushed. Only one run at a
+ * time; resolves true when everything got through.
+ */
+export function syncNow(): Promise<boolean> {
+  if (running) return running;
+  running = (async () => {
+    if (typeof window === "undefined") return false;
     if (!navigator.onLine) {
-      notifyListeners("offline", await syncQueue.count());
-      return;
-    }
-
-    const pending = await syncQueue.count();
-    if (pending === 0) {
-      notifyListeners("synced", 0);
-      return;
+      await notifyListeners("offline");
+      return false;
     }
 
-    notifyListeners("pending", pending);
-
-    const { synced, failed } = await syncQueue.flush();
-    const remainingCount = await syncQueue.count();
-
-    if (remainingCount === 0) {
-      notifyListeners("synced", 0);
-      return;
+    await notifyListeners("pending");
+    let ok = await pullChanges();
+    if (ok) {
+      const hadQueued = (await mutationQueue.count()) > 0;
+      ok = await pushMutations(await offlineStore.getMeta("workspaceId") ?? null);
+      if (ok && hadQueued) ok = await pullChanges();
     }
 
-    // Exponential backoff: 1s, 2s, 4s, 8s, 16s (max 5 retries)
-    if (failed > 0 && attempt < 5) {
-      const delay = Math.min(1000 * Math.pow(2, attempt), 16000);
-      notifyListeners("pending", remainingCount);
-      retryTimeout = setTimeout(() => attemptSync(attempt + 1), delay);
-    } else if (attempt >= 5) {
-      notifyListeners("failed", remainingCount);
+    const remaining = await mutationQueue.count();
+    if (ok && remaining === 0) {
+      failures = 0;
+      await notifyListeners("synced");
+    } else {
+      failures++;
+      await notifyListeners(navigator.onLine ? (failures >= 5 ? "failed" : "pending") : "offline");
+      // Exponential backoff: 2s, 4s, 8s ... capped at 2 minutes. Keeps
+      // trying for as long as there's something to send.
+      if (remaining > 0 || !ok) scheduleSync(Math.min(1000 * Math.pow(2, failures), 120000));
     }
-  }
-
-  window.addEventListener("online", () => {
-    if (retryTimeout) clearTimeout(retryTimeout);
-    attemptSync(0);
-  });
-
-  window.addEventListener("offline", async () => {
-    if (retryTimeout) clearTimeout(retryTimeout);
-    notifyListeners("offline", await syncQueue.count());
+    return ok && remaining === 0;
+  })().finally(() => {
+    running = null;
   });
+  return running;
+}
 
-  // Check on init
-  attemptSync(0);
+function scheduleSync(delay: number) {
+  if (typeof window === "undefined") return;
+  if (retryTimeout) clearTimeout(retryTimeout);
+  retryTimeout = setTimeout(() => {
+    retryTimeout = null;
+    void syncNow();
+  }, delay);
 }
 
 /* -------------------------------------------------------------------------- */
-/*  Seed local store from server on first load                                 */
+/*  Auto-Sync on Reconnect                                                     */
+/*  Syncs on load, on reconnect, when the tab comes back, and every 5 min    */
 /* -------------------------------------------------------------------------- */
 
-export async function seedFromServer(): Promise<void> {
-  try {
-    const lastSync = await offlineStore.getMeta("lastSyncTimestamp");
-    const now = Date.now();
+let autoSyncInitialized = false;
 
-    // Only re-seed if last sync was more than 5 minutes ago
-    if (lastSync && now - lastSync < 5 * 60 * 1000) return;
+export function initAutoSync(): void {
+  if (typeof window === "undefined" || autoSyncInitialized) return;
+  autoSyncInitialized = true;
 
-    const [clientsRes, ordersRes] = await Promise.all([
-      fetch("/api/clients?limit=200"),
-      fetch("/api/orders?limit=200"),
-    ]);
+  window.addEventListener("online", () => {
+    failures = 0;
+    scheduleSync(0);
+  });
 
-    if (clientsRes.ok) {
-      const json = await clientsRes.json();
-      if (json.success && json.data?.clients) {
-        await offlineStore.putMany("clients", json.data.clients);
-      }
-    }
+  window.addEventListener("offline", () => {
+    if (retryTimeout) clearTimeout(retryTimeout);
+    void notifyListeners("offline");
+  });
 
-    if (ordersRes.ok) {
-      const json = await ordersRes.json();
-      if (json.success && json.data) {
-        const orders = Array.isArray(json.data) ? json.data : json.data.orders || [];
-        await offlineStore.putMany("orders", orders);
-      }
-    }
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "visible") scheduleSync(0);
+  });
 
-    await offlineStore.setMeta("lastSyncTimestamp", now);
-  } catch {
-    // Silently fail — we're likely offline
-  }
+  setInterval(() => {
+    if (document.visibilityState === "visible") scheduleSync(0);
+  }, 5 * 60 * 1000);
+
+  // Check on init
+  scheduleSync(0);
 }
@@ -0,0 +1,201 @@
+/* -------------------------------------------------------------------------- */
+/*  Order Line Items                                                           */
+/*  One order can carry several garments (agbada + cap + trousers for the     */
+/*  same event). Each line has its own garment, fabric, quantity, price,      */
+/*  status and measurement snapshot.                                           */
+/*                                                                              */
+/*  Order.price stays the order total (sum of lines) so payments, balances,   */
+/*  the payment chaser and finance aggregations keep working unchanged.       */
+/*  Orders created before line items existed have no `items` — getOrderLines  */
+/*  synthesises a single line from the legacy order-level fields.             */
+/*  Pure module — safe to import from client components.                      */
+/* -------------------------------------------------------------------------- */
+
+import { calculateEase, type FitType } from "./ease-allowance";
+
+export interface OrderLine {
+  _id?: string;
+  garmentType: string;
+  description?: string;
+  fabric?: string;
+  quantity: number;
+  unitPrice: number;
+  /** Line total (quantity × unitPrice) */
+  price: number;
+  status: string;
+  /** Client measurements (inches) captured when the line was added */
+  measurements?: Record<string, number>;
+  measuredAt?: Date | string;
+  /** Fit the ease allowance is calculated for (default "standard") */
+  fit?: FitType;
+  /** Body + ease (inches) for `fit` — what the cutter marks on the fabric */
+  cuttingMeasurements?: Record<string, number>;
+  fabricWidthCm?: number;
+  notes?: string;
+}
+
+export interface OrderLineInput {
+  _id?: string;
+  garmentType: string;
+  description?: string;
+  fabric?: string;
+  quantity?: number;
+  unitPrice?: number;
+  fit?: FitType;
+  fabricWidthCm?: number;
+  notes?: string;
+}
+
+/** Most lines a single order can carry */
+export const MAX_ORDER_LINES = 20;
+
+export function lineTotal(line: { quantity?: number; unitPrice?: number }): number {
+  const qty = Math.max(1, Math.floor(Number(line.quantity) || 1));
+  return qty * Math.max(0, Number(line.unitPrice) || 0);
+}
+
+export function sumLines(lines: { quantity?: number; unitPrice?: number }[]): number {
+  return lines.reduce((sum, l) => sum + lineTotal(l), 0);
+}
+
+/**
+ * The lines on an order. Legacy single-garment orders come back as one line
+ * built from garmentType / fabric / price / status.
+ */
+export function getOrderLines(order: {
+  items?: OrderLine[];
+  garmentType?: string;
+  description?: string;
+  fabric?: string;
+  price?: number;
+  status?: string;
+}): OrderLine[] {
+  if (order.items && order.items.length > 0) return order.items;
+  return [
+    {
+      garmentType: order.garmentType || "Garment",
+      description: order.description,
+      fabric: order.fabric,
+      quantity: 1,
+      unitPrice: order.price || 0,
+      price: order.price || 0,
+      status: order.status || "pending",
+    },
+  ];
+}
+
+/** Short human summary — "Agbada, Cap + Trousers", "2× Aso-oke Gele" */
+export function summarizeGarments(lines: { garmentType: string; quantity?: number }[]): string {
+  const parts = lines.map((l) =>
+    (l.quantity || 1) > 1 ? `${l.quantity}× ${l.garmentType}` : l.garmentType
+  );
+  if (parts.length <= 1) return parts[0] || "";
+  return `${parts.slice(0, -1).join(", ")} + ${parts[parts.length - 1]}`;
+}
+
+export function derivePaymentStatus(
+  total: number,
+  paid: number
+): "unpaid" | "partial" | "paid" {
+  if (paid >= total) return "paid";
+  return paid > 0 ? "partial" : "unpaid";
+}
+
+/**
+ * When the snapshotted measurements were taken — not when the line was
+ * added — so an order records exactly which measurement set it was cut from.
+ */
+function snapshotTakenAt(measurements: Record<string, unknown>): Date {
+  const at = measurements.measuredAt ? new Date(measurements.measuredAt as string) : null;
+  return at && !isNaN(at.getTime()) ? at : new Date();
+}
+
+/**
+ * Ease-adjusted cutting values for a snapshot. Undefined when the garment
+ * has no ease table (the cutter works from body measurements instead).
+ */
+export function cuttingMeasurementsFor(
+  garmentType: string,
+  fit: FitType,
+  measurements: Record<string, unknown> | undefined
+): Record<string, number> | undefined {
+  if (!measurements) return undefined;
+  const body: Record<string, number | undefined> = {};
+  for (const [k, v] of Object.entries(measurements)) {
+    if (typeof v === "number") body[k] = v;
+  }
+  const ease = calculateEase(garmentType, fit, body);
+  if (!ease || Object.keys(ease.results).length === 0) return undefined;
+  return Object.fromEntries(Object.entries(ease.results).map(([k, r]) => [k, r.cutting]));
+}
+
+/**
+ * Put `measurements` on a line as its locked snapshot, with cutting values
+ * for the line's fit. Used when the order is created, when it reaches
+ * cutting without one, and on an explicit "refresh from client".
+ */
+export function snapshotLine<T extends OrderLine>(line: T, measurements: Record<string, number>): T {
+  const fit = line.fit || "standard";
+  return {
+    ...line,
+    fit,
+    measurements,
+    measuredAt: snapshotTakenAt(measurements),
+    cuttingMeasurements: cuttingMeasurementsFor(line.garmentType, fit, measurements),
+  };
+}
+
+/**
+ * Clean incoming line items and merge them with what's already stored.
+ * Existing lines (matched by _id) keep their status and measurement
+ * snapshot; new lines start in "pending" and snapshot `measurements`.
+ * Cutting values follow the line's fit, always from its own snapshot.
+ */
+export function buildOrderLines(
+  input: OrderLineInput[],
+  existing: OrderLine[] = [],
+  measurements?: Record<string, number>
+): OrderLine[] {
+  const byId = new Map(existing.filter((l) => l._id).map((l) => [String(l._id), l]));
+  return input.slice(0, MAX_ORDER_LINES).map((raw) => {
+    const prev = raw._id ? byId.get(String(raw._id)) : undefined;
+    const quantity = Math.max(1, Math.floor(Number(raw.quantity) || 1));
+    const unitPrice = Math.max(0, Number(raw.unitPrice) || 0);
+    const garmentType = raw.garmentType.trim();
+    const fit = raw.fit || prev?.fit || "standard";
+    const snapshot = prev ? prev.measurements : measurements;
+    return {
+      ...(prev?._id ? { _id: prev._id } : {}),
+      garmentType,
+      description: raw.description?.trim() || undefined,
+      fabric: raw.fabric?.trim() || undefined,
+      quantity,
+      unitPrice,
+      price: quantity * unitPrice,
+      status: prev?.status || "pending",
+      measurements: snapshot,
+      measuredAt: prev ? prev.measuredAt : measurements ? snapshotTakenAt(measurements) : undefined,
+      fit,
+      cuttingMeasurements: cuttingMeasurementsFor(garmentType, fit, snapshot),
+      fabricWidthCm: raw.fabricWidthCm ?? prev?.fabricWidthCm,
+      notes: raw.notes?.trim() || undefined,
+    };
+  });
+}
+
+/**
+ * Order-level fields derived from the lines. garmentType / fabric mirror the
+ * first line so list views, Discover and the AI helpers keep a single value
+ * to show.
+ */
+export function deriveOrderFields(lines: OrderLine[]): {
+  price: number;
+  garmentType: string;
+  fabric?: string;
+} {
+  return {
+    price: lines.reduce((sum, l) => sum + l.price, 0),
+    garmentType: lines[0]?.garmentType || "Garment",
+    fabric: lines.find((l) => l.fabric)?.fabric,
+  };
+}
@@ -0,0 +1,165 @@
+/* -------------------------------------------------------------------------- */
+/*  Order measurement snapshots                                                */
+/*                                                                              */
+/*  An order is cut from the numbers it was locked with, not whatever the     */
+/*  client's record says today. Each line carries its own snapshot (body      */
+/*  measurements + ease-adjusted cutting values for its fit):                 */
+/*    1. at creation, when the client has measurements                        */
+/*    2. when the order first enters production, for lines still without one */
+/*    3. on an explicit "refresh from client", which needs an audit note     */
+/*  Re-measuring the client never touches an order on its own.                */
+/*  The order page, cutting plan and printed documents all read the lines.   */
+/* -------------------------------------------------------------------------- */
+
+import { Order, type IMeasurementLogEntry } from "@/lib/models/order";
+import { Client } from "@/lib/models/client";
+import { logActivity } from "@/lib/models/activity-log";
+import { getOrderLines, snapshotLine, type OrderLine } from "@/lib/order-items";
+import type { WriteResult } from "@/lib/record-writes";
+
+/** Shortest note accepted on a refresh — "re-measured at fitting" etc. */
+export const MIN_REFRESH_NOTE_LENGTH = 3;
+
+async function clientMeasurements(clientId: unknown): Promise<Record<string, number> | null> {
+  const client = await Client.findById(clientId).select("measurements").lean();
+  const m = (client as { measurements?: unknown } | null)?.measurements;
+  return m ? (JSON.parse(JSON.stringify(m)) as Record<string, number>) : null;
+}
+
+/** The lines of a stored order as plain objects (legacy orders get one line) */
+function plainLines(order: InstanceType<typeof Order>): OrderLine[] {
+  return getOrderLines(JSON.parse(JSON.stringify(order)) as Parameters<typeof getOrderLines>[0]);
+}
+
+/**
+ * Lock fields for a freshly built order: locked straight away when every
+ * line was snapshotted, otherwise left for the production transition.
+ */
+export function initialMeasurementLock(lines: OrderLine[]): {
+  measurementsLockedAt?: Date;
+  measurementLog: Omit<IMeasurementLogEntry, "by">[];
+} {
+  if (lines.length === 0 || lines.some((l) => !l.measurements)) return { measurementLog: [] };
+  const now = new Date();
+  return {
+    measurementsLockedAt: now,
+    measurementLog: [{
+      event: "created",
+      measuredAt: lines[0].measuredAt ? new Date(lines[0].measuredAt) : undefined,
+      at: now,
+    }],
+  };
+}
+
+/**
+ * Snapshot the client's current measurements onto any line that doesn't have
+ * one yet. Called when an order (or one of its lines) enters production.
+ * No-op once locked, or while the client has never been measured.
+ */
+export async function lockOrderMeasurements(designerId: string, orderId: string): Promise<void> {
+  const order = await Order.findOne({ _id: orderId, designerId, isDeleted: { $ne: true } });
+  if (!order || order.measurementsLockedAt) return;
+
+  const lines = plainLines(order);
+  const missing = lines.some((l) => !l.measurements);
+  const measurements = missing ? await clientMeasurements(order.clientId) : null;
+  if (missing && !measurements) return;
+
+  const now = new Date();
+  const items = measurements
+    ? lines.map((l) => (l.measurements ? l : snapshotLine(l, measurements)))
+    : lines;
+  const snapped = items.find((l) => l.measuredAt);
+
+  await Order.updateOne(
+    { _id: order._id },
+    {
+      $set: { items, measurementsLockedAt: now },
+      $push: {
+        measurementLog: {
+          event: "cutting",
+          measuredAt: snapped?.measuredAt ? new Date(snapped.measuredAt) : undefined,
+          at: now,
+        },
+      },
+    }
+  );
+
+  logActivity({
+    designerId,
+    action: "lock_order_measurements",
+    entity: "order",
+    entityId: String(order._id),
+    details: `Locked measurements on "${order.title}" for cutting`,
+    metadata: { measuredAt: snapped?.measuredAt ?? null },
+  });
+}
+
+/**
+ * Replace every line's snapshot with the client's current measurements.
+ * The note is required — it is the only record of why the numbers the
+ * garment is being cut from changed.
+ */
+export async function refreshOrderMeasurements(
+  designerId: string,
+  orderId: string,
+  actorId: string,
+  note: string,
+): Promise<WriteResult<InstanceType<typeof Order>>> {
+  const reason = note.trim();
+  if (reason.length < MIN_REFRESH_NOTE_LENGTH) {
+    return { ok: false, status: 400, message: "Add a note saying why the measurements are being refreshed" };
+  }
+
+  const order = await Order.findOne({ _id: orderId, designerId, isDeleted: { $ne: true } });
+  if (!order) {
+    return { ok: false, status: 404, message: "Order not found" };
+  }
+
+  const measurements = await clientMeasurements(order.clientId);
+  if (!measurements) {
+    return { ok: false, status: 400, message: "This client has no measurements to refresh from" };
+  }
+
+  const lines = plainLines(order);
+  const items = lines.map((l) => snapshotLine(l, measurements));
+  const measuredAt = items[0].measuredAt ? new Date(items[0].measuredAt) : undefined;
+  const previous = lines.find((l) => l.measuredAt)?.measuredAt;
+  if (
+    measuredAt &&
+    lines.every((l) => l.measuredAt && new Date(l.measuredAt).getTime() === measuredAt.getTime())
+  ) {
+    return { ok: false, status: 409, message: "This order already uses the client's latest measurements" };
+  }
+
+  const now = new Date();
+  const updated = await Order.findOneAndUpdate(
+    { _id: order._id },
+    {
+      $set: { items, measurementsLockedAt: now },
+      $push: {
+        measurementLog: { event: "refreshed", measuredAt, note: reason, by: actorId, at: now },
+      },
+    },
+    { new: true }
+  );
+  if (!updated) {
+    return { ok: false, status: 404, message: "Order not found" };
+  }
+
+  logActivity({
+    designerId,
+    action: "refresh_order_measurements",
+    entity: "order",
+    entityId: String(order._id),
+    details: `Refreshed measurements on "${order.title}" from the client record: ${reason}`,
+    metadata: {
+      note: reason,
+      previousMeasuredAt: previous ?? null,
+      measuredAt: measuredAt ?? null,
+      by: actorId,
+    },
+  });
+
+  return { ok: true, doc: updated };
+}
@@ -1,10 +1,17 @@
 /* -------------------------------------------------------------------------- */
 /*  Order Status State Machine                                                 */
 /*  Defines valid transitions and prevents invalid status jumps               */
+/*                                                                              */
+/*  Every designer can define their own workflow (stages + allowed moves),    */
+/*  stored on Designer.workflow. Designers who never customise it run on      */
+/*  DEFAULT_WORKFLOW below. Everything in here is pure — safe to import from  */
+/*  client components. Loading a designer's workflow from Mongo lives in      */
+/*  lib/designer-workflow.ts.                                                  */
 /* -------------------------------------------------------------------------- */
 
 export const ORDER_STATUSES = [
   "pending",
+  "confirmed",
   "cutting",
   "sewing",
   "fitting",
@@ -17,49 +24,140 @@ export const ORDER_STATUSES = [
 export type OrderStatus = (typeof ORDER_STATUSES)[number];
 
 /**
- * Map of valid transitions: key = current status, value = list of allowed next statuses.
- * - Linear flow: pending → cutting → sewing → fitting → finishing → ready → delivered
+ * Stages every workflow must contain. The rest of the app keys behaviour off
+ * them: new orders start in "pending", the portal / notify-when-ready flow
+ * watches "ready" and "delivered", and finances exclude "cancelled".
+ */
+export const CORE_STATUSES = ["pending", "ready", "delivered", "cancelled"] as const;
+
+/** Terminal stages — no transitions out. */
+export const TERMINAL_STATUSES = ["delivered", "cancelled"] as const;
+
+/** Badge colour tokens (same palette as ORDER_STATUSES in lib/constants). */
+export type StageColor = "gold" | "info" | "terracotta" | "success" | "destructive";
+
+export interface WorkflowStage {
+  /** Stored on Order.status — lowercase slug, e.g. "embroidery". */
+  key: string;
+  /** Human-readable label shown in the app. */
+  label: string;
+  /** Statuses this stage may move to. Rework loops are just backward edges. */
+  next: string[];
+  /** Optional stages can be skipped: any stage that can move INTO an optional
+   *  stage may also jump straight to wherever that stage leads. */
+  optional?: boolean;
+  color?: StageColor;
+  /** Custom client-facing WhatsApp wording ("Your order is ___"). */
+  clientMessage?: { en?: string; pidgin?: string };
+}
+
+export interface OrderWorkflow {
+  stages: WorkflowStage[];
+}
+
+/**
+ * Default pipeline:
+ * - Linear flow: pending → (confirmed) → cutting → sewing → fitting → finishing → ready → delivered
+ * - "confirmed" is optional — pending can go straight to cutting
  * - Rework: fitting can go back to sewing
  * - Cancel: any status (except delivered) can transition to cancelled
  */
-const VALID_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
-  pending:    ["cutting", "cancelled"],
-  cutting:    ["sewing", "cancelled"],
-  sewing:     ["fitting", "cancelled"],
-  fitting:    ["finishing", "sewing", "cancelled"],  // sewing = rework loop
-  finishing:  ["ready", "cancelled"],
-  ready:      ["delivered", "cancelled"],
-  delivered:  [],                                     // terminal state
-  cancelled:  [],                                     // terminal state
+export const DEFAULT_WORKFLOW: OrderWorkflow = {
+  stages: [
+    { key: "pending",   label: "Pending",   next: ["confirmed"],          color: "gold" },
+    { key: "confirmed", label: "Confirmed", next: ["cutting"],            color: "info", optional: true },
+    { key: "cutting",   label: "Cutting",   next: ["sewing"],             color: "terracotta" },
+    { key: "sewing",    label: "Sewing",    next: ["fitting"],            color: "terracotta" },
+    { key: "fitting",   label: "Fitting",   next: ["finishing", "sewing"], color: "gold" }, // sewing = rework loop
+    { key: "finishing", label: "Finishing", next: ["ready"],              color: "terracotta" },
+    { key: "ready",     label: "Ready",     next: ["delivered"],          color: "success" },
+    { key: "delivered", label: "Delivered", next: [],                     color: "success" },
+    { key: "cancelled", label: "Cancelled", next: [],                     color: "destructive" },
+  ],
 };
 
-/** Check if transitioning from `from` to `to` is allowed */
-export function isValidTransition(from: string, to: string): boolean {
-  const allowed = VALID_TRANSITIONS[from as OrderStatus];
-  if (!allowed) return false;
-  return allowed.includes(to as OrderStatus);
+function findStage(workflow: OrderWorkflow, key: string): WorkflowStage | undefined {
+  return workflow.stages.find((s) => s.key === key);
+}
+
+function isTerminal(status: string): boolean {
+  return (TERMINAL_STATUSES as readonly string[]).includes(status);
 }
 
 /** Get the list of valid next statuses for the current status */
-export function getNextStatuses(current: string): OrderStatus[] {
-  return VALID_TRANSITIONS[current as OrderStatus] ?? [];
+export function getNextStatuses(
+  current: string,
+  workflow: OrderWorkflow = DEFAULT_WORKFLOW,
+): string[] {
+  if (isTerminal(current)) return [];
+  const stage = findStage(workflow, current);
+  // Orders left in a stage the designer has since removed can move anywhere
+  if (!stage) return workflow.stages.map((s) => s.key).filter((k) => k !== "pending");
+
+  const result: string[] = [];
+  const seen = new Set<string>([current]);
+  const queue = [...stage.next];
+  while (queue.length > 0) {
+    const key = queue.shift()!;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const target = findStage(workflow, key);
+    if (!target) continue;
+    result.push(key);
+    // Skipping an optional stage = also allowing whatever it leads to
+    if (target.optional) queue.push(...target.next);
+  }
+
+  // Cancel is always available from a non-terminal stage
+  if (!result.includes("cancelled") && findStage(workflow, "cancelled")) {
+    result.push("cancelled");
+  }
+  return result;
+}
+
+/** Check if transitioning from `from` to `to` is allowed */
+export function isValidTransition(
+  from: string,
+  to: string,
+  workflow: OrderWorkflow = DEFAULT_WORKFLOW,
+): boolean {
+  return getNextStatuses(from, workflow).includes(to);
+}
+
+/** Does this workflow know about `status` at all? */
+export function isKnownStatus(status: string, workflow: OrderWorkflow = DEFAULT_WORKFLOW): boolean {
+  return !!findStage(workflow, status);
+}
+
+/**
+ * Production has started once an order leaves the intake stages. Used to lock
+ * price / garment / fabric edits. Custom stages count as production.
+ */
+export function isInProduction(status: string): boolean {
+  return !["pending", "confirmed", "cancelled"].includes(status);
+}
+
+/** Human-readable labels for every stage in a workflow */
+export function getStatusLabels(workflow: OrderWorkflow = DEFAULT_WORKFLOW): Record<string, string> {
+  const labels: Record<string, string> = {};
+  for (const s of workflow.stages) labels[s.key] = s.label;
+  return labels;
+}
+
+/** Label for a single status — falls back to a title-cased key */
+export function getStatusLabel(status: string, workflow: OrderWorkflow = DEFAULT_WORKFLOW): string {
+  const stage = findStage(workflow, status);
+  if (stage) return stage.label;
+  return status.charAt(0).toUpperCase() + status.slice(1).replace(/[_-]/g, " ");
 }
 
 /** Human-readable status labels */
-export const STATUS_LABELS: Record<OrderStatus, string> = {
-  pending:    "Pending",
-  cutting:    "Cutting",
-  sewing:     "Sewing",
-  fitting:    "Fitting",
-  finishing:  "Finishing",
-  ready:      "Ready",
-  delivered:  "Delivered",
-  cancelled:  "Cancelled",
-};
+export const STATUS_LABELS: Record<string, string> = getStatusLabels(DEFAULT_WORKFLOW);
 
 /** Status colors for UI badges */
 export const STATUS_COLORS: Record<OrderStatus, { bg: string; text: string }> = {
   pending:    { bg: "bg-gray-100",    text: "text-gray-600" },
+  confirmed:  { bg: "bg-sky-100",     text: "text-sky-600" },
   cutting:    { bg: "bg-blue-100",    text: "text-blue-600" },
   sewing:     { bg: "bg-indigo-100",  text: "text-indigo-600" },
   fitting:    { bg: "bg-purple-100",  text: "text-purple-600" },
@@ -68,3 +166,116 @@ export const STATUS_COLORS: Record<OrderStatus, { bg: string; text: string }> =
   delivered:  { bg: "bg-green-100",   text: "text-green-700" },
   cancelled:  { bg: "bg-red-100",     text: "text-red-600" },
 };
+
+/* -------------------------------------------------------------------------- */
+/*  Validation                                                                  */
+/*  Run on every save from /api/designer/workflow so a broken definition can  */
+/*  never strand orders in a stage with no way out.                            */
+/* -------------------------------------------------------------------------- */
+
+const STAGE_KEY_RE = /^[a-z][a-z0-9_-]{0,29}$/;
+const STAGE_COLORS: StageColor[] = ["gold", "info", "terracotta", "success", "destructive"];
+const MAX_STAGES = 20;
+
+export function slugifyStageKey(label: string): string {
+  return label
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .replace(/^(\d)/, "s_$1")
+    .slice(0, 30);
+}
+
+export function validateWorkflow(
+  input: unknown,
+): { ok: true; workflow: OrderWorkflow } | { ok: false; errors: string[] } {
+  const errors: string[] = [];
+  const raw = (input as { stages?: unknown })?.stages;
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { ok: false, errors: ["Workflow must have at least one stage."] };
+  }
+  if (raw.length > MAX_STAGES) {
+    return { ok: false, errors: [`A workflow can have at most ${MAX_STAGES} stages.`] };
+  }
+
+  const stages: WorkflowStage[] = [];
+  const keys = new Set<string>();
+  for (const item of raw as Record<string, unknown>[]) {
+    const key = String(item?.key ?? "").trim();
+    const label = String(item?.label ?? "").trim().slice(0, 40);
+    if (!STAGE_KEY_RE.test(key)) {
+      errors.push(`"${key || label}" is not a valid stage key (lowercase letters, numbers, _ or -).`);
+      continue;
+    }
+    if (keys.has(key)) {
+      errors.push(`Stage "${key}" appears more than once.`);
+      continue;
+    }
+    keys.add(key);
+    const next = Array.isArray(item.next) ? (item.next as unknown[]).map(String) : [];
+    const color = STAGE_COLORS.includes(item.color as StageColor) ? (item.color as StageColor) : undefined;
+    const cm = item.clientMessage as { en?: unknown; pidgin?: unknown } | undefined;
+    stages.push({
+      key,
+      label: label || getStatusLabel(key),
+      next: Array.from(new Set(next.filter((n) => n !== key))),
+      ...(item.optional ? { optional: true } : {}),
+      ...(color ? { color } : {}),
+      ...(cm && (cm.en || cm.pidgin)
+        ? {
+            clientMessage: {
+              ...(cm.en ? { en: String(cm.en).slice(0, 120) } : {}),
+              ...(cm.pidgin ? { pidgin: String(cm.pidgin).slice(0, 120) } : {}),
+            },
+          }
+        : {}),
+    });
+  }
+
+  for (const core of CORE_STATUSES) {
+    if (!keys.has(core)) errors.push(`The "${core}" stage is required.`);
+  }
+
+  for (const s of stages) {
+    for (const n of s.next) {
+      if (!keys.has(n)) errors.push(`"${s.label}" moves to unknown stage "${n}".`);
+    }
+    if (isTerminal(s.key) && s.next.length > 0) {
+      errors.push(`"${s.label}" is a final stage and cannot move anywhere.`);
+    }
+    if (s.key === "pending" && s.optional) {
+      errors.push(`"Pending" is where every order starts and cannot be optional.`);
+    }
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  // Every stage must be reachable from "pending", and "delivered" must be
+  // reachable from every non-terminal stage — otherwise orders get stuck.
+  const wf: OrderWorkflow = { stages };
+  const reachable = (from: string): Set<string> => {
+    const seen = new Set<string>([from]);
+    const queue = [from];
+    while (queue.length > 0) {
+      const cur = queue.shift()!;
+      for (const n of getNextStatuses(cur, wf)) {
+        if (!seen.has(n)) {
+          seen.add(n);
+          queue.push(n);
+        }
+      }
+    }
+    return seen;
+  };
+
+  const fromPending = reachable("pending");
+  for (const s of stages) {
+    if (!fromPending.has(s.key)) errors.push(`"${s.label}" can never be reached from Pending.`);
+    if (!isTerminal(s.key) && !reachable(s.key).has("delivered")) {
+      errors.push(`Orders in "${s.label}" can never reach Delivered.`);
+    }
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, workflow: wf };
+}
@@ -0,0 +1,684 @@
+/* -------------------------------------------------------------------------- */
+/*  Block Pattern Drafting                                                     */
+/*  Drafts real pattern pieces as vector outlines (inches) from a measurement */
+/*  set + garment type + fit — the curves pattern-panels leaves to the hand:  */
+/*    • bodice front/back with waist darts (back shoulder dart too)           */
+/*    • one-piece set-in sleeve with a shaped cap                             */
+/*    • trouser front/back with the crotch curve                              */
+/*    • straight skirt front/back with waist darts                            */
+/*                                                                              */
+/*  Formulas are a simplified close-fitting block system: quarter-body        */
+/*  widths from the ease-adjusted circumferences, proportional fallbacks for */
+/*  anything not measured (reported in `warnings`). Pieces are drafted on the */
+/*  stitch line; seam and hem allowances are per edge and added by            */
+/*  cuttingLine(). Rendering lives in pattern-export.                         */
+/*  Pure module — safe to import from client components.                      */
+/* -------------------------------------------------------------------------- */
+
+import { calculateEase, type FitType } from "./ease-allowance";
+import { STANDARD_HEM_BODICE, STANDARD_HEM_BOTTOM, STANDARD_SEAM } from "./pattern-panels";
+import { roundEighth } from "./units";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** One edge of a piece outline, drawn from the previous edge's end point */
+export interface PieceEdge {
+  to: Point;
+  /** Cubic bezier control points — a straight edge when absent */
+  c1?: Point;
+  c2?: Point;
+  /** Added outside the stitch line when cutting (0 on a fold) */
+  allowance: number;
+  fold?: boolean;
+}
+
+export interface Dart {
+  legs: [Point, Point];
+  apex: Point;
+}
+
+/** Notch on an edge — `t` is the position along it (0–1) */
+export interface Notch {
+  edge: number;
+  t: number;
+}
+
+export interface PatternPiece {
+  name: string;
+  /** How many to cut */
+  quantity: number;
+  onFold?: boolean;
+  /** Closed stitch-line outline */
+  start: Point;
+  edges: PieceEdge[];
+  darts: Dart[];
+  notches: Notch[];
+  grainline: [Point, Point];
+  notes?: string;
+}
+
+export interface DraftedPattern {
+  garmentLabel: string;
+  fit: FitType;
+  pieces: PatternPiece[];
+  /** Sleeve cap length minus armhole length (inches), when both are drafted */
+  capEase?: number;
+  warnings: string[];
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Geometry                                                                    */
+/* -------------------------------------------------------------------------- */
+
+/** Points sampled along each curved edge */
+const CURVE_STEPS = 16;
+
+function pt(x: number, y: number): Point {
+  return { x: roundEighth(x * 2) / 2, y: roundEighth(y * 2) / 2 };
+}
+
+function bezier(p0: Point, c1: Point, c2: Point, p3: Point, t: number): Point {
+  const u = 1 - t;
+  return {
+    x: u * u * u * p0.x + 3 * u * u * t * c1.x + 3 * u * t * t * c2.x + t * t * t * p3.x,
+    y: u * u * u * p0.y + 3 * u * u * t * c1.y + 3 * u * t * t * c2.y + t * t * t * p3.y,
+  };
+}
+
+function edgeStarts(piece: PatternPiece): Point[] {
+  return piece.edges.map((_, i) => (i === 0 ? piece.start : piece.edges[i - 1].to));
+}
+
+/** Point and unit tangent at `t` along an edge */
+export function pointOnEdge(from: Point, edge: PieceEdge, t: number): { point: Point; tangent: Point } {
+  if (!edge.c1 || !edge.c2) {
+    const dx = edge.to.x - from.x;
+    const dy = edge.to.y - from.y;
+    const len = Math.hypot(dx, dy) || 1;
+    return { point: { x: from.x + dx * t, y: from.y + dy * t }, tangent: { x: dx / len, y: dy / len } };
+  }
+  const a = bezier(from, edge.c1, edge.c2, edge.to, Math.max(0, t - 0.01));
+  const b = bezier(from, edge.c1, edge.c2, edge.to, Math.min(1, t + 0.01));
+  const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+  return {
+    point: bezier(from, edge.c1, edge.c2, edge.to, t),
+    tangent: { x: (b.x - a.x) / len, y: (b.y - a.y) / len },
+  };
+}
+
+/** The edge as a polyline, including both end points */
+export function flattenEdge(from: Point, edge: PieceEdge): Point[] {
+  if (!edge.c1 || !edge.c2) return [from, edge.to];
+  const points: Point[] = [];
+  for (let i = 0; i <= CURVE_STEPS; i++) {
+    points.push(bezier(from, edge.c1, edge.c2, edge.to, i / CURVE_STEPS));
+  }
+  return points;
+}
+
+function polylineLength(points: Point[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+  return total;
+}
+
+export function edgeLength(from: Point, edge: PieceEdge): number {
+  return polylineLength(flattenEdge(from, edge));
+}
+
+/** Closed stitch-line polygon (first point not repeated) */
+export function stitchLine(piece: PatternPiece): Point[] {
+  const starts = edgeStarts(piece);
+  return piece.edges.flatMap((edge, i) => flattenEdge(starts[i], edge).slice(0, -1));
+}
+
+/** +1 when the outline runs anticlockwise in y-up terms, -1 otherwise */
+export function outlineOrientation(piece: PatternPiece): 1 | -1 {
+  const poly = stitchLine(piece);
+  let area = 0;
+  for (let i = 0; i < poly.length; i++) {
+    const a = poly[i];
+    const b = poly[(i + 1) % poly.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area >= 0 ? 1 : -1;
+}
+
+/** Unit normal pointing out of the piece for a direction along its outline */
+export function outwardNormal(tangent: Point, orientation: 1 | -1): Point {
+  return { x: tangent.y * orientation, y: -tangent.x * orientation };
+}
+
+function lineIntersection(a1: Point, a2: Point, b1: Point, b2: Point): Point | null {
+  const d = (a2.x - a1.x) * (b2.y - b1.y) - (a2.y - a1.y) * (b2.x - b1.x);
+  if (Math.abs(d) < 1e-9) return null;
+  const t = ((b1.x - a1.x) * (b2.y - b1.y) - (b1.y - a1.y) * (b2.x - b1.x)) / d;
+  return { x: a1.x + (a2.x - a1.x) * t, y: a1.y + (a2.y - a1.y) * t };
+}
+
+/**
+ * The cutting line: every edge pushed out by its own allowance, with
+ * corners mitred where neighbouring edges meet (bevelled when the mitre
+ * would shoot off, as at sharp crotch and dart-leg corners).
+ */
+export function cuttingLine(piece: PatternPiece): Point[] {
+  const orientation = outlineOrientation(piece);
+  const starts = edgeStarts(piece);
+
+  const offsetEdges = piece.edges.map((edge, i) => {
+    const points = flattenEdge(starts[i], edge);
+    return points.map((p, j) => {
+      const a = points[Math.max(0, j - 1)];
+      const b = points[Math.min(points.length - 1, j + 1)];
+      const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+      const n = outwardNormal({ x: (b.x - a.x) / len, y: (b.y - a.y) / len }, orientation);
+      return { x: p.x + n.x * edge.allowance, y: p.y + n.y * edge.allowance };
+    });
+  });
+
+  // Each edge contributes its interior points, then the corner it shares
+  // with the next edge (which also stands in for that edge's first point)
+  const result: Point[] = [];
+  offsetEdges.forEach((points, i) => {
+    const nextIndex = (i + 1) % offsetEdges.length;
+    const next = offsetEdges[nextIndex];
+    const corner = piece.edges[i].to;
+    const maxReach = Math.max(piece.edges[i].allowance, piece.edges[nextIndex].allowance) * 3;
+
+    result.push(...points.slice(1, -1));
+    const joint = lineIntersection(points[points.length - 2], points[points.length - 1], next[0], next[1]);
+    if (joint && Math.hypot(joint.x - corner.x, joint.y - corner.y) <= maxReach) {
+      result.push(joint);
+    } else {
+      result.push(points[points.length - 1], next[0]);
+    }
+  });
+  return result;
+}
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export function boundsOf(points: Point[]): Bounds {
+  return points.reduce<Bounds>(
+    (b, p) => ({
+      minX: Math.min(b.minX, p.x),
+      minY: Math.min(b.minY, p.y),
+      maxX: Math.max(b.maxX, p.x),
+      maxY: Math.max(b.maxY, p.y),
+    }),
+    { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Inputs                                                                      */
+/* -------------------------------------------------------------------------- */
+
+type BlockKey = "top" | "dress" | "suit";
+
+interface Sizes {
+  m: Record<string, number>;
+  fit: FitType;
+  warnings: string[];
+}
+
+/** Ease-adjusted value, else the body value, else the fallback (with a warning) */
+function cut(
+  sizes: Sizes,
+  easeKey: string,
+  key: string,
+  fallback: () => number
+): number {
+  const ease = calculateEase(easeKey, sizes.fit, sizes.m);
+  const eased = ease?.results[key]?.cutting;
+  if (eased) return eased;
+  const body = sizes.m[key];
+  if (typeof body === "number" && body > 0) return body;
+  const estimate = roundEighth(fallback());
+  sizes.warnings.push(`Missing measurement: ${key}. Drafted with an estimate of ${estimate}".`);
+  return estimate;
+}
+
+/** Body value or proportional fallback — lengths carry no ease */
+function body(sizes: Sizes, key: string, fallback: () => number): number {
+  const value = sizes.m[key];
+  if (typeof value === "number" && value > 0) return value;
+  const estimate = roundEighth(fallback());
+  sizes.warnings.push(`Missing measurement: ${key}. Drafted with an estimate of ${estimate}".`);
+  return estimate;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Bodice + sleeve                                                             */
+/* -------------------------------------------------------------------------- */
+
+interface Bodice {
+  front: PatternPiece;
+  back: PatternPiece;
+  /** Armhole length, front + back (stitch line) */
+  armhole: number;
+  armholeDepth: number;
+}
+
+function draftBodice(sizes: Sizes, easeKey: BlockKey): Bodice | null {
+  const bustBody = sizes.m.bust || sizes.m.chest;
+  if (!bustBody) {
+    sizes.warnings.push("Missing measurement: bust or chest. The bodice can't be drafted without it.");
+    return null;
+  }
+  const bust = cut(sizes, easeKey, sizes.m.bust ? "bust" : "chest", () => bustBody);
+  const waist = cut(sizes, easeKey, "waist", () => bust * 0.82);
+  const neck = body(sizes, "neck", () => bustBody * 0.4);
+  const shoulder = cut(sizes, easeKey, "shoulder", () => bustBody * 0.42);
+  const backLength = body(sizes, "backLength", () => bustBody * 0.45);
+  const frontLength = sizes.m.frontLength && sizes.m.frontLength > backLength
+    ? sizes.m.frontLength
+    : backLength + 1.25;
+  const toBust = body(sizes, "shoulderToBust", () => backLength * 0.62);
+
+  const armholeDepth = bust / 8 + 3.75;
+  const neckWidth = neck / 6 + 0.25;
+  const halfShoulder = shoulder / 2;
+
+  /* ---- Back: centre back at x = 0, high neck point level at y = 0 ---- */
+  const backWidth = bust / 4 - 0.25;
+  const backWaistQuarter = waist / 4 - 0.25;
+  const backSuppression = Math.max(0, backWidth - backWaistQuarter);
+  const backDartIntake = Math.min(1.25, backSuppression / 2);
+  const backSideWaist = backWidth - (backSuppression - backDartIntake);
+  const backNeckDepth = 0.75;
+  const backWaistY = backNeckDepth + backLength;
+  const backShoulder = pt(halfShoulder, 1.5);
+  const acrossBack = Math.min(halfShoulder - 0.5, backWidth - 1);
+  const backDartX = backWaistQuarter / 2;
+
+  const back: PatternPiece = {
+    name: "Back bodice",
+    quantity: 1,
+    onFold: true,
+    start: pt(0, backNeckDepth),
+    edges: [
+      { to: pt(neckWidth, 0), c1: pt(neckWidth * 0.5, backNeckDepth), c2: pt(neckWidth, backNeckDepth * 0.5), allowance: STANDARD_SEAM },
+      { to: backShoulder, allowance: STANDARD_SEAM },
+      {
+        to: pt(backWidth, armholeDepth),
+        c1: pt(acrossBack, backShoulder.y + (armholeDepth - backShoulder.y) * 0.55),
+        c2: pt(acrossBack + (backWidth - acrossBack) * 0.2, armholeDepth),
+        allowance: STANDARD_SEAM,
+      },
+      { to: pt(backSideWaist, backWaistY), allowance: STANDARD_SEAM },
+      { to: pt(0, backWaistY), allowance: STANDARD_SEAM },
+      { to: pt(0, backNeckDepth), allowance: 0, fold: true },
+    ],
+    darts: [
+      {
+        legs: [pt(backDartX - backDartIntake / 2, backWaistY), pt(backDartX + backDartIntake / 2, backWaistY)],
+        apex: pt(backDartX, armholeDepth + 1),
+      },
+      {
+        // Shoulder blade dart
+        legs: [pt(neckWidth + (halfShoulder - neckWidth) * 0.4, 0.6), pt(neckWidth + (halfShoulder - neckWidth) * 0.4 + 0.5, 0.8)],
+        apex: pt(neckWidth + (halfShoulder - neckWidth) * 0.35, 3.5),
+      },
+    ],
+    notches: [{ edge: 2, t: 0.55 }, { edge: 2, t: 0.62 }],
+    grainline: [pt(backWidth * 0.6, armholeDepth * 0.5), pt(backWidth * 0.6, backWaistY - 2)],
+    notes: `Bust ${bust}" / waist ${waist}" cutting. Place centre back on fold, or add a seam for a zip.`,
+  };
+
+  /* ---- Front: centre front at x = 0 ---- */
+  const frontWidth = bust / 4 + 0.25;
+  const frontWaistQuarter = waist / 4 + 0.25;
+  const frontSuppression = Math.max(0, frontWidth - frontWaistQuarter);
+  const frontDartIntake = Math.min(1.5, frontSuppression * 0.6);
+  const frontSideWaist = frontWidth - (frontSuppression - frontDartIntake);
+  const frontNeckDepth = neckWidth + 0.5;
+  const frontWaistY = Math.max(frontLength, backWaistY + 0.5);
+  const frontShoulder = pt(halfShoulder - 0.25, 1.75);
+  const acrossFront = Math.min(halfShoulder - 1, frontWidth - 1.25);
+  const bustPoint = pt(Math.min(bust / 10, frontWidth - 1.5), Math.min(toBust, frontWaistY - 3));
+
+  const front: PatternPiece = {
+    name: "Front bodice",
+    quantity: 1,
+    onFold: true,
+    start: pt(0, frontNeckDepth),
+    edges: [
+      { to: pt(neckWidth, 0), c1: pt(neckWidth * 0.55, frontNeckDepth), c2: pt(neckWidth, frontNeckDepth * 0.45), allowance: STANDARD_SEAM },
+      { to: frontShoulder, allowance: STANDARD_SEAM },
+      {
+        to: pt(frontWidth, armholeDepth),
+        c1: pt(acrossFront, frontShoulder.y + (armholeDepth - frontShoulder.y) * 0.6),
+        c2: pt(acrossFront + (frontWidth - acrossFront) * 0.3, armholeDepth),
+        allowance: STANDARD_SEAM,
+      },
+      { to: pt(frontSideWaist, frontWaistY), allowance: STANDARD_SEAM },
+      { to: pt(0, frontWaistY), allowance: STANDARD_SEAM },
+      { to: pt(0, frontNeckDepth), allowance: 0, fold: true },
+    ],
+    darts: frontDartIntake > 0
+      ? [{
+          legs: [
+            pt(bustPoint.x - frontDartIntake / 2, frontWaistY),
+            pt(bustPoint.x + frontDartIntake / 2, frontWaistY),
+          ],
+          // Stop short of the bust point so it doesn't pucker
+          apex: pt(bustPoint.x, bustPoint.y + 1),
+        }]
+      : [],
+    notches: [{ edge: 2, t: 0.6 }],
+    grainline: [pt(frontWidth * 0.35, frontNeckDepth + 1), pt(frontWidth * 0.35, frontWaistY - 2)],
+    notes: `Bust point ${bustPoint.x}" from centre front, ${bustPoint.y}" down from the neck point.`,
+  };
+
+  const backStarts = edgeStarts(back);
+  const frontStarts = edgeStarts(front);
+  const armhole = edgeLength(backStarts[2], back.edges[2]) + edgeLength(frontStarts[2], front.edges[2]);
+
+  return { front, back, armhole, armholeDepth };
+}
+
+const CAP_HEIGHT_RATIO: Record<FitType, number> = { fitted: 0.66, standard: 0.6, loose: 0.5 };
+const BICEP_EASE: Record<FitType, number> = { fitted: 1.5, standard: 2, loose: 3 };
+
+function draftSleeve(sizes: Sizes, easeKey: BlockKey, bodice: Bodice): { piece: PatternPiece; capLength: number } {
+  const bust = sizes.m.bust || sizes.m.chest || 36;
+  const bicep = body(sizes, "roundArm", () => bust * 0.33) + BICEP_EASE[sizes.fit];
+  const length = sizes.m.armLength
+    ? cut(sizes, easeKey, "armLength", () => 23)
+    : body(sizes, "sleeveLength", () => bust * 0.62);
+  const wrist = cut(sizes, easeKey, "wrist", () => 6.5);
+  const capHeight = bodice.armholeDepth * CAP_HEIGHT_RATIO[sizes.fit];
+  const hemWidth = Math.max(wrist + 2.5, bicep * 0.55);
+  const half = bicep / 2;
+
+  // Cap top at (0, 0), back underarm on the left
+  const piece: PatternPiece = {
+    name: "Sleeve",
+    quantity: 2,
+    start: pt(-half, capHeight),
+    edges: [
+      { to: pt(0, 0), c1: pt(-bicep * 0.3, capHeight), c2: pt(-bicep * 0.22, 0), allowance: STANDARD_SEAM },
+      { to: pt(half, capHeight), c1: pt(bicep * 0.2, 0), c2: pt(bicep * 0.28, capHeight), allowance: STANDARD_SEAM },
+      { to: pt(hemWidth / 2, length), allowance: STANDARD_SEAM },
+      { to: pt(-hemWidth / 2, length), allowance: STANDARD_HEM_BODICE },
+      { to: pt(-half, capHeight), allowance: STANDARD_SEAM },
+    ],
+    darts: [],
+    // Double notch at the back, single at the front, shoulder point at the top
+    notches: [{ edge: 0, t: 0.45 }, { edge: 0, t: 0.52 }, { edge: 1, t: 0.5 }, { edge: 1, t: 0 }],
+    grainline: [pt(0, capHeight + 1), pt(0, length - 2)],
+    notes: `Bicep ${roundEighth(bicep)}" with ease, cap height ${roundEighth(capHeight)}".`,
+  };
+
+  const starts = edgeStarts(piece);
+  const capLength = edgeLength(starts[0], piece.edges[0]) + edgeLength(starts[1], piece.edges[1]);
+  return { piece, capLength };
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Trousers                                                                    */
+/* -------------------------------------------------------------------------- */
+
+function draftTrousers(sizes: Sizes): PatternPiece[] | null {
+  if (!sizes.m.hips && !sizes.m.waist) {
+    sizes.warnings.push("Missing measurement: hips and waist. Trousers can't be drafted without them.");
+    return null;
+  }
+  const hips = cut(sizes, "trousers", "hips", () => (sizes.m.waist || 32) * 1.2);
+  const waist = cut(sizes, "trousers", "waist", () => hips * 0.8);
+  const inseam = cut(sizes, "trousers", "inseam", () => hips * 0.75);
+  // "Crotch length" is recorded either as the seated rise or as the full
+  // front-to-back length through the legs — the latter is ~2.5× the rise
+  const crotch = sizes.m.crotchLength;
+  const rise = crotch && crotch > 0 ? (crotch > 16 ? crotch * 0.4 : crotch) : body(sizes, "crotchLength", () => hips / 4 + 1);
+  const knee = cut(sizes, "trousers", "knee", () => hips * 0.5);
+  const ankle = cut(sizes, "trousers", "ankle", () => hips * 0.25);
+  const hemCirc = Math.max(ankle + 4, 13);
+
+  const hipY = rise * 2 / 3;
+  const kneeY = rise + inseam / 2 - 2;
+  const hemY = rise + inseam;
+
+  /* ---- Front: side seam on the left, crotch point on the right ---- */
+  const frontHip = hips / 4 - 0.25;
+  const frontExt = hips / 16;
+  const frontCrotchX = frontHip + frontExt;
+  const frontCrease = frontCrotchX / 2 - 0.25;
+  const frontKnee = knee / 2 - 0.5;
+  const frontHem = hemCirc / 2 - 0.5;
+  const frontPleat = 0.75;
+  const frontCfWaistX = frontHip - 0.5;
+  const frontSideWaistX = Math.max(-0.5, frontCfWaistX - (waist / 4 - 0.25) - frontPleat);
+
+  const front: PatternPiece = {
+    name: "Trouser front",
+    quantity: 2,
+    start: pt(frontSideWaistX, 0),
+    edges: [
+      { to: pt(frontCfWaistX, 0), allowance: STANDARD_SEAM },
+      { to: pt(frontHip, rise * 0.6), allowance: STANDARD_SEAM },
+      // Front crotch curve
+      { to: pt(frontCrotchX, rise), c1: pt(frontHip, rise * 0.85), c2: pt(frontHip + frontExt * 0.3, rise), allowance: STANDARD_SEAM * 0.75 },
+      { to: pt(frontCrease + frontKnee / 2, kneeY), c1: pt(frontCrotchX - frontExt * 0.3, rise + 2), c2: pt(frontCrease + frontKnee / 2 + 0.25, kneeY - 4), allowance: STANDARD_SEAM },
+      { to: pt(frontCrease + frontHem / 2, hemY), allowance: STANDARD_SEAM },
+      { to: pt(frontCrease - frontHem / 2, hemY), allowance: STANDARD_HEM_BOTTOM },
+      { to: pt(frontCrease - frontKnee / 2, kneeY), allowance: STANDARD_SEAM },
+      { to: pt(0, hipY), c1: pt(frontCrease - frontKnee / 2 - 0.25, kneeY - 6), c2: pt(0, hipY + 3), allowance: STANDARD_SEAM },
+      { to: pt(frontSideWaistX, 0), c1: pt(0, hipY * 0.45), c2: pt(frontSideWaistX, hipY * 0.2), allowance: STANDARD_SEAM },
+    ],
+    darts: [{
+      legs: [pt(frontCrease - frontPleat / 2, 0), pt(frontCrease + frontPleat / 2, 0)],
+      apex: pt(frontCrease, 3.5),
+    }],
+    notches: [{ edge: 7, t: 0.3 }, { edge: 3, t: 0.45 }],
+    grainline: [pt(frontCrease, hipY + 2), pt(frontCrease, hemY - 3)],
+    notes: `Grain line is the crease. Waist ${waist}" / hip ${hips}" cutting, rise ${roundEighth(rise)}".`,
+  };
+
+  /* ---- Back: side seam on the left, seat seam and crotch on the right ---- */
+  const backHip = hips / 4 + 0.25;
+  const backExt = hips / 8;
+  const backCrotchX = backHip + backExt;
+  const backCrotchY = rise + 0.375;
+  const backCrease = backCrotchX / 2 - 0.5;
+  const backKnee = frontKnee + 1;
+  const backHemW = frontHem + 1;
+  const backDart = 1;
+  const backCbWaist = pt(backHip - 1, -0.75);
+  const backSideWaistX = Math.max(-0.5, backCbWaist.x - (waist / 4 + 0.25) - backDart);
+
+  const back: PatternPiece = {
+    name: "Trouser back",
+    quantity: 2,
+    start: pt(backSideWaistX, 0),
+    edges: [
+      { to: backCbWaist, allowance: STANDARD_SEAM },
+      // Seat seam is left wide for letting out
+      { to: pt(backHip + 0.25, rise * 0.7), allowance: STANDARD_SEAM * 2 },
+      // Back crotch curve — deeper and lower than the front
+      { to: pt(backCrotchX, backCrotchY), c1: pt(backHip + 0.5, rise * 0.92), c2: pt(backHip + backExt * 0.35, backCrotchY), allowance: STANDARD_SEAM * 0.75 },
+      { to: pt(backCrease + backKnee / 2, kneeY), c1: pt(backCrotchX - backExt * 0.4, backCrotchY + 2), c2: pt(backCrease + backKnee / 2 + 0.25, kneeY - 5), allowance: STANDARD_SEAM },
+      { to: pt(backCrease + backHemW / 2, hemY), allowance: STANDARD_SEAM },
+      { to: pt(backCrease - backHemW / 2, hemY), allowance: STANDARD_HEM_BOTTOM },
+      { to: pt(backCrease - backKnee / 2, kneeY), allowance: STANDARD_SEAM },
+      { to: pt(0, hipY), c1: pt(backCrease - backKnee / 2 - 0.25, kneeY - 6), c2: pt(0, hipY + 3), allowance: STANDARD_SEAM },
+      { to: pt(backSideWaistX, 0), c1: pt(0, hipY * 0.45), c2: pt(backSideWaistX, hipY * 0.2), allowance: STANDARD_SEAM },
+    ],
+    darts: [{
+      legs: [pt(backCrease - backDart / 2, -0.375), pt(backCrease + backDart / 2, -0.4)],
+      apex: pt(backCrease, 4.5),
+    }],
+    notches: [{ edge: 7, t: 0.3 }, { edge: 3, t: 0.45 }, { edge: 3, t: 0.5 }],
+    grainline: [pt(backCrease, hipY + 2), pt(backCrease, hemY - 3)],
+    notes: "Seat seam has a 1\" allowance for letting out.",
+  };
+
+  const bandLength = waist + 1.5;
+  const waistband: PatternPiece = {
+    name: "Waistband",
+    quantity: 1,
+    start: pt(0, 0),
+    edges: [
+      { to: pt(bandLength, 0), allowance: STANDARD_SEAM },
+      { to: pt(bandLength, 4), allowance: STANDARD_SEAM },
+      { to: pt(0, 4), allowance: STANDARD_SEAM },
+      { to: pt(0, 0), allowance: STANDARD_SEAM },
+    ],
+    darts: [],
+    notches: [{ edge: 0, t: 0.5 }],
+    grainline: [pt(2, 2), pt(bandLength - 2, 2)],
+    notes: "Fold lengthways for a 2\" finished band. Includes 1.5\" overlap. Interface.",
+  };
+
+  return [front, back, waistband];
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Skirt                                                                       */
+/* -------------------------------------------------------------------------- */
+
+function draftSkirt(sizes: Sizes, lengthFallback: () => number): PatternPiece[] | null {
+  if (!sizes.m.hips && !sizes.m.waist) {
+    sizes.warnings.push("Missing measurement: hips and waist. The skirt can't be drafted without them.");
+    return null;
+  }
+  const hips = cut(sizes, "skirt", "hips", () => (sizes.m.waist || 30) * 1.3);
+  const waist = cut(sizes, "skirt", "waist", () => hips * 0.75);
+  const length = body(sizes, "halfLength", lengthFallback);
+  const derivedHipDepth = sizes.m.shoulderToHip && sizes.m.backLength
+    ? sizes.m.shoulderToHip - sizes.m.backLength
+    : 0;
+  const hipDepth = derivedHipDepth >= 6 && derivedHipDepth <= 10 ? derivedHipDepth : 8;
+
+  const panel = (name: string, side: "front" | "back"): PatternPiece => {
+    const hipQuarter = hips / 4 + (side === "front" ? 0.25 : -0.25);
+    const waistQuarter = waist / 4 + (side === "front" ? 0.25 : -0.25);
+    const excess = Math.max(0, hipQuarter - waistQuarter);
+    const dartTotal = Math.min(side === "front" ? 1.25 : 2, excess * 0.5);
+    const sideWaistX = waistQuarter + dartTotal;
+    const darts: Dart[] = [];
+    // The back takes two darts once there's more than an inch to suppress
+    const count = side === "back" && dartTotal > 1 ? 2 : dartTotal > 0 ? 1 : 0;
+    for (let i = 0; i < count; i++) {
+      const x = count === 1 ? waistQuarter * 0.45 : waistQuarter * (0.33 + i * 0.3);
+      const intake = dartTotal / count;
+      darts.push({
+        legs: [pt(x - intake / 2, 0), pt(x + intake / 2, 0)],
+        apex: pt(x, side === "front" ? 3.5 : 5.5),
+      });
+    }
+    return {
+      name,
+      quantity: 1,
+      onFold: side === "front",
+      start: pt(0, 0),
+      edges: [
+        { to: pt(0, length), allowance: side === "front" ? 0 : STANDARD_SEAM, fold: side === "front" },
+        { to: pt(hipQuarter, length), allowance: STANDARD_HEM_BOTTOM },
+        { to: pt(hipQuarter, hipDepth), allowance: STANDARD_SEAM },
+        { to: pt(sideWaistX, -0.375), c1: pt(hipQuarter, hipDepth * 0.45), c2: pt(sideWaistX + 0.15, hipDepth * 0.15), allowance: STANDARD_SEAM },
+        { to: pt(0, 0), c1: pt(sideWaistX * 0.7, -0.1), c2: pt(sideWaistX * 0.3, 0), allowance: STANDARD_SEAM },
+      ],
+      darts,
+      notches: [{ edge: 2, t: 1 }],
+      grainline: [pt(hipQuarter * 0.5, hipDepth + 1), pt(hipQuarter * 0.5, length - 2)],
+      notes: side === "front"
+        ? `Place centre front on fold. Waist ${waist}" / hip ${hips}" cutting.`
+        : "Centre back seam — zip and vent go here.",
+    };
+  };
+
+  const band: PatternPiece = {
+    name: "Skirt waistband",
+    quantity: 1,
+    start: pt(0, 0),
+    edges: [
+      { to: pt(waist + 1.5, 0), allowance: STANDARD_SEAM },
+      { to: pt(waist + 1.5, 3), allowance: STANDARD_SEAM },
+      { to: pt(0, 3), allowance: STANDARD_SEAM },
+      { to: pt(0, 0), allowance: STANDARD_SEAM },
+    ],
+    darts: [],
+    notches: [{ edge: 0, t: 0.5 }],
+    grainline: [pt(2, 1.5), pt(waist - 0.5, 1.5)],
+    notes: "Fold lengthways for a 1.5\" finished band.",
+  };
+
+  return [panel("Skirt front", "front"), panel("Skirt back", "back"), band];
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Public API                                                                  */
+/* -------------------------------------------------------------------------- */
+
+type DraftKey = "top" | "dress" | "trousers" | "skirt" | "suit" | "jumpsuit";
+
+const DRAFT_ALIASES: Record<string, DraftKey> = {
+  top: "top", shirt: "top", blouse: "top",
+  dress: "dress", gown: "dress",
+  trousers: "trousers", pants: "trousers",
+  skirt: "skirt",
+  suit: "suit", blazer: "suit",
+  jumpsuit: "jumpsuit",
+};
+
+/** Whether drafted blocks exist for a garment (agbada/kaftan stay flat panels) */
+export function supportsDrafting(garmentType: string): boolean {
+  return garmentType.toLowerCase().trim() in DRAFT_ALIASES;
+}
+
+export function draftPattern(
+  measurements: Record<string, number>,
+  garmentType: string,
+  fit: FitType = "standard",
+): DraftedPattern | null {
+  const key = DRAFT_ALIASES[garmentType.toLowerCase().trim()];
+  if (!key) return null;
+
+  const sizes: Sizes = { m: measurements, fit, warnings: [] };
+  const pieces: PatternPiece[] = [];
+  let capEase: number | undefined;
+
+  if (key === "top" || key === "dress" || key === "suit" || key === "jumpsuit") {
+    const easeKey: BlockKey = key === "suit" ? "suit" : key === "dress" ? "dress" : "top";
+    const bodice = draftBodice(sizes, easeKey);
+    if (bodice) {
+      const sleeve = draftSleeve(sizes, easeKey, bodice);
+      pieces.push(bodice.front, bodice.back, sleeve.piece);
+      capEase = roundEighth(sleeve.capLength - bodice.armhole);
+      if (capEase < 0.25 || capEase > 2) {
+        sizes.warnings.push(
+          `Sleeve cap is ${capEase > 0 ? "over" : "under"} the armhole by ${Math.abs(capEase)}" — adjust the cap height before cutting.`
+        );
+      }
+    }
+  }
+  if (key === "dress") {
+    pieces.push(...(draftSkirt(sizes, () => (sizes.m.fullLength ? sizes.m.fullLength - (sizes.m.backLength || 16) : 24)) || []));
+  }
+  if (key === "skirt") {
+    pieces.push(...(draftSkirt(sizes, () => 24) || []));
+  }
+  if (key === "trousers" || key === "suit" || key === "jumpsuit") {
+    pieces.push(...(draftTrousers(sizes) || []));
+  }
+
+  return {
+    garmentLabel: garmentType,
+    fit,
+    pieces,
+    capEase,
+    warnings: sizes.warnings,
+  };
+}
@@ -0,0 +1,397 @@
+/* -------------------------------------------------------------------------- */
+/*  Pattern export                                                             */
+/*  Lays drafted pieces out on one sheet (inches, 1:1) and renders it as:     */
+/*    • SVG — real-size vector file for plotters, large-format print shops   */
+/*      and pattern software                                                   */
+/*    • tiled A4 PDF — for studios printing at home: an assembly page with  */
+/*      a scale check square, then one tile per page with registration marks */
+/*      at every corner to line the sheets up before taping                   */
+/*  Both renderers draw from the same display list, so they always match.    */
+/* -------------------------------------------------------------------------- */
+
+import { jsPDF } from "jspdf";
+import {
+  boundsOf,
+  cuttingLine,
+  outlineOrientation,
+  outwardNormal,
+  pointOnEdge,
+  stitchLine,
+  type DraftedPattern,
+  type Point,
+} from "@/lib/pattern-drafting";
+
+/** Widest the laid-out sheet gets before pieces wrap to a new row */
+const SHEET_MAX_WIDTH_IN = 36;
+const PIECE_GAP_IN = 1;
+const HEADER_HEIGHT_IN = 3;
+const MM_PER_IN = 25.4;
+
+/* A4 portrait tiles */
+const PAGE_W_MM = 210;
+const PAGE_H_MM = 297;
+const TILE_MARGIN_MM = 10;
+const TILE_W_MM = PAGE_W_MM - TILE_MARGIN_MM * 2;
+const TILE_H_MM = PAGE_H_MM - TILE_MARGIN_MM * 2;
+
+type Stroke = "cut" | "stitch" | "dart" | "grain" | "notch" | "fold" | "check";
+
+type Mark =
+  | { kind: "line"; points: Point[]; closed: boolean; stroke: Stroke }
+  | { kind: "text"; at: Point; text: string; size: number; bold?: boolean; anchor?: "start" | "middle" };
+
+interface Sheet {
+  width: number;
+  height: number;
+  marks: Mark[];
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Layout                                                                      */
+/* -------------------------------------------------------------------------- */
+
+function shift(points: Point[], dx: number, dy: number): Point[] {
+  return points.map((p) => ({ x: p.x + dx, y: p.y + dy }));
+}
+
+function arrowHead(tip: Point, from: Point): Point[] {
+  const len = Math.hypot(tip.x - from.x, tip.y - from.y) || 1;
+  const ux = (tip.x - from.x) / len;
+  const uy = (tip.y - from.y) / len;
+  const size = 0.3;
+  return [
+    { x: tip.x - ux * size - uy * size * 0.5, y: tip.y - uy * size + ux * size * 0.5 },
+    tip,
+    { x: tip.x - ux * size + uy * size * 0.5, y: tip.y - uy * size - ux * size * 0.5 },
+  ];
+}
+
+function buildSheet(pattern: DraftedPattern, title: string): Sheet {
+  const marks: Mark[] = [];
+
+  // Header: title, print instructions and the scale check squares
+  marks.push({ kind: "text", at: { x: 0.5, y: 0.7 }, text: title, size: 0.32, bold: true });
+  marks.push({
+    kind: "text",
+    at: { x: 0.5, y: 1.15 },
+    text: `${pattern.fit} fit · stitch line dashed, cut on the solid line · print at 100% (actual size)`,
+    size: 0.2,
+  });
+  const square = (x: number, y: number, size: number, label: string) => {
+    marks.push({
+      kind: "line",
+      closed: true,
+      stroke: "check",
+      points: [{ x, y }, { x: x + size, y }, { x: x + size, y: y + size }, { x, y: y + size }],
+    });
+    marks.push({ kind: "text", at: { x: x + size / 2, y: y + size / 2 + 0.07 }, text: label, size: 0.16, anchor: "middle" });
+  };
+  square(0.5, 1.4, 1, "1 in");
+  square(1.8, 1.4, 5 / 2.54, "5 cm");
+
+  // Pieces, left to right, wrapping into rows
+  let cursorX = 0.5;
+  let cursorY = HEADER_HEIGHT_IN;
+  let rowHeight = 0;
+  let sheetWidth = 6;
+
+  for (const piece of pattern.pieces) {
+    const cut = cuttingLine(piece);
+    const b = boundsOf(cut);
+    const w = b.maxX - b.minX;
+    const h = b.maxY - b.minY;
+    if (cursorX > 0.5 && cursorX + w > SHEET_MAX_WIDTH_IN) {
+      cursorX = 0.5;
+      cursorY += rowHeight + PIECE_GAP_IN;
+      rowHeight = 0;
+    }
+    const dx = cursorX - b.minX;
+    const dy = cursorY - b.minY;
+    const at = (p: Point): Point => ({ x: p.x + dx, y: p.y + dy });
+
+    marks.push({ kind: "line", points: shift(cut, dx, dy), closed: true, stroke: "cut" });
+    marks.push({ kind: "line", points: shift(stitchLine(piece), dx, dy), closed: true, stroke: "stitch" });
+
+    for (const dart of piece.darts) {
+      marks.push({ kind: "line", points: [at(dart.legs[0]), at(dart.apex), at(dart.legs[1])], closed: false, stroke: "dart" });
+    }
+
+    // Notches: a tick across the seam allowance
+    const orientation = outlineOrientation(piece);
+    for (const notch of piece.notches) {
+      const edge = piece.edges[notch.edge];
+      const from = notch.edge === 0 ? piece.start : piece.edges[notch.edge - 1].to;
+      const { point, tangent } = pointOnEdge(from, edge, notch.t);
+      const n = outwardNormal(tangent, orientation);
+      const reach = Math.max(edge.allowance, 0.25);
+      marks.push({
+        kind: "line",
+        closed: false,
+        stroke: "notch",
+        points: [at(point), at({ x: point.x + n.x * reach, y: point.y + n.y * reach })],
+      });
+    }
+
+    // Fold edges get a dash-dot line and a label
+    piece.edges.forEach((edge, i) => {
+      if (!edge.fold) return;
+      const from = i === 0 ? piece.start : piece.edges[i - 1].to;
+      marks.push({ kind: "line", points: [at(from), at(edge.to)], closed: false, stroke: "fold" });
+      const mid = at({ x: (from.x + edge.to.x) / 2, y: (from.y + edge.to.y) / 2 });
+      marks.push({ kind: "text", at: { x: mid.x + 0.3, y: mid.y }, text: "PLACE ON FOLD", size: 0.16, bold: true });
+    });
+
+    const [g1, g2] = [at(piece.grainline[0]), at(piece.grainline[1])];
+    marks.push({ kind: "line", points: [g1, g2], closed: false, stroke: "grain" });
+    marks.push({ kind: "line", points: arrowHead(g1, g2), closed: false, stroke: "grain" });
+    marks.push({ kind: "line", points: arrowHead(g2, g1), closed: false, stroke: "grain" });
+
+    const centre = { x: cursorX + w / 2, y: cursorY + h / 2 };
+    const cutLabel = piece.onFold ? `Cut ${piece.quantity} on fold` : `Cut ${piece.quantity}`;
+    marks.push({ kind: "text", at: { x: centre.x, y: centre.y - 0.45 }, text: piece.name, size: 0.3, bold: true, anchor: "middle" });
+    marks.push({ kind: "text", at: { x: centre.x, y: centre.y - 0.1 }, text: cutLabel, size: 0.2, anchor: "middle" });
+    marks.push({ kind: "text", at: { x: centre.x, y: centre.y + 0.2 }, text: pattern.garmentLabel, size: 0.16, anchor: "middle" });
+
+    cursorX += w + PIECE_GAP_IN;
+    rowHeight = Math.max(rowHeight, h);
+    sheetWidth = Math.max(sheetWidth, cursorX);
+  }
+
+  return {
+    width: Math.ceil(sheetWidth),
+    height: Math.ceil(cursorY + rowHeight + PIECE_GAP_IN),
+    marks,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*  SVG                                                                         */
+/* -------------------------------------------------------------------------- */
+
+const SVG_STROKES: Record<Stroke, string> = {
+  cut: 'stroke="#1A1A2E" stroke-width="0.02"',
+  stitch: 'stroke="#C75B39" stroke-width="0.015" stroke-dasharray="0.15 0.1"',
+  dart: 'stroke="#C75B39" stroke-width="0.015"',
+  grain: 'stroke="#1A1A2E" stroke-width="0.015"',
+  notch: 'stroke="#1A1A2E" stroke-width="0.02"',
+  fold: 'stroke="#1A1A2E" stroke-width="0.02" stroke-dasharray="0.4 0.1 0.05 0.1"',
+  check: 'stroke="#1A1A2E" stroke-width="0.015"',
+};
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function num(n: number): string {
+  return String(Math.round(n * 1000) / 1000);
+}
+
+/** Real-size SVG (1 user unit = 1 inch) */
+export function patternToSvg(pattern: DraftedPattern, title: string): string {
+  const sheet = buildSheet(pattern, title);
+  const body = sheet.marks.map((mark) => {
+    if (mark.kind === "text") {
+      return `<text x="${num(mark.at.x)}" y="${num(mark.at.y)}" font-size="${mark.size}"${mark.bold ? ' font-weight="bold"' : ""}${mark.anchor === "middle" ? ' text-anchor="middle"' : ""}>${escapeXml(mark.text)}</text>`;
+    }
+    const points = mark.points.map((p) => `${num(p.x)},${num(p.y)}`).join(" ");
+    const tag = mark.closed ? "polygon" : "polyline";
+    return `<${tag} points="${points}" fill="none" ${SVG_STROKES[mark.stroke]}/>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${sheet.width}in" height="${sheet.height}in" viewBox="0 0 ${sheet.width} ${sheet.height}" font-family="Helvetica, Arial, sans-serif" fill="#1A1A2E">`,
+    `<title>${escapeXml(title)}</title>`,
+    ...body,
+    "</svg>",
+  ].join("\n");
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Tiled A4 PDF                                                                */
+/* -------------------------------------------------------------------------- */
+
+function tileLabel(row: number, col: number): string {
+  return `${String.fromCharCode(65 + (row % 26))}${col + 1}`;
+}
+
+function drawMarks(doc: jsPDF, marks: Mark[], originX: number, originY: number, scale: number) {
+  const tx = (p: Point) => originX + p.x * scale;
+  const ty = (p: Point) => originY + p.y * scale;
+
+  for (const mark of marks) {
+    if (mark.kind === "text") {
+      doc.setFont("helvetica", mark.bold ? "bold" : "normal");
+      doc.setFontSize(mark.size * 72 * (scale / MM_PER_IN));
+      doc.setTextColor(26, 26, 46);
+      doc.text(mark.text, tx(mark.at), ty(mark.at), { align: mark.anchor === "middle" ? "center" : "left" });
+      continue;
+    }
+    doc.setLineDashPattern([], 0);
+    doc.setDrawColor(26, 26, 46);
+    doc.setLineWidth(0.35);
+    if (mark.stroke === "stitch") {
+      doc.setDrawColor(199, 91, 57);
+      doc.setLineWidth(0.25);
+      doc.setLineDashPattern([2, 1.5], 0);
+    } else if (mark.stroke === "dart") {
+      doc.setDrawColor(199, 91, 57);
+      doc.setLineWidth(0.25);
+    } else if (mark.stroke === "fold") {
+      doc.setLineDashPattern([6, 1.5, 1, 1.5], 0);
+    } else if (mark.stroke === "grain" || mark.stroke === "check") {
+      doc.setLineWidth(0.25);
+    }
+    const [first, ...rest] = mark.points;
+    const deltas: [number, number][] = [];
+    let prev = first;
+    for (const p of rest) {
+      deltas.push([(p.x - prev.x) * scale, (p.y - prev.y) * scale]);
+      prev = p;
+    }
+    doc.lines(deltas, tx(first), ty(first), [1, 1], "S", mark.closed);
+  }
+  doc.setLineDashPattern([], 0);
+}
+
+function registrationMark(doc: jsPDF, x: number, y: number) {
+  doc.setDrawColor(26, 26, 46);
+  doc.setLineWidth(0.2);
+  doc.circle(x, y, 2.5, "S");
+  doc.line(x - 4, y, x + 4, y);
+  doc.line(x, y - 4, x, y + 4);
+}
+
+/**
+ * Tiled A4 pattern: page 1 is the assembly map and scale check, then one
+ * page per tile, row by row (A1, A2 … B1 …). Each tile's border is the trim
+ * line; the corner registration marks of neighbouring sheets sit on top of
+ * each other once trimmed edges are butted together.
+ */
+export function renderPatternPdf(pattern: DraftedPattern, title: string): ArrayBuffer {
+  const sheet = buildSheet(pattern, title);
+  const widthMm = sheet.width * MM_PER_IN;
+  const heightMm = sheet.height * MM_PER_IN;
+  const cols = Math.ceil(widthMm / TILE_W_MM);
+  const rows = Math.ceil(heightMm / TILE_H_MM);
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+
+  /* ---- Assembly page ---- */
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(15);
+  doc.setTextColor(26, 26, 46);
+  doc.text(title, TILE_MARGIN_MM, 20);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  doc.setTextColor(110, 110, 120);
+  const steps = [
+    `${rows * cols} tiles (${rows} rows × ${cols} columns) on the pages that follow.`,
+    'Print at 100% / "Actual size" — no "fit to page". Measure the square below before printing the rest.',
+    "Trim each sheet along its grey border, then butt the edges so the corner marks line up. Tape, then cut.",
+  ];
+  steps.forEach((s, i) => doc.text(`${i + 1}. ${s}`, TILE_MARGIN_MM, 30 + i * 5.5, { maxWidth: TILE_W_MM }));
+
+  // 2-inch check square at true size
+  const checkY = 50;
+  doc.setDrawColor(26, 26, 46);
+  doc.setLineWidth(0.3);
+  doc.rect(TILE_MARGIN_MM, checkY, 2 * MM_PER_IN, 2 * MM_PER_IN, "S");
+  doc.setFontSize(8);
+  doc.setTextColor(26, 26, 46);
+  doc.text("2 in × 2 in", TILE_MARGIN_MM + MM_PER_IN, checkY + MM_PER_IN, { align: "center" });
+  doc.rect(TILE_MARGIN_MM + 60, checkY, 50, 50, "S");
+  doc.text("5 cm × 5 cm", TILE_MARGIN_MM + 85, checkY + 25, { align: "center" });
+
+  // Scaled-down map with the tile grid over it
+  const mapTop = checkY + 62;
+  const mapScale = Math.min(TILE_W_MM / widthMm, (PAGE_H_MM - mapTop - 40) / heightMm) * MM_PER_IN;
+  drawMarks(doc, sheet.marks.filter((m) => m.kind === "line"), TILE_MARGIN_MM, mapTop, mapScale);
+  doc.setDrawColor(160, 160, 170);
+  doc.setLineWidth(0.15);
+  const tileMapW = (TILE_W_MM / MM_PER_IN) * mapScale;
+  const tileMapH = (TILE_H_MM / MM_PER_IN) * mapScale;
+  doc.setFontSize(7);
+  doc.setTextColor(110, 110, 120);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const x = TILE_MARGIN_MM + c * tileMapW;
+      const y = mapTop + r * tileMapH;
+      doc.rect(x, y, tileMapW, tileMapH, "S");
+      doc.text(tileLabel(r, c), x + 1.5, y + 3.5);
+    }
+  }
+
+  if (pattern.warnings.length > 0) {
+    let y = Math.min(mapTop + rows * tileMapH + 8, PAGE_H_MM - 30);
+    doc.setFontSize(8);
+    doc.setTextColor(199, 91, 57);
+    for (const warning of pattern.warnings.slice(0, 5)) {
+      doc.text(`! ${warning}`, TILE_MARGIN_MM, y, { maxWidth: TILE_W_MM });
+      y += 4.5;
+    }
+  }
+
+  /* ---- Tiles ---- */
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      doc.addPage("a4");
+
+      doc.saveGraphicsState();
+      doc.rect(TILE_MARGIN_MM, TILE_MARGIN_MM, TILE_W_MM, TILE_H_MM, null);
+      doc.clip();
+      doc.discardPath();
+      // Only what reaches this tile — keeps big patterns from ballooning
+      const left = (c * TILE_W_MM) / MM_PER_IN;
+      const top = (r * TILE_H_MM) / MM_PER_IN;
+      const right = left + TILE_W_MM / MM_PER_IN;
+      const bottom = top + TILE_H_MM / MM_PER_IN;
+      const visible = sheet.marks.filter((mark) => {
+        const b = mark.kind === "text"
+          ? { minX: mark.at.x - 4, maxX: mark.at.x + 4, minY: mark.at.y - 0.5, maxY: mark.at.y + 0.5 }
+          : boundsOf(mark.points);
+        return b.maxX >= left && b.minX <= right && b.maxY >= top && b.minY <= bottom;
+      });
+      drawMarks(
+        doc,
+        visible,
+        TILE_MARGIN_MM - c * TILE_W_MM,
+        TILE_MARGIN_MM - r * TILE_H_MM,
+        MM_PER_IN
+      );
+      doc.restoreGraphicsState();
+
+      // Trim border and registration marks
+      doc.setDrawColor(170, 170, 180);
+      doc.setLineWidth(0.15);
+      doc.rect(TILE_MARGIN_MM, TILE_MARGIN_MM, TILE_W_MM, TILE_H_MM, "S");
+      for (const x of [TILE_MARGIN_MM, TILE_MARGIN_MM + TILE_W_MM]) {
+        for (const y of [TILE_MARGIN_MM, TILE_MARGIN_MM + TILE_H_MM]) {
+          registrationMark(doc, x, y);
+        }
+      }
+
+      // Tile name and neighbours in the margin
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(9);
+      doc.setTextColor(26, 26, 46);
+      doc.text(tileLabel(r, c), TILE_MARGIN_MM + 6, TILE_MARGIN_MM - 3);
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(7);
+      doc.setTextColor(110, 110, 120);
+      doc.text(
+        `Page ${r * cols + c + 2} of ${rows * cols + 1} · ${title}`,
+        PAGE_W_MM - TILE_MARGIN_MM - 6,
+        TILE_MARGIN_MM - 3,
+        { align: "right" }
+      );
+      if (c + 1 < cols) {
+        doc.text(`joins ${tileLabel(r, c + 1)}`, PAGE_W_MM - 3, PAGE_H_MM / 2, { angle: 90, align: "center" });
+      }
+      if (r + 1 < rows) {
+        doc.text(`joins ${tileLabel(r + 1, c)}`, PAGE_W_MM / 2, PAGE_H_MM - 4, { align: "center" });
+      }
+    }
+  }
+
+  return doc.output("arraybuffer");
+}
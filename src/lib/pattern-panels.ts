@@ -3,10 +3,9 @@
 /*  Turns a measurement set + garment type + fit into a list of cuttable       */
 /*  rectangular panels (inches), with seam allowances baked in.                */
 /*                                                                              */
-/*  This is a starting point — not a full block-pattern engine. It produces    */
-/*  the *bounding rectangles* a tailor needs to lay out fabric and a cut list  */
-/*  with seam allowances added. Curves (princess seams, darts, armholes) are   */
-/*  drafted by hand on top of these panels.                                    */
+/*  These are the *bounding rectangles* a tailor needs to lay out fabric and  */
+/*  a cut list with seam allowances added. The shaped pieces themselves       */
+/*  (darts, armholes, sleeve cap, crotch curve) come from pattern-drafting.   */
 /* -------------------------------------------------------------------------- */
 
 import { calculateEase, type FitType } from "./ease-allowance";
@@ -46,9 +45,9 @@ export interface PatternPlan {
 /*  Industry-standard allowances                                                */
 /* -------------------------------------------------------------------------- */
 
-const STANDARD_SEAM = 0.5;     // 1/2" — typical for woven garments
-const STANDARD_HEM_BODICE = 1; // 1" hem on bodice/sleeves
-const STANDARD_HEM_BOTTOM = 2; // 2" hem on skirts/trousers/dresses
+export const STANDARD_SEAM = 0.5;     // 1/2" — typical for woven garments
+export const STANDARD_HEM_BODICE = 1; // 1" hem on bodice/sleeves
+export const STANDARD_HEM_BOTTOM = 2; // 2" hem on skirts/trousers/dresses
 
 /* -------------------------------------------------------------------------- */
 /*  Helpers                                                                     */
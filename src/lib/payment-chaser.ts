@@ -0,0 +1,265 @@
+/* -------------------------------------------------------------------------- */
+/*  Payment chaser                                                              */
+/*                                                                              */
+/*  Shared by the manual chaser (/api/payment-chaser, WhatsApp links the      */
+/*  designer sends) and automatic chasing (payments.auto_chase job, SMS).     */
+/*                                                                              */
+/*  Automatic chasing is opt-in per designer (Designer.autoChase). Each       */
+/*  unpaid order walks the designer's rules in order — e.g. gentle at 3 days, */
+/*  firm at 7, final at 14 — one step per send, and stops after "final".     */
+/*  A payment or a price change starts the walk over (models/order).         */
+/*  Every send costs one SMS credit (refunded if Termii rejects it), stamps  */
+/*  Order.lastChasedAt and writes an Outreach row.                            */
+/* -------------------------------------------------------------------------- */
+
+import mongoose from "mongoose";
+import { Designer, type IDesigner } from "@/lib/models/designer";
+import { Order } from "@/lib/models/order";
+import { Outreach } from "@/lib/models/outreach";
+import { Notification } from "@/lib/models/notification";
+import { sendSMS } from "@/lib/sms";
+
+export type ChaseTone = "gentle" | "firm" | "final";
+export type AutoChaseSettings = NonNullable<IDesigner["autoChase"]>;
+
+export const DEFAULT_AUTO_CHASE: AutoChaseSettings = {
+  enabled: false,
+  rules: [
+    { afterDays: 3, tone: "gentle" },
+    { afterDays: 7, tone: "firm" },
+    { afterDays: 14, tone: "final" },
+  ],
+  quietHours: { start: 20, end: 8 },
+};
+
+/** Quiet hours are in Lagos time (WAT, UTC+1, no DST). */
+const WAT_OFFSET_HOURS = 1;
+const HOUR_MS = 60 * 60 * 1000;
+/** Never send two automatic reminders for the same order within this gap. */
+const MIN_GAP_DAYS = 2;
+/** Cap per run so one designer's backlog can't hog a tick. */
+const MAX_SENDS_PER_RUN = 20;
+
+export function formatNaira(n: number) {
+  return `₦${n.toLocaleString("en-NG")}`;
+}
+
+/** What's still owed. `depositPaid` is already the sum of every payment. */
+export function calcBalance(order: { price?: number; depositPaid?: number }): number {
+  return Math.max(0, (order.price || 0) - (order.depositPaid || 0));
+}
+
+export function daysSince(date: Date | string): number {
+  return Math.floor((Date.now() - new Date(date).getTime()) / 86400000);
+}
+
+export function urgencyLevel(order: { updatedAt?: Date; createdAt: Date }): "urgent" | "chase" | "remind" | "new" {
+  const days = daysSince(order.updatedAt || order.createdAt);
+  if (days >= 14) return "urgent";
+  if (days >= 7)  return "chase";
+  if (days >= 3)  return "remind";
+  return "new";
+}
+
+/** Settings with defaults filled in, for designers who never saved any. */
+export function resolveAutoChase(saved?: Partial<AutoChaseSettings> | null): AutoChaseSettings {
+  return {
+    enabled: saved?.enabled ?? DEFAULT_AUTO_CHASE.enabled,
+    rules: saved?.rules?.length ? saved.rules : DEFAULT_AUTO_CHASE.rules,
+    quietHours:
+      saved?.quietHours?.start != null && saved?.quietHours?.end != null
+        ? { start: saved.quietHours.start, end: saved.quietHours.end }
+        : DEFAULT_AUTO_CHASE.quietHours,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Messages                                                                    */
+/* -------------------------------------------------------------------------- */
+
+interface ChaseContext {
+  clientName: string;
+  orderTitle: string;
+  balance: number;
+  days: number;
+  business: string;
+}
+
+/** WhatsApp message for the manual chaser. */
+export function buildChaseMessage(tone: ChaseTone, c: ChaseContext): string {
+  if (tone === "gentle") {
+    return (
+      `Hi ${c.clientName}! 😊\n\n` +
+      `Just a friendly reminder about your *${c.orderTitle}* order.\n\n` +
+      `Outstanding balance: *${formatNaira(c.balance)}*\n\n` +
+      `Whenever you're ready, you can pay via bank transfer or cash. Would you like my account details?\n\n` +
+      `Thank you so much! 🙏\n— ${c.business}`
+    );
+  }
+  if (tone === "firm") {
+    return (
+      `Hello ${c.clientName},\n\n` +
+      `This is a reminder that your *${c.orderTitle}* order has an outstanding balance of *${formatNaira(c.balance)}* that has been pending for ${c.days} days.\n\n` +
+      `Please arrange payment at your earliest convenience. The work has been completed and we would appreciate prompt settlement.\n\n` +
+      `Bank transfer or cash accepted. Please reply to confirm when payment will be made.\n\n` +
+      `Thank you.\n— ${c.business}`
+    );
+  }
+  return (
+    `Dear ${c.clientName},\n\n` +
+    `We have reached out multiple times about the outstanding balance of *${formatNaira(c.balance)}* for your *${c.orderTitle}* order.\n\n` +
+    `This balance is now ${c.days} days overdue. We kindly request immediate payment to resolve this matter.\n\n` +
+    `Please contact us urgently to arrange payment. Thank you.\n— ${c.business}`
+  );
+}
+
+/** Plain-text SMS version — short enough to stay within two SMS pages. */
+export function buildChaseSms(tone: ChaseTone, c: ChaseContext): string {
+  const first = c.clientName.split(" ")[0] || c.clientName;
+  const amount = `NGN${c.balance.toLocaleString("en-NG")}`;
+  if (tone === "gentle") {
+    return `Hi ${first}, a friendly reminder that your ${c.orderTitle} order has a balance of ${amount}. Pay by transfer or cash whenever you're ready. Thank you! - ${c.business}`;
+  }
+  if (tone === "firm") {
+    return `Hello ${first}, your ${c.orderTitle} order balance of ${amount} has been pending for ${c.days} days. Please arrange payment soon and reply to confirm. - ${c.business}`;
+  }
+  return `Dear ${first}, final reminder: ${amount} for your ${c.orderTitle} order is ${c.days} days overdue. Please contact us today to settle it. - ${c.business}`;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Quiet hours                                                                 */
+/* -------------------------------------------------------------------------- */
+
+function watHour(d: Date): number {
+  return (d.getUTCHours() + WAT_OFFSET_HOURS) % 24;
+}
+
+/** start === end means no quiet hours; start > end wraps midnight. */
+export function isQuietHour(now: Date, quiet: { start: number; end: number }): boolean {
+  if (quiet.start === quiet.end) return false;
+  const h = watHour(now);
+  return quiet.start < quiet.end
+    ? h >= quiet.start && h < quiet.end
+    : h >= quiet.start || h < quiet.end;
+}
+
+/** `now` if sending is allowed, otherwise the top of the hour quiet time ends. */
+export function nextSendTime(now: Date, quiet: { start: number; end: number }): Date {
+  if (!isQuietHour(now, quiet)) return now;
+  const hoursUntil = (quiet.end - watHour(now) + 24) % 24 || 24;
+  const next = new Date(now.getTime() + hoursUntil * HOUR_MS);
+  next.setUTCMinutes(0, 0, 0);
+  return next;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Automatic run                                                               */
+/* -------------------------------------------------------------------------- */
+
+export interface AutoChaseSummary {
+  sent: number;
+  failed: number;
+  skipped?: string;
+  outOfCredits?: boolean;
+}
+
+/**
+ * Send whichever reminders are due for one designer. Safe to re-run: an
+ * order only advances (autoChaseStep, lastChasedAt) after its SMS is sent,
+ * and the MIN_GAP_DAYS check stops a retried run from sending it again.
+ */
+export async function runAutoChase(designerId: string, now = new Date()): Promise<AutoChaseSummary> {
+  const designer = await Designer.findById(designerId)
+    .select("name businessName autoChase smsBalance")
+    .lean();
+  if (!designer) return { sent: 0, failed: 0, skipped: "designer not found" };
+
+  const settings = resolveAutoChase(designer.autoChase);
+  if (!settings.enabled) return { sent: 0, failed: 0, skipped: "disabled" };
+  if (isQuietHour(now, settings.quietHours)) return { sent: 0, failed: 0, skipped: "quiet hours" };
+
+  const business = designer.businessName || designer.name || "Your Fashion Designer";
+  const orders = await Order.find({
+    designerId,
+    paymentStatus: { $in: ["unpaid", "partial"] },
+    isDeleted: { $ne: true },
+    status: { $ne: "cancelled" },
+    lastChaseTone: { $ne: "final" },
+  })
+    .populate("clientId", "name phone")
+    .sort({ updatedAt: 1 })
+    .lean();
+
+  const summary: AutoChaseSummary = { sent: 0, failed: 0 };
+  for (const order of orders) {
+    if (summary.sent >= MAX_SENDS_PER_RUN) break;
+
+    const client = order.clientId as unknown as { _id: mongoose.Types.ObjectId; name?: string; phone?: string } | null;
+    const balance = calcBalance(order);
+    if (!client?.phone || balance <= 0) continue;
+
+    const rule = settings.rules[order.autoChaseStep || 0];
+    const days = daysSince(order.updatedAt || order.createdAt);
+    if (!rule || days < rule.afterDays) continue;
+    if (order.lastChasedAt && daysSince(order.lastChasedAt) < MIN_GAP_DAYS) continue;
+
+    const reserved = await Designer.findOneAndUpdate(
+      { _id: designerId, smsBalance: { $gt: 0 } },
+      { $inc: { smsBalance: -1 } },
+    );
+    if (!reserved) {
+      summary.outOfCredits = true;
+      await Notification.create({
+        designerId,
+        type: "system",
+        title: "Auto-chase paused — top up SMS credits",
+        message: "Payment reminders are due but you have no SMS credits left. Buy a pack to keep chasing automatically.",
+        link: "/billing",
+      }).catch(() => { /* non-fatal */ });
+      break;
+    }
+
+    const message = buildChaseSms(rule.tone, {
+      clientName: client.name || "there",
+      orderTitle: order.title,
+      balance,
+      days,
+      business,
+    });
+    const result = await sendSMS(client.phone, message);
+    if (!result.ok) {
+      await Designer.updateOne({ _id: designerId }, { $inc: { smsBalance: 1 } });
+      summary.failed++;
+      console.error(`Auto-chase SMS for order ${order._id} failed:`, result.error);
+      continue;
+    }
+
+    // timestamps: false — the chaser tiers key off updatedAt, so a reminder
+    // must not make the debt look fresh.
+    await Order.updateOne(
+      { _id: order._id },
+      { $set: { lastChasedAt: now, lastChaseTone: rule.tone }, $inc: { autoChaseStep: 1 } },
+      { timestamps: false },
+    );
+    await Outreach.create({
+      designerId,
+      clientId: client._id,
+      type: "sms",
+      message: message.slice(0, 280),
+      sentAt: now,
+    }).catch(() => { /* non-fatal */ });
+    summary.sent++;
+  }
+
+  if (summary.sent > 0) {
+    await Notification.create({
+      designerId,
+      type: "overdue_payment",
+      title: `Auto-chase sent ${summary.sent} reminder${summary.sent === 1 ? "" : "s"}`,
+      message: `${summary.sent} client${summary.sent === 1 ? "" : "s"} with an outstanding balance got an SMS reminder today.`,
+      link: "/finances",
+    }).catch(() => { /* non-fatal */ });
+  }
+
+  return summary;
+}
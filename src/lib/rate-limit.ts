@@ -1,6 +1,40 @@
 /* -------------------------------------------------------------------------- */
-/*  In-Memory Sliding Window Rate Limiter                                      */
-/*  No external dependencies — works with Next.js Edge middleware              */
+/*  Rate limiting                                                               */
+/*                                                                              */
+/*  Fixed-window limiter behind a small RateLimiter interface:                 */
+/*    memory — per-process Map (dev, single instance)                          */
+/*    mongo  — RateLimitBucket collection, shared by every instance and        */
+/*             TTL-swept by MongoDB                                            */
+/*                                                                              */
+/*  RATE_LIMIT_STORE picks the backend ("memory" | "mongo"); production        */
+/*  defaults to mongo. If MongoDB errors, requests fall back to the memory    */
+/*  limiter for a short cool-off rather than failing open or erroring.        */
+/*                                                                              */
+/*  Which limit applies to a request is decided by RATE_LIMIT_POLICIES —      */
+/*  first match wins — see resolveRateLimitPolicy().                          */
+/* -------------------------------------------------------------------------- */
+
+import connectDB from "@/lib/db";
+import { RateLimitBucket } from "@/lib/models/rate-limit-bucket";
+
+export interface RateLimitConfig {
+  windowMs: number;   // Time window in milliseconds
+  maxRequests: number; // Max requests per window
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 0 if allowed
+}
+
+export interface RateLimiter {
+  name: "memory" | "mongo";
+  hit(key: string, config: RateLimitConfig): Promise<RateLimitResult>;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Memory backend                                                              */
 /* -------------------------------------------------------------------------- */
 
 interface RateLimitEntry {
@@ -23,20 +57,9 @@ function cleanup() {
   }
 }
 
-interface RateLimitConfig {
-  windowMs: number;   // Time window in milliseconds
-  maxRequests: number; // Max requests per window
-}
-
-interface RateLimitResult {
-  allowed: boolean;
-  remaining: number;
-  retryAfterMs: number; // 0 if allowed
-}
-
 /**
- * Check rate limit for a given key (e.g. IP + route).
- * Returns whether the request is allowed and how many requests remain.
+ * Check rate limit for a given key (e.g. IP + route) against this process's
+ * counters only. Returns whether the request is allowed and how many remain.
  */
 export function checkRateLimit(key: string, config: RateLimitConfig): RateLimitResult {
   cleanup();
@@ -64,6 +87,79 @@ export function checkRateLimit(key: string, config: RateLimitConfig): RateLimitR
   };
 }
 
+export const memoryRateLimiter: RateLimiter = {
+  name: "memory",
+  async hit(key, config) {
+    return checkRateLimit(key, config);
+  },
+};
+
+/* -------------------------------------------------------------------------- */
+/*  MongoDB backend                                                             */
+/* -------------------------------------------------------------------------- */
+
+export const mongoRateLimiter: RateLimiter = {
+  name: "mongo",
+  async hit(key, config) {
+    await connectDB();
+
+    const now = Date.now();
+    const windowStart = Math.floor(now / config.windowMs) * config.windowMs;
+    const resetAt = windowStart + config.windowMs;
+
+    const bump = () =>
+      RateLimitBucket.findOneAndUpdate(
+        { key, windowStart: new Date(windowStart) },
+        { $inc: { count: 1 }, $setOnInsert: { expiresAt: new Date(resetAt) } },
+        { upsert: true, new: true }
+      ).lean<{ count: number }>();
+
+    let bucket;
+    try {
+      bucket = await bump();
+    } catch (err) {
+      // Two instances upserting the same new window — the loser retries
+      // and lands on the winner's document.
+      if ((err as { code?: number }).code !== 11000) throw err;
+      bucket = await bump();
+    }
+
+    const count = bucket!.count;
+    if (count <= config.maxRequests) {
+      return { allowed: true, remaining: config.maxRequests - count, retryAfterMs: 0 };
+    }
+    return { allowed: false, remaining: 0, retryAfterMs: resetAt - now };
+  },
+};
+
+/* -------------------------------------------------------------------------- */
+/*  Backend selection                                                           */
+/* -------------------------------------------------------------------------- */
+
+const MONGO_COOL_OFF_MS = 30_000;
+let mongoFailedAt = 0;
+
+function configuredStore(): RateLimiter["name"] {
+  const explicit = process.env.RATE_LIMIT_STORE;
+  if (explicit === "memory" || explicit === "mongo") return explicit;
+  return process.env.NODE_ENV === "production" ? "mongo" : "memory";
+}
+
+/**
+ * Count a hit against `key` on the configured backend.
+ */
+export async function hitRateLimit(key: string, config: RateLimitConfig): Promise<RateLimitResult> {
+  if (configuredStore() === "mongo" && Date.now() - mongoFailedAt > MONGO_COOL_OFF_MS) {
+    try {
+      return await mongoRateLimiter.hit(key, config);
+    } catch (err) {
+      mongoFailedAt = Date.now();
+      console.error("Rate limiter: MongoDB unavailable, using in-memory limits:", err);
+    }
+  }
+  return memoryRateLimiter.hit(key, config);
+}
+
 /* ---- Preconfigured rate limit tiers ---- */
 
 /** General API: 60 requests per minute */
@@ -83,3 +179,97 @@ export const RATE_LIMIT_ADMIN: RateLimitConfig = {
   windowMs: 60_000,
   maxRequests: 30,
 };
+
+/** Public share links (pay, portal, measurement card, group, unsubscribe): 30 per minute */
+export const RATE_LIMIT_PUBLIC: RateLimitConfig = {
+  windowMs: 60_000,
+  maxRequests: 30,
+};
+
+/** Client scan submissions: 20 per minute */
+export const RATE_LIMIT_SCAN: RateLimitConfig = {
+  windowMs: 60_000,
+  maxRequests: 20,
+};
+
+/** "I've paid" from a payment link: 5 per 10 minutes */
+export const RATE_LIMIT_MARK_PAID: RateLimitConfig = {
+  windowMs: 10 * 60_000,
+  maxRequests: 5,
+};
+
+/** Portal ratings: 10 per 10 minutes */
+export const RATE_LIMIT_REVIEW: RateLimitConfig = {
+  windowMs: 10 * 60_000,
+  maxRequests: 10,
+};
+
+/* ---- Per-route policies ---- */
+
+export interface RateLimitPolicy {
+  name: string;
+  match: RegExp;
+  /** Only these methods; omit for all. */
+  methods?: string[];
+  config: RateLimitConfig;
+  /**
+   * "ip" — bucket by client IP (anonymous / public endpoints).
+   * "designer" — bucket signed-in callers by designer ID so a studio behind
+   * one shop NAT doesn't share a budget; falls back to IP when signed out.
+   */
+  scope: "ip" | "designer";
+}
+
+/** Checked in order; the first match wins. */
+export const RATE_LIMIT_POLICIES: RateLimitPolicy[] = [
+  {
+    name: "mark-paid",
+    match: /^\/api\/pay\/[^/]+\/mark-paid$/,
+    methods: ["POST"],
+    config: RATE_LIMIT_MARK_PAID,
+    scope: "ip",
+  },
+  {
+    name: "review",
+    match: /^\/api\/portal\/[^/]+\/review$/,
+    methods: ["POST"],
+    config: RATE_LIMIT_REVIEW,
+    scope: "ip",
+  },
+  {
+    name: "scan",
+    match: /^\/api\/scan\/(?!quota$|sessions$)[^/]+$/,
+    config: RATE_LIMIT_SCAN,
+    scope: "ip",
+  },
+  {
+    name: "public",
+    match: /^\/api\/(pay|portal|measurements|group|unsubscribe)\/[^/]+$/,
+    config: RATE_LIMIT_PUBLIC,
+    scope: "ip",
+  },
+  { name: "auth", match: /^\/api\/(auth|admin\/auth)(\/|$)/, config: RATE_LIMIT_AUTH, scope: "ip" },
+  { name: "admin", match: /^\/api\/admin(\/|$)/, config: RATE_LIMIT_ADMIN, scope: "ip" },
+  { name: "general", match: /^\/api\//, config: RATE_LIMIT_GENERAL, scope: "designer" },
+];
+
+export function resolveRateLimitPolicy(pathname: string, method: string): RateLimitPolicy | null {
+  return (
+    RATE_LIMIT_POLICIES.find(
+      (p) => p.match.test(pathname) && (!p.methods || p.methods.includes(method.toUpperCase()))
+    ) ?? null
+  );
+}
+
+/**
+ * Bucket key for a request under `policy`, e.g. `scan:ip:1.2.3.4:/api/scan/abc`.
+ */
+export function rateLimitKey(
+  policy: RateLimitPolicy,
+  pathname: string,
+  ip: string,
+  designerId?: string | null
+): string {
+  const subject = policy.scope === "designer" && designerId ? `designer:${designerId}` : `ip:${ip}`;
+  return `${policy.name}:${subject}:${pathname}`;
+}
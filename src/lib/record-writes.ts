@@ -0,0 +1,569 @@
+/* -------------------------------------------------------------------------- */
+/*  record-writes                                                               */
+/*                                                                              */
+/*  Client and order writes shared by the REST routes, offline sync          */
+/*  (lib/sync) and the WhatsApp bot, so a change made on a flaky connection  */
+/*  or from a chat hits the same plan limits, counters and side effects as   */
+/*  one made in the app. Callers check auth, permissions and input shape;    */
+/*  these assume a DB connection.                                             */
+/* -------------------------------------------------------------------------- */
+
+import { nanoid } from "nanoid";
+import { Client } from "@/lib/models/client";
+import { Order } from "@/lib/models/order";
+import { Designer } from "@/lib/models/designer";
+import { CalendarEvent } from "@/lib/models/calendar-event";
+import { Notification } from "@/lib/models/notification";
+import { SyncTombstone } from "@/lib/models/sync-tombstone";
+import { ScanSession } from "@/lib/models/scan-session";
+import { PaymentLink } from "@/lib/models/payment-link";
+import { logActivity } from "@/lib/models/activity-log";
+import { checkSubscriptionLimit } from "@/lib/subscription";
+import { loadDesignerForAction, getEffectivePlan } from "@/lib/access-control";
+import { generateScanLink } from "@/lib/utils";
+import {
+  buildOrderLines,
+  deriveOrderFields,
+  derivePaymentStatus,
+} from "@/lib/order-items";
+import { initialMeasurementLock, lockOrderMeasurements } from "@/lib/order-measurements";
+import { releaseOrderReservations } from "@/lib/inventory";
+import { isInProduction } from "@/lib/order-transitions";
+import { queueClientEmail } from "@/lib/client-emails";
+import type { ClientInput, OrderInput } from "@/lib/validations";
+import type { DesignerRole } from "@/types";
+
+export type WriteResult<T> =
+  | { ok: true; doc: T }
+  | { ok: false; status: number; message: string; extra?: Record<string, unknown> };
+
+/* ---- Clients ---- */
+
+export async function createClientRecord(
+  designerId: string,
+  data: ClientInput,
+): Promise<WriteResult<InstanceType<typeof Client>>> {
+  // Check subscription limit using LIFETIME count (non-decreasing, prevents delete-and-recreate gaming)
+  const designer = await Designer.findById(designerId).select("subscription role lifetimeCounts").lean();
+  const lifetimeClients = designer?.lifetimeCounts?.totalClientsCreated ?? 0;
+  const currentCount = await Client.countDocuments({ designerId });
+  const check = checkSubscriptionLimit(
+    designer?.subscription || "free",
+    "create_client",
+    currentCount,
+    lifetimeClients
+  );
+  if (!check.allowed) {
+    return {
+      ok: false,
+      status: 403,
+      message: check.message,
+      extra: { lifetimeCount: lifetimeClients },
+    };
+  }
+
+  // Atomically increment lifetime counter AND create client
+  await Designer.findByIdAndUpdate(designerId, {
+    $inc: { "lifetimeCounts.totalClientsCreated": 1 },
+  });
+
+  const client = await Client.create({
+    ...data,
+    designerId,
+  });
+
+  return { ok: true, doc: client };
+}
+
+/**
+ * Hard-delete a client and soft-delete their orders, releasing any
+ * materials those orders had reserved. Leaves a sync tombstone so offline
+ * devices drop their copy too.
+ */
+export async function deleteClientRecord(
+  designerId: string,
+  client: { _id: unknown; name: string; phone: string },
+): Promise<void> {
+  const id = String(client._id);
+  const openOrders = (await Order.find({ designerId, clientId: id, isDeleted: { $ne: true } })
+    .select("_id")
+    .lean()) as unknown as { _id: unknown }[];
+
+  // NOTE: lifetime client counter is NOT decremented — this is intentional to prevent tier-gaming
+  await Promise.all([
+    Order.updateMany({ clientId: id }, { $set: { isDeleted: true, deletedAt: new Date() } }),
+    Client.deleteOne({ _id: id }),
+    SyncTombstone.create({ designerId, entity: "client", entityId: id }),
+  ]);
+
+  // Their orders' materials go back on the shelf
+  for (const order of openOrders) {
+    await releaseOrderReservations(designerId, String(order._id), "Client deleted");
+  }
+
+  // Audit log
+  logActivity({
+    designerId,
+    action: "delete_client",
+    entity: "client",
+    entityId: id,
+    details: `Deleted client "${client.name}" (lifetime counter unchanged)`,
+    metadata: { clientName: client.name, clientPhone: client.phone },
+  });
+}
+
+/* ---- Orders ---- */
+
+export async function createOrderRecord(
+  designerId: string,
+  data: OrderInput,
+): Promise<WriteResult<InstanceType<typeof Order>>> {
+  const gate = await loadDesignerForAction(designerId);
+  if (!gate.ok) {
+    return {
+      ok: false,
+      status: gate.status,
+      message: gate.message,
+      extra: { suspended: gate.reason === "suspended" },
+    };
+  }
+
+  // Verify the client belongs to this designer
+  const client = await Client.findOne({
+    _id: data.clientId,
+    designerId,
+  });
+
+  if (!client) {
+    return { ok: false, status: 404, message: "Client not found or does not belong to you" };
+  }
+
+  // Every new order gets line items. Older clients that still send a
+  // single garmentType + price become a one-line order.
+  const { items: rawItems, ...orderData } = data;
+  const lineInput = rawItems && rawItems.length > 0
+    ? rawItems
+    : [{
+        garmentType: orderData.garmentType || "",
+        fabric: orderData.fabric,
+        quantity: 1,
+        unitPrice: orderData.price || 0,
+      }];
+  const clientMeasurements = client.measurements
+    ? (JSON.parse(JSON.stringify(client.measurements)) as Record<string, number>)
+    : undefined;
+  const items = buildOrderLines(lineInput, [], clientMeasurements);
+  const derived = deriveOrderFields(items);
+
+  const initialDeposit = orderData.depositPaid || 0;
+  const payments = initialDeposit > 0
+    ? [{ amount: initialDeposit, method: "cash", paidAt: new Date() }]
+    : [];
+
+  const order = await Order.create({
+    ...orderData,
+    ...derived,
+    items,
+    ...initialMeasurementLock(items),
+    designerId,
+    status: "pending",
+    statusHistory: [{ status: "pending", changedAt: new Date() }],
+    currency: "NGN",
+    depositPaid: initialDeposit,
+    payments,
+    paymentStatus: derivePaymentStatus(derived.price, initialDeposit),
+  });
+
+  // Increment lifetime order counter
+  await Designer.findByIdAndUpdate(designerId, {
+    $inc: { "lifetimeCounts.totalOrdersCreated": 1 },
+  });
+
+  // Auto-create calendar deadline event if order has a due date
+  if (data.dueDate) {
+    CalendarEvent.create({
+      designerId,
+      title: `Due: ${data.title}`,
+      date: new Date(data.dueDate),
+      type: "deadline",
+      orderId: order._id,
+      color: "#ef4444",
+    }).catch(() => {}); // fire-and-forget
+  }
+
+  // Audit log
+  logActivity({
+    designerId,
+    action: "create_order",
+    entity: "order",
+    entityId: order._id.toString(),
+    details: `Created order "${data.title}" for ${derived.price} NGN (${items.length} item${items.length === 1 ? "" : "s"})`,
+    metadata: {
+      title: data.title,
+      price: derived.price,
+      items: items.length,
+      clientId: data.clientId,
+      measurementsTakenAt: items[0]?.measuredAt ?? null,
+    },
+  });
+
+  return { ok: true, doc: order };
+}
+
+/**
+ * Soft-delete an order (preserves data for audit trail). `role` is the
+ * caller's role in the workspace — staff are refused.
+ */
+export async function deleteOrderRecord(
+  designerId: string,
+  orderId: string,
+  role: DesignerRole,
+): Promise<WriteResult<InstanceType<typeof Order>>> {
+  // Zero-delete policy: ONLY owners can delete orders
+  if (role !== "owner") {
+    return {
+      ok: false,
+      status: 403,
+      message: "Only the account owner (Oga) can delete orders. Use 'Request Correction' instead.",
+    };
+  }
+
+  // Soft-delete: mark as deleted instead of removing from DB
+  const order = await Order.findOneAndUpdate(
+    { _id: orderId, designerId, isDeleted: { $ne: true } },
+    { $set: { isDeleted: true, deletedAt: new Date() } },
+    { new: true }
+  );
+
+  if (!order) {
+    return { ok: false, status: 404, message: "Order not found" };
+  }
+
+  // Audit log
+  logActivity({
+    designerId,
+    action: "soft_delete_order",
+    entity: "order",
+    entityId: orderId,
+    details: `Soft-deleted order "${order.title}" (${order.price} ${order.currency})`,
+    metadata: { title: order.title, price: order.price, status: order.status },
+  });
+
+  await releaseOrderReservations(designerId, orderId, "Order deleted");
+
+  return { ok: true, doc: order };
+}
+
+/* ---- Payments ---- */
+
+export type PaymentMethod = "cash" | "bank_transfer" | "card" | "mobile_money" | "other";
+
+/**
+ * Append a payment to an order and recompute depositPaid / paymentStatus
+ * from the full list, then queue the client's "payment received" email.
+ * Shared by the payments route and the WhatsApp bot's PAID command.
+ */
+export async function recordOrderPayment(
+  designerId: string,
+  orderId: string,
+  input: { amount: number; method?: PaymentMethod; note?: string },
+): Promise<WriteResult<InstanceType<typeof Order>>> {
+  const order = await Order.findOne({ _id: orderId, designerId });
+  if (!order) {
+    return { ok: false, status: 404, message: "Order not found" };
+  }
+
+  const method = input.method || "cash";
+  order.payments = order.payments || [];
+  order.payments.push({
+    amount: input.amount,
+    method,
+    note: input.note || undefined,
+    paidAt: new Date(),
+  });
+
+  // depositPaid is the sum of every payment
+  const totalPaid = order.payments.reduce(
+    (sum: number, p: { amount: number }) => sum + p.amount,
+    0
+  );
+  order.depositPaid = totalPaid;
+  order.paymentStatus = derivePaymentStatus(order.price, totalPaid);
+
+  await order.save();
+
+  logActivity({
+    designerId,
+    action: "record_payment",
+    entity: "payment",
+    entityId: orderId,
+    details: `Recorded ${method} payment of ${input.amount} for "${order.title}"`,
+    metadata: { amount: input.amount, method, totalPaid, orderTitle: order.title },
+  });
+
+  const payment = order.payments[order.payments.length - 1] as { _id?: unknown };
+  await queueClientEmail(designerId, "payment_received", orderId, {
+    ref: String(payment._id),
+    amount: input.amount,
+  }).catch((err) => console.error("Payment email not queued:", err));
+
+  return { ok: true, doc: order };
+}
+
+/**
+ * A shareable payment request against an order — the client pays the
+ * designer's own bank account, so one must be on file. Shared by the
+ * payment-links route and the client side of the WhatsApp bot.
+ */
+export async function createPaymentLinkRecord(
+  designerId: string,
+  orderId: string,
+  input: { label: string; amount: number },
+): Promise<WriteResult<InstanceType<typeof PaymentLink>>> {
+  const [order, designer] = await Promise.all([
+    Order.findOne({ _id: orderId, designerId, isDeleted: { $ne: true } }),
+    Designer.findById(designerId).select("bankAccount businessName").lean(),
+  ]);
+
+  if (!order) {
+    return { ok: false, status: 404, message: "Order not found" };
+  }
+
+  const bank = (designer as { bankAccount?: { bankName?: string; accountNumber?: string; accountName?: string } } | null)
+    ?.bankAccount;
+  if (!bank?.bankName || !bank?.accountNumber || !bank?.accountName) {
+    return {
+      ok: false,
+      status: 400,
+      message: "Add your bank account details in Settings before creating a payment link — that's what your client will pay into.",
+      extra: { needsBankAccount: true },
+    };
+  }
+
+  const code = nanoid(10);
+  const link = await PaymentLink.create({
+    designerId,
+    orderId,
+    code,
+    label: input.label.trim(),
+    amount: input.amount,
+    currency: order.currency || "NGN",
+    status: "pending",
+  });
+
+  logActivity({
+    designerId,
+    action: "create_payment_link",
+    entity: "payment",
+    entityId: String(link._id),
+    details: `Created payment link "${input.label}" for ₦${input.amount.toLocaleString()} on "${order.title}"`,
+    metadata: { orderId, amount: input.amount, label: input.label, code },
+  });
+
+  return { ok: true, doc: link };
+}
+
+/* ---- Scan links ---- */
+
+/**
+ * Create a 24-hour scan link, optionally tied to a client. Plan quota
+ * first, then a pay-per-scan credit; a client's older pending links are
+ * expired (and any credit they used handed back). Shared by the scan
+ * sessions route and the WhatsApp bots. `spendCredit: false` refuses
+ * instead of taking a credit — for requests the designer didn't make.
+ */
+export async function createScanSessionRecord(
+  designerId: string,
+  clientId?: string,
+  opts: { spendCredit?: boolean } = {},
+): Promise<WriteResult<InstanceType<typeof ScanSession>>> {
+  // Suspended / not-found gate (also gives us the loaded designer record)
+  const gate = await loadDesignerForAction(designerId);
+  if (!gate.ok) {
+    return {
+      ok: false,
+      status: gate.status,
+      message: gate.message,
+      extra: { suspended: gate.reason === "suspended" },
+    };
+  }
+
+  // Use the EFFECTIVE plan, not the stored field — expired Plus → free.
+  const subscription = getEffectivePlan(gate.designer);
+  const startOfMonth = new Date(new Date().getFullYear(), new Date().getMonth(), 1);
+
+  // Monthly count (used by Plus plan)
+  const scanCount = await ScanSession.countDocuments({
+    designerId,
+    createdAt: { $gte: startOfMonth },
+  });
+
+  // Lifetime completed scans (used by Free plan trial cap — only count
+  // sessions the client actually finished so a wasted link doesn't burn
+  // a trial slot).
+  let lifetimeCount = 0;
+  if (subscription === "free") {
+    lifetimeCount = await ScanSession.countDocuments({
+      designerId,
+      status: "completed",
+    });
+  }
+
+  const check = checkSubscriptionLimit(
+    subscription,
+    "create_scan",
+    scanCount,
+    lifetimeCount,
+  );
+  // Plan quota used up — fall back to pay-per-scan credits. The credit is
+  // only taken once the link is about to be created (see below).
+  const needsCredit = !check.allowed;
+  if (needsCredit && opts.spendCredit === false) {
+    return { ok: false, status: 403, message: check.message, extra: { needsCredit: true } };
+  }
+  if (needsCredit) {
+    const balance = await Designer.findById(designerId).select("scanCredits").lean();
+    if (!balance?.scanCredits || balance.scanCredits < 1) {
+      return { ok: false, status: 403, message: check.message, extra: { needsTopUp: true } };
+    }
+  }
+
+  // If a clientId is provided, verify it belongs to this designer
+  if (clientId) {
+    const client = await Client.exists({ _id: clientId, designerId });
+    if (!client) {
+      return { ok: false, status: 404, message: "Client not found" };
+    }
+  }
+
+  // Generate a unique link code
+  let linkCode = generateScanLink();
+  let attempts = 0;
+  while (await ScanSession.findOne({ linkCode })) {
+    linkCode = generateScanLink();
+    attempts++;
+    if (attempts > 10) {
+      return { ok: false, status: 500, message: "Failed to generate unique link code" };
+    }
+  }
+
+  // Atomic decrement — only succeeds if a credit is still there (another
+  // tab may have spent the last one since the check above).
+  if (needsCredit) {
+    const spent = await Designer.findOneAndUpdate(
+      { _id: designerId, scanCredits: { $gte: 1 } },
+      { $inc: { scanCredits: -1 } },
+      { new: false, projection: { scanCredits: 1 } },
+    );
+    if (!spent) {
+      return { ok: false, status: 403, message: check.message, extra: { needsTopUp: true } };
+    }
+  }
+
+  // Expire any existing pending sessions for this client (only if client provided).
+  // A replaced link that was paid with a credit never got used — give it back.
+  if (clientId) {
+    const replacedPaid = await ScanSession.countDocuments({
+      clientId, designerId, status: "pending", paidWithCredit: true,
+    });
+    await ScanSession.updateMany(
+      { clientId, designerId, status: "pending" },
+      { $set: { status: "expired" } }
+    );
+    if (replacedPaid > 0) {
+      await Designer.updateOne({ _id: designerId }, { $inc: { scanCredits: replacedPaid } });
+    }
+  }
+
+  try {
+    const scanSession = await ScanSession.create({
+      designerId,
+      linkCode,
+      status: "pending",
+      // 24-hour expiry
+      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      ...(clientId ? { clientId } : {}),
+      ...(needsCredit ? { paidWithCredit: true } : {}),
+    });
+    return { ok: true, doc: scanSession };
+  } catch (err) {
+    // Refund the credit if the link never got created
+    if (needsCredit) {
+      await Designer.updateOne({ _id: designerId }, { $inc: { scanCredits: 1 } });
+    }
+    throw err;
+  }
+}
+
+/**
+ * Audit log for a status change, the measurement lock when the order enters
+ * production, handing back reserved materials when it's cancelled, the
+ * client's progress / ready-for-pickup email, plus the one-off "your client
+ * is waiting" nudge when an order the client asked to hear about (portal
+ * opt-in) hits "ready" or "delivered". Call after the new status is saved.
+ */
+export async function afterOrderStatusChange(
+  designerId: string,
+  order: {
+    _id: unknown;
+    title: string;
+    notifyWhenReady?: boolean;
+    notifyReadySentAt?: Date;
+  },
+  newStatus: string,
+  client?: { name?: string; phone?: string } | null,
+): Promise<void> {
+  const id = String(order._id);
+
+  logActivity({
+    designerId,
+    action: "update_order_status",
+    entity: "order",
+    entityId: id,
+    details: `Status changed to "${newStatus}"`,
+    metadata: { newStatus, title: order.title },
+  });
+
+  if (isInProduction(newStatus)) {
+    await lockOrderMeasurements(designerId, id);
+  }
+  if (newStatus === "cancelled") {
+    await releaseOrderReservations(designerId, id, "Order cancelled");
+  }
+  if (newStatus !== "pending" && newStatus !== "cancelled") {
+    await queueClientEmail(designerId, newStatus === "ready" ? "order_ready" : "order_status", id, {
+      ref: newStatus,
+    }).catch((err) => console.error("Status email not queued:", err));
+  }
+
+  // If status transitions to "ready" or "delivered" AND the customer
+  // opted into a notification, fire a Notification to the designer
+  // with a one-tap wa.me deep link to message the customer.
+  const isReadyish = newStatus === "ready" || newStatus === "delivered";
+  if (!isReadyish || !order.notifyWhenReady || order.notifyReadySentAt) return;
+
+  const phoneClean = (client?.phone || "").replace(/\D/g, "");
+  const phone234 = phoneClean.startsWith("0")
+    ? "234" + phoneClean.slice(1)
+    : phoneClean.startsWith("234")
+    ? phoneClean
+    : "234" + phoneClean;
+  const waText =
+    newStatus === "ready"
+      ? `Hi ${client?.name?.split(" ")[0] || ""}! 🎉 Your *${order.title}* is READY for pickup. Let me know when you'd like to come.`
+      : `Hi ${client?.name?.split(" ")[0] || ""}! ✅ Your *${order.title}* has been delivered — enjoy! Please reach out if anything needs adjusting.`;
+  const waLink = phoneClean
+    ? `https://wa.me/${phone234}?text=${encodeURIComponent(waText)}`
+    : undefined;
+
+  await Notification.create({
+    designerId,
+    type: "system",
+    title: `📣 ${client?.name || "Your client"} is waiting for "${order.title}"`,
+    message: `They opted into a "tell-me-when-ready" notification on the client portal. Tap to message them now.`,
+    link: waLink || `/orders/${id}`,
+  }).catch(() => { /* non-fatal */ });
+
+  // Stamp so we don't fire it again on subsequent status flips
+  await Order.updateOne({ _id: id }, { $set: { notifyReadySentAt: new Date() } });
+}
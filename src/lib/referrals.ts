@@ -0,0 +1,302 @@
+/* -------------------------------------------------------------------------- */
+/*  Referral programme                                                          */
+/*                                                                              */
+/*  Every designer gets a short code; `?ref=CODE` on the landing or register */
+/*  page is carried through signup in REFERRAL_COOKIE (see proxy.ts). The    */
+/*  new account starts a pending Referral. The first time the referee        */
+/*  finishes onboarding or pays for anything, both sides get scan credits    */
+/*  (REFERRAL_CONFIG) — the referrer for at most `maxReferrals` friends.      */
+/*                                                                              */
+/*  Fraud guard: a referee who shares a phone number or browser (DEVICE_      */
+/*  COOKIE) with the referrer, or with another of their referees, is flagged */
+/*  instead of rewarded and waits for an admin in /admin/referrals.           */
+/* -------------------------------------------------------------------------- */
+
+import { Designer } from "@/lib/models/designer";
+import { Referral, type IReferral, type ReferralTrigger } from "@/lib/models/referral";
+import { Notification } from "@/lib/models/notification";
+import { logActivity } from "@/lib/models/activity-log";
+import { notifyAdmin } from "@/lib/admin-notify";
+import { REFERRAL_CONFIG } from "@/lib/constants";
+
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 7;
+const MAX_DEVICE_IDS = 10;
+
+/** Uppercased code if it looks like one of ours, else null. */
+export function normaliseReferralCode(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const code = raw.trim().toUpperCase();
+  return /^[A-Z0-9]{4,12}$/.test(code) ? code : null;
+}
+
+export function isDeviceId(raw: unknown): raw is string {
+  return typeof raw === "string" && /^[A-Za-z0-9-]{16,64}$/.test(raw);
+}
+
+/** Last 10 digits, or null for empty / placeholder numbers ("0000000000"). */
+function phoneKey(phone: unknown): string | null {
+  if (typeof phone !== "string") return null;
+  const digits = phone.replace(/\D/g, "").slice(-10);
+  return digits.length === 10 && !/^0+$/.test(digits) ? digits : null;
+}
+
+function generateCode(): string {
+  let s = "";
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    s += CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)];
+  }
+  return s;
+}
+
+/** The designer's referral code, minted on first use. */
+export async function ensureReferralCode(designerId: string): Promise<string> {
+  const existing = await Designer.findById(designerId).select("referralCode").lean();
+  if (existing?.referralCode) return existing.referralCode as string;
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = generateCode();
+    try {
+      const updated = await Designer.findOneAndUpdate(
+        { _id: designerId, referralCode: { $exists: false } },
+        { $set: { referralCode: code } },
+        { new: true, projection: { referralCode: 1 } },
+      ).lean();
+      if (updated?.referralCode) return updated.referralCode as string;
+      // Lost a race with another request — use whatever it set
+      const again = await Designer.findById(designerId).select("referralCode").lean();
+      if (again?.referralCode) return again.referralCode as string;
+    } catch (err) {
+      if ((err as { code?: number }).code !== 11000) throw err;
+      // Code collision — try another
+    }
+  }
+  throw new Error("Could not allocate a referral code");
+}
+
+/** Remember a browser the designer uses, for the fraud guard. */
+export async function rememberDevice(designerId: string, deviceId: unknown): Promise<void> {
+  if (!isDeviceId(deviceId)) return;
+  await Designer.updateOne(
+    { _id: designerId, deviceIds: { $ne: deviceId } },
+    { $push: { deviceIds: { $each: [deviceId], $slice: -MAX_DEVICE_IDS } } },
+  );
+}
+
+/**
+ * Link a brand-new account to whoever referred it. Unknown codes and
+ * self-referrals are ignored — signup never fails because of a bad code.
+ */
+export async function recordReferralSignup(input: {
+  refereeId: string;
+  code: string;
+  deviceId?: string;
+}): Promise<void> {
+  const referrer = await Designer.findOne({ referralCode: input.code }).select("_id").lean();
+  if (!referrer || String(referrer._id) === input.refereeId) return;
+
+  try {
+    await Referral.create({
+      referrerId: referrer._id,
+      refereeId: input.refereeId,
+      code: input.code,
+      deviceId: isDeviceId(input.deviceId) ? input.deviceId : undefined,
+    });
+  } catch (err) {
+    if ((err as { code?: number }).code !== 11000) throw err;
+    return;
+  }
+  await Designer.updateOne({ _id: input.refereeId }, { $set: { referredBy: referrer._id } });
+}
+
+/** Why this referral looks like someone referring themselves, if it does. */
+async function fraudReason(referral: IReferral): Promise<string | null> {
+  const [referrer, referee] = await Promise.all([
+    Designer.findById(referral.referrerId).select("phone +deviceIds").lean(),
+    Designer.findById(referral.refereeId).select("phone +deviceIds").lean(),
+  ]);
+  if (!referrer || !referee) return "Account no longer exists";
+
+  const refereePhone = phoneKey(referee.phone);
+  if (refereePhone && refereePhone === phoneKey(referrer.phone)) {
+    return "Same phone number as the referrer";
+  }
+
+  const refereeDevices = new Set<string>([
+    ...(referral.deviceId ? [referral.deviceId] : []),
+    ...((referee.deviceIds as string[] | undefined) ?? []),
+  ]);
+  const referrerDevices = (referrer.deviceIds as string[] | undefined) ?? [];
+  if (referrerDevices.some((d) => refereeDevices.has(d))) {
+    return "Signed up on the referrer's device";
+  }
+
+  // Same phone or device as one of the referrer's other referees
+  const siblings = await Referral.find({
+    referrerId: referral.referrerId,
+    _id: { $ne: referral._id },
+    status: { $ne: "rejected" },
+  })
+    .select("refereeId deviceId")
+    .limit(200)
+    .lean();
+  if (referral.deviceId && siblings.some((s) => s.deviceId === referral.deviceId)) {
+    return "Device already used for another referral";
+  }
+  if (refereePhone && siblings.length > 0) {
+    const others = await Designer.find({ _id: { $in: siblings.map((s) => s.refereeId) } })
+      .select("phone")
+      .lean();
+    if (others.some((o) => phoneKey(o.phone) === refereePhone)) {
+      return "Phone number already used for another referral";
+    }
+  }
+  return null;
+}
+
+/** Credit both sides of a referral that has just been marked rewarded. */
+async function grantRewards(referral: IReferral): Promise<void> {
+  const [referrer, referee] = await Promise.all([
+    Designer.findByIdAndUpdate(
+      referral.referrerId,
+      { $inc: { scanCredits: referral.referrerReward } },
+      { projection: { name: 1, businessName: 1 } },
+    ).lean(),
+    Designer.findByIdAndUpdate(
+      referral.refereeId,
+      { $inc: { scanCredits: referral.refereeReward } },
+      { projection: { name: 1, businessName: 1 } },
+    ).lean(),
+  ]);
+  const referrerName = (referrer?.businessName as string) || (referrer?.name as string) || "a friend";
+  const refereeName = (referee?.businessName as string) || (referee?.name as string) || "Your friend";
+
+  if (referral.referrerReward > 0) {
+    logActivity({
+      designerId: String(referral.referrerId),
+      action: "referral_reward",
+      entity: "settings",
+      details: `Earned ${referral.referrerReward} scan credits for referring ${refereeName}`,
+      metadata: { referralId: String(referral._id), side: "referrer", trigger: referral.trigger },
+    });
+    Notification.create({
+      designerId: referral.referrerId,
+      type: "system",
+      title: `🎉 ${referral.referrerReward} free scan credits earned`,
+      message: `${refereeName} joined Stitcha with your link. Thank you for spreading the word!`,
+      link: "/settings?tab=referrals",
+    }).catch(() => { /* non-fatal */ });
+  }
+
+  logActivity({
+    designerId: String(referral.refereeId),
+    action: "referral_reward",
+    entity: "settings",
+    details: `Received ${referral.refereeReward} scan credits for joining via ${referrerName}`,
+    metadata: { referralId: String(referral._id), side: "referee", trigger: referral.trigger },
+  });
+  Notification.create({
+    designerId: referral.refereeId,
+    type: "system",
+    title: `🎁 ${referral.refereeReward} free scan credits added`,
+    message: `A welcome gift for joining through ${referrerName}. Use them on AI scans any time.`,
+    link: "/billing",
+  }).catch(() => { /* non-fatal */ });
+}
+
+/** How much the referrer gets for the next referral — 0 once they're capped. */
+async function referrerRewardFor(referrerId: IReferral["referrerId"]): Promise<number> {
+  const rewarded = await Referral.countDocuments({
+    referrerId,
+    status: "rewarded",
+    referrerReward: { $gt: 0 },
+  });
+  return rewarded < REFERRAL_CONFIG.maxReferrals ? REFERRAL_CONFIG.referrerReward : 0;
+}
+
+/**
+ * Settle the designer's pending referral, if any — called when they finish
+ * onboarding and after every successful payment. Only the first call does
+ * anything; the claim is atomic so concurrent triggers can't double-pay.
+ */
+export async function rewardReferral(
+  refereeId: string,
+  trigger: Exclude<ReferralTrigger, "admin">,
+): Promise<void> {
+  const referral = await Referral.findOne({ refereeId, status: "pending" });
+  if (!referral) return;
+
+  const reason = await fraudReason(referral);
+  if (reason) {
+    const flagged = await Referral.findOneAndUpdate(
+      { _id: referral._id, status: "pending" },
+      { $set: { status: "flagged", flagReason: reason, trigger } },
+      { new: true },
+    );
+    if (flagged) {
+      notifyAdmin({
+        kind: "referral_flagged",
+        severity: "action_required",
+        title: "🚩 Referral held for review",
+        message: `${reason} (code ${referral.code}). Approve or reject it in Referrals.`,
+        link: "/admin/referrals?status=flagged",
+        designerId: String(referral.referrerId),
+        meta: { referralId: String(referral._id), refereeId, reason },
+      }).catch(() => { /* non-fatal */ });
+    }
+    return;
+  }
+
+  const claimed = await Referral.findOneAndUpdate(
+    { _id: referral._id, status: "pending" },
+    {
+      $set: {
+        status: "rewarded",
+        trigger,
+        rewardedAt: new Date(),
+        referrerReward: await referrerRewardFor(referral.referrerId),
+        refereeReward: REFERRAL_CONFIG.refereeReward,
+      },
+    },
+    { new: true },
+  );
+  if (claimed) await grantRewards(claimed);
+}
+
+/** Admin decision on a flagged referral. */
+export async function reviewReferral(
+  referralId: string,
+  decision: "approve" | "reject",
+): Promise<{ ok: boolean; status: number; message: string }> {
+  const referral = await Referral.findById(referralId).select("status referrerId").lean();
+  if (!referral) return { ok: false, status: 404, message: "Referral not found" };
+  if (referral.status !== "flagged") {
+    return {
+      ok: false,
+      status: 409,
+      message: `Only flagged referrals can be reviewed (this one is ${referral.status}).`,
+    };
+  }
+
+  if (decision === "reject") {
+    await Referral.updateOne({ _id: referralId, status: "flagged" }, { $set: { status: "rejected" } });
+    return { ok: true, status: 200, message: "Referral rejected — no credits granted" };
+  }
+
+  const claimed = await Referral.findOneAndUpdate(
+    { _id: referralId, status: "flagged" },
+    {
+      $set: {
+        status: "rewarded",
+        trigger: "admin",
+        rewardedAt: new Date(),
+        referrerReward: await referrerRewardFor(referral.referrerId),
+        refereeReward: REFERRAL_CONFIG.refereeReward,
+      },
+    },
+    { new: true },
+  );
+  if (!claimed) return { ok: false, status: 409, message: "Referral was already reviewed." };
+  await grantRewards(claimed);
+  return { ok: true, status: 200, message: "Referral approved — credits granted to both sides" };
+}
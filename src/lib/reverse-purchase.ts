@@ -5,10 +5,12 @@
 /*  refund flow to undo a previously-verified manual payment.                  */
 /*                                                                              */
 /*  Each branch is conservative:                                                */
-/*    • Subscriptions revert to "free" (we don't track the previous plan).    */
+/*    • Subscriptions revert to "free" (we don't track the previous plan)    */
+/*      and any card auto-renewal is cancelled.                                */
 /*    • Boost: pulls boostedUntil back by durationDays (or unsets if it       */
 /*      would land in the past).                                                */
 /*    • SMS pack: deducts up to the pack's count, never below zero.            */
+/*    • Scan credits: same as SMS — unspent credits only.                      */
 /*    • Studio: pulls studioAddon.expiresAt back by durationDays (or unsets). */
 /*                                                                              */
 /*  Returns a result with a human summary AND a notes[] list of partial      */
@@ -20,8 +22,9 @@ import { Designer } from "@/lib/models/designer";
 import { Order } from "@/lib/models/order";
 import { Notification } from "@/lib/models/notification";
 import { logActivity } from "@/lib/models/activity-log";
-import { SMS_PACKS, STUDIO_ADDON, BOOST_DURATION_DAYS } from "@/lib/constants";
+import { SMS_PACKS, CREDIT_PACKS, STUDIO_ADDON, BOOST_DURATION_DAYS } from "@/lib/constants";
 import type { PurchasePurpose } from "@/lib/activate-purchase";
+import { cancelAutoRenew } from "@/lib/subscription-billing";
 
 const DAY_MS = 24 * 60 * 60 * 1000;
 
@@ -66,6 +69,8 @@ export async function reversePurchase(
       const prev = designer as unknown as { subscription?: string; subscriptionExpiry?: Date } | null;
       const summary = `Subscription reverted from ${prev?.subscription ?? "?"} to free.`;
       notes.push(summary);
+      const cancelled = await cancelAutoRenew(designerId).catch(() => null);
+      if (cancelled?.ok) notes.push("Card auto-renewal cancelled.");
       await afterReverse({
         designerId,
         purpose,
@@ -163,6 +168,43 @@ export async function reversePurchase(
       return { ok: true, summary, notes };
     }
 
+    /* --------------------------- Scan credits ---------------------------- */
+    case "scan_credits": {
+      const packId = payload.packId;
+      const pack = CREDIT_PACKS.find((p) => p.id === packId);
+      if (!pack) return { ok: false, summary: "Unknown scan credit pack.", notes: [] };
+
+      const before = await Designer.findById(designerId).select("scanCredits").lean();
+      const beforeBal = ((before as unknown as Record<string, unknown> | null)?.scanCredits as number) ?? 0;
+      const deductBy = Math.min(beforeBal, pack.scans);
+      await Designer.updateOne(
+        { _id: designerId },
+        { $inc: { scanCredits: -deductBy, scanCreditsLifetimePurchased: -pack.scans } },
+      );
+      await Designer.updateOne(
+        { _id: designerId, scanCreditsLifetimePurchased: { $lt: 0 } },
+        { $set: { scanCreditsLifetimePurchased: 0 } },
+      );
+
+      let summary = `Deducted ${deductBy} scan credits.`;
+      if (deductBy < pack.scans) {
+        summary += ` (${pack.scans - deductBy} were already spent — partial refund.)`;
+        notes.push(`Designer had already used ${pack.scans - deductBy} of ${pack.scans} scan credits before refund.`);
+      } else {
+        notes.push(summary);
+      }
+      await afterReverse({
+        designerId,
+        purpose,
+        reference,
+        amountNGN,
+        reason,
+        title: "↩️ Scan credits refunded",
+        message: `An admin reversed your ${pack.scans}-scan credit pack (${reference}). ${summary} Reason: ${reason}`,
+      });
+      return { ok: true, summary, notes };
+    }
+
     /* --------------------------- Studio addon ---------------------------- */
     case "studio_addon": {
       const days = Number(payload.durationDays) || STUDIO_ADDON.durationDays;
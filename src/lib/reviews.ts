@@ -0,0 +1,89 @@
+import mongoose from "mongoose";
+import { Review } from "@/lib/models/review";
+
+/* -------------------------------------------------------------------------- */
+/*  Reviews                                                                     */
+/*  Shared rating maths for the Stitcha Score, rank XP, the leaderboard and  */
+/*  the public profile, so they all agree on what a "five-star month" is.    */
+/* -------------------------------------------------------------------------- */
+
+/** A month counts as five-star with at least this many ratings... */
+export const FIVE_STAR_MONTH_MIN_REVIEWS = 3;
+/** ...averaging at least this. */
+export const FIVE_STAR_MONTH_MIN_AVERAGE = 4.5;
+
+export interface RatingSummary {
+  average: number;
+  count: number;
+  fiveStar: number;
+}
+
+export async function getRatingSummary(designerId: string): Promise<RatingSummary> {
+  const [row] = await Review.aggregate([
+    { $match: { designerId: new mongoose.Types.ObjectId(designerId) } },
+    {
+      $group: {
+        _id: null,
+        average: { $avg: "$rating" },
+        count: { $sum: 1 },
+        fiveStar: { $sum: { $cond: [{ $eq: ["$rating", 5] }, 1, 0] } },
+      },
+    },
+  ]);
+  return {
+    average: row ? Math.round(row.average * 10) / 10 : 0,
+    count: row?.count || 0,
+    fiveStar: row?.fiveStar || 0,
+  };
+}
+
+/** Calendar months (by review date) that clear the five-star bar. */
+export async function countFiveStarMonths(designerId: string): Promise<number> {
+  const [row] = await Review.aggregate([
+    { $match: { designerId: new mongoose.Types.ObjectId(designerId) } },
+    {
+      $group: {
+        _id: { year: { $year: "$createdAt" }, month: { $month: "$createdAt" } },
+        count: { $sum: 1 },
+        average: { $avg: "$rating" },
+      },
+    },
+    {
+      $match: {
+        count: { $gte: FIVE_STAR_MONTH_MIN_REVIEWS },
+        average: { $gte: FIVE_STAR_MONTH_MIN_AVERAGE },
+      },
+    },
+    { $count: "months" },
+  ]);
+  return row?.months || 0;
+}
+
+export interface Testimonial {
+  _id: string;
+  rating: number;
+  comment: string;
+  clientName: string;
+  createdAt: string;
+}
+
+/** Reviews the client agreed to share and the designer hasn't hidden. */
+export async function getTestimonials(designerId: string, limit = 6): Promise<Testimonial[]> {
+  const reviews = await Review.find({
+    designerId,
+    shareAsTestimonial: true,
+    hidden: { $ne: true },
+    comment: { $nin: [null, ""] },
+  })
+    .sort({ rating: -1, createdAt: -1 })
+    .limit(limit)
+    .lean();
+
+  return reviews.map((r) => ({
+    _id: String(r._id),
+    rating: r.rating,
+    comment: r.comment || "",
+    clientName: r.clientName,
+    createdAt: new Date(r.createdAt).toISOString(),
+  }));
+}
@@ -0,0 +1,354 @@
+/* -------------------------------------------------------------------------- */
+/*  Subscription billing — Paystack auto-renewal                               */
+/*                                                                              */
+/*  A card checkout with auto-renew passes a Paystack plan code               */
+/*  (PAYSTACK_PLAN_CODES), so Paystack turns the first charge into a          */
+/*  subscription and charges the saved card every period. Each renewal      */
+/*  arrives as `charge.success` and goes through activatePurchase() like any */
+/*  other payment; this module handles the rest of the lifecycle:            */
+/*                                                                              */
+/*    subscription.create        → remember the codes needed to manage it     */
+/*    invoice.payment_failed     → past_due, tell the designer, grace kicks in */
+/*    subscription.not_renew /   → auto-renew off; the paid period runs out    */
+/*    subscription.disable                                                      */
+/*    subscription.expiring_cards → ask the designer to update their card     */
+/*                                                                              */
+/*  Access itself is still read-time: getEffectivePlan() honours the grace   */
+/*  period, and the daily subscriptions.expiry sweep sends the reminders.    */
+/* -------------------------------------------------------------------------- */
+
+import { Designer } from "@/lib/models/designer";
+import { Notification } from "@/lib/models/notification";
+import { logActivity } from "@/lib/models/activity-log";
+import { notifyAdmin } from "@/lib/admin-notify";
+import {
+  PAYSTACK_PLAN_CODES,
+  SUBSCRIPTION_BILLING,
+  type BillingInterval,
+} from "@/lib/constants";
+
+type PaidPlan = "plus" | "pro";
+
+/** Paystack objects arrive loosely typed — only the fields we read. */
+export interface PaystackCustomerRef {
+  customer_code?: string;
+  email?: string;
+}
+
+export interface PaystackSubscriptionEvent {
+  subscription_code?: string;
+  email_token?: string;
+  next_payment_date?: string | null;
+  plan?: { plan_code?: string };
+  customer?: PaystackCustomerRef;
+}
+
+export interface PaystackInvoiceEvent {
+  description?: string;
+  subscription?: { subscription_code?: string; next_payment_date?: string | null };
+  customer?: PaystackCustomerRef;
+  transaction?: { reference?: string; status?: string; gateway_response?: string };
+}
+
+export interface PaystackExpiringCard {
+  expiry_date?: string;
+  description?: string;
+  brand?: string;
+  subscription?: { subscription_code?: string };
+  customer?: PaystackCustomerRef;
+}
+
+/** Paystack plan code for a plan × interval, if auto-renewal is set up for it. */
+export function paystackPlanCode(planId: string, interval: BillingInterval): string | undefined {
+  if (planId !== "plus" && planId !== "pro") return undefined;
+  return PAYSTACK_PLAN_CODES[planId][interval] || undefined;
+}
+
+/** Reverse lookup for renewal charges, which carry the plan but no metadata. */
+export function planForPaystackCode(
+  code: string | undefined,
+): { planId: PaidPlan; interval: BillingInterval } | null {
+  if (!code) return null;
+  for (const planId of ["plus", "pro"] as const) {
+    for (const interval of ["monthly", "annual"] as const) {
+      if (PAYSTACK_PLAN_CODES[planId][interval] === code) return { planId, interval };
+    }
+  }
+  return null;
+}
+
+/**
+ * The designer a Paystack event belongs to — by subscription code first,
+ * then the customer code saved on their first charge, then email.
+ */
+export async function findDesignerForPaystack(ref: {
+  subscriptionCode?: string;
+  customer?: PaystackCustomerRef;
+}): Promise<string | null> {
+  const or: Record<string, unknown>[] = [];
+  if (ref.subscriptionCode) or.push({ "subscriptionBilling.paystackSubscriptionCode": ref.subscriptionCode });
+  if (ref.customer?.customer_code) or.push({ paystackCustomerId: ref.customer.customer_code });
+  if (ref.customer?.email) or.push({ email: ref.customer.email.toLowerCase() });
+  if (or.length === 0) return null;
+
+  // Most specific match wins, in the order above
+  const candidates = await Designer.find({ $or: or })
+    .select("email paystackCustomerId subscriptionBilling.paystackSubscriptionCode")
+    .limit(5)
+    .lean();
+  const rank = (d: Record<string, unknown>) => {
+    const billing = d.subscriptionBilling as { paystackSubscriptionCode?: string } | undefined;
+    if (ref.subscriptionCode && billing?.paystackSubscriptionCode === ref.subscriptionCode) return 0;
+    if (ref.customer?.customer_code && d.paystackCustomerId === ref.customer.customer_code) return 1;
+    return 2;
+  };
+  const best = (candidates as unknown as Record<string, unknown>[]).sort((a, b) => rank(a) - rank(b))[0];
+  return best ? String(best._id) : null;
+}
+
+async function paystackRequest(path: string, init?: { method?: string; body?: unknown }) {
+  const secret = process.env.PAYSTACK_SECRET_KEY;
+  if (!secret) throw new Error("Payment system not configured");
+  const res = await fetch(`https://api.paystack.co${path}`, {
+    method: init?.method || "GET",
+    headers: {
+      Authorization: `Bearer ${secret}`,
+      "Content-Type": "application/json",
+    },
+    ...(init?.body !== undefined ? { body: JSON.stringify(init.body) } : {}),
+  });
+  const json = await res.json();
+  if (!json.status) throw new Error(json.message || "Paystack request failed");
+  return json.data;
+}
+
+function formatDay(d: Date): string {
+  return d.toLocaleDateString("en-NG", { day: "numeric", month: "short", year: "numeric" });
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Webhook handlers                                                            */
+/* -------------------------------------------------------------------------- */
+
+/** subscription.create — Paystack has turned the first charge into a subscription. */
+export async function recordSubscriptionCreated(data: PaystackSubscriptionEvent): Promise<boolean> {
+  const designerId = await findDesignerForPaystack({
+    subscriptionCode: data.subscription_code,
+    customer: data.customer,
+  });
+  if (!designerId) return false;
+
+  // Upgrading by card starts a fresh subscription — stop the old one so the
+  // designer isn't charged for both
+  const existing = await Designer.findById(designerId)
+    .select("subscriptionBilling.paystackSubscriptionCode +subscriptionBilling.paystackEmailToken")
+    .lean();
+  const old = (existing as unknown as Record<string, unknown> | null)?.subscriptionBilling as
+    | { paystackSubscriptionCode?: string; paystackEmailToken?: string }
+    | undefined;
+  if (old?.paystackSubscriptionCode && old.paystackEmailToken && old.paystackSubscriptionCode !== data.subscription_code) {
+    await paystackRequest("/subscription/disable", {
+      method: "POST",
+      body: { code: old.paystackSubscriptionCode, token: old.paystackEmailToken },
+    }).catch((err) => console.error("Paystack subscription disable error:", err));
+  }
+
+  const plan = planForPaystackCode(data.plan?.plan_code);
+  await Designer.findByIdAndUpdate(designerId, {
+    $set: {
+      "subscriptionBilling.autoRenew": true,
+      "subscriptionBilling.status": "active",
+      "subscriptionBilling.paystackSubscriptionCode": data.subscription_code,
+      "subscriptionBilling.paystackEmailToken": data.email_token,
+      "subscriptionBilling.paystackPlanCode": data.plan?.plan_code,
+      ...(plan ? { "subscriptionBilling.interval": plan.interval } : {}),
+      ...(data.next_payment_date
+        ? { "subscriptionBilling.nextPaymentDate": new Date(data.next_payment_date) }
+        : {}),
+      ...(data.customer?.customer_code ? { paystackCustomerId: data.customer.customer_code } : {}),
+    },
+  });
+  return true;
+}
+
+/**
+ * invoice.payment_failed — a renewal charge bounced. The plan stays usable
+ * through the grace period; the designer can update their card or pay by
+ * transfer before then.
+ */
+export async function recordRenewalFailure(data: PaystackInvoiceEvent): Promise<boolean> {
+  const designerId = await findDesignerForPaystack({
+    subscriptionCode: data.subscription?.subscription_code,
+    customer: data.customer,
+  });
+  if (!designerId) return false;
+
+  const reason = data.transaction?.gateway_response || data.description || "Card charge declined";
+  const designer = await Designer.findByIdAndUpdate(
+    designerId,
+    {
+      $set: {
+        "subscriptionBilling.status": "past_due",
+        "subscriptionBilling.lastFailureAt": new Date(),
+        "subscriptionBilling.lastFailureReason": reason.slice(0, 300),
+      },
+      $inc: { "subscriptionBilling.failedAttempts": 1 },
+    },
+    { new: true, projection: { name: 1, businessName: 1, subscription: 1, subscriptionExpiry: 1, subscriptionBilling: 1 } },
+  ).lean();
+  if (!designer) return false;
+
+  const d = designer as unknown as Record<string, unknown>;
+  const plan = String(d.subscription || "plus").toUpperCase();
+  const expiry = d.subscriptionExpiry ? new Date(d.subscriptionExpiry as Date) : new Date();
+  const graceEnds = new Date(Math.max(expiry.getTime(), Date.now()) + SUBSCRIPTION_BILLING.graceDays * 86_400_000);
+  const attempts = (d.subscriptionBilling as { failedAttempts?: number } | undefined)?.failedAttempts ?? 1;
+
+  logActivity({
+    designerId,
+    action: "subscription_renewal_failed",
+    entity: "settings",
+    details: `${plan} renewal charge failed: ${reason}`,
+    metadata: { reference: data.transaction?.reference, attempts },
+  });
+  Notification.create({
+    designerId,
+    type: "system",
+    title: `⚠️ We couldn't renew your ${plan} plan`,
+    message: `Your card was declined (${reason}). Update your card or pay by bank transfer before ${formatDay(graceEnds)} to keep your ${plan} features.`,
+    link: "/billing",
+  }).catch(() => { /* non-fatal */ });
+  notifyAdmin({
+    kind: "subscription_payment_failed",
+    severity: "warning",
+    title: `💳 Renewal failed — ${(d.businessName as string) || (d.name as string) || "A designer"}`,
+    message: `${plan} auto-renewal was declined (${reason}). Attempt ${attempts}; access lapses ${formatDay(graceEnds)}.`,
+    link: `/admin/designers/${designerId}`,
+    designerId,
+    meta: { reason, attempts, reference: data.transaction?.reference },
+  }).catch(() => { /* non-fatal */ });
+  return true;
+}
+
+/**
+ * subscription.not_renew / subscription.disable — the subscription won't
+ * charge again (cancelled here, on Paystack, or after repeated failures).
+ * Whatever is already paid for runs to its expiry.
+ */
+export async function recordSubscriptionStopped(
+  data: PaystackSubscriptionEvent,
+  event: "subscription.not_renew" | "subscription.disable",
+): Promise<boolean> {
+  const designerId = await findDesignerForPaystack({
+    subscriptionCode: data.subscription_code,
+    customer: data.customer,
+  });
+  if (!designerId) return false;
+
+  const before = await Designer.findOneAndUpdate(
+    { _id: designerId, "subscriptionBilling.paystackSubscriptionCode": data.subscription_code },
+    {
+      $set: { "subscriptionBilling.autoRenew": false, "subscriptionBilling.status": "cancelled" },
+      $unset: {
+        "subscriptionBilling.nextPaymentDate": "",
+        ...(event === "subscription.disable"
+          ? { "subscriptionBilling.paystackSubscriptionCode": "", "subscriptionBilling.paystackEmailToken": "" }
+          : {}),
+      },
+    },
+    { projection: { subscription: 1, subscriptionExpiry: 1, subscriptionBilling: 1 } },
+  ).lean();
+  // Another subscription replaced this one, or we already heard about it
+  const prev = before as unknown as Record<string, unknown> | null;
+  if (!prev || (prev.subscriptionBilling as { autoRenew?: boolean } | undefined)?.autoRenew === false) {
+    return !!prev;
+  }
+
+  const plan = String(prev.subscription || "plus").toUpperCase();
+  const expiry = prev.subscriptionExpiry ? new Date(prev.subscriptionExpiry as Date) : null;
+  Notification.create({
+    designerId,
+    type: "system",
+    title: `Auto-renew is off for your ${plan} plan`,
+    message: expiry && expiry > new Date()
+      ? `You keep ${plan} until ${formatDay(expiry)}. Renew any time from Billing.`
+      : `Your card won't be charged again. Renew any time from Billing.`,
+    link: "/billing",
+  }).catch(() => { /* non-fatal */ });
+  return true;
+}
+
+/** subscription.expiring_cards — the card on file expires before the next charge. */
+export async function notifyExpiringCards(cards: PaystackExpiringCard[]): Promise<number> {
+  let notified = 0;
+  for (const card of cards) {
+    const designerId = await findDesignerForPaystack({
+      subscriptionCode: card.subscription?.subscription_code,
+      customer: card.customer,
+    });
+    if (!designerId) continue;
+    const label = [card.brand, card.description].filter(Boolean).join(" ") || "The card";
+    await Notification.create({
+      designerId,
+      type: "system",
+      title: "💳 Your card is about to expire",
+      message: `${label} on your Stitcha subscription expires${card.expiry_date ? ` ${card.expiry_date}` : " soon"}. Update it before your next renewal.`,
+      link: "/billing",
+    }).catch(() => { /* non-fatal */ });
+    notified++;
+  }
+  return notified;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Designer actions                                                            */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Stop auto-renewal. Paystack is told first; our record is updated either
+ * way so a designer is never stuck with a switch they can't turn off.
+ */
+export async function cancelAutoRenew(designerId: string): Promise<{ ok: boolean; message: string }> {
+  const designer = await Designer.findById(designerId)
+    .select("subscriptionBilling.autoRenew subscriptionBilling.paystackSubscriptionCode +subscriptionBilling.paystackEmailToken")
+    .lean();
+  const billing = (designer as unknown as Record<string, unknown> | null)?.subscriptionBilling as
+    | { autoRenew?: boolean; paystackSubscriptionCode?: string; paystackEmailToken?: string }
+    | undefined;
+  if (!billing?.autoRenew) return { ok: false, message: "Auto-renew is already off." };
+
+  if (billing.paystackSubscriptionCode && billing.paystackEmailToken) {
+    try {
+      await paystackRequest("/subscription/disable", {
+        method: "POST",
+        body: { code: billing.paystackSubscriptionCode, token: billing.paystackEmailToken },
+      });
+    } catch (err) {
+      console.error("Paystack subscription disable error:", err);
+      return { ok: false, message: "Couldn't reach Paystack to cancel — please try again." };
+    }
+  }
+
+  await Designer.findByIdAndUpdate(designerId, {
+    $set: { "subscriptionBilling.autoRenew": false, "subscriptionBilling.status": "cancelled" },
+    $unset: { "subscriptionBilling.nextPaymentDate": "" },
+  });
+  logActivity({
+    designerId,
+    action: "cancel_auto_renew",
+    entity: "settings",
+    details: "Turned off subscription auto-renewal",
+  });
+  return { ok: true, message: "Auto-renew turned off. Your plan stays active until it expires." };
+}
+
+/** Paystack-hosted page where the designer can swap the card on file. */
+export async function cardUpdateLink(designerId: string): Promise<string | null> {
+  const designer = await Designer.findById(designerId).select("subscriptionBilling").lean();
+  const code = ((designer as unknown as Record<string, unknown> | null)?.subscriptionBilling as
+    | { paystackSubscriptionCode?: string }
+    | undefined)?.paystackSubscriptionCode;
+  if (!code) return null;
+  const data = await paystackRequest(`/subscription/${encodeURIComponent(code)}/manage/link`);
+  return (data?.link as string | undefined) ?? null;
+}
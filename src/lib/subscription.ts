@@ -1,4 +1,4 @@
-import { SUBSCRIPTION_PLANS } from "@/lib/constants";
+import { SUBSCRIPTION_PLANS, SUBSCRIPTION_BILLING, type BillingInterval } from "@/lib/constants";
 import type { DesignerRole } from "@/types";
 
 /* -------------------------------------------------------------------------- */
@@ -34,6 +34,17 @@ function getPlan(subscription: string) {
   return SUBSCRIPTION_PLANS.find((p) => p.id === subscription) || SUBSCRIPTION_PLANS[0];
 }
 
+/**
+ * What a paid plan costs for one billing period. Annual is twelve months
+ * less SUBSCRIPTION_BILLING.annualDiscountPercent, rounded to ₦100.
+ */
+export function getSubscriptionPrice(planId: string, interval: BillingInterval = "monthly"): number {
+  const plan = getPlan(planId);
+  if (interval === "monthly") return plan.price;
+  const discounted = plan.price * 12 * (1 - SUBSCRIPTION_BILLING.annualDiscountPercent / 100);
+  return Math.round(discounted / 100) * 100;
+}
+
 /**
  * Check whether a designer can perform a specific action based on their plan.
  * Returns { allowed, message } — message explains the restriction if any.
@@ -56,6 +67,7 @@ export function checkSubscriptionLimit(
     case "create_scan":
     case "use_ai_scan": {
       // Free plan: 2 lifetime trial scans, then upgrade or buy credits
+      // (credits are spent by the caller — see /api/scan/sessions)
       if (planId === "free") {
         const used = lifetimeCount ?? 0;
         const trial = plan.scanLimit; // 2
@@ -68,7 +80,7 @@ export function checkSubscriptionLimit(
         }
         return {
           allowed: false,
-          message: `You've used your ${trial} free trial scans. Upgrade to Plus (₦1,500/month, 20 scans) or buy pay-per-scan credits at ₦150 each. You can still use the guided tape measure for free.`,
+          message: `You've used your ${trial} free trial scans. Upgrade to Plus (₦1,500/month, 20 scans) or buy pay-per-scan credits on the Billing page. You can still use the guided tape measure for free.`,
         };
       }
       // Unlimited scans on Pro
@@ -77,7 +89,7 @@ export function checkSubscriptionLimit(
       if (currentCount !== undefined && currentCount >= plan.scanLimit) {
         return {
           allowed: false,
-          message: `You have used all ${plan.scanLimit} AI scans for this month on the ${plan.name} plan. Upgrade to Pro for unlimited scans, or buy pay-per-scan credits for ₦150 each.`,
+          message: `You have used all ${plan.scanLimit} AI scans for this month on the ${plan.name} plan. Upgrade to Pro for unlimited scans, or buy pay-per-scan credits on the Billing page.`,
         };
       }
       return { allowed: true, message: "" };
@@ -161,22 +173,24 @@ const ROLE_PERMISSIONS: Record<DesignerRole, Set<string>> = {
     "view_clients", "create_client", "edit_client", "delete_client",
     "view_orders", "create_order", "edit_order", "delete_order",
     "record_payment", "delete_payment", "view_finances",
-    "manage_team", "manage_settings", "export_data",
-    "use_ai_scan", "view_measurements",
-    "view_admin", "manage_designers", "view_analytics",
+    "manage_team", "manage_settings", "manage_billing", "export_data",
+    "use_ai_scan", "use_ai_assist", "message_clients", "view_measurements",
+    "manage_inventory", "view_admin", "manage_designers", "view_analytics",
   ]),
   owner: new Set([
     "view_clients", "create_client", "edit_client", "delete_client",
     "view_orders", "create_order", "edit_order", "delete_order",
     "record_payment", "delete_payment", "view_finances",
-    "manage_team", "manage_settings", "export_data",
-    "use_ai_scan", "view_measurements",
+    "manage_team", "manage_settings", "manage_billing", "export_data",
+    "use_ai_scan", "use_ai_assist", "message_clients", "view_measurements",
+    "manage_inventory",
   ]),
   manager: new Set([
     "view_clients", "create_client", "edit_client",
     "view_orders", "create_order", "edit_order",
     "record_payment", "view_finances",
-    "use_ai_scan", "view_measurements", "export_data",
+    "use_ai_scan", "use_ai_assist", "message_clients",
+    "view_measurements", "export_data", "manage_inventory",
   ]),
   apprentice: new Set([
     "view_clients", "view_orders",
@@ -196,3 +210,8 @@ export function checkRolePermission(
     message: `${roleName} accounts cannot ${permission.replace(/_/g, " ")}. Contact the account owner to upgrade your access.`,
   };
 }
+
+/** Staff seats included with a plan (0 = no team features). */
+export function getTeamSeatLimit(subscription: string): number {
+  return getPlan(subscription).teamSeats;
+}
@@ -0,0 +1,583 @@
+/* -------------------------------------------------------------------------- */
+/*  sync                                                                        */
+/*                                                                              */
+/*  Server side of offline sync (GET/POST /api/sync, client in               */
+/*  lib/offline-store).                                                        */
+/*                                                                              */
+/*  Pull — a change feed of clients and orders ordered by (updatedAt, _id),  */
+/*  paged with an opaque cursor. Deleted orders come through with their      */
+/*  soft-delete; deleted clients via SyncTombstone.                            */
+/*                                                                              */
+/*  Push — a batch of device changes, applied in order. Each carries the     */
+/*  syncVersion it was made against plus the old values of the fields it     */
+/*  touched, so a field someone else changed in the meantime comes back as   */
+/*  a conflict for the user to settle instead of being overwritten. Fields   */
+/*  nobody else touched are merged. Creates made offline use "tmp_" ids;     */
+/*  later changes in the same or a later batch may refer to them.             */
+/* -------------------------------------------------------------------------- */
+
+import mongoose from "mongoose";
+import { Client } from "@/lib/models/client";
+import { Order } from "@/lib/models/order";
+import { SyncTombstone, SYNC_TOMBSTONE_TTL_DAYS } from "@/lib/models/sync-tombstone";
+import { SyncMutation } from "@/lib/models/sync-mutation";
+import { checkRolePermission } from "@/lib/subscription";
+import { loadWorkflow } from "@/lib/designer-workflow";
+import { isValidTransition, getStatusLabel, type OrderWorkflow } from "@/lib/order-transitions";
+import {
+  createClientRecord,
+  createOrderRecord,
+  deleteClientRecord,
+  deleteOrderRecord,
+  afterOrderStatusChange,
+} from "@/lib/record-writes";
+import {
+  clientSchema,
+  orderSchema,
+  syncClientChangesSchema,
+  syncOrderChangesSchema,
+  type SyncMutationInput,
+} from "@/lib/validations";
+import type { Workspace } from "@/lib/workspace";
+
+export type SyncEntity = "client" | "order";
+type SyncRecord = Record<string, unknown>;
+
+export const SYNC_PAGE_SIZE = 200;
+export const TEMP_ID_PREFIX = "tmp_";
+
+/**
+ * Only hand out changes at least this old, so a write whose timestamp was
+ * taken just before a pull but committed just after isn't skipped.
+ */
+const SETTLE_MS = 5000;
+/** A claimed mutation this old was abandoned mid-request and may be re-run. */
+const STALE_CLAIM_MS = 60 * 1000;
+/** Attempts at a versioned write before telling the device to retry. */
+const MAX_WRITE_ATTEMPTS = 3;
+
+const MAX_OBJECT_ID = "ffffffffffffffffffffffff";
+const OBJECT_ID_RE = /^[0-9a-f]{24}$/i;
+
+/** Heavy fields left out of the feed — images may be legacy data URLs. */
+const PROJECTION: Record<SyncEntity, string> = {
+  client: "-measurementHistory",
+  order: "-gallery -fabricImages",
+};
+
+/* -------------------------------------------------------------------------- */
+/*  Pull                                                                        */
+/* -------------------------------------------------------------------------- */
+
+/** [updatedAt ms, _id] of the last change a device has seen */
+type Position = [number, string];
+
+interface SyncCursor {
+  client: Position;
+  order: Position;
+  tombstone: Position;
+}
+
+export interface SyncPull {
+  /** Workspace the records belong to — devices reset when it changes */
+  designerId: string;
+  clients: SyncRecord[];
+  orders: SyncRecord[];
+  deleted: { clients: string[]; orders: string[] };
+  cursor: string;
+  hasMore: boolean;
+  /** The cursor predates the tombstones — drop local data and start over. */
+  reset: boolean;
+}
+
+function isPosition(value: unknown): value is Position {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    typeof value[0] === "number" &&
+    typeof value[1] === "string" &&
+    OBJECT_ID_RE.test(value[1])
+  );
+}
+
+export function decodeCursor(raw: string): SyncCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (!isPosition(parsed?.client) || !isPosition(parsed?.order) || !isPosition(parsed?.tombstone)) {
+      return null;
+    }
+    return { client: parsed.client, order: parsed.order, tombstone: parsed.tombstone };
+  } catch {
+    return null;
+  }
+}
+
+function encodeCursor(cursor: SyncCursor): string {
+  return Buffer.from(JSON.stringify(cursor), "utf8").toString("base64url");
+}
+
+/** Records after `pos`, up to `until`, in feed order */
+function feedFilter(field: string, pos: Position | null, until: Date) {
+  const after = pos
+    ? [{
+        $or: [
+          { [field]: { $gt: new Date(pos[0]) } },
+          { [field]: new Date(pos[0]), _id: { $gt: new mongoose.Types.ObjectId(pos[1]) } },
+        ],
+      }]
+    : [];
+  return { $and: [{ [field]: { $lte: until } }, ...after] };
+}
+
+/** Where the next pull starts: after the last row, or `until` once drained. */
+function nextPosition<T extends { _id: unknown }>(
+  rows: T[],
+  at: (row: T) => Date,
+  full: boolean,
+  until: Date,
+): Position {
+  if (!full) return [until.getTime(), MAX_OBJECT_ID];
+  const last = rows[rows.length - 1];
+  return [new Date(at(last)).getTime(), String(last._id)];
+}
+
+function toRecord(doc: unknown): SyncRecord {
+  const json = JSON.parse(JSON.stringify(doc)) as SyncRecord;
+  return { ...json, syncVersion: json.syncVersion ?? 0 };
+}
+
+/**
+ * One page of changes since `since` (null = everything). Loop while
+ * hasMore, feeding each response's cursor into the next call.
+ */
+export async function pullChanges(designerId: string, since: SyncCursor | null): Promise<SyncPull> {
+  const until = new Date(Date.now() - SETTLE_MS);
+  const tombstonesKeptSince = Date.now() - (SYNC_TOMBSTONE_TTL_DAYS - 1) * 24 * 60 * 60 * 1000;
+  const reset = !!since && since.tombstone[0] < tombstonesKeptSince;
+  const cursor = reset ? null : since;
+
+  const [clients, orders, tombstones] = await Promise.all([
+    Client.find({ designerId, ...feedFilter("updatedAt", cursor?.client ?? null, until) })
+      .select(PROJECTION.client)
+      .sort({ updatedAt: 1, _id: 1 })
+      .limit(SYNC_PAGE_SIZE + 1)
+      .lean(),
+    // A first download only needs live orders; after that, deletions matter
+    Order.find({
+      designerId,
+      ...(cursor ? {} : { isDeleted: { $ne: true } }),
+      ...feedFilter("updatedAt", cursor?.order ?? null, until),
+    })
+      .select(PROJECTION.order)
+      .sort({ updatedAt: 1, _id: 1 })
+      .limit(SYNC_PAGE_SIZE + 1)
+      .lean(),
+    // A first download never saw the deleted clients in the first place
+    cursor
+      ? SyncTombstone.find({ designerId, ...feedFilter("deletedAt", cursor.tombstone, until) })
+          .sort({ deletedAt: 1, _id: 1 })
+          .limit(SYNC_PAGE_SIZE + 1)
+          .lean()
+      : Promise.resolve([]),
+  ]);
+
+  const clientsFull = clients.length > SYNC_PAGE_SIZE;
+  const ordersFull = orders.length > SYNC_PAGE_SIZE;
+  const tombstonesFull = tombstones.length > SYNC_PAGE_SIZE;
+  const clientPage = clients.slice(0, SYNC_PAGE_SIZE);
+  const orderPage = orders.slice(0, SYNC_PAGE_SIZE);
+  const tombstonePage = tombstones.slice(0, SYNC_PAGE_SIZE);
+
+  const liveOrders = orderPage.filter((o) => !o.isDeleted);
+  const deletedOrders = orderPage.filter((o) => o.isDeleted).map((o) => String(o._id));
+
+  return {
+    designerId,
+    clients: clientPage.map(toRecord),
+    orders: liveOrders.map(toRecord),
+    deleted: {
+      clients: tombstonePage.map((t) => String(t.entityId)),
+      orders: deletedOrders,
+    },
+    cursor: encodeCursor({
+      client: nextPosition(clientPage, (c) => c.updatedAt, clientsFull, until),
+      order: nextPosition(orderPage, (o) => o.updatedAt, ordersFull, until),
+      tombstone: nextPosition(tombstonePage, (t) => t.deletedAt, tombstonesFull, until),
+    }),
+    hasMore: clientsFull || ordersFull || tombstonesFull,
+    reset,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Push                                                                        */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * applied  — saved (possibly merged with other devices' changes)
+ * conflict — some or all fields were changed elsewhere; see `conflicts`,
+ *            or the record is gone (`record: null`)
+ * rejected — not allowed or invalid; won't succeed if retried
+ * retry    — not processed this time (server hiccup, or an earlier change
+ *            in the batch needs retrying first); send again later
+ */
+export type SyncResultStatus = "applied" | "conflict" | "rejected" | "retry";
+
+export interface SyncFieldConflict {
+  field: string;
+  /** The device's value */
+  mine: unknown;
+  /** The value on the server now */
+  theirs: unknown;
+}
+
+export interface SyncMutationResult {
+  id: string;
+  status: SyncResultStatus;
+  entity: SyncEntity;
+  recordId: string;
+  /** Real id — differs from recordId when a "tmp_" create was applied */
+  serverId?: string;
+  /** Server copy after the change; null when the record no longer exists */
+  record?: SyncRecord | null;
+  conflicts?: SyncFieldConflict[];
+  error?: string;
+}
+
+const OP_PERMISSION: Record<SyncMutationInput["op"], string> = {
+  create: "create",
+  update: "edit",
+  delete: "delete",
+};
+
+function result(
+  m: SyncMutationInput,
+  status: SyncResultStatus,
+  extra: Partial<SyncMutationResult> = {},
+): SyncMutationResult {
+  return { id: m.id, status, entity: m.entity, recordId: m.recordId, ...extra };
+}
+
+/** Apply a batch in order. Once one change must be retried, so must the rest. */
+export async function applyMutations(
+  workspace: Workspace,
+  mutations: SyncMutationInput[],
+): Promise<SyncMutationResult[]> {
+  const idMap = new Map<string, string>();
+  const results: SyncMutationResult[] = [];
+  let halted = false;
+
+  for (const m of mutations) {
+    if (halted) {
+      results.push(result(m, "retry"));
+      continue;
+    }
+    const r = await applyMutation(workspace, m, idMap);
+    if (r.status === "retry") halted = true;
+    results.push(r);
+  }
+  return results;
+}
+
+async function applyMutation(
+  workspace: Workspace,
+  m: SyncMutationInput,
+  idMap: Map<string, string>,
+): Promise<SyncMutationResult> {
+  const { designerId } = workspace;
+
+  const claim = await claimMutation(designerId, m);
+  if (claim.replay) {
+    if (claim.replay.serverId) idMap.set(m.recordId, claim.replay.serverId);
+    return claim.replay;
+  }
+  if (claim.busy) return result(m, "retry");
+
+  try {
+    const perm = checkRolePermission(workspace.role, `${OP_PERMISSION[m.op]}_${m.entity}`);
+    const r = !perm.allowed
+      ? result(m, "rejected", { error: perm.message })
+      : m.op === "create"
+      ? await applyCreate(designerId, m, idMap)
+      : m.op === "update"
+      ? await applyUpdate(designerId, m, idMap)
+      : await applyDelete(designerId, m, idMap, workspace.role);
+
+    if (r.status === "retry") {
+      await SyncMutation.deleteOne({ designerId, mutationId: m.id });
+      return r;
+    }
+    if (m.op === "create" && r.serverId) idMap.set(m.recordId, r.serverId);
+    await SyncMutation.updateOne(
+      { designerId, mutationId: m.id },
+      { $set: { status: r.status, result: r, ...(r.serverId ? { serverId: r.serverId } : {}) } },
+    );
+    return r;
+  } catch (error) {
+    console.error("Sync: failed to apply mutation", m.id, error);
+    await SyncMutation.deleteOne({ designerId, mutationId: m.id }).catch(() => {});
+    return result(m, "retry");
+  }
+}
+
+/**
+ * Record that this mutation is being applied. A mutation seen before
+ * replays its stored result; one still in flight elsewhere is "busy".
+ */
+async function claimMutation(
+  designerId: string,
+  m: SyncMutationInput,
+): Promise<{ replay?: SyncMutationResult; busy?: boolean }> {
+  try {
+    const existing = await SyncMutation.findOneAndUpdate(
+      { designerId, mutationId: m.id },
+      { $setOnInsert: { entity: m.entity, op: m.op, recordId: m.recordId, status: "processing" } },
+      { upsert: true, new: false },
+    ).lean();
+    if (!existing) return {};
+    if (existing.status !== "processing") {
+      return { replay: existing.result as unknown as SyncMutationResult };
+    }
+    if (Date.now() - new Date(existing.updatedAt).getTime() < STALE_CLAIM_MS) {
+      return { busy: true };
+    }
+    // Abandoned mid-request — take it over unless someone beat us to it
+    const taken = await SyncMutation.updateOne(
+      { _id: existing._id, status: "processing", updatedAt: existing.updatedAt },
+      { $set: { status: "processing" } },
+    );
+    return taken.modifiedCount === 1 ? {} : { busy: true };
+  } catch (err) {
+    if ((err as { code?: number }).code !== 11000) throw err;
+    return { busy: true };
+  }
+}
+
+/** Server id for a record id, following "tmp_" ids to what they became. */
+async function resolveId(
+  designerId: string,
+  id: string,
+  idMap: Map<string, string>,
+): Promise<string | null> {
+  if (!id.startsWith(TEMP_ID_PREFIX)) return OBJECT_ID_RE.test(id) ? id : null;
+  const mapped = idMap.get(id);
+  if (mapped) return mapped;
+  const created = await SyncMutation.findOne({
+    designerId,
+    recordId: id,
+    op: "create",
+    status: "applied",
+  })
+    .select("serverId")
+    .lean();
+  return created?.serverId ?? null;
+}
+
+async function findRecord(entity: SyncEntity, designerId: string, id: string): Promise<SyncRecord | null> {
+  const doc = entity === "client"
+    ? await Client.findOne({ _id: id, designerId }).select(PROJECTION.client).lean()
+    : await Order.findOne({ _id: id, designerId, isDeleted: { $ne: true } }).select(PROJECTION.order).lean();
+  return doc ? toRecord(doc) : null;
+}
+
+/* ---- create ---- */
+
+async function applyCreate(
+  designerId: string,
+  m: SyncMutationInput,
+  idMap: Map<string, string>,
+): Promise<SyncMutationResult> {
+  // Already created under another mutation id — hand back what exists
+  const known = m.recordId.startsWith(TEMP_ID_PREFIX)
+    ? await resolveId(designerId, m.recordId, idMap)
+    : null;
+  if (known) {
+    const record = await findRecord(m.entity, designerId, known);
+    return result(m, "applied", { serverId: known, record });
+  }
+
+  if (m.entity === "client") {
+    const parsed = clientSchema.safeParse(m.changes ?? {});
+    if (!parsed.success) {
+      return result(m, "rejected", { error: parsed.error.issues[0]?.message || "Invalid client" });
+    }
+    const created = await createClientRecord(designerId, parsed.data);
+    if (!created.ok) return result(m, "rejected", { error: created.message });
+    const serverId = String(created.doc._id);
+    return result(m, "applied", { serverId, record: await findRecord("client", designerId, serverId) });
+  }
+
+  const clientRef = String(m.changes?.clientId ?? "");
+  const clientId = clientRef ? await resolveId(designerId, clientRef, idMap) : null;
+  if (!clientId) {
+    return result(m, "rejected", { error: "This order's client wasn't saved, so the order couldn't be either" });
+  }
+  const parsed = orderSchema.safeParse({ ...m.changes, clientId });
+  if (!parsed.success) {
+    return result(m, "rejected", { error: parsed.error.issues[0]?.message || "Invalid order" });
+  }
+  const created = await createOrderRecord(designerId, parsed.data);
+  if (!created.ok) return result(m, "rejected", { error: created.message });
+  const serverId = String(created.doc._id);
+  return result(m, "applied", { serverId, record: await findRecord("order", designerId, serverId) });
+}
+
+/* ---- update ---- */
+
+/** Comparable form of a field value: blanks are equal, dates are ISO. */
+function normalize(field: string, value: unknown): unknown {
+  if (value === undefined || value === null || value === "") return null;
+  if (value instanceof Date) return value.toISOString();
+  if (field === "dueDate") {
+    const date = new Date(String(value));
+    return Number.isNaN(date.getTime()) ? value : date.toISOString();
+  }
+  return value;
+}
+
+function sameValue(field: string, a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalize(field, a)) === JSON.stringify(normalize(field, b));
+}
+
+async function applyUpdate(
+  designerId: string,
+  m: SyncMutationInput,
+  idMap: Map<string, string>,
+): Promise<SyncMutationResult> {
+  const id = await resolveId(designerId, m.recordId, idMap);
+  if (!id) return result(m, "rejected", { error: "This record was never saved" });
+
+  const schema = m.entity === "client" ? syncClientChangesSchema : syncOrderChangesSchema;
+  const parsed = schema.safeParse(m.changes ?? {});
+  if (!parsed.success) {
+    return result(m, "rejected", { error: parsed.error.issues[0]?.message || "Invalid changes", serverId: id });
+  }
+  const changes = parsed.data as Record<string, unknown>;
+  const base = m.base ?? {};
+  let workflow: OrderWorkflow | null = null;
+
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const current = await findRecord(m.entity, designerId, id);
+    if (!current) {
+      return result(m, "conflict", { serverId: id, record: null, error: "Deleted on another device" });
+    }
+
+    // A field is safe to write if nobody has touched it since the device's
+    // copy: either nothing changed at all, or this field still holds the
+    // value the device started from.
+    const unchangedSinceBase = m.baseVersion !== undefined && m.baseVersion === current.syncVersion;
+    const set: Record<string, unknown> = {};
+    const conflicts: SyncFieldConflict[] = [];
+    for (const [field, mine] of Object.entries(changes)) {
+      const theirs = current[field];
+      if (sameValue(field, mine, theirs)) continue;
+      const untouched = unchangedSinceBase || (field in base && sameValue(field, base[field], theirs));
+      if (untouched) set[field] = mine;
+      else conflicts.push({ field, mine, theirs: theirs ?? null });
+    }
+
+    if (typeof set.status === "string") {
+      workflow ??= await loadWorkflow(designerId);
+      const from = String(current.status);
+      if (!isValidTransition(from, set.status, workflow)) {
+        return result(m, "rejected", {
+          serverId: id,
+          record: current,
+          error: `Cannot change status from "${getStatusLabel(from, workflow)}" to "${getStatusLabel(set.status, workflow)}"`,
+        });
+      }
+    }
+
+    if (Object.keys(set).length === 0) {
+      return conflicts.length > 0
+        ? result(m, "conflict", { serverId: id, record: current, conflicts })
+        : result(m, "applied", { serverId: id, record: current });
+    }
+
+    const unset: Record<string, 1> = {};
+    for (const [field, value] of Object.entries(set)) {
+      if (field === "dueDate" && !value) {
+        delete set[field];
+        unset[field] = 1;
+      }
+    }
+    const ops: Record<string, unknown> = {
+      ...(Object.keys(set).length > 0 ? { $set: set } : {}),
+      ...(Object.keys(unset).length > 0 ? { $unset: unset } : {}),
+      ...(typeof set.status === "string"
+        ? { $push: { statusHistory: { status: set.status, changedAt: new Date() } } }
+        : {}),
+    };
+
+    // Only write over the copy we compared against; if another write
+    // landed in between, compare again.
+    const filter = {
+      _id: id,
+      designerId,
+      syncVersion: current.syncVersion || { $in: [0, null] },
+      ...(m.entity === "order" ? { isDeleted: { $ne: true } } : {}),
+    };
+    const updated = m.entity === "client"
+      ? await Client.findOneAndUpdate(filter, ops, { new: true, runValidators: true }).select(PROJECTION.client).lean()
+      : await Order.findOneAndUpdate(filter, ops, { new: true, runValidators: true }).select(PROJECTION.order).lean();
+    if (!updated) continue;
+
+    const record = toRecord(updated);
+    if (typeof set.status === "string") {
+      const client = await Client.findById(record.clientId).select("name phone").lean();
+      await afterOrderStatusChange(
+        designerId,
+        {
+          _id: id,
+          title: String(record.title),
+          notifyWhenReady: !!record.notifyWhenReady,
+          notifyReadySentAt: record.notifyReadySentAt ? new Date(String(record.notifyReadySentAt)) : undefined,
+        },
+        set.status,
+        client,
+      );
+    }
+
+    return conflicts.length > 0
+      ? result(m, "conflict", { serverId: id, record, conflicts })
+      : result(m, "applied", { serverId: id, record });
+  }
+
+  return result(m, "retry");
+}
+
+/* ---- delete ---- */
+
+async function applyDelete(
+  designerId: string,
+  m: SyncMutationInput,
+  idMap: Map<string, string>,
+  role: Workspace["role"],
+): Promise<SyncMutationResult> {
+  const id = await resolveId(designerId, m.recordId, idMap);
+  // Created and deleted while offline, or already gone — nothing to do
+  if (!id) return result(m, "applied", { record: null });
+  const current = await findRecord(m.entity, designerId, id);
+  if (!current) return result(m, "applied", { serverId: id, record: null });
+
+  if (m.baseVersion !== undefined && m.baseVersion !== current.syncVersion) {
+    return result(m, "conflict", {
+      serverId: id,
+      record: current,
+      conflicts: [],
+      error: "Changed on another device after you deleted it",
+    });
+  }
+
+  if (m.entity === "client") {
+    await deleteClientRecord(designerId, {
+      _id: id,
+      name: String(current.name),
+      phone: String(current.phone),
+    });
+  } else {
+    const deleted = await deleteOrderRecord(designerId, id, role);
+    if (!deleted.ok) return result(m, "rejected", { serverId: id, record: current, error: deleted.message });
+  }
+  return result(m, "applied", { serverId: id, record: null });
+}
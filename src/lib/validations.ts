@@ -1,4 +1,9 @@
 import { z } from "zod";
+import {
+  EMAIL_BODY_MAX,
+  EMAIL_SUBJECT_MAX,
+  unknownPlaceholders,
+} from "@/lib/email-templates";
 
 export const registerSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
@@ -6,6 +11,7 @@ export const registerSchema = z.object({
   phone: z.string().min(10, "Please enter a valid phone number"),
   password: z.string().min(8, "Password must be at least 8 characters"),
   businessName: z.string().min(2, "Business name must be at least 2 characters"),
+  referralCode: z.string().max(20).optional(),
 });
 
 export const loginSchema = z.object({
@@ -65,21 +71,247 @@ export const measurementSchema = z.object({
   shoulderToHip:  optNum(80),
 });
 
-export const orderSchema = z.object({
-  clientId: z.string().min(1, "Please select a client"),
-  title: z.string().min(2, "Order title is required"),
-  description: z.string().optional(),
+export const orderItemSchema = z.object({
+  _id: z.string().optional(),
   garmentType: z.string().min(1, "Garment type is required"),
+  description: z.string().optional(),
   fabric: z.string().optional(),
-  price: z.number().min(0, "Price must be positive").or(z.nan().transform(() => 0)),
-  depositPaid: z.number().min(0).optional().or(z.nan().transform(() => 0)),
-  dueDate: z.string().optional(),
+  quantity: z.number().int().min(1, "Quantity must be at least 1").or(z.nan().transform(() => 1)),
+  unitPrice: z.number().min(0, "Price must be positive").or(z.nan().transform(() => 0)),
+  fit: z.enum(["fitted", "standard", "loose"]).optional(),
+  fabricWidthCm: z.number().min(0).optional(),
   notes: z.string().optional(),
 });
 
+/**
+ * An order is either a list of line items (multi-garment) or, for older
+ * clients, a single garmentType + price.
+ */
+export const orderSchema = z
+  .object({
+    clientId: z.string().min(1, "Please select a client"),
+    title: z.string().min(2, "Order title is required"),
+    description: z.string().optional(),
+    garmentType: z.string().optional(),
+    fabric: z.string().optional(),
+    price: z.number().min(0, "Price must be positive").optional().or(z.nan().transform(() => 0)),
+    items: z.array(orderItemSchema).max(20, "An order can have at most 20 items").optional(),
+    depositPaid: z.number().min(0).optional().or(z.nan().transform(() => 0)),
+    dueDate: z.string().optional(),
+    notes: z.string().optional(),
+  })
+  .refine((d) => (d.items && d.items.length > 0) || !!d.garmentType, {
+    message: "Add at least one garment",
+    path: ["items"],
+  });
+
+export const groupOrderSchema = z.object({
+  title: z.string().min(2, "Group name is required").max(120),
+  eventName: z.string().max(120).optional(),
+  eventDate: z.string().optional(),
+  coordinatorName: z.string().optional(),
+  coordinatorPhone: z.string().optional(),
+  defaultGarmentType: z.string().min(1, "Garment type is required"),
+  pricePerGuest: z.number().min(0, "Price must be positive").or(z.nan().transform(() => 0)),
+  fabric: z
+    .object({
+      name: z.string().optional(),
+      widthCm: z.number().positive().optional(),
+      pricePerYard: z.number().min(0).optional(),
+      purchasedYards: z.number().min(0).optional(),
+    })
+    .optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+/**
+ * Guests join a group either as existing clients (clientIds) or as new
+ * clients created on the spot (guests).
+ */
+export const groupMembersSchema = z
+  .object({
+    clientIds: z.array(z.string()).max(100).optional(),
+    guests: z
+      .array(
+        clientSchema.pick({ name: true, phone: true, gender: true }).extend({
+          garmentType: z.string().optional(),
+        })
+      )
+      .max(100)
+      .optional(),
+    garmentType: z.string().optional(),
+  })
+  .refine((d) => (d.clientIds?.length || 0) + (d.guests?.length || 0) > 0, {
+    message: "Add at least one guest",
+    path: ["guests"],
+  });
+
+/** Orders nested onto one marker — cut together from the same bolt */
+export const markerSchema = z.object({
+  orderIds: z.array(z.string()).min(1, "Pick at least one order").max(10, "Plan up to 10 orders at a time"),
+  fabricWidthCm: z.number().min(60).max(330),
+  nap: z.boolean().default(false),
+  layout: z.enum(["folded", "open"]).default("folded"),
+});
+
+export const materialSchema = z.object({
+  name: z.string().trim().min(2, "Material name is required").max(80),
+  category: z.enum(["fabric", "lace", "lining", "thread", "zip", "button", "interfacing", "other"]).default("fabric"),
+  unit: z.enum(["yards", "pieces"]).default("yards"),
+  costPerUnit: z.number().min(0).default(0),
+  supplier: z.string().trim().max(80).optional(),
+  colour: z.string().trim().max(40).optional(),
+  reorderLevel: z.number().min(0).default(0),
+  notes: z.string().max(500).optional(),
+  /** On create only — recorded as the first receipt */
+  openingStock: z.number().min(0).max(100000).optional(),
+});
+
+/** Stock in from a supplier, or a stock-take count */
+export const stockMovementSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("receipt"),
+    quantity: z.number().positive("Quantity must be more than 0").max(100000),
+    unitCost: z.number().min(0).optional(),
+    supplier: z.string().trim().max(80).optional(),
+    reference: z.string().trim().max(60).optional(),
+    note: z.string().max(200).optional(),
+  }),
+  z.object({
+    kind: z.literal("adjust"),
+    counted: z.number().min(0).max(100000),
+    note: z.string().max(200).optional(),
+  }),
+]);
+
+/** Reserve / release / consume a material against an order */
+export const orderMaterialSchema = z.object({
+  materialId: z.string().min(1),
+  action: z.enum(["reserve", "release", "consume"]),
+  /** Omitted: the order's estimated yardage (reserve/consume), or all of the reservation (release) */
+  quantity: z.number().positive().max(100000).optional(),
+});
+
+export const autoChaseSettingsSchema = z.object({
+  enabled: z.boolean(),
+  rules: z
+    .array(
+      z.object({
+        afterDays: z.number().int().min(1).max(90),
+        tone: z.enum(["gentle", "firm", "final"]),
+      })
+    )
+    .min(1, "Add at least one reminder")
+    .max(5)
+    .refine((rules) => rules.every((r, i) => i === 0 || r.afterDays > rules[i - 1].afterDays), {
+      message: "Each reminder must come later than the one before",
+    })
+    .refine((rules) => {
+      const finalAt = rules.findIndex((r) => r.tone === "final");
+      return finalAt === -1 || finalAt === rules.length - 1;
+    }, {
+      message: "The final reminder must be the last one",
+    }),
+  quietHours: z.object({
+    start: z.number().int().min(0).max(23),
+    end: z.number().int().min(0).max(23),
+  }),
+});
+
+const emailTemplateText = (max: number, what: string) =>
+  z
+    .string()
+    .trim()
+    .min(1, `Add a ${what}`)
+    .max(max, `Keep the ${what} under ${max} characters`)
+    .refine((text) => unknownPlaceholders(text).length === 0, {
+      message: `Unknown placeholder in the ${what}`,
+    });
+
+export const emailTemplatesSchema = z.object({
+  templates: z
+    .array(
+      z.object({
+        kind: z.enum(["order_status", "order_ready", "payment_received", "order_overdue"]),
+        enabled: z.boolean(),
+        subject: emailTemplateText(EMAIL_SUBJECT_MAX, "subject"),
+        body: emailTemplateText(EMAIL_BODY_MAX, "message"),
+      })
+    )
+    .max(4)
+    .refine((list) => new Set(list.map((t) => t.kind)).size === list.length, {
+      message: "Each email can only appear once",
+    }),
+});
+
+export const teamInviteSchema = z.object({
+  role: z.enum(["manager", "apprentice"]),
+  email: z.string().email("Please enter a valid email").optional().or(z.literal("")),
+});
+
+export const reviewSchema = z.object({
+  orderId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid order"),
+  rating: z.number().int().min(1, "Pick a rating").max(5),
+  comment: z.string().trim().max(500, "Keep it under 500 characters").optional(),
+  shareAsTestimonial: z.boolean().optional(),
+});
+
+/** Client fields an offline device may change (lib/sync) — same rules as clientSchema. */
+export const syncClientChangesSchema = z
+  .object({
+    name: z.string().min(2, "Client name must be at least 2 characters"),
+    phone: z.string().min(10, "Please enter a valid phone number"),
+    email: z.string().email("Please enter a valid email").or(z.literal("")),
+    gender: z.enum(["male", "female"]),
+    notes: z.string().max(1000),
+  })
+  .partial();
+
+/** Order fields an offline device may change. Prices, items and payments need a connection. */
+export const syncOrderChangesSchema = z
+  .object({
+    title: z.string().min(2, "Order title is required"),
+    description: z.string(),
+    status: z.string().min(1),
+    dueDate: z.string().nullable(),
+    notes: z.string(),
+  })
+  .partial();
+
+export const syncMutationSchema = z.object({
+  /** Device-generated, unique per change — makes retries safe */
+  id: z.string().min(8).max(64),
+  entity: z.enum(["client", "order"]),
+  op: z.enum(["create", "update", "delete"]),
+  /** Server id, or the "tmp_…" id a create was given on the device */
+  recordId: z.string().min(1).max(64),
+  /** syncVersion of the copy the device edited */
+  baseVersion: z.number().int().min(0).optional(),
+  /** Values of the changed fields before the edit, for field-level conflict checks */
+  base: z.record(z.string(), z.unknown()).optional(),
+  changes: z.record(z.string(), z.unknown()).optional(),
+});
+
+export const syncPushSchema = z.object({
+  mutations: z.array(syncMutationSchema).min(1).max(50),
+});
+
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
 export type OnboardingInput = z.infer<typeof onboardingSchema>;
 export type ClientInput = z.infer<typeof clientSchema>;
 export type MeasurementInput = z.infer<typeof measurementSchema>;
+export type OrderItemInput = z.infer<typeof orderItemSchema>;
 export type OrderInput = z.infer<typeof orderSchema>;
+export type GroupOrderInput = z.infer<typeof groupOrderSchema>;
+export type GroupMembersInput = z.infer<typeof groupMembersSchema>;
+export type MarkerInput = z.infer<typeof markerSchema>;
+export type MaterialInput = z.infer<typeof materialSchema>;
+export type StockMovementInput = z.infer<typeof stockMovementSchema>;
+export type OrderMaterialInput = z.infer<typeof orderMaterialSchema>;
+export type AutoChaseSettingsInput = z.infer<typeof autoChaseSettingsSchema>;
+export type EmailTemplatesInput = z.infer<typeof emailTemplatesSchema>;
+export type TeamInviteInput = z.infer<typeof teamInviteSchema>;
+export type ReviewInput = z.infer<typeof reviewSchema>;
+export type SyncMutationInput = z.infer<typeof syncMutationSchema>;
+export type SyncPushInput = z.infer<typeof syncPushSchema>;
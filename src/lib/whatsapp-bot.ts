@@ -0,0 +1,1058 @@
+/* -------------------------------------------------------------------------- */
+/*  WhatsApp bot — designer commands                                           */
+/*                                                                              */
+/*  Turns a designer's WhatsApp message into a reply. Conversations carry    */
+/*  state per phone (models/bot-session): when a name matches more than one */
+/*  client the bot asks "which Amaka?" and the next message — "2", or more  */
+/*  of the name — finishes the original command. Long lists come a page at  */
+/*  a time (reply MORE). Names are matched fuzzily (lib/fuzzy-match), and    */
+/*  replies follow the designer's language: PIDGIN / ENGLISH switch it, and */
+/*  a message written in Pidgin switches it too.                             */
+/*                                                                              */
+/*  Writes go through lib/record-writes, so bot changes hit the same plan   */
+/*  limits and side effects as the app.                                      */
+/* -------------------------------------------------------------------------- */
+
+import type { Types } from "mongoose";
+import { Client } from "@/lib/models/client";
+import { Order } from "@/lib/models/order";
+import {
+  BotSession,
+  type BotLanguage,
+  type IBotPending,
+  type IBotPendingOption,
+} from "@/lib/models/bot-session";
+import {
+  createClientRecord,
+  createOrderRecord,
+  createScanSessionRecord,
+  recordOrderPayment,
+  afterOrderStatusChange,
+  type PaymentMethod,
+} from "@/lib/record-writes";
+import { loadWorkflow } from "@/lib/designer-workflow";
+import {
+  TERMINAL_STATUSES,
+  getNextStatuses,
+  getStatusLabel,
+  isValidTransition,
+  type OrderWorkflow,
+} from "@/lib/order-transitions";
+import { buildDailyPulse } from "@/lib/daily-pulse";
+import { bestMatches, fuzzyRank, normalizeForMatch } from "@/lib/fuzzy-match";
+import { cleanPhone, whatsapp } from "@/lib/whatsapp";
+import { clientSchema } from "@/lib/validations";
+import { APP_URL } from "@/lib/constants";
+
+export interface BotDesigner {
+  _id: { toString(): string };
+  name?: string;
+  businessName?: string;
+}
+
+interface BotContext {
+  designerId: string;
+  designer: BotDesigner;
+  lang: BotLanguage;
+}
+
+interface BotReply {
+  text: string;
+  /** Question left open for the next message */
+  pending?: IBotPending;
+}
+
+type BotArgs = Record<string, string | number>;
+type BotAction = (ctx: BotContext, args: BotArgs) => Promise<BotReply>;
+
+interface BotClient {
+  _id: Types.ObjectId;
+  name: string;
+  phone: string;
+  measurements?: Record<string, unknown>;
+}
+
+interface BotOrder {
+  _id: Types.ObjectId;
+  title: string;
+  status: string;
+  price: number;
+  depositPaid?: number;
+  dueDate?: Date;
+  clientId?: { _id: Types.ObjectId; name?: string; phone?: string } | null;
+  notifyWhenReady?: boolean;
+  notifyReadySentAt?: Date;
+}
+
+const PAGE_SIZE = 15;
+/** How long a "which one?" question stays open */
+const PENDING_TTL_MS = 10 * 60 * 1000;
+/** Numbered choices offered at most */
+const MAX_CHOICES = 5;
+const WAT_OFFSET_MS = 60 * 60 * 1000;
+
+/** Words that only turn up in Pidgin — one of them switches the bot over */
+const PIDGIN_MARKERS = new Set([
+  "abeg", "wetin", "dey", "una", "wahala", "oya", "sabi", "shey", "comot", "wey", "sef", "abi", "wan",
+]);
+
+/* ---- Formatting ---- */
+
+function say(lang: BotLanguage, english: string, pidgin: string): string {
+  return lang === "pidgin" ? pidgin : english;
+}
+
+function formatNaira(n: number) {
+  return `₦${n.toLocaleString("en-NG")}`;
+}
+
+function shortDate(date: Date | string) {
+  return new Date(date).toLocaleDateString("en-NG", { day: "numeric", month: "short", timeZone: "Africa/Lagos" });
+}
+
+function balanceOf(order: { price: number; depositPaid?: number }) {
+  return Math.max(0, order.price - (order.depositPaid || 0));
+}
+
+function escapeRegex(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** "45000", "45,000", "₦45k", "1.2m" → naira; NaN when it isn't an amount */
+export function parseAmount(token: string): number {
+  const match = token
+    .toLowerCase()
+    .replace(/[₦,]|naira|^n(?=\d)/g, "")
+    .match(/^(\d+(?:\.\d+)?)(k|m)?$/);
+  if (!match) return NaN;
+  const value = parseFloat(match[1]) * (match[2] === "m" ? 1_000_000 : match[2] === "k" ? 1_000 : 1);
+  return value > 0 ? Math.round(value) : NaN;
+}
+
+/** "15/03", "15-03-2027" → "2027-03-15"; a day-month already past means next year */
+export function parseDueDate(token: string, now = new Date()): string | null {
+  const match = token.match(/^(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{2}|\d{4}))?$/);
+  if (!match) return null;
+  const day = Number(match[1]);
+  const month = Number(match[2]);
+  if (day < 1 || day > 31 || month < 1 || month > 12) return null;
+
+  const today = new Date(now.getTime() + WAT_OFFSET_MS);
+  let year = match[3] ? Number(match[3].length === 2 ? `20${match[3]}` : match[3]) : today.getUTCFullYear();
+  let date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCDate() !== day) return null; // 31/02
+  if (!match[3] && date.getTime() < Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate())) {
+    year += 1;
+    date = new Date(Date.UTC(year, month - 1, day));
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/** One page of a list, with a MORE prompt when there's another */
+function pageReply(
+  ctx: BotContext,
+  heading: string,
+  lines: string[],
+  page: number,
+  total: number,
+  action: string,
+  args: BotArgs,
+  footer = "",
+): BotReply {
+  const from = (page - 1) * PAGE_SIZE;
+  const shown = `${from + 1}–${from + lines.length} of ${total}`;
+  const hasMore = from + lines.length < total;
+  const more = hasMore
+    ? "\n\n" + say(ctx.lang, `Reply *MORE* for the next ${PAGE_SIZE}.`, `Reply *MORE* make I show you the next ${PAGE_SIZE}.`)
+    : "";
+  return {
+    text: `*${heading}* (${total > PAGE_SIZE ? shown : total})\n\n${lines.join("\n")}${more}${footer ? `\n\n${footer}` : ""}`,
+    pending: hasMore ? { action, args: { ...args, page: page + 1 }, options: [] } : undefined,
+  };
+}
+
+/** Numbered "which one?" question; the pick fills `field` and re-runs `action` */
+function choiceReply(
+  ctx: BotContext,
+  question: string,
+  options: IBotPendingOption[],
+  action: string,
+  args: BotArgs,
+  field: string,
+  total = options.length,
+): BotReply {
+  const lines = options.map((o, i) => `${i + 1}. ${o.label}`);
+  const narrow =
+    total > options.length
+      ? "\n" + say(ctx.lang, `(${total} match — type more of the name to narrow it down)`, `(${total} dey match — type more of the name)`)
+      : "";
+  return {
+    text:
+      `${question}\n\n${lines.join("\n")}${narrow}\n\n` +
+      say(ctx.lang, `Reply with a number, or CANCEL.`, `Reply with the number, or CANCEL.`),
+    pending: { action, args, field, options },
+  };
+}
+
+/* ---- Lookups ---- */
+
+type Resolved<T> = { found: T; reply?: undefined } | { found?: undefined; reply: BotReply };
+
+/** The client `query` names — or a reply asking which one / saying there's none */
+async function resolveClient(
+  ctx: BotContext,
+  query: string,
+  action: string,
+  args: BotArgs,
+): Promise<Resolved<BotClient>> {
+  if (args.clientId) {
+    const client = (await Client.findOne({ _id: args.clientId, designerId: ctx.designerId })
+      .select("name phone measurements")
+      .lean()) as unknown as BotClient | null;
+    if (client) return { found: client };
+  }
+  if (!query) {
+    return { reply: { text: say(ctx.lang, "Which client? Add their name to the command.", "Which client? Put their name for the command.") } };
+  }
+
+  const clients = (await Client.find({ designerId: ctx.designerId })
+    .select("name phone measurements")
+    .lean()) as unknown as BotClient[];
+  const matches = bestMatches(query, clients, (c) => [c.name]);
+
+  if (matches.length === 0) {
+    return {
+      reply: {
+        text: say(
+          ctx.lang,
+          `No client found matching "${query}". Reply CLIENTS to see your clients.`,
+          `I no see any client wey be "${query}". Reply CLIENTS make you see all of them.`,
+        ),
+      },
+    };
+  }
+  if (matches.length === 1) return { found: matches[0].item };
+
+  const options = matches.slice(0, MAX_CHOICES).map(({ item }) => ({
+    id: String(item._id),
+    label: `${item.name}${item.phone ? ` (${item.phone})` : ""}`,
+  }));
+  return {
+    reply: choiceReply(
+      ctx,
+      say(ctx.lang, `Which ${query}?`, `Which ${query} you mean?`),
+      options,
+      action,
+      args,
+      "clientId",
+      matches.length,
+    ),
+  };
+}
+
+function orderLabel(order: BotOrder) {
+  return `${order.clientId?.name || "Unknown"} — ${order.title}`;
+}
+
+/** An active order by title and/or client name */
+async function resolveOrder(
+  ctx: BotContext,
+  query: string,
+  action: string,
+  args: BotArgs,
+): Promise<Resolved<BotOrder>> {
+  const base = { designerId: ctx.designerId, isDeleted: { $ne: true } };
+  if (args.orderId) {
+    const order = (await Order.findOne({ ...base, _id: args.orderId })
+      .populate("clientId", "name phone")
+      .lean()) as unknown as BotOrder | null;
+    if (order) return { found: order };
+  }
+  if (!query) {
+    return { reply: { text: say(ctx.lang, "Which order? Add the order or client name.", "Which order? Put the order or client name.") } };
+  }
+
+  const orders = (await Order.find({ ...base, status: { $nin: [...TERMINAL_STATUSES] } })
+    .populate("clientId", "name phone")
+    .sort({ dueDate: 1 })
+    .lean()) as unknown as BotOrder[];
+  const matches = bestMatches(query, orders, (o) => [
+    o.title,
+    o.clientId?.name || "",
+    `${o.clientId?.name || ""} ${o.title}`,
+  ]);
+
+  if (matches.length === 0) {
+    return {
+      reply: {
+        text: say(
+          ctx.lang,
+          `No active order found matching "${query}". Reply ORDERS to see them.`,
+          `I no see any active order wey be "${query}". Reply ORDERS make you see them.`,
+        ),
+      },
+    };
+  }
+  if (matches.length === 1) return { found: matches[0].item };
+
+  const options = matches.slice(0, MAX_CHOICES).map(({ item }) => ({
+    id: String(item._id),
+    label: `${orderLabel(item)} (${getStatusLabel(item.status)})`,
+  }));
+  return {
+    reply: choiceReply(ctx, say(ctx.lang, "Which order?", "Which order you mean?"), options, action, args, "orderId", matches.length),
+  };
+}
+
+/* ---- Commands ---- */
+
+function helpText(lang: BotLanguage) {
+  return say(
+    lang,
+    `*Stitcha Bot Commands* 🧵\n\n` +
+      `*TODAY* — your daily pulse\n` +
+      `*CLIENTS [name]* — list or search clients\n` +
+      `*ADD CLIENT [name] [phone] [male/female]* — add a client\n\n` +
+      `*ORDERS* — active orders\n` +
+      `*DUE THIS WEEK* — overdue and due by Sunday\n` +
+      `*UNPAID* — orders with a balance\n` +
+      `*NEW ORDER [client] [title] [price] [dd/mm]* — create an order\n` +
+      `*STATUS [order or client] [stage]* — move an order along\n` +
+      `*PAID [client] [amount] [cash/transfer/pos]* — record a payment\n\n` +
+      `*MEASUREMENTS [client]* — view measurements\n` +
+      `*SCAN LINK [client]* — body-scan link to send them\n` +
+      `*REMIND [client]* — payment reminder link\n\n` +
+      `Names don't have to be exact. Reply *PIDGIN* or *ENGLISH* to change my language.`,
+    `*Stitcha Bot Commands* 🧵\n\n` +
+      `*TODAY* — how business dey today\n` +
+      `*CLIENTS [name]* — see or find clients\n` +
+      `*ADD CLIENT [name] [phone] [male/female]* — add new client\n\n` +
+      `*ORDERS* — orders wey dey run\n` +
+      `*DUE THIS WEEK* — wetin don pass date and wetin due before Sunday\n` +
+      `*UNPAID* — orders wey never finish pay\n` +
+      `*NEW ORDER [client] [title] [price] [dd/mm]* — open new order\n` +
+      `*STATUS [order or client] [stage]* — move order go next stage\n` +
+      `*PAID [client] [amount] [cash/transfer/pos]* — record payment\n\n` +
+      `*MEASUREMENTS [client]* — see measurements\n` +
+      `*SCAN LINK [client]* — scan link to send am\n` +
+      `*REMIND [client]* — link to remind am to pay\n\n` +
+      `You no need write the name exactly. Reply *ENGLISH* or *PIDGIN* to change my language.`,
+  );
+}
+
+async function handleHelp(ctx: BotContext): Promise<BotReply> {
+  return { text: helpText(ctx.lang) };
+}
+
+async function handleClients(ctx: BotContext, args: BotArgs): Promise<BotReply> {
+  const page = Number(args.page) || 1;
+  const search = String(args.search || "").trim();
+
+  if (search) {
+    const clients = (await Client.find({ designerId: ctx.designerId }).select("name phone").lean()) as unknown as BotClient[];
+    const ranked = fuzzyRank(search, clients, (c) => [c.name]);
+    if (!ranked.length) {
+      return { text: say(ctx.lang, `No client found matching "${search}".`, `I no see any client wey be "${search}".`) };
+    }
+    const lines = ranked
+      .slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE)
+      .map(({ item }, i) => `${(page - 1) * PAGE_SIZE + i + 1}. ${item.name} — ${item.phone}`);
+    return pageReply(ctx, say(ctx.lang, `Clients matching "${search}"`, `Clients wey match "${search}"`), lines, page, ranked.length, "clients", args);
+  }
+
+  const total = await Client.countDocuments({ designerId: ctx.designerId });
+  if (!total) {
+    return {
+      text: say(
+        ctx.lang,
+        "You have no clients yet. Reply ADD CLIENT [name] [phone] [male/female] to add your first one.",
+        "You never get client. Reply ADD CLIENT [name] [phone] [male/female] to add your first one.",
+      ),
+    };
+  }
+  const clients = (await Client.find({ designerId: ctx.designerId })
+    .select("name phone")
+    .sort({ name: 1 })
+    .skip((page - 1) * PAGE_SIZE)
+    .limit(PAGE_SIZE)
+    .lean()) as unknown as BotClient[];
+  const lines = clients.map((c, i) => `${(page - 1) * PAGE_SIZE + i + 1}. ${c.name} — ${c.phone}`);
+  return pageReply(ctx, "Your Clients", lines, page, total, "clients", args);
+}
+
+async function handleOrders(ctx: BotContext, args: BotArgs): Promise<BotReply> {
+  const page = Number(args.page) || 1;
+  const filter = {
+    designerId: ctx.designerId,
+    status: { $nin: [...TERMINAL_STATUSES] },
+    isDeleted: { $ne: true },
+  };
+  const total = await Order.countDocuments(filter);
+  if (!total) return { text: say(ctx.lang, "No active orders right now.", "No order dey run now.") };
+
+  const [orders, workflow] = await Promise.all([
+    Order.find(filter)
+      .populate("clientId", "name")
+      .sort({ dueDate: 1 })
+      .skip((page - 1) * PAGE_SIZE)
+      .limit(PAGE_SIZE)
+      .lean() as unknown as Promise<BotOrder[]>,
+    loadWorkflow(ctx.designerId),
+  ]);
+  const lines = orders.map((o) => {
+    const due = o.dueDate ? ` | Due ${shortDate(o.dueDate)}` : "";
+    return `• ${orderLabel(o)} — ${getStatusLabel(o.status, workflow).toUpperCase()}${due}`;
+  });
+  return pageReply(ctx, say(ctx.lang, "Active Orders", "Orders Wey Dey Run"), lines, page, total, "orders", args);
+}
+
+async function handleUnpaid(ctx: BotContext, args: BotArgs): Promise<BotReply> {
+  const page = Number(args.page) || 1;
+  const filter = {
+    designerId: ctx.designerId,
+    paymentStatus: { $in: ["unpaid", "partial"] },
+    isDeleted: { $ne: true },
+  };
+  const total = await Order.countDocuments(filter);
+  if (!total) {
+    return { text: say(ctx.lang, "🎉 No unpaid orders! All balances are settled.", "🎉 Everybody don pay finish! No balance remain.") };
+  }
+
+  const orders = (await Order.find(filter)
+    .populate("clientId", "name")
+    .sort({ createdAt: -1 })
+    .skip((page - 1) * PAGE_SIZE)
+    .limit(PAGE_SIZE)
+    .lean()) as unknown as (BotOrder & { createdAt: Date })[];
+  const lines = orders.map((o) => {
+    const daysAgo = Math.floor((Date.now() - new Date(o.createdAt).getTime()) / 86400000);
+    return `• ${o.clientId?.name || "Unknown"}: ${formatNaira(balanceOf(o))} owed | ${o.title} | ${daysAgo}d ago`;
+  });
+  return pageReply(
+    ctx,
+    say(ctx.lang, "Unpaid Orders", "Orders Wey Never Finish Pay"),
+    lines,
+    page,
+    total,
+    "unpaid",
+    args,
+    say(ctx.lang, "Reply REMIND [client] to send a chase message, or PAID [client] [amount] to record a payment.", "Reply REMIND [client] to chase am, or PAID [client] [amount] when dem pay."),
+  );
+}
+
+async function handleDueThisWeek(ctx: BotContext, args: BotArgs): Promise<BotReply> {
+  const page = Number(args.page) || 1;
+  // End of Sunday, Lagos time
+  const today = new Date(Date.now() + WAT_OFFSET_MS);
+  const daysToSunday = (7 - today.getUTCDay()) % 7;
+  const weekEnd = new Date(
+    Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() + daysToSunday, 23, 59, 59, 999) - WAT_OFFSET_MS,
+  );
+  const filter = {
+    designerId: ctx.designerId,
+    status: { $nin: [...TERMINAL_STATUSES] },
+    isDeleted: { $ne: true },
+    dueDate: { $lte: weekEnd },
+  };
+  const total = await Order.countDocuments(filter);
+  if (!total) {
+    return { text: say(ctx.lang, "Nothing due this week and nothing overdue. 🙌", "Nothing dey due this week, nothing don pass date. 🙌") };
+  }
+
+  const [orders, workflow] = await Promise.all([
+    Order.find(filter)
+      .populate("clientId", "name")
+      .sort({ dueDate: 1 })
+      .skip((page - 1) * PAGE_SIZE)
+      .limit(PAGE_SIZE)
+      .lean() as unknown as Promise<BotOrder[]>,
+    loadWorkflow(ctx.designerId),
+  ]);
+  const lines = orders.map((o) => {
+    const overdue = o.dueDate && new Date(o.dueDate).getTime() < Date.now();
+    const when = o.dueDate ? `${overdue ? "⚠️ was due" : "due"} ${shortDate(o.dueDate)}` : "";
+    return `• ${orderLabel(o)} — ${getStatusLabel(o.status, workflow)} | ${when}`;
+  });
+  return pageReply(ctx, say(ctx.lang, "Due This Week", "Wetin Due This Week"), lines, page, total, "due", args);
+}
+
+async function handleAddClient(ctx: BotContext, args: BotArgs): Promise<BotReply> {
+  const format = say(
+    ctx.lang,
+    "Format: ADD CLIENT [name] [phone] [male/female]\nExample: add client Amaka Obi 08012345678 female",
+    "Write am like this: ADD CLIENT [name] [phone] [male/female]\nExample: add client Amaka Obi 08012345678 female",
+  );
+
+  // First pass: pull the phone and gender out of the free text
+  if (args.rest !== undefined) {
+    const nameParts: string[] = [];
+    const next: BotArgs = {};
+    for (const token of String(args.rest).split(/\s+/).filter(Boolean)) {
+      const lower = token.toLowerCase();
+      if (/^\+?[\d-]{10,16}$/.test(token)) next.phone = token.replace(/-/g, "");
+      else if (["male", "m", "man"].includes(lower)) next.gender = "male";
+      else if (["female", "f", "woman"].includes(lower)) next.gender = "female";
+      else nameParts.push(token);
+    }
+    next.name = nameParts.join(" ");
+    return handleAddClient(ctx, next);
+  }
+
+  const name = String(args.name || "").trim();
+  const phone = String(args.phone || "").trim();
+  if (!name || !phone) return { text: format };
+  if (!/^\d{10,14}$/.test(phone.replace(/\D/g, ""))) {
+    return {
+      text: say(
+        ctx.lang,
+        "That phone number doesn't look right. Please use a Nigerian number like 08012345678.",
+        "That phone number no correct. Use Nigerian number like 08012345678.",
+      ),
+    };
+  }
+  if (!args.gender) {
+    return choiceReply(
+      ctx,
+      say(ctx.lang, `Is ${name} male or female?`, `${name} na man or woman?`),
+      [
+        { id: "female", label: say(ctx.lang, "Female", "Woman") },
+        { id: "male", label: say(ctx.lang, "Male", "Man") },
+      ],
+      "addClient",
+      { name, phone },
+      "gender",
+    );
+  }
+
+  const existing = await Client.findOne({ designerId: ctx.designerId, name: new RegExp(`^${escapeRegex(name)}$`, "i") });
+  if (existing) {
+    return {
+      text: say(
+        ctx.lang,
+        `A client named ${name} already exists. Use a different name if this is a different person.`,
+        `Client wey dem call ${name} don dey before. Use another name if na different person.`,
+      ),
+    };
+  }
+
+  const parsed = clientSchema.safeParse({ name, phone, gender: args.gender });
+  if (!parsed.success) return { text: `${parsed.error.issues[0]?.message || "Invalid client"}\n\n${format}` };
+
+  const result = await createClientRecord(ctx.designerId, parsed.data);
+  if (!result.ok) return { text: result.message };
+
+  return {
+    text: say(
+      ctx.lang,
+      `✅ *${name}* added as a client!\n\nNow you can:\n• SCAN LINK ${name} — get their measurements\n• NEW ORDER ${name} [title] [price] — create an order`,
+      `✅ *${name}* don enter your clients!\n\nNow you fit:\n• SCAN LINK ${name} — collect measurements\n• NEW ORDER ${name} [title] [price] — open order`,
+    ),
+  };
+}
+
+async function handleNewOrder(ctx: BotContext, args: BotArgs): Promise<BotReply> {
+  const format = say(
+    ctx.lang,
+    "Format: NEW ORDER [client] [title] [price] [due dd/mm]\nExample: new order Amaka Obi Ankara gown 45k 15/03",
+    "Write am like this: NEW ORDER [client] [title] [price] [due dd/mm]\nExample: new order Amaka Obi Ankara gown 45k 15/03",
+  );
+
+  // First pass: split "client title price due" (or "client, title, price, due")
+  if (args.rest !== undefined) {
+    const rest = String(args.rest).trim();
+    const next: BotArgs = {};
+    let words: string[];
+    if (rest.includes(",")) {
+      const fields = rest.split(",").map((f) => f.trim()).filter(Boolean);
+      next.client = fields.shift() || "";
+      words = fields;
+    } else {
+      words = rest.split(/\s+/).filter(Boolean);
+    }
+
+    const due = words.length ? parseDueDate(words[words.length - 1]) : null;
+    if (due) {
+      next.due = due;
+      words.pop();
+    }
+    const price = words.length ? parseAmount(words[words.length - 1]) : NaN;
+    if (isNaN(price)) return { text: format };
+    next.price = price;
+    words.pop();
+
+    if (next.client !== undefined) {
+      next.title = words.join(" ");
+    } else {
+      // Where does the client's name end? Try every split and keep the one
+      // whose name matches a client best — the longer name on a tie.
+      if (words.length === 0) return { text: format };
+      const clients = (await Client.find({ designerId: ctx.designerId }).select("name").lean()) as unknown as BotClient[];
+      let best = { score: 0, k: 1 };
+      for (let k = 1; k <= words.length; k++) {
+        const top = fuzzyRank(words.slice(0, k).join(" "), clients, (c) => [c.name])[0];
+        if (top && top.score >= best.score) best = { score: top.score, k };
+      }
+      next.client = words.slice(0, best.k).join(" ");
+      next.title = words.slice(best.k).join(" ");
+    }
+    return handleNewOrder(ctx, next);
+  }
+
+  const resolved = await resolveClient(ctx, String(args.client || ""), "newOrder", args);
+  if (!resolved.found) return resolved.reply;
+  const client = resolved.found;
+
+  const title = String(args.title || "").trim().length >= 2 ? String(args.title).trim() : "New Order";
+  const price = Number(args.price);
+  const result = await createOrderRecord(ctx.designerId, {
+    clientId: String(client._id),
+    title,
+    garmentType: "other",
+    price,
+    ...(args.due ? { dueDate: String(args.due) } : {}),
+  });
+  if (!result.ok) return { text: result.message };
+
+  const due = args.due ? `\nDue: ${shortDate(String(args.due))}` : "";
+  return {
+    text: say(
+      ctx.lang,
+      `✅ *New order created!*\n\nClient: ${client.name}\nOrder: ${title}\nPrice: ${formatNaira(price)}${due}\n\nOpen the Stitcha app to add fabric details and garments.`,
+      `✅ *New order don open!*\n\nClient: ${client.name}\nOrder: ${title}\nPrice: ${formatNaira(price)}${due}\n\nOpen Stitcha app to add fabric and garment details.`,
+    ),
+  };
+}
+
+const MEASUREMENT_LABELS: Record<string, string> = {
+  bust: "Bust", waist: "Waist", hips: "Hips", shoulder: "Shoulder",
+  armLength: "Arm Length", sleeveLength: "Sleeve", backLength: "Back Length",
+  frontLength: "Front Length", neck: "Neck", chest: "Chest",
+  thigh: "Thigh", knee: "Knee", inseam: "Inseam", wrist: "Wrist",
+  ankle: "Ankle", calf: "Calf", height: "Height", weight: "Weight (kg)",
+  underBust: "Under Bust", roundArm: "Round Arm", blouseLength: "Blouse Length",
+  fullLength: "Full Length", halfLength: "Half Length", halfSleeve: "Half Sleeve",
+  crotchLength: "Crotch Length",
+};
+
+async function handleMeasurements(ctx: BotContext, args: BotArgs): Promise<BotReply> {
+  const resolved = await resolveClient(ctx, String(args.client || ""), "measurements", args);
+  if (!resolved.found) return resolved.reply;
+  const client = resolved.found;
+
+  const m = client.measurements;
+  const lines: string[] = [`*${client.name}'s Measurements*\n`];
+  for (const [key, label] of Object.entries(MEASUREMENT_LABELS)) {
+    const val = m?.[key];
+    if (typeof val === "number" && val > 0) {
+      const inches = (val / 2.54).toFixed(1);
+      lines.push(`${label}: ${inches}" (${val.toFixed(1)} cm)`);
+    }
+  }
+  if (lines.length === 1) {
+    return {
+      text: say(
+        ctx.lang,
+        `${client.name} has no measurements yet. Reply SCAN LINK ${client.name} to send them a scan link.`,
+        `${client.name} never get measurements. Reply SCAN LINK ${client.name} make I give you scan link for am.`,
+      ),
+    };
+  }
+
+  const source = m?.source === "ai_scan" ? "AI Scan" : "Manual";
+  const date = m?.measuredAt
+    ? new Date(m.measuredAt as string).toLocaleDateString("en-NG", { day: "numeric", month: "short", year: "numeric" })
+    : "";
+  lines.push(`\n_Source: ${source}${date ? ` · ${date}` : ""}_`);
+  return { text: lines.join("\n") };
+}
+
+async function handleRemind(ctx: BotContext, args: BotArgs): Promise<BotReply> {
+  const resolved = await resolveClient(ctx, String(args.client || ""), "remind", args);
+  if (!resolved.found) return resolved.reply;
+  const client = resolved.found;
+
+  const orders = (await Order.find({
+    designerId: ctx.designerId,
+    clientId: client._id,
+    paymentStatus: { $in: ["unpaid", "partial"] },
+    isDeleted: { $ne: true },
+  }).lean()) as unknown as BotOrder[];
+  if (!orders.length) {
+    return { text: say(ctx.lang, `${client.name} has no outstanding balance. All paid up! ✅`, `${client.name} no get balance. E don pay finish! ✅`) };
+  }
+
+  const totalOwed = orders.reduce((sum, o) => sum + balanceOf(o), 0);
+  const business = ctx.designer.businessName || ctx.designer.name || "";
+  let link: string;
+  if (orders.length === 1) {
+    link = whatsapp.paymentReminder(client.phone, client.name, orders[0].title, totalOwed, ctx.lang);
+  } else {
+    const orderList = orders.map((o) => `- ${o.title}`).join("\n");
+    const message = say(
+      ctx.lang,
+      `Hi ${client.name},\n\nThis is a friendly reminder about your outstanding balance of *${formatNaira(totalOwed)}* for:\n${orderList}\n\nPlease make payment at your earliest convenience. Thank you! 🙏\n\n— ${business}`,
+      `Hello ${client.name}! 🙏\n\nAbeg, e still remain *${formatNaira(totalOwed)}* for:\n${orderList}\n\nPay when you fit. Thank you! 🙏\n\n— ${business}`,
+    );
+    link = `https://wa.me/${cleanPhone(client.phone)}?text=${encodeURIComponent(message)}`;
+  }
+
+  return {
+    text: say(
+      ctx.lang,
+      `Payment reminder for *${client.name}*\nTotal owed: ${formatNaira(totalOwed)}\n\nTap to send:\n${link}`,
+      `Reminder for *${client.name}*\nE remain: ${formatNaira(totalOwed)}\n\nTap am to send:\n${link}`,
+    ),
+  };
+}
+
+/** The stage named at the end of `words` (one or two words), if any */
+function splitStage(words: string[], workflow: OrderWorkflow): { stage?: string; rest: string[] } {
+  for (const n of [2, 1]) {
+    if (words.length <= n) continue;
+    const tail = words.slice(-n).join(" ");
+    const matches = bestMatches(tail, workflow.stages, (s) => [s.key, s.label]);
+    if (matches.length === 1 && matches[0].score >= 0.85) {
+      return { stage: matches[0].item.key, rest: words.slice(0, -n) };
+    }
+  }
+  return { rest: words };
+}
+
+async function handleStatus(ctx: BotContext, args: BotArgs): Promise<BotReply> {
+  const workflow = await loadWorkflow(ctx.designerId);
+
+  if (args.rest !== undefined) {
+    const { stage, rest } = splitStage(String(args.rest).split(/\s+/).filter(Boolean), workflow);
+    return handleStatus(ctx, { order: rest.join(" "), ...(stage ? { stage } : {}) });
+  }
+
+  const resolved = await resolveOrder(ctx, String(args.order || ""), "status", args);
+  if (!resolved.found) return resolved.reply;
+  const order = resolved.found;
+  const current = getStatusLabel(order.status, workflow);
+  const nextStatuses = getNextStatuses(order.status, workflow);
+
+  if (!args.stage) {
+    if (!nextStatuses.length) {
+      return { text: say(ctx.lang, `*${orderLabel(order)}* is ${current}.`, `*${orderLabel(order)}* don ${current}.`) };
+    }
+    return choiceReply(
+      ctx,
+      say(
+        ctx.lang,
+        `*${orderLabel(order)}* is at *${current}*. Move it to…`,
+        `*${orderLabel(order)}* dey *${current}*. Make I move am go…`,
+      ),
+      nextStatuses.map((key) => ({ id: key, label: getStatusLabel(key, workflow) })),
+      "status",
+      { orderId: String(order._id) },
+      "stage",
+    );
+  }
+
+  const stage = String(args.stage);
+  if (stage === order.status) {
+    return { text: say(ctx.lang, `*${orderLabel(order)}* is already ${current}.`, `*${orderLabel(order)}* don already dey ${current}.`) };
+  }
+  if (!isValidTransition(order.status, stage, workflow)) {
+    const allowed = nextStatuses.map((key) => getStatusLabel(key, workflow)).join(", ");
+    return {
+      text: say(
+        ctx.lang,
+        `Can't move *${orderLabel(order)}* from ${current} to ${getStatusLabel(stage, workflow)}.${allowed ? `\nNext can be: ${allowed}` : ""}`,
+        `I no fit move *${orderLabel(order)}* from ${current} go ${getStatusLabel(stage, workflow)}.${allowed ? `\nE fit go: ${allowed}` : ""}`,
+      ),
+    };
+  }
+
+  const updated = await Order.findOneAndUpdate(
+    { _id: order._id, designerId: ctx.designerId, status: order.status, isDeleted: { $ne: true } },
+    {
+      $set: { status: stage },
+      $push: { statusHistory: { status: stage, changedAt: new Date(), note: "Via WhatsApp" } },
+    },
+    { new: true },
+  );
+  if (!updated) {
+    return { text: say(ctx.lang, "That order just changed — reply ORDERS and try again.", "That order just change — reply ORDERS come try again.") };
+  }
+  await afterOrderStatusChange(ctx.designerId, updated, stage, order.clientId);
+
+  return {
+    text: say(
+      ctx.lang,
+      `✅ *${orderLabel(order)}* moved to *${getStatusLabel(stage, workflow)}*.`,
+      `✅ *${orderLabel(order)}* don move go *${getStatusLabel(stage, workflow)}*.`,
+    ),
+  };
+}
+
+const PAYMENT_METHOD_WORDS: Record<string, PaymentMethod> = {
+  cash: "cash",
+  transfer: "bank_transfer",
+  bank: "bank_transfer",
+  trf: "bank_transfer",
+  pos: "card",
+  card: "card",
+  opay: "mobile_money",
+  palmpay: "mobile_money",
+  momo: "mobile_money",
+};
+
+async function handlePaid(ctx: BotContext, args: BotArgs): Promise<BotReply> {
+  const format = say(
+    ctx.lang,
+    "Format: PAID [client] [amount] [cash/transfer/pos]\nExample: paid Amaka 20k transfer",
+    "Write am like this: PAID [client] [amount] [cash/transfer/pos]\nExample: paid Amaka 20k transfer",
+  );
+
+  if (args.rest !== undefined) {
+    const words = String(args.rest).split(/\s+/).filter(Boolean);
+    const next: BotArgs = {};
+    const method = words.length ? PAYMENT_METHOD_WORDS[words[words.length - 1].toLowerCase()] : undefined;
+    if (method) {
+      next.method = method;
+      words.pop();
+    }
+    const amount = words.length ? parseAmount(words[words.length - 1]) : NaN;
+    if (isNaN(amount) || words.length < 2) return { text: format };
+    words.pop();
+    next.amount = amount;
+    next.client = words.join(" ");
+    return handlePaid(ctx, next);
+  }
+
+  const resolved = await resolveClient(ctx, String(args.client || ""), "paid", args);
+  if (!resolved.found) return resolved.reply;
+  const client = resolved.found;
+  const amount = Number(args.amount);
+
+  let orderId = args.orderId ? String(args.orderId) : "";
+  if (!orderId) {
+    const owing = ((await Order.find({
+      designerId: ctx.designerId,
+      clientId: client._id,
+      paymentStatus: { $in: ["unpaid", "partial"] },
+      isDeleted: { $ne: true },
+    })
+      .sort({ createdAt: 1 })
+      .lean()) as unknown as BotOrder[]).filter((o) => balanceOf(o) > 0);
+
+    if (!owing.length) {
+      return { text: say(ctx.lang, `${client.name} has no order with a balance.`, `${client.name} no get any order wey remain balance.`) };
+    }
+    if (owing.length > 1) {
+      return choiceReply(
+        ctx,
+        say(ctx.lang, `Which order is ${formatNaira(amount)} for?`, `The ${formatNaira(amount)} na for which order?`),
+        owing.slice(0, 9).map((o) => ({ id: String(o._id), label: `${o.title} — ${formatNaira(balanceOf(o))} owed` })),
+        "paid",
+        { ...args, clientId: String(client._id) },
+        "orderId",
+      );
+    }
+    orderId = String(owing[0]._id);
+  }
+
+  const result = await recordOrderPayment(ctx.designerId, orderId, {
+    amount,
+    method: args.method ? (String(args.method) as PaymentMethod) : undefined,
+    note: "Via WhatsApp",
+  });
+  if (!result.ok) return { text: result.message };
+
+  const order = result.doc;
+  const balance = balanceOf(order);
+  return {
+    text: say(
+      ctx.lang,
+      `✅ ${formatNaira(amount)} recorded for *${order.title}* (${client.name}).\n` +
+        (balance > 0 ? `Balance left: ${formatNaira(balance)}` : `Fully paid! 🎉`),
+      `✅ I don record ${formatNaira(amount)} for *${order.title}* (${client.name}).\n` +
+        (balance > 0 ? `E remain: ${formatNaira(balance)}` : `E don pay finish! 🎉`),
+    ),
+  };
+}
+
+async function handleScanLink(ctx: BotContext, args: BotArgs): Promise<BotReply> {
+  const resolved = await resolveClient(ctx, String(args.client || ""), "scanLink", args);
+  if (!resolved.found) return resolved.reply;
+  const client = resolved.found;
+
+  const result = await createScanSessionRecord(ctx.designerId, String(client._id));
+  if (!result.ok) return { text: result.message };
+
+  const scanUrl = `${APP_URL}/scan/${result.doc.linkCode}`;
+  const forward = client.phone
+    ? whatsapp.scanInvite(client.phone, client.name, scanUrl, ctx.designer.businessName || ctx.designer.name, undefined, ctx.lang)
+    : "";
+  return {
+    text: say(
+      ctx.lang,
+      `📏 Scan link for *${client.name}* (expires in 24 hours):\n${scanUrl}` +
+        (forward ? `\n\nTap to send it to them:\n${forward}` : ""),
+      `📏 Scan link for *${client.name}* (e go expire in 24 hours):\n${scanUrl}` +
+        (forward ? `\n\nTap am to send am:\n${forward}` : ""),
+    ),
+  };
+}
+
+async function handleToday(ctx: BotContext): Promise<BotReply> {
+  const pulse = await buildDailyPulse(ctx.designerId);
+  const lines = [
+    say(ctx.lang, `*Today at ${ctx.designer.businessName || "Stitcha"}* ☀️`, `*How business dey today* ☀️`),
+    "",
+    pulse.nudge,
+    "",
+    `💰 This month: ${formatNaira(pulse.money.revenueThisMonth)} booked, ${formatNaira(pulse.money.collectedThisMonth)} ${say(ctx.lang, "collected", "don enter")}`,
+    `🧾 ${say(ctx.lang, "Outstanding", "Balance wey remain")}: ${formatNaira(pulse.money.outstanding)} (${pulse.money.unpaidOrders} orders)`,
+    `🧵 ${say(ctx.lang, "Active orders", "Orders wey dey run")}: ${pulse.activeOrders}` +
+      (pulse.overdueCount ? ` · ⚠️ ${pulse.overdueCount} ${say(ctx.lang, "overdue", "don pass date")}` : ""),
+  ];
+  if (pulse.deadlines.length) {
+    lines.push("", say(ctx.lang, "*Coming up*", "*Wetin dey come*"));
+    for (const d of pulse.deadlines) {
+      const when =
+        d.daysLeft === 0
+          ? "today"
+          : d.daysLeft === 1
+          ? "tomorrow"
+          : say(ctx.lang, `in ${d.daysLeft} days`, `for ${d.daysLeft} days`);
+      lines.push(`• ${d.title} — ${when}`);
+    }
+  }
+  if (pulse.wins.length) {
+    lines.push("", `🏆 ${pulse.wins.join(" · ")}`);
+  }
+  lines.push("", `_${pulse.proverb}_`);
+  return { text: lines.join("\n") };
+}
+
+const ACTIONS: Record<string, BotAction> = {
+  help: handleHelp,
+  clients: handleClients,
+  orders: handleOrders,
+  unpaid: handleUnpaid,
+  due: handleDueThisWeek,
+  addClient: handleAddClient,
+  newOrder: handleNewOrder,
+  measurements: handleMeasurements,
+  remind: handleRemind,
+  status: handleStatus,
+  paid: handlePaid,
+  scanLink: handleScanLink,
+  today: handleToday,
+};
+
+/* ---- Parsing ---- */
+
+const COMMANDS: { pattern: RegExp; action: string; arg?: string }[] = [
+  { pattern: /^(?:help|hi|hello|hey|start|menu)$/i, action: "help" },
+  { pattern: /^(?:today|pulse)$/i, action: "today" },
+  { pattern: /^clients?\b\s*(.*)$/i, action: "clients", arg: "search" },
+  { pattern: /^(?:orders|active)$/i, action: "orders" },
+  { pattern: /^(?:unpaid|balance|balances|debts|owing)$/i, action: "unpaid" },
+  { pattern: /^due(?:\s+this\s+week)?$/i, action: "due" },
+  { pattern: /^add\s+client\b\s*(.*)$/i, action: "addClient", arg: "rest" },
+  { pattern: /^new\s+order\b\s*(.*)$/i, action: "newOrder", arg: "rest" },
+  { pattern: /^(?:measurements?|measure)\b\s*(.*)$/i, action: "measurements", arg: "client" },
+  { pattern: /^(?:remind|chase)\b\s*(.*)$/i, action: "remind", arg: "client" },
+  { pattern: /^status\b\s*(.*)$/i, action: "status", arg: "rest" },
+  { pattern: /^(?:paid|payment|pay)\b\s*(.*)$/i, action: "paid", arg: "rest" },
+  { pattern: /^scan(?:\s+link)?\b\s*(.*)$/i, action: "scanLink", arg: "client" },
+];
+
+/** Command + arguments, or null when it isn't one */
+export function parseCommand(text: string): { action: string; args: BotArgs } | null {
+  const body = text
+    .trim()
+    .replace(/^(?:abeg|please|pls|oya)[\s,]+/i, "")
+    .replace(/\s+/g, " ");
+  for (const { pattern, action, arg } of COMMANDS) {
+    const match = body.match(pattern);
+    if (match) return { action, args: arg ? { [arg]: (match[1] || "").trim() } : {} };
+  }
+  return null;
+}
+
+/** "english" / "pidgin" when the message asks for one or is written in Pidgin */
+export function detectLanguage(text: string): BotLanguage | null {
+  const words = normalizeForMatch(text).split(" ");
+  if (words.length === 1 && (words[0] === "english" || words[0] === "pidgin")) return words[0];
+  return words.some((w) => PIDGIN_MARKERS.has(w)) ? "pidgin" : null;
+}
+
+/* ---- Entry point ---- */
+
+/**
+ * Reply to one message from a designer's phone. Loads the phone's
+ * session, finishes a pending question if the message answers it,
+ * otherwise runs the message as a new command.
+ */
+export async function runDesignerBot(designer: BotDesigner, phone: string, text: string): Promise<string> {
+  const designerId = designer._id.toString();
+  const session = await BotSession.findOneAndUpdate(
+    { phone: cleanPhone(phone) },
+    { $set: { designerId, lastMessageAt: new Date() } },
+    { upsert: true, new: true, setDefaultsOnInsert: true },
+  );
+
+  const body = text.trim();
+  const lower = body.toLowerCase();
+  const switched = detectLanguage(body);
+  const ctx: BotContext = { designerId, designer, lang: switched || session.language || "english" };
+
+  const pending =
+    session.pending && session.pendingExpiresAt && session.pendingExpiresAt.getTime() > Date.now()
+      ? session.pending
+      : null;
+
+  let reply: BotReply | null = null;
+  if (lower === "english" || lower === "pidgin") {
+    reply = {
+      text: say(ctx.lang, "Okay — I'll reply in English. Reply HELP to see what I can do.", "Oya — I go dey reply you for Pidgin. Reply HELP make you see wetin I fit do."),
+      pending: pending || undefined,
+    };
+  } else if (pending && /^(?:cancel|stop|no|never\s*mind)$/i.test(lower)) {
+    reply = { text: say(ctx.lang, "Okay, cancelled.", "No wahala, I don cancel am.") };
+  } else if (pending && pending.options.length === 0 && /^(?:more|next)$/i.test(lower)) {
+    reply = await ACTIONS[pending.action](ctx, { ...pending.args });
+  } else if (pending && pending.options.length > 0 && pending.field) {
+    let picked: IBotPendingOption | undefined;
+    if (/^\d+$/.test(lower)) {
+      picked = pending.options[Number(lower) - 1];
+      if (!picked) {
+        reply = {
+          text: say(ctx.lang, `Reply a number from 1 to ${pending.options.length}, or CANCEL.`, `Reply number from 1 reach ${pending.options.length}, or CANCEL.`),
+          pending,
+        };
+      }
+    } else {
+      const matches = bestMatches(body, pending.options, (o) => [o.label]);
+      if (matches.length === 1) picked = matches[0].item;
+    }
+    if (picked) {
+      reply = await ACTIONS[pending.action](ctx, { ...pending.args, [pending.field]: picked.id });
+    }
+  }
+
+  if (!reply) {
+    const command = parseCommand(body);
+    reply = command
+      ? await ACTIONS[command.action](ctx, command.args)
+      : {
+          text: say(
+            ctx.lang,
+            `I didn't understand that. Reply *HELP* to see all available commands.\n\nQuick commands:\n• TODAY\n• ORDERS\n• UNPAID\n• HELP`,
+            `I no understand wetin you talk. Reply *HELP* make you see all the commands.\n\nQuick commands:\n• TODAY\n• ORDERS\n• UNPAID\n• HELP`,
+          ),
+        };
+  }
+
+  session.language = ctx.lang;
+  session.pending = reply.pending || null;
+  session.pendingExpiresAt = reply.pending ? new Date(Date.now() + PENDING_TTL_MS) : null;
+  await session.save();
+
+  return reply.text;
+}
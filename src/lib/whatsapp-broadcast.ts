@@ -0,0 +1,380 @@
+/* -------------------------------------------------------------------------- */
+/*  WhatsApp broadcasts through the Cloud API                                  */
+/*                                                                              */
+/*  A BroadcastJob with delivery "cloud" is sent from Stitcha's WhatsApp     */
+/*  Business number by the broadcast.send job instead of the designer's     */
+/*  own phone. Business-initiated messages must be approved templates, so   */
+/*  the designer picks one of WHATSAPP_BROADCAST_TEMPLATES and their text   */
+/*  rides in as a variable. Per recipient the job records sent → delivered  */
+/*  → read, or failed, as receipts arrive on the webhook.                   */
+/*                                                                              */
+/*  Rate limits:                                                                */
+/*    • messaging tier — unique people the number may start conversations   */
+/*      with in a rolling 24h (WHATSAPP_MESSAGING_TIER: 250, 1k, 10k, 100k, */
+/*      unlimited; default 250). The number is shared by every designer, so */
+/*      the budget is counted from all outbound templates.                   */
+/*    • throughput — sends are paced and capped per run; Graph throttling   */
+/*      errors pause the broadcast instead of failing recipients.           */
+/*  A run that stops early returns `resumeAt` and the handler queues the    */
+/*  next batch.                                                                */
+/* -------------------------------------------------------------------------- */
+
+import mongoose from "mongoose";
+import { BroadcastJob, type BroadcastRecipientStatus, type IBroadcastJob } from "@/lib/models/broadcast-job";
+import { Designer } from "@/lib/models/designer";
+import { Order } from "@/lib/models/order";
+import { Outreach } from "@/lib/models/outreach";
+import { WhatsAppMessage } from "@/lib/models/whatsapp-message";
+import { calcBalance, formatNaira } from "@/lib/payment-chaser";
+import { sendTemplate, type StatusUpdate } from "@/lib/whatsapp-cloud";
+import { cleanPhone } from "@/lib/whatsapp";
+
+/* -------------------------------------------------------------------------- */
+/*  Templates                                                                   */
+/* -------------------------------------------------------------------------- */
+
+export type BroadcastVariable = "name" | "first_name" | "business" | "balance" | "order_title" | "message";
+
+export interface WhatsAppBroadcastTemplate {
+  /** Template name as approved in WhatsApp Manager */
+  name: string;
+  language: string;
+  label: string;
+  description: string;
+  /** Fills {{1}}, {{2}}… of the body, in order */
+  params: BroadcastVariable[];
+  /** Approved body text */
+  body: string;
+}
+
+export const WHATSAPP_BROADCAST_TEMPLATES: WhatsAppBroadcastTemplate[] = [
+  {
+    name: "stitcha_client_update",
+    language: "en",
+    label: "Your message",
+    description: "Sends the message you wrote, introduced with your business name",
+    params: ["first_name", "business", "message"],
+    body: "Hi {{1}}, here's a message from {{2}}:\n\n{{3}}",
+  },
+  {
+    name: "stitcha_balance_reminder",
+    language: "en",
+    label: "Balance reminder",
+    description: "Each client's outstanding balance and latest order. Skips clients who owe nothing",
+    params: ["first_name", "business", "balance", "order_title"],
+    body:
+      "Hi {{1}}, this is {{2}}. A friendly reminder that you have an outstanding balance of {{3}} " +
+      "on your {{4}} order. Please reply when you're ready to pay. Thank you!",
+  },
+  {
+    name: "stitcha_order_followup",
+    language: "en",
+    label: "Order follow-up",
+    description: "Thanks each client for their latest order and invites them back",
+    params: ["first_name", "order_title", "business"],
+    body:
+      "Hi {{1}}, thank you for your {{2}} order with {{3}}! " +
+      "We'd love to make your next outfit. Reply to book a fitting.",
+  },
+];
+
+export function findBroadcastTemplate(name?: string): WhatsAppBroadcastTemplate | undefined {
+  return WHATSAPP_BROADCAST_TEMPLATES.find((t) => t.name === name);
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Variables                                                                   */
+/* -------------------------------------------------------------------------- */
+
+export type BroadcastValues = Partial<Record<BroadcastVariable, string>>;
+
+/** Approved body with {{1}}… filled in; unknown values stay as {{first_name}} etc. */
+export function templatePreview(template: WhatsAppBroadcastTemplate, values: BroadcastValues): string {
+  return template.body.replace(/\{\{(\d+)\}\}/g, (match, n: string) => {
+    const variable = template.params[Number(n) - 1];
+    if (!variable) return match;
+    return values[variable] ?? `{{${variable}}}`;
+  });
+}
+
+/** {{name}}, {{first_name}}, {{balance}}, {{order_title}} in the designer's text */
+export function renderBroadcastText(text: string, values: BroadcastValues): string {
+  return text.replace(/\{\{\s*(name|first_name|balance|order_title)\s*\}\}/gi, (match, key: string) => {
+    return values[key.toLowerCase() as BroadcastVariable] ?? match;
+  });
+}
+
+/** Template parameters may not contain newlines, tabs or 4+ spaces in a row */
+function templateParam(value: string): string {
+  return value.replace(/\s*[\n\t]+\s*/g, " ").replace(/ {4,}/g, "   ").trim().slice(0, 1024);
+}
+
+/** Outstanding balance and most recent order title per client */
+async function clientOrderValues(
+  designerId: mongoose.Types.ObjectId,
+  clientIds: mongoose.Types.ObjectId[]
+): Promise<Map<string, { balance: number; orderTitle?: string }>> {
+  const orders = await Order.find({
+    designerId,
+    clientId: { $in: clientIds },
+    isDeleted: { $ne: true },
+    status: { $ne: "cancelled" },
+  })
+    .select("clientId title price depositPaid paymentStatus createdAt")
+    .sort({ createdAt: -1 })
+    .lean();
+
+  const values = new Map<string, { balance: number; orderTitle?: string }>();
+  for (const order of orders) {
+    const key = String(order.clientId);
+    const entry = values.get(key) || { balance: 0 };
+    entry.orderTitle ??= order.title;
+    if (order.paymentStatus !== "paid") entry.balance += calcBalance(order);
+    values.set(key, entry);
+  }
+  return values;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Rate limits                                                                 */
+/* -------------------------------------------------------------------------- */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Sends per run — keeps a run well inside the job lock */
+const BATCH_SIZE = 100;
+/** ~10 messages/second, far below the Cloud API's 80/second */
+const SEND_INTERVAL_MS = 100;
+/** Wait after Graph throttles us before trying the rest */
+const THROTTLED_RETRY_MS = 15 * 60 * 1000;
+/**
+ * Graph errors that mean "slow down", not "this recipient failed":
+ * app / account rate limits, throughput, spam rate limit, pair rate limit.
+ */
+const THROTTLE_CODES = [4, 80007, 130429, 131048, 131056];
+
+const TIER_LIMITS: Record<string, number> = {
+  "250": 250,
+  "1k": 1_000,
+  "1000": 1_000,
+  "10k": 10_000,
+  "10000": 10_000,
+  "100k": 100_000,
+  "100000": 100_000,
+  unlimited: Infinity,
+};
+
+export function messagingTierLimit(): number {
+  return TIER_LIMITS[(process.env.WHATSAPP_MESSAGING_TIER || "250").trim().toLowerCase()] ?? 250;
+}
+
+/** People messaged with a template in the last 24h, and when a slot frees up */
+async function tierWindow(now: Date): Promise<{ contacted: Set<string>; limit: number; resetsAt: Date }> {
+  const limit = messagingTierLimit();
+  if (limit === Infinity) return { contacted: new Set(), limit, resetsAt: now };
+
+  const rows = await WhatsAppMessage.aggregate<{ _id: string; first: Date }>([
+    {
+      $match: {
+        direction: "out",
+        kind: "template",
+        createdAt: { $gte: new Date(now.getTime() - DAY_MS) },
+      },
+    },
+    { $group: { _id: "$phone", first: { $min: "$createdAt" } } },
+  ]);
+  const oldest = rows.reduce((min, r) => Math.min(min, new Date(r.first).getTime()), now.getTime());
+  return {
+    contacted: new Set(rows.map((r) => r._id)),
+    limit,
+    resetsAt: new Date(oldest + DAY_MS),
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Sending                                                                     */
+/* -------------------------------------------------------------------------- */
+
+export interface CloudBroadcastRun {
+  sent: number;
+  failed: number;
+  /** Set when recipients are left for a later run */
+  resumeAt?: Date;
+  reason?: "batch" | "tier" | "throttled";
+  complete: boolean;
+}
+
+async function failRecipient(
+  jobId: mongoose.Types.ObjectId,
+  recipient: { _id?: mongoose.Types.ObjectId; clientId: mongoose.Types.ObjectId },
+  error: string
+): Promise<void> {
+  await BroadcastJob.updateOne(
+    { _id: jobId, "recipients._id": recipient._id },
+    {
+      $set: { "recipients.$.status": "failed", "recipients.$.error": error },
+      $inc: { failedCount: 1 },
+      $push: { errorList: { clientId: recipient.clientId, error } },
+    }
+  );
+}
+
+/**
+ * Send the next batch of a cloud broadcast. Writes are per recipient and
+ * atomic, so a re-run after a crash skips everyone already sent and
+ * delivery receipts landing mid-run are never overwritten.
+ */
+export async function runCloudBroadcast(job: IBroadcastJob, now = new Date()): Promise<CloudBroadcastRun> {
+  const jobId = job._id as mongoose.Types.ObjectId;
+  const template = findBroadcastTemplate(job.template);
+  if (!template) {
+    await BroadcastJob.updateOne(
+      { _id: jobId },
+      {
+        $set: { status: "cancelled", completedAt: new Date() },
+        $push: { errorList: { clientId: job.designerId, error: `Unknown WhatsApp template "${job.template}"` } },
+      }
+    );
+    return { sent: 0, failed: 0, complete: true };
+  }
+
+  if (job.status === "pending") {
+    await BroadcastJob.updateOne({ _id: jobId }, { $set: { status: "running", startedAt: now } });
+  }
+
+  const designer = await Designer.findById(job.designerId).select("name businessName").lean();
+  const business = designer?.businessName || designer?.name || "your designer";
+  const queue = job.recipients.filter((r) => (r.status || "queued") === "queued" && !r.sent);
+  const orderValues = await clientOrderValues(job.designerId, queue.map((r) => r.clientId));
+  const tier = await tierWindow(now);
+
+  const run: CloudBroadcastRun = { sent: 0, failed: 0, complete: false };
+  let attempts = 0;
+  for (const recipient of queue) {
+    if (attempts >= BATCH_SIZE) {
+      run.resumeAt = new Date();
+      run.reason = "batch";
+      break;
+    }
+    const phone = cleanPhone(recipient.phone);
+    if (!tier.contacted.has(phone) && tier.contacted.size >= tier.limit) {
+      run.resumeAt = tier.resetsAt;
+      run.reason = "tier";
+      break;
+    }
+
+    const order = orderValues.get(String(recipient.clientId));
+    const values: BroadcastValues = {
+      name: recipient.name,
+      first_name: recipient.name.split(" ")[0] || recipient.name,
+      business,
+      balance: formatNaira(order?.balance || 0),
+      order_title: order?.orderTitle,
+    };
+    values.message = renderBroadcastText(job.message, values);
+
+    if (template.params.includes("balance") && !order?.balance) {
+      await failRecipient(jobId, recipient, "Skipped — no outstanding balance");
+      run.failed++;
+      continue;
+    }
+    if (template.params.includes("order_title") && !order?.orderTitle) {
+      await failRecipient(jobId, recipient, "Skipped — no orders yet");
+      run.failed++;
+      continue;
+    }
+
+    if (attempts > 0) await new Promise((r) => setTimeout(r, SEND_INTERVAL_MS));
+    attempts++;
+    const bodyParams = template.params.map((p) => templateParam(values[p] || ""));
+    const preview = templatePreview(template, values);
+    const result = await sendTemplate(recipient.phone, template.name, {
+      language: template.language,
+      bodyParams,
+      designerId: String(job.designerId),
+      preview,
+    });
+
+    if (result.ok) {
+      await BroadcastJob.updateOne(
+        { _id: jobId, "recipients._id": recipient._id },
+        {
+          $set: {
+            "recipients.$.status": "sent",
+            "recipients.$.sent": true,
+            "recipients.$.waMessageId": result.messageId,
+          },
+          $inc: { sentCount: 1 },
+        }
+      );
+      tier.contacted.add(phone);
+      run.sent++;
+      Outreach.create({
+        designerId: job.designerId,
+        clientId: recipient.clientId,
+        type: "whatsapp",
+        message: preview.slice(0, 280),
+      }).catch(() => { /* non-fatal */ });
+    } else if (result.code !== undefined && THROTTLE_CODES.includes(result.code)) {
+      run.resumeAt = new Date(Date.now() + THROTTLED_RETRY_MS);
+      run.reason = "throttled";
+      break;
+    } else {
+      await failRecipient(jobId, recipient, result.error || "Send failed");
+      run.failed++;
+    }
+  }
+
+  if (!run.resumeAt) {
+    await BroadcastJob.updateOne(
+      { _id: jobId, status: "running" },
+      { $set: { status: "complete", completedAt: new Date() } }
+    );
+    run.complete = true;
+  }
+  return run;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Receipts                                                                    */
+/* -------------------------------------------------------------------------- */
+
+const RECIPIENT_RANK: Record<BroadcastRecipientStatus, number> = {
+  queued: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  failed: 4,
+};
+
+/**
+ * Move a broadcast recipient along from a webhook receipt — forwards only,
+ * like WhatsAppMessage. A late failure takes the recipient out of
+ * sentCount and into errorList.
+ */
+export async function applyBroadcastReceipt(update: StatusUpdate): Promise<void> {
+  const lower = (Object.keys(RECIPIENT_RANK) as BroadcastRecipientStatus[]).filter(
+    (s) => s !== "queued" && RECIPIENT_RANK[s] < RECIPIENT_RANK[update.status]
+  );
+  const failed = update.status === "failed";
+  const error = update.error || "Message could not be delivered";
+
+  const before = await BroadcastJob.findOneAndUpdate(
+    { recipients: { $elemMatch: { waMessageId: update.id, status: { $in: lower } } } },
+    {
+      $set: {
+        "recipients.$.status": update.status,
+        ...(failed ? { "recipients.$.error": error } : {}),
+      },
+      ...(failed ? { $inc: { sentCount: -1, failedCount: 1 } } : {}),
+    }
+  ).select("recipients.waMessageId recipients.clientId");
+  if (!before || !failed) return;
+
+  const recipient = before.recipients.find((r) => r.waMessageId === update.id);
+  if (recipient) {
+    await BroadcastJob.updateOne(
+      { _id: before._id },
+      { $push: { errorList: { clientId: recipient.clientId, error } } }
+    );
+  }
+}
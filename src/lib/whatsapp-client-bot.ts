@@ -0,0 +1,442 @@
+/* -------------------------------------------------------------------------- */
+/*  WhatsApp bot — client self-service                                         */
+/*                                                                              */
+/*  Clients message the same number designers use. A phone that belongs to  */
+/*  no designer is looked up among every designer's clients, and the bot    */
+/*  answers the usual questions — "is my dress ready?", "how much do I     */
+/*  owe?", "when is it due?" — from what the client portal shows            */
+/*  (lib/client-portal). It can send their portal, payment and scan links.  */
+/*  Anything it can't answer is handed to the designer as a notification    */
+/*  with a one-tap WhatsApp reply link.                                      */
+/*                                                                              */
+/*  A client of two designers gets answers for both; links and hand-offs    */
+/*  ask which designer first. State (language, that question) lives in     */
+/*  models/bot-session like the designer side.                              */
+/* -------------------------------------------------------------------------- */
+
+import type { Types } from "mongoose";
+import { Client } from "@/lib/models/client";
+import { Designer } from "@/lib/models/designer";
+import { Order } from "@/lib/models/order";
+import { PaymentLink } from "@/lib/models/payment-link";
+import { ScanSession } from "@/lib/models/scan-session";
+import { Notification } from "@/lib/models/notification";
+import { BotSession, type BotLanguage, type IBotPending } from "@/lib/models/bot-session";
+import { createPaymentLinkRecord, createScanSessionRecord } from "@/lib/record-writes";
+import { ensureShareCode, portalOrderFilter, portalPaymentSummary, portalUrl } from "@/lib/client-portal";
+import { loadWorkflow } from "@/lib/designer-workflow";
+import { getStatusLabel } from "@/lib/order-transitions";
+import { detectLanguage } from "@/lib/whatsapp-bot";
+import { cleanPhone, phoneKey } from "@/lib/whatsapp";
+import { bestMatches } from "@/lib/fuzzy-match";
+import { APP_URL } from "@/lib/constants";
+
+/** A client record the phone belongs to, with its designer's name */
+export interface ClientAccount {
+  clientId: string;
+  designerId: string;
+  name: string;
+  phone: string;
+  business: string;
+}
+
+type ClientIntent = "menu" | "status" | "balance" | "due" | "portal" | "pay" | "scan" | "human";
+
+interface ClientBotContext {
+  accounts: ClientAccount[];
+  lang: BotLanguage;
+}
+
+interface ClientBotReply {
+  text: string;
+  pending?: IBotPending;
+}
+
+interface ClientOrder {
+  _id: Types.ObjectId;
+  title: string;
+  status: string;
+  dueDate?: Date;
+  price?: number;
+  currency?: string;
+  depositPaid?: number;
+  paymentStatus?: string;
+}
+
+/** How long "which designer?" stays open */
+const PENDING_TTL_MS = 10 * 60 * 1000;
+/** Payment links sent in one reply at most */
+const MAX_PAY_LINKS = 5;
+
+/** Checked in order — "when will my dress be ready" is a due-date question */
+const INTENT_PATTERNS: { intent: ClientIntent; pattern: RegExp }[] = [
+  { intent: "human", pattern: /\b(designer|tailor|human|person|agent|talk to|speak to|call me)\b/i },
+  { intent: "balance", pattern: /\b(owe|owing|balance|how much|remain|outstanding)\b/i },
+  { intent: "pay", pattern: /\b(pay|payment|account (number|details)|transfer)\b/i },
+  { intent: "scan", pattern: /\b(scan|measure me|take my measurement)\b/i },
+  { intent: "due", pattern: /\b(when|due|date|pick ?up|collect|deliver(y)?)\b/i },
+  { intent: "status", pattern: /\b(ready|status|done|finish(ed)?|how far|progress)\b/i },
+  { intent: "portal", pattern: /\b(portal|track|measurements?|my orders?)\b/i },
+  { intent: "menu", pattern: /^(hi|hello|hey|help|menu|start|good (morning|afternoon|evening))\b/i },
+];
+
+/** The numbered menu, in order */
+const MENU: ClientIntent[] = ["status", "balance", "due", "portal", "pay", "scan", "human"];
+
+export function parseClientIntent(text: string): ClientIntent | null {
+  const body = text.trim();
+  if (/^\d$/.test(body)) return MENU[Number(body) - 1] || null;
+  return INTENT_PATTERNS.find(({ pattern }) => pattern.test(body))?.intent || null;
+}
+
+/* ---- Formatting ---- */
+
+function say(lang: BotLanguage, english: string, pidgin: string): string {
+  return lang === "pidgin" ? pidgin : english;
+}
+
+function formatNaira(n: number) {
+  return `₦${n.toLocaleString("en-NG")}`;
+}
+
+function shortDate(date: Date | string) {
+  return new Date(date).toLocaleDateString("en-NG", { day: "numeric", month: "short", timeZone: "Africa/Lagos" });
+}
+
+function firstName(name: string) {
+  return name.split(" ")[0] || name;
+}
+
+function menuText(ctx: ClientBotContext) {
+  const business = ctx.accounts.length === 1 ? ctx.accounts[0].business : "your designers";
+  return say(
+    ctx.lang,
+    `Hi ${firstName(ctx.accounts[0].name)}! 👋 I'm the Stitcha assistant for ${business}.\n\n` +
+      `Reply with a number:\n1. Order status\n2. What I owe\n3. Due dates\n4. My portal (orders + measurements)\n` +
+      `5. Payment link\n6. Measurement scan link\n7. Talk to my designer\n\n` +
+      `Or just ask — "is my dress ready?" Reply *PIDGIN* if you prefer.`,
+    `Hello ${firstName(ctx.accounts[0].name)}! 👋 Na me be Stitcha assistant for ${business}.\n\n` +
+      `Reply with number:\n1. How my order dey\n2. How much I owe\n3. When e go ready\n4. My portal (orders + measurements)\n` +
+      `5. Payment link\n6. Measurement scan link\n7. Make I talk to my designer\n\n` +
+      `Or just ask — "my cloth don ready?" Reply *ENGLISH* if you prefer.`,
+  );
+}
+
+/* ---- Lookups ---- */
+
+/** Every client record, across designers, whose phone is this number */
+export async function findClientAccounts(phone: string): Promise<ClientAccount[]> {
+  // Stored numbers vary — "0803…", "+234 803…", "0803-…" — so compare the
+  // normalised key the Client model keeps alongside them
+  const key = phoneKey(phone);
+  if (!key) return [];
+  const clients = (await Client.find({ phoneKey: key })
+    .select("name phone designerId")
+    .lean()) as unknown as { _id: Types.ObjectId; name: string; phone: string; designerId: Types.ObjectId }[];
+  if (!clients.length) return [];
+
+  const designers = (await Designer.find({ _id: { $in: clients.map((c) => c.designerId) } })
+    .select("name businessName")
+    .lean()) as unknown as { _id: Types.ObjectId; name?: string; businessName?: string }[];
+  const business = new Map(designers.map((d) => [String(d._id), d.businessName || d.name || "your designer"]));
+
+  return clients
+    .filter((c) => business.has(String(c.designerId)))
+    .map((c) => ({
+      clientId: String(c._id),
+      designerId: String(c.designerId),
+      name: c.name,
+      phone: c.phone,
+      business: business.get(String(c.designerId)) as string,
+    }));
+}
+
+async function loadOrders(account: ClientAccount): Promise<ClientOrder[]> {
+  return (await Order.find(portalOrderFilter(account.clientId))
+    .select("title status dueDate price currency depositPaid paymentStatus")
+    .sort({ dueDate: 1, createdAt: -1 })
+    .lean()) as unknown as ClientOrder[];
+}
+
+/** Heading per designer, only when there's more than one */
+function section(ctx: ClientBotContext, account: ClientAccount, lines: string[]) {
+  return ctx.accounts.length > 1 ? `*${account.business}*\n${lines.join("\n")}` : lines.join("\n");
+}
+
+/* ---- Answers ---- */
+
+async function answerStatus(ctx: ClientBotContext): Promise<ClientBotReply> {
+  const sections: string[] = [];
+  for (const account of ctx.accounts) {
+    const [orders, workflow] = await Promise.all([loadOrders(account), loadWorkflow(account.designerId)]);
+    const open = orders.filter((o) => o.status !== "delivered");
+    if (!open.length) continue;
+    sections.push(
+      section(
+        ctx,
+        account,
+        open.map((o) => {
+          const stage = workflow.stages.find((s) => s.key === o.status);
+          const custom = ctx.lang === "pidgin" ? stage?.clientMessage?.pidgin || stage?.clientMessage?.en : stage?.clientMessage?.en;
+          const where = o.status === "ready"
+            ? say(ctx.lang, "READY for pickup! 🎉", "DON READY! Come collect am 🎉")
+            : custom || getStatusLabel(o.status, workflow);
+          const due = o.dueDate && o.status !== "ready" ? ` (due ${shortDate(o.dueDate)})` : "";
+          return `• ${o.title} — ${where}${due}`;
+        }),
+      ),
+    );
+  }
+  if (!sections.length) {
+    return { text: say(ctx.lang, "You have no orders in progress right now.", "You no get any order wey dey run now.") };
+  }
+  return { text: `*Your orders* 🧵\n\n${sections.join("\n\n")}` };
+}
+
+async function answerBalance(ctx: ClientBotContext): Promise<ClientBotReply> {
+  const sections: string[] = [];
+  let total = 0;
+  for (const account of ctx.accounts) {
+    const owing = (await loadOrders(account))
+      .map((o) => ({ order: o, summary: portalPaymentSummary(o) }))
+      .filter(({ summary }) => summary.balance > 0);
+    if (!owing.length) continue;
+    total += owing.reduce((sum, { summary }) => sum + summary.balance, 0);
+    sections.push(
+      section(
+        ctx,
+        account,
+        owing.map(({ order, summary }) => `• ${order.title} — ${formatNaira(summary.balance)} ${say(ctx.lang, `left of ${formatNaira(summary.price)}`, `remain from ${formatNaira(summary.price)}`)}`),
+      ),
+    );
+  }
+  if (!sections.length) {
+    return { text: say(ctx.lang, "You don't owe anything — all paid up! ✅", "You no owe anything — you don pay finish! ✅") };
+  }
+  return {
+    text:
+      `${say(ctx.lang, "*What you owe*", "*Wetin remain*")}: ${formatNaira(total)}\n\n${sections.join("\n\n")}\n\n` +
+      say(ctx.lang, "Reply 5 for a payment link.", "Reply 5 make I send payment link."),
+  };
+}
+
+async function answerDue(ctx: ClientBotContext): Promise<ClientBotReply> {
+  const sections: string[] = [];
+  for (const account of ctx.accounts) {
+    const [orders, workflow] = await Promise.all([loadOrders(account), loadWorkflow(account.designerId)]);
+    const open = orders.filter((o) => o.status !== "delivered");
+    if (!open.length) continue;
+    sections.push(
+      section(
+        ctx,
+        account,
+        open.map((o) => {
+          const when = o.status === "ready"
+            ? say(ctx.lang, "ready now 🎉", "e don ready 🎉")
+            : o.dueDate
+            ? say(ctx.lang, `due ${shortDate(o.dueDate)}`, `go ready ${shortDate(o.dueDate)}`)
+            : say(ctx.lang, "no date set yet", "dem never set date");
+          return `• ${o.title} — ${when} · ${getStatusLabel(o.status, workflow)}`;
+        }),
+      ),
+    );
+  }
+  if (!sections.length) {
+    return { text: say(ctx.lang, "You have no orders in progress right now.", "You no get any order wey dey run now.") };
+  }
+  return { text: `${say(ctx.lang, "*Due dates* 📅", "*When e go ready* 📅")}\n\n${sections.join("\n\n")}` };
+}
+
+async function answerPortal(ctx: ClientBotContext, account: ClientAccount): Promise<ClientBotReply> {
+  const url = portalUrl(await ensureShareCode(account.clientId));
+  return {
+    text: say(
+      ctx.lang,
+      `Here's your portal with ${account.business} — your orders, payments and measurements, any time:\n${url}`,
+      `See your portal with ${account.business} — your orders, payments and measurements, anytime:\n${url}`,
+    ),
+  };
+}
+
+async function answerPay(ctx: ClientBotContext, account: ClientAccount): Promise<ClientBotReply> {
+  const owing = (await loadOrders(account))
+    .map((o) => ({ order: o, balance: portalPaymentSummary(o).balance }))
+    .filter(({ balance }) => balance > 0)
+    .slice(0, MAX_PAY_LINKS);
+  if (!owing.length) {
+    return {
+      text: say(ctx.lang, `You have no balance with ${account.business}. ✅`, `You no get balance with ${account.business}. ✅`),
+    };
+  }
+
+  const lines: string[] = [];
+  for (const { order, balance } of owing) {
+    // Re-send the open link for this exact balance rather than piling up new ones
+    let link = await PaymentLink.findOne({
+      designerId: account.designerId,
+      orderId: order._id,
+      status: "pending",
+      amount: balance,
+    }).select("code");
+    if (!link) {
+      const result = await createPaymentLinkRecord(account.designerId, String(order._id), { label: "Balance", amount: balance });
+      if (!result.ok) {
+        // No bank account on file — the designer has to send details
+        return handOff(ctx, account, "Asked for payment details (the bot couldn't create a payment link).");
+      }
+      link = result.doc;
+    }
+    lines.push(`• ${order.title} — ${formatNaira(balance)}\n  ${APP_URL}/pay/${link.code}`);
+  }
+  return {
+    text:
+      say(ctx.lang, `Pay ${account.business} directly — each link shows their account details:`, `Pay ${account.business} straight — each link get their account details:`) +
+      `\n\n${lines.join("\n")}\n\n` +
+      say(ctx.lang, "Tap \"I've paid\" on the page after your transfer. 🙏", "After you transfer, tap \"I've paid\" for the page. 🙏"),
+  };
+}
+
+async function answerScan(ctx: ClientBotContext, account: ClientAccount): Promise<ClientBotReply> {
+  // An unused link is still good — don't spend another scan on the designer's plan
+  let session = await ScanSession.findOne({
+    clientId: account.clientId,
+    designerId: account.designerId,
+    status: "pending",
+    expiresAt: { $gt: new Date() },
+  }).select("linkCode");
+  if (!session) {
+    // Never spend the designer's paid scan credits on a client's say-so
+    const result = await createScanSessionRecord(account.designerId, account.clientId, { spendCredit: false });
+    if (!result.ok) {
+      return handOff(
+        ctx,
+        account,
+        result.extra?.needsCredit
+          ? "Asked for a measurement scan link. Your plan's scans are used up, so the bot didn't spend a scan credit — send one if you want to."
+          : "Asked for a measurement scan link (the bot couldn't create one).",
+      );
+    }
+    session = result.doc;
+  }
+  return {
+    text: say(
+      ctx.lang,
+      `📏 Here's your measurement link for ${account.business} — two quick photos, under 2 minutes. It expires in 24 hours:\n${APP_URL}/scan/${session.linkCode}`,
+      `📏 See your measurement link for ${account.business} — two quick photos, e no reach 2 minutes. E go expire in 24 hours:\n${APP_URL}/scan/${session.linkCode}`,
+    ),
+  };
+}
+
+/** Pass the conversation to the designer — a notification with a reply link */
+async function handOff(ctx: ClientBotContext, account: ClientAccount, note: string): Promise<ClientBotReply> {
+  await Notification.create({
+    designerId: account.designerId,
+    type: "system",
+    title: `💬 ${account.name} needs you on WhatsApp`,
+    message: `${note} Tap to reply.`,
+    link: `https://wa.me/${cleanPhone(account.phone)}`,
+  }).catch(() => { /* non-fatal */ });
+
+  return {
+    text: say(
+      ctx.lang,
+      `I've passed your message to ${account.business} — they'll reply to you here on WhatsApp shortly. 🙏`,
+      `I don send your message give ${account.business} — dem go reply you for WhatsApp soon. 🙏`,
+    ),
+  };
+}
+
+/* ---- Routing ---- */
+
+type AccountIntent = "portal" | "pay" | "scan" | "human";
+type AccountAnswer = (ctx: ClientBotContext, account: ClientAccount, note: string) => Promise<ClientBotReply>;
+
+/** Answers that need one designer; with several, the client picks first */
+const PER_ACCOUNT: Record<AccountIntent, AccountAnswer> = {
+  portal: answerPortal,
+  pay: answerPay,
+  scan: answerScan,
+  human: handOff,
+};
+
+async function answer(
+  ctx: ClientBotContext,
+  intent: ClientIntent | null,
+  message: string,
+  clientId?: string,
+): Promise<ClientBotReply> {
+  if (intent === "menu") return { text: menuText(ctx) };
+  if (intent === "status") return answerStatus(ctx);
+  if (intent === "balance") return answerBalance(ctx);
+  if (intent === "due") return answerDue(ctx);
+
+  // Anything unrecognised goes to the designer
+  const action: AccountIntent = intent || "human";
+  const note = clientId
+    ? message
+    : !intent
+    ? `They asked: "${message.slice(0, 300)}" — the bot couldn't answer.`
+    : /^\d$/.test(message)
+    ? "Asked to talk to you."
+    : `Asked to talk to you: "${message.slice(0, 300)}"`;
+  const account = clientId
+    ? ctx.accounts.find((a) => a.clientId === clientId)
+    : ctx.accounts.length === 1
+    ? ctx.accounts[0]
+    : undefined;
+  if (account) return PER_ACCOUNT[action](ctx, account, note);
+
+  const options = ctx.accounts.map((a) => ({ id: a.clientId, label: a.business }));
+  return {
+    text:
+      say(ctx.lang, "Which designer is this for?", "Na for which designer?") +
+      `\n\n${options.map((o, i) => `${i + 1}. ${o.label}`).join("\n")}\n\n` +
+      say(ctx.lang, "Reply with a number.", "Reply with the number."),
+    pending: { action, args: { message: note }, field: "clientId", options },
+  };
+}
+
+/**
+ * Reply to one message from a client's phone. `accounts` comes from
+ * findClientAccounts and is never empty.
+ */
+export async function runClientBot(phone: string, text: string, accounts: ClientAccount[]): Promise<string> {
+  const session = await BotSession.findOneAndUpdate(
+    { phone: cleanPhone(phone) },
+    { $set: { lastMessageAt: new Date() } },
+    { upsert: true, new: true, setDefaultsOnInsert: true },
+  );
+
+  const body = text.trim();
+  const lower = body.toLowerCase();
+  const ctx: ClientBotContext = { accounts, lang: detectLanguage(body) || session.language || "english" };
+
+  const pending =
+    session.pending && session.pendingExpiresAt && session.pendingExpiresAt.getTime() > Date.now()
+      ? session.pending
+      : null;
+
+  let reply: ClientBotReply;
+  if (lower === "english" || lower === "pidgin") {
+    reply = { text: menuText(ctx) };
+  } else if (pending && pending.field === "clientId") {
+    const byName = bestMatches(body, pending.options, (o) => [o.label]);
+    const picked = /^\d+$/.test(lower)
+      ? pending.options[Number(lower) - 1]
+      : byName.length === 1
+      ? byName[0].item
+      : undefined;
+    reply = picked
+      ? await answer(ctx, pending.action as ClientIntent, String(pending.args.message || ""), picked.id)
+      : await answer(ctx, parseClientIntent(body), body);
+  } else {
+    reply = await answer(ctx, parseClientIntent(body), body);
+  }
+
+  session.language = ctx.lang;
+  session.pending = reply.pending || null;
+  session.pendingExpiresAt = reply.pending ? new Date(Date.now() + PENDING_TTL_MS) : null;
+  await session.save();
+
+  return reply.text;
+}
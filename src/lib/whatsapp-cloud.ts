@@ -0,0 +1,339 @@
+/* -------------------------------------------------------------------------- */
+/*  WhatsApp Cloud API client                                                  */
+/*                                                                              */
+/*  Sends through Meta's Graph API from Stitcha's own business number —      */
+/*  the wa.me links in lib/whatsapp open the designer's WhatsApp instead.    */
+/*    • session replies (free-form text) — only inside the 24h window after  */
+/*      the other person last messaged us, which is always true for bot     */
+/*      replies                                                               */
+/*    • approved templates — anything else                                   */
+/*  Webhooks are signed: X-Hub-Signature-256 is an HMAC-SHA256 of the raw   */
+/*  body with the app secret. Delivery / read receipts arrive on the same   */
+/*  webhook and move the WhatsAppMessage row along.                          */
+/*                                                                              */
+/*  Env:                                                                        */
+/*    WHATSAPP_ACCESS_TOKEN     — system-user token                           */
+/*    WHATSAPP_PHONE_NUMBER_ID  — the sending number's id                    */
+/*    WHATSAPP_APP_SECRET       — signs webhooks                              */
+/*    WHATSAPP_GRAPH_URL        — default https://graph.facebook.com; in dev */
+/*                                `npm run whatsapp:mock`, then point this   */
+/*                                at http://localhost:4010                    */
+/*    WHATSAPP_API_VERSION      — default v21.0                               */
+/*  Returns { ok, messageId, error } like lib/sms.                            */
+/* -------------------------------------------------------------------------- */
+
+import crypto from "crypto";
+import { WhatsAppMessage, type WhatsAppMessageStatus } from "@/lib/models/whatsapp-message";
+import { cleanPhone } from "@/lib/whatsapp";
+
+export interface CloudSendResult {
+  ok: boolean;
+  messageId?: string;
+  error?: string;
+  /** Graph error code, e.g. 131047 (outside the 24h window) */
+  code?: number;
+}
+
+function graphUrl(path: string): string {
+  const base = (process.env.WHATSAPP_GRAPH_URL || "https://graph.facebook.com").replace(/\/+$/, "");
+  const version = process.env.WHATSAPP_API_VERSION || "v21.0";
+  return `${base}/${version}/${path}`;
+}
+
+export function isCloudApiConfigured(): boolean {
+  return !!(process.env.WHATSAPP_ACCESS_TOKEN && process.env.WHATSAPP_PHONE_NUMBER_ID);
+}
+
+/** Retried once — Graph 5xx / rate limits are usually momentary */
+const RETRY_DELAY_MS = 800;
+
+async function graphPost(payload: Record<string, unknown>): Promise<CloudSendResult> {
+  const token = process.env.WHATSAPP_ACCESS_TOKEN;
+  const phoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID;
+  if (!token || !phoneNumberId) {
+    return { ok: false, error: "WhatsApp not configured (missing WHATSAPP_ACCESS_TOKEN / WHATSAPP_PHONE_NUMBER_ID)" };
+  }
+
+  let last: CloudSendResult = { ok: false, error: "WhatsApp send failed" };
+  for (let attempt = 0; attempt < 2; attempt++) {
+    if (attempt > 0) await new Promise((r) => setTimeout(r, RETRY_DELAY_MS));
+    try {
+      const res = await fetch(graphUrl(`${phoneNumberId}/messages`), {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ messaging_product: "whatsapp", ...payload }),
+      });
+      const json = await res.json().catch(() => ({}));
+      // Sends answer with the new message id, read receipts with { success }
+      if (res.ok && (json.messages?.[0]?.id || json.success)) {
+        return { ok: true, messageId: json.messages?.[0]?.id };
+      }
+      last = {
+        ok: false,
+        error: json.error?.error_data?.details || json.error?.message || `Graph API responded ${res.status}`,
+        code: json.error?.code,
+      };
+      if (res.status !== 429 && res.status < 500) return last;
+    } catch (err) {
+      last = { ok: false, error: err instanceof Error ? err.message : "WhatsApp send failed" };
+    }
+  }
+  return last;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Sending                                                                     */
+/* -------------------------------------------------------------------------- */
+
+async function logOutbound(
+  result: CloudSendResult,
+  row: { designerId?: string; phone: string; kind: "text" | "template"; body?: string; template?: string }
+): Promise<void> {
+  if (!result.ok || !result.messageId) return;
+  await WhatsAppMessage.create({
+    ...row,
+    direction: "out",
+    waMessageId: result.messageId,
+    status: "sent",
+  }).catch((err: unknown) => console.error("WhatsApp outbound log failed:", err));
+}
+
+/** Free-form reply — only delivered inside the customer-service window */
+export async function sendText(
+  phone: string,
+  body: string,
+  opts: { designerId?: string; replyTo?: string; previewUrl?: boolean } = {}
+): Promise<CloudSendResult> {
+  const to = cleanPhone(phone);
+  const result = await graphPost({
+    recipient_type: "individual",
+    to,
+    type: "text",
+    text: { body: body.slice(0, 4096), preview_url: opts.previewUrl ?? false },
+    ...(opts.replyTo ? { context: { message_id: opts.replyTo } } : {}),
+  });
+  await logOutbound(result, { designerId: opts.designerId, phone: to, kind: "text", body });
+  return result;
+}
+
+/** Button parameter for templates with a dynamic URL button */
+export interface TemplateUrlButton {
+  index: number;
+  /** Appended to the button's base URL */
+  suffix: string;
+}
+
+/**
+ * Approved template message. `bodyParams` fill {{1}}, {{2}}… in order;
+ * `headerParams` likewise for a text header.
+ */
+export async function sendTemplate(
+  phone: string,
+  template: string,
+  opts: {
+    language?: string;
+    bodyParams?: string[];
+    headerParams?: string[];
+    urlButtons?: TemplateUrlButton[];
+    designerId?: string;
+    /** Rendered text kept on the message log */
+    preview?: string;
+  } = {}
+): Promise<CloudSendResult> {
+  const to = cleanPhone(phone);
+  const text = (values: string[]) => values.map((value) => ({ type: "text", text: value }));
+  const components: Record<string, unknown>[] = [];
+  if (opts.headerParams?.length) components.push({ type: "header", parameters: text(opts.headerParams) });
+  if (opts.bodyParams?.length) components.push({ type: "body", parameters: text(opts.bodyParams) });
+  for (const button of opts.urlButtons || []) {
+    components.push({
+      type: "button",
+      sub_type: "url",
+      index: String(button.index),
+      parameters: [{ type: "text", text: button.suffix }],
+    });
+  }
+
+  const result = await graphPost({
+    recipient_type: "individual",
+    to,
+    type: "template",
+    template: {
+      name: template,
+      language: { code: opts.language || "en" },
+      ...(components.length ? { components } : {}),
+    },
+  });
+  await logOutbound(result, {
+    designerId: opts.designerId,
+    phone: to,
+    kind: "template",
+    template,
+    body: opts.preview,
+  });
+  return result;
+}
+
+/** Blue ticks on an inbound message */
+export async function markAsRead(messageId: string): Promise<CloudSendResult> {
+  return graphPost({ status: "read", message_id: messageId });
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Webhooks                                                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Check X-Hub-Signature-256 against the raw request body. Without an app
+ * secret, unsigned webhooks are only accepted outside production.
+ */
+export function verifyWebhookSignature(rawBody: string, header: string | null): boolean {
+  const secret = process.env.WHATSAPP_APP_SECRET;
+  if (!secret) return process.env.NODE_ENV !== "production";
+  if (!header?.startsWith("sha256=")) return false;
+
+  const expected = crypto.createHmac("sha256", secret).update(rawBody, "utf8").digest("hex");
+  const given = header.slice("sha256=".length);
+  if (!/^[0-9a-f]{64}$/i.test(given)) return false;
+  return crypto.timingSafeEqual(Buffer.from(given, "hex"), Buffer.from(expected, "hex"));
+}
+
+export interface InboundMessage {
+  id: string;
+  from: string;
+  /** Text, or the tapped button / list row title */
+  text: string;
+  /** Payload id of a tapped button / list row */
+  replyId?: string;
+  kind: "text" | "interactive" | "other";
+  profileName?: string;
+  timestamp: Date;
+}
+
+export interface StatusUpdate {
+  id: string;
+  status: Exclude<WhatsAppMessageStatus, "received">;
+  recipient: string;
+  timestamp: Date;
+  error?: string;
+}
+
+interface WebhookMessage {
+  id: string;
+  from: string;
+  timestamp?: string;
+  type?: string;
+  text?: { body?: string };
+  button?: { text?: string; payload?: string };
+  interactive?: {
+    button_reply?: { id?: string; title?: string };
+    list_reply?: { id?: string; title?: string };
+  };
+}
+
+interface WebhookStatus {
+  id: string;
+  status: string;
+  recipient_id: string;
+  timestamp?: string;
+  errors?: { code?: number; title?: string; message?: string; error_data?: { details?: string } }[];
+}
+
+function fromUnix(ts?: string): Date {
+  const n = Number(ts);
+  return Number.isFinite(n) && n > 0 ? new Date(n * 1000) : new Date();
+}
+
+/** Flatten a Cloud API webhook into inbound messages and receipts */
+export function parseWebhook(body: unknown): { messages: InboundMessage[]; statuses: StatusUpdate[] } {
+  const messages: InboundMessage[] = [];
+  const statuses: StatusUpdate[] = [];
+  const entries = (body as { entry?: { changes?: { field?: string; value?: Record<string, unknown> }[] }[] })?.entry || [];
+
+  for (const entry of entries) {
+    for (const change of entry.changes || []) {
+      const value = change.value || {};
+      const contacts = (value.contacts as { wa_id?: string; profile?: { name?: string } }[]) || [];
+
+      for (const msg of (value.messages as WebhookMessage[]) || []) {
+        const reply = msg.interactive?.button_reply || msg.interactive?.list_reply;
+        const text = msg.text?.body || reply?.title || msg.button?.text || "";
+        messages.push({
+          id: msg.id,
+          from: msg.from,
+          text,
+          replyId: reply?.id || msg.button?.payload,
+          kind: msg.type === "text" ? "text" : reply || msg.button ? "interactive" : "other",
+          profileName: contacts.find((c) => c.wa_id === msg.from)?.profile?.name,
+          timestamp: fromUnix(msg.timestamp),
+        });
+      }
+
+      for (const s of (value.statuses as WebhookStatus[]) || []) {
+        if (!["sent", "delivered", "read", "failed"].includes(s.status)) continue;
+        const err = s.errors?.[0];
+        statuses.push({
+          id: s.id,
+          status: s.status as StatusUpdate["status"],
+          recipient: s.recipient_id,
+          timestamp: fromUnix(s.timestamp),
+          error: err ? err.error_data?.details || err.message || err.title : undefined,
+        });
+      }
+    }
+  }
+  return { messages, statuses };
+}
+
+/** Receipts can arrive out of order — never move a message backwards */
+const STATUS_RANK: Record<WhatsAppMessageStatus, number> = {
+  received: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  failed: 4,
+};
+
+export async function applyStatusUpdate(update: StatusUpdate): Promise<void> {
+  const lower = (Object.keys(STATUS_RANK) as WhatsAppMessageStatus[]).filter(
+    (s) => STATUS_RANK[s] < STATUS_RANK[update.status]
+  );
+  const stamp =
+    update.status === "delivered"
+      ? { deliveredAt: update.timestamp }
+      : update.status === "read"
+      ? { readAt: update.timestamp }
+      : update.status === "failed"
+      ? { failedAt: update.timestamp, error: update.error }
+      : {};
+
+  await WhatsAppMessage.updateOne(
+    { waMessageId: update.id, direction: "out", status: { $in: lower } },
+    { $set: { status: update.status, ...stamp } }
+  );
+}
+
+/**
+ * Record an inbound message. False when it was already recorded — a
+ * webhook redelivery that must not be acted on again.
+ */
+export async function recordInbound(message: InboundMessage, designerId?: string): Promise<boolean> {
+  try {
+    await WhatsAppMessage.create({
+      designerId,
+      direction: "in",
+      waMessageId: message.id,
+      phone: message.from,
+      kind: message.kind,
+      body: message.text,
+      status: "received",
+    });
+    return true;
+  } catch (err) {
+    if ((err as { code?: number }).code === 11000) return false;
+    throw err;
+  }
+}
@@ -5,11 +5,12 @@
 /* -------------------------------------------------------------------------- */
 
 import { MEASUREMENT_TYPES } from "@/lib/constants";
+import type { OrderWorkflow } from "@/lib/order-transitions";
 
 export type MessageLanguage = "english" | "pidgin";
 
-/* ---- Phone number formatting for wa.me links ---- */
-function cleanPhone(phone: string): string {
+/* ---- Phone number formatting for wa.me links (and the Cloud API) ---- */
+export function cleanPhone(phone: string): string {
   let cleaned = phone.replace(/[\s\-()]+/g, "");
   if (cleaned.startsWith("+")) cleaned = cleaned.slice(1);
   if (cleaned.startsWith("0")) cleaned = "234" + cleaned.slice(1);
@@ -17,6 +18,20 @@ function cleanPhone(phone: string): string {
   return cleaned;
 }
 
+/**
+ * Digits-only E.164 form of a stored number ("0803-123 4567" and
+ * "+234 803 123 4567" both give "2348031234567"), as WhatsApp sends it in
+ * webhooks. Numbers without a country code are taken as Nigerian. Used as
+ * Client.phoneKey so the client bot can look a sender up by equality.
+ */
+export function phoneKey(phone: string): string | undefined {
+  const digits = phone.replace(/\D/g, "");
+  if (digits.length < 10) return undefined;
+  if (phone.trim().startsWith("+") || digits.startsWith("234")) return digits;
+  if (digits.startsWith("0")) return "234" + digits.slice(1);
+  return digits.length === 10 ? "234" + digits : digits;
+}
+
 function waLink(phone: string, message: string): string {
   return `https://wa.me/${cleanPhone(phone)}?text=${encodeURIComponent(message)}`;
 }
@@ -53,7 +68,8 @@ export const whatsapp = {
     status: string,
     dueDate?: string,
     businessName?: string,
-    lang: MessageLanguage = "english"
+    lang: MessageLanguage = "english",
+    workflow?: OrderWorkflow
   ): string {
     const labels: Record<string, { en: string; pidgin: string }> = {
       pending: { en: "pending confirmation", pidgin: "dey wait for confirmation" },
@@ -65,7 +81,16 @@ export const whatsapp = {
       ready: { en: "READY for pickup! 🎉", pidgin: "DON READY! Come collect am! 🎉" },
       delivered: { en: "delivered successfully ✅", pidgin: "don deliver finish ✅" },
     };
-    const s = labels[status] || { en: status, pidgin: status };
+    // Designer-defined wording wins, then the built-in phrasing, then the stage label
+    const stage = workflow?.stages.find((st) => st.key === status);
+    const fallback = stage
+      ? { en: `at the ${stage.label.toLowerCase()} stage`, pidgin: `dey ${stage.label.toLowerCase()} stage` }
+      : { en: status, pidgin: status };
+    const base = labels[status] || fallback;
+    const s = {
+      en: stage?.clientMessage?.en || base.en,
+      pidgin: stage?.clientMessage?.pidgin || stage?.clientMessage?.en || base.pidgin,
+    };
     const due = dueDate
       ? `\nExpected ready date: ${new Date(dueDate).toLocaleDateString("en-NG", { day: "numeric", month: "long", year: "numeric" })}`
       : "";
@@ -333,5 +358,44 @@ export const whatsapp = {
         : `Hi ${clientName},\n\nHere's your payment request — *${label}: ${amtStr}*.\n\nPay directly using this link (shows my account details):\n${url}\n\nThank you! 🙏\n\n— ${businessName}`;
     return waLink(phone, msg);
   },
+
+  /** Aso-ebi guest invite — scan link for measurements, plus payment link if ready */
+  groupInvite(
+    phone: string,
+    guestName: string,
+    eventName: string,
+    garmentType: string,
+    scanUrl: string,
+    payUrl: string | undefined,
+    businessName: string,
+    lang: MessageLanguage = "english"
+  ): string {
+    const pay = payUrl
+      ? lang === "pidgin"
+        ? `\n\n💳 Pay for your cloth here:\n${payUrl}`
+        : `\n\n💳 To pay for your outfit:\n${payUrl}`
+      : "";
+    const msg =
+      lang === "pidgin"
+        ? `Hello ${guestName}! 🎉\n\nNa ${businessName} dey sew the *${garmentType}* for *${eventName}*.\n\nAbeg send your measurements with this link — just 2 quick photos:\n${scanUrl}\n\n⏰ Link go expire in 24 hours${pay}\n\nThank you! 🙏`
+        : `Hi ${guestName}! 🎉\n\n${businessName} is making the *${garmentType}* for *${eventName}*.\n\nPlease send your measurements using this link — it takes 2 quick photos:\n${scanUrl}\n\n⏰ Link expires in 24 hours${pay}\n\nThank you! 🙏`;
+    return waLink(phone, msg);
+  },
+
+  /** Share the aso-ebi progress page with the bride / celebrant / coordinator */
+  groupCoordinator(
+    phone: string,
+    coordinatorName: string,
+    eventName: string,
+    url: string,
+    businessName: string,
+    lang: MessageLanguage = "english"
+  ): string {
+    const msg =
+      lang === "pidgin"
+        ? `Hello ${coordinatorName}! 👋\n\nYou fit follow everybody for *${eventName}* here — who don measure, who don pay, and how much fabric we need:\n${url}\n\n— ${businessName}`
+        : `Hi ${coordinatorName},\n\nYou can follow the aso-ebi for *${eventName}* here — who has been measured, who has paid, and how much fabric we need:\n${url}\n\n— ${businessName}`;
+    return waLink(phone, msg);
+  },
 };
 
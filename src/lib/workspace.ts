@@ -0,0 +1,105 @@
+/* -------------------------------------------------------------------------- */
+/*  Workspace                                                                   */
+/*                                                                              */
+/*  Whose shop a signed-in request acts on. An owner works in their own      */
+/*  workspace; staff (Designer.teamOwnerId set) work in their owner's, with  */
+/*  their invited role. Every designer-scoped route should query by          */
+/*  `workspace.designerId`, never by the session user ID, and check          */
+/*  permissionDenied() before mutating anything.                             */
+/*                                                                              */
+/*  Staff fall back to their own workspace (as owner) when they switch to it */
+/*  (activeWorkspace: "own") or when the owner's plan no longer includes     */
+/*  team seats — their access comes back as soon as the owner renews.        */
+/*                                                                              */
+/*  Resolved from the database on every request, so removing a staff member */
+/*  or changing their role takes effect immediately, whatever their JWT says. */
+/* -------------------------------------------------------------------------- */
+
+import { NextResponse } from "next/server";
+import connectDB from "@/lib/db";
+import { Designer } from "@/lib/models/designer";
+import { TeamInvite } from "@/lib/models/team-invite";
+import { getEffectivePlan } from "@/lib/access-control";
+import { checkRolePermission, getTeamSeatLimit } from "@/lib/subscription";
+import type { DesignerRole } from "@/types";
+
+export interface Workspace {
+  /** Owner of the data this request reads and writes. */
+  designerId: string;
+  /** The signed-in account (differs from designerId for staff). */
+  userId: string;
+  /** Role within this workspace — "owner" in your own workspace. */
+  role: DesignerRole;
+  /** True while a staff member is working in their owner's workspace. */
+  isTeam: boolean;
+  /** Set for staff, even while they're in their own workspace. */
+  teamOwnerId?: string;
+}
+
+/**
+ * Resolve the workspace for a signed-in account. An unknown user ID resolves
+ * to itself so routes keep their existing "not found" handling.
+ */
+export async function getWorkspace(userId: string): Promise<Workspace> {
+  await connectDB();
+  const own: Workspace = { designerId: userId, userId, role: "owner", isTeam: false };
+
+  const user = await Designer.findById(userId).select("role teamOwnerId activeWorkspace").lean();
+  if (!user) return own;
+  if (user.role === "admin") return { ...own, role: "admin" };
+  if (!user.teamOwnerId) return own;
+
+  const teamOwnerId = String(user.teamOwnerId);
+  if (user.activeWorkspace === "own") return { ...own, teamOwnerId };
+
+  const owner = await Designer.findById(teamOwnerId).select("subscription subscriptionExpiry").lean();
+  if (!owner || getTeamSeatLimit(getEffectivePlan(owner)) === 0) return { ...own, teamOwnerId };
+
+  return {
+    designerId: teamOwnerId,
+    userId,
+    role: user.role === "owner" ? "apprentice" : user.role,
+    isTeam: true,
+    teamOwnerId,
+  };
+}
+
+/**
+ * 403 response when the workspace role lacks `permission`, otherwise null:
+ *
+ *   const denied = permissionDenied(workspace, "edit_order");
+ *   if (denied) return denied;
+ */
+export function permissionDenied(workspace: Workspace, permission: string): NextResponse | null {
+  const perm = checkRolePermission(workspace.role, permission);
+  if (perm.allowed) return null;
+  return NextResponse.json({ success: false, error: perm.message }, { status: 403 });
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Seats                                                                       */
+/* -------------------------------------------------------------------------- */
+
+export const TEAM_INVITE_TTL_DAYS = 7;
+
+export interface TeamSeats {
+  limit: number;
+  members: number;
+  pendingInvites: number;
+  /** members + pendingInvites — an unanswered invite holds a seat */
+  used: number;
+}
+
+export async function getTeamSeats(ownerId: string): Promise<TeamSeats> {
+  const [owner, members, pendingInvites] = await Promise.all([
+    Designer.findById(ownerId).select("subscription subscriptionExpiry").lean(),
+    Designer.countDocuments({ teamOwnerId: ownerId }),
+    TeamInvite.countDocuments({ ownerId, status: "pending", expiresAt: { $gt: new Date() } }),
+  ]);
+  return {
+    limit: getTeamSeatLimit(getEffectivePlan(owner)),
+    members,
+    pendingInvites,
+    used: members + pendingInvites,
+  };
+}
@@ -2,16 +2,17 @@ import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 import { getToken } from "next-auth/jwt";
 import {
-  checkRateLimit,
-  RATE_LIMIT_GENERAL,
-  RATE_LIMIT_AUTH,
-  RATE_LIMIT_ADMIN,
+  hitRateLimit,
+  rateLimitKey,
+  resolveRateLimitPolicy,
 } from "@/lib/rate-limit";
+import { DEVICE_COOKIE, REFERRAL_COOKIE } from "@/lib/constants";
 
 const protectedPaths = [
   "/dashboard",
   "/clients",
   "/orders",
+  "/inventory",
   "/onboarding",
   "/settings",
   "/finances",
@@ -32,38 +33,70 @@ function withSecurityHeaders(response: NextResponse): NextResponse {
   return response;
 }
 
+/**
+ * Page visits carry two cookies for the referral programme: the `?ref=`
+ * code (until signup uses it) and a random browser id the fraud guard
+ * compares between referrer and referee (see lib/referrals).
+ */
+function withVisitorCookies(request: NextRequest, response: NextResponse): NextResponse {
+  if (request.nextUrl.pathname.startsWith("/api/")) return response;
+
+  const ref = request.nextUrl.searchParams.get("ref")?.trim().toUpperCase();
+  if (ref && /^[A-Z0-9]{4,12}$/.test(ref)) {
+    response.cookies.set(REFERRAL_COOKIE, ref, {
+      maxAge: 30 * 24 * 60 * 60,
+      httpOnly: true,
+      sameSite: "lax",
+      path: "/",
+    });
+  }
+  if (!request.cookies.get(DEVICE_COOKIE)) {
+    response.cookies.set(DEVICE_COOKIE, crypto.randomUUID(), {
+      maxAge: 2 * 365 * 24 * 60 * 60,
+      httpOnly: true,
+      sameSite: "lax",
+      path: "/",
+    });
+  }
+  return response;
+}
+
 export default async function middleware(request: NextRequest) {
+  return withVisitorCookies(request, await route(request));
+}
+
+async function route(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
-  // Rate limiting for API routes
-  if (pathname.startsWith("/api/")) {
-    const ip =
-      request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
-      request.headers.get("x-real-ip") ||
-      "unknown";
-    const key = `${ip}:${pathname}`;
+  const token = await getToken({
+    req: request,
+    secret:
+      process.env.NEXTAUTH_SECRET ||
+      "stitcha-app-secret-key-2024-production-ready",
+  });
 
-    const isAuthRoute =
-      pathname.startsWith("/api/auth") ||
-      pathname.startsWith("/api/admin/auth");
-    const isAdminRoute = pathname.startsWith("/api/admin");
-    const config = isAuthRoute
-      ? RATE_LIMIT_AUTH
-      : isAdminRoute
-      ? RATE_LIMIT_ADMIN
-      : RATE_LIMIT_GENERAL;
+  // Rate limiting for API routes — policy per route, shared store (see lib/rate-limit)
+  if (pathname.startsWith("/api/")) {
+    const policy = resolveRateLimitPolicy(pathname, request.method);
+    if (policy) {
+      const ip =
+        request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+        request.headers.get("x-real-ip") ||
+        "unknown";
+      const key = rateLimitKey(policy, pathname, ip, token?.id as string | undefined);
 
-    const result = checkRateLimit(key, config);
-    if (!result.allowed) {
-      const res = NextResponse.json(
-        { success: false, error: "Too many requests. Please try again shortly." },
-        { status: 429 }
-      );
-      res.headers.set(
-        "Retry-After",
-        String(Math.ceil(result.retryAfterMs / 1000))
-      );
-      return withSecurityHeaders(res);
+      const result = await hitRateLimit(key, policy.config);
+      if (!result.allowed) {
+        const res = NextResponse.json(
+          { success: false, error: "Too many requests. Please try again shortly." },
+          { status: 429 }
+        );
+        res.headers.set(
+          "Retry-After",
+          String(Math.ceil(result.retryAfterMs / 1000))
+        );
+        return withSecurityHeaders(res);
+      }
     }
   }
 
@@ -72,13 +105,6 @@ export default async function middleware(request: NextRequest) {
     return withSecurityHeaders(NextResponse.next());
   }
 
-  const token = await getToken({
-    req: request,
-    secret:
-      process.env.NEXTAUTH_SECRET ||
-      "stitcha-app-secret-key-2024-production-ready",
-  });
-
   // Redirect authenticated users away from auth pages
   if (authPaths.some((path) => pathname.startsWith(path))) {
     if (token) {
@@ -107,9 +133,11 @@ export default async function middleware(request: NextRequest) {
 
 export const config = {
   matcher: [
+    "/",
     "/dashboard/:path*",
     "/clients/:path*",
     "/orders/:path*",
+    "/inventory/:path*",
     "/scan/:path*",
     "/scan",
     "/onboarding/:path*",
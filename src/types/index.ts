@@ -6,6 +6,16 @@ export interface LifetimeCounts {
   totalOrdersCreated: number;
 }
 
+export interface SubscriptionBilling {
+  interval: "monthly" | "annual";
+  autoRenew: boolean;
+  status: "active" | "past_due" | "cancelled";
+  nextPaymentDate?: string;
+  failedAttempts: number;
+  lastFailureAt?: string;
+  lastFailureReason?: string;
+}
+
 export interface Designer {
   _id: string;
   name: string;
@@ -22,6 +32,7 @@ export interface Designer {
   subscription: "free" | "plus" | "pro";
   subscriptionExpiry?: string;
   paystackCustomerId?: string;
+  subscriptionBilling?: SubscriptionBilling;
   role: DesignerRole;
   teamOwnerId?: string;
   lifetimeCounts: LifetimeCounts;
@@ -61,6 +72,10 @@ export interface Client {
   lastMeasuredAt?: string;
   scanLink?: string;
   shareCode?: string;
+  /** Order emails on (default) or off — see lib/client-emails */
+  emailUpdates?: boolean;
+  /** Set when the client used an unsubscribe link */
+  emailUnsubscribedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -125,6 +140,34 @@ export interface Payment {
   paidAt: string;
 }
 
+export interface OrderItem {
+  _id?: string;
+  garmentType: string;
+  description?: string;
+  fabric?: string;
+  quantity: number;
+  unitPrice: number;
+  price: number;
+  status: OrderStatus;
+  /** Measurement snapshot (inches) taken when the item was added */
+  measurements?: Record<string, number>;
+  /** When the snapshotted measurements were taken */
+  measuredAt?: string;
+  fit?: "fitted" | "standard" | "loose";
+  /** Ease-adjusted cutting values (inches) for `fit` */
+  cuttingMeasurements?: Record<string, number>;
+  fabricWidthCm?: number;
+  notes?: string;
+}
+
+export interface MeasurementLogEntry {
+  event: "created" | "cutting" | "refreshed";
+  measuredAt?: string;
+  note?: string;
+  by?: string;
+  at: string;
+}
+
 export interface Order {
   _id: string;
   designerId: string;
@@ -137,6 +180,13 @@ export interface Order {
   garmentType: string;
   fabric?: string;
   fabricImages?: string[];
+  /** Line items — empty/absent on single-garment orders created before items */
+  items?: OrderItem[];
+  /** Every line carries a locked measurement snapshot since this date */
+  measurementsLockedAt?: string;
+  measurementLog?: MeasurementLogEntry[];
+  /** Set when the order belongs to an aso-ebi / event group */
+  groupOrderId?: string;
   price: number;
   currency: string;
   depositPaid: number;
@@ -159,6 +209,8 @@ export interface Order {
   /** Active paid boost — pinned to the top of /discover until this date. */
   boostedUntil?: string;
   boostCount?: number;
+  /** This order's client emails (the client's own switch must be on too) */
+  emailUpdates?: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -172,7 +224,9 @@ export type OrderStatus =
   | "finishing"
   | "ready"
   | "delivered"
-  | "cancelled";
+  | "cancelled"
+  // Designers can add their own stages (see lib/order-transitions)
+  | (string & {});
 
 export interface ScanSession {
   _id: string;